@@ -0,0 +1,121 @@
+/**
+ * Unit tests for the adapter capability registry
+ * Routing by capability, skipping unusable adapters and health checks
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import yaml from 'js-yaml';
+import { AdapterRegistry, registerAdapterProvider } from '../adapters/AdapterRegistry';
+import { ADAPTER_CAPABILITIES, AdapterCapability, DataSourcesConfig, MarketLine, hasCapability } from '../adapters/DataSourceAdapter';
+
+function fakeAdapter(name: string, capabilities: AdapterCapability[], available = true) {
+  return {
+    capabilities,
+    getName: () => name,
+    isAvailable: async () => available,
+    getMarketLines: async (): Promise<MarketLine[]> => [],
+  };
+}
+
+registerAdapterProvider('test-odds', {
+  capabilities: ['odds'],
+  create: config => ({
+    ...fakeAdapter(config.label, ['odds'], config.available !== false),
+    checkHealth: async () => ({ ok: true, message: 'reachable', quotaRemaining: 42 }),
+  }),
+});
+registerAdapterProvider('test-weather', {
+  capabilities: ['weather'],
+  create: () => ({ ...fakeAdapter('weather', ['weather']), fetchWeatherForGames: async () => {} }),
+});
+registerAdapterProvider('test-keyed', {
+  capabilities: ['odds'],
+  create: () => {
+    throw new Error('TEST_API_KEY environment variable is required.\nGet one from the provider.');
+  },
+});
+
+const CONFIG = `
+adapters:
+  primary:
+    provider: "test-odds"
+    enabled: true
+    config: { label: "primary" }
+  backup:
+    provider: "test-odds"
+    enabled: true
+    config: { label: "backup" }
+  offline:
+    provider: "test-odds"
+    enabled: true
+    config: { label: "offline", available: false }
+  keyed:
+    provider: "test-keyed"
+    enabled: true
+    config: {}
+  retired:
+    provider: "test-odds"
+    enabled: false
+    config: { label: "retired" }
+  weather:
+    provider: "test-weather"
+    enabled: true
+    config: {}
+  future:
+    provider: "sports-reference"
+    enabled: true
+    config: {}
+routing:
+  odds: ["keyed", "backup", "retired", "offline", "primary"]
+defaultAdapter: "primary"
+`;
+
+describe('AdapterRegistry', () => {
+  const registry = new AdapterRegistry(yaml.load(CONFIG) as DataSourcesConfig);
+
+  test('routes capabilities in the configured order, skipping disabled adapters', () => {
+    expect(registry.getAdaptersFor('odds')).toEqual(['keyed', 'backup', 'offline', 'primary']);
+    expect(registry.getAdaptersFor('weather')).toEqual(['weather']);
+    expect(registry.getAdaptersFor('rankings')).toEqual([]);
+    expect(registry.getCapabilities('future')).toEqual([]);
+  });
+
+  test('creates only usable adapters for a capability', async () => {
+    const created = await registry.createAdaptersFor('odds', { exclude: ['primary'] });
+    expect(created.map(c => c.name)).toEqual(['backup']);
+    expect((await registry.createAdapterFor('odds')).adapter.getName()).toBe('backup');
+    await expect(registry.createAdapterFor('rankings')).rejects.toThrow('No enabled adapter provides rankings');
+  });
+
+  test('narrows adapters by declared capability', async () => {
+    const adapter = await registry.createAdapter('weather');
+    expect(hasCapability(adapter, 'weather')).toBe(true);
+    expect(hasCapability(adapter, 'odds')).toBe(false);
+    await expect(registry.createAdapter('future')).rejects.toThrow('not yet implemented');
+    await expect(registry.createAdapter('retired')).rejects.toThrow('disabled');
+  });
+
+  test('reports health without throwing', async () => {
+    const health = await registry.checkHealth(['primary', 'offline', 'keyed', 'weather']);
+    expect(health.map(h => [h.adapter, h.ok])).toEqual([
+      ['primary', true], ['offline', true], ['keyed', false], ['weather', true],
+    ]);
+    expect(health[0]).toMatchObject({ message: 'reachable', quotaRemaining: 42, capabilities: ['odds'] });
+    expect(health[2]).toMatchObject({ message: 'TEST_API_KEY environment variable is required.', latencyMs: null });
+    expect(health[3].message).toBe('configured');
+  });
+});
+
+describe('datasources.yml', () => {
+  test('routing names enabled adapters for known capabilities', () => {
+    const config = yaml.load(fs.readFileSync(path.join(__dirname, '../../../datasources.yml'), 'utf8')) as DataSourcesConfig;
+    expect(config.routing?.odds).toEqual(['oddsapi', 'sgo']);
+    for (const [capability, names] of Object.entries(config.routing ?? {})) {
+      expect(ADAPTER_CAPABILITIES).toContain(capability);
+      for (const name of names ?? []) {
+        expect(config.adapters[name]?.enabled).toBe(true);
+      }
+    }
+  });
+});
@@ -0,0 +1,65 @@
+/**
+ * Unit tests for the ESPN depth chart parsing in ESPNInjuryAdapter.ts
+ * Player name keys and depth-chart ranks across formations
+ */
+
+import { depthChartNameKey, depthRanksFromChart } from '../adapters/ESPNInjuryAdapter';
+
+describe('depthChartNameKey', () => {
+  test('ignores case, punctuation and spacing', () => {
+    expect(depthChartNameKey("  Ja'Marr  Chase Jr. ")).toBe('jamarr chase jr');
+    expect(depthChartNameKey('T.J. Smith')).toBe(depthChartNameKey('TJ Smith'));
+  });
+});
+
+describe('depthRanksFromChart', () => {
+  const chart = {
+    depthchart: [
+      {
+        name: '3WR 1TE',
+        positions: {
+          qb: { position: { abbreviation: 'QB' }, athletes: [{ displayName: 'Will Howard' }, { displayName: 'Devin Brown' }] },
+          wr: { position: { abbreviation: 'WR' }, athletes: [{ displayName: 'Emeka Egbuka' }, { displayName: 'Brandon Inniss' }] },
+        },
+      },
+      {
+        name: 'Base 4-3 D',
+        positions: {
+          wlb: { position: { abbreviation: 'WLB' }, athletes: [{ fullName: 'Cody Simon' }, { displayName: 'Arvell Reese' }] },
+        },
+      },
+      {
+        name: 'Special Teams',
+        positions: {
+          kr: { position: { abbreviation: 'KR' }, athletes: [{ displayName: 'Brandon Inniss' }] },
+        },
+      },
+    ],
+  };
+
+  test('rank is the position in the depth order (1 = starter)', () => {
+    const ranks = depthRanksFromChart(chart);
+    expect(ranks.get('will howard')).toBe(1);
+    expect(ranks.get('devin brown')).toBe(2);
+    expect(ranks.get('cody simon')).toBe(1);
+    expect(ranks.get('arvell reese')).toBe(2);
+  });
+
+  test('a player listed in several formations keeps the best rank', () => {
+    const twoFormations = {
+      depthchart: [
+        { name: '3WR 1TE', positions: { te: { athletes: [{ displayName: 'Gee Scott' }, { displayName: 'Will Kacmarek' }] } } },
+        { name: '2TE', positions: { te2: { athletes: [{ displayName: 'Will Kacmarek' }] } } },
+      ],
+    };
+    expect(depthRanksFromChart(twoFormations).get('will kacmarek')).toBe(1);
+  });
+
+  test('special teams do not lift a backup to starter', () => {
+    expect(depthRanksFromChart(chart).get('brandon inniss')).toBe(2);
+  });
+
+  test('an empty payload has no ranks', () => {
+    expect(depthRanksFromChart({}).size).toBe(0);
+  });
+});
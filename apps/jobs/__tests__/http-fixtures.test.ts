@@ -0,0 +1,89 @@
+/**
+ * Unit tests for the HTTP record/replay layer
+ * Fixture keys, secret stripping, record → replay round trip and env install
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import {
+  HttpFixtureMissingError,
+  createFixtureFetch,
+  fixturePath,
+  fixtureUrl,
+  installHttpFixturesFromEnv,
+} from '../lib/http-fixtures';
+
+function tempDir(): string {
+  return fs.mkdtempSync(path.join(os.tmpdir(), 'http-fixtures-'));
+}
+
+describe('fixture keys', () => {
+  test('strip credentials and sort query params', () => {
+    expect(fixtureUrl('https://api.the-odds-api.com/v4/sports?regions=us&apiKey=secret&markets=spreads'))
+      .toBe('https://api.the-odds-api.com/v4/sports?markets=spreads&regions=us');
+  });
+
+  test('same request, same file regardless of key or param order', () => {
+    const a = fixturePath('fx', 'GET', 'https://api.collegefootballdata.com/games?year=2024&week=1');
+    const b = fixturePath('fx', 'get', 'https://api.collegefootballdata.com/games?week=1&year=2024&apiKey=x');
+    const c = fixturePath('fx', 'GET', 'https://api.collegefootballdata.com/games?year=2024&week=2');
+    expect(a).toBe(b);
+    expect(a).not.toBe(c);
+    expect(a).toMatch(/^fx\/api\.collegefootballdata\.com\/get_games_[0-9a-f]{12}\.json$/);
+  });
+});
+
+describe('record and replay', () => {
+  test('a recorded response replays offline', async () => {
+    const dir = tempDir();
+    const calls: string[] = [];
+    const liveFetch = (async (input: any) => {
+      calls.push(String(input));
+      return new Response(JSON.stringify([{ id: 1, homeTeam: 'Georgia' }]), {
+        status: 200,
+        headers: { 'content-type': 'application/json', 'x-requests-remaining': '499', 'set-cookie': 'a=b' },
+      });
+    }) as typeof fetch;
+    const url = 'https://api.collegefootballdata.com/games?year=2024&week=1';
+
+    const recording = createFixtureFetch({ mode: 'record', dir, fetchImpl: liveFetch, log: false });
+    const recorded = await recording(url, { headers: { Authorization: 'Bearer secret' } });
+    expect(await recorded.json()).toEqual([{ id: 1, homeTeam: 'Georgia' }]);
+
+    const stored = fs.readFileSync(fixturePath(dir, 'GET', url), 'utf8');
+    expect(stored).not.toContain('secret');
+    expect(stored).not.toContain('set-cookie');
+
+    const replaying = createFixtureFetch({ mode: 'replay', dir, fetchImpl: liveFetch });
+    const replayed = await replaying(new URL(url));
+    expect(calls).toHaveLength(1);
+    expect(replayed.status).toBe(200);
+    expect(replayed.headers.get('x-requests-remaining')).toBe('499');
+    expect(await replayed.json()).toEqual([{ id: 1, homeTeam: 'Georgia' }]);
+  });
+
+  test('error responses and plain text are kept as recorded', async () => {
+    const dir = tempDir();
+    const liveFetch = (async () => new Response('rate limited', { status: 429, statusText: 'Too Many Requests' })) as typeof fetch;
+    await createFixtureFetch({ mode: 'record', dir, fetchImpl: liveFetch, log: false })('https://example.com/odds');
+
+    const replayed = await createFixtureFetch({ mode: 'replay', dir })('https://example.com/odds');
+    expect(replayed.ok).toBe(false);
+    expect(replayed.statusText).toBe('Too Many Requests');
+    expect(await replayed.text()).toBe('rate limited');
+  });
+
+  test('unrecorded requests fail in replay', async () => {
+    const replaying = createFixtureFetch({ mode: 'replay', dir: tempDir() });
+    await expect(replaying('https://example.com/missing?apiKey=x')).rejects.toThrow(HttpFixtureMissingError);
+    await expect(replaying('https://example.com/missing?apiKey=x')).rejects.toThrow('GET https://example.com/missing (expected');
+  });
+});
+
+describe('installHttpFixturesFromEnv', () => {
+  test('off by default; rejects unknown modes', () => {
+    expect(installHttpFixturesFromEnv({})).toBe('off');
+    expect(() => installHttpFixturesFromEnv({ HTTP_FIXTURES: 'sometimes' })).toThrow('Invalid HTTP_FIXTURES');
+  });
+});
@@ -0,0 +1,117 @@
+/**
+ * Unit tests for ingest-minimal.ts
+ * The Odds API writer runs inside an IngestRun, so names the adapter could not
+ * match reach the unmatched_team_names queue and written lines carry the run id
+ */
+
+import { activeIngestRun } from '../lib/ingest-run';
+import { PrismaClient } from '@prisma/client';
+import { main } from '../ingest-minimal';
+
+// ingest-minimal builds its client at import time, so the factory owns the fake
+function mockFakePrisma() {
+  const writes: { op: string; args: any }[] = [];
+  return {
+    writes,
+    ingestRun: {
+      create: async (args: any) => {
+        writes.push({ op: 'run.create', args });
+        return { id: 'run-1' };
+      },
+      update: async (args: any) => {
+        writes.push({ op: 'run.update', args });
+        return {};
+      },
+    },
+    unmatchedTeamName: {
+      findUnique: async () => null,
+      create: async (args: any) => {
+        writes.push({ op: 'queue', args });
+        return {};
+      },
+    },
+    marketLine: {
+      deleteMany: async () => ({ count: 0 }),
+      createMany: async (args: any) => {
+        writes.push({ op: 'lines.create', args });
+        return { count: args.data.length };
+      },
+      count: async () => 1,
+    },
+    $disconnect: async () => {},
+  };
+}
+
+jest.mock('@prisma/client', () => {
+  const prisma = mockFakePrisma();
+  return { PrismaClient: jest.fn(() => prisma) };
+});
+
+// ingest-minimal imports with .js specifiers (ESM build); map them onto the sources
+jest.mock('../lib/ingest-run.js', () => jest.requireActual('../lib/ingest-run'), { virtual: true });
+jest.mock('../lib/bookmaker-normalizer.js', () => jest.requireActual('../lib/bookmaker-normalizer'), { virtual: true });
+
+// Reports its unmatched names into the active run the way OddsApiAdapter does
+jest.mock('../adapters/OddsApiAdapter.js', () => ({
+  OddsApiAdapter: class {
+    async getMarketLines(season: number, weeks: number[]) {
+      jest.requireActual('../lib/ingest-run').activeIngestRun()?.unmatched('Sam Houston St Bearkats');
+      return [{
+        season,
+        week: weeks[0],
+        gameId: '2024-wk1-sam-houston-rice',
+        lineType: 'total',
+        lineValue: 41.5,
+        closingLine: -110,
+        bookName: 'draftkings',
+        source: 'oddsapi',
+        timestamp: '2024-08-31T15:00:00Z',
+      }];
+    }
+  },
+}), { virtual: true });
+
+const { writes: mockWrites } = new PrismaClient() as unknown as ReturnType<typeof mockFakePrisma>;
+const ORIGINAL_ARGV = process.argv;
+const ORIGINAL_ENV = { ...process.env };
+
+beforeEach(() => {
+  mockWrites.length = 0;
+  jest.spyOn(console, 'log').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  process.argv = ORIGINAL_ARGV;
+  process.env = { ...ORIGINAL_ENV };
+  jest.restoreAllMocks();
+});
+
+test('queues unmatched Odds API names when the run closes', async () => {
+  process.argv = ['node', 'ingest-minimal.ts', 'oddsapi', '--season', '2024', '--weeks', '1'];
+  await main();
+
+  expect(activeIngestRun()).toBeNull();
+  const created = mockWrites.find(w => w.op === 'run.create')!.args.data;
+  expect(created).toMatchObject({ jobName: 'ingest-minimal', adapter: 'oddsapi', season: 2024, weeks: [1] });
+
+  const lines = mockWrites.find(w => w.op === 'lines.create')!.args.data;
+  expect(lines[0]).toMatchObject({ ingestRunId: 'run-1', bookName: 'DraftKings' });
+
+  const closed = mockWrites.find(w => w.op === 'run.update')!.args.data;
+  expect(closed).toMatchObject({ status: 'success', rowsInserted: 1, unmatchedTeams: ['Sam Houston St Bearkats'] });
+
+  const queued = mockWrites.filter(w => w.op === 'queue').map(w => w.args.data);
+  expect(queued).toEqual([expect.objectContaining({
+    provider: 'oddsapi',
+    providerName: 'Sam Houston St Bearkats',
+    jobName: 'ingest-minimal',
+    lastIngestRunId: 'run-1',
+  })]);
+});
+
+test('a dry run opens no ledger entry', async () => {
+  process.argv = ['node', 'ingest-minimal.ts', 'oddsapi', '--season', '2024', '--weeks', '1', '--dry-run'];
+  await main();
+
+  expect(mockWrites).toEqual([]);
+});
@@ -0,0 +1,138 @@
+/**
+ * Unit tests for the IngestRun ledger
+ * Status resolution, counters, active-run handling and ledger writes
+ */
+
+import { activeIngestRun, resolveIngestRunStatus, startIngestRun, withIngestRun } from '../lib/ingest-run';
+
+function fakePrisma() {
+  const writes: { op: string; args: any }[] = [];
+  let nextId = 1;
+  return {
+    writes,
+    ingestRun: {
+      create: async (args: any) => {
+        writes.push({ op: 'create', args });
+        return { id: `run-${nextId++}` };
+      },
+      update: async (args: any) => {
+        writes.push({ op: 'update', args });
+        return {};
+      },
+    },
+    unmatchedTeamName: {
+      findUnique: async () => null,
+      create: async (args: any) => {
+        writes.push({ op: 'queue', args });
+        return {};
+      },
+    },
+  };
+}
+
+beforeEach(() => {
+  jest.spyOn(console, 'log').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+describe('resolveIngestRunStatus', () => {
+  test('success without errors, partial with rows written, failed otherwise', () => {
+    expect(resolveIngestRunStatus({ rowsInserted: 0, rowsUpdated: 0, errors: [] })).toBe('success');
+    expect(resolveIngestRunStatus({ rowsInserted: 3, rowsUpdated: 0, errors: ['x'] })).toBe('partial');
+    expect(resolveIngestRunStatus({ rowsInserted: 0, rowsUpdated: 0, errors: ['x'] })).toBe('failed');
+  });
+});
+
+describe('IngestRun', () => {
+  test('records counts, unmatched teams and credits on finish', async () => {
+    const prisma = fakePrisma();
+    const run = await startIngestRun(prisma, { jobName: 'ingest', adapter: 'oddsapi', season: 2024, weeks: [1] });
+    expect(activeIngestRun()).toBe(run);
+    expect(prisma.writes[0].args.data).toMatchObject({ jobName: 'ingest', adapter: 'oddsapi', status: 'running', weeks: [1] });
+
+    run.inserted(10);
+    run.updated();
+    run.skipped(2);
+    run.credits(3);
+    run.credits(NaN);
+    run.unmatched('Sam Houston', 'App State', 'Sam Houston');
+
+    expect(await run.finish()).toBe('success');
+    expect(activeIngestRun()).toBeNull();
+
+    const update = prisma.writes[1].args;
+    expect(update.where).toEqual({ id: 'run-1' });
+    expect(update.data).toMatchObject({
+      status: 'success',
+      rowsInserted: 10,
+      rowsUpdated: 1,
+      rowsSkipped: 2,
+      apiCreditsUsed: 3,
+      unmatchedTeams: ['App State', 'Sam Houston'],
+      errors: [],
+    });
+    expect(update.data.finishedAt).toBeInstanceOf(Date);
+
+    const queued = prisma.writes.filter(w => w.op === 'queue').map(w => w.args.data);
+    expect(queued).toHaveLength(2);
+    expect(queued[0]).toMatchObject({ provider: 'oddsapi', providerName: 'App State', jobName: 'ingest', season: 2024, weeks: [1], lastIngestRunId: 'run-1' });
+  });
+
+  test('finish is idempotent and a fatal error fails the run', async () => {
+    const prisma = fakePrisma();
+    const run = await startIngestRun(prisma, { jobName: 'cfbd_team_stats' });
+    run.inserted(5);
+
+    expect(await run.finish(new Error('CFBD API error: 401'))).toBe('failed');
+    expect(await run.finish()).toBe('failed');
+    expect(prisma.writes.filter(w => w.op === 'update')).toHaveLength(1);
+    expect(prisma.writes[1].args.data.errors).toEqual(['CFBD API error: 401']);
+  });
+
+  test('caps stored errors', async () => {
+    const prisma = fakePrisma();
+    const run = await startIngestRun(prisma, { jobName: 'ingest' });
+    for (let i = 0; i < 60; i++) run.error(`line ${i}`);
+
+    const { errors } = run.snapshot();
+    expect(errors).toHaveLength(51);
+    expect(errors[50]).toBe('…and 10 more');
+    await run.finish();
+  });
+
+  test('a ledger write failure does not throw', async () => {
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+    const prisma = fakePrisma();
+    prisma.ingestRun.update = async () => {
+      throw new Error('connection lost');
+    };
+    const run = await startIngestRun(prisma, { jobName: 'ingest' });
+    await expect(run.finish()).resolves.toBe('success');
+  });
+});
+
+describe('withIngestRun', () => {
+  test('closes the run and rethrows on failure', async () => {
+    const prisma = fakePrisma();
+    await expect(withIngestRun(prisma, { jobName: 'cfbd_rankings_etl' }, async run => {
+      run.updated(25);
+      throw new Error('boom');
+    })).rejects.toThrow('boom');
+
+    expect(prisma.writes[1].args.data).toMatchObject({ status: 'failed', rowsUpdated: 25, errors: ['boom'] });
+    expect(activeIngestRun()).toBeNull();
+  });
+
+  test('returns the result of a successful job', async () => {
+    const prisma = fakePrisma();
+    const result = await withIngestRun(prisma, { jobName: 'manual_injury_etl' }, async run => {
+      run.inserted();
+      return 'ok';
+    });
+    expect(result).toBe('ok');
+    expect(prisma.writes[1].args.data.status).toBe('success');
+  });
+});
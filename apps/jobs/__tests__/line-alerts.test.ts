@@ -0,0 +1,102 @@
+/**
+ * Unit tests for line-alert-rules.ts
+ * Series building, key-number crossings, moves from open and moves against bets
+ */
+
+import {
+  AlertRuleInput,
+  LineSnapshotInput,
+  buildLineSeries,
+  crossedKeyNumbers,
+  evaluateLineAlerts,
+  movementAgainstBet,
+} from '../src/alerts/line-alert-rules';
+
+const game = { id: 'g1', homeTeamId: 'home', awayTeamId: 'away', homeName: 'Home', awayName: 'Away' };
+
+function at(hour: number): Date {
+  return new Date(Date.UTC(2025, 9, 20, hour));
+}
+
+/** Home spread snapshot: -3 means home laying 3 */
+function homeSpread(lineValue: number, hour: number, bookName = 'DraftKings'): LineSnapshotInput {
+  return { lineType: 'spread', lineValue, bookName, teamId: 'home', timestamp: at(hour), createdAt: at(hour) };
+}
+
+function rule(overrides: Partial<AlertRuleInput>): AlertRuleInput {
+  return {
+    id: 'r1',
+    name: 'rule',
+    type: 'key_number',
+    marketType: null,
+    threshold: null,
+    keyNumbers: [3, 7, 10],
+    bookName: null,
+    ...overrides,
+  };
+}
+
+describe('buildLineSeries', () => {
+  test('orients spreads to HMA and skips teamless rows', () => {
+    const series = buildLineSeries(game, [
+      homeSpread(-3, 1),
+      { ...homeSpread(3, 1), teamId: 'away' },
+      { ...homeSpread(4, 2), teamId: 'away' },
+      { ...homeSpread(-6, 3), teamId: null },
+    ]);
+    expect(series.get('spread|DraftKings')!.map(p => p.value)).toEqual([3, 4]);
+  });
+});
+
+describe('crossedKeyNumbers / movementAgainstBet', () => {
+  test('moving through a key number counts, landing on it does not', () => {
+    expect(crossedKeyNumbers(2.5, 3.5, [3, 7])).toEqual([3]);
+    expect(crossedKeyNumbers(-6.5, -10.5, [3, 7, 10])).toEqual([7, 10]);
+    expect(crossedKeyNumbers(2.5, 3, [3])).toEqual([]);
+  });
+
+  test('against is positive when the market moves away from the bet side', () => {
+    // Home bet at HMA 3, now 1.5: home favored less
+    expect(movementAgainstBet('spread', 'home', 3, 1.5)).toBe(1.5);
+    expect(movementAgainstBet('spread', 'away', 3, 1.5)).toBe(-1.5);
+    expect(movementAgainstBet('total', 'over', 48, 46)).toBe(2);
+  });
+});
+
+describe('evaluateLineAlerts', () => {
+  test('fires key number and move-from-open alerts once per transition', () => {
+    const lines = [homeSpread(-2.5, 1), homeSpread(-3.5, 2), homeSpread(-4.5, 3)];
+    const rules = [rule({ id: 'key' }), rule({ id: 'move', type: 'line_move', threshold: 1.5 })];
+
+    const alerts = evaluateLineAlerts(game, lines, rules, []);
+
+    expect(alerts.map(a => `${a.ruleId}@${a.toValue}`)).toEqual(['key@3.5', 'move@4.5']);
+    expect(alerts[0].message).toContain('crossed 3');
+    expect(alerts[0].message).toContain('Home -2.5 → Home -3.5');
+    expect(new Set(alerts.map(a => a.dedupKey)).size).toBe(2);
+  });
+
+  test('since skips transitions stored before it', () => {
+    const lines = [homeSpread(-2.5, 1), homeSpread(-3.5, 2), homeSpread(-2.5, 3)];
+    const alerts = evaluateLineAlerts(game, lines, [rule({})], [], at(3));
+    expect(alerts).toHaveLength(1);
+    expect(alerts[0].toValue).toBe(2.5);
+  });
+
+  test('against_bet measures from the line when the bet was placed', () => {
+    const lines = [homeSpread(-7, 1), homeSpread(-3, 2), homeSpread(-2.5, 4), homeSpread(-1.5, 5)];
+    const bets = [{ id: 'b1', marketType: 'spread', side: 'home', createdAt: at(3) }];
+    const alerts = evaluateLineAlerts(game, lines, [rule({ type: 'against_bet', threshold: 1 })], bets);
+
+    // Bet at HMA 3; 2.5 is only 0.5 against, 1.5 is 1.5 against
+    expect(alerts).toHaveLength(1);
+    expect(alerts[0].betId).toBe('b1');
+    expect(alerts[0].toValue).toBe(1.5);
+  });
+
+  test('rule market and book filters apply', () => {
+    const lines = [homeSpread(-2.5, 1), homeSpread(-3.5, 2), homeSpread(-2.5, 1, 'FanDuel'), homeSpread(-3.5, 2, 'FanDuel')];
+    expect(evaluateLineAlerts(game, lines, [rule({ bookName: 'FanDuel' })], [])).toHaveLength(1);
+    expect(evaluateLineAlerts(game, lines, [rule({ marketType: 'total' })], [])).toHaveLength(0);
+  });
+});
@@ -0,0 +1,91 @@
+/**
+ * Unit tests for the live score adapters
+ * Clock parsing, CFBD scoreboard mapping and file replay stepping
+ */
+
+import * as path from 'path';
+import { LiveScoreUpdate, parseClock } from '../adapters/LiveScoreAdapter';
+import { mapScoreboardGame } from '../adapters/CFBDLiveScoreAdapter';
+import { FileReplayLiveScoreAdapter, parseReplayRecords } from '../adapters/FileReplayLiveScoreAdapter';
+
+const recordedAt = new Date('2025-11-15T20:00:00Z');
+
+function update(minute: number, overrides: Partial<LiveScoreUpdate> = {}): LiveScoreUpdate {
+  return {
+    season: 2025,
+    week: 12,
+    homeTeam: 'Home',
+    awayTeam: 'Away',
+    status: 'in_progress',
+    period: 1,
+    clockSeconds: 900,
+    homeScore: 0,
+    awayScore: 0,
+    possession: null,
+    recordedAt: new Date(recordedAt.getTime() + minute * 60000),
+    ...overrides,
+  };
+}
+
+describe('parseClock', () => {
+  test('reads MM:SS, HH:MM:SS and seconds', () => {
+    expect(parseClock('10:23')).toBe(623);
+    expect(parseClock('00:10:23')).toBe(623);
+    expect(parseClock(95)).toBe(95);
+    expect(parseClock(null)).toBe(0);
+    expect(parseClock('--')).toBe(0);
+  });
+});
+
+describe('mapScoreboardGame', () => {
+  const base = {
+    id: 1,
+    startDate: '2025-11-15T19:30:00Z',
+    homeTeam: { name: 'Georgia', points: 14 },
+    awayTeam: { name: 'Alabama', points: 10 },
+  };
+
+  test('maps in-progress games with clock and possession', () => {
+    const mapped = mapScoreboardGame({ ...base, status: 'in_progress', period: 3, clock: '04:12', possession: 'away' }, 2025, 12, recordedAt)!;
+    expect(mapped).toMatchObject({
+      homeTeam: 'Georgia', status: 'in_progress', period: 3, clockSeconds: 252,
+      homeScore: 14, awayScore: 10, possession: 'away', week: 12,
+    });
+  });
+
+  test('completed games are final; scheduled games are skipped', () => {
+    expect(mapScoreboardGame({ ...base, status: 'completed', period: 4, clock: '00:00' }, 2025, 12, recordedAt)!.status).toBe('final');
+    expect(mapScoreboardGame({ ...base, status: 'scheduled' }, 2025, 12, recordedAt)).toBeNull();
+  });
+});
+
+describe('FileReplayLiveScoreAdapter', () => {
+  test('returns one recorded timestamp per poll, then nothing', async () => {
+    const adapter = FileReplayLiveScoreAdapter.fromUpdates([
+      update(10, { homeTeam: 'B' }),
+      update(0),
+      update(10),
+      update(20, { week: 13 }),
+    ]);
+    expect((await adapter.getLiveScores(2025, 12)).length).toBe(1);
+    expect((await adapter.getLiveScores(2025, 12)).map(u => u.homeTeam).sort()).toEqual(['B', 'Home']);
+    expect(adapter.isExhausted()).toBe(false);
+    expect(await adapter.getLiveScores(2025, 12)).toEqual([]);
+    expect(adapter.isExhausted()).toBe(true);
+  });
+
+  test('parses replay files', async () => {
+    const records = parseReplayRecords([
+      { season: 2025, week: 1, homeTeam: 'H', awayTeam: 'A', status: 'final', period: 4, clock: '0:00', homeScore: 21, awayScore: 20, recordedAt: '2025-09-01T02:00:00Z' },
+      { season: 2025, week: 1, homeTeam: 'H', awayTeam: 'A', period: 2, clock: '7:30', homeScore: 7, awayScore: 3, possession: 'home', recordedAt: '2025-09-01T01:00:00Z' },
+    ]);
+    expect(records.map(r => r.status)).toEqual(['in_progress', 'final']);
+    expect(records[0].clockSeconds).toBe(450);
+    expect(() => parseReplayRecords([{ recordedAt: 'soon' }])).toThrow('bad recordedAt');
+
+    const sample = new FileReplayLiveScoreAdapter({ file: path.join(__dirname, '../../../data/live-replay-sample.json') });
+    expect(await sample.isAvailable()).toBe(true);
+    const first = await sample.getLiveScores(2024, 1);
+    expect(first[0]).toMatchObject({ gameId: 'game-1', period: 1, clockSeconds: 900 });
+  });
+});
@@ -0,0 +1,170 @@
+/**
+ * Unit tests for the job orchestrator
+ * Dependency ordering, retries, blocking, idempotent resume and cron matching
+ */
+
+import {
+  Pipeline,
+  PipelineDefinitionError,
+  PipelineJob,
+  PipelineRunStore,
+  cronMatches,
+  nextCronTime,
+  orderJobs,
+  pipelineRunKey,
+  runPipeline,
+} from '../lib/orchestrator';
+import { PIPELINES } from '../src/orchestrator/pipelines';
+
+function job(name: string, dependsOn: string[] = [], extra: Partial<PipelineJob> = {}): PipelineJob {
+  return { name, description: name, dependsOn, command: ctx => ['node', `${name}.js`, String(ctx.week)], ...extra };
+}
+
+function pipeline(jobs: PipelineJob[], idempotency: 'week' | 'day' = 'week'): Pipeline {
+  return { name: 'test', description: 'test', schedule: '0 8 * * 1', idempotency, jobs };
+}
+
+/** In-memory store: status per idempotency key */
+function memoryStore(): PipelineRunStore & { records: Map<string, { status: string; attempts: number; error?: string }> } {
+  const records = new Map<string, { status: string; attempts: number; error?: string }>();
+  return {
+    records,
+    succeeded: async key => records.get(key)?.status === 'success',
+    attempt: async record => {
+      records.set(record.idempotencyKey, { status: 'running', attempts: record.attempts });
+    },
+    finish: async (key, status, error) => {
+      records.set(key, { ...records.get(key)!, status, error });
+    },
+  };
+}
+
+const ctx = { season: 2025, week: 9 };
+const noSleep = async () => {};
+const quiet = () => {};
+
+describe('orderJobs', () => {
+  test('runs dependencies first, declaration order otherwise', () => {
+    const ordered = orderJobs([job('ratings', ['stats']), job('odds'), job('stats'), job('outputs', ['ratings', 'odds'])]);
+    expect(ordered.map(j => j.name)).toEqual(['odds', 'stats', 'ratings', 'outputs']);
+  });
+
+  test('rejects unknown dependencies, duplicates and cycles', () => {
+    expect(() => orderJobs([job('a', ['missing'])])).toThrow(PipelineDefinitionError);
+    expect(() => orderJobs([job('a'), job('a')])).toThrow('Duplicate job: a');
+    expect(() => orderJobs([job('a', ['b']), job('b', ['a']), job('c')])).toThrow('Dependency cycle among: a, b');
+  });
+
+  test('shipped pipelines are valid', () => {
+    for (const definition of Object.values(PIPELINES)) {
+      expect(orderJobs(definition.jobs)).toHaveLength(definition.jobs.length);
+      expect(() => nextCronTime(definition.schedule, new Date())).not.toThrow();
+    }
+    expect(orderJobs(PIPELINES.weekly.jobs).map(j => j.name).slice(-2)).toEqual(['matchup-outputs', 'grade-bets']);
+  });
+});
+
+describe('runPipeline', () => {
+  test('retries a failing job with backoff before succeeding', async () => {
+    const store = memoryStore();
+    const delays: number[] = [];
+    let calls = 0;
+    const result = await runPipeline(pipeline([job('odds', [], { retries: 2, retryDelayMs: 1000 })]), ctx, {
+      store,
+      execute: async () => {
+        if (++calls < 3) throw new Error('429 Too Many Requests');
+      },
+      sleep: async ms => { delays.push(ms); },
+      log: quiet,
+    });
+
+    expect(result.status).toBe('success');
+    expect(result.jobs[0]).toMatchObject({ status: 'success', attempts: 3 });
+    expect(delays).toEqual([1000, 2000]);
+    expect(store.records.get('test:odds:2025-w9')).toMatchObject({ status: 'success', attempts: 3 });
+  });
+
+  test('a failure blocks downstream jobs but not independent ones', async () => {
+    const store = memoryStore();
+    const ran: string[] = [];
+    const result = await runPipeline(
+      pipeline([job('stats'), job('ratings', ['stats']), job('outputs', ['ratings']), job('odds')]),
+      ctx,
+      {
+        store,
+        execute: async argv => {
+          ran.push(argv[1]);
+          if (argv[1] === 'stats.js') throw new Error('CFBD down');
+        },
+        sleep: noSleep,
+        log: quiet,
+      }
+    );
+
+    expect(result.status).toBe('failed');
+    expect(ran).toEqual(['stats.js', 'odds.js']);
+    expect(result.jobs.map(j => [j.job, j.status])).toEqual([
+      ['stats', 'failed'],
+      ['ratings', 'blocked'],
+      ['outputs', 'blocked'],
+      ['odds', 'success'],
+    ]);
+    expect(store.records.get('test:stats:2025-w9')).toMatchObject({ status: 'failed', error: 'CFBD down' });
+  });
+
+  test('running again resumes: succeeded jobs are skipped unless forced', async () => {
+    const store = memoryStore();
+    const definition = pipeline([job('stats'), job('ratings', ['stats'])]);
+    let ratingsFails = true;
+    const ran: string[] = [];
+    const execute = async (argv: string[]) => {
+      ran.push(argv[1]);
+      if (argv[1] === 'ratings.js' && ratingsFails) throw new Error('no stats yet');
+    };
+
+    await runPipeline(definition, ctx, { store, execute, sleep: noSleep, log: quiet });
+    ratingsFails = false;
+    const resumed = await runPipeline(definition, ctx, { store, execute, sleep: noSleep, log: quiet });
+    expect(resumed.jobs.map(j => j.status)).toEqual(['skipped', 'success']);
+    expect(ran).toEqual(['stats.js', 'ratings.js', 'ratings.js']);
+
+    const forced = await runPipeline(definition, ctx, { store, execute, sleep: noSleep, log: quiet, force: true });
+    expect(forced.jobs.map(j => j.status)).toEqual(['success', 'success']);
+  });
+
+  test('dry run neither executes nor records', async () => {
+    const store = memoryStore();
+    const execute = jest.fn(async () => {});
+    const result = await runPipeline(pipeline([job('odds')]), ctx, { store, execute, dryRun: true, log: quiet });
+    expect(result.status).toBe('success');
+    expect(execute).not.toHaveBeenCalled();
+    expect(store.records.size).toBe(0);
+  });
+
+  test('daily pipelines key runs by day', () => {
+    const now = new Date('2025-10-21T07:00:00Z');
+    expect(pipelineRunKey(pipeline([], 'week'), ctx, now)).toBe('2025-w9');
+    expect(pipelineRunKey(pipeline([], 'day'), ctx, now)).toBe('2025-w9-2025-10-21');
+  });
+});
+
+describe('cron', () => {
+  test('matches fields, ranges, lists and steps (UTC)', () => {
+    expect(cronMatches('0 8 * * 1', new Date('2025-10-20T08:00:00Z'))).toBe(true); // Monday
+    expect(cronMatches('0 8 * * 1', new Date('2025-10-21T08:00:00Z'))).toBe(false);
+    expect(cronMatches('*/15 0-6,22 * * *', new Date('2025-10-21T22:45:00Z'))).toBe(true);
+    expect(cronMatches('0 * * * 7', new Date('2025-10-19T13:00:00Z'))).toBe(true); // 7 = Sunday
+    // Day-of-month and day-of-week both restricted: either matches
+    expect(cronMatches('0 0 1 * 6', new Date('2025-10-25T00:00:00Z'))).toBe(true);
+  });
+
+  test('next firing time', () => {
+    expect(nextCronTime('0 8 * * 1', new Date('2025-10-20T08:00:00Z')).toISOString()).toBe('2025-10-27T08:00:00.000Z');
+    expect(nextCronTime('0 7 * * *', new Date('2025-10-20T06:59:30Z')).toISOString()).toBe('2025-10-20T07:00:00.000Z');
+  });
+
+  test('rejects malformed expressions', () => {
+    expect(() => cronMatches('0 8 * *', new Date())).toThrow(PipelineDefinitionError);
+    expect(() => cronMatches('61 * * * *', new Date())).toThrow(PipelineDefinitionError);
+  });
+});
@@ -0,0 +1,128 @@
+/**
+ * Unit tests for the team alias store
+ * YAML import/export layouts, alias keys, the unmatched-name queue and reprocessing
+ */
+
+import {
+  aliasKey,
+  aliasProviderFor,
+  buildAliasYaml,
+  groupReprocessTargets,
+  parseAliasYaml,
+  recordUnmatchedNames,
+  reprocessApprovedNames,
+  reprocessCommand,
+} from '../lib/team-aliases';
+
+beforeEach(() => {
+  jest.spyOn(console, 'log').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+describe('alias keys and providers', () => {
+  test('keys match the resolver normalization', () => {
+    expect(aliasKey('  San José State ')).toBe('san jose state');
+    expect(aliasKey('Texas A and M')).toBe('texas a&m');
+    expect(aliasKey('Texas A & M')).toBe('texas a&m');
+  });
+
+  test('cfbd jobs use the cfbd namespace', () => {
+    expect(aliasProviderFor('cfbd')).toBe('cfbd');
+    expect(aliasProviderFor('cfbd-rankings')).toBe('cfbd');
+    expect(aliasProviderFor('oddsapi')).toBe('general');
+    expect(aliasProviderFor('espn-injuries')).toBe('general');
+  });
+});
+
+describe('YAML import/export', () => {
+  test('round trips both layouts', () => {
+    const general = 'aliases:\n  App State: appalachian-state\n  UConn: connecticut\n  Empty: ""\ndenylist:\n  - Tennessee State\n';
+    const cfbd = 'Miami: miami\n';
+    const set = parseAliasYaml(general, cfbd);
+
+    expect(set.aliases).toEqual([
+      { provider: 'general', alias: 'App State', teamId: 'appalachian-state' },
+      { provider: 'general', alias: 'UConn', teamId: 'connecticut' },
+      { provider: 'cfbd', alias: 'Miami', teamId: 'miami' },
+    ]);
+    expect(set.denylist).toEqual(['Tennessee State']);
+
+    const files = buildAliasYaml(set);
+    expect(parseAliasYaml(files.general, files.cfbd)).toEqual(set);
+  });
+});
+
+describe('recordUnmatchedNames', () => {
+  test('repeat sightings in the same season widen the weeks', async () => {
+    const rows = new Map<string, any>();
+    const prisma = {
+      unmatchedTeamName: {
+        findUnique: async ({ where }: any) => rows.get(where.provider_providerName.providerName) ?? null,
+        create: async ({ data }: any) => rows.set(data.providerName, { ...data, occurrences: 1 }),
+        update: async ({ where, data }: any) => {
+          const row = rows.get(where.provider_providerName.providerName);
+          rows.set(row.providerName, { ...row, ...data, occurrences: row.occurrences + data.occurrences.increment });
+        },
+      },
+    };
+    const report = { provider: 'oddsapi', jobName: 'ingest', season: 2025, names: ['App St'] };
+
+    await recordUnmatchedNames(prisma, { ...report, weeks: [3], ingestRunId: 'run-1' });
+    await recordUnmatchedNames(prisma, { ...report, weeks: [1, 3] });
+    expect(rows.get('App St')).toMatchObject({ occurrences: 2, weeks: [1, 3], lastIngestRunId: 'run-1' });
+
+    await recordUnmatchedNames(prisma, { ...report, season: 2026, weeks: [1] });
+    expect(rows.get('App St')).toMatchObject({ occurrences: 3, season: 2026, weeks: [1] });
+  });
+});
+
+describe('reprocessing', () => {
+  const entries = [
+    { id: 'a', jobName: 'ingest', provider: 'oddsapi', season: 2025, weeks: [3] },
+    { id: 'b', jobName: 'ingest', provider: 'oddsapi', season: 2025, weeks: [1, 3] },
+    { id: 'c', jobName: 'cfbd_team_stats', provider: 'cfbd', season: 2025, weeks: [2] },
+    { id: 'd', jobName: 'manual_injury_etl', provider: 'manual', season: 2025, weeks: [2] },
+    { id: 'e', jobName: 'ingest', provider: 'oddsapi', season: null, weeks: [] },
+  ];
+
+  test('groups one re-run per job, provider and season', () => {
+    const { targets, unscoped } = groupReprocessTargets(entries);
+    expect(unscoped).toEqual(['e']);
+    expect(targets[0]).toEqual({ jobName: 'ingest', provider: 'oddsapi', season: 2025, weeks: [1, 3], ids: ['a', 'b'] });
+    expect(reprocessCommand(targets[0])).toEqual(['apps/jobs/dist/ingest.js', 'oddsapi', '--season', '2025', '--weeks', '1,3']);
+    expect(reprocessCommand(targets[1])).toEqual(['apps/jobs/dist/src/stats/cfbd_team_stats.js', '--season', '2025', '--weeks', '2']);
+    expect(reprocessCommand(targets[2])).toBeNull();
+  });
+
+  test('marks entries done, failed or manual', async () => {
+    const updates: any[] = [];
+    const prisma = {
+      unmatchedTeamName: {
+        findMany: async () => entries,
+        updateMany: async (args: any) => updates.push(args),
+      },
+    };
+    const run = jest.fn((args: string[]) => {
+      if (args[0].includes('cfbd_team_stats')) throw new Error('CFBD API error: 429');
+    });
+
+    expect(await reprocessApprovedNames(prisma, run)).toEqual({ done: 2, failed: 1, manual: 2 });
+    expect(run).toHaveBeenCalledTimes(2);
+
+    const byStatus = Object.fromEntries(updates.map(u => [u.data.reprocessStatus, u]));
+    expect(byStatus.done.where.id.in).toEqual(['a', 'b']);
+    expect(byStatus.failed.data.reprocessError).toBe('CFBD API error: 429');
+    expect(byStatus.manual.where.id.in).toEqual(['e', 'd']);
+  });
+
+  test('dry run neither runs jobs nor writes', async () => {
+    const prisma = { unmatchedTeamName: { findMany: async () => entries, updateMany: jest.fn() } };
+    const run = jest.fn();
+    await reprocessApprovedNames(prisma, run, { dryRun: true });
+    expect(run).not.toHaveBeenCalled();
+    expect(prisma.unmatchedTeamName.updateMany).not.toHaveBeenCalled();
+  });
+});
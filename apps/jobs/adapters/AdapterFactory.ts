@@ -1,92 +1,36 @@
 /**
  * M5 Adapter Factory
- * 
+ *
  * Creates and configures data source adapters based on configuration.
+ * Registers the built-in providers; creation, capability routing and health
+ * checks live in AdapterRegistry.
  */
 
 import yaml from 'js-yaml';
 import fs from 'fs';
-import path from 'path';
-import { DataSourceAdapter, AdapterConfig, DataSourcesConfig } from './DataSourceAdapter';
+import { DataSourcesConfig } from './DataSourceAdapter';
+import { AdapterRegistry, registerAdapterProvider } from './AdapterRegistry';
 import { MockAdapter } from './MockAdapter';
 import { SportsGameOddsAdapter } from './SportsGameOddsAdapter';
 import { VisualCrossingAdapter } from './VisualCrossingAdapter';
 import { CFBDAdapter } from './CFBDAdapter';
 import { OddsApiAdapter } from './OddsApiAdapter';
+import { ESPNInjuryAdapter } from './ESPNInjuryAdapter';
+import { CFBDRankingsAdapter } from './CFBDRankingsAdapter';
 
-export class AdapterFactory {
-  private config: DataSourcesConfig;
+registerAdapterProvider('mock', { capabilities: MockAdapter.CAPABILITIES, create: config => new MockAdapter(config as any) });
 
+// Live data adapters
+registerAdapterProvider('sgo', { capabilities: SportsGameOddsAdapter.CAPABILITIES, create: config => new SportsGameOddsAdapter(config as any) });
+registerAdapterProvider('weather-vc', { capabilities: VisualCrossingAdapter.CAPABILITIES, create: config => new VisualCrossingAdapter(config as any) });
+registerAdapterProvider('cfbd', { capabilities: CFBDAdapter.CAPABILITIES, create: config => new CFBDAdapter(config as any) });
+registerAdapterProvider('oddsapi', { capabilities: OddsApiAdapter.CAPABILITIES, create: config => new OddsApiAdapter(config as any) });
+registerAdapterProvider('espn-injuries', { capabilities: ESPNInjuryAdapter.CAPABILITIES, create: config => new ESPNInjuryAdapter(config) });
+registerAdapterProvider('cfbd-rankings', { capabilities: CFBDRankingsAdapter.CAPABILITIES, create: config => new CFBDRankingsAdapter(config) });
+
+export class AdapterFactory extends AdapterRegistry {
   constructor(configPath: string = 'datasources.yml') {
     const configFile = fs.readFileSync(configPath, 'utf8');
-    this.config = yaml.load(configFile) as DataSourcesConfig;
-  }
-
-  /**
-   * Create an adapter by name
-   */
-  async createAdapter(adapterName?: string): Promise<DataSourceAdapter> {
-    const name = adapterName || this.config.defaultAdapter;
-    const adapterConfig = this.config.adapters[name];
-
-    if (!adapterConfig) {
-      throw new Error(`Adapter '${name}' not found in configuration`);
-    }
-
-    if (!adapterConfig.enabled) {
-      throw new Error(`Adapter '${name}' is disabled`);
-    }
-
-    switch (adapterConfig.provider) {
-      case 'mock':
-        return new MockAdapter(adapterConfig.config as any);
-      
-      // Live data adapters
-      case 'sgo':
-        return new SportsGameOddsAdapter(adapterConfig.config as any);
-      
-      case 'weather-vc':
-        return new VisualCrossingAdapter(adapterConfig.config as any);
-      
-      case 'cfbd':
-        return new CFBDAdapter(adapterConfig.config as any);
-      
-      case 'oddsapi':
-        return new OddsApiAdapter(adapterConfig.config as any);
-      
-      case 'espn-injuries':
-        // ESPN injuries is handled specially, doesn't need an adapter class
-        return {
-          getName: () => 'ESPNInjuries',
-          isAvailable: async () => true,
-        } as DataSourceAdapter;
-      
-      // Future adapters
-      case 'espn':
-        throw new Error('ESPN adapter not yet implemented (use espn-injuries for injury data)');
-      case 'odds-api':
-        throw new Error('Odds API adapter not yet implemented (use oddsapi)');
-      case 'sports-reference':
-        throw new Error('Sports Reference adapter not yet implemented');
-      
-      default:
-        throw new Error(`Unknown adapter provider: ${adapterConfig.provider}`);
-    }
-  }
-
-  /**
-   * Get list of available adapters
-   */
-  getAvailableAdapters(): string[] {
-    return Object.keys(this.config.adapters).filter(
-      name => this.config.adapters[name].enabled
-    );
-  }
-
-  /**
-   * Get adapter configuration
-   */
-  getAdapterConfig(adapterName: string): AdapterConfig | undefined {
-    return this.config.adapters[adapterName];
+    super(yaml.load(configFile) as DataSourcesConfig);
   }
 }
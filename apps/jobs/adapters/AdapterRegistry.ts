@@ -0,0 +1,187 @@
+/**
+ * Adapter Registry
+ *
+ * Providers register with the capabilities they declare; the registry creates
+ * configured adapters and routes requests for a kind of data (odds, schedules,
+ * weather, ...) to every enabled adapter able to serve it, in the order given by
+ * `routing` in the data sources config. Built-in providers are registered by
+ * AdapterFactory.
+ */
+
+import {
+  AdapterCapability,
+  AdapterConfig,
+  AdapterHealth,
+  CapabilityProviders,
+  DataSourcesConfig,
+  SourceAdapter,
+  hasCapability,
+} from './DataSourceAdapter';
+
+export interface AdapterRegistration {
+  capabilities: AdapterCapability[];
+  create(config: Record<string, any>): SourceAdapter;
+}
+
+const PROVIDERS = new Map<string, AdapterRegistration>();
+
+// Future adapters
+const UNIMPLEMENTED_PROVIDERS: Record<string, string> = {
+  'espn': 'ESPN adapter not yet implemented (use espn-injuries for injury data)',
+  'odds-api': 'Odds API adapter not yet implemented (use oddsapi)',
+  'sports-reference': 'Sports Reference adapter not yet implemented',
+};
+
+/**
+ * Register (or replace) a provider
+ */
+export function registerAdapterProvider(provider: string, registration: AdapterRegistration): void {
+  PROVIDERS.set(provider, registration);
+}
+
+export class AdapterRegistry {
+  protected config: DataSourcesConfig;
+
+  constructor(config: DataSourcesConfig) {
+    this.config = config;
+  }
+
+  /**
+   * Create an adapter by name
+   */
+  async createAdapter(adapterName?: string): Promise<SourceAdapter> {
+    const name = adapterName || this.config.defaultAdapter;
+    const adapterConfig = this.config.adapters[name];
+
+    if (!adapterConfig) {
+      throw new Error(`Adapter '${name}' not found in configuration`);
+    }
+
+    if (!adapterConfig.enabled) {
+      throw new Error(`Adapter '${name}' is disabled`);
+    }
+
+    const registration = PROVIDERS.get(adapterConfig.provider);
+    if (!registration) {
+      throw new Error(UNIMPLEMENTED_PROVIDERS[adapterConfig.provider] || `Unknown adapter provider: ${adapterConfig.provider}`);
+    }
+    return registration.create(adapterConfig.config || {});
+  }
+
+  /**
+   * Capabilities declared by a configured adapter's provider
+   */
+  getCapabilities(adapterName: string): AdapterCapability[] {
+    const adapterConfig = this.config.adapters[adapterName];
+    return (adapterConfig && PROVIDERS.get(adapterConfig.provider)?.capabilities) || [];
+  }
+
+  /**
+   * Enabled adapters for a capability, in routing order
+   */
+  getAdaptersFor(capability: AdapterCapability): string[] {
+    const routed = this.config.routing?.[capability];
+    const candidates = routed ?? Object.keys(this.config.adapters);
+    return candidates.filter(name =>
+      this.config.adapters[name]?.enabled && this.getCapabilities(name).includes(capability)
+    );
+  }
+
+  /**
+   * Create every usable adapter for a capability, in routing order.
+   * Adapters that fail to construct (e.g. missing API key) or report
+   * unavailable are skipped.
+   */
+  async createAdaptersFor<C extends AdapterCapability>(
+    capability: C,
+    options: { exclude?: string[] } = {}
+  ): Promise<Array<{ name: string; adapter: CapabilityProviders[C] }>> {
+    const created: Array<{ name: string; adapter: CapabilityProviders[C] }> = [];
+    for (const name of this.getAdaptersFor(capability)) {
+      if (options.exclude?.includes(name)) continue;
+      try {
+        const adapter = await this.createAdapter(name);
+        if (hasCapability(adapter, capability) && await adapter.isAvailable()) {
+          created.push({ name, adapter });
+        }
+      } catch (error) {
+        console.warn(`   ⚠️  Skipping ${name} for ${capability}: ${(error as Error).message.split('\n')[0]}`);
+      }
+    }
+    return created;
+  }
+
+  /**
+   * First usable adapter for a capability
+   */
+  async createAdapterFor<C extends AdapterCapability>(capability: C): Promise<{ name: string; adapter: CapabilityProviders[C] }> {
+    const [first] = await this.createAdaptersFor(capability);
+    if (!first) {
+      throw new Error(`No enabled adapter provides ${capability}`);
+    }
+    return first;
+  }
+
+  /**
+   * Probe enabled adapters (all, or the named ones). Never throws: construction
+   * and probe failures are reported as unhealthy.
+   */
+  async checkHealth(adapterNames?: string[]): Promise<AdapterHealth[]> {
+    const names = adapterNames ?? this.getAvailableAdapters();
+    const results: AdapterHealth[] = [];
+
+    for (const name of names) {
+      const base = {
+        adapter: name,
+        provider: this.config.adapters[name]?.provider ?? 'unknown',
+        capabilities: this.getCapabilities(name),
+      };
+      const started = Date.now();
+      try {
+        const adapter = await this.createAdapter(name);
+        const probe = typeof adapter.checkHealth === 'function'
+          ? await adapter.checkHealth()
+          : (await adapter.isAvailable())
+            ? { ok: true, message: 'configured' }
+            : { ok: false, message: 'not available' };
+        results.push({
+          ...base,
+          ok: probe.ok,
+          message: probe.message,
+          quotaRemaining: probe.quotaRemaining ?? null,
+          quotaUsed: probe.quotaUsed ?? null,
+          latencyMs: Date.now() - started,
+          checkedAt: new Date(),
+        });
+      } catch (error) {
+        results.push({
+          ...base,
+          ok: false,
+          message: (error as Error).message.split('\n')[0],
+          quotaRemaining: null,
+          quotaUsed: null,
+          latencyMs: null,
+          checkedAt: new Date(),
+        });
+      }
+    }
+
+    return results;
+  }
+
+  /**
+   * Get list of available adapters
+   */
+  getAvailableAdapters(): string[] {
+    return Object.keys(this.config.adapters).filter(
+      name => this.config.adapters[name].enabled
+    );
+  }
+
+  /**
+   * Get adapter configuration
+   */
+  getAdapterConfig(adapterName: string): AdapterConfig | undefined {
+    return this.config.adapters[adapterName];
+  }
+}
@@ -5,7 +5,8 @@
  * Requires CFBD_API_KEY environment variable.
  */
 
-import { DataSourceAdapter, Team, Game, MarketLine, TeamBranding } from './DataSourceAdapter';
+import { AdapterCapability, HealthProbe, ScheduleProvider, Game } from './DataSourceAdapter';
+import { activeIngestRun } from '../lib/ingest-run';
 
 interface CFBDConfig {
   baseUrl: string;
@@ -36,6 +37,28 @@ interface CFBDGame {
   awayPoints?: number;
 }
 
+/**
+ * Probe the CFBD /info endpoint (key check + remaining monthly calls; not metered)
+ */
+export async function probeCFBD(baseUrl: string, apiKey: string, timeoutMs: number = 20000): Promise<HealthProbe> {
+  const response = await fetch(`${baseUrl}/info`, {
+    signal: AbortSignal.timeout(timeoutMs),
+    headers: {
+      'Authorization': `Bearer ${apiKey}`,
+      'Accept': 'application/json'
+    }
+  });
+  if (!response.ok) {
+    return { ok: false, message: `CFBD API error: ${response.status} ${response.statusText}` };
+  }
+  const info = await response.json().catch(() => null);
+  return {
+    ok: true,
+    message: info?.patronLevel != null ? `patron level ${info.patronLevel}` : 'reachable',
+    quotaRemaining: typeof info?.remainingCalls === 'number' ? info.remainingCalls : null,
+  };
+}
+
 interface CFBDVenue {
   id: number;
   name: string;
@@ -53,7 +76,9 @@ interface CFBDVenue {
   dome?: boolean;
 }
 
-export class CFBDAdapter implements DataSourceAdapter {
+export class CFBDAdapter implements ScheduleProvider {
+  static readonly CAPABILITIES: AdapterCapability[] = ['schedules'];
+  readonly capabilities = CFBDAdapter.CAPABILITIES;
   private config: CFBDConfig;
   private apiKey: string;
   private baseUrl: string;
@@ -81,13 +106,8 @@ export class CFBDAdapter implements DataSourceAdapter {
     return !!this.apiKey;
   }
 
-  /**
-   * CFBD doesn't provide a simple teams list endpoint in the way we need
-   * Return empty array - teams will be created from schedules
-   */
-  async getTeams(season: number): Promise<Team[]> {
-    console.log('⚠️  CFBD adapter does not provide team data. Teams will be created from schedules.');
-    return [];
+  async checkHealth(): Promise<HealthProbe> {
+    return probeCFBD(this.baseUrl, this.apiKey, this.config.timeoutMs);
   }
 
   /**
@@ -112,14 +132,6 @@ export class CFBDAdapter implements DataSourceAdapter {
     return allGames;
   }
 
-  /**
-   * CFBD doesn't provide market lines
-   */
-  async getMarketLines(season: number, weeks: number[]): Promise<MarketLine[]> {
-    console.log('⚠️  CFBD adapter does not provide market lines. Use SGO or another adapter for odds.');
-    return [];
-  }
-
   /**
    * Fetch games for a specific week
    */
@@ -148,6 +160,7 @@ export class CFBDAdapter implements DataSourceAdapter {
           'Accept': 'application/json'
         }
       });
+      activeIngestRun()?.credits(1);
 
       clearTimeout(timeout);
 
@@ -220,6 +233,7 @@ export class CFBDAdapter implements DataSourceAdapter {
           'Accept': 'application/json'
         }
       });
+      activeIngestRun()?.credits(1);
 
       clearTimeout(timeout);
 
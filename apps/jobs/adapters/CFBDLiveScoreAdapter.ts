@@ -0,0 +1,114 @@
+/**
+ * CFBD Live Score Adapter
+ *
+ * Polls the CollegeFootballData scoreboard for in-game scores, period, clock and
+ * possession. The scoreboard only covers the current slate, so season/week come
+ * from the caller. Requires CFBD_API_KEY environment variable.
+ */
+
+import { LiveGameStatus, LiveScoreAdapter, LiveScoreUpdate, parseClock } from './LiveScoreAdapter';
+
+interface CFBDLiveConfig {
+  baseUrl?: string;
+  classification?: string;
+  timeoutMs?: number;
+}
+
+export interface CFBDScoreboardGame {
+  id: number;
+  startDate: string;
+  status: string; // scheduled | in_progress | completed
+  period?: number | null;
+  clock?: string | null;
+  possession?: string | null; // home | away
+  homeTeam: { id?: number; name: string; points?: number | null };
+  awayTeam: { id?: number; name: string; points?: number | null };
+}
+
+/**
+ * Map a scoreboard entry to a live update (null for games without a score yet)
+ */
+export function mapScoreboardGame(
+  game: CFBDScoreboardGame,
+  season: number,
+  week: number,
+  recordedAt: Date
+): LiveScoreUpdate | null {
+  const status: LiveGameStatus = game.status === 'completed' ? 'final'
+    : game.status === 'in_progress' ? 'in_progress'
+    : 'scheduled';
+  if (status === 'scheduled') return null;
+
+  return {
+    season,
+    week,
+    homeTeam: game.homeTeam.name,
+    awayTeam: game.awayTeam.name,
+    status,
+    period: game.period ?? (status === 'final' ? 4 : 1),
+    clockSeconds: status === 'final' ? 0 : parseClock(game.clock),
+    homeScore: game.homeTeam.points ?? 0,
+    awayScore: game.awayTeam.points ?? 0,
+    possession: game.possession === 'home' || game.possession === 'away' ? game.possession : null,
+    recordedAt,
+  };
+}
+
+export class CFBDLiveScoreAdapter implements LiveScoreAdapter {
+  private baseUrl: string;
+  private classification: string;
+  private timeoutMs: number;
+  private apiKey: string;
+
+  constructor(config: CFBDLiveConfig = {}) {
+    this.baseUrl = config.baseUrl || process.env.CFBD_BASE_URL || 'https://api.collegefootballdata.com';
+    this.classification = config.classification || 'fbs';
+    this.timeoutMs = config.timeoutMs || 20000;
+    this.apiKey = process.env.CFBD_API_KEY || '';
+  }
+
+  getName(): string {
+    return 'cfbd';
+  }
+
+  async isAvailable(): Promise<boolean> {
+    return Boolean(this.apiKey);
+  }
+
+  async getLiveScores(season: number, week: number): Promise<LiveScoreUpdate[]> {
+    if (!this.apiKey) {
+      throw new Error('CFBD_API_KEY environment variable is required');
+    }
+
+    const url = new URL(`${this.baseUrl}/scoreboard`);
+    url.searchParams.set('classification', this.classification);
+
+    const controller = new AbortController();
+    const timeout = setTimeout(() => controller.abort(), this.timeoutMs);
+    try {
+      const response = await fetch(url.toString(), {
+        signal: controller.signal,
+        headers: {
+          'Authorization': `Bearer ${this.apiKey}`,
+          'Accept': 'application/json'
+        }
+      });
+      if (!response.ok) {
+        throw new Error(`CFBD API error: ${response.status} ${response.statusText}`);
+      }
+
+      const games: CFBDScoreboardGame[] = await response.json();
+      const recordedAt = new Date();
+      return games
+        .map(game => mapScoreboardGame(game, season, week, recordedAt))
+        .filter((update): update is LiveScoreUpdate => update !== null);
+    } catch (error) {
+      if (error.name === 'AbortError') {
+        throw new Error('CFBD API request timed out');
+      }
+      throw error;
+    } finally {
+      clearTimeout(timeout);
+    }
+  }
+}
@@ -0,0 +1,49 @@
+/**
+ * CFBD Rankings Adapter
+ *
+ * Poll rankings (AP, Coaches, CFP) from CollegeFootballData, stored in
+ * team_rankings by the rankings ETL (src/rankings/cfbd_rankings_etl.ts).
+ * Requires CFBD_API_KEY environment variable.
+ */
+
+import { AdapterCapability, HealthProbe, RankingsProvider } from './DataSourceAdapter';
+import { probeCFBD } from './CFBDAdapter';
+import { ingestRankings } from '../src/rankings/cfbd_rankings_etl';
+
+interface CFBDRankingsConfig {
+  baseUrl?: string;
+  timeoutMs?: number;
+}
+
+export class CFBDRankingsAdapter implements RankingsProvider {
+  static readonly CAPABILITIES: AdapterCapability[] = ['rankings'];
+  readonly capabilities = CFBDRankingsAdapter.CAPABILITIES;
+  private baseUrl: string;
+  private timeoutMs: number;
+  private apiKey: string;
+
+  constructor(config: CFBDRankingsConfig = {}) {
+    this.baseUrl = process.env.CFBD_BASE_URL || config.baseUrl || 'https://api.collegefootballdata.com';
+    this.timeoutMs = config.timeoutMs || 20000;
+    this.apiKey = process.env.CFBD_API_KEY || '';
+  }
+
+  getName(): string {
+    return 'CFBDRankings';
+  }
+
+  async isAvailable(): Promise<boolean> {
+    return Boolean(this.apiKey);
+  }
+
+  async checkHealth(): Promise<HealthProbe> {
+    if (!this.apiKey) {
+      return { ok: false, message: 'CFBD_API_KEY is not set' };
+    }
+    return probeCFBD(this.baseUrl, this.apiKey, this.timeoutMs);
+  }
+
+  async fetchRankings(season: number, weeks: number[]): Promise<void> {
+    await ingestRankings(season, weeks);
+  }
+}
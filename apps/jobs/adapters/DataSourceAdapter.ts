@@ -1,8 +1,9 @@
 /**
  * M5 DataSourceAdapter Interface
  * 
- * Defines the contract for data source adapters to fetch team schedules,
- * team information, and market lines from various providers.
+ * Defines the contracts for data source adapters. Each adapter declares the
+ * capabilities it provides (teams, schedules, odds, weather, injuries, rankings,
+ * branding) and implements the matching provider interface.
  */
 
 export interface Team {
@@ -53,32 +54,139 @@ export interface TeamBranding {
   secondaryColor?: string;
 }
 
-export interface DataSourceAdapter {
+/**
+ * Kinds of data an adapter can provide. Adapters declare theirs and the factory
+ * routes each request type to the enabled adapters that declare it.
+ */
+export type AdapterCapability = 'teams' | 'schedules' | 'odds' | 'weather' | 'injuries' | 'rankings' | 'branding';
+
+export const ADAPTER_CAPABILITIES: AdapterCapability[] = ['teams', 'schedules', 'odds', 'weather', 'injuries', 'rankings', 'branding'];
+
+export interface MarketLineDateOptions {
+  startDate?: string;
+  endDate?: string;
+}
+
+/**
+ * Result of an adapter's own health probe
+ */
+export interface HealthProbe {
+  ok: boolean;
+  message: string;
+  quotaRemaining?: number | null;
+  quotaUsed?: number | null;
+}
+
+/**
+ * Health of a configured adapter (see AdapterFactory.checkHealth)
+ */
+export interface AdapterHealth extends HealthProbe {
+  adapter: string;   // datasources.yml key
+  provider: string;
+  capabilities: AdapterCapability[];
+  latencyMs: number | null;
+  checkedAt: Date;
+}
+
+/**
+ * Contract shared by every adapter
+ */
+export interface SourceAdapter {
+  /**
+   * Data kinds this adapter provides
+   */
+  readonly capabilities: AdapterCapability[];
+
+  /**
+   * Get the name of this adapter
+   */
+  getName(): string;
+
+  /**
+   * Check if this adapter is available/configured
+   */
+  isAvailable(): Promise<boolean>;
+
+  /**
+   * Cheap live probe (auth, reachability, remaining quota).
+   * Adapters without one are reported from isAvailable().
+   */
+  checkHealth?(): Promise<HealthProbe>;
+}
+
+export interface TeamsProvider extends SourceAdapter {
   /**
    * Fetch team information for a given season
    */
   getTeams(season: number): Promise<Team[]>;
+}
 
+export interface ScheduleProvider extends SourceAdapter {
   /**
    * Fetch game schedules for a given season and week range
    */
   getSchedules(season: number, weeks: number[]): Promise<Game[]>;
+}
 
+export interface OddsProvider extends SourceAdapter {
   /**
-   * Fetch market lines (closing only) for a given season and week range
+   * Fetch market lines for a given season and week range
    */
-  getMarketLines(season: number, weeks: number[]): Promise<MarketLine[]>;
+  getMarketLines(season: number, weeks: number[], options?: MarketLineDateOptions): Promise<MarketLine[]>;
+}
 
+export interface WeatherProvider extends SourceAdapter {
   /**
-   * Get the name of this adapter
+   * Fetch game-time weather for the season/weeks
    */
-  getName(): string;
+  fetchWeatherForGames(season: number, weeks: number[]): Promise<void>;
+}
 
+export interface InjuryProvider extends SourceAdapter {
   /**
-   * Check if this adapter is available/configured
+   * Fetch and store injury reports for the season/weeks
    */
-  isAvailable(): Promise<boolean>;
+  fetchInjuries(season: number, weeks: number[]): Promise<void>;
+}
+
+export interface RankingsProvider extends SourceAdapter {
+  /**
+   * Fetch and store poll rankings for the season/weeks
+   */
+  fetchRankings(season: number, weeks: number[]): Promise<void>;
+}
 
+export interface BrandingProvider extends SourceAdapter {
+  /**
+   * Fetch team branding data
+   */
+  getTeamBranding(): Promise<TeamBranding[]>;
+}
+
+export interface CapabilityProviders {
+  teams: TeamsProvider;
+  schedules: ScheduleProvider;
+  odds: OddsProvider;
+  weather: WeatherProvider;
+  injuries: InjuryProvider;
+  rankings: RankingsProvider;
+  branding: BrandingProvider;
+}
+
+/**
+ * Narrow an adapter to the provider interface for a capability it declares
+ */
+export function hasCapability<C extends AdapterCapability>(
+  adapter: SourceAdapter,
+  capability: C
+): adapter is CapabilityProviders[C] {
+  return adapter.capabilities.includes(capability);
+}
+
+/**
+ * Full teams + schedules + odds adapter (local files)
+ */
+export interface DataSourceAdapter extends TeamsProvider, ScheduleProvider, OddsProvider {
   /**
    * Fetch team branding data (optional)
    * Not all adapters provide branding information
@@ -95,4 +203,9 @@ export interface AdapterConfig {
 export interface DataSourcesConfig {
   adapters: Record<string, AdapterConfig>;
   defaultAdapter: string;
+  /**
+   * Preferred adapters per capability, in order. Capabilities without an entry
+   * route to every enabled adapter that declares them.
+   */
+  routing?: Partial<Record<AdapterCapability, string[]>>;
 }
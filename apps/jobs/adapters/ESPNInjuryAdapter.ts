@@ -1,7 +1,8 @@
 /**
  * ESPN Injury Adapter
  * 
- * Fetches injury data from ESPN's unofficial API.
+ * Fetches injury data from ESPN's unofficial API, with each player's depth-chart
+ * rank from the team's ESPN depth chart (the injury model's usage share input).
  * Requires no API key (public endpoint, but use responsibly).
  * 
  * NOTE: This is an unofficial API endpoint and may change without notice.
@@ -10,9 +11,24 @@
 
 import { PrismaClient } from '@prisma/client';
 import { TeamResolver } from './TeamResolver';
+import { AdapterCapability, HealthProbe, InjuryProvider } from './DataSourceAdapter';
+import { activeIngestRun } from '../lib/ingest-run';
+import { snapshotInjury } from '../lib/row-snapshots';
 
 const prisma = new PrismaClient();
 
+const ESPN_INJURIES_URL = 'https://site.api.espn.com/apis/site/v2/sports/football/college-football/injuries';
+const ESPN_TEAMS_URL = 'https://site.api.espn.com/apis/site/v2/sports/football/college-football/teams';
+const ESPN_HEADERS = {
+  'Accept': 'application/json',
+  'User-Agent': 'Mozilla/5.0 (compatible; GridironEdge/1.0)',
+};
+
+interface ESPNInjuryConfig {
+  baseUrl?: string;
+  timeoutMs?: number;
+}
+
 interface ESPNInjuryResponse {
   timestamp: string;
   status: string;
@@ -74,6 +90,62 @@ interface ESPNInjuryResponse {
   }>;
 }
 
+interface ESPNDepthChartResponse {
+  depthchart?: Array<{
+    id?: string;
+    name?: string; // Formation, e.g. "Base 4-3 D"
+    positions?: Record<string, {
+      position?: { abbreviation?: string };
+      athletes?: Array<{ id?: string; displayName?: string; fullName?: string }>; // Depth order
+    }>;
+  }>;
+}
+
+/**
+ * Player name key shared by the injury and depth chart payloads
+ */
+export function depthChartNameKey(name: string): string {
+  return name.toLowerCase().replace(/[^a-z ]/g, '').replace(/\s+/g, ' ').trim();
+}
+
+/**
+ * Depth-chart rank (1 = starter) by player name key
+ * A player listed in several formations or positions keeps the best rank.
+ * Special teams are skipped: a returner's rank says nothing about offensive or defensive snaps.
+ */
+export function depthRanksFromChart(data: ESPNDepthChartResponse): Map<string, number> {
+  const ranks = new Map<string, number>();
+  for (const formation of data.depthchart ?? []) {
+    if (/special/i.test(formation.name ?? '')) continue;
+    for (const slot of Object.values(formation.positions ?? {})) {
+      (slot.athletes ?? []).forEach((athlete, index) => {
+        const name = athlete.displayName || athlete.fullName;
+        if (!name) return;
+        const key = depthChartNameKey(name);
+        ranks.set(key, Math.min(ranks.get(key) ?? Infinity, index + 1));
+      });
+    }
+  }
+  return ranks;
+}
+
+/**
+ * Depth-chart ranks for one ESPN team (empty when the chart is unavailable,
+ * so its injuries fall back to the model's unranked default)
+ */
+async function fetchDepthRanks(espnTeamId: string): Promise<Map<string, number>> {
+  try {
+    const response = await fetch(`${ESPN_TEAMS_URL}/${espnTeamId}/depthcharts`, { headers: ESPN_HEADERS });
+    if (!response.ok) {
+      throw new Error(`${response.status} ${response.statusText}`);
+    }
+    return depthRanksFromChart(await response.json());
+  } catch (error: any) {
+    console.log(`   ⚠️  No ESPN depth chart for team ${espnTeamId}: ${error.message}`);
+    return new Map();
+  }
+}
+
 /**
  * Map ESPN status to our InjurySeverity enum
  */
@@ -103,35 +175,6 @@ function mapESPNStatusToSeverity(espnStatus: string, statusType: string): 'OUT'
   return 'QUESTIONABLE';
 }
 
-/**
- * Map ESPN position abbreviation to our position format
- */
-function mapESPNPosition(positionAbbr: string): string {
-  const positionMap: { [key: string]: string } = {
-    'QB': 'QB',
-    'RB': 'RB',
-    'FB': 'RB', // Fullback maps to RB
-    'WR': 'WR',
-    'TE': 'WR', // Tight End maps to WR (receiving position)
-    'OL': 'OL',
-    'C': 'OL',
-    'G': 'OL',
-    'T': 'OL',
-    'DL': 'DL',
-    'DE': 'DL',
-    'DT': 'DL',
-    'NT': 'DL',
-    'LB': 'DL', // Linebacker maps to DL (front seven)
-    'DB': 'DB',
-    'CB': 'DB',
-    'S': 'DB',
-    'K': 'DB', // Kicker maps to DB (defensive positions group)
-    'P': 'DB',
-  };
-  
-  return positionMap[positionAbbr.toUpperCase()] || positionAbbr.toUpperCase();
-}
-
 /**
  * Extract injury details from notes
  */
@@ -185,21 +228,16 @@ function extractInjuryDetails(injury: ESPNInjuryResponse['injuries'][0]['injurie
 /**
  * Fetch and process injury data from ESPN
  */
-export async function fetchESPNInjuries(season: number, weeks: number[]): Promise<void> {
+export async function fetchESPNInjuries(season: number, weeks: number[], baseUrl: string = ESPN_INJURIES_URL): Promise<void> {
   const teamResolver = new TeamResolver();
+  const run = activeIngestRun();
   
   try {
-    const baseUrl = 'https://site.api.espn.com/apis/site/v2/sports/football/college-football/injuries';
-    
     console.log(`\n🏥 Fetching injury data from ESPN for season ${season}...\n`);
+    await teamResolver.loadDatabaseAliases();
     
     // Fetch all injuries (ESPN doesn't filter by week, so we get everything)
-    const response = await fetch(baseUrl, {
-      headers: {
-        'Accept': 'application/json',
-        'User-Agent': 'Mozilla/5.0 (compatible; GridironEdge/1.0)',
-      },
-    });
+    const response = await fetch(baseUrl, { headers: ESPN_HEADERS });
     
     if (!response.ok) {
       throw new Error(`ESPN API error: ${response.status} ${response.statusText}`);
@@ -259,6 +297,8 @@ export async function fetchESPNInjuries(season: number, weeks: number[]): Promis
       if (!teamId) {
         console.log(`   ⚠️  Could not resolve team: ${teamDisplayName}`);
         totalSkipped += teamInjuries.injuries.length;
+        run?.unmatched(teamDisplayName);
+        run?.skipped(teamInjuries.injuries.length);
         continue;
       }
       
@@ -271,6 +311,8 @@ export async function fetchESPNInjuries(season: number, weeks: number[]): Promis
         // Team has injuries but no games in our specified weeks
         continue;
       }
+
+      const depthRanks = await fetchDepthRanks(teamInjuries.id);
       
       // Process each injury for this team
       for (const injury of teamInjuries.injuries) {
@@ -295,22 +337,25 @@ export async function fetchESPNInjuries(season: number, weeks: number[]): Promis
           // Skip if status is "Active" (player is healthy/playing)
           if (statusString === 'Active' || statusAbbr === 'A') {
             totalSkipped++;
+            run?.skipped();
             continue;
           }
           
           const severity = mapESPNStatusToSeverity(statusString, statusType);
-          const position = mapESPNPosition(injury.athlete.position.abbreviation);
+          // Raw ESPN abbreviation; the injury model maps it to a position group
+          const position = injury.athlete.position.abbreviation.toUpperCase();
+          const depthRank = depthRanks.get(depthChartNameKey(playerName)) ?? null;
           const injuryDetails = extractInjuryDetails(injury);
           
           // Process for each game this team is playing
           for (const game of teamGames) {
-            // Check if injury already exists
+            // Check if injury already exists (by player: rows written before raw
+            // positions were kept carry the old collapsed position)
             const existing = await prisma.injury.findFirst({
               where: {
                 gameId: game.id,
                 teamId: teamId,
-                position: position,
-                ...(playerName ? { playerName: playerName } : {}),
+                playerName: playerName,
               },
             });
             
@@ -322,22 +367,28 @@ export async function fetchESPNInjuries(season: number, weeks: number[]): Promis
               playerName: playerName,
               position: position,
               severity: severity,
+              depthRank,
               bodyPart: injuryDetails.bodyPart,
               injuryType: injuryDetails.injuryType,
               status: injuryDetails.status || injury.shortComment || injury.longComment,
               source: 'espn',
               reportedAt: injury.date ? new Date(injury.date) : new Date(),
+              ingestRunId: run?.id ?? null,
             };
             
             if (existing) {
-              await prisma.injury.update({
+              const injury = await prisma.injury.update({
                 where: { id: existing.id },
                 data: injuryData,
               });
+              await snapshotInjury(prisma, injury);
+              run?.updated();
             } else {
-              await prisma.injury.create({
+              const injury = await prisma.injury.create({
                 data: injuryData,
               });
+              await snapshotInjury(prisma, injury);
+              run?.inserted();
             }
             
             totalUpserted++;
@@ -346,6 +397,7 @@ export async function fetchESPNInjuries(season: number, weeks: number[]): Promis
         } catch (error: any) {
           console.error(`   ❌ Error processing injury for ${playerName} (${teamDisplayName}):`, error.message);
           totalErrors++;
+          run?.error(`${playerName} (${teamDisplayName}): ${error.message}`);
         }
       }
     }
@@ -364,3 +416,38 @@ export async function fetchESPNInjuries(season: number, weeks: number[]): Promis
   }
 }
 
+export class ESPNInjuryAdapter implements InjuryProvider {
+  static readonly CAPABILITIES: AdapterCapability[] = ['injuries'];
+  readonly capabilities = ESPNInjuryAdapter.CAPABILITIES;
+  private baseUrl: string;
+  private timeoutMs: number;
+
+  constructor(config: ESPNInjuryConfig = {}) {
+    this.baseUrl = config.baseUrl || ESPN_INJURIES_URL;
+    this.timeoutMs = config.timeoutMs || 30000;
+  }
+
+  getName(): string {
+    return 'ESPNInjuries';
+  }
+
+  /**
+   * Public endpoint, no key required
+   */
+  async isAvailable(): Promise<boolean> {
+    return true;
+  }
+
+  async checkHealth(): Promise<HealthProbe> {
+    const response = await fetch(this.baseUrl, { headers: ESPN_HEADERS, signal: AbortSignal.timeout(this.timeoutMs) });
+    if (!response.ok) {
+      return { ok: false, message: `ESPN API error: ${response.status} ${response.statusText}` };
+    }
+    const data = await response.json().catch(() => null);
+    return { ok: true, message: `${data?.injuries?.length ?? 0} teams with injury reports` };
+  }
+
+  async fetchInjuries(season: number, weeks: number[]): Promise<void> {
+    await fetchESPNInjuries(season, weeks, this.baseUrl);
+  }
+}
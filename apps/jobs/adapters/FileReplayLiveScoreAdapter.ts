@@ -0,0 +1,104 @@
+/**
+ * File Replay Live Score Adapter
+ *
+ * Stand-in for a live feed: replays recorded score/clock updates from a JSON file,
+ * one recorded timestamp per poll, so the live pipeline can be exercised outside
+ * game windows. Replayed rows keep their recorded timestamps, so replaying a file
+ * twice rewrites the same LiveGameUpdate rows.
+ *
+ * File format: an array (or { "updates": [...] }) of
+ *   { gameId?, season, week, homeTeam, awayTeam, status, period, clock, homeScore,
+ *     awayScore, possession?, recordedAt }
+ * where clock is "MM:SS" or seconds left in the period.
+ */
+
+import * as fs from 'fs';
+import { LiveGameStatus, LiveScoreAdapter, LiveScoreUpdate, parseClock } from './LiveScoreAdapter';
+
+interface FileReplayConfig {
+  file: string;
+}
+
+/**
+ * Parse replay records into updates sorted by recorded time
+ */
+export function parseReplayRecords(records: any[]): LiveScoreUpdate[] {
+  return records
+    .map((record, index) => {
+      const recordedAt = new Date(record.recordedAt);
+      if (isNaN(recordedAt.getTime())) {
+        throw new Error(`Replay record ${index + 1}: bad recordedAt "${record.recordedAt}"`);
+      }
+      const status: LiveGameStatus = ['scheduled', 'in_progress', 'final'].includes(record.status)
+        ? record.status
+        : 'in_progress';
+      return {
+        gameId: record.gameId || undefined,
+        season: Number(record.season),
+        week: Number(record.week),
+        homeTeam: record.homeTeam,
+        awayTeam: record.awayTeam,
+        status,
+        period: Number(record.period ?? 1),
+        clockSeconds: parseClock(record.clock ?? record.clockSeconds),
+        homeScore: Number(record.homeScore ?? 0),
+        awayScore: Number(record.awayScore ?? 0),
+        possession: record.possession === 'home' || record.possession === 'away' ? record.possession : null,
+        recordedAt,
+      } as LiveScoreUpdate;
+    })
+    .sort((a, b) => a.recordedAt.getTime() - b.recordedAt.getTime());
+}
+
+export class FileReplayLiveScoreAdapter implements LiveScoreAdapter {
+  private file: string;
+  private updates: LiveScoreUpdate[] | null = null;
+  private cursor = 0;
+
+  constructor(config: FileReplayConfig) {
+    this.file = config.file;
+  }
+
+  /**
+   * Build directly from updates (tests, in-memory replays)
+   */
+  static fromUpdates(updates: LiveScoreUpdate[]): FileReplayLiveScoreAdapter {
+    const adapter = new FileReplayLiveScoreAdapter({ file: '<memory>' });
+    adapter.updates = [...updates].sort((a, b) => a.recordedAt.getTime() - b.recordedAt.getTime());
+    return adapter;
+  }
+
+  getName(): string {
+    return 'replay';
+  }
+
+  async isAvailable(): Promise<boolean> {
+    return this.updates !== null || fs.existsSync(this.file);
+  }
+
+  isExhausted(): boolean {
+    return this.updates !== null && this.cursor >= this.updates.length;
+  }
+
+  /**
+   * Next recorded timestamp's updates for the season/week (empty once exhausted)
+   */
+  async getLiveScores(season: number, week: number): Promise<LiveScoreUpdate[]> {
+    if (this.updates === null) {
+      const parsed = JSON.parse(fs.readFileSync(this.file, 'utf8'));
+      this.updates = parseReplayRecords(Array.isArray(parsed) ? parsed : parsed.updates ?? []);
+    }
+
+    const inSlate = (u: LiveScoreUpdate) => u.season === season && u.week === week;
+    while (this.cursor < this.updates.length && !inSlate(this.updates[this.cursor])) this.cursor++;
+    if (this.cursor >= this.updates.length) return [];
+
+    const timestamp = this.updates[this.cursor].recordedAt.getTime();
+    const batch: LiveScoreUpdate[] = [];
+    while (this.cursor < this.updates.length && this.updates[this.cursor].recordedAt.getTime() === timestamp) {
+      const update = this.updates[this.cursor++];
+      if (inSlate(update)) batch.push(update);
+    }
+    return batch;
+  }
+}
@@ -0,0 +1,59 @@
+/**
+ * Live Score Adapter Interface
+ *
+ * Contract for in-game score/clock sources polled by src/live/live-scores.ts.
+ * Each call returns the latest state of every game the source knows about.
+ */
+
+export type LiveGameStatus = 'scheduled' | 'in_progress' | 'final';
+
+export interface LiveScoreUpdate {
+  /** Canonical game ID when the source already knows it (replay files) */
+  gameId?: string;
+  season: number;
+  week: number;
+  /** Provider team names, resolved through TeamResolver */
+  homeTeam: string;
+  awayTeam: string;
+  status: LiveGameStatus;
+  period: number;
+  /** Seconds left in the period */
+  clockSeconds: number;
+  homeScore: number;
+  awayScore: number;
+  possession: 'home' | 'away' | null;
+  recordedAt: Date;
+}
+
+export interface LiveScoreAdapter {
+  /**
+   * Latest score/clock state of the week's games
+   */
+  getLiveScores(season: number, week: number): Promise<LiveScoreUpdate[]>;
+
+  /**
+   * Get the name of this adapter (stored as LiveGameUpdate.source)
+   */
+  getName(): string;
+
+  /**
+   * Check if this adapter is available/configured
+   */
+  isAvailable(): Promise<boolean>;
+
+  /**
+   * True once a finite source (a replay) has nothing left to return
+   */
+  isExhausted?(): boolean;
+}
+
+/**
+ * Parse a game clock ("MM:SS", "HH:MM:SS" or seconds) to seconds left in the period
+ */
+export function parseClock(clock: string | number | null | undefined): number {
+  if (clock === null || clock === undefined || clock === '') return 0;
+  if (typeof clock === 'number') return Math.max(0, Math.round(clock));
+  const parts = clock.trim().split(':').map(p => parseInt(p, 10));
+  if (parts.some(p => isNaN(p))) return 0;
+  return Math.max(0, parts.reduce((total, part) => total * 60 + part, 0));
+}
@@ -8,9 +8,11 @@
 import fs from 'fs/promises';
 import { existsSync, readFileSync } from 'fs';
 import path from 'path';
-import { DataSourceAdapter, Team, Game, MarketLine, TeamBranding } from './DataSourceAdapter';
+import { AdapterCapability, BrandingProvider, DataSourceAdapter, Team, Game, MarketLine, TeamBranding } from './DataSourceAdapter';
 
-export class MockAdapter implements DataSourceAdapter {
+export class MockAdapter implements DataSourceAdapter, BrandingProvider {
+  static readonly CAPABILITIES: AdapterCapability[] = ['teams', 'schedules', 'odds', 'branding'];
+  readonly capabilities = MockAdapter.CAPABILITIES;
   private dataPath: string;
   private fileFormats: Record<string, string>;
   private defaultBook: string;
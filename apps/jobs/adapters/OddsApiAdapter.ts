@@ -6,7 +6,7 @@
  * Supports both live and historical odds data.
  */
 
-import { DataSourceAdapter, Team, Game, MarketLine, TeamBranding } from './DataSourceAdapter';
+import { AdapterCapability, HealthProbe, MarketLine, MarketLineDateOptions, OddsProvider } from './DataSourceAdapter';
 import { PrismaClient } from '@prisma/client';
 import * as fs from 'fs';
 import * as path from 'path';
@@ -16,6 +16,7 @@ import { isRejectedSlug, isDenylisted, matchesNonFBSPattern } from '../config/de
 import { TeamResolver } from './TeamResolver';
 import { GameLookup } from './GameLookup';
 import { normalizeBookmakerName } from '../lib/bookmaker-normalizer';
+import { activeIngestRun } from '../lib/ingest-run';
 
 const prisma = new PrismaClient();
 
@@ -281,7 +282,9 @@ interface OddsApiEvent {
   }>;
 }
 
-export class OddsApiAdapter implements DataSourceAdapter {
+export class OddsApiAdapter implements OddsProvider {
+  static readonly CAPABILITIES: AdapterCapability[] = ['odds'];
+  readonly capabilities = OddsApiAdapter.CAPABILITIES;
   private config: OddsApiConfig;
   private apiKey: string;
   private baseUrl: string;
@@ -835,25 +838,28 @@ export class OddsApiAdapter implements DataSourceAdapter {
   }
 
   /**
-   * Odds API doesn't provide team roster
+   * Key check and quota via the sports list (does not count against the quota)
    */
-  async getTeams(season: number): Promise<Team[]> {
-    console.log('⚠️  Odds API adapter does not provide team data. Teams will be created from games.');
-    return [];
-  }
-
-  /**
-   * Odds API doesn't provide schedules separately
-   */
-  async getSchedules(season: number, weeks: number[]): Promise<Game[]> {
-    console.log('⚠️  Odds API adapter does not provide schedule data. Use CFBD or another adapter for schedules.');
-    return [];
+  async checkHealth(): Promise<HealthProbe> {
+    const url = new URL(`${this.baseUrl}/sports`);
+    url.searchParams.set('apiKey', this.apiKey);
+    const response = await fetch(url.toString(), { signal: AbortSignal.timeout(this.config.timeoutMs || 20000) });
+    const header = (name: string) => {
+      const value = response.headers.get(name);
+      return value !== null && value !== '' && !isNaN(Number(value)) ? Number(value) : null;
+    };
+    return {
+      ok: response.ok,
+      message: response.ok ? 'reachable' : `Odds API error: ${response.status} ${response.statusText}`,
+      quotaRemaining: header('x-requests-remaining'),
+      quotaUsed: header('x-requests-used'),
+    };
   }
 
   /**
    * Fetch market lines (spreads, totals, moneylines) from The Odds API
    */
-  async getMarketLines(season: number, weeks: number[], options?: { startDate?: string; endDate?: string }): Promise<MarketLine[]> {
+  async getMarketLines(season: number, weeks: number[], options?: MarketLineDateOptions): Promise<MarketLine[]> {
     // Load FBS teams into TeamResolver BEFORE building team index
     // This ensures teamExistsInDatabase checks will work correctly
     await this.teamResolver.loadFBSTeamsForSeason(season);
@@ -933,12 +939,20 @@ export class OddsApiAdapter implements DataSourceAdapter {
 
     // Write unmatched report if any
     if (this.matchStats.unmatchedNames.size > 0) {
+      activeIngestRun()?.unmatched(...Array.from(this.matchStats.unmatchedNames));
       await this.writeUnmatchedReport(season, weeks[0], this.matchStats.unmatchedNames);
     }
 
     return allLines;
   }
 
+  /**
+   * Charge a request's cost (x-requests-last) to the active ingest run
+   */
+  private recordCredits(response: Response): void {
+    activeIngestRun()?.credits(Number(response.headers.get('x-requests-last')));
+  }
+
   /**
    * Write unmatched teams report
    */
@@ -967,13 +981,6 @@ export class OddsApiAdapter implements DataSourceAdapter {
     }
   }
 
-  /**
-   * Return empty array for team branding
-   */
-  async getTeamBranding(): Promise<TeamBranding[]> {
-    return [];
-  }
-
   /**
    * Fetch odds for a specific week
    */
@@ -1091,6 +1098,7 @@ export class OddsApiAdapter implements DataSourceAdapter {
         },
         signal: AbortSignal.timeout(this.config.timeoutMs),
       });
+      this.recordCredits(response);
 
       if (!response.ok) {
         const errorBody = await response.text();
@@ -1286,7 +1294,7 @@ export class OddsApiAdapter implements DataSourceAdapter {
                 week,
                 lineType: 'total',
                 lineValue: totalValue, // Always positive
-                price: outcome.price,
+                price: /^over$/i.test(outcome.name) ? outcome.price : undefined, // Totals carry the over price
                 bookName,
                 source: 'oddsapi',
                 timestamp: snapshotTimestamp,
@@ -1440,6 +1448,7 @@ export class OddsApiAdapter implements DataSourceAdapter {
                 lineType: 'spread',
                 lineValue: outcome.point,
                 closingLine: outcome.point,
+                price: outcome.price,
                 bookName,
                 source: 'oddsapi',
                 timestamp,
@@ -1466,6 +1475,7 @@ export class OddsApiAdapter implements DataSourceAdapter {
                 lineType: 'total',
                 lineValue: totalValue, // Always positive
                 closingLine: totalValue, // Always positive
+                price: /^over$/i.test(outcome.name) ? outcome.price : undefined, // Totals carry the over price
                 bookName,
                 source: 'oddsapi',
                 timestamp,
@@ -1732,6 +1742,7 @@ export class OddsApiAdapter implements DataSourceAdapter {
           'User-Agent': 'Gridiron-Edge/1.0'
         }
       });
+      this.recordCredits(response);
       
       if (!response.ok) {
         const errorBody = await response.text();
@@ -1809,6 +1820,7 @@ export class OddsApiAdapter implements DataSourceAdapter {
           'User-Agent': 'Gridiron-Edge/1.0'
         }
       });
+      this.recordCredits(response);
       
       if (!response.ok) {
         const errorBody = await response.text();
@@ -2023,6 +2035,7 @@ export class OddsApiAdapter implements DataSourceAdapter {
           ])
         )).sort()
       };
+      activeIngestRun()?.unmatched(...unmatchedReport.uniqueUnmatchedTeams);
       
       await fs.writeFile(unmatchedFile, JSON.stringify(unmatchedReport, null, 2));
       console.log(`   [AUDIT] Wrote unmatched report to ${unmatchedFile}`);
@@ -6,7 +6,7 @@
  * Supports league auto-discovery and date range filtering for historical data.
  */
 
-import { DataSourceAdapter, Team, Game, MarketLine, TeamBranding } from './DataSourceAdapter';
+import { AdapterCapability, HealthProbe, MarketLine, MarketLineDateOptions, OddsProvider } from './DataSourceAdapter';
 import { normalizeBookmakerName } from '../lib/bookmaker-normalizer';
 
 interface SportsGameOddsConfig {
@@ -55,7 +55,9 @@ interface SGOOddsMarket {
   }>;
 }
 
-export class SportsGameOddsAdapter implements DataSourceAdapter {
+export class SportsGameOddsAdapter implements OddsProvider {
+  static readonly CAPABILITIES: AdapterCapability[] = ['odds'];
+  readonly capabilities = SportsGameOddsAdapter.CAPABILITIES;
   private config: SportsGameOddsConfig;
   private apiKey: string;
   private baseUrl: string;
@@ -87,27 +89,17 @@ export class SportsGameOddsAdapter implements DataSourceAdapter {
   }
 
   /**
-   * SGO doesn't provide team roster, so we return empty array.
-   * Teams will be created as stubs during game ingestion.
+   * Key check via the league list
    */
-  async getTeams(season: number): Promise<Team[]> {
-    console.log('⚠️  SGO adapter does not provide team data. Teams will be created from games.');
-    return [];
-  }
-
-  /**
-   * SGO doesn't provide schedules, only odds.
-   * Return empty array - schedules should come from another adapter.
-   */
-  async getSchedules(season: number, weeks: number[]): Promise<Game[]> {
-    console.log('⚠️  SGO adapter does not provide schedule data. Use CFBD or another adapter for schedules.');
-    return [];
+  async checkHealth(): Promise<HealthProbe> {
+    const leagues = await this.fetchLeagues();
+    return { ok: true, message: `${leagues.length} leagues` };
   }
 
   /**
    * Fetch market lines (spreads, totals, moneylines) from SGO API
    */
-  async getMarketLines(season: number, weeks: number[], options?: { startDate?: string; endDate?: string }): Promise<MarketLine[]> {
+  async getMarketLines(season: number, weeks: number[], options?: MarketLineDateOptions): Promise<MarketLine[]> {
     const allLines: any[] = [];
 
     // Auto-discover NCAAF league ID
@@ -140,13 +132,6 @@ export class SportsGameOddsAdapter implements DataSourceAdapter {
     return allLines;
   }
 
-  /**
-   * Return empty array for team branding (not provided by SGO)
-   */
-  async getTeamBranding(): Promise<TeamBranding[]> {
-    return [];
-  }
-
   /**
    * Auto-discover NCAAF league ID from SGO API
    */
@@ -384,6 +369,7 @@ export class SportsGameOddsAdapter implements DataSourceAdapter {
                 lineType: 'spread',
                 lineValue: outcome.point,
                 closingLine: outcome.point,
+                price: outcome.price,
                 bookName,
                 source: 'sgo',
                 timestamp: new Date(),
@@ -408,6 +394,7 @@ export class SportsGameOddsAdapter implements DataSourceAdapter {
                 lineType: 'total',
                 lineValue: totalValue, // Always positive
                 closingLine: totalValue, // Always positive
+                price: /^over$/i.test(outcome.name) ? outcome.price : undefined, // Totals carry the over price
                 bookName,
                 source: 'sgo',
                 timestamp: new Date(),
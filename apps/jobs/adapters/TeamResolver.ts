@@ -21,6 +21,7 @@ export class TeamResolver {
   private currentSeason?: number; // Track which season's teams are loaded
   private verboseLogging: boolean;
   private resolvedTeams: Set<string> = new Set(); // Track teams we've already logged
+  private databaseAliasesLoaded = false;
 
   constructor() {
     this.verboseLogging = process.env.LOG_RESOLVER_VERBOSE === 'true';
@@ -188,6 +189,46 @@ export class TeamResolver {
     }
   }
 
+  /**
+   * Overlay aliases and denylist entries from the team_aliases and
+   * team_name_denylist tables (managed on /admin/team-aliases). The YAML files
+   * stay the bootstrap source; database entries win on conflicts.
+   * @returns Number of database aliases loaded (0 when the tables are unreachable)
+   */
+  async loadDatabaseAliases(): Promise<number> {
+    if (this.databaseAliasesLoaded) {
+      return 0;
+    }
+    this.databaseAliasesLoaded = true;
+
+    try {
+      const { PrismaClient } = await import('@prisma/client');
+      const prisma = new PrismaClient();
+      try {
+        const [aliases, denied] = await Promise.all([
+          prisma.teamAlias.findMany({ select: { provider: true, aliasKey: true, teamId: true } }),
+          prisma.teamNameDenylist.findMany({ select: { nameKey: true } }),
+        ]);
+        for (const alias of aliases) {
+          const target = alias.provider === 'cfbd' ? this.cfbdAliases : this.aliases;
+          target.set(alias.aliasKey, alias.teamId);
+          // An approved mapping overrides an older denylist entry for the same name
+          this.denylist.delete(alias.aliasKey);
+        }
+        for (const entry of denied) {
+          this.denylist.add(entry.nameKey);
+        }
+        console.log(`[TEAM_RESOLVER] source=db aliases=${aliases.length} denylisted=${denied.length}`);
+        return aliases.length;
+      } finally {
+        await prisma.$disconnect();
+      }
+    } catch (error) {
+      console.warn(`[TEAM_RESOLVER] Could not load aliases from team_aliases, using YAML only: ${error}`);
+      return 0;
+    }
+  }
+
   /**
    * Load FBS teams for a specific season from team_membership table
    * @param season - The season year (e.g., 2024, 2025)
@@ -195,6 +236,8 @@ export class TeamResolver {
    */
   async loadFBSTeamsForSeason(season: number): Promise<Set<string>> {
     const forceDbTeams = process.env.FORCE_DB_TEAMS === 'true';
+
+    await this.loadDatabaseAliases();
     
     // If we already have this season loaded, return cached
     if (this.currentSeason === season && this.fbsTeams.size > 0) {
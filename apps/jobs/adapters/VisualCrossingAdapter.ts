@@ -8,7 +8,8 @@
  * It does NOT write to the database (no weather table exists yet).
  */
 
-import { DataSourceAdapter, Team, Game, MarketLine } from './DataSourceAdapter';
+import { AdapterCapability, WeatherProvider } from './DataSourceAdapter';
+import { activeIngestRun } from '../lib/ingest-run';
 
 interface VisualCrossingConfig {
   baseUrl: string;
@@ -31,9 +32,12 @@ interface VCTimelineResponse {
     datetime: string;    // "YYYY-MM-DD"
     hours?: VCHourlyData[];
   }>;
+  queryCost?: number;  // records billed for this request
 }
 
-export class VisualCrossingAdapter implements DataSourceAdapter {
+export class VisualCrossingAdapter implements WeatherProvider {
+  static readonly CAPABILITIES: AdapterCapability[] = ['weather'];
+  readonly capabilities = VisualCrossingAdapter.CAPABILITIES;
   private config: VisualCrossingConfig;
   private apiKey: string;
   private baseUrl: string;
@@ -61,37 +65,8 @@ export class VisualCrossingAdapter implements DataSourceAdapter {
     return !!this.apiKey;
   }
 
-  /**
-   * Visual Crossing doesn't provide team data
-   */
-  async getTeams(season: number): Promise<Team[]> {
-    return [];
-  }
-
-  /**
-   * Visual Crossing doesn't provide schedules
-   */
-  async getSchedules(season: number, weeks: number[]): Promise<Game[]> {
-    return [];
-  }
-
-  /**
-   * Visual Crossing doesn't provide market lines
-   */
-  async getMarketLines(season: number, weeks: number[]): Promise<MarketLine[]> {
-    return [];
-  }
-
-  /**
-   * Visual Crossing doesn't provide team branding
-   */
-  async getTeamBranding(): Promise<any[]> {
-    return [];
-  }
-
   /**
    * Fetch and log weather data for games
-   * This is called manually, not by the standard ingest flow
    */
   async fetchWeatherForGames(season: number, weeks: number[]): Promise<void> {
     const { PrismaClient } = require('@prisma/client');
@@ -120,12 +95,20 @@ export class VisualCrossingAdapter implements DataSourceAdapter {
       let skipped = 0;
       let errors = 0;
 
+      const run = activeIngestRun();
+      const existingWeather = await prisma.weather.findMany({
+        where: { gameId: { in: games.map(g => g.id) } },
+        select: { gameId: true }
+      });
+      const hasWeather = new Set(existingWeather.map(w => w.gameId));
+
       for (const game of games) {
         try {
           // Check if we have city info
           if (!game.city) {
             console.log(`⚠️  ${season} wk${game.week} ${game.awayTeamId}-${game.homeTeamId} → No city/state, skipped`);
             skipped++;
+            run?.skipped();
             continue;
           }
 
@@ -158,6 +141,7 @@ export class VisualCrossingAdapter implements DataSourceAdapter {
                 conditions: weather.conditions,
                 forecastTime: new Date(),
                 updatedAt: new Date(),
+                ingestRunId: run?.id ?? null,
               },
               create: {
                 gameId: game.id,
@@ -170,8 +154,14 @@ export class VisualCrossingAdapter implements DataSourceAdapter {
                 conditions: weather.conditions,
                 source: 'visualcrossing',
                 forecastTime: new Date(),
+                ingestRunId: run?.id ?? null,
               },
             });
+            if (hasWeather.has(game.id)) {
+              run?.updated();
+            } else {
+              run?.inserted();
+            }
 
             // Format the log line as specified
             const formattedDate = gameDate.toISOString().slice(11, 16); // HH:MM
@@ -183,6 +173,7 @@ export class VisualCrossingAdapter implements DataSourceAdapter {
           } else {
             console.log(`⚠️  ${season} wk${game.week} ${game.awayTeamId}-${game.homeTeamId} → Weather data unavailable`);
             skipped++;
+            run?.skipped();
           }
 
           // Rate limiting - small delay between requests
@@ -191,6 +182,7 @@ export class VisualCrossingAdapter implements DataSourceAdapter {
         } catch (error) {
           console.log(`❌ ${season} wk${game.week} ${game.awayTeamId}-${game.homeTeamId} → ${(error as Error).message}`);
           errors++;
+          run?.error(`${game.id}: ${(error as Error).message}`);
         }
       }
 
@@ -235,6 +227,7 @@ export class VisualCrossingAdapter implements DataSourceAdapter {
       }
 
       const data: VCTimelineResponse = await response.json();
+      activeIngestRun()?.credits(data.queryCost ?? 1);
 
       // Find the day
       if (!data.days || data.days.length === 0) {
@@ -8,6 +8,7 @@
 import { PrismaClient } from '@prisma/client';
 import { OddsApiAdapter } from './adapters/OddsApiAdapter.js';
 import { normalizeBookmakerName } from './lib/bookmaker-normalizer.js';
+import { IngestRun, startIngestRun } from './lib/ingest-run.js';
 
 const prisma = new PrismaClient();
 
@@ -131,6 +132,7 @@ async function main() {
   console.log('[DB] NODE_ENV:', process.env.NODE_ENV || 'not set');
   console.log('');
 
+  let run: IngestRun | null = null;
   try {
     // Set environment variables
     if (options.historicalStrict) {
@@ -158,6 +160,16 @@ async function main() {
       markets: options.markets.split(',')
     });
 
+    // Ledger entry for this run; the adapter reports credits and unmatched names into it
+    if (!options.dryRun) {
+      run = await startIngestRun(prisma, {
+        jobName: 'ingest-minimal',
+        adapter: options.adapter,
+        season: options.season,
+        weeks: options.weeks,
+      });
+    }
+
     // Fetch market lines
     console.log('📥 Fetching market lines...');
     console.log(`🔍 Pipeline: Starting historical backfill for ${options.season} Week ${options.weeks.join(',')}`);
@@ -240,7 +252,8 @@ async function main() {
       bookName: normalizeBookmakerName(line.bookName), // Normalize bookmaker name
       source: line.source || 'oddsapi',
       timestamp: new Date(line.timestamp),
-      teamId: line.teamId || null // CRITICAL: Include teamId for spreads and moneylines
+      teamId: line.teamId || null, // CRITICAL: Include teamId for spreads and moneylines
+      ingestRunId: run?.id ?? null,
     }));
     
     // Deduplicate rows based on unique constraint: (gameId, lineType, bookName, timestamp, teamId)
@@ -314,6 +327,8 @@ async function main() {
           skipDuplicates: false, // Changed: No longer needed since we deleted first
         });
         console.log('[DB] createMany result:', insertResult);
+        run?.inserted(insertResult.count);
+        run?.skipped(duplicatesRemoved);
         
         // Verify all rows inserted
         const expectedInserts = rowsToInsert.length;
@@ -361,6 +376,7 @@ async function main() {
     // Fail-fast guard if zero rows
     if (!options.dryRun && marketLines.length === 0) {
       console.error('❌ Historical backfill wrote 0 rows; check event mapping and snapshot.');
+      await run?.finish(new Error('Historical backfill wrote 0 rows'));
       process.exit(2);
     }
     
@@ -399,11 +415,14 @@ async function main() {
     }
     
     console.log('✅ Ingestion completed successfully');
+    await run?.finish();
 
   } catch (error) {
     console.error('❌ Error during ingestion:', errMsg(error));
+    await run?.finish(error);
     process.exit(1);
   } finally {
+    await run?.finish();
     await prisma.$disconnect();
   }
 }
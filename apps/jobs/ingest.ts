@@ -11,8 +11,12 @@
 
 import { PrismaClient } from '@prisma/client';
 import { AdapterFactory } from './adapters/AdapterFactory.js';
+import { ADAPTER_CAPABILITIES, AdapterCapability, hasCapability } from './adapters/DataSourceAdapter.js';
 import { main as runRatings } from './seed-ratings.js';
 import { normalizeBookmakerName } from './lib/bookmaker-normalizer.js';
+import { runLineAlerts } from './src/alerts/line-alerts.js';
+import { installHttpFixturesFromEnv } from './lib/http-fixtures.js';
+import { IngestRun, activeIngestRun, startIngestRun } from './lib/ingest-run.js';
 
 const prisma = new PrismaClient();
 
@@ -174,17 +178,29 @@ Examples:
 Available adapters:
   mock             Mock data source (reads from /data/ directory)
   cfbd             CollegeFootballData API (schedules only, requires CFBD_API_KEY)
+  oddsapi          The Odds API (odds only, requires ODDS_API_KEY)
   sgo              SportsGameOdds API (odds only, requires SGO_API_KEY)
   weatherVc        Visual Crossing Weather API (logs only, requires VISUALCROSSING_API_KEY)
+  espn-injuries    ESPN injury reports (no key required)
+  cfbd-rankings    CFBD poll rankings (requires CFBD_API_KEY)
   espn             ESPN API (not yet implemented)
   oddsApi          Odds API (not yet implemented)
   sportsReference  Sports Reference (not yet implemented)
 
+  A capability (schedules, odds, weather, injuries, rankings) can be given
+  instead of an adapter name; it routes to the first usable adapter listed
+  under routing in datasources.yml.
+
+Environment:
+  HTTP_FIXTURES=record  Save every API response under HTTP_FIXTURES_DIR (default fixtures/http)
+  HTTP_FIXTURES=replay  Serve saved responses offline (no API keys needed)
+
 Notes:
   - CFBD adapter provides real schedules with venue/city details
   - SGO adapter only provides odds/lines, not schedules or teams
   - Weather adapters only log data, do not write to database (no weather table yet)
   - For full ingestion, run cfbd adapter first, then sgo for odds, then weatherVc
+  - When an odds adapter stores no lines, the next routed odds adapter is tried
 `);
 }
 
@@ -394,11 +410,12 @@ async function upsertGames(games, existingTeamIds) {
     const chunk = uniqueGames.slice(i, i + chunkSize);
     
     try {
-      await prisma.game.createMany({
+      const result = await prisma.game.createMany({
         data: chunk,
         skipDuplicates: true // Skip duplicates at DB level
       });
       upserted += chunk.length;
+      activeIngestRun()?.inserted(result.count);
     } catch (error) {
       // If chunk fails, try individual records to identify problematic ones
       console.warn(`   ⚠️  Game chunk upsert failed, trying individual records...`);
@@ -409,8 +426,11 @@ async function upsertGames(games, existingTeamIds) {
             data: game
           });
           upserted++;
+          activeIngestRun()?.inserted();
         } catch (gameError) {
           console.warn(`   ⚠️  Skipped game due to error: ${errMsg(gameError)}`);
+          activeIngestRun()?.skipped();
+          activeIngestRun()?.error(`game ${game.id}: ${errMsg(gameError)}`);
         }
       }
     }
@@ -464,8 +484,11 @@ async function upsertMarketLines(marketLines) {
     const dedupKey = `${gameId}|${line.lineType}|${line.bookName || ''}|${line.source || ''}|${line.timestamp || ''}|${line.teamId || ''}`;
     
     // Keep only the latest record per key (if duplicates appear)
+    // Over/under rows share a key; keep the one carrying the (over) price
     const existing = dedupMap.get(dedupKey);
-    if (!existing || new Date(line.timestamp) > new Date(existing.timestamp)) {
+    const addsPrice = existing && existing.price == null && line.price != null
+      && new Date(line.timestamp).getTime() === new Date(existing.timestamp).getTime();
+    if (!existing || new Date(line.timestamp) > new Date(existing.timestamp) || addsPrice) {
       dedupMap.set(dedupKey, {
         gameId,
         season: line.season || 2024,
@@ -473,10 +496,12 @@ async function upsertMarketLines(marketLines) {
         lineType: line.lineType,
         lineValue: line.lineValue !== undefined ? line.lineValue : line.openingLine,
         closingLine: line.closingLine,
+        price: line.price ?? null,
         timestamp: line.timestamp,
         source: line.source || line.bookName,
         bookName: normalizeBookmakerName(line.bookName), // Normalize bookmaker name
-        teamId: line.teamId || null // CRITICAL: Include teamId for spreads and moneylines
+        teamId: line.teamId || null, // CRITICAL: Include teamId for spreads and moneylines
+        ingestRunId: activeIngestRun()?.id ?? null
       });
     } else {
       deduplicated++;
@@ -507,6 +532,8 @@ async function upsertMarketLines(marketLines) {
       });
       console.log(`   [INSERT] Chunk ${Math.floor(i/chunkSize) + 1}: Attempted ${chunk.length}, inserted ${result.count}`);
       upserted += result.count;
+      activeIngestRun()?.inserted(result.count);
+      activeIngestRun()?.skipped(chunk.length - result.count);
     } catch (error) {
       // If chunk fails, try individual records to identify problematic ones
       console.warn(`   ⚠️  Chunk upsert failed, trying individual records...`);
@@ -517,14 +544,17 @@ async function upsertMarketLines(marketLines) {
             data: line
           });
           upserted++;
+          activeIngestRun()?.inserted();
         } catch (lineError) {
           // Skip lines for games that don't exist (foreign key constraint)
           if (errMsg(lineError).includes('Foreign key constraint')) {
             skipped++;
           } else {
             console.warn(`   ⚠️  Skipped line due to error: ${errMsg(lineError)}`);
+            activeIngestRun()?.error(`line ${line.gameId} ${line.lineType}: ${errMsg(lineError)}`);
             skipped++;
           }
+          activeIngestRun()?.skipped();
         }
       }
     }
@@ -586,14 +616,19 @@ async function upsertTeamBranding(teamBranding) {
  * Main ingestion function
  */
 async function main() {
+  let run: IngestRun | null = null;
   try {
     const options = parseArgs();
+    const ingestStartedAt = new Date();
 
     if (options.help) {
       showHelp();
       return;
     }
 
+    // Record/replay API responses (HTTP_FIXTURES=record|replay)
+    installHttpFixturesFromEnv();
+
     // Validate arguments
     if (!options.adapter) {
       console.error('Error: Adapter name is required');
@@ -641,64 +676,78 @@ async function main() {
       process.env.CREDITS_LIMIT = String(options.creditsLimit);
     }
 
-    // Create adapter
+    // Create adapter: a configured adapter name, or a capability routed to the
+    // first usable adapter that provides it (e.g. `ingest -- odds`)
     const factory = new AdapterFactory();
-    const adapter = await factory.createAdapter(options.adapter);
+    let adapterName = options.adapter;
+    if (!factory.getAdapterConfig(adapterName) && ADAPTER_CAPABILITIES.includes(adapterName as AdapterCapability)) {
+      adapterName = (await factory.createAdapterFor(adapterName as AdapterCapability)).name;
+      console.log(`   Routed ${options.adapter} → ${adapterName}`);
+    }
+    const adapter = await factory.createAdapter(adapterName);
 
-    console.log(`✅ Using adapter: ${adapter.getName()}`);
+    console.log(`✅ Using adapter: ${adapter.getName()} (${adapter.capabilities.join(', ')})`);
 
     // Check if adapter is available
     if (!(await adapter.isAvailable())) {
-      throw new Error(`Adapter '${options.adapter}' is not available`);
+      throw new Error(`Adapter '${adapterName}' is not available`);
     }
 
-    // Special handling for weather adapters (they don't follow standard flow)
-    if (options.adapter === 'weatherVc' || adapter.getName() === 'VisualCrossing') {
-      const weatherAdapter = adapter as any;
-      if (typeof weatherAdapter.fetchWeatherForGames === 'function') {
-        await weatherAdapter.fetchWeatherForGames(options.season, options.weeks);
-        console.log('✅ Weather fetch completed!');
-        return; // Skip standard ingestion flow
-      }
+    // Ledger entry for this run; adapters and upserts report into it
+    if (!options.dryRun) {
+      run = await startIngestRun(prisma, {
+        jobName: 'ingest',
+        adapter: adapterName,
+        season: options.season,
+        weeks: options.weeks,
+      });
     }
 
-    // Special handling for ESPN injury adapter (doesn't follow standard flow)
-    if (options.adapter === 'cfbd-rankings' || options.adapter === 'cfbdRankings') {
-      // Special handler for CFBD rankings ETL
+    // Weather, rankings and injury adapters store their own data (no teams/games/lines flow)
+    if (hasCapability(adapter, 'weather')) {
+      await adapter.fetchWeatherForGames(options.season, options.weeks);
+      console.log('✅ Weather fetch completed!');
+      return;
+    }
+
+    if (hasCapability(adapter, 'rankings')) {
       console.log('📊 Running CFBD Rankings ETL...');
-      const rankingsModule = require('./src/rankings/cfbd_rankings_etl');
-      if (rankingsModule.main) {
-        await rankingsModule.main();
-      } else {
-        throw new Error('CFBD rankings ETL main function not found');
-      }
-      await prisma.$disconnect();
-      process.exit(0);
+      await adapter.fetchRankings(options.season, options.weeks);
+      console.log('✅ Rankings fetch completed!');
+      return;
     }
 
-    if (options.adapter === 'espn-injuries' || options.adapter === 'espnInjuries' || adapter.getName() === 'ESPNInjuries') {
-      const { fetchESPNInjuries } = require('../dist/adapters/ESPNInjuryAdapter');
-      await fetchESPNInjuries(options.season, options.weeks);
+    if (hasCapability(adapter, 'injuries')) {
+      await adapter.fetchInjuries(options.season, options.weeks);
       console.log('✅ ESPN injury fetch completed!');
-      return; // Skip standard ingestion flow
+      return;
     }
 
-    // Fetch data from adapter
-    console.log('📥 Fetching teams...');
-    const teams = await adapter.getTeams(options.season);
-    console.log(`   Found ${teams.length} teams`);
+    // Fetch data from adapter (each step only for adapters that provide it)
+    let teams = [];
+    if (hasCapability(adapter, 'teams')) {
+      console.log('📥 Fetching teams...');
+      teams = await adapter.getTeams(options.season);
+      console.log(`   Found ${teams.length} teams`);
+    } else {
+      console.log('⏭️  Adapter does not provide teams; teams will be created from games.');
+    }
 
-    console.log('📥 Fetching schedules...');
-    const games = await adapter.getSchedules(options.season, options.weeks);
-    console.log(`   Found ${games.length} games`);
+    let games = [];
+    if (hasCapability(adapter, 'schedules')) {
+      console.log('📥 Fetching schedules...');
+      games = await adapter.getSchedules(options.season, options.weeks);
+      console.log(`   Found ${games.length} games`);
+    } else {
+      console.log('⏭️  Adapter does not provide schedules.');
+    }
 
-    console.log('📥 Fetching market lines...');
     const dateOptions: { startDate?: string; endDate?: string } = {};
     if (options.startDate) dateOptions.startDate = options.startDate;
     if (options.endDate) dateOptions.endDate = options.endDate;
     
     // For historical data, calculate date range from CFBD games if not provided
-    if (!options.startDate && !options.endDate && options.season < new Date().getFullYear()) {
+    if (hasCapability(adapter, 'odds') && !options.startDate && !options.endDate && options.season < new Date().getFullYear()) {
       console.log('   [DATE RANGE] Calculating date range from CFBD games for historical odds...');
       const dateRange = await calculateDateRangeFromGames(options.season, options.weeks);
       if (dateRange) {
@@ -708,17 +757,21 @@ async function main() {
       }
     }
     
-    // Some adapters support date options, some don't - use type assertion
-    const marketLines = await (adapter.getMarketLines as any)(
-      options.season, 
-      options.weeks, 
-      Object.keys(dateOptions).length > 0 ? dateOptions : undefined
-    );
-    console.log(`   Found ${marketLines.length} market lines`);
-    
-    // Check if SGO returned zero lines
-    if (options.adapter === 'sgo' && marketLines.length === 0) {
-      console.warn('[SGO] No odds inserted. Will rely on fallback (if configured).');
+    let marketLines = [];
+    if (hasCapability(adapter, 'odds')) {
+      console.log('📥 Fetching market lines...');
+      marketLines = await adapter.getMarketLines(
+        options.season,
+        options.weeks,
+        Object.keys(dateOptions).length > 0 ? dateOptions : undefined
+      );
+      console.log(`   Found ${marketLines.length} market lines`);
+
+      if (marketLines.length === 0) {
+        console.warn(`[${adapterName}] No odds returned. Will rely on fallback (if configured).`);
+      }
+    } else {
+      console.log('⏭️  Adapter does not provide market lines.');
     }
 
     // Upsert data to database (skip in dry-run mode)
@@ -746,50 +799,40 @@ async function main() {
       console.log(`   Upserted ${marketLinesUpserted} market lines`);
     }
     
-    // Automatic fallback: Odds API → SGO (for live 2025 data) - skip in dry-run
-    if (!options.dryRun && options.adapter === 'oddsapi' && marketLinesUpserted === 0 && process.env.SGO_API_KEY) {
-      console.warn('⚠️  Odds API returned 0 market lines. Engaging SGO fallback...');
-      
-      try {
-        const sgoFactory = new AdapterFactory();
-        const sgoAdapter = await sgoFactory.createAdapter('sgo');
-        
-        console.log('📥 Fetching market lines from SGO...');
-        const fallbackMarketLines = await (sgoAdapter.getMarketLines as any)(options.season, options.weeks, Object.keys(dateOptions).length > 0 ? dateOptions : undefined);
-        console.log(`   Found ${fallbackMarketLines.length} market lines (sgo)`);
-        
-        console.log('💾 Upserting fallback market lines...');
-        const fallbackUpserted = await upsertMarketLines(fallbackMarketLines);
-        console.log(`   Upserted ${fallbackUpserted} fallback market lines (sgo)`);
-        marketLinesUpserted += fallbackUpserted;
-      } catch (error) {
-        console.error('   ❌ SGO fallback failed:', errMsg(error));
+    // Automatic fallback to the next routed odds adapter (e.g. Odds API → SGO) - skip in dry-run
+    if (!options.dryRun && marketLinesUpserted === 0 && factory.getAdaptersFor('odds').includes(adapterName)) {
+      const fallbacks = await factory.createAdaptersFor('odds', { exclude: [adapterName] });
+      for (const fallback of fallbacks) {
+        console.warn(`⚠️  ${adapterName} returned 0 market lines. Engaging ${fallback.name} fallback...`);
+        try {
+          console.log(`📥 Fetching market lines from ${fallback.name}...`);
+          const fallbackMarketLines = await fallback.adapter.getMarketLines(options.season, options.weeks, Object.keys(dateOptions).length > 0 ? dateOptions : undefined);
+          console.log(`   Found ${fallbackMarketLines.length} market lines (${fallback.name})`);
+
+          console.log('💾 Upserting fallback market lines...');
+          const fallbackUpserted = await upsertMarketLines(fallbackMarketLines);
+          console.log(`   Upserted ${fallbackUpserted} fallback market lines (${fallback.name})`);
+          marketLinesUpserted += fallbackUpserted;
+        } catch (error) {
+          console.error(`   ❌ ${fallback.name} fallback failed:`, errMsg(error));
+          run?.error(`${fallback.name} fallback: ${errMsg(error)}`);
+        }
+        if (marketLinesUpserted > 0) break;
       }
     }
-    
-    // Also support SGO → Odds API fallback (for historical data or if SGO is primary) - skip in dry-run
-    if (!options.dryRun && options.adapter === 'sgo' && marketLinesUpserted === 0 && process.env.ODDS_API_KEY) {
-      console.warn('⚠️  SGO returned 0 market lines. Engaging Odds API fallback...');
-      
+
+    // Line-movement alerts on the snapshots stored by this run - skip in dry-run
+    if (!options.dryRun && marketLinesUpserted > 0) {
+      console.log('🔔 Evaluating line alerts...');
       try {
-        const oddsApiFactory = new AdapterFactory();
-        const oddsApiAdapter = await oddsApiFactory.createAdapter('oddsapi');
-        
-        console.log('📥 Fetching market lines from Odds API...');
-        const fallbackMarketLines = await (oddsApiAdapter.getMarketLines as any)(options.season, options.weeks, Object.keys(dateOptions).length > 0 ? dateOptions : undefined);
-        console.log(`   Found ${fallbackMarketLines.length} market lines (oddsapi)`);
-        
-        console.log('💾 Upserting fallback market lines...');
-        const fallbackUpserted = await upsertMarketLines(fallbackMarketLines);
-        console.log(`   Upserted ${fallbackUpserted} fallback market lines (oddsapi)`);
-        marketLinesUpserted += fallbackUpserted;
+        await runLineAlerts(prisma, { season: options.season, weeks: options.weeks, since: ingestStartedAt });
       } catch (error) {
-        console.error('   ❌ Odds API fallback failed:', errMsg(error));
+        console.error('   ❌ Line alerts failed:', errMsg(error));
       }
     }
 
     // Branding (optional) - skip in dry-run
-    if (!options.dryRun && typeof adapter.getTeamBranding === 'function') {
+    if (!options.dryRun && hasCapability(adapter, 'branding')) {
       console.log('📥 Fetching team branding...');
       const teamBranding = await adapter.getTeamBranding();
       console.log(`   Found ${teamBranding.length} team branding entries`);
@@ -819,10 +862,11 @@ async function main() {
       }
       console.log(`   Upserted ${brandingCount} team branding entries`);
     } else {
-      console.log('⏭️  Adapter has no getTeamBranding(); skipping branding step.');
+      console.log('⏭️  Adapter does not provide branding; skipping branding step.');
     }
 
     console.log('✅ Data ingestion completed successfully!');
+    await run?.finish();
 
     // Run ratings and implied lines on the ingested data - skip in dry-run
     if (!options.dryRun) {
@@ -855,8 +899,10 @@ async function main() {
 
   } catch (error) {
     console.error('❌ Error during ingestion:', error.message);
+    await run?.finish(error);
     process.exit(1);
   } finally {
+    await run?.finish();
     await prisma.$disconnect();
   }
 }
@@ -0,0 +1,8 @@
+/**
+ * Preload for any job: node -r ./apps/jobs/dist/lib/http-fixtures-register.js <job>
+ * Installs record/replay from HTTP_FIXTURES / HTTP_FIXTURES_DIR (see http-fixtures.ts).
+ */
+
+import { installHttpFixturesFromEnv } from './http-fixtures';
+
+installHttpFixturesFromEnv();
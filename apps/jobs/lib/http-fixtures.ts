@@ -0,0 +1,203 @@
+/**
+ * HTTP Fixtures (record / replay)
+ *
+ * Wraps global fetch so adapters and ETL jobs can be recorded against the live
+ * APIs once and replayed offline (tests, CI, debugging a bad week).
+ *
+ *   HTTP_FIXTURES=record  call the API and save each response
+ *   HTTP_FIXTURES=replay  serve saved responses; unrecorded requests throw
+ *   HTTP_FIXTURES_DIR     fixtures directory (default fixtures/http)
+ *
+ * Fixtures are keyed by method + URL (query params sorted) + request body, with
+ * API keys stripped from the URL, and stored as one JSON file per request under
+ * <dir>/<host>/. Request headers (Authorization, X-Api-Key) are never stored.
+ */
+
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+
+export type HttpFixtureMode = 'off' | 'record' | 'replay';
+
+export const DEFAULT_HTTP_FIXTURES_DIR = 'fixtures/http';
+
+// Query params holding credentials (dropped from fixture keys and files)
+const SECRET_PARAMS = /^(api_?key|key|token|access_token)$/i;
+
+// API keys adapters require at construction; replay fills them with a placeholder
+const REPLAY_API_KEYS = ['CFBD_API_KEY', 'ODDS_API_KEY', 'SGO_API_KEY', 'VISUALCROSSING_API_KEY'];
+
+// Response headers worth keeping (content type, quota/rate-limit counters)
+const KEPT_HEADERS = /^(content-type|x-requests-.*|x-ratelimit-.*|retry-after)$/i;
+
+type FetchFn = typeof fetch;
+
+export interface HttpFixture {
+  request: { method: string; url: string; body?: string };
+  response: {
+    status: number;
+    statusText: string;
+    headers: Record<string, string>;
+    json?: unknown;
+    text?: string;
+  };
+  recordedAt: string;
+}
+
+export interface HttpFixtureOptions {
+  mode: HttpFixtureMode;
+  dir?: string;
+  fetchImpl?: FetchFn;
+  log?: boolean;
+}
+
+export class HttpFixtureMissingError extends Error {
+  constructor(method: string, url: string, file: string) {
+    super(`No HTTP fixture for ${method} ${url} (expected ${file}); record it with HTTP_FIXTURES=record`);
+    this.name = 'HttpFixtureMissingError';
+  }
+}
+
+/**
+ * URL with credentials removed and query params sorted
+ */
+export function fixtureUrl(url: string): string {
+  const parsed = new URL(url);
+  const params = Array.from(parsed.searchParams.entries())
+    .filter(([name]) => !SECRET_PARAMS.test(name))
+    .sort(([a, av], [b, bv]) => a.localeCompare(b) || av.localeCompare(bv));
+  parsed.search = '';
+  for (const [name, value] of params) parsed.searchParams.append(name, value);
+  return parsed.toString();
+}
+
+/**
+ * Fixture file for a request: <dir>/<host>/<method>_<path-slug>_<hash>.json
+ */
+export function fixturePath(dir: string, method: string, url: string, body?: string): string {
+  const cleanUrl = fixtureUrl(url);
+  const parsed = new URL(cleanUrl);
+  const hash = crypto
+    .createHash('sha1')
+    .update(`${method.toUpperCase()} ${cleanUrl}\n${body ?? ''}`)
+    .digest('hex')
+    .slice(0, 12);
+  const slug = parsed.pathname.replace(/^\/+|\/+$/g, '').replace(/[^a-zA-Z0-9]+/g, '-').slice(0, 60) || 'root';
+  return path.join(dir, parsed.host, `${method.toLowerCase()}_${slug}_${hash}.json`);
+}
+
+function describeRequest(input: any, init?: RequestInit): { method: string; url: string; body?: string } {
+  const url = typeof input === 'string' ? input : input instanceof URL ? input.toString() : input.url;
+  const method = (init?.method || (typeof input === 'object' && 'method' in input ? input.method : undefined) || 'GET').toUpperCase();
+  const body = typeof init?.body === 'string' ? init.body : undefined;
+  return { method, url, body };
+}
+
+function toResponse(fixture: HttpFixture): Response {
+  const { status, statusText, headers, json, text } = fixture.response;
+  const nullBody = status === 204 || status === 304;
+  const body = nullBody ? null : json !== undefined ? JSON.stringify(json) : text ?? '';
+  return new Response(body, { status, statusText, headers });
+}
+
+async function toFixture(request: { method: string; url: string; body?: string }, response: Response): Promise<HttpFixture> {
+  const headers: Record<string, string> = {};
+  response.headers.forEach((value, name) => {
+    if (KEPT_HEADERS.test(name)) headers[name.toLowerCase()] = value;
+  });
+
+  const text = await response.text();
+  let json: unknown;
+  if ((headers['content-type'] || '').includes('json') || /^\s*[[{]/.test(text)) {
+    try {
+      json = JSON.parse(text);
+    } catch {
+      json = undefined;
+    }
+  }
+
+  return {
+    request: { method: request.method, url: fixtureUrl(request.url), ...(request.body ? { body: request.body } : {}) },
+    response: {
+      status: response.status,
+      statusText: response.statusText,
+      headers,
+      ...(json !== undefined ? { json } : { text }),
+    },
+    recordedAt: new Date().toISOString(),
+  };
+}
+
+/**
+ * fetch that records to or replays from the fixtures directory
+ */
+export function createFixtureFetch(options: HttpFixtureOptions): FetchFn {
+  const dir = options.dir || DEFAULT_HTTP_FIXTURES_DIR;
+  const realFetch = options.fetchImpl || globalThis.fetch;
+  if (options.mode === 'off') return realFetch;
+
+  return (async (input: any, init?: RequestInit): Promise<Response> => {
+    const request = describeRequest(input, init);
+    const file = fixturePath(dir, request.method, request.url, request.body);
+
+    if (options.mode === 'replay') {
+      if (!fs.existsSync(file)) {
+        throw new HttpFixtureMissingError(request.method, fixtureUrl(request.url), file);
+      }
+      return toResponse(JSON.parse(fs.readFileSync(file, 'utf8')));
+    }
+
+    const response = await realFetch(input, init);
+    const fixture = await toFixture(request, response);
+    fs.mkdirSync(path.dirname(file), { recursive: true });
+    fs.writeFileSync(file, JSON.stringify(fixture, null, 2) + '\n');
+    if (options.log !== false) {
+      console.log(`   [HTTP_FIXTURES] recorded ${request.method} ${fixture.request.url} → ${file}`);
+    }
+    return toResponse(fixture);
+  }) as FetchFn;
+}
+
+let installedFetch: FetchFn | null = null;
+
+/**
+ * Replace global fetch with a recording/replaying one. Returns an uninstall
+ * function; installing twice keeps the first installation.
+ */
+export function installHttpFixtures(options: HttpFixtureOptions): () => void {
+  if (options.mode === 'off' || installedFetch) {
+    return () => {};
+  }
+
+  installedFetch = globalThis.fetch;
+  globalThis.fetch = createFixtureFetch({ ...options, fetchImpl: options.fetchImpl || installedFetch });
+
+  if (options.mode === 'replay') {
+    for (const name of REPLAY_API_KEYS) {
+      if (!process.env[name]) process.env[name] = 'replay';
+    }
+  }
+
+  if (options.log !== false) {
+    console.log(`[HTTP_FIXTURES] ${options.mode} (${options.dir || DEFAULT_HTTP_FIXTURES_DIR})`);
+  }
+
+  return () => {
+    if (installedFetch) {
+      globalThis.fetch = installedFetch;
+      installedFetch = null;
+    }
+  };
+}
+
+/**
+ * Install from HTTP_FIXTURES / HTTP_FIXTURES_DIR (no-op when unset)
+ */
+export function installHttpFixturesFromEnv(env: NodeJS.ProcessEnv = process.env): HttpFixtureMode {
+  const mode = (env.HTTP_FIXTURES || 'off').toLowerCase() as HttpFixtureMode;
+  if (mode !== 'off' && mode !== 'record' && mode !== 'replay') {
+    throw new Error(`Invalid HTTP_FIXTURES=${env.HTTP_FIXTURES} (expected record, replay or off)`);
+  }
+  installHttpFixtures({ mode, dir: env.HTTP_FIXTURES_DIR || DEFAULT_HTTP_FIXTURES_DIR });
+  return mode;
+}
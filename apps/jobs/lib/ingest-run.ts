@@ -0,0 +1,183 @@
+/**
+ * Ingest Run Ledger
+ *
+ * One IngestRun row per job invocation: job, adapter, season/weeks, start/end,
+ * rows inserted/updated/skipped, unmatched team names, API credits and errors.
+ * MarketLine, Weather, Injury and TeamGameStat rows carry the id of the run
+ * that wrote them (ingestRunId).
+ *
+ * Unmatched names are also queued for review (unmatched_team_names, see
+ * team-aliases.ts) when the run closes.
+ *
+ * The run is process-wide while it is active so adapters and ETL helpers can
+ * report into it (activeIngestRun()?.inserted(n)) without threading it through
+ * every provider signature. With no active run (dry-run, tests) those calls are
+ * no-ops.
+ */
+
+import { recordUnmatchedNames } from './team-aliases';
+
+export type IngestRunStatus = 'running' | 'success' | 'partial' | 'failed';
+
+export interface IngestRunInfo {
+  jobName: string;
+  adapter?: string | null;
+  season?: number | null;
+  weeks?: number[];
+}
+
+export interface IngestRunCounts {
+  rowsInserted: number;
+  rowsUpdated: number;
+  rowsSkipped: number;
+  apiCreditsUsed: number;
+  unmatchedTeams: string[];
+  errors: string[];
+}
+
+// Errors kept per run (the rest are counted in the last entry)
+const MAX_ERRORS = 50;
+
+/**
+ * Final status: failed when nothing was written and something went wrong,
+ * partial when some rows were written despite errors.
+ */
+export function resolveIngestRunStatus(counts: Pick<IngestRunCounts, 'rowsInserted' | 'rowsUpdated' | 'errors'>): IngestRunStatus {
+  if (counts.errors.length === 0) return 'success';
+  return counts.rowsInserted + counts.rowsUpdated > 0 ? 'partial' : 'failed';
+}
+
+function message(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+export class IngestRun {
+  private readonly counts: IngestRunCounts = {
+    rowsInserted: 0,
+    rowsUpdated: 0,
+    rowsSkipped: 0,
+    apiCreditsUsed: 0,
+    unmatchedTeams: [],
+    errors: [],
+  };
+  private droppedErrors = 0;
+  private status: IngestRunStatus = 'running';
+
+  constructor(private readonly prisma: any, readonly id: string, readonly info: IngestRunInfo) {}
+
+  inserted(n: number = 1): void {
+    this.counts.rowsInserted += n;
+  }
+
+  updated(n: number = 1): void {
+    this.counts.rowsUpdated += n;
+  }
+
+  skipped(n: number = 1): void {
+    this.counts.rowsSkipped += n;
+  }
+
+  credits(n: number): void {
+    if (Number.isFinite(n) && n > 0) this.counts.apiCreditsUsed += n;
+  }
+
+  unmatched(...names: string[]): void {
+    for (const name of names) {
+      if (name && !this.counts.unmatchedTeams.includes(name)) this.counts.unmatchedTeams.push(name);
+    }
+  }
+
+  error(error: unknown): void {
+    if (this.counts.errors.length < MAX_ERRORS) {
+      this.counts.errors.push(message(error));
+    } else {
+      this.droppedErrors++;
+    }
+  }
+
+  snapshot(): IngestRunCounts {
+    const errors = this.droppedErrors > 0
+      ? [...this.counts.errors, `…and ${this.droppedErrors} more`]
+      : [...this.counts.errors];
+    return { ...this.counts, unmatchedTeams: [...this.counts.unmatchedTeams].sort(), errors };
+  }
+
+  /**
+   * Close the run (idempotent). A fatal error is recorded before the status is
+   * resolved; a ledger write failure is logged, never thrown.
+   */
+  async finish(fatal?: unknown): Promise<IngestRunStatus> {
+    if (this.status !== 'running') return this.status;
+    if (fatal !== undefined) this.error(fatal);
+    const counts = this.snapshot();
+    const status = fatal !== undefined ? 'failed' : resolveIngestRunStatus(counts);
+    this.status = status;
+    if (activeRun === this) activeRun = null;
+
+    try {
+      await this.prisma.ingestRun.update({
+        where: { id: this.id },
+        data: { ...counts, status, finishedAt: new Date() },
+      });
+    } catch (error) {
+      console.warn(`   [INGEST_RUN] Failed to close run ${this.id}: ${message(error)}`);
+    }
+    if (counts.unmatchedTeams.length > 0) {
+      try {
+        await recordUnmatchedNames(this.prisma, {
+          provider: this.info.adapter || this.info.jobName,
+          jobName: this.info.jobName,
+          season: this.info.season,
+          weeks: this.info.weeks,
+          ingestRunId: this.id,
+          names: counts.unmatchedTeams,
+        });
+      } catch (error) {
+        console.warn(`   [INGEST_RUN] Failed to queue unmatched teams: ${message(error)}`);
+      }
+    }
+    console.log(
+      `   [INGEST_RUN] ${this.info.jobName} ${status}: ${counts.rowsInserted} inserted, ${counts.rowsUpdated} updated, ` +
+      `${counts.rowsSkipped} skipped, ${counts.unmatchedTeams.length} unmatched, ${counts.errors.length} errors (run ${this.id})`
+    );
+    return status;
+  }
+}
+
+let activeRun: IngestRun | null = null;
+
+/**
+ * Open a run and make it the active one
+ */
+export async function startIngestRun(prisma: any, info: IngestRunInfo): Promise<IngestRun> {
+  const row = await prisma.ingestRun.create({
+    data: {
+      jobName: info.jobName,
+      adapter: info.adapter ?? null,
+      season: info.season ?? null,
+      weeks: info.weeks ?? [],
+      status: 'running',
+    },
+  });
+  activeRun = new IngestRun(prisma, row.id, info);
+  return activeRun;
+}
+
+export function activeIngestRun(): IngestRun | null {
+  return activeRun;
+}
+
+/**
+ * Run fn inside an IngestRun; the run is failed if fn throws (and rethrown)
+ */
+export async function withIngestRun<T>(prisma: any, info: IngestRunInfo, fn: (run: IngestRun) => Promise<T>): Promise<T> {
+  const run = await startIngestRun(prisma, info);
+  try {
+    const result = await fn(run);
+    await run.finish();
+    return result;
+  } catch (error) {
+    await run.finish(error);
+    throw error;
+  }
+}
@@ -0,0 +1,402 @@
+/**
+ * Job Orchestrator
+ *
+ * Runs a pipeline of jobs (ingest → stats → ratings → outputs → grading) in
+ * dependency order from one process, instead of a set of workflows that each
+ * assume the previous one already ran.
+ *
+ * - Each job declares the jobs it depends on; the pipeline is checked for
+ *   unknown dependencies and cycles before anything runs
+ * - Jobs run one at a time in dependency order (declaration order among jobs
+ *   that are ready together); a failed job blocks everything downstream of it,
+ *   independent branches still run
+ * - A job is retried with exponential backoff before it counts as failed
+ * - Every job run is recorded under an idempotency key (pipeline, job, run key —
+ *   season/week, or season/week/day for daily pipelines). A job that already
+ *   succeeded under its key is skipped, so running the pipeline again resumes
+ *   after a failure; --force runs everything again
+ * - Pipelines carry a cron expression (UTC, as in the GitHub workflows) for the
+ *   local scheduler
+ *
+ * Commands are argv arrays run from the monorepo root; the executor and the run
+ * store are injected so the runner can be tested without child processes or a
+ * database.
+ */
+
+export interface PipelineContext {
+  season: number;
+  week: number;
+}
+
+export interface PipelineJob {
+  name: string;
+  description: string;
+  dependsOn: string[];
+  /** argv, first element is the executable (node, npx) */
+  command: (ctx: PipelineContext) => string[];
+  /** Extra attempts after the first (default 0) */
+  retries?: number;
+  /** Delay before the first retry, doubled for each further one (default 30s) */
+  retryDelayMs?: number;
+  /** Per-attempt limit (default 20 min) */
+  timeoutMs?: number;
+}
+
+export interface Pipeline {
+  name: string;
+  description: string;
+  /** Cron expression (UTC) for the local scheduler */
+  schedule: string;
+  /** week: one run per season/week; day: one run per season/week per day */
+  idempotency: 'week' | 'day';
+  jobs: PipelineJob[];
+}
+
+export type JobOutcomeStatus = 'success' | 'failed' | 'skipped' | 'blocked';
+
+export interface JobOutcome {
+  job: string;
+  idempotencyKey: string;
+  status: JobOutcomeStatus;
+  attempts: number;
+  error?: string;
+}
+
+export interface PipelineResult {
+  pipeline: string;
+  runKey: string;
+  status: 'success' | 'failed';
+  jobs: JobOutcome[];
+}
+
+export interface PipelineJobRecord {
+  idempotencyKey: string;
+  pipeline: string;
+  jobName: string;
+  season: number;
+  week: number;
+  status: string;
+  attempts: number;
+  command: string;
+  startedAt: Date;
+  finishedAt: Date | null;
+  lastError: string | null;
+}
+
+export interface PipelineRunStore {
+  /** The job already succeeded under this key */
+  succeeded(idempotencyKey: string): Promise<boolean>;
+  /** Record that an attempt started (creates or resets the record) */
+  attempt(record: Pick<PipelineJobRecord, 'idempotencyKey' | 'pipeline' | 'jobName' | 'season' | 'week' | 'command' | 'attempts'>): Promise<void>;
+  finish(idempotencyKey: string, status: 'success' | 'failed', error?: string): Promise<void>;
+}
+
+export type CommandExecutor = (argv: string[], options: { timeoutMs: number }) => Promise<void>;
+
+export interface RunPipelineOptions {
+  store: PipelineRunStore;
+  execute: CommandExecutor;
+  now?: Date;
+  /** Ignore earlier successes */
+  force?: boolean;
+  /** Resolve and log the plan without running commands or recording runs */
+  dryRun?: boolean;
+  sleep?: (ms: number) => Promise<void>;
+  log?: (line: string) => void;
+}
+
+export class PipelineDefinitionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PipelineDefinitionError';
+  }
+}
+
+const DEFAULT_RETRY_DELAY_MS = 30 * 1000;
+const DEFAULT_TIMEOUT_MS = 20 * 60 * 1000;
+// Stored per record; the job's own output has the rest
+const MAX_ERROR_LENGTH = 2000;
+
+function message(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+/**
+ * Jobs in dependency order (declaration order among jobs that are ready at the
+ * same time). Throws PipelineDefinitionError on duplicate names, unknown
+ * dependencies and cycles.
+ */
+export function orderJobs(jobs: PipelineJob[]): PipelineJob[] {
+  const byName = new Map<string, PipelineJob>();
+  for (const job of jobs) {
+    if (byName.has(job.name)) throw new PipelineDefinitionError(`Duplicate job: ${job.name}`);
+    byName.set(job.name, job);
+  }
+  for (const job of jobs) {
+    for (const dep of job.dependsOn) {
+      if (!byName.has(dep)) throw new PipelineDefinitionError(`Job ${job.name} depends on unknown job ${dep}`);
+    }
+  }
+
+  const ordered: PipelineJob[] = [];
+  const done = new Set<string>();
+  while (ordered.length < jobs.length) {
+    const ready = jobs.find(job => !done.has(job.name) && job.dependsOn.every(dep => done.has(dep)));
+    if (!ready) {
+      const remaining = jobs.filter(job => !done.has(job.name)).map(job => job.name);
+      throw new PipelineDefinitionError(`Dependency cycle among: ${remaining.join(', ')}`);
+    }
+    ordered.push(ready);
+    done.add(ready.name);
+  }
+  return ordered;
+}
+
+/**
+ * Run key of a pipeline run: "2025-w9", or "2025-w9-2025-10-21" for daily
+ * pipelines (UTC date)
+ */
+export function pipelineRunKey(pipeline: Pipeline, ctx: PipelineContext, now: Date = new Date()): string {
+  const week = `${ctx.season}-w${ctx.week}`;
+  return pipeline.idempotency === 'day' ? `${week}-${now.toISOString().slice(0, 10)}` : week;
+}
+
+export function jobIdempotencyKey(pipeline: string, job: string, runKey: string): string {
+  return `${pipeline}:${job}:${runKey}`;
+}
+
+export function retryDelay(job: PipelineJob, attempt: number): number {
+  return (job.retryDelayMs ?? DEFAULT_RETRY_DELAY_MS) * Math.pow(2, attempt - 1);
+}
+
+export function formatCommand(argv: string[]): string {
+  return argv.join(' ');
+}
+
+const defaultSleep = (ms: number) => new Promise<void>(resolve => setTimeout(resolve, ms));
+
+/**
+ * Run a pipeline for a season/week (see header). Never throws for job
+ * failures; the result says which jobs failed and which were blocked by them.
+ */
+export async function runPipeline(pipeline: Pipeline, ctx: PipelineContext, options: RunPipelineOptions): Promise<PipelineResult> {
+  const { store, execute, force = false, dryRun = false } = options;
+  const sleep = options.sleep ?? defaultSleep;
+  const log = options.log ?? ((line: string) => console.log(line));
+  const runKey = pipelineRunKey(pipeline, ctx, options.now);
+  const outcomes = new Map<string, JobOutcome>();
+
+  log(`🚀 Pipeline ${pipeline.name} (${runKey})${dryRun ? ' [dry run]' : ''}${force ? ' [force]' : ''}`);
+
+  for (const job of orderJobs(pipeline.jobs)) {
+    const idempotencyKey = jobIdempotencyKey(pipeline.name, job.name, runKey);
+    const argv = job.command(ctx);
+    const blockedBy = job.dependsOn.filter(dep => {
+      const status = outcomes.get(dep)?.status;
+      return status === 'failed' || status === 'blocked';
+    });
+
+    if (blockedBy.length > 0) {
+      outcomes.set(job.name, { job: job.name, idempotencyKey, status: 'blocked', attempts: 0, error: `Blocked by ${blockedBy.join(', ')}` });
+      log(`   ⛔ ${job.name}: blocked by ${blockedBy.join(', ')}`);
+      continue;
+    }
+    if (!force && await store.succeeded(idempotencyKey)) {
+      outcomes.set(job.name, { job: job.name, idempotencyKey, status: 'skipped', attempts: 0 });
+      log(`   ⏭️  ${job.name}: already succeeded (${idempotencyKey})`);
+      continue;
+    }
+    if (dryRun) {
+      outcomes.set(job.name, { job: job.name, idempotencyKey, status: 'success', attempts: 0 });
+      log(`   🔎 ${job.name}: ${formatCommand(argv)}`);
+      continue;
+    }
+
+    const maxAttempts = (job.retries ?? 0) + 1;
+    let lastError: string | undefined;
+    let attempts = 0;
+    while (attempts < maxAttempts) {
+      if (attempts > 0) {
+        const delay = retryDelay(job, attempts);
+        log(`   🔁 ${job.name}: retrying in ${Math.round(delay / 1000)}s (attempt ${attempts + 1}/${maxAttempts})`);
+        await sleep(delay);
+      }
+      attempts++;
+      log(`   ▶️  ${job.name}: ${formatCommand(argv)}`);
+      await store.attempt({
+        idempotencyKey,
+        pipeline: pipeline.name,
+        jobName: job.name,
+        season: ctx.season,
+        week: ctx.week,
+        command: formatCommand(argv),
+        attempts,
+      });
+      try {
+        await execute(argv, { timeoutMs: job.timeoutMs ?? DEFAULT_TIMEOUT_MS });
+        lastError = undefined;
+        break;
+      } catch (error) {
+        lastError = message(error).slice(0, MAX_ERROR_LENGTH);
+        log(`   ❌ ${job.name}: ${lastError}`);
+      }
+    }
+
+    if (lastError === undefined) {
+      await store.finish(idempotencyKey, 'success');
+      outcomes.set(job.name, { job: job.name, idempotencyKey, status: 'success', attempts });
+      log(`   ✅ ${job.name}`);
+    } else {
+      await store.finish(idempotencyKey, 'failed', lastError);
+      outcomes.set(job.name, { job: job.name, idempotencyKey, status: 'failed', attempts, error: lastError });
+    }
+  }
+
+  const jobs = Array.from(outcomes.values());
+  const failed = jobs.some(outcome => outcome.status === 'failed' || outcome.status === 'blocked');
+  log(
+    `${failed ? '❌' : '✅'} Pipeline ${pipeline.name} (${runKey}): ` +
+    (['success', 'skipped', 'failed', 'blocked'] as JobOutcomeStatus[])
+      .map(status => `${jobs.filter(outcome => outcome.status === status).length} ${status}`)
+      .join(', ')
+  );
+  return { pipeline: pipeline.name, runKey, status: failed ? 'failed' : 'success', jobs };
+}
+
+/**
+ * Run store on pipeline_job_runs (one row per idempotency key)
+ */
+export function createPrismaRunStore(prisma: any): PipelineRunStore {
+  return {
+    async succeeded(idempotencyKey) {
+      const row = await prisma.pipelineJobRun.findUnique({ where: { idempotencyKey }, select: { status: true } });
+      return row?.status === 'success';
+    },
+    async attempt(record) {
+      const data = {
+        pipeline: record.pipeline,
+        jobName: record.jobName,
+        season: record.season,
+        week: record.week,
+        command: record.command,
+        attempts: record.attempts,
+        status: 'running',
+        startedAt: new Date(),
+        finishedAt: null,
+        lastError: null,
+      };
+      await prisma.pipelineJobRun.upsert({
+        where: { idempotencyKey: record.idempotencyKey },
+        update: data,
+        create: { idempotencyKey: record.idempotencyKey, ...data },
+      });
+    },
+    async finish(idempotencyKey, status, error) {
+      await prisma.pipelineJobRun.update({
+        where: { idempotencyKey },
+        data: { status, finishedAt: new Date(), lastError: error ?? null },
+      });
+    },
+  };
+}
+
+/**
+ * Recorded job runs of a pipeline for a season/week (all run keys), latest first
+ */
+export async function loadPipelineJobRuns(prisma: any, pipeline: string, ctx: PipelineContext): Promise<PipelineJobRecord[]> {
+  return prisma.pipelineJobRun.findMany({
+    where: { pipeline, season: ctx.season, week: ctx.week },
+    orderBy: { startedAt: 'desc' },
+  });
+}
+
+// --- Cron ---------------------------------------------------------------
+
+interface CronFields {
+  minutes: Set<number>;
+  hours: Set<number>;
+  daysOfMonth: Set<number>;
+  months: Set<number>;
+  daysOfWeek: Set<number>;
+  /** Day-of-month / day-of-week restricted (cron ORs them when both are) */
+  domRestricted: boolean;
+  dowRestricted: boolean;
+}
+
+function parseCronField(field: string, min: number, max: number, expr: string): Set<number> {
+  const values = new Set<number>();
+  for (const part of field.split(',')) {
+    const [range, stepText] = part.split('/');
+    const step = stepText === undefined ? 1 : Number(stepText);
+    let from: number;
+    let to: number;
+    if (range === '*') {
+      from = min;
+      to = max;
+    } else if (range.includes('-')) {
+      [from, to] = range.split('-').map(Number);
+    } else {
+      from = Number(range);
+      to = stepText === undefined ? from : max;
+    }
+    if (![from, to, step].every(Number.isInteger) || step < 1 || from < min || to > max || from > to) {
+      throw new PipelineDefinitionError(`Invalid cron expression "${expr}" (field "${field}")`);
+    }
+    for (let value = from; value <= to; value += step) values.add(value);
+  }
+  return values;
+}
+
+/**
+ * Parse a five-field cron expression (minute hour day-of-month month
+ * day-of-week): numbers, *, ranges, lists and steps; day-of-week 0 or 7 is Sunday
+ */
+export function parseCron(expr: string): CronFields {
+  const fields = expr.trim().split(/\s+/);
+  if (fields.length !== 5) throw new PipelineDefinitionError(`Invalid cron expression "${expr}" (expected 5 fields)`);
+  const daysOfWeek = parseCronField(fields[4], 0, 7, expr);
+  if (daysOfWeek.delete(7)) daysOfWeek.add(0);
+  return {
+    minutes: parseCronField(fields[0], 0, 59, expr),
+    hours: parseCronField(fields[1], 0, 23, expr),
+    daysOfMonth: parseCronField(fields[2], 1, 31, expr),
+    months: parseCronField(fields[3], 1, 12, expr),
+    daysOfWeek,
+    domRestricted: fields[2] !== '*',
+    dowRestricted: fields[4] !== '*',
+  };
+}
+
+/**
+ * Whether a cron expression fires in the (UTC) minute of a date
+ */
+export function cronMatches(expr: string, date: Date): boolean {
+  const cron = parseCron(expr);
+  return matches(cron, date);
+}
+
+function matches(cron: CronFields, date: Date): boolean {
+  if (!cron.minutes.has(date.getUTCMinutes()) || !cron.hours.has(date.getUTCHours())) return false;
+  if (!cron.months.has(date.getUTCMonth() + 1)) return false;
+  const dom = cron.daysOfMonth.has(date.getUTCDate());
+  const dow = cron.daysOfWeek.has(date.getUTCDay());
+  if (cron.domRestricted && cron.dowRestricted) return dom || dow;
+  return dom && dow;
+}
+
+// Longest gap searched for the next firing (a yearly expression fits)
+const MAX_CRON_SEARCH_MINUTES = 366 * 24 * 60;
+
+/**
+ * First minute strictly after `after` at which the expression fires
+ */
+export function nextCronTime(expr: string, after: Date): Date {
+  const cron = parseCron(expr);
+  const candidate = new Date(after.getTime());
+  candidate.setUTCSeconds(0, 0);
+  for (let i = 0; i < MAX_CRON_SEARCH_MINUTES; i++) {
+    candidate.setTime(candidate.getTime() + 60 * 1000);
+    if (matches(cron, candidate)) return candidate;
+  }
+  throw new PipelineDefinitionError(`Cron expression "${expr}" never fires`);
+}
@@ -0,0 +1,55 @@
+/**
+ * Rating Snapshots
+ *
+ * team_season_ratings and team_unit_grades hold one row per team and season
+ * that every run overwrites. After persisting, a run appends a copy of the
+ * season's rows to team_season_rating_snapshots / team_unit_grade_snapshots,
+ * tagged with the last week that had final games. The web app replays asOf
+ * requests from those copies (apps/web/lib/rating-snapshots-context.ts).
+ */
+
+/**
+ * Last week of the season with at least one final game, or null before week 1
+ * is complete.
+ */
+export async function latestFinalWeek(prisma: any, season: number): Promise<number | null> {
+  const agg = await prisma.game.aggregate({
+    where: { season, status: 'final' },
+    _max: { week: true },
+  });
+  return agg._max.week ?? null;
+}
+
+/**
+ * Copy the season's current TeamSeasonRating rows for one model version into
+ * the snapshot table. Returns the number of rows written.
+ */
+export async function snapshotTeamSeasonRatings(
+  prisma: any,
+  season: number,
+  modelVersion: string
+): Promise<number> {
+  const rows = await prisma.teamSeasonRating.findMany({ where: { season, modelVersion } });
+  if (rows.length === 0) return 0;
+
+  const week = await latestFinalWeek(prisma, season);
+  const result = await prisma.teamSeasonRatingSnapshot.createMany({
+    data: rows.map(({ createdAt, updatedAt, ...row }: any) => ({ ...row, week })),
+  });
+  return result.count;
+}
+
+/**
+ * Copy the season's current TeamUnitGrades rows into the snapshot table.
+ * Returns the number of rows written.
+ */
+export async function snapshotTeamUnitGrades(prisma: any, season: number): Promise<number> {
+  const rows = await prisma.teamUnitGrades.findMany({ where: { season } });
+  if (rows.length === 0) return 0;
+
+  const week = await latestFinalWeek(prisma, season);
+  const result = await prisma.teamUnitGradeSnapshot.createMany({
+    data: rows.map(({ id, createdAt, updatedAt, ...row }: any) => ({ ...row, week })),
+  });
+  return result.count;
+}
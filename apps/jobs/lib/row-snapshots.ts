@@ -0,0 +1,25 @@
+/**
+ * Row Snapshots
+ *
+ * injuries and matchup_outputs rows are updated in place by the injury ingests
+ * and the matchup-output runs. Every write also appends the row's new state to
+ * injury_snapshots / matchup_output_snapshots, so the web app can replay asOf
+ * requests from those copies (apps/web/lib/injury-context.ts,
+ * apps/web/lib/matchup-output-context.ts). Ratings use rating-snapshots.ts.
+ */
+
+/**
+ * Append the state an Injury row was just written with
+ */
+export async function snapshotInjury(prisma: any, injury: any): Promise<void> {
+  const { id, createdAt, updatedAt, ingestRunId, ...row } = injury;
+  await prisma.injurySnapshot.create({ data: { ...row, injuryId: id } });
+}
+
+/**
+ * Append the state a MatchupOutput row was just upserted with
+ */
+export async function snapshotMatchupOutput(prisma: any, output: any): Promise<void> {
+  const { id, createdAt, updatedAt, ...row } = output;
+  await prisma.matchupOutputSnapshot.create({ data: { ...row, matchupOutputId: id } });
+}
@@ -0,0 +1,294 @@
+/**
+ * Team Alias Store
+ *
+ * Aliases and the denylist live in team_aliases / team_name_denylist (managed on
+ * /admin/team-aliases); team_aliases.yml and team_aliases_cfbd.yml remain the
+ * bootstrap source (import/export via src/aliases/team_aliases.ts).
+ *
+ * Names an ingest run could not resolve are queued in unmatched_team_names.
+ * Approving one on the admin page creates the alias and marks the entry for
+ * reprocessing; reprocessApprovedNames() re-runs the job that saw it.
+ */
+
+import * as yaml from 'js-yaml';
+
+export type AliasProvider = 'general' | 'cfbd';
+
+export interface AliasEntry {
+  provider: AliasProvider;
+  alias: string;
+  teamId: string;
+}
+
+export interface AliasSet {
+  aliases: AliasEntry[];
+  denylist: string[];
+}
+
+export interface UnmatchedNameReport {
+  provider: string;
+  jobName: string;
+  season?: number | null;
+  weeks?: number[];
+  ingestRunId?: string;
+  names: string[];
+}
+
+export interface ReprocessTarget {
+  jobName: string;
+  provider: string;
+  season: number;
+  weeks: number[];
+  ids: string[];
+}
+
+/**
+ * Lookup key for the alias tables; same normalization as TeamResolver applies to
+ * provider names before the alias lookup (diacritics stripped, A&M unified)
+ */
+export function aliasKey(name: string): string {
+  return name
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/\bA\s*&\s*M\b/gi, 'A&M')
+    .replace(/\bA\s+and\s+M\b/gi, 'A&M')
+    .trim()
+    .toLowerCase();
+}
+
+/**
+ * Alias namespace for a provider: CFBD names resolve through the CFBD aliases
+ * (TeamResolver provider 'cfbd'), everything else through the general ones
+ */
+export function aliasProviderFor(provider: string): AliasProvider {
+  return provider.toLowerCase().startsWith('cfbd') ? 'cfbd' : 'general';
+}
+
+/**
+ * Parse team_aliases.yml (aliases + denylist) and team_aliases_cfbd.yml (flat map)
+ */
+export function parseAliasYaml(generalYaml: string, cfbdYaml?: string): AliasSet {
+  const general = (yaml.load(generalYaml) as any) || {};
+  const generalAliases = general.aliases || {};
+  const cfbd = cfbdYaml ? ((yaml.load(cfbdYaml) as any) || {}) : {};
+
+  const aliases: AliasEntry[] = [];
+  for (const [alias, teamId] of Object.entries(generalAliases)) {
+    if (typeof teamId === 'string' && teamId.trim()) aliases.push({ provider: 'general', alias, teamId: teamId.trim() });
+  }
+  for (const [alias, teamId] of Object.entries(cfbd)) {
+    if (typeof teamId === 'string' && teamId.trim()) aliases.push({ provider: 'cfbd', alias, teamId: teamId.trim() });
+  }
+
+  const denylist = Array.isArray(general.denylist)
+    ? general.denylist.filter((name: unknown): name is string => typeof name === 'string' && name.trim() !== '')
+    : [];
+
+  return { aliases, denylist };
+}
+
+/**
+ * Render an alias set in the two YAML layouts parseAliasYaml reads
+ */
+export function buildAliasYaml(set: AliasSet): { general: string; cfbd: string } {
+  const byAlias = (a: AliasEntry, b: AliasEntry) => a.alias.localeCompare(b.alias);
+  const toMap = (entries: AliasEntry[]) =>
+    Object.fromEntries(entries.sort(byAlias).map(entry => [entry.alias, entry.teamId]));
+
+  const header = `# Exported from team_aliases on ${new Date().toISOString().slice(0, 10)}\n`;
+  const general = yaml.dump(
+    {
+      aliases: toMap(set.aliases.filter(entry => entry.provider === 'general')),
+      denylist: [...set.denylist].sort(),
+    },
+    { lineWidth: -1 }
+  );
+  const cfbd = yaml.dump(toMap(set.aliases.filter(entry => entry.provider === 'cfbd')), { lineWidth: -1 });
+  return { general: header + general, cfbd: header + cfbd };
+}
+
+/**
+ * Upsert aliases and denylist entries (YAML import). Existing admin mappings are
+ * left alone unless overwrite is set.
+ */
+export async function importAliasSet(
+  prisma: any,
+  set: AliasSet,
+  options: { overwrite?: boolean } = {}
+): Promise<{ aliases: number; denylist: number; skipped: string[] }> {
+  const teams = await prisma.team.findMany({ select: { id: true } });
+  const teamIds = new Set<string>(teams.map((team: { id: string }) => team.id));
+  const skipped: string[] = [];
+  let aliases = 0;
+
+  for (const entry of set.aliases) {
+    if (!teamIds.has(entry.teamId)) {
+      skipped.push(`${entry.alias} → ${entry.teamId} (unknown team)`);
+      continue;
+    }
+    const key = { provider: entry.provider, aliasKey: aliasKey(entry.alias) };
+    await prisma.teamAlias.upsert({
+      where: { provider_aliasKey: key },
+      update: options.overwrite ? { alias: entry.alias, teamId: entry.teamId, source: 'yaml' } : {},
+      create: { ...key, alias: entry.alias, teamId: entry.teamId, source: 'yaml' },
+    });
+    aliases++;
+  }
+
+  for (const name of set.denylist) {
+    await prisma.teamNameDenylist.upsert({
+      where: { nameKey: aliasKey(name) },
+      update: {},
+      create: { name, nameKey: aliasKey(name), source: 'yaml' },
+    });
+  }
+
+  return { aliases, denylist: set.denylist.length, skipped };
+}
+
+/**
+ * Read the alias tables (YAML export)
+ */
+export async function loadAliasSet(prisma: any): Promise<AliasSet> {
+  const [aliases, denylist] = await Promise.all([
+    prisma.teamAlias.findMany({ select: { provider: true, alias: true, teamId: true } }),
+    prisma.teamNameDenylist.findMany({ select: { name: true } }),
+  ]);
+  return {
+    aliases: aliases.map((row: any) => ({ provider: row.provider as AliasProvider, alias: row.alias, teamId: row.teamId })),
+    denylist: denylist.map((row: { name: string }) => row.name),
+  };
+}
+
+/**
+ * Queue names an ingest run could not resolve. Repeat sightings bump the count
+ * and widen the weeks to re-run (same season); reviewed entries keep their status.
+ */
+export async function recordUnmatchedNames(prisma: any, report: UnmatchedNameReport): Promise<number> {
+  let recorded = 0;
+  for (const providerName of report.names) {
+    const where = { provider_providerName: { provider: report.provider, providerName } };
+    const existing = await prisma.unmatchedTeamName.findUnique({ where });
+    const weeks = report.weeks ?? [];
+
+    if (existing) {
+      const sameSeason = existing.season === (report.season ?? null);
+      await prisma.unmatchedTeamName.update({
+        where,
+        data: {
+          occurrences: { increment: 1 },
+          lastSeenAt: new Date(),
+          lastIngestRunId: report.ingestRunId ?? existing.lastIngestRunId,
+          jobName: report.jobName,
+          season: report.season ?? null,
+          weeks: sameSeason ? Array.from(new Set([...existing.weeks, ...weeks])).sort((a, b) => a - b) : weeks,
+        },
+      });
+    } else {
+      await prisma.unmatchedTeamName.create({
+        data: {
+          provider: report.provider,
+          providerName,
+          jobName: report.jobName,
+          season: report.season ?? null,
+          weeks,
+          lastIngestRunId: report.ingestRunId ?? null,
+        },
+      });
+    }
+    recorded++;
+  }
+  return recorded;
+}
+
+/**
+ * Group approved entries into one re-run per job/provider/season
+ */
+export function groupReprocessTargets(
+  entries: { id: string; jobName: string; provider: string; season: number | null; weeks: number[] }[]
+): { targets: ReprocessTarget[]; unscoped: string[] } {
+  const targets = new Map<string, ReprocessTarget>();
+  const unscoped: string[] = [];
+
+  for (const entry of entries) {
+    if (entry.season === null || entry.weeks.length === 0) {
+      unscoped.push(entry.id);
+      continue;
+    }
+    const key = `${entry.jobName}|${entry.provider}|${entry.season}`;
+    const target = targets.get(key) || { jobName: entry.jobName, provider: entry.provider, season: entry.season, weeks: [], ids: [] };
+    target.weeks = Array.from(new Set([...target.weeks, ...entry.weeks])).sort((a, b) => a - b);
+    target.ids.push(entry.id);
+    targets.set(key, target);
+  }
+
+  return { targets: Array.from(targets.values()), unscoped };
+}
+
+/**
+ * Built job script and args that re-run a target, or null when the job has no
+ * re-runnable CLI (the entry is then marked manual)
+ */
+export function reprocessCommand(target: ReprocessTarget): string[] | null {
+  const scope = ['--season', String(target.season), '--weeks', target.weeks.join(',')];
+  switch (target.jobName) {
+    case 'ingest':
+      return ['apps/jobs/dist/ingest.js', target.provider, ...scope];
+    case 'cfbd_team_stats':
+      return ['apps/jobs/dist/src/stats/cfbd_team_stats.js', ...scope];
+    case 'cfbd_rankings_etl':
+      return ['apps/jobs/dist/src/rankings/cfbd_rankings_etl.js', ...scope];
+    default:
+      return null;
+  }
+}
+
+/**
+ * Re-run the jobs behind approved names still waiting for reprocessing and mark
+ * each entry done/failed; entries without a season/week scope or a re-runnable
+ * job are marked manual. runCommand executes one reprocessCommand() result.
+ */
+export async function reprocessApprovedNames(
+  prisma: any,
+  runCommand: (args: string[]) => void,
+  options: { dryRun?: boolean } = {}
+): Promise<{ done: number; failed: number; manual: number }> {
+  const pending = await prisma.unmatchedTeamName.findMany({
+    where: { status: 'approved', reprocessStatus: 'pending' },
+    select: { id: true, jobName: true, provider: true, season: true, weeks: true },
+  });
+  const { targets, unscoped } = groupReprocessTargets(pending);
+  const summary = { done: 0, failed: 0, manual: 0 };
+
+  const mark = async (ids: string[], reprocessStatus: string, reprocessError: string | null = null) => {
+    if (options.dryRun || ids.length === 0) return;
+    await prisma.unmatchedTeamName.updateMany({
+      where: { id: { in: ids } },
+      data: { reprocessStatus, reprocessError, reprocessedAt: new Date() },
+    });
+  };
+
+  const manual = [...unscoped];
+  for (const target of targets) {
+    const args = reprocessCommand(target);
+    if (!args) {
+      manual.push(...target.ids);
+      continue;
+    }
+    console.log(`   [ALIASES] Re-running ${target.jobName} ${target.provider} ${target.season} weeks ${target.weeks.join(',')} (${target.ids.length} names)`);
+    if (options.dryRun) continue;
+    try {
+      runCommand(args);
+      await mark(target.ids, 'done');
+      summary.done += target.ids.length;
+    } catch (error) {
+      const text = error instanceof Error ? error.message : String(error);
+      await mark(target.ids, 'failed', text.slice(0, 500));
+      summary.failed += target.ids.length;
+    }
+  }
+
+  await mark(manual, 'manual');
+  summary.manual = manual.length;
+  return summary;
+}
@@ -10,6 +10,7 @@
 const fs = require('fs');
 const path = require('path');
 const { PrismaClient } = require('@prisma/client');
+const { snapshotMatchupOutput } = require('./lib/row-snapshots');
 
 const prisma = new PrismaClient();
 
@@ -519,7 +520,7 @@ async function main(): Promise<void> {
     // Step 6: Upsert matchup outputs (requires games to exist)
     console.log('Upserting matchup outputs...');
     for (const line of impliedLines) {
-      await prisma.matchupOutput.upsert({
+      const output = await prisma.matchupOutput.upsert({
         where: {
           gameId_modelVersion: {
             gameId: line.gameId,
@@ -547,6 +548,7 @@ async function main(): Promise<void> {
           modelVersion: MODEL_VERSION
         }
       });
+      await snapshotMatchupOutput(prisma, output);
     }
     
     console.log('✅ M3 seed ratings job completed successfully!');
@@ -0,0 +1,285 @@
+/**
+ * Line Alert Rules
+ *
+ * Pure evaluation of line-movement alert rules against per-book MarketLine
+ * snapshots. No database access - the runner (line-alerts.ts) loads rows and
+ * persists what this returns.
+ *
+ * Rule types:
+ * - key_number:  spread/total crosses one of the rule's key numbers (e.g. 3, 7, 10)
+ * - line_move:   spread/total moves more than `threshold` points from its open
+ * - against_bet: spread/total moves more than `threshold` points against an open Bet
+ *
+ * Spreads are evaluated in the HMA frame (positive = home favored) and only from
+ * lines that carry a teamId, since teamless spread rows can't be oriented.
+ */
+
+export type AlertRuleType = 'key_number' | 'line_move' | 'against_bet';
+export type AlertMarket = 'spread' | 'total';
+
+export const DEFAULT_KEY_NUMBERS = [3, 7, 10];
+
+export interface AlertRuleInput {
+  id: string;
+  name: string;
+  type: AlertRuleType;
+  /** null = spreads and totals */
+  marketType: AlertMarket | null;
+  /** Points, for line_move and against_bet */
+  threshold: number | null;
+  /** For key_number */
+  keyNumbers: number[];
+  /** null = every book */
+  bookName: string | null;
+}
+
+export interface LineSnapshotInput {
+  lineType: string;
+  lineValue: number;
+  bookName: string;
+  teamId: string | null;
+  timestamp: Date;
+  createdAt: Date;
+}
+
+export interface OpenBetInput {
+  id: string;
+  marketType: string;
+  side: string;
+  createdAt: Date;
+}
+
+export interface AlertGameInput {
+  id: string;
+  homeTeamId: string;
+  awayTeamId: string;
+  homeName: string;
+  awayName: string;
+}
+
+export interface SeriesPoint {
+  /** HMA for spreads, the number for totals */
+  value: number;
+  timestamp: Date;
+  createdAt: Date;
+}
+
+export interface AlertCandidate {
+  ruleId: string;
+  ruleType: AlertRuleType;
+  gameId: string;
+  betId: string | null;
+  marketType: AlertMarket;
+  bookName: string;
+  openValue: number;
+  fromValue: number;
+  toValue: number;
+  lineTimestamp: Date;
+  message: string;
+  /** Stable key so re-running over the same snapshots never duplicates an alert */
+  dedupKey: string;
+}
+
+/**
+ * Group snapshots into one time-ordered series per (market, book)
+ * Spread rows are converted to HMA; when a book posts both sides at the same
+ * timestamp, the home row wins.
+ */
+export function buildLineSeries(
+  game: Pick<AlertGameInput, 'homeTeamId' | 'awayTeamId'>,
+  lines: LineSnapshotInput[]
+): Map<string, SeriesPoint[]> {
+  const byKey = new Map<string, Map<number, SeriesPoint & { home: boolean }>>();
+
+  for (const line of lines) {
+    if (line.lineType !== 'spread' && line.lineType !== 'total') continue;
+
+    let value: number;
+    let home = false;
+    if (line.lineType === 'spread') {
+      if (line.teamId === game.homeTeamId) {
+        value = -line.lineValue;
+        home = true;
+      } else if (line.teamId === game.awayTeamId) {
+        value = line.lineValue;
+      } else {
+        continue;
+      }
+    } else {
+      value = line.lineValue;
+    }
+
+    const key = `${line.lineType}|${line.bookName}`;
+    if (!byKey.has(key)) byKey.set(key, new Map());
+    const points = byKey.get(key)!;
+    const time = line.timestamp.getTime();
+    const existing = points.get(time);
+    if (!existing || (home && !existing.home)) {
+      points.set(time, { value, timestamp: line.timestamp, createdAt: line.createdAt, home });
+    }
+  }
+
+  const series = new Map<string, SeriesPoint[]>();
+  for (const [key, points] of Array.from(byKey.entries())) {
+    series.set(
+      key,
+      Array.from(points.values())
+        .sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime())
+        .map(({ value, timestamp, createdAt }) => ({ value, timestamp, createdAt }))
+    );
+  }
+  return series;
+}
+
+/**
+ * Key numbers strictly passed through between two spreads/totals (by magnitude)
+ * Landing on a key number doesn't count; moving through it does.
+ */
+export function crossedKeyNumbers(from: number, to: number, keyNumbers: number[]): number[] {
+  const lo = Math.min(Math.abs(from), Math.abs(to));
+  const hi = Math.max(Math.abs(from), Math.abs(to));
+  return keyNumbers.filter(key => lo < key && key < hi);
+}
+
+/**
+ * Points the market has moved against a bet since `reference` (positive = against)
+ * Spreads are HMA: a falling number is bad for home, a rising one bad for away.
+ */
+export function movementAgainstBet(
+  marketType: AlertMarket,
+  side: string,
+  reference: number,
+  current: number
+): number | null {
+  if (marketType === 'spread') {
+    if (side === 'home') return reference - current;
+    if (side === 'away') return current - reference;
+  } else {
+    if (side === 'over') return reference - current;
+    if (side === 'under') return current - reference;
+  }
+  return null;
+}
+
+/**
+ * Human-readable line: spreads as the home team's number, totals as-is
+ */
+export function formatAlertLine(marketType: AlertMarket, value: number, homeName: string): string {
+  if (marketType === 'total') return `${value}`;
+  if (value === 0) return `${homeName} PK`;
+  const homeLine = -value;
+  return `${homeName} ${homeLine > 0 ? '+' : ''}${homeLine}`;
+}
+
+/**
+ * Value of a series as of `at` (last point at or before it, else the open)
+ */
+function valueAt(points: SeriesPoint[], at: Date): number {
+  let value = points[0].value;
+  for (const point of points) {
+    if (point.timestamp.getTime() > at.getTime()) break;
+    value = point.value;
+  }
+  return value;
+}
+
+/**
+ * Evaluate every rule against every new line transition for one game
+ *
+ * @param since - Only transitions whose newer snapshot was stored at/after this
+ *                time fire (null = all); dedupKey keeps reruns idempotent either way
+ */
+export function evaluateLineAlerts(
+  game: AlertGameInput,
+  lines: LineSnapshotInput[],
+  rules: AlertRuleInput[],
+  openBets: OpenBetInput[],
+  since: Date | null = null
+): AlertCandidate[] {
+  const candidates: AlertCandidate[] = [];
+  const series = buildLineSeries(game, lines);
+  const matchup = `${game.awayName} @ ${game.homeName}`;
+
+  for (const [key, points] of Array.from(series.entries())) {
+    if (points.length < 2) continue;
+    const [marketType, bookName] = key.split('|') as [AlertMarket, string];
+    const open = points[0].value;
+    const label = marketType === 'spread' ? 'Spread' : 'Total';
+
+    for (let i = 1; i < points.length; i++) {
+      const prev = points[i - 1];
+      const cur = points[i];
+      if (since && cur.createdAt.getTime() < since.getTime()) continue;
+      if (prev.value === cur.value) continue;
+
+      const move = `${formatAlertLine(marketType, prev.value, game.homeName)} → ${formatAlertLine(marketType, cur.value, game.homeName)}`;
+      const base = {
+        gameId: game.id,
+        marketType,
+        bookName,
+        openValue: open,
+        fromValue: prev.value,
+        toValue: cur.value,
+        lineTimestamp: cur.timestamp,
+      };
+      const keyOf = (ruleId: string, suffix: string) =>
+        `${ruleId}|${game.id}|${marketType}|${bookName}|${cur.timestamp.toISOString()}|${suffix}`;
+
+      for (const rule of rules) {
+        if (rule.marketType && rule.marketType !== marketType) continue;
+        if (rule.bookName && rule.bookName !== bookName) continue;
+
+        if (rule.type === 'key_number') {
+          for (const keyNumber of crossedKeyNumbers(prev.value, cur.value, rule.keyNumbers)) {
+            candidates.push({
+              ...base,
+              ruleId: rule.id,
+              ruleType: rule.type,
+              betId: null,
+              message: `${matchup}: ${label} crossed ${keyNumber} at ${bookName} (${move})`,
+              dedupKey: keyOf(rule.id, `key:${keyNumber}`),
+            });
+          }
+        } else if (rule.type === 'line_move' && rule.threshold !== null) {
+          const before = Math.abs(prev.value - open);
+          const after = Math.abs(cur.value - open);
+          if (before <= rule.threshold && after > rule.threshold) {
+            candidates.push({
+              ...base,
+              ruleId: rule.id,
+              ruleType: rule.type,
+              betId: null,
+              message: `${matchup}: ${label} moved ${after.toFixed(1)} pts from open ${formatAlertLine(marketType, open, game.homeName)} at ${bookName} (${move})`,
+              dedupKey: keyOf(rule.id, 'move'),
+            });
+          }
+        } else if (rule.type === 'against_bet' && rule.threshold !== null) {
+          for (const bet of openBets) {
+            if (bet.marketType !== marketType) continue;
+            if (bet.createdAt.getTime() > cur.timestamp.getTime()) continue;
+
+            const reference = valueAt(points, bet.createdAt);
+            const prevAgainst = prev.timestamp.getTime() >= bet.createdAt.getTime()
+              ? movementAgainstBet(marketType, bet.side, reference, prev.value)
+              : 0;
+            const curAgainst = movementAgainstBet(marketType, bet.side, reference, cur.value);
+            if (curAgainst === null || prevAgainst === null) continue;
+
+            if (prevAgainst <= rule.threshold && curAgainst > rule.threshold) {
+              candidates.push({
+                ...base,
+                ruleId: rule.id,
+                ruleType: rule.type,
+                betId: bet.id,
+                message: `${matchup}: ${label} moved ${curAgainst.toFixed(1)} pts against your ${bet.side} bet at ${bookName} (${move})`,
+                dedupKey: keyOf(rule.id, `bet:${bet.id}`),
+              });
+            }
+          }
+        }
+      }
+    }
+  }
+
+  return candidates;
+}
@@ -0,0 +1,252 @@
+#!/usr/bin/env node
+
+/**
+ * Line Alerts Job
+ *
+ * Evaluates enabled AlertRules against MarketLine snapshots for upcoming games,
+ * persists new LineAlerts and POSTs them to ALERT_WEBHOOK_URL (if set) for rules
+ * with notify on. Runs automatically after each odds ingest; can also be run alone.
+ *
+ * Usage:
+ *   node apps/jobs/dist/src/alerts/line-alerts.js --season 2025 --weeks 9
+ *   node apps/jobs/dist/src/alerts/line-alerts.js --season 2025 --weeks 9 --since 2025-10-25T00:00:00Z
+ *
+ * Local webhook testing: run `node scripts/webhook-sink.mjs` and set
+ * ALERT_WEBHOOK_URL=http://localhost:4010/alerts
+ */
+
+import { PrismaClient } from '@prisma/client';
+import {
+  AlertCandidate,
+  AlertRuleInput,
+  DEFAULT_KEY_NUMBERS,
+  evaluateLineAlerts,
+} from './line-alert-rules';
+
+const WEBHOOK_TIMEOUT_MS = 5000;
+
+export interface LineAlertRunOptions {
+  season: number;
+  weeks: number[];
+  /** Only line snapshots stored at/after this time can fire (null = all) */
+  since?: Date | null;
+}
+
+export interface LineAlertRunResult {
+  gamesChecked: number;
+  alertsCreated: number;
+  webhookSent: number;
+  webhookFailed: number;
+}
+
+function toRuleInput(rule: any): AlertRuleInput {
+  const keyNumbers = Array.isArray(rule.keyNumbers)
+    ? rule.keyNumbers.map(Number).filter((n: number) => Number.isFinite(n))
+    : DEFAULT_KEY_NUMBERS;
+  return {
+    id: rule.id,
+    name: rule.name,
+    type: rule.type,
+    marketType: rule.marketType === 'spread' || rule.marketType === 'total' ? rule.marketType : null,
+    threshold: rule.threshold,
+    keyNumbers,
+    bookName: rule.bookName,
+  };
+}
+
+/**
+ * POST alerts to the configured webhook as one batch
+ * Returns an error message, or null on success.
+ */
+async function postToWebhook(url: string, alerts: any[]): Promise<string | null> {
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), WEBHOOK_TIMEOUT_MS);
+  try {
+    const response = await fetch(url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        type: 'line_alerts',
+        sentAt: new Date().toISOString(),
+        alerts: alerts.map(alert => ({
+          id: alert.id,
+          rule: alert.rule.name,
+          ruleType: alert.rule.type,
+          gameId: alert.gameId,
+          betId: alert.betId,
+          marketType: alert.marketType,
+          bookName: alert.bookName,
+          openValue: alert.openValue,
+          fromValue: alert.fromValue,
+          toValue: alert.toValue,
+          lineTimestamp: alert.lineTimestamp.toISOString(),
+          message: alert.message,
+        })),
+      }),
+      signal: controller.signal,
+    });
+    return response.ok ? null : `Webhook responded ${response.status}`;
+  } catch (error) {
+    return error instanceof Error ? error.message : String(error);
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+/**
+ * Evaluate rules for a season/weeks and persist + deliver new alerts
+ */
+export async function runLineAlerts(
+  prisma: PrismaClient,
+  options: LineAlertRunOptions
+): Promise<LineAlertRunResult> {
+  const result: LineAlertRunResult = { gamesChecked: 0, alertsCreated: 0, webhookSent: 0, webhookFailed: 0 };
+
+  const rules = (await prisma.alertRule.findMany({ where: { enabled: true } })).map(toRuleInput);
+  if (rules.length === 0) {
+    console.log('   [ALERTS] No enabled alert rules');
+    return result;
+  }
+
+  const games = await prisma.game.findMany({
+    where: {
+      season: options.season,
+      week: { in: options.weeks },
+      status: 'scheduled',
+    },
+    include: {
+      homeTeam: { select: { name: true } },
+      awayTeam: { select: { name: true } },
+      marketLines: {
+        where: { lineType: { in: ['spread', 'total'] } },
+        select: { lineType: true, lineValue: true, bookName: true, teamId: true, timestamp: true, createdAt: true },
+      },
+      bets: {
+        where: { result: null, marketType: { in: ['spread', 'total'] } },
+        select: { id: true, marketType: true, side: true, createdAt: true },
+      },
+    },
+  });
+  result.gamesChecked = games.length;
+
+  const candidates: AlertCandidate[] = [];
+  for (const game of games) {
+    candidates.push(
+      ...evaluateLineAlerts(
+        {
+          id: game.id,
+          homeTeamId: game.homeTeamId,
+          awayTeamId: game.awayTeamId,
+          homeName: game.homeTeam.name,
+          awayName: game.awayTeam.name,
+        },
+        game.marketLines,
+        rules,
+        game.bets,
+        options.since ?? null
+      )
+    );
+  }
+  if (candidates.length === 0) {
+    console.log(`   [ALERTS] Checked ${games.length} games, no new alerts`);
+    return result;
+  }
+
+  // Drop anything already fired on a previous run
+  const dedupKeys = candidates.map(c => c.dedupKey);
+  const existing = await prisma.lineAlert.findMany({
+    where: { dedupKey: { in: dedupKeys } },
+    select: { dedupKey: true },
+  });
+  const seen = new Set(existing.map((e: any) => e.dedupKey));
+  const fresh = candidates.filter(c => !seen.has(c.dedupKey));
+  if (fresh.length === 0) {
+    console.log(`   [ALERTS] Checked ${games.length} games, no new alerts`);
+    return result;
+  }
+
+  const created = await prisma.lineAlert.createMany({
+    data: fresh.map(({ ruleType, ...alert }) => alert),
+    skipDuplicates: true,
+  });
+  result.alertsCreated = created.count;
+  console.log(`   [ALERTS] Created ${created.count} alerts from ${games.length} games`);
+
+  const webhookUrl = process.env.ALERT_WEBHOOK_URL;
+  if (!webhookUrl) return result;
+
+  const toDeliver = await prisma.lineAlert.findMany({
+    where: { dedupKey: { in: fresh.map(c => c.dedupKey) }, webhookStatus: null, rule: { notify: true } },
+    include: { rule: { select: { name: true, type: true } } },
+    orderBy: { lineTimestamp: 'asc' },
+  });
+  if (toDeliver.length === 0) return result;
+
+  const error = await postToWebhook(webhookUrl, toDeliver);
+  await prisma.lineAlert.updateMany({
+    where: { id: { in: toDeliver.map((a: any) => a.id) } },
+    data: { webhookStatus: error ? 'failed' : 'sent', webhookError: error },
+  });
+  if (error) {
+    result.webhookFailed = toDeliver.length;
+    console.warn(`   ⚠️  [ALERTS] Webhook delivery failed: ${error}`);
+  } else {
+    result.webhookSent = toDeliver.length;
+    console.log(`   [ALERTS] Posted ${toDeliver.length} alerts to webhook`);
+  }
+
+  return result;
+}
+
+/**
+ * Parse command line arguments
+ */
+function parseArgs() {
+  const args = process.argv.slice(2);
+  let season: number | null = null;
+  let weeks: number[] = [];
+  let since: Date | null = null;
+
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+    if (arg === '--season' && i + 1 < args.length) {
+      season = parseInt(args[++i]);
+    } else if (arg === '--weeks' && i + 1 < args.length) {
+      const weekStr = args[++i];
+      if (weekStr.includes('-')) {
+        const [start, end] = weekStr.split('-').map(w => parseInt(w));
+        for (let w = start; w <= end; w++) weeks.push(w);
+      } else {
+        weeks = weekStr.split(',').map(w => parseInt(w));
+      }
+    } else if (arg === '--since' && i + 1 < args.length) {
+      since = new Date(args[++i]);
+    }
+  }
+
+  return { season, weeks, since };
+}
+
+async function main() {
+  const { season, weeks, since } = parseArgs();
+  if (!season || weeks.length === 0 || (since && isNaN(since.getTime()))) {
+    console.error('Usage: line-alerts --season <year> --weeks <n|a-b|a,b> [--since <ISO date>]');
+    process.exit(1);
+  }
+
+  const prisma = new PrismaClient();
+  try {
+    console.log(`🔔 Evaluating line alerts for ${season} weeks ${weeks.join(', ')}...`);
+    const result = await runLineAlerts(prisma, { season, weeks, since });
+    console.log(`✅ ${result.alertsCreated} alerts created (${result.gamesChecked} games, webhook sent=${result.webhookSent} failed=${result.webhookFailed})`);
+  } catch (error) {
+    console.error('❌ Line alerts failed:', error);
+    process.exit(1);
+  } finally {
+    await prisma.$disconnect();
+  }
+}
+
+if (require.main === module) {
+  main();
+}
@@ -0,0 +1,117 @@
+/**
+ * Team Aliases CLI
+ *
+ * Usage:
+ *   node apps/jobs/dist/src/aliases/team_aliases.js import [--general file] [--cfbd file] [--overwrite]
+ *   node apps/jobs/dist/src/aliases/team_aliases.js export [--out dir]
+ *   node apps/jobs/dist/src/aliases/team_aliases.js reprocess [--dry-run]
+ *
+ * import   Bootstrap team_aliases / team_name_denylist from the YAML files
+ *          (defaults: apps/jobs/config/team_aliases.yml, team_aliases_cfbd.yml).
+ *          Existing mappings are kept unless --overwrite is given.
+ * export   Write the database aliases back out in the same two YAML layouts.
+ * reprocess Re-run the ingest jobs for names approved on /admin/team-aliases
+ *          (.github/workflows/team-alias-reprocess.yml, started on approval).
+ */
+
+import { execFileSync } from 'child_process';
+import * as fs from 'fs';
+import * as path from 'path';
+import { PrismaClient } from '@prisma/client';
+import { buildAliasYaml, importAliasSet, loadAliasSet, parseAliasYaml, reprocessApprovedNames } from '../../lib/team-aliases';
+
+const prisma = new PrismaClient();
+
+// Run from the monorepo root (job paths in reprocessCommand() are root-relative)
+const ROOT = process.cwd();
+const CONFIG_DIR = path.join(ROOT, 'apps/jobs/config');
+
+// Per re-run limit; one target is a single provider/season over a handful of weeks
+const REPROCESS_TIMEOUT_MS = 10 * 60 * 1000;
+
+function parseArgs(): { command: string; options: Record<string, string | boolean> } {
+  const [command = '', ...rest] = process.argv.slice(2);
+  const options: Record<string, string | boolean> = {};
+  for (let i = 0; i < rest.length; i++) {
+    const arg = rest[i];
+    if (!arg.startsWith('--')) continue;
+    const next = rest[i + 1];
+    if (next !== undefined && !next.startsWith('--')) {
+      options[arg.slice(2)] = next;
+      i++;
+    } else {
+      options[arg.slice(2)] = true;
+    }
+  }
+  return { command, options };
+}
+
+async function importYaml(options: Record<string, string | boolean>) {
+  const generalPath = typeof options.general === 'string' ? options.general : path.join(CONFIG_DIR, 'team_aliases.yml');
+  const cfbdPath = typeof options.cfbd === 'string' ? options.cfbd : path.join(CONFIG_DIR, 'team_aliases_cfbd.yml');
+
+  const set = parseAliasYaml(
+    fs.readFileSync(generalPath, 'utf8'),
+    fs.existsSync(cfbdPath) ? fs.readFileSync(cfbdPath, 'utf8') : undefined
+  );
+  const result = await importAliasSet(prisma, set, { overwrite: options.overwrite === true });
+
+  console.log(`✅ Imported ${result.aliases} aliases and ${result.denylist} denylist entries`);
+  if (result.skipped.length > 0) {
+    console.warn(`⚠️  Skipped ${result.skipped.length} aliases:`);
+    result.skipped.forEach(line => console.warn(`   ${line}`));
+  }
+}
+
+async function exportYaml(options: Record<string, string | boolean>) {
+  const outDir = typeof options.out === 'string' ? options.out : CONFIG_DIR;
+  const set = await loadAliasSet(prisma);
+  const files = buildAliasYaml(set);
+
+  fs.mkdirSync(outDir, { recursive: true });
+  fs.writeFileSync(path.join(outDir, 'team_aliases.yml'), files.general);
+  fs.writeFileSync(path.join(outDir, 'team_aliases_cfbd.yml'), files.cfbd);
+  console.log(`✅ Exported ${set.aliases.length} aliases and ${set.denylist.length} denylist entries to ${outDir}`);
+}
+
+async function reprocess(options: Record<string, string | boolean>) {
+  const dryRun = options['dry-run'] === true;
+  const summary = await reprocessApprovedNames(
+    prisma,
+    args => {
+      execFileSync('node', args, { cwd: ROOT, stdio: 'inherit', timeout: REPROCESS_TIMEOUT_MS });
+    },
+    { dryRun }
+  );
+  console.log(`✅ Reprocess${dryRun ? ' (dry run)' : ''}: ${summary.done} done, ${summary.failed} failed, ${summary.manual} manual`);
+  if (summary.failed > 0) process.exitCode = 1;
+}
+
+async function main() {
+  const { command, options } = parseArgs();
+  try {
+    switch (command) {
+      case 'import':
+        await importYaml(options);
+        break;
+      case 'export':
+        await exportYaml(options);
+        break;
+      case 'reprocess':
+        await reprocess(options);
+        break;
+      default:
+        console.error('Usage: team_aliases.js <import|export|reprocess> [options]');
+        process.exitCode = 1;
+    }
+  } finally {
+    await prisma.$disconnect();
+  }
+}
+
+if (require.main === module) {
+  main().catch(error => {
+    console.error('Fatal error:', error);
+    process.exit(1);
+  });
+}
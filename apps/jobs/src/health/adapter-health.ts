@@ -0,0 +1,107 @@
+/**
+ * Adapter Health Job
+ *
+ * Probes every enabled adapter in datasources.yml (auth, reachability, remaining
+ * quota where the provider reports it) and stores one AdapterHealthCheck row per
+ * adapter. The latest check per adapter is served by /api/ingest-status.
+ *
+ * Usage:
+ *   node apps/jobs/dist/src/health/adapter-health.js [--adapters cfbd,oddsapi] [--config datasources.yml] [--dry-run] [--fail-on-error]
+ */
+
+import { PrismaClient } from '@prisma/client';
+import { AdapterFactory } from '../../adapters/AdapterFactory';
+import { AdapterHealth } from '../../adapters/DataSourceAdapter';
+
+const prisma = new PrismaClient();
+
+interface HealthArgs {
+  adapters: string[] | null;
+  config: string;
+  dryRun: boolean;
+  failOnError: boolean;
+}
+
+/**
+ * Parse command line arguments
+ */
+function parseArgs(): HealthArgs {
+  const args = process.argv.slice(2);
+  const parsed: HealthArgs = {
+    adapters: null,
+    config: 'datasources.yml',
+    dryRun: false,
+    failOnError: false,
+  };
+
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+    if (arg === '--adapters' && i + 1 < args.length) {
+      parsed.adapters = args[++i].split(',').map(name => name.trim()).filter(Boolean);
+    } else if (arg === '--config' && i + 1 < args.length) {
+      parsed.config = args[++i];
+    } else if (arg === '--dry-run') {
+      parsed.dryRun = true;
+    } else if (arg === '--fail-on-error') {
+      parsed.failOnError = true;
+    }
+  }
+
+  return parsed;
+}
+
+function formatHealth(health: AdapterHealth): string {
+  const quota = health.quotaRemaining != null ? `, ${health.quotaRemaining} calls left` : '';
+  const latency = health.latencyMs != null ? ` in ${health.latencyMs}ms` : '';
+  return `   ${health.ok ? '✅' : '❌'} ${health.adapter} (${health.capabilities.join(', ') || 'no capabilities'}): ${health.message}${quota}${latency}`;
+}
+
+/**
+ * Main function
+ */
+async function main() {
+  const args = parseArgs();
+  const factory = new AdapterFactory(args.config);
+
+  console.log('🩺 Adapter Health Job');
+  const results = await factory.checkHealth(args.adapters ?? undefined);
+  for (const health of results) {
+    console.log(formatHealth(health));
+  }
+
+  if (!args.dryRun) {
+    await prisma.adapterHealthCheck.createMany({
+      data: results.map(health => ({
+        adapter: health.adapter,
+        provider: health.provider,
+        capabilities: health.capabilities,
+        ok: health.ok,
+        latencyMs: health.latencyMs,
+        message: health.message,
+        quotaRemaining: health.quotaRemaining ?? null,
+        quotaUsed: health.quotaUsed ?? null,
+        checkedAt: health.checkedAt,
+      })),
+    });
+  }
+
+  const failing = results.filter(health => !health.ok);
+  console.log(`\n📊 ${results.length - failing.length}/${results.length} adapters healthy${args.dryRun ? ' (not stored)' : ''}`);
+  if (args.failOnError && failing.length > 0) {
+    process.exitCode = 1;
+  }
+}
+
+// Run if called directly
+if (require.main === module) {
+  main()
+    .catch((error) => {
+      console.error('❌ Adapter health job failed:', error);
+      process.exit(1);
+    })
+    .finally(async () => {
+      await prisma.$disconnect();
+    });
+}
+
+export { main };
@@ -8,9 +8,12 @@
  * 
  * Usage:
  *   node apps/jobs/dist/src/injuries/manual_injury_etl.js --season 2025 --week 10 --game-id <gameId> --team-id <teamId> --position QB --severity OUT
+ *   node apps/jobs/dist/src/injuries/manual_injury_etl.js add --game-id <gameId> --team-id <teamId> --position WR --severity QUESTIONABLE --depth-rank 1 --usage-share 0.3
  */
 
 import { PrismaClient, InjurySeverity } from '@prisma/client';
+import { activeIngestRun, withIngestRun } from '../../lib/ingest-run';
+import { snapshotInjury } from '../../lib/row-snapshots';
 
 const prisma = new PrismaClient();
 
@@ -25,6 +28,8 @@ interface InjuryInput {
   bodyPart?: string;
   injuryType?: string;
   status?: string;
+  depthRank?: number;
+  usageShare?: number;
   source?: string;
   reportedAt?: Date;
 }
@@ -49,12 +54,16 @@ async function upsertInjury(input: InjuryInput): Promise<void> {
       throw new Error(`Team ${input.teamId} is not part of game ${input.gameId}`);
     }
 
-    // Verify position is valid (matching adjustment-helpers.ts types)
+    // Verify position is valid (groups used by the web injury-impact model)
     const validPositions = ['QB', 'OL', 'DL', 'WR', 'RB', 'DB'];
     if (!validPositions.includes(input.position.toUpperCase())) {
       console.warn(`⚠️  Warning: Position ${input.position} may not be recognized by adjustment calculations`);
     }
 
+    if (input.usageShare !== undefined && (input.usageShare < 0 || input.usageShare > 1)) {
+      throw new Error(`Usage share must be between 0 and 1 (got ${input.usageShare})`);
+    }
+
     // Upsert injury
     // Note: We need to check if injury already exists since there's no unique constraint on game+team+position
     const existing = await prisma.injury.findFirst({
@@ -66,8 +75,9 @@ async function upsertInjury(input: InjuryInput): Promise<void> {
       },
     });
 
+    let injury;
     if (existing) {
-      await prisma.injury.update({
+      injury = await prisma.injury.update({
         where: { id: existing.id },
         data: {
           playerName: input.playerName,
@@ -76,12 +86,16 @@ async function upsertInjury(input: InjuryInput): Promise<void> {
           bodyPart: input.bodyPart,
           injuryType: input.injuryType,
           status: input.status,
+          depthRank: input.depthRank,
+          usageShare: input.usageShare,
           source: input.source || 'manual',
           reportedAt: input.reportedAt || new Date(),
+          ingestRunId: activeIngestRun()?.id ?? null,
         },
       });
+      activeIngestRun()?.updated();
     } else {
-      await prisma.injury.create({
+      injury = await prisma.injury.create({
         data: {
           gameId: input.gameId,
           teamId: input.teamId,
@@ -93,11 +107,16 @@ async function upsertInjury(input: InjuryInput): Promise<void> {
           bodyPart: input.bodyPart,
           injuryType: input.injuryType,
           status: input.status,
+          depthRank: input.depthRank,
+          usageShare: input.usageShare,
           source: input.source || 'manual',
           reportedAt: input.reportedAt || new Date(),
+          ingestRunId: activeIngestRun()?.id ?? null,
         },
       });
+      activeIngestRun()?.inserted();
     }
+    await snapshotInjury(prisma, injury);
 
     console.log(`✅ Upserted injury: ${input.teamId} - ${input.position} (${input.severity})${input.playerName ? ` - ${input.playerName}` : ''}`);
   } catch (error: any) {
@@ -164,6 +183,8 @@ async function main() {
           .option('body-part', { type: 'string', description: 'Body part (optional)' })
           .option('injury-type', { type: 'string', description: 'Injury type (optional)' })
           .option('status', { type: 'string', description: 'Additional status text (optional)' })
+          .option('depth-rank', { type: 'number', description: 'Depth-chart string at the position, 1 = starter (optional)' })
+          .option('usage-share', { type: 'number', description: "Share of the position group's snaps/touches, 0-1 (optional)" })
           .option('source', { type: 'string', default: 'manual', description: 'Data source (default: manual)' })
           .option('reported-at', { type: 'string', description: 'Reported date (ISO format, optional)' });
       })
@@ -192,7 +213,7 @@ async function main() {
         throw new Error(`Game ${argv.gameId} not found`);
       }
 
-      await upsertInjury({
+      await withIngestRun(prisma, { jobName: 'manual_injury_etl', season: game.season, weeks: [game.week] }, () => upsertInjury({
         gameId: argv.gameId,
         teamId: argv.teamId,
         season: game.season,
@@ -203,9 +224,11 @@ async function main() {
         bodyPart: argv.bodyPart,
         injuryType: argv.injuryType,
         status: argv.status,
+        depthRank: argv.depthRank,
+        usageShare: argv.usageShare,
         source: argv.source || 'manual',
         reportedAt: argv.reportedAt ? new Date(argv.reportedAt) : new Date(),
-      });
+      }));
     } else if (command === 'list') {
       await listInjuriesForGame(argv.gameId);
     } else if (command === 'delete') {
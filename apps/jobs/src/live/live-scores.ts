@@ -0,0 +1,229 @@
+/**
+ * Live Scores Job
+ *
+ * Polls a live score adapter for in-game score/clock updates, stores each change
+ * as a LiveGameUpdate row and keeps Game status/scores current. The web app turns
+ * the updates into live win probability (/api/game/[gameId]/live).
+ *
+ * Sources:
+ *   cfbd   - CollegeFootballData scoreboard (CFBD_API_KEY)
+ *   replay - recorded updates from a JSON file (see FileReplayLiveScoreAdapter)
+ *
+ * Usage:
+ *   node apps/jobs/dist/src/live/live-scores.js --season 2025 --week 12 [--source cfbd] [--interval 30] [--max-polls 1] [--until-final]
+ *   node apps/jobs/dist/src/live/live-scores.js --season 2025 --week 12 --source replay --file data/live-replay-sample.json [--interval 0]
+ */
+
+import { PrismaClient } from '@prisma/client';
+import { TeamResolver } from '../../adapters/TeamResolver';
+import { GameLookup } from '../../adapters/GameLookup';
+import { LiveScoreAdapter, LiveScoreUpdate } from '../../adapters/LiveScoreAdapter';
+import { CFBDLiveScoreAdapter } from '../../adapters/CFBDLiveScoreAdapter';
+import { FileReplayLiveScoreAdapter } from '../../adapters/FileReplayLiveScoreAdapter';
+
+const prisma = new PrismaClient();
+
+interface LiveArgs {
+  season: number | null;
+  week: number | null;
+  source: string;
+  file: string | null;
+  intervalSeconds: number | null;
+  maxPolls: number | null;
+  untilFinal: boolean;
+  dryRun: boolean;
+}
+
+/**
+ * Parse command line arguments
+ */
+function parseArgs(): LiveArgs {
+  const args = process.argv.slice(2);
+  const parsed: LiveArgs = {
+    season: null,
+    week: null,
+    source: 'cfbd',
+    file: null,
+    intervalSeconds: null,
+    maxPolls: null,
+    untilFinal: false,
+    dryRun: false,
+  };
+
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+    if (arg === '--season' && i + 1 < args.length) {
+      parsed.season = parseInt(args[++i], 10);
+    } else if (arg === '--week' && i + 1 < args.length) {
+      parsed.week = parseInt(args[++i], 10);
+    } else if (arg === '--source' && i + 1 < args.length) {
+      parsed.source = args[++i];
+    } else if (arg === '--file' && i + 1 < args.length) {
+      parsed.file = args[++i];
+    } else if (arg === '--interval' && i + 1 < args.length) {
+      parsed.intervalSeconds = parseFloat(args[++i]);
+    } else if (arg === '--max-polls' && i + 1 < args.length) {
+      parsed.maxPolls = parseInt(args[++i], 10);
+    } else if (arg === '--until-final') {
+      parsed.untilFinal = true;
+    } else if (arg === '--dry-run') {
+      parsed.dryRun = true;
+    }
+  }
+
+  return parsed;
+}
+
+function createAdapter(source: string, file: string | null): LiveScoreAdapter {
+  switch (source) {
+    case 'cfbd':
+      return new CFBDLiveScoreAdapter();
+    case 'replay':
+      if (!file) throw new Error('--file is required for --source replay');
+      return new FileReplayLiveScoreAdapter({ file });
+    default:
+      throw new Error(`Unknown live score source: ${source} (expected cfbd or replay)`);
+  }
+}
+
+function stateKey(update: LiveScoreUpdate): string {
+  return [update.status, update.period, update.clockSeconds, update.homeScore, update.awayScore, update.possession].join('|');
+}
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+/**
+ * Map updates to games and store the ones that changed since the last poll
+ */
+async function recordUpdates(
+  updates: LiveScoreUpdate[],
+  source: string,
+  resolveGameId: (update: LiveScoreUpdate) => Promise<string | null>,
+  lastState: Map<string, string>,
+  dryRun: boolean
+): Promise<{ stored: number; unchanged: number; unmatched: number; inProgress: number }> {
+  let stored = 0;
+  let unchanged = 0;
+  let unmatched = 0;
+  let inProgress = 0;
+
+  for (const update of updates) {
+    if (update.status === 'in_progress') inProgress++;
+    const gameId = await resolveGameId(update);
+    if (!gameId) {
+      unmatched++;
+      continue;
+    }
+    const key = stateKey(update);
+    if (lastState.get(gameId) === key) {
+      unchanged++;
+      continue;
+    }
+    lastState.set(gameId, key);
+
+    console.log(
+      `   ${gameId}: ${update.status} Q${update.period} ${Math.floor(update.clockSeconds / 60)}:${String(update.clockSeconds % 60).padStart(2, '0')} ` +
+      `${update.awayScore}-${update.homeScore}${update.possession ? ` (${update.possession} ball)` : ''}`
+    );
+    stored++;
+    if (dryRun) continue;
+
+    const data = {
+      status: update.status,
+      period: update.period,
+      clockSeconds: update.clockSeconds,
+      homeScore: update.homeScore,
+      awayScore: update.awayScore,
+      possession: update.possession,
+    };
+    await prisma.liveGameUpdate.upsert({
+      where: { gameId_source_recordedAt: { gameId, source, recordedAt: update.recordedAt } },
+      update: data,
+      create: { gameId, source, recordedAt: update.recordedAt, ...data },
+    });
+
+    // Never move a final game back to in progress
+    await prisma.game.updateMany({
+      where: update.status === 'final' ? { id: gameId } : { id: gameId, status: { not: 'final' } },
+      data: { status: update.status, homeScore: update.homeScore, awayScore: update.awayScore },
+    });
+  }
+
+  return { stored, unchanged, unmatched, inProgress };
+}
+
+/**
+ * Main function
+ */
+async function main() {
+  const args = parseArgs();
+  if (!args.season || !args.week) {
+    console.error('Usage: live-scores --season <year> --week <n> [--source cfbd|replay] [--file <path>] [--interval <sec>] [--max-polls <n>] [--until-final] [--dry-run]');
+    process.exit(1);
+  }
+
+  const adapter = createAdapter(args.source, args.file);
+  if (!(await adapter.isAvailable())) {
+    throw new Error(`Live score source '${adapter.getName()}' is not available`);
+  }
+  const replay = typeof adapter.isExhausted === 'function';
+  const intervalSeconds = args.intervalSeconds ?? (replay ? 0 : 30);
+  // One-shot by default (cron); replays run to the end of the file
+  const maxPolls = args.maxPolls ?? (replay || args.untilFinal ? Infinity : 1);
+
+  console.log('🏈 Live Scores Job');
+  console.log(`   Season ${args.season} Week ${args.week}, source ${adapter.getName()}, every ${intervalSeconds}s`);
+
+  const resolver = new TeamResolver();
+  await resolver.loadFBSTeamsForSeason(args.season);
+  const lookup = new GameLookup(prisma);
+  const gameIds = new Map<string, string | null>();
+  const provider = adapter.getName() === 'cfbd' ? 'cfbd' : undefined;
+
+  const resolveGameId = async (update: LiveScoreUpdate): Promise<string | null> => {
+    if (update.gameId) return update.gameId;
+    const key = `${update.homeTeam}|${update.awayTeam}`;
+    if (!gameIds.has(key)) {
+      const homeTeamId = resolver.resolveTeam(update.homeTeam, 'college-football', { provider });
+      const awayTeamId = resolver.resolveTeam(update.awayTeam, 'college-football', { provider });
+      const result = homeTeamId && awayTeamId
+        ? await lookup.lookupGame(update.season, update.week, homeTeamId, awayTeamId, update.recordedAt)
+        : { gameId: null };
+      if (!result.gameId) console.warn(`   ⚠️  No game for ${update.awayTeam} @ ${update.homeTeam}`);
+      gameIds.set(key, result.gameId);
+    }
+    return gameIds.get(key)!;
+  };
+
+  const lastState = new Map<string, string>();
+  let totalStored = 0;
+  for (let poll = 1; poll <= maxPolls; poll++) {
+    const updates = await adapter.getLiveScores(args.season, args.week);
+    const result = await recordUpdates(updates, adapter.getName(), resolveGameId, lastState, args.dryRun);
+    totalStored += result.stored;
+    console.log(
+      `📥 Poll ${poll}: ${updates.length} games, ${result.stored} changed, ${result.unchanged} unchanged, ` +
+      `${result.unmatched} unmatched, ${result.inProgress} in progress`
+    );
+
+    if (adapter.isExhausted?.()) break;
+    if (args.untilFinal && !replay && result.inProgress === 0) break;
+    if (poll < maxPolls && intervalSeconds > 0) await sleep(intervalSeconds * 1000);
+  }
+
+  console.log(`\n📊 ${totalStored} live updates ${args.dryRun ? 'would be ' : ''}stored`);
+}
+
+// Run if called directly
+if (require.main === module) {
+  main()
+    .catch((error) => {
+      console.error('❌ Live scores job failed:', error);
+      process.exit(1);
+    })
+    .finally(async () => {
+      await prisma.$disconnect();
+    });
+}
+
+export { main, recordUpdates };
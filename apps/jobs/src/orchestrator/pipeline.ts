@@ -0,0 +1,190 @@
+/**
+ * Pipeline Orchestrator CLI
+ *
+ * Usage:
+ *   node apps/jobs/dist/src/orchestrator/pipeline.js plan <pipeline>
+ *   node apps/jobs/dist/src/orchestrator/pipeline.js run <pipeline> [--season 2025 --week 9] [--force] [--dry-run]
+ *   node apps/jobs/dist/src/orchestrator/pipeline.js status <pipeline> [--season 2025 --week 9]
+ *   node apps/jobs/dist/src/orchestrator/pipeline.js schedule [--pipelines weekly,daily]
+ *
+ * plan      Jobs in run order with their dependencies and commands.
+ * run       Run a pipeline (pipelines.ts). Jobs that already succeeded for the
+ *           season/week (or day, for daily pipelines) are skipped, so running it
+ *           again after a failure resumes where it stopped; --force reruns all.
+ * status    Recorded job runs (pipeline_job_runs) for the season/week.
+ * schedule  Stay up and run each pipeline on its cron schedule (UTC).
+ *
+ * Season/week default to the season calendar's current week
+ * (apps/web/scripts/season-calendar.ts). Run from the monorepo root after
+ * `npm run build:jobs`.
+ */
+
+import { execFileSync } from 'child_process';
+import { PrismaClient } from '@prisma/client';
+import {
+  Pipeline,
+  PipelineContext,
+  createPrismaRunStore,
+  formatCommand,
+  loadPipelineJobRuns,
+  nextCronTime,
+  orderJobs,
+  runPipeline,
+} from '../../lib/orchestrator';
+import { PIPELINES } from './pipelines';
+
+const prisma = new PrismaClient();
+
+// Job paths in pipelines.ts are root-relative
+const ROOT = process.cwd();
+
+function parseArgs(): { command: string; positional: string[]; options: Record<string, string | boolean> } {
+  const [command = '', ...rest] = process.argv.slice(2);
+  const positional: string[] = [];
+  const options: Record<string, string | boolean> = {};
+  for (let i = 0; i < rest.length; i++) {
+    const arg = rest[i];
+    if (!arg.startsWith('--')) {
+      positional.push(arg);
+      continue;
+    }
+    const next = rest[i + 1];
+    if (next !== undefined && !next.startsWith('--')) {
+      options[arg.slice(2)] = next;
+      i++;
+    } else {
+      options[arg.slice(2)] = true;
+    }
+  }
+  return { command, positional, options };
+}
+
+function getPipeline(name: string | undefined): Pipeline {
+  const pipeline = name ? PIPELINES[name] : undefined;
+  if (!pipeline) {
+    throw new Error(`Unknown pipeline "${name ?? ''}" (available: ${Object.keys(PIPELINES).join(', ')})`);
+  }
+  return pipeline;
+}
+
+function executeCommand(argv: string[], options: { timeoutMs: number }): Promise<void> {
+  const [file, ...args] = argv;
+  execFileSync(file, args, { cwd: ROOT, stdio: 'inherit', timeout: options.timeoutMs });
+  return Promise.resolve();
+}
+
+/**
+ * --season/--week (both or neither), or the calendar's current week
+ */
+function resolveContext(options: Record<string, string | boolean>): PipelineContext {
+  const season = typeof options.season === 'string' ? parseInt(options.season, 10) : NaN;
+  const week = typeof options.week === 'string' ? parseInt(options.week, 10) : NaN;
+  if (Number.isFinite(season) && Number.isFinite(week)) return { season, week };
+  if (options.season !== undefined || options.week !== undefined) {
+    throw new Error('--season and --week must be given together (omit both for the current week)');
+  }
+
+  const args = ['tsx', 'apps/web/scripts/season-calendar.ts', 'current'];
+  const output = execFileSync('npx', args, { cwd: ROOT, encoding: 'utf8', timeout: 2 * 60 * 1000 });
+  const current = JSON.parse(output.trim().split('\n').pop() || '{}');
+  if (!Number.isFinite(current.season) || !Number.isFinite(current.week)) {
+    throw new Error(`Could not resolve the current week from the season calendar: ${output}`);
+  }
+  return { season: current.season, week: current.week };
+}
+
+function plan(pipeline: Pipeline) {
+  const example: PipelineContext = { season: 2025, week: 9 };
+  console.log(`${pipeline.name}: ${pipeline.description}`);
+  console.log(`schedule: ${pipeline.schedule} (UTC), one run per ${pipeline.idempotency}`);
+  orderJobs(pipeline.jobs).forEach((job, i) => {
+    console.log(`${i + 1}. ${job.name} — ${job.description}`);
+    console.log(`   after: ${job.dependsOn.length > 0 ? job.dependsOn.join(', ') : '(none)'}; retries: ${job.retries ?? 0}`);
+    console.log(`   e.g. ${formatCommand(job.command(example))}`);
+  });
+}
+
+async function run(pipeline: Pipeline, options: Record<string, string | boolean>) {
+  const ctx = resolveContext(options);
+  const result = await runPipeline(pipeline, ctx, {
+    store: createPrismaRunStore(prisma),
+    execute: executeCommand,
+    force: options.force === true,
+    dryRun: options['dry-run'] === true,
+  });
+  if (result.status === 'failed') process.exitCode = 1;
+}
+
+async function status(pipeline: Pipeline, options: Record<string, string | boolean>) {
+  const ctx = resolveContext(options);
+  const rows = await loadPipelineJobRuns(prisma, pipeline.name, ctx);
+  console.log(`${pipeline.name} ${ctx.season} week ${ctx.week}: ${rows.length} recorded job runs`);
+  for (const row of rows) {
+    const finished = row.finishedAt ? row.finishedAt.toISOString() : '-';
+    console.log(`   ${row.status.padEnd(8)} ${row.idempotencyKey}  attempts=${row.attempts}  started=${row.startedAt.toISOString()}  finished=${finished}`);
+    if (row.lastError) console.log(`            ${row.lastError.split('\n')[0]}`);
+  }
+}
+
+async function schedule(options: Record<string, string | boolean>) {
+  const names = typeof options.pipelines === 'string' ? options.pipelines.split(',') : Object.keys(PIPELINES);
+  const pipelines = names.map(name => getPipeline(name.trim()));
+  pipelines.forEach(pipeline => console.log(`🗓️  ${pipeline.name}: ${pipeline.schedule} (UTC)`));
+
+  for (;;) {
+    const now = new Date();
+    const next = pipelines
+      .map(pipeline => ({ pipeline, at: nextCronTime(pipeline.schedule, now) }))
+      .sort((a, b) => a.at.getTime() - b.at.getTime());
+    const at = next[0].at;
+    console.log(`⏳ Next: ${next.filter(n => n.at.getTime() === at.getTime()).map(n => n.pipeline.name).join(', ')} at ${at.toISOString()}`);
+    // Wake at least hourly (setTimeout cannot wait longer than ~24 days)
+    while (Date.now() < at.getTime()) {
+      await new Promise(resolve => setTimeout(resolve, Math.min(at.getTime() - Date.now(), 60 * 60 * 1000)));
+    }
+
+    for (const { pipeline } of next.filter(n => n.at.getTime() === at.getTime())) {
+      try {
+        await runPipeline(pipeline, resolveContext({}), {
+          store: createPrismaRunStore(prisma),
+          execute: executeCommand,
+        });
+      } catch (error) {
+        // Keep the scheduler up; the next firing resumes the run
+        console.error(`❌ Pipeline ${pipeline.name} could not run:`, error);
+      }
+    }
+  }
+}
+
+async function main() {
+  const { command, positional, options } = parseArgs();
+  try {
+    switch (command) {
+      case 'plan':
+        plan(getPipeline(positional[0]));
+        break;
+      case 'run':
+        await run(getPipeline(positional[0]), options);
+        break;
+      case 'status':
+        await status(getPipeline(positional[0]), options);
+        break;
+      case 'schedule':
+        await schedule(options);
+        break;
+      default:
+        console.error('Usage: pipeline.js <plan|run|status|schedule> [pipeline] [options]');
+        process.exitCode = 1;
+    }
+  } finally {
+    await prisma.$disconnect();
+  }
+}
+
+if (require.main === module) {
+  main().catch(error => {
+    console.error('Fatal error:', error);
+    process.exit(1);
+  });
+}
@@ -0,0 +1,115 @@
+/**
+ * Pipeline Definitions
+ *
+ * The jobs the orchestrator (lib/orchestrator.ts) runs, with the same commands
+ * the workflows call. Paths are relative to the monorepo root and expect
+ * `npm run build:jobs` to have been run.
+ *
+ * The pipeline week is the week being bet on (the season calendar's current
+ * week). Odds, ratings and matchup outputs are for that week; scores, game
+ * stats and grading cover the week just played (week - 1).
+ */
+
+import { Pipeline, PipelineContext, PipelineJob } from '../../lib/orchestrator';
+
+const JOBS_DIST = 'apps/jobs/dist';
+
+function previousWeek(ctx: PipelineContext): number {
+  return Math.max(ctx.week - 1, 0);
+}
+
+const ingestSchedules: PipelineJob = {
+  name: 'ingest-schedules',
+  description: 'CFBD schedules for the week (games must exist before odds)',
+  dependsOn: [],
+  command: ctx => ['node', `${JOBS_DIST}/ingest.js`, 'cfbd', '--season', String(ctx.season), '--weeks', String(ctx.week)],
+  retries: 2,
+};
+
+const ingestOdds: PipelineJob = {
+  name: 'ingest-odds',
+  description: 'Odds API lines for the week',
+  dependsOn: ['ingest-schedules'],
+  command: ctx => ['node', `${JOBS_DIST}/ingest-minimal.js`, 'oddsapi', '--season', String(ctx.season), '--weeks', String(ctx.week)],
+  retries: 2,
+  retryDelayMs: 60 * 1000,
+};
+
+const ingestScores: PipelineJob = {
+  name: 'ingest-scores',
+  description: 'CFBD final scores for the week just played',
+  dependsOn: ['ingest-schedules'],
+  command: ctx => ['node', `${JOBS_DIST}/src/cfbd-game-results.js`, '--season', String(ctx.season), '--weeks', String(previousWeek(ctx))],
+  retries: 2,
+};
+
+const ingestGameStats: PipelineJob = {
+  name: 'ingest-game-stats',
+  description: 'CFBD team game stats for the week just played',
+  dependsOn: ['ingest-scores'],
+  command: ctx => ['node', `${JOBS_DIST}/src/stats/cfbd_team_stats.js`, '--season', String(ctx.season), '--weeks', String(previousWeek(ctx))],
+  retries: 2,
+};
+
+const ingestSeasonStats: PipelineJob = {
+  name: 'ingest-season-stats',
+  description: 'CFBD season-to-date team stats',
+  dependsOn: ['ingest-scores'],
+  command: ctx => ['node', `${JOBS_DIST}/src/stats/cfbd_team_season_stats.js`, `--season=${ctx.season}`],
+  retries: 2,
+};
+
+const computeRatings: PipelineJob = {
+  name: 'compute-ratings',
+  description: 'Ratings v1 from the updated stats',
+  dependsOn: ['ingest-game-stats', 'ingest-season-stats'],
+  command: ctx => ['node', `${JOBS_DIST}/src/ratings/compute_ratings_v1.js`, `--season=${ctx.season}`],
+  retries: 1,
+};
+
+const matchupOutputs: PipelineJob = {
+  name: 'matchup-outputs',
+  description: 'Model matchup outputs for the week from ratings and lines',
+  dependsOn: ['compute-ratings', 'ingest-odds'],
+  command: ctx => ['npx', 'tsx', 'apps/web/scripts/generate-matchup-outputs.ts', String(ctx.season), String(ctx.week), String(ctx.week)],
+  retries: 1,
+};
+
+const gradeBets: PipelineJob = {
+  name: 'grade-bets',
+  description: 'Grade bets on the week just played',
+  dependsOn: ['ingest-scores'],
+  command: ctx => ['npx', 'tsx', 'apps/jobs/grade-bets.ts', '--season', String(ctx.season), '--week', String(previousWeek(ctx))],
+  retries: 1,
+};
+
+/**
+ * Full weekly run, Monday morning after the weekend's games
+ */
+export const weeklyPipeline: Pipeline = {
+  name: 'weekly',
+  description: 'Schedules, odds, scores, stats, ratings, matchup outputs and grading',
+  schedule: '0 8 * * 1',
+  idempotency: 'week',
+  jobs: [ingestSchedules, ingestOdds, ingestScores, ingestGameStats, ingestSeasonStats, computeRatings, matchupOutputs, gradeBets],
+};
+
+/**
+ * Nightly line refresh between weekly runs: odds and the outputs that use them
+ */
+export const dailyPipeline: Pipeline = {
+  name: 'daily',
+  description: 'Schedules, odds and matchup outputs for the current week',
+  schedule: '0 7 * * *',
+  idempotency: 'day',
+  jobs: [
+    ingestSchedules,
+    ingestOdds,
+    { ...matchupOutputs, dependsOn: ['ingest-odds'] },
+  ],
+};
+
+export const PIPELINES: Record<string, Pipeline> = {
+  weekly: weeklyPipeline,
+  daily: dailyPipeline,
+};
@@ -7,6 +7,7 @@
 
 import { PrismaClient, PollType } from '@prisma/client';
 import { TeamResolver } from '../../adapters/TeamResolver';
+import { activeIngestRun, withIngestRun } from '../../lib/ingest-run';
 
 const prisma = new PrismaClient();
 
@@ -91,6 +92,7 @@ async function fetchCFBDRankings(season: number, week: number): Promise<CFBDRank
         'Accept': 'application/json'
       }
     });
+    activeIngestRun()?.credits(1);
 
     if (!response.ok) {
       const errorBody = await response.text();
@@ -156,6 +158,8 @@ async function upsertRankings(
       if (!teamId) {
         console.warn(`   ⚠️  Could not resolve team: ${rankEntry.school}`);
         errors++;
+        activeIngestRun()?.unmatched(rankEntry.school);
+        activeIngestRun()?.skipped();
         continue;
       }
 
@@ -189,9 +193,11 @@ async function upsertRankings(
         });
         
         upserted++;
+        activeIngestRun()?.updated();
       } catch (error) {
         console.error(`   ❌ Error upserting ranking for ${rankEntry.school} (${teamId}):`, error);
         errors++;
+        activeIngestRun()?.error(`${rankEntry.school}: ${(error as Error).message}`);
       }
     }
   }
@@ -200,43 +206,9 @@ async function upsertRankings(
 }
 
 /**
- * Main function
+ * Fetch and upsert rankings for each week
  */
-async function main() {
-  const yargs = require('yargs/yargs');
-  const { hideBin } = require('yargs/helpers');
-  const argv = yargs(hideBin(process.argv))
-    .option('season', {
-      type: 'number',
-      demandOption: true,
-      description: 'Season year (e.g., 2025)'
-    })
-    .option('weeks', {
-      type: 'string',
-      demandOption: true,
-      description: 'Comma-separated list of weeks (e.g., "1,2,3") or "all" for all weeks'
-    })
-    .help()
-    .parseSync();
-
-  const season = argv.season;
-  const weeksInput = argv.weeks;
-  
-  // Parse weeks
-  let weeks: number[];
-  if (weeksInput === 'all') {
-    // For "all", we'll fetch the current week or a reasonable range
-    // For now, let's fetch weeks 1-15 (regular season)
-    weeks = Array.from({ length: 15 }, (_, i) => i + 1);
-  } else {
-    weeks = weeksInput.split(',').map(w => parseInt(w.trim())).filter(w => !isNaN(w));
-  }
-
-  if (weeks.length === 0) {
-    console.error('❌ No valid weeks specified');
-    process.exit(1);
-  }
-
+async function ingestRankings(season: number, weeks: number[]): Promise<{ upserted: number; errors: number }> {
   console.log(`\n🚀 Starting CFBD Rankings ETL`);
   console.log(`   Season: ${season}`);
   console.log(`   Weeks: ${weeks.join(', ')}\n`);
@@ -267,6 +239,7 @@ async function main() {
     } catch (error) {
       console.error(`   ❌ Error processing week ${week}:`, error);
       totalErrors++;
+      activeIngestRun()?.error(`week ${week}: ${(error as Error).message}`);
     }
   }
 
@@ -274,6 +247,49 @@ async function main() {
   console.log(`   Total upserted: ${totalUpserted}`);
   console.log(`   Total errors: ${totalErrors}`);
 
+  return { upserted: totalUpserted, errors: totalErrors };
+}
+
+/**
+ * Main function
+ */
+async function main() {
+  const yargs = require('yargs/yargs');
+  const { hideBin } = require('yargs/helpers');
+  const argv = yargs(hideBin(process.argv))
+    .option('season', {
+      type: 'number',
+      demandOption: true,
+      description: 'Season year (e.g., 2025)'
+    })
+    .option('weeks', {
+      type: 'string',
+      demandOption: true,
+      description: 'Comma-separated list of weeks (e.g., "1,2,3") or "all" for all weeks'
+    })
+    .help()
+    .parseSync();
+
+  const season = argv.season;
+  const weeksInput = argv.weeks;
+  
+  // Parse weeks
+  let weeks: number[];
+  if (weeksInput === 'all') {
+    // For "all", we'll fetch the current week or a reasonable range
+    // For now, let's fetch weeks 1-15 (regular season)
+    weeks = Array.from({ length: 15 }, (_, i) => i + 1);
+  } else {
+    weeks = weeksInput.split(',').map(w => parseInt(w.trim())).filter(w => !isNaN(w));
+  }
+
+  if (weeks.length === 0) {
+    console.error('❌ No valid weeks specified');
+    process.exit(1);
+  }
+
+  await withIngestRun(prisma, { jobName: 'cfbd_rankings_etl', adapter: 'cfbd-rankings', season, weeks }, () => ingestRankings(season, weeks));
+
   // Verify counts
   const counts = await prisma.teamRanking.groupBy({
     by: ['season', 'pollType'],
@@ -296,5 +312,5 @@ if (require.main === module) {
   });
 }
 
-export { fetchCFBDRankings, upsertRankings, main };
+export { fetchCFBDRankings, upsertRankings, ingestRankings, main };
 
@@ -6,6 +6,7 @@
  */
 
 import { PrismaClient } from '@prisma/client';
+import { snapshotTeamSeasonRatings } from '../../lib/rating-snapshots';
 
 const prisma = new PrismaClient();
 
@@ -338,8 +339,9 @@ async function main() {
 
     // Upsert to database
     const { upserted, errors } = await upsertTeamSeasonRatings(season, teamStats, teamRatings);
+    const snapshotted = await snapshotTeamSeasonRatings(prisma, season, 'v1');
     
-    console.log(`   ✅ Upserted ${upserted} ratings, ${errors} errors`);
+    console.log(`   ✅ Upserted ${upserted} ratings, ${errors} errors (${snapshotted} snapshotted)`);
     
     // Show top 10 teams
     const topTeams = Array.from(teamRatings.values())
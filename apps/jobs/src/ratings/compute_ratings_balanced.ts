@@ -16,6 +16,7 @@
 
 import { PrismaClient } from '@prisma/client';
 import { TeamResolver } from '../../adapters/TeamResolver';
+import { snapshotTeamSeasonRatings } from '../../lib/rating-snapshots';
 
 const prisma = new PrismaClient();
 
@@ -387,8 +388,11 @@ async function main() {
       }
     }
 
+    const snapshotted = await snapshotTeamSeasonRatings(prisma, season, 'v1');
+
     console.log(`\n✅ Balanced ratings computation complete!`);
     console.log(`   Upserted: ${upserted}`);
+    console.log(`   Snapshotted: ${snapshotted}`);
     console.log(`   Errors: ${errors}`);
     console.log(`   Average power rating: ${(ratings.reduce((sum, r) => sum + r.powerRating, 0) / ratings.length).toFixed(2)}`);
 
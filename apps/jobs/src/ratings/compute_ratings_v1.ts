@@ -11,6 +11,7 @@ import { PrismaClient } from '@prisma/client';
 import { FeatureLoader, TeamFeatures } from './feature-loader';
 import { TeamResolver } from '../../adapters/TeamResolver';
 import { getModelConfig } from '../config/model-weights';
+import { snapshotTeamSeasonRatings } from '../../lib/rating-snapshots';
 
 const prisma = new PrismaClient();
 
@@ -474,9 +475,12 @@ async function main() {
       }
     }
 
+    const snapshotted = await snapshotTeamSeasonRatings(prisma, season, 'v1');
+
     // Summary
     console.log(`\n✅ Ratings computation complete!`);
     console.log(`   Upserted: ${upserted}`);
+    console.log(`   Snapshotted: ${snapshotted}`);
     console.log(`   Errors: ${errors}`);
     console.log(`   Data source breakdown:`);
     
@@ -16,6 +16,7 @@ import { PrismaClient } from '@prisma/client';
 import { FeatureLoader, TeamFeatures } from './feature-loader';
 import { TeamResolver } from '../../adapters/TeamResolver';
 import { getModelConfig } from '../config/model-weights';
+import { snapshotTeamSeasonRatings } from '../../lib/rating-snapshots';
 import * as fs from 'fs';
 import * as path from 'path';
 // Re-use functions from v1
@@ -751,9 +752,12 @@ async function main() {
     // Save stage stats
     saveStageStats(season, modelVersion);
 
+    const snapshotted = await snapshotTeamSeasonRatings(prisma, season, modelVersion);
+
     // Summary
     console.log(`\n✅ Ratings v2 computation complete!`);
     console.log(`   Upserted: ${upserted}`);
+    console.log(`   Snapshotted: ${snapshotted}`);
     console.log(`   Errors: ${errors}`);
     console.log(`   Data source breakdown:`);
     
@@ -13,6 +13,7 @@
 
 import { PrismaClient } from '@prisma/client';
 import { Command } from 'commander';
+import { snapshotTeamSeasonRatings } from '../../lib/rating-snapshots';
 
 const prisma = new PrismaClient();
 
@@ -352,9 +353,12 @@ async function computeV4Ratings(season: number): Promise<void> {
     }
   }
   
+  const snapshotted = await snapshotTeamSeasonRatings(prisma, season, 'v4');
+
   // Summary
   console.log(`\n✅ V4 ratings computation complete!`);
   console.log(`   Upserted: ${upserted}`);
+  console.log(`   Snapshotted: ${snapshotted}`);
   console.log(`   Errors: ${errors}`);
   
   // Sort by rating and show top 10
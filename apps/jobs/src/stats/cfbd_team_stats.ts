@@ -14,6 +14,7 @@ import * as fs from 'fs';
 import * as path from 'path';
 import { TeamResolver } from '../../adapters/TeamResolver';
 import { GameLookup } from '../../adapters/GameLookup';
+import { activeIngestRun, startIngestRun } from '../../lib/ingest-run';
 
 const prisma = new PrismaClient();
 const teamResolver = new TeamResolver();
@@ -274,6 +275,7 @@ async function fetchTeamStats(season: number, week: number): Promise<{ data: CFB
         'User-Agent': 'gridiron-edge-jobs/1.0'
       }
     });
+    activeIngestRun()?.credits(1); // CFBD bills one call per request
 
     clearTimeout(timeout);
 
@@ -358,6 +360,7 @@ async function mapCFBDAdvancedStatsToTeamGameStat(cfbdStats: CFBDAdvancedStats):
 
   if (!teamId || !opponentId) {
     console.warn(`   [CFBD] Could not resolve teams: "${cfbdStats.team}" vs "${cfbdStats.opponent}"`);
+    activeIngestRun()?.unmatched(...(teamId ? [] : [cfbdStats.team]), ...(opponentId ? [] : [cfbdStats.opponent]));
     return null;
   }
 
@@ -444,6 +447,7 @@ async function mapCFBDStatsToTeamGameStat(cfbdStats: CFBDTeamStats): Promise<Tea
 
   if (!teamId || !opponentId) {
     console.warn(`   [CFBD] Could not resolve teams: "${cfbdStats.team}" vs "${cfbdStats.opponent}"`);
+    activeIngestRun()?.unmatched(...(teamId ? [] : [cfbdStats.team]), ...(opponentId ? [] : [cfbdStats.opponent]));
     return null;
   }
 
@@ -559,14 +563,18 @@ async function upsertTeamGameStats(stats: TeamGameStatData[]): Promise<{ upserte
         epaDef: stat.epaDef,
         passYpaDef: stat.passYpaDef,
         rushYpcDef: stat.rushYpcDef,
-        rawJson: stat.rawJson
+        rawJson: stat.rawJson,
+        ingestRunId: activeIngestRun()?.id ?? null
       })),
       skipDuplicates: true
     });
     
+    activeIngestRun()?.inserted(result.count);
+    activeIngestRun()?.skipped(stats.length - result.count);
     return { upserted: result.count, errors: 0 };
   } catch (error) {
     console.error(`   [DB] Failed to create team game stats:`, error);
+    activeIngestRun()?.error(`team game stats: ${(error as Error).message}`);
     return { upserted: 0, errors: stats.length };
   }
 }
@@ -582,6 +590,9 @@ async function main() {
     console.log(`   Season: ${args.season}`);
     console.log(`   Weeks: ${args.weeks.join(', ')}`);
 
+    const run = await startIngestRun(prisma, { jobName: 'cfbd_team_stats', adapter: 'cfbd', season: args.season, weeks: args.weeks });
+    await teamResolver.loadDatabaseAliases();
+
     let totalUpserted = 0;
     let totalErrors = 0;
     let totalWeeksRequested = 0;
@@ -629,6 +640,7 @@ async function main() {
       } catch (error) {
         console.error(`   ❌ Failed to process Week ${week}:`, error);
         totalErrors++;
+        run.error(`week ${week}: ${(error as Error).message}`);
       }
     }
 
@@ -638,9 +650,11 @@ async function main() {
     console.log(`   Weeks with non-JSON: ${totalWeeksNonJson}`);
     console.log(`   Stats upserted: ${totalUpserted}`);
     console.log(`   Errors: ${totalErrors}`);
+    await run.finish();
 
   } catch (error) {
     console.error('❌ Job failed:', error);
+    await activeIngestRun()?.finish(error);
     process.exit(1);
   } finally {
     await prisma.$disconnect();
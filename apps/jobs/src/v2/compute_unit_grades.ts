@@ -11,6 +11,7 @@
  */
 
 import { PrismaClient } from '@prisma/client';
+import { snapshotTeamUnitGrades } from '../../lib/rating-snapshots';
 
 const prisma = new PrismaClient();
 
@@ -418,7 +419,8 @@ async function calculateUnitGrades(season: number): Promise<void> {
     }
   }
   
-  console.log(`   ✅ Upserted ${upserted} team unit grades • skipped: ${skipped}\n`);
+  const snapshotted = await snapshotTeamUnitGrades(prisma, season);
+  console.log(`   ✅ Upserted ${upserted} team unit grades • snapshotted: ${snapshotted} • skipped: ${skipped}\n`);
   
   // Audit: Log top teams
   console.log('🏆 TOP TEAMS BY UNIT GRADE:\n');
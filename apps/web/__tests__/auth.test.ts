@@ -0,0 +1,98 @@
+/**
+ * Unit tests for auth.ts
+ * Role ordering, password hashing, token generation and parsing, and the
+ * same-origin check for cookie-authenticated writes
+ */
+
+import {
+  API_TOKEN_PREFIX,
+  generateApiToken,
+  generateSessionToken,
+  hasRole,
+  hashPassword,
+  hashToken,
+  isRole,
+  isSameOrigin,
+  normalizeEmail,
+  parseBearerToken,
+  secretsEqual,
+  verifyPassword,
+} from '../lib/auth';
+
+describe('roles', () => {
+  test('a role satisfies itself and every role below it', () => {
+    expect(hasRole('admin', 'bettor')).toBe(true);
+    expect(hasRole('bettor', 'bettor')).toBe(true);
+    expect(hasRole('bettor', 'viewer')).toBe(true);
+    expect(hasRole('viewer', 'bettor')).toBe(false);
+    expect(hasRole('bettor', 'admin')).toBe(false);
+  });
+
+  test('isRole only accepts known roles', () => {
+    expect(isRole('admin')).toBe(true);
+    expect(isRole('owner')).toBe(false);
+    expect(isRole(undefined)).toBe(false);
+  });
+});
+
+describe('passwords', () => {
+  test('hashes are salted and verify only the original password', () => {
+    const hash = hashPassword('correct horse battery');
+    expect(hash).toMatch(/^scrypt\$[0-9a-f]{32}\$[0-9a-f]{128}$/);
+    expect(hashPassword('correct horse battery')).not.toBe(hash);
+    expect(verifyPassword('correct horse battery', hash)).toBe(true);
+    expect(verifyPassword('correct horse batter', hash)).toBe(false);
+  });
+
+  test('users without a password or with a malformed hash cannot sign in', () => {
+    expect(verifyPassword('anything', null)).toBe(false);
+    expect(verifyPassword('anything', 'bcrypt$abc')).toBe(false);
+  });
+
+  test('emails are matched case-insensitively', () => {
+    expect(normalizeEmail('  Coach@Example.COM ')).toBe('coach@example.com');
+  });
+});
+
+describe('tokens', () => {
+  test('API tokens carry the prefix and a display prefix of the token itself', () => {
+    const { token, prefix } = generateApiToken();
+    expect(token.startsWith(API_TOKEN_PREFIX)).toBe(true);
+    expect(token.length).toBeGreaterThan(40);
+    expect(token.startsWith(prefix)).toBe(true);
+    expect(prefix.length).toBeLessThan(token.length);
+    expect(generateApiToken().token).not.toBe(token);
+  });
+
+  test('tokens are stored as a stable sha256 hash', () => {
+    const token = generateSessionToken();
+    expect(hashToken(token)).toMatch(/^[0-9a-f]{64}$/);
+    expect(hashToken(token)).toBe(hashToken(token));
+    expect(hashToken(token)).not.toBe(hashToken(generateSessionToken()));
+  });
+
+  test('bearer header parsing', () => {
+    expect(parseBearerToken('Bearer ge_abc123')).toBe('ge_abc123');
+    expect(parseBearerToken('bearer   ge_abc123 ')).toBe('ge_abc123');
+    expect(parseBearerToken('Basic dXNlcjpwYXNz')).toBeNull();
+    expect(parseBearerToken('Bearer two words')).toBeNull();
+    expect(parseBearerToken(null)).toBeNull();
+  });
+
+  test('secret comparison', () => {
+    expect(secretsEqual('s3cret', 's3cret')).toBe(true);
+    expect(secretsEqual('s3cret!', 's3cret')).toBe(false);
+    expect(secretsEqual(null, 's3cret')).toBe(false);
+  });
+});
+
+describe('isSameOrigin', () => {
+  test('accepts a matching or missing Origin and rejects other sites', () => {
+    expect(isSameOrigin('https://gridiron.example.com', 'gridiron.example.com')).toBe(true);
+    expect(isSameOrigin('http://localhost:3000', 'localhost:3000')).toBe(true);
+    expect(isSameOrigin(null, 'gridiron.example.com')).toBe(true);
+    expect(isSameOrigin('https://evil.example.net', 'gridiron.example.com')).toBe(false);
+    expect(isSameOrigin('null', 'gridiron.example.com')).toBe(false);
+    expect(isSameOrigin('https://gridiron.example.com', null)).toBe(false);
+  });
+});
@@ -0,0 +1,109 @@
+/**
+ * Unit tests for bankroll.ts
+ * Kelly fraction, stake caps and policy validation
+ */
+
+import {
+  kellyFraction,
+  suggestStake,
+  betWinProbability,
+  validateBankrollInput,
+  describeStakingPolicy,
+  StakingConfig,
+} from '../lib/bankroll';
+
+function makeConfig(overrides: Partial<StakingConfig> = {}): StakingConfig {
+  return {
+    stakingPolicy: 'kelly',
+    flatStake: null,
+    stakePct: null,
+    kellyMultiplier: 1,
+    maxStakePct: null,
+    ...overrides,
+  };
+}
+
+describe('kellyFraction', () => {
+  test('zero at the break-even probability', () => {
+    // -110 breaks even at 110/210
+    expect(kellyFraction(110 / 210, -110)).toBeCloseTo(0, 10);
+  });
+
+  test('positive with an edge, negative without', () => {
+    // Even money at 55%: 2p - 1
+    expect(kellyFraction(0.55, 100)).toBeCloseTo(0.1, 10);
+    expect(kellyFraction(0.45, 100)).toBeCloseTo(-0.1, 10);
+  });
+});
+
+describe('suggestStake', () => {
+  test('flat and percent ignore win probability', () => {
+    expect(suggestStake(makeConfig({ stakingPolicy: 'flat', flatStake: 25 }), 1000, null, null).stake).toBe(25);
+    expect(suggestStake(makeConfig({ stakingPolicy: 'percent', stakePct: 0.02 }), 1500, null, null).stake).toBe(30);
+  });
+
+  test('kelly scales by the multiplier', () => {
+    const half = suggestStake(makeConfig({ kellyMultiplier: 0.5 }), 1000, 0.55, 100);
+    expect(half.kelly).toBeCloseTo(0.1, 10);
+    expect(half.stake).toBe(50);
+    expect(half.reason).toBeNull();
+  });
+
+  test('caps at maxStakePct', () => {
+    const suggestion = suggestStake(makeConfig({ maxStakePct: 0.03 }), 1000, 0.55, 100);
+    expect(suggestion.stake).toBe(30);
+    expect(suggestion.capped).toBe(true);
+  });
+
+  test('passes without edge, probability or balance', () => {
+    expect(suggestStake(makeConfig(), 1000, 0.45, 100)).toMatchObject({ stake: 0, reason: 'No edge at this price' });
+    expect(suggestStake(makeConfig(), 1000, null, -110).stake).toBe(0);
+    expect(suggestStake(makeConfig({ stakingPolicy: 'flat', flatStake: 25 }), 0, null, null).reason).toBe('Bankroll is empty');
+  });
+});
+
+describe('betWinProbability', () => {
+  test('moneyline sides are complementary', () => {
+    const home = betWinProbability('moneyline', 'home', 7, null)!;
+    const away = betWinProbability('moneyline', 'away', 7, null)!;
+    expect(home).toBeGreaterThan(0.5);
+    expect(home + away).toBeCloseTo(1, 6);
+  });
+
+  test('spread cover is a coin flip when model matches market', () => {
+    expect(betWinProbability('spread', 'home', 3, 3)).toBeCloseTo(0.5, 6);
+    expect(betWinProbability('spread', 'home', 6, 3)!).toBeGreaterThan(0.5);
+  });
+
+  test('totals and missing inputs have no probability', () => {
+    expect(betWinProbability('total', 'over', 3, null)).toBeNull();
+    expect(betWinProbability('spread', 'home', 3, null)).toBeNull();
+    expect(betWinProbability('moneyline', 'home', null, null)).toBeNull();
+  });
+});
+
+describe('validateBankrollInput', () => {
+  test('accepts a quarter-Kelly bankroll and drops unused policy fields', () => {
+    const result = validateBankrollInput({
+      name: ' Main ',
+      startingBalance: '1000',
+      stakingPolicy: 'kelly',
+      kellyMultiplier: '0.25',
+      flatStake: '10',
+      maxStakePct: '',
+    });
+    expect(result.valid).toBe(true);
+    if ('data' in result) {
+      expect(result.data).toMatchObject({ name: 'Main', startingBalance: 1000, kellyMultiplier: 0.25, flatStake: null, maxStakePct: null });
+      expect(describeStakingPolicy(result.data)).toBe('Quarter Kelly');
+    }
+  });
+
+  test('rejects missing policy parameters', () => {
+    const result = validateBankrollInput({ name: 'x', startingBalance: 100, stakingPolicy: 'percent', stakePct: 2 });
+    expect(result.valid).toBe(false);
+    if ('errors' in result) {
+      expect(result.errors).toContain('Percent staking needs a stake percent between 0 and 1');
+    }
+  });
+});
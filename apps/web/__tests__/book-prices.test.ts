@@ -0,0 +1,143 @@
+/**
+ * Unit tests for book-prices.ts
+ * Per-book matrix construction and best-number shopping vs consensus
+ */
+
+import {
+  BookLineInput,
+  buildPriceMatrix,
+  formatQuote,
+  quotesForSide,
+  summarizeBestPrice,
+} from '../lib/book-prices';
+
+function at(hour: number): Date {
+  return new Date(Date.UTC(2025, 9, 25, hour));
+}
+
+function line(overrides: Partial<BookLineInput>): BookLineInput {
+  return {
+    lineType: 'spread',
+    lineValue: -3,
+    price: null,
+    bookName: 'DraftKings',
+    teamId: 'home',
+    timestamp: at(12),
+    ...overrides,
+  };
+}
+
+describe('buildPriceMatrix', () => {
+  test('keeps the latest quote per book and mirrors one-sided spreads', () => {
+    const matrix = buildPriceMatrix(
+      [
+        line({ lineValue: -2.5, timestamp: at(10) }),
+        line({ lineValue: -3, price: -115, timestamp: at(12) }),
+        line({ bookName: 'FanDuel', teamId: 'away', lineValue: 3.5, price: -105 }),
+        line({ bookName: 'FanDuel', teamId: null, lineValue: -7 }),
+      ],
+      'home',
+      'away'
+    );
+
+    expect(matrix.map(r => r.bookName)).toEqual(['DraftKings', 'FanDuel']);
+    expect(matrix[0].spread.home).toMatchObject({ number: -3, price: -115 });
+    expect(matrix[0].spread.away).toMatchObject({ number: 3, price: null });
+    expect(matrix[1].spread.home).toMatchObject({ number: -3.5 });
+    expect(matrix[1].spread.away).toMatchObject({ number: 3.5, price: -105 });
+  });
+
+  test('totals carry the over price only; moneylines put the price in price', () => {
+    const matrix = buildPriceMatrix(
+      [
+        line({ lineType: 'total', teamId: null, lineValue: 47.5, price: -108 }),
+        line({ lineType: 'moneyline', lineValue: -150 }),
+        line({ lineType: 'moneyline', teamId: 'away', lineValue: 130 }),
+      ],
+      'home',
+      'away'
+    );
+
+    expect(matrix[0].total.over).toMatchObject({ number: 47.5, price: -108 });
+    expect(matrix[0].total.under).toMatchObject({ number: 47.5, price: null });
+    expect(matrix[0].moneyline.away).toMatchObject({ number: null, price: 130 });
+    expect(quotesForSide(matrix, 'moneyline', 'home')).toHaveLength(1);
+  });
+});
+
+describe('summarizeBestPrice', () => {
+  const spreads = buildPriceMatrix(
+    [
+      line({ bookName: 'A', lineValue: -3 }),
+      line({ bookName: 'B', lineValue: -3.5 }),
+      line({ bookName: 'C', lineValue: -2.5, price: -120 }),
+      line({ bookName: 'D', lineValue: -3 }),
+    ],
+    'home',
+    'away'
+  );
+
+  test('picks the best number for each side and measures half-points vs the median', () => {
+    const home = summarizeBestPrice(spreads, 'spread', 'home')!;
+    expect(home.bestBook).toBe('C');
+    expect(home.bestNumber).toBe(-2.5);
+    expect(home.consensus).toBe(-3);
+    expect(home.halfPointsVsConsensus).toBe(1);
+    expect(home.books).toBe(4);
+
+    const away = summarizeBestPrice(spreads, 'spread', 'away')!;
+    expect(away.bestBook).toBe('B');
+    expect(away.halfPointsVsConsensus).toBe(1);
+  });
+
+  test('breaks number ties on price, treating a missing price as -110', () => {
+    const matrix = buildPriceMatrix(
+      [line({ bookName: 'A', lineValue: -3 }), line({ bookName: 'B', lineValue: -3, price: -105 })],
+      'home',
+      'away'
+    );
+    expect(summarizeBestPrice(matrix, 'spread', 'home')!.bestBook).toBe('B');
+  });
+
+  test('overs want the lowest total, unders the highest', () => {
+    const totals = buildPriceMatrix(
+      [
+        line({ bookName: 'A', lineType: 'total', teamId: null, lineValue: 47 }),
+        line({ bookName: 'B', lineType: 'total', teamId: null, lineValue: 48 }),
+      ],
+      'home',
+      'away'
+    );
+    expect(summarizeBestPrice(totals, 'total', 'over')).toMatchObject({ bestBook: 'A', halfPointsVsConsensus: 1 });
+    expect(summarizeBestPrice(totals, 'total', 'under')).toMatchObject({ bestBook: 'B', halfPointsVsConsensus: 1 });
+  });
+
+  test('moneylines compare prices and report implied probability saved', () => {
+    const matrix = buildPriceMatrix(
+      [
+        line({ bookName: 'A', lineType: 'moneyline', teamId: 'away', lineValue: 120 }),
+        line({ bookName: 'B', lineType: 'moneyline', teamId: 'away', lineValue: 140 }),
+        line({ bookName: 'C', lineType: 'moneyline', teamId: 'away', lineValue: 130 }),
+      ],
+      'home',
+      'away'
+    );
+    const best = summarizeBestPrice(matrix, 'moneyline', 'away')!;
+    expect(best.bestBook).toBe('B');
+    expect(best.consensus).toBe(130);
+    expect(best.halfPointsVsConsensus).toBeNull();
+    expect(best.probVsConsensus).toBeCloseTo(100 / 230 - 100 / 240, 6);
+  });
+
+  test('returns null when no book quotes the side', () => {
+    expect(summarizeBestPrice([], 'spread', 'home')).toBeNull();
+  });
+});
+
+describe('formatQuote', () => {
+  test('formats spreads, totals and moneylines', () => {
+    expect(formatQuote('spread', 'away', 3.5, -105)).toBe('+3.5 (-105)');
+    expect(formatQuote('total', 'under', 47.5, null)).toBe('u47.5');
+    expect(formatQuote('moneyline', 'home', null, 140)).toBe('+140');
+  });
+});
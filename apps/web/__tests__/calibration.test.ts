@@ -0,0 +1,139 @@
+/**
+ * Unit tests for calibration.ts
+ * Estimators, scale conversion, time-series folds, gates and residual diagnostics
+ */
+
+import {
+  CalibrationRow,
+  ESTIMATORS,
+  buildResidualDiagnostics,
+  fitElasticNet,
+  fitScalers,
+  fitRidge,
+  resolveFeatureList,
+  runCalibration,
+  timeSeriesFolds,
+} from '../lib/calibration';
+
+/** Deterministic rows: target = 1.5 + 2 × ratingDiffV2 + 0.8 × hfaPoints (+ optional noise) */
+function syntheticRows(weeks: number, perWeek: number, noise = 0): CalibrationRow[] {
+  const rows: CalibrationRow[] = [];
+  for (let week = 1; week <= weeks; week++) {
+    for (let g = 0; g < perWeek; g++) {
+      const i = week * perWeek + g;
+      const ratingDiffV2 = ((i * 37) % 21) - 10;
+      const hfaPoints = i % 4 === 0 ? 0 : 1.5 + ((i * 13) % 5) / 2;
+      const wobble = noise * (((i * 7919) % 11) - 5) / 5;
+      rows.push({
+        gameId: `g${i}`,
+        season: 2025,
+        week,
+        setLabel: 'A',
+        weight: 1,
+        target: 1.5 + 2 * ratingDiffV2 + 0.8 * hfaPoints + wobble,
+        values: { ratingDiffV2, hfaPoints, neutralSite: hfaPoints === 0 ? 1 : 0, offAdjSrDiff: ((i * 17) % 9) - 4 },
+      });
+    }
+  }
+  return rows;
+}
+
+describe('estimators', () => {
+  test('unpenalized ridge is weighted least squares', () => {
+    const X = [[1, 0], [0, 1], [1, 1], [2, 1], [3, 2]];
+    const y = X.map(([a, b]) => 4 + 2 * a - 3 * b);
+    const fitted = fitRidge(X, y, X.map(() => 1), 0);
+    expect(fitted[0]).toBeCloseTo(4, 8);
+    expect(fitted[1]).toBeCloseTo(2, 8);
+    expect(fitted[2]).toBeCloseTo(-3, 8);
+  });
+
+  test('elastic net matches least squares with no penalty and drops noise with L1', () => {
+    const X = Array.from({ length: 40 }, (_, i) => [(i % 9) - 4, ((i * 5) % 7) - 3]);
+    const y = X.map(([a]) => 1 + 3 * a);
+    const unpenalized = fitElasticNet(X, y, X.map(() => 1), 0, 0.5);
+    expect(unpenalized[0]).toBeCloseTo(1, 5);
+    expect(unpenalized[1]).toBeCloseTo(3, 5);
+
+    const lasso = fitElasticNet(X, y, X.map(() => 1), 0.5, 1);
+    expect(lasso[2]).toBe(0);
+    expect(lasso[1]).toBeGreaterThan(0);
+  });
+
+  test('quadratic adds a squared rating term', () => {
+    expect(ESTIMATORS.quadratic.expandFeatures!(['ratingDiffV2', 'hfaPoints'])).toEqual(['ratingDiffV2', 'hfaPoints', 'ratingDiffV2Sq']);
+  });
+
+  test('feature lists resolve from a set name or a comma list', () => {
+    expect(resolveFeatureList('core_v1')).toEqual({ label: 'core_v1', features: ['ratingDiffBlend', 'hfaPoints'] });
+    expect(resolveFeatureList('ratingDiffV2,hfaPoints').label).toBe('custom');
+    expect(() => resolveFeatureList('ratingDiffV2,madeUp')).toThrow(/madeUp/);
+  });
+});
+
+describe('timeSeriesFolds', () => {
+  test('each week is tested on a model trained only on earlier weeks', () => {
+    const rows = [
+      { season: 2024, week: 14 }, { season: 2025, week: 1 }, { season: 2025, week: 1 },
+      { season: 2025, week: 2 }, { season: 2025, week: 3 },
+    ];
+    const folds = timeSeriesFolds(rows, 2);
+    expect(folds.map(f => `${f.season}-${f.week}`)).toEqual(['2025-2', '2025-3']);
+    expect(folds[0].trainIndices).toEqual([0, 1, 2]);
+    expect(folds[0].testIndices).toEqual([3]);
+    expect(folds[1].trainIndices).toEqual([0, 1, 2, 3]);
+  });
+});
+
+describe('fitScalers', () => {
+  test('standardizes with the given rows only and leaves binary features alone', () => {
+    const raw = [[1, 0], [3, 1], [100, 1]];
+    const scalers = fitScalers(raw, ['ratingDiffV2', 'neutralSite'], [0, 1]);
+    expect(scalers.ratingDiffV2).toEqual({ mean: 2, std: 1 });
+    expect(scalers.neutralSite).toEqual({ mean: 0, std: 1 });
+  });
+});
+
+describe('runCalibration', () => {
+  test('recovers original-scale coefficients and passes the gates on clean data', () => {
+    const rows = syntheticRows(8, 12);
+    const result = runCalibration(rows, { estimator: ESTIMATORS.ols, features: ['ratingDiffV2', 'hfaPoints'] });
+    expect(result.intercept).toBeCloseTo(1.5, 6);
+    expect(result.coefficients.ratingDiffV2.original).toBeCloseTo(2, 6);
+    expect(result.coefficients.hfaPoints.original).toBeCloseTo(0.8, 6);
+    expect(result.folds).toBe(5);
+    expect(result.walkForward.n).toBe(5 * 12);
+    expect(result.gates.slope).toBeCloseTo(1, 6);
+    expect(result.gates.allPassed).toBe(true);
+  });
+
+  test('grid search picks from the estimator grid and records every point', () => {
+    const rows = syntheticRows(8, 12, 3);
+    const result = runCalibration(rows, { estimator: ESTIMATORS.ridge, features: ['ratingDiffV2', 'hfaPoints', 'offAdjSrDiff'] });
+    expect(result.grid).toHaveLength(ESTIMATORS.ridge.grid.length);
+    expect(result.best.cvRmse).toBe(Math.min(...result.grid.map(g => g.cvRmse)));
+  });
+
+  test('a wrong-signed rating coefficient fails its gate', () => {
+    const rows = syntheticRows(6, 10).map(r => ({ ...r, target: -r.target }));
+    const result = runCalibration(rows, { estimator: ESTIMATORS.ols, features: ['ratingDiffV2'] });
+    expect(result.gates.checks.find(c => c.gate === 'sign:ratingDiffV2')!.passed).toBe(false);
+    expect(result.gates.allPassed).toBe(false);
+  });
+
+  test('needs enough weeks for CV', () => {
+    expect(() => runCalibration(syntheticRows(3, 5), { estimator: ESTIMATORS.ols, features: ['ratingDiffV2'] })).toThrow(/weeks/);
+  });
+});
+
+describe('buildResidualDiagnostics', () => {
+  test('buckets by spread size and ranks the largest misses', () => {
+    const rows = syntheticRows(2, 5);
+    const predictions = rows.map((r, i) => r.target - (i === 3 ? 12 : 1));
+    const { summary, outliers } = buildResidualDiagnostics(rows, predictions, 2);
+    expect(summary.bySpread.reduce((sum, b) => sum + b.count, 0)).toBe(rows.length);
+    expect(summary.byWeek).toHaveLength(2);
+    expect(outliers[0].gameId).toBe(rows[3].gameId);
+    expect(outliers[0].residual).toBeCloseTo(12, 10);
+  });
+});
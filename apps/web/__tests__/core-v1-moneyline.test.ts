@@ -0,0 +1,119 @@
+/**
+ * Unit tests for core-v1-moneyline.ts and the moneyline pricing helpers
+ * in market-line-helpers.ts
+ */
+
+import { removeVig, probToAmerican, americanToDecimal } from '../lib/market-line-helpers';
+import {
+  MIN_SIGMA_TRAINING_GAMES,
+  MarginSigmaSample,
+  computeHomeWinProb,
+  computeMoneylineEV,
+  fitMarginSigma,
+  getMarginSigma,
+  getMarginSigmaTrainingStats,
+  getMoneylinePick,
+  normalCdf,
+} from '../lib/core-v1-moneyline';
+import moneylineConfig from '../lib/data/core_v1_moneyline_config.json';
+
+describe('moneyline pricing helpers', () => {
+  test('removeVig scales implied probabilities to sum to 1', () => {
+    const result = removeVig(-110, -110);
+    expect(result).not.toBeNull();
+    expect(result!.homeProb).toBeCloseTo(0.5, 6);
+    expect(result!.awayProb).toBeCloseTo(0.5, 6);
+    expect(result!.overround).toBeCloseTo(0.0476, 3);
+  });
+
+  test('removeVig returns null when a side is missing', () => {
+    expect(removeVig(-150, null)).toBeNull();
+  });
+
+  test('probToAmerican round-trips through americanToDecimal', () => {
+    expect(probToAmerican(0.6)).toBeCloseTo(-150, 6);
+    expect(probToAmerican(0.4)).toBeCloseTo(150, 6);
+    expect(1 / americanToDecimal(-150)).toBeCloseTo(0.6, 6);
+  });
+});
+
+describe('Core V1 moneyline', () => {
+  test('pick-em spread gives a 50% win probability', () => {
+    expect(computeHomeWinProb(0)).toBeCloseTo(0.5, 6);
+  });
+
+  test('win probability is symmetric in the HMA frame', () => {
+    expect(computeHomeWinProb(7) + computeHomeWinProb(-7)).toBeCloseTo(1, 6);
+    expect(computeHomeWinProb(7)).toBeGreaterThan(0.5);
+  });
+
+  test('EV is zero at the fair price', () => {
+    expect(computeMoneylineEV(0.6, -150)).toBeCloseTo(0, 6);
+  });
+
+  test('recommends the side with positive EV', () => {
+    // Model likes home by 10, market has it near a pick-em
+    const pick = getMoneylinePick(10, -120, +100, 'home', 'away', 'Home U', 'Away St');
+    expect(pick.side).toBe('home');
+    expect(pick.recommendedTeamId).toBe('home');
+    expect(pick.ev).toBeGreaterThan(0);
+    expect(pick.pickLabel).toBe('Home U -120');
+  });
+
+  test('no pick when prices are missing', () => {
+    const pick = getMoneylinePick(10, null, null, 'home', 'away', 'Home U', 'Away St');
+    expect(pick.side).toBeNull();
+    expect(pick.marketHomeProb).toBeNull();
+  });
+});
+
+describe('margin σ fit', () => {
+  function repeat(n: number, sample: MarginSigmaSample): MarginSigmaSample[] {
+    return Array.from({ length: n }, () => ({ ...sample }));
+  }
+
+  // Residuals: 20 × +10 (home by 7, won by 17), 20 × -10 (home by 7, lost by 3), 10 × +3 ties
+  const samples = [
+    ...repeat(10, { modelSpread: 7, actualMargin: 17, marketHomeProb: 0.75 }),
+    ...repeat(10, { modelSpread: 7, actualMargin: 17, marketHomeProb: null }),
+    ...repeat(20, { modelSpread: 7, actualMargin: -3, marketHomeProb: null }),
+    ...repeat(10, { modelSpread: -3, actualMargin: 0, marketHomeProb: null }),
+  ];
+
+  test('σ is the RMS residual over every game', () => {
+    const fit = fitMarginSigma(samples);
+    expect(fit.sampleSize).toBe(50);
+    expect(fit.sigma).toBeCloseTo(Math.sqrt(4090 / 50), 10);
+    expect(fit.meanResidual).toBeCloseTo(0.6, 10);
+  });
+
+  test('scores model probabilities at the fitted σ on decided games only', () => {
+    const fit = fitMarginSigma(samples);
+    const p = normalCdf(7 / Math.sqrt(4090 / 50));
+    expect(fit.logLoss).toBeCloseTo(-(Math.log(p) + Math.log(1 - p)) / 2, 10);
+    expect(fit.brier).toBeCloseTo(((1 - p) ** 2 + p ** 2) / 2, 10);
+  });
+
+  test('scores the market only where priced', () => {
+    const fit = fitMarginSigma(samples);
+    expect(fit.market).not.toBeNull();
+    expect(fit.market!.sampleSize).toBe(10);
+    expect(fit.market!.logLoss).toBeCloseTo(-Math.log(0.75), 10);
+    expect(fit.market!.brier).toBeCloseTo(0.0625, 10);
+  });
+
+  test('refuses to fit on too few games', () => {
+    expect(() => fitMarginSigma(samples.slice(0, MIN_SIGMA_TRAINING_GAMES - 1))).toThrow('Insufficient training data');
+  });
+
+  test('shipped σ carries its fit provenance', () => {
+    const stats = getMarginSigmaTrainingStats();
+    expect(getMarginSigma()).toBe(moneylineConfig.margin_sigma);
+    // trained_on and training_stats are written together by the trainer
+    expect(moneylineConfig.trained_on === null).toBe(stats === null);
+    if (stats) {
+      expect(stats.sample_size).toBeGreaterThanOrEqual(MIN_SIGMA_TRAINING_GAMES);
+      expect(stats.seasons.length).toBeGreaterThan(0);
+    }
+  });
+});
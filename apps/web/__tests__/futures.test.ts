@@ -0,0 +1,164 @@
+/**
+ * Unit tests for futures.ts
+ * File parsing, team matching, win-total and conference-winner comparisons
+ */
+
+import {
+  FuturesMarketInput,
+  buildTeamMatcher,
+  compareConferenceWinners,
+  compareWinTotal,
+  latestFuturesMarkets,
+  parseFuturesRecords,
+  winTotalProbabilities,
+} from '../lib/futures';
+import type { TeamSimResult } from '../lib/season-simulator';
+
+function sim(teamId: string, overrides: Partial<TeamSimResult> = {}): TeamSimResult {
+  return {
+    teamId,
+    name: teamId.toUpperCase(),
+    conference: 'SEC',
+    currentWins: 0,
+    currentLosses: 0,
+    expectedWins: 0,
+    expectedLosses: 0,
+    winDistribution: [1],
+    regularSeasonWinDistribution: [1],
+    expectedConfWins: 0,
+    expectedConfLosses: 0,
+    confFirstProb: 0,
+    titleGameProb: 0,
+    confChampProb: 0,
+    cfpProb: 0,
+    ...overrides,
+  };
+}
+
+function market(teamId: string, overrides: Partial<FuturesMarketInput> = {}): FuturesMarketInput {
+  return {
+    teamId,
+    marketType: 'win_total',
+    conference: null,
+    line: 8.5,
+    overPrice: -110,
+    underPrice: -110,
+    price: null,
+    bookName: 'BookA',
+    capturedAt: '2025-08-01T00:00:00Z',
+    ...overrides,
+  };
+}
+
+describe('parseFuturesRecords', () => {
+  test('reads CSV-style rows and reports bad ones', () => {
+    const { rows, errors } = parseFuturesRecords([
+      { team: 'Alabama', market: 'win_total', line: '9.5', over_price: '-125', under_price: '+105', book: 'BookA' },
+      { team: 'Georgia', market: 'conference_winner', price: '+250', book: 'BookA', captured_at: '2025-08-01' },
+      { team: 'Texas', market: 'win_total', over_price: '-110', book: 'BookA' },
+      { team: 'LSU', market: 'spread', book: 'BookA' },
+      { team: 'Ole Miss', market: 'conference_winner', price: '2.5', book: 'BookA' },
+    ]);
+    expect(rows).toHaveLength(2);
+    expect(rows[0]).toMatchObject({ team: 'Alabama', line: 9.5, overPrice: -125, underPrice: 105, price: null });
+    expect(rows[1]).toMatchObject({ marketType: 'conference_winner', price: 250, line: null });
+    expect(rows[1].capturedAt).toBeInstanceOf(Date);
+    expect(errors).toEqual([
+      'row 3: win_total needs a line',
+      expect.stringContaining('row 4: unknown market'),
+      'row 5: price 2.5 is not an American price',
+    ]);
+  });
+
+  test('accepts camelCase JSON keys', () => {
+    const { rows } = parseFuturesRecords([{ team: 'alabama', market: 'win_total', line: 9.5, overPrice: -120, book: 'B' }]);
+    expect(rows[0].overPrice).toBe(-120);
+  });
+});
+
+describe('buildTeamMatcher', () => {
+  const match = buildTeamMatcher([
+    { id: 'texas-a-m', name: 'Texas A&M' },
+    { id: 'miami', name: 'Miami' },
+  ]);
+
+  test('matches ids, names and slugged names', () => {
+    expect(match('miami')).toBe('miami');
+    expect(match('MIAMI')).toBe('miami');
+    expect(match('Texas A&M')).toBe('texas-a-m');
+    expect(match('texas a m')).toBe('texas-a-m');
+    expect(match('Miami (OH)')).toBeNull();
+  });
+});
+
+describe('latestFuturesMarkets', () => {
+  test('keeps the newest line per team, market and book', () => {
+    const latest = latestFuturesMarkets([
+      market('a', { line: 8.5, capturedAt: '2025-08-01T00:00:00Z' }),
+      market('a', { line: 9.5, capturedAt: '2025-09-01T00:00:00Z' }),
+      market('a', { line: 7.5, bookName: 'BookB' }),
+    ]);
+    expect(latest).toHaveLength(2);
+    expect(latest.find(m => m.bookName === 'BookA')!.line).toBe(9.5);
+  });
+});
+
+describe('win totals', () => {
+  // 7: 20%, 8: 30%, 9: 30%, 10: 20%
+  const distribution = [0, 0, 0, 0, 0, 0, 0, 0.2, 0.3, 0.3, 0.2];
+
+  test('half-point and whole-number lines', () => {
+    expect(winTotalProbabilities(distribution, 8.5)).toEqual({ over: 0.5, under: 0.5, push: 0 });
+    const whole = winTotalProbabilities(distribution, 9);
+    expect(whole.over).toBeCloseTo(0.2, 10);
+    expect(whole.under).toBeCloseTo(0.5, 10);
+    expect(whole.push).toBeCloseTo(0.3, 10);
+  });
+
+  test('settles on regular-season wins and flags a positive-EV edge', () => {
+    const team = sim('a', { regularSeasonWinDistribution: distribution, winDistribution: [0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 1] });
+    const c = compareWinTotal(market('a', { line: 7.5 }), team, 0.04)!;
+    expect(c.modelOverProb).toBeCloseTo(0.8, 10);
+    expect(c.marketOverProb).toBeCloseTo(0.5, 10);
+    expect(c.overEdge).toBeCloseTo(0.3, 10);
+    expect(c.overEv).toBeCloseTo(0.8 * (100 / 110) - 0.2, 10);
+    expect(c.expectedWins).toBeCloseTo(8.5, 10);
+    expect(c.pick).toBe('over');
+    expect(c.flagged).toBe(true);
+  });
+
+  test('a fair line is not flagged and missing prices default to -110', () => {
+    const c = compareWinTotal(market('a', { underPrice: null }), sim('a', { regularSeasonWinDistribution: distribution }))!;
+    expect(c.underPrice).toBe(-110);
+    expect(c.pick).toBeNull();
+  });
+
+  test('pushes are excluded from the edge', () => {
+    const c = compareWinTotal(market('a', { line: 9 }), sim('a', { regularSeasonWinDistribution: distribution }))!;
+    expect(c.modelUnderProb + c.modelOverProb + c.pushProb).toBeCloseTo(1, 10);
+    expect(c.underEdge).toBeCloseTo(0.5 / 0.7 - 0.5, 10);
+  });
+});
+
+describe('compareConferenceWinners', () => {
+  test('de-vigs each book and conference field together', () => {
+    const sims = new Map([
+      ['a', sim('a', { confChampProb: 0.65 })],
+      ['b', sim('b', { confChampProb: 0.25 })],
+      ['c', sim('c', { confChampProb: 0.1 })],
+    ]);
+    const lines = [
+      market('a', { marketType: 'conference_winner', line: null, price: -150 }), // 0.6
+      market('b', { marketType: 'conference_winner', line: null, price: 150 }),  // 0.4
+      market('c', { marketType: 'conference_winner', line: null, price: 400 }),  // 0.2
+      market('x', { marketType: 'conference_winner', line: null, price: 1000 }), // not simulated
+    ];
+    const results = compareConferenceWinners(lines, sims, 0.04);
+    expect(results.map(r => r.teamId)).toEqual(['a', 'b', 'c']);
+    expect(results[0].marketProb).toBeCloseTo(0.5, 10);
+    expect(results[0].edge).toBeCloseTo(0.15, 10);
+    expect(results[0].ev).toBeCloseTo(0.65 / 1.5 - 0.35, 10);
+    expect(results[0].flagged).toBe(true);
+    expect(results[2].flagged).toBe(false);
+  });
+});
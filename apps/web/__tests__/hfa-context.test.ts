@@ -0,0 +1,57 @@
+/**
+ * Unit tests for hfa-context.ts
+ * Params cache: a fit written after a miss is picked up once the TTL lapses
+ */
+
+import { clearHfaParamsCache, getHfaParams } from '../lib/hfa-context';
+
+const mockRows: any[] = [];
+
+jest.mock('../lib/prisma', () => ({
+  prisma: {
+    hfaSeasonParams: {
+      findFirst: async ({ where }: any) => mockRows.find(row => row.season === where.season) ?? null,
+    },
+  },
+}));
+
+const fittedRow = {
+  season: 2025,
+  baseHfaPoints: 1.8,
+  travelCoef: 0.1,
+  timezoneCoef: 0.2,
+  altitudeCoef: 0.3,
+  restCoef: 0.05,
+  crowdCoef: 0.4,
+  clipMin: -1,
+  clipMax: 5,
+  teamAdjustments: {},
+};
+
+beforeEach(() => {
+  mockRows.length = 0;
+  clearHfaParamsCache();
+  jest.useFakeTimers({ now: new Date('2025-10-01T12:00:00Z') });
+});
+
+afterEach(() => {
+  jest.useRealTimers();
+});
+
+test('a miss is not served forever once the season is fitted', async () => {
+  expect((await getHfaParams(2025)).source).not.toBe('fitted');
+
+  mockRows.push(fittedRow);
+  // Within the TTL the cached miss still answers
+  expect((await getHfaParams(2025)).source).not.toBe('fitted');
+
+  jest.setSystemTime(new Date('2025-10-01T12:01:01Z'));
+  const params = await getHfaParams(2025);
+  expect(params.source).toBe('fitted');
+  expect(params.baseHfaPoints).toBe(1.8);
+});
+
+test('the fallback answers for an unfitted season', async () => {
+  const fallback = { ...(await getHfaParams(2024)), baseHfaPoints: 0 };
+  expect((await getHfaParams(2024, null, fallback)).baseHfaPoints).toBe(0);
+});
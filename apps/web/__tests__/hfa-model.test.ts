@@ -0,0 +1,128 @@
+/**
+ * Unit tests for hfa-model.ts
+ * Game features, component breakdown, legacy equivalence and ridge fitting
+ */
+
+import {
+  HfaFitSample,
+  HfaGameContext,
+  HfaParams,
+  computeHfaBreakdown,
+  computeHfaFeatures,
+  fitHfaParams,
+  haversineMiles,
+  legacyHfaParams,
+  resolveStateLocation,
+  solveLinearSystem,
+} from '../lib/hfa-model';
+
+function context(overrides: Partial<HfaGameContext> = {}): HfaGameContext {
+  return {
+    homeTeamId: 'wyoming',
+    awayTeamId: 'hawaii',
+    neutralSite: false,
+    homeState: 'WY',
+    awayState: 'HI',
+    homeConference: 'Mountain West',
+    homeRestDays: 7,
+    awayRestDays: 7,
+    ...overrides,
+  };
+}
+
+function params(overrides: Partial<HfaParams> = {}): HfaParams {
+  return {
+    season: 2025,
+    source: 'fitted',
+    baseHfaPoints: 2,
+    coefficients: { travel: 0.5, timezone: 0.25, altitude: 0.2, rest: 0.1, crowd: 0.5 },
+    clipMin: -1,
+    clipMax: 6,
+    teamAdjustments: {},
+    ...overrides,
+  };
+}
+
+describe('locations', () => {
+  test('states resolve by abbreviation or name', () => {
+    expect(resolveStateLocation('co')).toEqual(resolveStateLocation('Colorado'));
+    expect(resolveStateLocation('Ontario')).toBeNull();
+    expect(resolveStateLocation(null)).toBeNull();
+  });
+
+  test('haversine distance is roughly right', () => {
+    // Denver to Los Angeles ≈ 830 miles
+    expect(haversineMiles(39.74, -104.99, 34.05, -118.24)).toBeGreaterThan(800);
+    expect(haversineMiles(39.74, -104.99, 34.05, -118.24)).toBeLessThan(860);
+  });
+});
+
+describe('computeHfaFeatures', () => {
+  test('travel, time zones, altitude, rest and crowd for a true road game', () => {
+    const { features, travelMiles } = computeHfaFeatures(context({ homeRestDays: 14, awayRestDays: 6 }));
+    expect(travelMiles).toBeGreaterThan(2500);
+    expect(features.travel).toBeCloseTo(travelMiles! / 1000, 10);
+    expect(features.timezone).toBe(3);
+    expect(features.altitude).toBeCloseTo(7.22, 2);
+    expect(features.rest).toBe(7); // 8 days clipped to a week
+    expect(features.crowd).toBe(0);
+  });
+
+  test('visitors from altitude and unknown rest contribute nothing', () => {
+    const { features } = computeHfaFeatures(context({ awayTeamId: 'air-force', awayState: 'CO', homeRestDays: null }));
+    expect(features.altitude).toBeCloseTo(0.599, 3);
+    expect(features.rest).toBe(0);
+  });
+
+  test('neutral sites have no features', () => {
+    const { features, travelMiles } = computeHfaFeatures(context({ neutralSite: true }));
+    expect(Object.values(features).every(v => v === 0)).toBe(true);
+    expect(travelMiles).toBeNull();
+  });
+});
+
+describe('computeHfaBreakdown', () => {
+  test('components sum into the raw HFA and the result is clipped', () => {
+    const breakdown = computeHfaBreakdown(params({ teamAdjustments: { wyoming: { adjustment: 0.5, sampleSize: 10, meanResidual: 2 } } }), context());
+    const componentTotal = Object.values(breakdown.components).reduce((sum, v) => sum + v, 0);
+    expect(breakdown.rawHfa).toBeCloseTo(2 + 0.5 + componentTotal, 10);
+    expect(breakdown.effectiveHfa).toBe(6);
+    expect(breakdown.components.timezone).toBeCloseTo(0.75, 10);
+  });
+
+  test('legacy params reproduce the v2 config (base + team adjustment only)', () => {
+    const legacy = legacyHfaParams();
+    const breakdown = computeHfaBreakdown(legacy, context({ homeTeamId: 'no-such-team' }));
+    expect(breakdown.effectiveHfa).toBe(legacy.baseHfaPoints);
+    expect(breakdown.source).toBe('config');
+    expect(computeHfaBreakdown(legacy, context({ neutralSite: true })).effectiveHfa).toBe(0);
+  });
+});
+
+describe('fitHfaParams', () => {
+  test('solveLinearSystem solves a small system', () => {
+    const x = solveLinearSystem([[2, 1], [1, 3]], [3, 5]);
+    expect(x[0]).toBeCloseTo(0.8, 10);
+    expect(x[1]).toBeCloseTo(1.4, 10);
+  });
+
+  test('recovers base and component weights from noiseless residuals', () => {
+    const samples: HfaFitSample[] = [];
+    for (let i = 0; i < 60; i++) {
+      const features = { travel: (i % 5) * 0.4, timezone: i % 4, altitude: (i % 7) * 0.5, rest: (i % 9) - 4, crowd: i % 2 };
+      const residual = 1.5 + 0.6 * features.travel + 0.3 * features.timezone + 0.4 * features.altitude + 0.2 * features.rest + 0.8 * features.crowd;
+      samples.push({ homeTeamId: `team-${i % 6}`, features, residual });
+    }
+
+    const fit = fitHfaParams(samples, { ridgeLambda: 0, teamShrinkage: 20 });
+    expect(fit.params.baseHfaPoints).toBeCloseTo(1.5, 6);
+    expect(fit.params.coefficients.travel).toBeCloseTo(0.6, 6);
+    expect(fit.params.coefficients.rest).toBeCloseTo(0.2, 6);
+    expect(fit.params.teamAdjustments['team-0'].adjustment).toBeCloseTo(0, 6);
+    expect(fit.rmse).toBeLessThan(fit.baseOnlyRmse);
+  });
+
+  test('requires enough games', () => {
+    expect(() => fitHfaParams([])).toThrow(/at least/);
+  });
+});
@@ -0,0 +1,133 @@
+/**
+ * Unit tests for injury-impact.ts
+ * Position groups, usage share, severity weighting, group caps and scale fitting
+ */
+
+import {
+  DEFAULT_INJURY_CONFIG,
+  InjuryCalibrationSample,
+  InjuryImpactConfig,
+  InjuryReport,
+  buildInjuryCalibrationTable,
+  computeInjuryAdjustment,
+  computeTeamInjuryImpact,
+  fitInjuryScale,
+  positionGroup,
+  usageShareFor,
+} from '../lib/injury-impact';
+
+function config(overrides: Partial<InjuryImpactConfig> = {}): InjuryImpactConfig {
+  return {
+    scale: 1,
+    maxAdjustmentPts: 7,
+    groupValuePts: { QB: 4, RB: 1, WR: 2, OL: 2.5, DL: 2.5, LB: 2, DB: 2 },
+    depthShares: { QB: [0.9, 0.1], RB: [0.5, 0.3], WR: [0.2, 0.05], OL: [0.2, 0], DL: [0.15, 0.05], LB: [0.3, 0.05], DB: [0.2, 0.05] },
+    unknownDepthShare: { QB: 0.5, RB: 0.3, WR: 0.1, OL: 0.1, DL: 0.07, LB: 0.12, DB: 0.09 },
+    missProbability: { OUT: 1, DOUBTFUL: 0.8, QUESTIONABLE: 0.5, PROBABLE: 0.1 },
+    trainedOn: '2025-11-02T10:00:00.000Z',
+    ...overrides,
+  };
+}
+
+function report(overrides: Partial<InjuryReport> = {}): InjuryReport {
+  return { teamId: 'home', position: 'QB', severity: 'OUT', depthRank: 1, ...overrides };
+}
+
+describe('inputs', () => {
+  test('raw positions map to model groups', () => {
+    expect(positionGroup('te')).toBe('WR');
+    expect(positionGroup('OLB')).toBe('LB');
+    expect(positionGroup('CB')).toBe('DB');
+    // Specialists have no model value
+    expect(positionGroup('K')).toBeNull();
+    expect(positionGroup('LS')).toBeNull();
+  });
+
+  test('usage share prefers reported share, then depth rank, then the default', () => {
+    const cfg = config();
+    expect(usageShareFor(report({ usageShare: 1.4 }), 'QB', cfg)).toEqual({ share: 1, source: 'reported' });
+    expect(usageShareFor(report({ depthRank: 2 }), 'QB', cfg)).toEqual({ share: 0.1, source: 'depth' });
+    expect(usageShareFor(report({ depthRank: 5 }), 'QB', cfg).share).toBe(0.1); // deeper strings reuse the last entry
+    expect(usageShareFor(report({ depthRank: null }), 'QB', cfg)).toEqual({ share: 0.5, source: 'default' });
+  });
+});
+
+describe('computeTeamInjuryImpact', () => {
+  test('value = group value × usage share × miss probability', () => {
+    const impact = computeTeamInjuryImpact('home', [
+      report(),
+      report({ position: 'WR', severity: 'questionable' }),
+      report({ teamId: 'away' }),
+    ], config());
+    expect(impact.players).toHaveLength(2);
+    expect(impact.byGroup.QB).toBeCloseTo(3.6, 10);
+    expect(impact.byGroup.WR).toBeCloseTo(0.2, 10);
+    expect(impact.impactPts).toBeCloseTo(3.8, 10);
+  });
+
+  test('a group cannot lose more than its whole value', () => {
+    const linemen = Array.from({ length: 7 }, () => report({ position: 'OL' }));
+    const impact = computeTeamInjuryImpact('home', linemen, config());
+    expect(impact.byGroup.OL).toBe(2.5);
+    const playerTotal = impact.players.reduce((sum, p) => sum + p.impactPts, 0);
+    expect(playerTotal).toBeCloseTo(2.5, 10);
+  });
+
+  test('unknown positions and severities are ignored', () => {
+    const impact = computeTeamInjuryImpact('home', [report({ position: 'LS' }), report({ severity: 'day-to-day' })], config());
+    expect(impact.impactPts).toBe(0);
+  });
+});
+
+describe('computeInjuryAdjustment', () => {
+  test('home injuries move the spread toward the away team', () => {
+    const adjustment = computeInjuryAdjustment('home', 'away', [report()], config({ scale: 0.5 }));
+    expect(adjustment.rawAdjPts).toBeCloseTo(-3.6, 10);
+    expect(adjustment.injuryAdjPts).toBeCloseTo(-1.8, 10);
+    expect(adjustment.breakdown[0]).toBe('Home QB out: -1.8 pts');
+  });
+
+  test('the adjustment is clamped', () => {
+    const reports = ['QB', 'RB', 'WR', 'OL', 'DL', 'DB'].map(position => report({ teamId: 'away', position, usageShare: 1 }));
+    const adjustment = computeInjuryAdjustment('home', 'away', reports, config({ scale: 2 }));
+    expect(adjustment.injuryAdjPts).toBe(7);
+  });
+
+  test('an unfitted scale is reported but not applied', () => {
+    const adjustment = computeInjuryAdjustment('home', 'away', [report()], config({ trainedOn: null }));
+    expect(adjustment.fitted).toBe(false);
+    expect(adjustment.rawAdjPts).toBeCloseTo(-3.6, 10);
+    expect(adjustment.injuryAdjPts).toBe(0);
+  });
+
+  test('default config loads from JSON', () => {
+    expect(DEFAULT_INJURY_CONFIG.groupValuePts.QB).toBeGreaterThan(DEFAULT_INJURY_CONFIG.groupValuePts.RB);
+    expect(computeInjuryAdjustment('home', 'away', []).injuryAdjPts).toBe(0);
+  });
+});
+
+describe('calibration', () => {
+  test('fitInjuryScale recovers the scale from noiseless residuals', () => {
+    const samples: InjuryCalibrationSample[] = [];
+    for (let i = 0; i < 60; i++) {
+      const rawAdjPts = (i % 7) - 3;
+      samples.push({ rawAdjPts, residual: 0.7 * rawAdjPts });
+    }
+    const fit = fitInjuryScale(samples);
+    expect(fit.scale).toBeCloseTo(0.7, 10);
+    expect(fit.rmseWith).toBeCloseTo(0, 10);
+    expect(fit.informativeGames).toBeLessThan(fit.sampleSize);
+  });
+
+  test('fitInjuryScale requires enough informative games', () => {
+    expect(() => fitInjuryScale([{ rawAdjPts: 0, residual: 3 }])).toThrow(/at least/);
+  });
+
+  test('calibration buckets cover every sample', () => {
+    const samples = [-4, -2, -1, 0, 1, 2, 4].map(rawAdjPts => ({ rawAdjPts, residual: rawAdjPts }));
+    const table = buildInjuryCalibrationTable(samples, 1);
+    expect(table.reduce((sum, b) => sum + b.games, 0)).toBe(samples.length);
+    expect(table[0].label).toBe('< -3');
+    expect(table[table.length - 1].meanResidual).toBe(4);
+  });
+});
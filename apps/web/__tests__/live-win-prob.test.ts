@@ -0,0 +1,92 @@
+/**
+ * Unit tests for live-win-prob.ts
+ * Clock handling, win probability limits, trajectory and live line alignment
+ */
+
+import {
+  LIVE_WIN_PROB_CONFIG,
+  LiveGameState,
+  alignLiveLines,
+  buildLiveTrajectory,
+  gameMinute,
+  liveWinProbability,
+  secondsRemaining,
+} from '../lib/live-win-prob';
+import { computeHomeWinProb } from '../lib/core-v1-moneyline';
+
+const SIGMA = 16;
+
+function state(overrides: Partial<LiveGameState> = {}): LiveGameState {
+  return { status: 'in_progress', period: 1, clockSeconds: 900, homeScore: 0, awayScore: 0, possession: null, ...overrides };
+}
+
+describe('clock', () => {
+  test('regulation seconds left and minutes played', () => {
+    expect(secondsRemaining(1, 900)).toBe(3600);
+    expect(secondsRemaining(3, 450)).toBe(1350);
+    expect(secondsRemaining(5, 0)).toBe(0);
+    expect(gameMinute(2, 0)).toBe(30);
+    expect(gameMinute(6, 0)).toBe(62);
+  });
+});
+
+describe('liveWinProbability', () => {
+  test('kickoff matches the pregame probability', () => {
+    const live = liveWinProbability(state(), 7, SIGMA);
+    expect(live.fairSpreadHma).toBe(7);
+    expect(live.homeWinProb).toBeCloseTo(computeHomeWinProb(7, SIGMA), 4);
+  });
+
+  test('the lead matters more as time runs out', () => {
+    const early = liveWinProbability(state({ period: 1, clockSeconds: 600, homeScore: 7 }), 0, SIGMA);
+    const late = liveWinProbability(state({ period: 4, clockSeconds: 120, homeScore: 7 }), 0, SIGMA);
+    expect(late.homeWinProb).toBeGreaterThan(early.homeWinProb);
+    expect(late.homeWinProb).toBeGreaterThan(0.9);
+  });
+
+  test('the pregame edge shrinks with the time left', () => {
+    const half = liveWinProbability(state({ period: 3, clockSeconds: 900 }), -10, SIGMA);
+    expect(half.fairSpreadHma).toBeCloseTo(-5, 10);
+    expect(half.homeWinProb).toBeLessThan(0.5);
+  });
+
+  test('possession credits the team with the ball', () => {
+    const withBall = liveWinProbability(state({ period: 4, clockSeconds: 300, possession: 'away' }), 0, SIGMA);
+    expect(withBall.fairSpreadHma).toBe(-LIVE_WIN_PROB_CONFIG.possessionPoints);
+  });
+
+  test('final scores and ties at the end of regulation', () => {
+    expect(liveWinProbability(state({ status: 'final', homeScore: 20, awayScore: 24 }), 10, SIGMA).homeWinProb).toBe(0);
+    const tied = liveWinProbability(state({ period: 4, clockSeconds: 0, homeScore: 21, awayScore: 21 }), 7, SIGMA);
+    expect(tied.secondsRemaining).toBe(LIVE_WIN_PROB_CONFIG.overtimeEquivalentSeconds);
+    expect(tied.homeWinProb).toBeGreaterThan(0.5);
+    expect(tied.homeWinProb).toBeLessThan(0.7);
+    const over = liveWinProbability(state({ period: 4, clockSeconds: 0, homeScore: 24, awayScore: 21 }), 7, SIGMA);
+    expect(over.homeWinProb).toBe(1);
+  });
+});
+
+describe('buildLiveTrajectory / alignLiveLines', () => {
+  const updates = [
+    { ...state({ period: 2, clockSeconds: 0, homeScore: 14, awayScore: 3 }), recordedAt: '2025-11-15T21:00:00Z' },
+    { ...state({ period: 1, clockSeconds: 300, homeScore: 7 }), recordedAt: '2025-11-15T20:20:00Z' },
+    { ...state({ status: 'final', period: 4, clockSeconds: 0, homeScore: 28, awayScore: 17 }), recordedAt: '2025-11-15T23:00:00Z' },
+  ];
+
+  test('starts at kickoff and follows the updates in time order', () => {
+    const trajectory = buildLiveTrajectory(updates, 3, SIGMA);
+    expect(trajectory.map(p => p.minute)).toEqual([0, 10, 30, 60]);
+    expect(trajectory[0].homeWinProb).toBeCloseTo(computeHomeWinProb(3, SIGMA), 4);
+    expect(trajectory[3].homeWinProb).toBe(1);
+    expect(buildLiveTrajectory([], 3, SIGMA)).toEqual([]);
+  });
+
+  test('lines land on the latest update before them', () => {
+    const trajectory = buildLiveTrajectory(updates, 3, SIGMA);
+    const lines = alignLiveLines([
+      { timestamp: '2025-11-15T21:30:00Z', bookName: 'DK', spreadHma: 13.5 },
+      { timestamp: '2025-11-15T19:00:00Z', bookName: 'DK', spreadHma: 3 },
+    ], trajectory);
+    expect(lines.map(l => l.minute)).toEqual([null, 30]);
+  });
+});
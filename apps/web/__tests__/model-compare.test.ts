@@ -0,0 +1,120 @@
+/**
+ * Unit tests for model-compare.ts
+ * Row normalization, ATS grading, coefficient diffs and disagreement records
+ */
+
+import {
+  ComparedCalibration,
+  ComparisonGame,
+  calibrationFromRow,
+  compareCalibrations,
+  gradeAts,
+  pickSide,
+  predictCalibration,
+} from '../lib/model-compare';
+
+function calibration(id: string, overrides: Partial<ComparedCalibration> = {}): ComparedCalibration {
+  return calibrationFromRow({
+    id,
+    modelVersion: id,
+    fitLabel: 'core',
+    season: 2025,
+    featureVersion: 'fe_v1',
+    createdAt: new Date('2025-11-01T00:00:00Z'),
+    intercept: 0,
+    coefficients: { ratingDiffV2: { standardized: 5, original: 1 } },
+    ...overrides,
+  });
+}
+
+function game(gameId: string, marketSpread: number, actualMargin: number | null, predictions: Record<string, number | null>): ComparisonGame {
+  return { gameId, season: 2025, week: 5, matchup: `${gameId} away @ home`, marketSpread, actualMargin, predictions };
+}
+
+describe('calibrationFromRow', () => {
+  test('reads calibration CLI coefficients on the original scale', () => {
+    const c = calibrationFromRow({
+      id: 'a', modelVersion: 'cal', fitLabel: 'core', season: 2025, featureVersion: 'fe_v1', createdAt: new Date(),
+      intercept: '1.5',
+      coefficients: { ratingDiffV2: { standardized: 9, original: 0.9 }, ratingDiffV2Sq: { standardized: 1, original: 0.01 } },
+      walkForwardRmse: '8.25',
+      residualSummary: { bySpread: [{ label: '0-7', count: 10, meanResidual: 0.1, mae: 3 }] },
+    });
+    expect(c.intercept).toBe(1.5);
+    expect(c.coefficients).toEqual({ ratingDiffV2: 0.9, ratingDiffV2Sq: 0.01 });
+    expect(c.metrics.walkForwardRmse).toBe(8.25);
+    expect(c.unsupportedFeatures).toEqual([]);
+    expect(predictCalibration(c, { ratingDiffV2: 10 })).toBeCloseTo(1.5 + 9 + 1, 10);
+  });
+
+  test('maps registry coefficients to the Core V1 features', () => {
+    const c = calibrationFromRow({
+      id: 'b', modelVersion: 'core_v1_x', fitLabel: 'core_v1', season: 2025, featureVersion: 'fe_v1', createdAt: new Date(),
+      intercept: 0,
+      coefficients: { beta0: -0.5, betaRatingDiff: 7, betaHfa: 1.1 },
+    });
+    expect(c.intercept).toBe(-0.5);
+    expect(c.coefficients).toEqual({ ratingDiffBlend: 7, hfaPoints: 1.1 });
+  });
+
+  test('legacy feature names make a fit unpredictable', () => {
+    const c = calibration('legacy', { coefficients: { rating_blend: { standardized: 1, original: 2 } } as any });
+    expect(c.unsupportedFeatures).toEqual(['rating_blend']);
+    expect(predictCalibration(c, { ratingDiffV2: 3 })).toBeNull();
+  });
+});
+
+describe('ATS helpers', () => {
+  test('sides against the market respect the minimum edge', () => {
+    expect(pickSide(7, 3)).toBe('home');
+    expect(pickSide(-1, 3)).toBe('away');
+    expect(pickSide(3.5, 3, 1)).toBeNull();
+  });
+
+  test('grades HMA spreads', () => {
+    expect(gradeAts('home', 3, 7)).toBe('win');
+    expect(gradeAts('away', 3, 7)).toBe('loss');
+    expect(gradeAts('away', -3, -10)).toBe('win');
+    expect(gradeAts('home', 3, 3)).toBe('push');
+  });
+});
+
+describe('compareCalibrations', () => {
+  const a = calibration('a', { trainingRowIds: ['g1'] } as any);
+  const b = calibration('b', { coefficients: { ratingDiffV2: { standardized: 2, original: 0.5 }, hfaPoints: { standardized: 1, original: 1 } } } as any);
+
+  const games = [
+    game('g1', 3, 10, { a: 6, b: 1 }),   // a home (win), b away (loss)
+    game('g2', -2, -1, { a: 0, b: 4 }),  // both home (win) - agreement
+    game('g3', 0, -7, { a: -3, b: 8 }),  // a away (win), b home (loss)
+    game('g4', 1, null, { a: 5, b: -5 }), // disagreement, not final
+  ];
+
+  test('lists disagreements by prediction gap and grades them', () => {
+    const result = compareCalibrations([a, b], games);
+    expect(result.gamesCompared).toBe(4);
+    expect(result.disagreements.map(d => d.gameId)).toEqual(['g3', 'g4', 'g1']);
+    expect(result.atsOnDisagreements.a).toEqual({ wins: 2, losses: 0, pushes: 0, winRate: 1 });
+    expect(result.atsOnDisagreements.b).toEqual({ wins: 0, losses: 2, pushes: 0, winRate: 0 });
+    expect(result.atsAll.a.wins).toBe(3);
+
+    const g1 = result.disagreements.find(d => d.gameId === 'g1')!;
+    expect(g1.picks.a.inSample).toBe(true);
+    expect(g1.picks.b.inSample).toBe(false);
+    expect(g1.picks.a.edge).toBe(3);
+  });
+
+  test('a minimum edge turns small leans into passes', () => {
+    const result = compareCalibrations([a, b], games, 2.5);
+    // g1: a +3 home, b -2 pass → no longer a disagreement
+    expect(result.disagreements.map(d => d.gameId)).not.toContain('g1');
+  });
+
+  test('coefficient diffs cover every feature, intercept first then widest range', () => {
+    const result = compareCalibrations([a, b], []);
+    expect(result.coefficientDiffs.map(d => d.feature)).toEqual(['intercept', 'ratingDiffV2', 'hfaPoints']);
+    expect(result.coefficientDiffs[1].range).toBeCloseTo(0.5, 10);
+    expect(result.coefficientDiffs[2].values).toEqual({ a: null, b: 1 });
+    expect(result.calibrations[0].label).toBe('a/core');
+  });
+});
@@ -0,0 +1,193 @@
+/**
+ * Unit tests for model-registry.ts
+ * Version resolution (active row vs bundled fallback, explicit versions, asOf replays)
+ * and activation, against an in-memory model_calibration table
+ */
+
+import {
+  BUNDLED_CORE_ARTIFACTS,
+  BUNDLED_MODEL_VERSION,
+  CoreModelArtifacts,
+  activateCoreModel,
+  clearModelRegistryCache,
+  getActiveCoreModel,
+  listCoreModels,
+  parseCoreModelArtifacts,
+  registerCoreModel,
+  resolveCoreModel,
+} from '../lib/model-registry';
+
+const mockRows: any[] = [];
+
+jest.mock('../lib/prisma', () => {
+  const matches = (row: any, where: any) =>
+    Object.entries(where).every(([key, value]: [string, any]) =>
+      key === 'modelVersion_fitLabel'
+        ? row.modelVersion === value.modelVersion && row.fitLabel === value.fitLabel
+        : value?.lte instanceof Date
+          ? row[key] !== null && row[key] <= value.lte
+          : row[key] === value
+    );
+  const byActivatedDesc = (a: any, b: any) =>
+    (b.activatedAt?.getTime() ?? 0) - (a.activatedAt?.getTime() ?? 0);
+
+  const modelCalibration = {
+    findUnique: async ({ where }: any) => mockRows.find(row => matches(row, where)) ?? null,
+    findFirst: async ({ where }: any) => mockRows.filter(row => matches(row, where)).sort(byActivatedDesc)[0] ?? null,
+    findMany: async ({ where }: any) => mockRows.filter(row => matches(row, where)),
+    update: async ({ where, data }: any) => Object.assign(mockRows.find(row => matches(row, where)), data),
+    updateMany: async ({ where, data }: any) => {
+      const hits = mockRows.filter(row => matches(row, where));
+      hits.forEach(row => Object.assign(row, data));
+      return { count: hits.length };
+    },
+    upsert: async ({ where, update, create }: any) => {
+      const existing = mockRows.find(row => matches(row, where));
+      if (existing) return Object.assign(existing, update);
+      const row = { id: `row-${mockRows.length + 1}`, isActive: false, activatedAt: null, createdAt: new Date(), ...create };
+      mockRows.push(row);
+      return row;
+    },
+  };
+  return { prisma: { modelCalibration, $transaction: (ops: Promise<unknown>[]) => Promise.all(ops) } };
+});
+
+function artifacts(beta0: number): CoreModelArtifacts {
+  return { ...BUNDLED_CORE_ARTIFACTS, coefficients: { beta0, betaRatingDiff: 1.1, betaHfa: 0.9 } };
+}
+
+async function register(modelVersion: string, season: number, beta0: number, activate = false) {
+  await registerCoreModel({ modelVersion, season, featureVersion: 'fe_v1', artifacts: artifacts(beta0), activate });
+}
+
+beforeEach(() => {
+  mockRows.length = 0;
+  clearModelRegistryCache();
+});
+
+describe('active version vs bundled fallback', () => {
+  test('an empty registry serves the bundled model', async () => {
+    const model = await resolveCoreModel(2025);
+    expect(model.modelVersion).toBe(BUNDLED_MODEL_VERSION);
+    expect(model.source).toBe('bundled');
+    expect(model.coefficients).toEqual(BUNDLED_CORE_ARTIFACTS.coefficients);
+  });
+
+  test('a registered but inactive version does not replace the bundled model', async () => {
+    await register('core_v1_2025_a', 2025, 0.5);
+    expect((await getActiveCoreModel(2025)).modelVersion).toBe(BUNDLED_MODEL_VERSION);
+  });
+
+  test('the active version is served for its season only', async () => {
+    await register('core_v1_2025_a', 2025, 0.5, true);
+
+    const model = await resolveCoreModel(2025);
+    expect(model.modelVersion).toBe('core_v1_2025_a');
+    expect(model.source).toBe('registry');
+    expect(model.isActive).toBe(true);
+    expect(model.coefficients.beta0).toBe(0.5);
+
+    expect((await resolveCoreModel(2024)).modelVersion).toBe(BUNDLED_MODEL_VERSION);
+  });
+});
+
+describe('explicit modelVersion', () => {
+  test('an inactive version is still servable by name', async () => {
+    await register('core_v1_2025_a', 2025, 0.5, true);
+    await register('core_v1_2025_b', 2025, -0.25);
+
+    const model = await resolveCoreModel(2025, 'core_v1_2025_b');
+    expect(model.isActive).toBe(false);
+    expect(model.coefficients.beta0).toBe(-0.25);
+  });
+
+  test('the bundled version name resolves without a registry row', async () => {
+    await register('core_v1_2025_a', 2025, 0.5, true);
+    expect((await resolveCoreModel(2025, BUNDLED_MODEL_VERSION)).source).toBe('bundled');
+  });
+
+  test('an unknown version is an error, not a silent fallback', async () => {
+    await expect(resolveCoreModel(2025, 'core_v1_missing')).rejects.toThrow('Unknown model version: core_v1_missing');
+  });
+
+  test('the bundled version name cannot be registered', async () => {
+    await expect(register(BUNDLED_MODEL_VERSION, 2025, 0.5)).rejects.toThrow('reserved');
+  });
+});
+
+describe('activateCoreModel', () => {
+  test('activating a version deactivates the previous one for that season', async () => {
+    await register('core_v1_2025_a', 2025, 0.5, true);
+    await register('core_v1_2024_a', 2024, 0.1, true);
+    await register('core_v1_2025_b', 2025, -0.25);
+
+    await activateCoreModel('core_v1_2025_b');
+
+    const active2025 = (await listCoreModels(2025)).filter(m => m.isActive).map(m => m.modelVersion);
+    expect(active2025).toEqual(['core_v1_2025_b']);
+    expect((await resolveCoreModel(2025)).coefficients.beta0).toBe(-0.25);
+    // Other seasons keep their active version
+    expect((await resolveCoreModel(2024)).modelVersion).toBe('core_v1_2024_a');
+  });
+
+  test('activating an unknown version fails and leaves the active one in place', async () => {
+    await register('core_v1_2025_a', 2025, 0.5, true);
+    await expect(activateCoreModel('core_v1_missing')).rejects.toThrow('Unknown model version');
+    expect((await resolveCoreModel(2025)).modelVersion).toBe('core_v1_2025_a');
+  });
+});
+
+describe('asOf replays', () => {
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  async function activateAt(modelVersion: string, at: string) {
+    jest.useFakeTimers({ now: new Date(at) });
+    await activateCoreModel(modelVersion);
+    jest.useRealTimers();
+  }
+
+  test('serves the version that was active at asOf, not the current one', async () => {
+    await register('core_v1_2025_a', 2025, 0.5);
+    await register('core_v1_2025_b', 2025, -0.25);
+    await activateAt('core_v1_2025_a', '2025-09-01T00:00:00Z');
+    await activateAt('core_v1_2025_b', '2025-10-15T00:00:00Z');
+
+    expect((await resolveCoreModel(2025)).modelVersion).toBe('core_v1_2025_b');
+    const replay = await resolveCoreModel(2025, null, new Date('2025-10-01T00:00:00Z'));
+    expect(replay.modelVersion).toBe('core_v1_2025_a');
+    expect(replay.coefficients.beta0).toBe(0.5);
+    expect((await resolveCoreModel(2025, null, new Date('2025-10-20T00:00:00Z'))).modelVersion).toBe('core_v1_2025_b');
+  });
+
+  test('asOf before any activation serves the bundled model', async () => {
+    await register('core_v1_2025_a', 2025, 0.5);
+    await activateAt('core_v1_2025_a', '2025-09-01T00:00:00Z');
+    expect((await getActiveCoreModel(2025, new Date('2025-08-15T00:00:00Z'))).source).toBe('bundled');
+  });
+
+  test('an explicit version ignores asOf', async () => {
+    await register('core_v1_2025_a', 2025, 0.5);
+    await activateAt('core_v1_2025_a', '2025-09-01T00:00:00Z');
+    expect((await resolveCoreModel(2025, 'core_v1_2025_a', new Date('2025-08-15T00:00:00Z'))).modelVersion).toBe('core_v1_2025_a');
+  });
+});
+
+describe('parseCoreModelArtifacts', () => {
+  test('rejects blobs without numeric coefficients', () => {
+    expect(() => parseCoreModelArtifacts(null)).toThrow('Invalid Core V1 coefficients format');
+    expect(() => parseCoreModelArtifacts([1, 2])).toThrow('Invalid Core V1 coefficients format');
+    expect(() => parseCoreModelArtifacts({ ...BUNDLED_CORE_ARTIFACTS, coefficients: { beta0: '1' } }))
+      .toThrow('Invalid Core V1 coefficients format');
+  });
+
+  test('rejects a blend without positive normalization spreads', () => {
+    const blend = { ...BUNDLED_CORE_ARTIFACTS.blend, normalization: { ...BUNDLED_CORE_ARTIFACTS.blend.normalization, v2Std: 0 } };
+    expect(() => parseCoreModelArtifacts({ ...BUNDLED_CORE_ARTIFACTS, blend })).toThrow('Invalid rating blend config');
+  });
+
+  test('round-trips the bundled artifacts', () => {
+    expect(parseCoreModelArtifacts(JSON.parse(JSON.stringify(BUNDLED_CORE_ARTIFACTS)))).toEqual(BUNDLED_CORE_ARTIFACTS);
+  });
+});
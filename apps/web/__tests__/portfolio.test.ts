@@ -0,0 +1,98 @@
+/**
+ * Unit tests for portfolio.ts
+ * Portfolio resolution, the bet filter per portfolio, view/manage rules for
+ * house and user rows, and when a house bet can be tailed
+ */
+
+import { Principal } from '../lib/auth';
+import {
+  canManage,
+  canView,
+  newRowOwner,
+  portfolioBetWhere,
+  resolvePortfolioScope,
+  tailBlockedReason,
+} from '../lib/portfolio';
+
+const bettor: Principal = { userId: 'u1', actor: 'a@example.com', role: 'bettor', via: 'session' };
+const otherBettor: Principal = { userId: 'u2', actor: 'b@example.com', role: 'bettor', via: 'token' };
+const admin: Principal = { userId: 'u9', actor: 'admin@example.com', role: 'admin', via: 'session' };
+const adminSecret: Principal = { userId: null, actor: 'admin-secret', role: 'admin', via: 'secret' };
+
+describe('resolvePortfolioScope', () => {
+  test('defaults to mine for a signed-in user and house otherwise', () => {
+    expect(resolvePortfolioScope(null, bettor)).toEqual({ portfolio: 'mine', userId: 'u1' });
+    expect(resolvePortfolioScope(null, null)).toEqual({ portfolio: 'house', userId: null });
+    expect(resolvePortfolioScope('', adminSecret)).toEqual({ portfolio: 'house', userId: null });
+  });
+
+  test('house is readable by anyone', () => {
+    expect(resolvePortfolioScope('house', bettor)).toEqual({ portfolio: 'house', userId: null });
+    expect(resolvePortfolioScope('house', null)).toEqual({ portfolio: 'house', userId: null });
+  });
+
+  test('rejects unknown portfolios and mine without a user', () => {
+    expect(resolvePortfolioScope('everyone', bettor)).toHaveProperty('error');
+    expect(resolvePortfolioScope('mine', null)).toHaveProperty('error');
+    expect(resolvePortfolioScope('mine', adminSecret)).toHaveProperty('error');
+  });
+});
+
+describe('portfolioBetWhere', () => {
+  test('house is unowned strategy-run bets; mine is every bet the user owns', () => {
+    expect(portfolioBetWhere({ portfolio: 'house', userId: null })).toEqual({ userId: null, source: 'strategy_run' });
+    expect(portfolioBetWhere({ portfolio: 'mine', userId: 'u1' })).toEqual({ userId: 'u1' });
+  });
+});
+
+describe('canView / canManage', () => {
+  test('house rows are public but only admins change them', () => {
+    expect(canView(null, null)).toBe(true);
+    expect(canView(null, bettor)).toBe(true);
+    expect(canManage(null, bettor)).toBe(false);
+    expect(canManage(null, admin)).toBe(true);
+    expect(canManage(null, adminSecret)).toBe(true);
+  });
+
+  test("a user's rows are visible to and managed by that user and admins", () => {
+    expect(canView('u1', bettor)).toBe(true);
+    expect(canView('u1', otherBettor)).toBe(false);
+    expect(canView('u1', null)).toBe(false);
+    expect(canView('u1', admin)).toBe(true);
+    expect(canManage('u1', bettor)).toBe(true);
+    expect(canManage('u1', otherBettor)).toBe(false);
+    expect(canManage('u1', admin)).toBe(true);
+  });
+});
+
+describe('newRowOwner', () => {
+  test("new rows go to the caller's own portfolio by default", () => {
+    expect(newRowOwner(undefined, bettor)).toEqual({ userId: 'u1' });
+    expect(newRowOwner('mine', admin)).toEqual({ userId: 'u9' });
+  });
+
+  test('only admins can add to the house', () => {
+    expect(newRowOwner('house', admin)).toEqual({ userId: null });
+    expect(newRowOwner(undefined, adminSecret)).toEqual({ userId: null });
+    expect(newRowOwner('house', bettor)).toHaveProperty('error');
+  });
+});
+
+describe('tailBlockedReason', () => {
+  const now = new Date('2025-10-04T12:00:00Z');
+  const openGame = { date: new Date('2025-10-04T19:30:00Z'), status: 'scheduled' };
+  const houseBet = { userId: null, result: null };
+
+  test('an ungraded house bet on a game that has not kicked off can be tailed', () => {
+    expect(tailBlockedReason(houseBet, openGame, now)).toBeNull();
+  });
+
+  test('blocks user bets, graded bets and started games', () => {
+    expect(tailBlockedReason({ userId: 'u2', result: null }, openGame, now)).toBe('Only house bets can be tailed');
+    expect(tailBlockedReason({ userId: null, result: 'win' }, openGame, now)).toBe('Bet is already graded');
+    expect(tailBlockedReason(houseBet, { ...openGame, status: 'in_progress' }, now)).toBe('Game has already kicked off');
+    expect(tailBlockedReason(houseBet, { ...openGame, date: new Date('2025-10-04T11:00:00Z') }, now)).toBe(
+      'Game has already kicked off'
+    );
+  });
+});
@@ -0,0 +1,111 @@
+/**
+ * Unit tests for rating-snapshots.ts
+ * Replaying ratings, unit grades and per-row snapshots written by successive runs
+ */
+
+import { latestAsOf, latestPerKeyAsOf, pickRatingAsOf } from '../lib/rating-snapshots';
+
+interface RatingRow {
+  teamId: string;
+  modelVersion: string;
+  week: number;
+  powerRating: number;
+  createdAt: Date;
+}
+
+function rating(modelVersion: string, week: number, powerRating: number, createdAt: string): RatingRow {
+  return { teamId: 'ohio-state', modelVersion, week, powerRating, createdAt: new Date(createdAt) };
+}
+
+// Weekly v1 runs: Sunday after weeks 5, 6 and 7
+const v1Runs = [
+  rating('v1', 5, 18.2, '2025-10-05T12:00:00Z'),
+  rating('v1', 6, 19.6, '2025-10-12T12:00:00Z'),
+  rating('v1', 7, 21.1, '2025-10-19T12:00:00Z'),
+];
+
+describe('latestAsOf', () => {
+  test('replaying a date before the latest run returns the run live at that date', () => {
+    const row = latestAsOf(v1Runs, new Date('2025-10-16T23:30:00Z'));
+    expect(row?.week).toBe(6);
+    expect(row?.powerRating).toBe(19.6);
+  });
+
+  test('a run written exactly at asOf is included', () => {
+    expect(latestAsOf(v1Runs, new Date('2025-10-12T12:00:00Z'))?.week).toBe(6);
+  });
+
+  test('asOf after every run returns the latest run', () => {
+    expect(latestAsOf(v1Runs, new Date('2025-11-01T00:00:00Z'))?.week).toBe(7);
+  });
+
+  test('asOf before the first run is missing rather than leaking a later run', () => {
+    expect(latestAsOf(v1Runs, new Date('2025-10-01T00:00:00Z'))).toBeNull();
+  });
+
+  test('null asOf returns the latest row regardless of input order', () => {
+    expect(latestAsOf([...v1Runs].reverse(), null)?.week).toBe(7);
+  });
+
+  test('unit grades rows replay the same way', () => {
+    const grades = [
+      { offRunGrade: 0.4, createdAt: new Date('2025-10-06T09:00:00Z') },
+      { offRunGrade: 0.9, createdAt: new Date('2025-10-13T09:00:00Z') },
+    ];
+    expect(latestAsOf(grades, new Date('2025-10-10T00:00:00Z'))?.offRunGrade).toBe(0.4);
+  });
+});
+
+describe('pickRatingAsOf', () => {
+  const v2Runs = [
+    rating('v2', 4, 15.0, '2025-09-28T12:00:00Z'),
+    rating('v2', 6, 16.4, '2025-10-12T12:00:00Z'),
+  ];
+  const rows = [...v2Runs, ...v1Runs];
+
+  test('prefers the first version with a row at asOf', () => {
+    const row = pickRatingAsOf(rows, ['v1', 'v2'], new Date('2025-10-14T00:00:00Z'));
+    expect(row?.modelVersion).toBe('v1');
+    expect(row?.week).toBe(6);
+  });
+
+  test('falls back to the next version when the first has only later runs', () => {
+    const row = pickRatingAsOf(rows, ['v1', 'v2'], new Date('2025-10-02T00:00:00Z'));
+    expect(row?.modelVersion).toBe('v2');
+    expect(row?.week).toBe(4);
+  });
+
+  test('missing when no version has a row at asOf', () => {
+    expect(pickRatingAsOf(rows, ['v1', 'v2'], new Date('2025-09-01T00:00:00Z'))).toBeNull();
+  });
+
+  test('live rows (null asOf) still follow the version order', () => {
+    const live = [rating('v2', 7, 17.0, '2025-10-19T13:00:00Z'), rating('v1', 7, 21.1, '2025-10-19T12:00:00Z')];
+    expect(pickRatingAsOf(live, ['v1', 'v2'], null)?.modelVersion).toBe('v1');
+    expect(pickRatingAsOf(live, ['v2'], null)?.powerRating).toBe(17.0);
+  });
+});
+
+describe('latestPerKeyAsOf', () => {
+  // Injury snapshots: QB upgraded from questionable to out after the Thursday replay point
+  const injuries = [
+    { injuryId: 'qb', severity: 'QUESTIONABLE', createdAt: new Date('2025-10-14T15:00:00Z') },
+    { injuryId: 'wr', severity: 'OUT', createdAt: new Date('2025-10-15T15:00:00Z') },
+    { injuryId: 'qb', severity: 'OUT', createdAt: new Date('2025-10-17T15:00:00Z') },
+  ];
+
+  test('each key replays its own latest row at asOf', () => {
+    const rows = latestPerKeyAsOf(injuries, row => row.injuryId, new Date('2025-10-16T12:00:00Z'));
+    expect(rows.map(row => [row.injuryId, row.severity])).toEqual([['qb', 'QUESTIONABLE'], ['wr', 'OUT']]);
+  });
+
+  test('keys first written after asOf are missing', () => {
+    const rows = latestPerKeyAsOf(injuries, row => row.injuryId, new Date('2025-10-14T20:00:00Z'));
+    expect(rows.map(row => row.injuryId)).toEqual(['qb']);
+  });
+
+  test('null asOf returns the latest row per key', () => {
+    const rows = latestPerKeyAsOf(injuries, row => row.injuryId, null);
+    expect(rows.find(row => row.injuryId === 'qb')?.severity).toBe('OUT');
+  });
+});
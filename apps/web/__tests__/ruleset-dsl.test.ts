@@ -0,0 +1,89 @@
+/**
+ * Unit tests for ruleset-dsl.ts
+ * Legacy upgrade, validation and rule evaluation
+ */
+
+import {
+  upgradeLegacyParameters,
+  validateRulesetParameters,
+  evaluateRule,
+  SlateFacts,
+} from '../lib/ruleset-dsl';
+
+function makeFacts(overrides: Partial<SlateFacts> = {}): SlateFacts {
+  return {
+    spreadEdge: 0,
+    totalEdge: 0,
+    moneylineEdge: null,
+    maxEdge: 0,
+    confidence: 'A',
+    isDog: false,
+    isFavorite: true,
+    isConferenceGame: true,
+    neutralSite: false,
+    windMph: null,
+    lineMove: null,
+    hybridConflictType: null,
+    teams: ['alabama', 'georgia'],
+    ...overrides,
+  };
+}
+
+describe('upgradeLegacyParameters', () => {
+  const legacy = {
+    markets: ['spread', 'total'],
+    minSpreadEdge: 2.0,
+    minTotalEdge: 3.0,
+    confidenceIn: ['A', 'B'],
+    excludeTeams: ['georgia'],
+    maxGamesPerWeek: 5,
+  };
+
+  test('keeps v1 semantics: any market edge OR, then tier and team filters', () => {
+    const params = upgradeLegacyParameters(legacy);
+    expect(params.version).toBe(2);
+    expect(params.maxGamesPerWeek).toBe(5);
+
+    const rules = params.rules;
+    // Spread edge clears, but Georgia is excluded
+    expect(evaluateRule(rules, makeFacts({ spreadEdge: 2.5 }))).toBe(false);
+    // Spread edge clears, no excluded teams
+    expect(evaluateRule(rules, makeFacts({ spreadEdge: 2.5, teams: ['alabama', 'lsu'] }))).toBe(true);
+    // Neither edge clears
+    expect(evaluateRule(rules, makeFacts({ spreadEdge: 1.0, totalEdge: 2.0, teams: ['lsu'] }))).toBe(false);
+    // Tier C is filtered out
+    expect(evaluateRule(rules, makeFacts({ totalEdge: 4.0, confidence: 'C', teams: ['lsu'] }))).toBe(false);
+  });
+
+  test('upgraded parameters validate', () => {
+    expect(validateRulesetParameters(legacy).valid).toBe(true);
+  });
+});
+
+describe('validateRulesetParameters', () => {
+  test('rejects unknown fields and wrong operators', () => {
+    const result = validateRulesetParameters({
+      version: 2,
+      markets: ['spread'],
+      maxGamesPerWeek: null,
+      rules: {
+        type: 'and',
+        rules: [
+          { type: 'predicate', field: 'bogus', op: 'gte', value: 1 },
+          { type: 'predicate', field: 'confidence', op: 'gte', value: 1 },
+        ],
+      },
+    });
+    expect(result.valid).toBe(false);
+    expect('errors' in result && result.errors).toHaveLength(2);
+  });
+});
+
+describe('evaluateRule', () => {
+  test('unknown facts never satisfy a predicate, but NOT of one does', () => {
+    const windy = { type: 'predicate' as const, field: 'windMph' as const, op: 'gt' as const, value: 15 };
+    expect(evaluateRule(windy, makeFacts())).toBe(false);
+    expect(evaluateRule({ type: 'not', rule: windy }, makeFacts())).toBe(true);
+    expect(evaluateRule({ type: 'not', rule: windy }, makeFacts({ windMph: 20 }))).toBe(false);
+  });
+});
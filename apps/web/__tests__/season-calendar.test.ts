@@ -0,0 +1,100 @@
+/**
+ * Unit tests for season-calendar.ts
+ * Week layout (week 0 through the CFP title game), timezone handling, fitting to
+ * stored games and current-week resolution
+ */
+
+import {
+  applyGameWeeks,
+  buildSeasonCalendar,
+  chicagoTime,
+  formatCalendarDate,
+  resolveCurrentWeek,
+  seasonForDate,
+  upcomingWeek,
+  weekForDate,
+} from '../lib/season-calendar';
+
+const calendar2024 = buildSeasonCalendar(2024);
+const week = (n: number) => calendar2024.weeks.find(w => w.week === n)!;
+
+describe('buildSeasonCalendar', () => {
+  test('week 0 and week 1 around Labor Day, Tuesday through Monday', () => {
+    expect(week(0)).toMatchObject({ phase: 'week0', label: 'Week 0' });
+    expect(formatCalendarDate(week(0).start)).toBe('2024-08-20');
+    expect(formatCalendarDate(week(1).start)).toBe('2024-08-27');
+    // Labor Day Monday belongs to week 1
+    expect(formatCalendarDate(week(1).end)).toBe('2024-09-02');
+  });
+
+  test('championship week is the first Saturday in December', () => {
+    expect(week(14).phase).toBe('regular');
+    expect(week(15)).toMatchObject({ phase: 'championship', label: 'Conference Championships' });
+    expect(formatCalendarDate(week(15).start)).toBe('2024-12-03');
+  });
+
+  test('postseason weeks carry bowls and CFP rounds through the title game', () => {
+    const postseason = calendar2024.weeks.filter(w => w.phase === 'postseason');
+    expect(postseason.map(w => w.week)).toEqual([16, 17, 18, 19, 20, 21]);
+    expect(week(16).rounds).toEqual(['bowls']);
+    expect(week(17).rounds).toEqual(['bowls', 'cfp_first_round']);
+    expect(week(19).label).toBe('Bowls · CFP Quarterfinals');
+    expect(week(20).rounds).toEqual(['cfp_semifinal']);
+    expect(week(21).rounds).toEqual(['cfp_championship']);
+    // Title game on Monday Jan 20, 2025
+    expect(formatCalendarDate(week(21).end)).toBe('2025-01-20');
+  });
+
+  test('weeks start at Chicago midnight across the DST change', () => {
+    expect(week(1).start).toBe('2024-08-27T05:00:00.000Z');
+    expect(week(15).start).toBe('2024-12-03T06:00:00.000Z');
+    expect(chicagoTime(2024, 10, 3, 12).toISOString()).toBe('2024-11-03T18:00:00.000Z');
+  });
+
+  test('betting window opens the Sunday before the Saturday', () => {
+    expect(week(5).bettingWindow.opensAt).toBe('2024-09-22T15:00:00.000Z');
+  });
+});
+
+describe('seasonForDate', () => {
+  test('January bowls belong to the previous season', () => {
+    expect(seasonForDate(new Date('2025-01-10T18:00:00Z'))).toBe(2024);
+    expect(seasonForDate(new Date('2025-08-23T18:00:00Z'))).toBe(2025);
+  });
+});
+
+describe('applyGameWeeks', () => {
+  // CFBD numbers the Aug 24 games week 1 (no week 0)
+  const fitted = applyGameWeeks(calendar2024, [
+    { week: 1, firstKickoff: new Date('2024-08-24T16:00:00Z'), lastKickoff: new Date('2024-09-03T00:00:00Z'), games: 60 },
+    { week: 2, firstKickoff: new Date('2024-09-07T16:00:00Z'), lastKickoff: new Date('2024-09-08T03:30:00Z'), games: 55 },
+  ]);
+
+  test('widens week spans to the stored games and closes windows at the last kickoff', () => {
+    const one = fitted.weeks.find(w => w.week === 1)!;
+    expect(one.gameCount).toBe(60);
+    expect(one.start).toBe('2024-08-24T16:00:00.000Z');
+    expect(fitted.weeks.find(w => w.week === 2)!.bettingWindow.closesAt).toBe('2024-09-08T03:30:00.000Z');
+    expect(fitted.weeks.find(w => w.week === 0)!.gameCount).toBe(0);
+  });
+
+  test('current week only considers weeks with games once any are stored', () => {
+    expect(resolveCurrentWeek(fitted, new Date('2024-08-22T12:00:00Z')).week).toBe(1);
+    expect(resolveCurrentWeek(fitted, new Date('2024-09-05T12:00:00Z')).week).toBe(2);
+    // After the last stored week: stays on it
+    expect(resolveCurrentWeek(fitted, new Date('2024-10-01T12:00:00Z')).week).toBe(2);
+    expect(weekForDate(fitted, new Date('2024-08-24T20:00:00Z'))!.week).toBe(1);
+  });
+
+  test('upcoming week follows the schedule regardless of stored games', () => {
+    expect(upcomingWeek(fitted, new Date('2024-12-12T12:00:00Z')).week).toBe(16);
+    expect(upcomingWeek(fitted, new Date('2025-03-01T12:00:00Z')).week).toBe(21);
+  });
+});
+
+describe('resolveCurrentWeek without stored games', () => {
+  test('uses the date rules, week 0 included', () => {
+    expect(resolveCurrentWeek(calendar2024, new Date('2024-08-22T12:00:00Z')).week).toBe(0);
+    expect(resolveCurrentWeek(calendar2024, new Date('2024-12-18T12:00:00Z')).week).toBe(17);
+  });
+});
@@ -0,0 +1,144 @@
+/**
+ * Unit tests for season-simulator.ts
+ * Seeded RNG, standings, conference title games and CFP field selection
+ */
+
+import {
+  DEFAULT_SEASON_SIM_CONFIG,
+  SeasonSimConfig,
+  SimGame,
+  SimTeam,
+  createRng,
+  sampleNormal,
+  simulateSeason,
+} from '../lib/season-simulator';
+
+const config: SeasonSimConfig = { ...DEFAULT_SEASON_SIM_CONFIG, iterations: 2000, seed: 7, marginSigma: 16 };
+
+function team(teamId: string, conference: string, strength = 0, pollRank: number | null = null): SimTeam {
+  return { teamId, name: teamId.toUpperCase(), conference, strength, pollRank };
+}
+
+let gameCounter = 0;
+function game(homeTeamId: string, awayTeamId: string, overrides: Partial<SimGame> = {}): SimGame {
+  return {
+    gameId: `g${++gameCounter}`,
+    week: 1,
+    homeTeamId,
+    awayTeamId,
+    conferenceGame: true,
+    isTitleGame: false,
+    homeScore: null,
+    awayScore: null,
+    spreadHma: 0,
+    ...overrides,
+  };
+}
+
+const final = (homeScore: number, awayScore: number): Partial<SimGame> => ({ homeScore, awayScore, spreadHma: null });
+const neutral = () => 0;
+
+describe('RNG', () => {
+  test('the same seed gives the same sequence', () => {
+    const a = createRng(42);
+    const b = createRng(42);
+    const seqA = Array.from({ length: 5 }, () => a());
+    expect(Array.from({ length: 5 }, () => b())).toEqual(seqA);
+    expect(seqA.every(x => x >= 0 && x < 1)).toBe(true);
+  });
+
+  test('normal draws are centred with unit variance', () => {
+    const rng = createRng(1);
+    const draws = Array.from({ length: 20000 }, () => sampleNormal(rng));
+    const mean = draws.reduce((s, x) => s + x, 0) / draws.length;
+    const variance = draws.reduce((s, x) => s + (x - mean) ** 2, 0) / draws.length;
+    expect(Math.abs(mean)).toBeLessThan(0.03);
+    expect(variance).toBeCloseTo(1, 1);
+  });
+});
+
+describe('simulateSeason', () => {
+  test('final games are kept as played', () => {
+    const teams = [team('a', 'Small'), team('b', 'Small'), team('c', 'Small')];
+    const games = [game('a', 'b', final(28, 14)), game('b', 'c', final(21, 20)), game('c', 'a', final(10, 35))];
+    const result = simulateSeason(teams, games, neutral, { ...config, iterations: 50 });
+    const a = result.teams.find(t => t.teamId === 'a')!;
+    expect(a.currentWins).toBe(2);
+    expect(a.expectedWins).toBe(2);
+    expect(a.winDistribution[2]).toBe(1);
+    // Small conference, no title game: the regular-season winner is champion
+    expect(a.confFirstProb).toBe(1);
+    expect(a.titleGameProb).toBe(0);
+    expect(a.confChampProb).toBe(1);
+  });
+
+  test('a heavy favorite almost always wins and runs are reproducible', () => {
+    const teams = [team('a', 'Small'), team('b', 'Small')];
+    const games = [game('a', 'b', { spreadHma: 35 })];
+    const first = simulateSeason(teams, games, neutral, config);
+    const second = simulateSeason(teams, games, neutral, config);
+    expect(second).toEqual(first);
+    expect(first.teams.find(t => t.teamId === 'a')!.expectedWins).toBeGreaterThan(0.97);
+  });
+
+  test('large conferences play the top two in a title game', () => {
+    const ids = ['a', 'b', 'c', 'd', 'e', 'f', 'g', 'h'];
+    const teams = ids.map((id, i) => team(id, 'Big', 10 - 2 * i));
+    const games: SimGame[] = [];
+    ids.forEach((home, i) => ids.slice(i + 1).forEach(away => games.push(game(home, away, { spreadHma: (ids.indexOf(away) - i) * 2 }))));
+    const result = simulateSeason(teams, games, (h, a) => (ids.indexOf(a) - ids.indexOf(h)) * 2, config);
+
+    const sum = (key: 'titleGameProb' | 'confChampProb' | 'confFirstProb') =>
+      result.teams.reduce((s, t) => s + t[key], 0);
+    expect(sum('titleGameProb')).toBeCloseTo(2, 10);
+    expect(sum('confChampProb')).toBeCloseTo(1, 10);
+    expect(sum('confFirstProb')).toBeCloseTo(1, 10);
+    expect(result.conferences[0].hasTitleGame).toBe(true);
+
+    const best = result.teams.find(t => t.teamId === 'a')!;
+    const worst = result.teams.find(t => t.teamId === 'h')!;
+    expect(best.confChampProb).toBeGreaterThan(worst.confChampProb);
+    expect(best.titleGameProb).toBeGreaterThanOrEqual(best.confChampProb);
+
+    // Title game wins count in the full distribution only
+    const regularMean = best.regularSeasonWinDistribution.reduce((s, p, wins) => s + p * wins, 0);
+    expect(best.regularSeasonWinDistribution.length).toBeLessThanOrEqual(8);
+    expect(best.expectedWins - regularMean).toBeCloseTo(best.confChampProb, 10);
+  });
+
+  test('a scheduled title game decides the champion', () => {
+    const ids = ['a', 'b', 'c', 'd', 'e', 'f', 'g', 'h'];
+    const teams = ids.map(id => team(id, 'Big'));
+    const games = [
+      game('a', 'b', final(30, 10)),
+      game('g', 'h', { isTitleGame: true, week: 14, conferenceGame: true, ...final(24, 17) }),
+    ];
+    const result = simulateSeason(teams, games, neutral, { ...config, iterations: 100 });
+    expect(result.teams.find(t => t.teamId === 'g')!.confChampProb).toBe(1);
+    expect(result.teams.find(t => t.teamId === 'h')!.titleGameProb).toBe(1);
+    expect(result.teams.find(t => t.teamId === 'a')!.titleGameProb).toBe(0);
+  });
+
+  test('the CFP field has a fixed size and takes the auto-bid champions', () => {
+    // Eight two-team conferences, each won by its strong team
+    const teams: SimTeam[] = [];
+    const games: SimGame[] = [];
+    for (let c = 0; c < 8; c++) {
+      const strong = team(`s${c}`, `Conf${c}`, 20 - c);
+      const weak = team(`w${c}`, `Conf${c}`, -20 - c);
+      teams.push(strong, weak);
+      games.push(game(strong.teamId, weak.teamId, final(40, 0)));
+    }
+    teams.push(team('ind', 'FBS Independents', 30, 1));
+
+    const result = simulateSeason(teams, games, neutral, { ...config, iterations: 10, cfpFieldSize: 6, cfpAutoBids: 5 });
+    const fieldSize = result.teams.reduce((s, t) => s + t.cfpProb, 0);
+    expect(fieldSize).toBeCloseTo(6, 10);
+    // Five best champions plus the independent at-large
+    expect(result.teams.find(t => t.teamId === 'ind')!.cfpProb).toBe(1);
+    expect(result.teams.find(t => t.teamId === 'ind')!.confChampProb).toBe(0);
+    expect(result.teams.find(t => t.teamId === 's4')!.cfpProb).toBe(1);
+    expect(result.teams.find(t => t.teamId === 's5')!.cfpProb).toBe(0);
+    expect(result.conferences.map(c => c.conference)).not.toContain('FBS Independents');
+  });
+});
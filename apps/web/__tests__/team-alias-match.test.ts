@@ -0,0 +1,57 @@
+/**
+ * Unit tests for team-alias-match.ts
+ * Alias keys, name normalization, similarity and suggestions for unmatched names
+ */
+
+import {
+  aliasKey,
+  diceSimilarity,
+  normalizeTeamName,
+  suggestTeams,
+  TeamCandidate,
+} from '../lib/team-alias-match';
+
+const teams: TeamCandidate[] = [
+  { id: 'appalachian-state', name: 'Appalachian State', mascot: 'Mountaineers' },
+  { id: 'west-virginia', name: 'West Virginia', mascot: 'Mountaineers' },
+  { id: 'ohio-state', name: 'Ohio State', mascot: 'Buckeyes' },
+  { id: 'ohio', name: 'Ohio', mascot: 'Bobcats' },
+  { id: 'san-jose-state', name: 'San José State', mascot: 'Spartans' },
+  { id: 'texas-am', name: 'Texas A&M', mascot: 'Aggies' },
+];
+
+describe('normalization', () => {
+  test('alias keys strip diacritics and unify A&M', () => {
+    expect(aliasKey(' San José State ')).toBe('san jose state');
+    expect(aliasKey('Texas A and M')).toBe('texas a&m');
+  });
+
+  test('similarity form expands St and drops filler words', () => {
+    expect(normalizeTeamName('Ohio St.')).toBe('ohio state');
+    expect(normalizeTeamName('The University of Texas A&M')).toBe('texas a and m');
+  });
+
+  test('dice similarity is 1 for identical and 0 for disjoint names', () => {
+    expect(diceSimilarity('ohio state', 'ohio state')).toBe(1);
+    expect(diceSimilarity('abc', 'xyz')).toBe(0);
+    expect(diceSimilarity('', '')).toBe(0);
+  });
+});
+
+describe('suggestTeams', () => {
+  test('odds-feed names with mascots match name + mascot', () => {
+    const [best] = suggestTeams('Appalachian State Mountaineers', teams);
+    expect(best).toMatchObject({ teamId: 'appalachian-state', score: 1 });
+  });
+
+  test('abbreviations rank the right team first', () => {
+    expect(suggestTeams('Ohio St', teams)[0].teamId).toBe('ohio-state');
+    expect(suggestTeams('San Jose St', teams)[0].teamId).toBe('san-jose-state');
+    expect(suggestTeams('Texas A and M', teams)[0]).toMatchObject({ teamId: 'texas-am', score: 1 });
+  });
+
+  test('respects limit and minimum score', () => {
+    expect(suggestTeams('Ohio', teams, 1)).toHaveLength(1);
+    expect(suggestTeams('Tennessee State Tigers', teams)).toEqual([]);
+  });
+});
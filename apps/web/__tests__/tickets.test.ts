@@ -0,0 +1,240 @@
+/**
+ * Unit tests for tickets.ts
+ * Leg grading through teaser points and postponements, ticket settlement with
+ * pushes and void legs, pricing, the key-number margin distribution and EV
+ */
+
+import {
+  fitKeyNumberWeights,
+  gradeLeg,
+  isKeyNumberWeightsFitted,
+  isStraightBet,
+  isTicketType,
+  legProbabilities,
+  marginDistribution,
+  parlayPrice,
+  settleTicket,
+  teasedLine,
+  teaserPrice,
+  ticketExpectedValue,
+  ticketPnl,
+  validateTicketInput,
+} from '../lib/tickets';
+
+const kickoff = new Date('2025-10-04T19:30:00Z');
+const final = (homeScore: number, awayScore: number) => ({ status: 'final', homeScore, awayScore });
+
+describe('teasedLine', () => {
+  test('spreads and unders move up, overs move down', () => {
+    expect(teasedLine({ marketType: 'spread', side: 'home', line: -7.5 }, 6)).toBe(-1.5);
+    expect(teasedLine({ marketType: 'spread', side: 'away', line: 2.5 }, 7)).toBe(9.5);
+    expect(teasedLine({ marketType: 'total', side: 'over', line: 52.5 }, 6.5)).toBe(46);
+    expect(teasedLine({ marketType: 'total', side: 'under', line: 52.5 }, 6.5)).toBe(59);
+    expect(teasedLine({ marketType: 'moneyline', side: 'home', line: null }, 6)).toBeNull();
+  });
+});
+
+describe('isStraightBet', () => {
+  test('keeps single-game bets and drops tickets', () => {
+    expect(isStraightBet({ gameId: 'g1', marketType: 'spread', side: 'home', game: {} })).toBe(true);
+    expect(isStraightBet({ gameId: 'g1' })).toBe(true);
+    expect(isStraightBet({ gameId: null, marketType: 'parlay', side: null, game: null })).toBe(false);
+    expect(isStraightBet({ gameId: 'g1', marketType: 'teaser' })).toBe(false);
+    expect(isTicketType('teaser')).toBe(true);
+    expect(isTicketType('moneyline')).toBe(false);
+  });
+});
+
+describe('gradeLeg', () => {
+  const homeMinus7 = { marketType: 'spread' as const, side: 'home' as const, line: -7 };
+
+  test('grades spreads after teaser points', () => {
+    expect(gradeLeg(homeMinus7, null, final(24, 17), kickoff)).toBe('push');
+    expect(gradeLeg(homeMinus7, null, final(20, 17), kickoff)).toBe('loss');
+    expect(gradeLeg(homeMinus7, 6, final(20, 17), kickoff)).toBe('win');
+    expect(gradeLeg(homeMinus7, 6, final(18, 17), kickoff)).toBe('push');
+  });
+
+  test('grades totals and moneylines', () => {
+    expect(gradeLeg({ marketType: 'total', side: 'over', line: 50.5 }, 6, final(24, 21), kickoff)).toBe('win');
+    expect(gradeLeg({ marketType: 'total', side: 'under', line: 44 }, null, final(24, 20), kickoff)).toBe('push');
+    expect(gradeLeg({ marketType: 'moneyline', side: 'away', line: null }, null, final(24, 27), kickoff)).toBe('win');
+  });
+
+  test('a game that is not final stays pending, then voids once it is long past kickoff', () => {
+    const postponed = { status: 'scheduled', homeScore: null, awayScore: null };
+    expect(gradeLeg(homeMinus7, null, postponed, kickoff, new Date('2025-10-05T12:00:00Z'))).toBeNull();
+    expect(gradeLeg(homeMinus7, null, postponed, kickoff, new Date('2025-10-07T12:00:00Z'))).toBe('void');
+  });
+});
+
+describe('settleTicket', () => {
+  const parlay = { type: 'parlay' as const, teaserPoints: null, price: 596 };
+  const teaser = { type: 'teaser' as const, teaserPoints: 6, price: 180 };
+
+  test('a losing leg loses the ticket before the other games finish', () => {
+    expect(settleTicket(parlay, [
+      { outcome: 'loss', price: null },
+      { outcome: null, price: null },
+      { outcome: 'win', price: null },
+    ])).toEqual({ result: 'loss', decimal: 0 });
+  });
+
+  test('waits for pending legs', () => {
+    expect(settleTicket(parlay, [{ outcome: 'win', price: null }, { outcome: null, price: null }])).toBeNull();
+  });
+
+  test('pays the booked price when every leg wins', () => {
+    const settled = settleTicket(parlay, [
+      { outcome: 'win', price: null },
+      { outcome: 'win', price: null },
+      { outcome: 'win', price: null },
+    ]);
+    expect(settled!.result).toBe('win');
+    expect(settled!.decimal).toBeCloseTo(6.96, 5);
+  });
+
+  test('a parlay drops pushed and void legs and reprices the rest', () => {
+    const settled = settleTicket(parlay, [
+      { outcome: 'win', price: 150 },
+      { outcome: 'push', price: null },
+      { outcome: 'void', price: null },
+    ]);
+    expect(settled).toEqual({ result: 'win', decimal: 2.5 });
+    expect(settleTicket(parlay, [{ outcome: 'push', price: null }, { outcome: 'void', price: null }])).toEqual({
+      result: 'push',
+      decimal: 1,
+    });
+  });
+
+  test('a teaser drops to the table price for the legs left, and pushes below two legs', () => {
+    const reduced = settleTicket(teaser, [
+      { outcome: 'win', price: null },
+      { outcome: 'win', price: null },
+      { outcome: 'push', price: null },
+    ]);
+    expect(reduced!.result).toBe('win');
+    expect(reduced!.decimal).toBeCloseTo(1 + 100 / 110, 5);
+    expect(settleTicket(teaser, [
+      { outcome: 'win', price: null },
+      { outcome: 'void', price: null },
+      { outcome: 'push', price: null },
+    ])).toEqual({ result: 'push', decimal: 1 });
+  });
+
+  test('ticketPnl is profit at the settled price', () => {
+    expect(ticketPnl({ result: 'win', decimal: 2.5 }, 40)).toBe(60);
+    expect(ticketPnl({ result: 'loss', decimal: 0 }, 40)).toBe(-40);
+    expect(ticketPnl({ result: 'push', decimal: 1 }, 40)).toBe(0);
+  });
+});
+
+describe('prices', () => {
+  test('parlay price is the product of the legs (-110 by default)', () => {
+    expect(parlayPrice([null, null])).toBe(264);
+    expect(parlayPrice([150, -200])).toBe(275);
+  });
+
+  test('teaser prices come from the table', () => {
+    expect(teaserPrice(6, 2)).toBe(-110);
+    expect(teaserPrice(7, 3)).toBe(140);
+    expect(teaserPrice(6, 9)).toBeNull();
+  });
+});
+
+describe('margin distribution', () => {
+  test('sums to one, puts extra mass on key numbers and none on a tie', () => {
+    const masses = marginDistribution(3, 16);
+    const probOf = (points: number) => masses.find(mass => mass.points === points)!.prob;
+    expect(masses.reduce((sum, mass) => sum + mass.prob, 0)).toBeCloseTo(1, 10);
+    expect(probOf(0)).toBe(0);
+    expect(probOf(3)).toBeGreaterThan(probOf(2) * 1.5);
+    expect(probOf(7)).toBeGreaterThan(probOf(8));
+  });
+
+  test('teasing through 3 and 7 gains more than teasing through 8 to 13', () => {
+    const gain = (line: number) => {
+      const model = { spreadHma: -line, total: null };
+      const leg = { marketType: 'spread' as const, side: 'home' as const, line };
+      return legProbabilities(leg, 6, model, 16)!.win - legProbabilities(leg, null, model, 16)!.win;
+    };
+    expect(gain(-7.5)).toBeGreaterThan(gain(-13.5) + 0.02);
+  });
+
+  test('returns null when the model has no number for the market', () => {
+    expect(legProbabilities({ marketType: 'total', side: 'over', line: 50 }, null, { spreadHma: 3, total: null }, 16)).toBeNull();
+  });
+});
+
+describe('key-number weights', () => {
+  test('the shipped weights are an unfitted prior', () => {
+    expect(isKeyNumberWeightsFitted()).toBe(false);
+  });
+
+  test('weights are landings over what a plain normal expects', () => {
+    // Pick'em games, half landing on 3 and half on 10
+    const samples = Array.from({ length: 200 }, (_, i) => ({ modelSpread: 0, actualMargin: i % 2 === 0 ? 3 : -10 }));
+    const fit = fitKeyNumberWeights(samples, 16, [0, 3, 7, 10]);
+    expect(fit.observed).toEqual({ 0: 0, 3: 100, 7: 0, 10: 100 });
+    expect(fit.weights[0]).toBe(0);
+    expect(fit.weights[7]).toBe(0);
+    // Both ± margins count toward |margin|, so expected is two bins of the plain normal
+    expect(fit.expected[3]).toBeCloseTo(200 * 2 * 0.0242, 0);
+    // Same landings, but the normal expects fewer games at 10
+    expect(fit.weights[10]).toBeGreaterThan(fit.weights[3]);
+    expect(fit.weights[3]).toBeCloseTo(fit.observed[3] / fit.expected[3], 2);
+  });
+});
+
+describe('ticketExpectedValue', () => {
+  test('matches the closed form without pushes', () => {
+    const legs = [
+      { probs: { win: 0.55, push: 0, loss: 0.45 }, price: null },
+      { probs: { win: 0.55, push: 0, loss: 0.45 }, price: null },
+    ];
+    const ev = ticketExpectedValue({ type: 'parlay', teaserPoints: null, price: 264 }, legs);
+    expect(ev).toBeCloseTo(0.55 * 0.55 * 3.64 - 1, 10);
+  });
+
+  test('prices a pushed leg as the reduced ticket', () => {
+    const legs = [
+      { probs: { win: 1, push: 0, loss: 0 }, price: null },
+      { probs: { win: 1, push: 0, loss: 0 }, price: null },
+      { probs: { win: 0, push: 1, loss: 0 }, price: null },
+    ];
+    const ev = ticketExpectedValue({ type: 'teaser', teaserPoints: 6, price: 180 }, legs);
+    expect(ev).toBeCloseTo(100 / 110, 10);
+  });
+});
+
+describe('validateTicketInput', () => {
+  const leg = (gameId: string, extra: object = {}) => ({ gameId, marketType: 'spread', side: 'home', line: -7.5, ...extra });
+
+  test('fills in the price and accepts a valid teaser', () => {
+    const result = validateTicketInput({ type: 'teaser', teaserPoints: 6, stake: 110, legs: [leg('g1'), leg('g2')] });
+    expect(result.valid).toBe(true);
+    if (result.valid) {
+      expect(result.data.price).toBe(-110);
+      expect(result.data.legs[0]).toEqual({ gameId: 'g1', marketType: 'spread', side: 'home', line: -7.5, price: null });
+    }
+  });
+
+  test('rejects bad tickets', () => {
+    const errorsOf = (raw: object) => {
+      const result = validateTicketInput(raw);
+      return 'errors' in result ? result.errors : [];
+    };
+    expect(errorsOf({ type: 'parlay', stake: 10, legs: [leg('g1')] })).toContain('A ticket needs at least 2 legs');
+    expect(errorsOf({ type: 'parlay', stake: 10, legs: [leg('g1'), leg('g1')] })).toContain('Leg 2: only one leg per game');
+    expect(errorsOf({ type: 'teaser', teaserPoints: 5, stake: 10, legs: [leg('g1'), leg('g2')] })).toHaveLength(1);
+    expect(errorsOf({
+      type: 'teaser',
+      teaserPoints: 6,
+      stake: 10,
+      legs: [leg('g1'), leg('g2', { marketType: 'moneyline', line: null })],
+    })).toContain('Leg 2: teasers only take spreads and totals');
+    expect(errorsOf({ type: 'parlay', stake: 10, legs: [leg('g1'), leg('g2', { side: 'over' })] })).toContain(
+      'Leg 2: side must be home or away'
+    );
+  });
+});
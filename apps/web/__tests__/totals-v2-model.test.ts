@@ -0,0 +1,128 @@
+/**
+ * Unit tests for totals-v2-model.ts
+ * Pace/efficiency matchups, shrinkage, weather terms and calibration
+ */
+
+import {
+  DEFAULT_TOTALS_V2_CONFIG,
+  LeagueTotalsBaseline,
+  TeamTotalsProfile,
+  TotalsV2CalibrationSample,
+  TotalsV2Config,
+  computeTotalsV2,
+  computeTotalsWeatherFeatures,
+  fitTotalsV2Calibration,
+  isTotalsV2Fitted,
+  shrinkToLeague,
+} from '../lib/totals-v2-model';
+
+const league: LeagueTotalsBaseline = {
+  plays: 70,
+  epa: 0.1,
+  success: 0.42,
+  pointsPerScoringOpp: 4,
+  secondsPerSnap: 26,
+};
+
+function config(overrides: Partial<TotalsV2Config> = {}): TotalsV2Config {
+  return { ...DEFAULT_TOTALS_V2_CONFIG, intercept: 0, scale: 1, shrinkGames: 0, ...overrides };
+}
+
+function profile(overrides: Partial<TeamTotalsProfile> = {}): TeamTotalsProfile {
+  return {
+    teamId: 'team',
+    games: 6,
+    offPlays: 70,
+    defPlays: 70,
+    offEpa: 0.1,
+    defEpa: 0.1,
+    offSuccess: 0.42,
+    defSuccess: 0.42,
+    pointsPerScoringOpp: 4,
+    secondsPerSnap: 26,
+    ...overrides,
+  };
+}
+
+describe('computeTotalsV2', () => {
+  test('league-average teams score base points per play on league plays', () => {
+    const projection = computeTotalsV2(profile({ teamId: 'home' }), profile({ teamId: 'away' }), league, null, config());
+    expect(projection.home.plays).toBeCloseTo(70, 10);
+    expect(projection.home.pointsPerPlay).toBeCloseTo(DEFAULT_TOTALS_V2_CONFIG.pointsPerPlayBase, 10);
+    expect(projection.modelTotal).toBeCloseTo(2 * 70 * DEFAULT_TOTALS_V2_CONFIG.pointsPerPlayBase, 10);
+    expect(projection.weatherAdj).toBeCloseTo(0, 10);
+  });
+
+  test('fast offenses against fast defenses run more plays', () => {
+    const projection = computeTotalsV2(
+      profile({ teamId: 'home', offPlays: 80 }),
+      profile({ teamId: 'away', defPlays: 77 }),
+      league,
+      null,
+      config()
+    );
+    expect(projection.home.plays).toBeCloseTo(80 * 77 / 70, 10);
+    expect(projection.away.plays).toBeCloseTo(70, 10);
+  });
+
+  test('efficient offense against a leaky defense scores more per play', () => {
+    const base = computeTotalsV2(profile(), profile(), league, null, config());
+    const matchup = computeTotalsV2(profile({ offEpa: 0.25 }), profile({ defEpa: 0.2 }), league, null, config());
+    expect(matchup.home.epa).toBeCloseTo(0.35, 10);
+    expect(matchup.home.pointsPerPlay).toBeGreaterThan(base.home.pointsPerPlay);
+    expect(matchup.away.points).toBeCloseTo(base.away.points, 10);
+  });
+
+  test('wind, rain and cold lower the total', () => {
+    const weather = { temperature: 22, windMph: 20, precipProb: 80, source: 'weather' as const };
+    const features = computeTotalsWeatherFeatures(weather, config());
+    expect(features).toEqual({ windExcess: 10, precip: 0.8, coldExcess: 10 });
+
+    const dry = computeTotalsV2(profile(), profile(), league, null, config());
+    const wet = computeTotalsV2(profile(), profile(), league, weather, config());
+    expect(wet.weatherAdj).toBeLessThan(0);
+    expect(wet.modelTotal).toBeCloseTo(dry.modelTotal + wet.weatherAdj, 10);
+    expect(wet.weatherSource).toBe('weather');
+  });
+
+  test('team means shrink toward the league with few games', () => {
+    expect(shrinkToLeague(90, 1, 70, 3)).toBeCloseTo(75, 10);
+    expect(shrinkToLeague(null, 5, 70, 3)).toBe(70);
+    const projection = computeTotalsV2(profile({ games: 0, offPlays: 90 }), profile(), league, null, config({ shrinkGames: 3 }));
+    expect(projection.home.plays).toBeCloseTo(70, 10);
+  });
+});
+
+describe('fitTotalsV2Calibration', () => {
+  test('recovers intercept, scale and weather terms from noiseless closes', () => {
+    const samples: TotalsV2CalibrationSample[] = [];
+    for (let i = 0; i < 80; i++) {
+      const rawTotal = 40 + (i % 20);
+      const weatherFeatures = { windExcess: i % 5, precip: (i % 3) / 2, coldExcess: i % 4 };
+      const closingTotal = 4 + 0.9 * rawTotal - 0.4 * weatherFeatures.windExcess - 3 * weatherFeatures.precip - 0.2 * weatherFeatures.coldExcess;
+      samples.push({ rawTotal, weatherFeatures, closingTotal, actualTotal: closingTotal + (i % 2 === 0 ? 7 : -7) });
+    }
+
+    const fit = fitTotalsV2Calibration(samples, 0);
+    expect(fit.intercept).toBeCloseTo(4, 6);
+    expect(fit.scale).toBeCloseTo(0.9, 6);
+    expect(fit.weather.windPerMph).toBeCloseTo(-0.4, 6);
+    expect(fit.weather.precipPerProb).toBeCloseTo(-3, 6);
+    expect(fit.maeVsClose).toBeCloseTo(0, 6);
+    expect(fit.closeMaeVsActual).toBeCloseTo(7, 10);
+  });
+
+  test('requires enough games', () => {
+    expect(() => fitTotalsV2Calibration([])).toThrow(/at least/);
+  });
+});
+
+describe('isTotalsV2Fitted', () => {
+  test('hand-set priors are not fitted', () => {
+    expect(isTotalsV2Fitted(config({ trainedOn: null }))).toBe(false);
+  });
+
+  test('a calibrated config is fitted', () => {
+    expect(isTotalsV2Fitted(config({ trainedOn: '2025-11-02T10:00:00.000Z' }))).toBe(true);
+  });
+});
@@ -0,0 +1,100 @@
+/**
+ * Unit tests for walk-forward-backtest.ts
+ * Bet grading, CLV sign and the weekly bankroll curve
+ */
+
+import {
+  gradeBacktestBet,
+  betPnl,
+  closingLineValue,
+  buildBankrollCurve,
+  BacktestBet,
+} from '../lib/walk-forward-backtest';
+
+function makeBet(overrides: Partial<BacktestBet> = {}): BacktestBet {
+  return {
+    gameId: 'g1',
+    season: 2024,
+    week: 1,
+    marketType: 'spread',
+    side: 'home',
+    line: -3.5,
+    price: -110,
+    closeLine: null,
+    edge: 2,
+    stake: 100,
+    result: 'win',
+    pnl: 90.91,
+    clv: null,
+    ...overrides,
+  };
+}
+
+describe('gradeBacktestBet', () => {
+  test('spread grades from the bet side perspective', () => {
+    expect(gradeBacktestBet('spread', 'home', -3.5, 24, 20)).toBe('win');
+    expect(gradeBacktestBet('spread', 'away', 3.5, 24, 20)).toBe('loss');
+    expect(gradeBacktestBet('spread', 'away', 4, 24, 20)).toBe('push');
+  });
+
+  test('totals and moneylines', () => {
+    expect(gradeBacktestBet('total', 'over', 44.5, 24, 20)).toBe('loss');
+    expect(gradeBacktestBet('total', 'under', 44.5, 24, 20)).toBe('win');
+    expect(gradeBacktestBet('moneyline', 'away', 150, 17, 21)).toBe('win');
+  });
+});
+
+describe('betPnl / closingLineValue', () => {
+  test('pays at the American price', () => {
+    expect(betPnl('win', 100, -110)).toBeCloseTo(90.91, 2);
+    expect(betPnl('win', 100, 150)).toBeCloseTo(150, 5);
+    expect(betPnl('loss', 100, 150)).toBe(-100);
+    expect(betPnl(null, 100, -110)).toBe(0);
+  });
+
+  test('positive CLV means the bet beat the close', () => {
+    // Laid 3 at the cutoff, closed at 5
+    expect(closingLineValue('spread', 'home', -3, -5)).toBe(2);
+    // Under 48 at the cutoff, closed at 45
+    expect(closingLineValue('total', 'under', 48, 45)).toBe(3);
+    // Took +150, closed +120
+    expect(closingLineValue('moneyline', 'away', 150, 120)!).toBeGreaterThan(0);
+    expect(closingLineValue('spread', 'home', -3, null)).toBeNull();
+  });
+});
+
+describe('buildBankrollCurve', () => {
+  const weeks = [
+    { season: 2024, week: 1, cutoff: new Date('2024-08-31T16:00:00Z') },
+    { season: 2024, week: 2, cutoff: new Date('2024-09-07T16:00:00Z') },
+    { season: 2024, week: 3, cutoff: new Date('2024-09-14T16:00:00Z') },
+  ];
+
+  test('tracks bankroll, drawdown from peak and flat weeks', () => {
+    const bets = [
+      makeBet({ week: 1, result: 'win', pnl: 100 }),
+      makeBet({ week: 2, result: 'loss', pnl: -100 }),
+      makeBet({ week: 2, result: 'loss', pnl: -100 }),
+    ];
+
+    const { weeks: curve, summary } = buildBankrollCurve(bets, weeks, 1000);
+
+    expect(curve.map(w => w.bankroll)).toEqual([1100, 900, 900]);
+    expect(curve.map(w => w.drawdown)).toEqual([0, 200, 200]);
+    expect(curve[2].bets).toBe(0);
+    expect(summary.maxDrawdown).toBe(200);
+    expect(summary.winRate).toBeCloseTo(1 / 3, 5);
+    expect(summary.roi).toBeCloseTo(-100 / 300, 5);
+  });
+
+  test('pending bets count toward totals but not staked or win rate', () => {
+    const bets = [makeBet({ result: null, pnl: 0 }), makeBet({ result: 'push', pnl: 0, clv: 1.5 })];
+    const { summary } = buildBankrollCurve(bets, weeks.slice(0, 1), 1000);
+
+    expect(summary.totalBets).toBe(2);
+    expect(summary.pending).toBe(1);
+    expect(summary.winRate).toBe(0);
+    expect(summary.roi).toBe(0);
+    expect(summary.clv).toBe(1.5);
+  });
+});
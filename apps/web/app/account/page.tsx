@@ -0,0 +1,247 @@
+/**
+ * Account Page
+ *
+ * Expected URL: /account
+ *
+ * The signed-in user, their role and their API tokens for scripts
+ * (`Authorization: Bearer ge_…`). A new token's value is shown once.
+ */
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import Link from 'next/link';
+import { HeaderNav } from '@/components/HeaderNav';
+import { Footer } from '@/components/Footer';
+import type { ApiTokenSummary } from '@/lib/auth-context';
+
+const th = 'px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider';
+const td = 'px-4 py-3 whitespace-nowrap text-sm text-gray-700';
+
+const formatTime = (iso: string | null) => (iso ? new Date(iso).toLocaleString() : '—');
+
+interface CurrentUser {
+  id: string | null;
+  email: string | null;
+  name: string | null;
+  actor: string;
+  role: string;
+  via: string;
+}
+
+export default function AccountPage() {
+  const [user, setUser] = useState<CurrentUser | null>(null);
+  const [tokens, setTokens] = useState<ApiTokenSummary[]>([]);
+  const [newToken, setNewToken] = useState({ name: '', expiresInDays: '90' });
+  const [createdToken, setCreatedToken] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const request = useCallback(async (url: string, init: RequestInit = {}) => {
+    const res = await fetch(url, {
+      ...init,
+      headers: { 'content-type': 'application/json', ...(init.headers || {}) },
+    });
+    const result = await res.json();
+    if (!res.ok || !result.success) {
+      throw new Error(result.error || `HTTP ${res.status}`);
+    }
+    return result;
+  }, []);
+
+  const run = useCallback(async (fn: () => Promise<unknown>) => {
+    setLoading(true);
+    setError(null);
+    try {
+      await fn();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Unknown error');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  const loadTokens = useCallback(async () => {
+    const result = await request('/api/auth/tokens');
+    setTokens(result.tokens);
+  }, [request]);
+
+  useEffect(() => {
+    run(async () => {
+      const result = await request('/api/auth/me');
+      setUser(result.user);
+      if (result.user?.id) await loadTokens();
+    });
+  }, []);
+
+  const createToken = () =>
+    run(async () => {
+      const result = await request('/api/auth/tokens', {
+        method: 'POST',
+        body: JSON.stringify({
+          name: newToken.name,
+          expiresInDays: newToken.expiresInDays ? parseInt(newToken.expiresInDays) : null,
+        }),
+      });
+      setCreatedToken(result.token);
+      setNewToken({ name: '', expiresInDays: newToken.expiresInDays });
+      await loadTokens();
+    });
+
+  const revokeToken = (token: ApiTokenSummary) => {
+    if (!confirm(`Revoke token "${token.name}"? Scripts using it stop working.`)) return;
+    run(async () => {
+      await request(`/api/auth/tokens/${token.id}`, { method: 'DELETE' });
+      await loadTokens();
+    });
+  };
+
+  const signOut = () =>
+    run(async () => {
+      await request('/api/auth/logout', { method: 'POST' });
+      window.location.assign('/login');
+    });
+
+  return (
+    <div className="min-h-screen bg-gray-50 flex flex-col">
+      <HeaderNav />
+      <div className="flex-1">
+        <div className="container mx-auto px-4 py-8">
+          <h1 className="text-3xl font-bold mb-6">Account</h1>
+
+          {error && (
+            <div className="bg-red-50 border border-red-200 rounded p-4 mb-6">
+              <p className="text-red-800">Error: {error}</p>
+            </div>
+          )}
+
+          {!loading && !user && (
+            <div className="bg-yellow-50 border border-yellow-200 rounded p-4 mb-6">
+              <p className="text-yellow-800">
+                You are not signed in. <Link href="/login?next=/account" className="underline">Sign in</Link>
+              </p>
+            </div>
+          )}
+
+          {user && (
+            <div className="bg-white rounded-lg shadow p-6 mb-8">
+              <div className="flex flex-wrap items-start justify-between gap-4">
+                <div>
+                  <p className="text-lg font-semibold">{user.name || user.email || user.actor}</p>
+                  {user.name && user.email && <p className="text-sm text-gray-600">{user.email}</p>}
+                  <p className="text-sm text-gray-600 mt-1">
+                    Role: <span className="font-medium">{user.role}</span> · signed in via {user.via}
+                  </p>
+                  {user.role === 'admin' && (
+                    <p className="text-sm mt-2">
+                      <Link href="/admin/users" className="text-blue-600 hover:underline">Users &amp; audit trail</Link>
+                      {' · '}
+                      <Link href="/admin/team-aliases" className="text-blue-600 hover:underline">Team aliases</Link>
+                    </p>
+                  )}
+                </div>
+                {user.via === 'session' && (
+                  <button
+                    onClick={signOut}
+                    disabled={loading}
+                    className="px-4 py-2 border rounded hover:bg-gray-50 disabled:opacity-50"
+                  >
+                    Sign out
+                  </button>
+                )}
+              </div>
+            </div>
+          )}
+
+          {user?.id && (
+            <div className="bg-white rounded-lg shadow overflow-x-auto">
+              <div className="p-6 border-b">
+                <h2 className="text-xl font-semibold">API Tokens</h2>
+                <p className="text-sm text-gray-600 mt-1">
+                  Send as <code>Authorization: Bearer &lt;token&gt;</code>. Tokens act with your role.
+                </p>
+                <div className="flex flex-wrap items-end gap-4 mt-4">
+                  <div>
+                    <label className="block text-sm font-medium mb-1">Name</label>
+                    <input
+                      value={newToken.name}
+                      onChange={(e) => setNewToken({ ...newToken, name: e.target.value })}
+                      placeholder="weekly-import"
+                      className="border rounded px-3 py-2"
+                    />
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium mb-1">Expires</label>
+                    <select
+                      value={newToken.expiresInDays}
+                      onChange={(e) => setNewToken({ ...newToken, expiresInDays: e.target.value })}
+                      className="border rounded px-3 py-2"
+                    >
+                      <option value="30">30 days</option>
+                      <option value="90">90 days</option>
+                      <option value="365">1 year</option>
+                      <option value="">Never</option>
+                    </select>
+                  </div>
+                  <button
+                    onClick={createToken}
+                    disabled={loading || !newToken.name.trim()}
+                    className="px-4 py-2 bg-blue-600 text-white rounded hover:bg-blue-700 disabled:opacity-50"
+                  >
+                    Create token
+                  </button>
+                </div>
+                {createdToken && (
+                  <div className="bg-green-50 border border-green-200 rounded p-4 mt-4">
+                    <p className="text-sm text-green-800 mb-2">Copy this token now; it will not be shown again.</p>
+                    <code className="block break-all text-sm">{createdToken}</code>
+                  </div>
+                )}
+              </div>
+              {tokens.length === 0 ? (
+                <p className="p-6 text-gray-500">No API tokens.</p>
+              ) : (
+                <table className="w-full">
+                  <thead className="bg-gray-50">
+                    <tr>
+                      <th className={th}>Name</th>
+                      <th className={th}>Token</th>
+                      <th className={th}>Created</th>
+                      <th className={th}>Last used</th>
+                      <th className={th}>Expires</th>
+                      <th className={th}></th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-gray-200">
+                    {tokens.map(token => (
+                      <tr key={token.id} className={token.revokedAt ? 'text-gray-400' : 'hover:bg-gray-50'}>
+                        <td className={`${td} font-medium text-gray-900`}>{token.name}</td>
+                        <td className={`${td} font-mono`}>{token.prefix}…</td>
+                        <td className={td}>{formatTime(token.createdAt)}</td>
+                        <td className={td}>{formatTime(token.lastUsedAt)}</td>
+                        <td className={td}>{token.expiresAt ? formatTime(token.expiresAt) : 'Never'}</td>
+                        <td className={td}>
+                          {token.revokedAt ? (
+                            <span className="text-xs">Revoked {formatTime(token.revokedAt)}</span>
+                          ) : (
+                            <button
+                              onClick={() => revokeToken(token)}
+                              disabled={loading}
+                              className="text-red-600 hover:underline text-sm disabled:opacity-50"
+                            >
+                              Revoke
+                            </button>
+                          )}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              )}
+            </div>
+          )}
+        </div>
+      </div>
+      <Footer />
+    </div>
+  );
+}
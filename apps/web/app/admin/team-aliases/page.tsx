@@ -0,0 +1,366 @@
+/**
+ * Team Aliases Admin Page
+ *
+ * Expected URL: /admin/team-aliases
+ *
+ * Review queue for provider team names ingest runs could not resolve (with
+ * fuzzy-matched suggestions) and the alias list TeamResolver loads. Approving a
+ * name starts the team-alias-reprocess workflow. Requires an admin session
+ * (/login).
+ */
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import Link from 'next/link';
+import { HeaderNav } from '@/components/HeaderNav';
+import { Footer } from '@/components/Footer';
+import type { TeamAliasEntry, UnmatchedNameEntry, UnmatchedNameStatus } from '@/lib/team-alias-context';
+import type { TeamCandidate } from '@/lib/team-alias-match';
+
+const th = 'px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider';
+const td = 'px-4 py-3 whitespace-nowrap text-sm text-gray-700';
+
+const formatTime = (iso: string | null) => (iso ? new Date(iso).toLocaleString() : '—');
+const scope = (entry: UnmatchedNameEntry) =>
+  entry.season ? `${entry.season} wk ${entry.weeks.join(',') || '—'}` : '—';
+
+const reprocessBadge: Record<string, string> = {
+  pending: 'bg-yellow-100 text-yellow-800',
+  done: 'bg-green-100 text-green-800',
+  failed: 'bg-red-100 text-red-800',
+  manual: 'bg-gray-100 text-gray-700',
+};
+
+export default function TeamAliasesPage() {
+  const [signedOut, setSignedOut] = useState(false);
+  const [status, setStatus] = useState<UnmatchedNameStatus>('pending');
+  const [entries, setEntries] = useState<UnmatchedNameEntry[]>([]);
+  const [teams, setTeams] = useState<TeamCandidate[]>([]);
+  const [choices, setChoices] = useState<Record<string, string>>({});
+  const [aliases, setAliases] = useState<TeamAliasEntry[]>([]);
+  const [query, setQuery] = useState('');
+  const [newAlias, setNewAlias] = useState({ alias: '', teamId: '', provider: 'general' });
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const request = useCallback(async (url: string, init: RequestInit = {}) => {
+    const res = await fetch(url, {
+      ...init,
+      headers: { 'content-type': 'application/json', ...(init.headers || {}) },
+    });
+    const result = await res.json();
+    if (res.status === 401 || res.status === 403) setSignedOut(true);
+    if (!res.ok || !result.success) {
+      throw new Error(result.error || `HTTP ${res.status}`);
+    }
+    return result;
+  }, []);
+
+  const loadQueue = useCallback(async () => {
+    const result = await request(`/api/admin/team-aliases/queue?status=${status}`);
+    setEntries(result.entries);
+    setTeams(result.teams);
+    setChoices(Object.fromEntries(
+      result.entries.map((e: UnmatchedNameEntry) => [e.id, e.suggestions[0]?.teamId || ''])
+    ));
+  }, [request, status]);
+
+  const loadAliases = useCallback(async () => {
+    const result = await request(`/api/admin/team-aliases?q=${encodeURIComponent(query)}`);
+    setAliases(result.aliases);
+  }, [request, query]);
+
+  const run = useCallback(async (fn: () => Promise<unknown>) => {
+    setLoading(true);
+    setError(null);
+    try {
+      await fn();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Unknown error');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  // Aliases reload on search submit, not per keystroke
+  useEffect(() => {
+    run(() => Promise.all([loadQueue(), loadAliases()]));
+  }, [status]);
+
+  const review = (entry: UnmatchedNameEntry, action: 'approve' | 'ignore' | 'reopen') =>
+    run(async () => {
+      await request(`/api/admin/team-aliases/queue/${entry.id}`, {
+        method: 'POST',
+        body: JSON.stringify({ action, teamId: choices[entry.id] }),
+      });
+      await Promise.all([loadQueue(), action === 'approve' ? loadAliases() : Promise.resolve()]);
+    });
+
+  const addAlias = () =>
+    run(async () => {
+      await request('/api/admin/team-aliases', { method: 'POST', body: JSON.stringify(newAlias) });
+      setNewAlias({ alias: '', teamId: '', provider: newAlias.provider });
+      await loadAliases();
+    });
+
+  const removeAlias = (alias: TeamAliasEntry) => {
+    if (!confirm(`Delete alias "${alias.alias}" → ${alias.teamId}?`)) return;
+    run(async () => {
+      await request(`/api/admin/team-aliases/${alias.id}`, { method: 'DELETE' });
+      await loadAliases();
+    });
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50 flex flex-col">
+      <HeaderNav />
+      <div className="flex-1">
+        <div className="container mx-auto px-4 py-8">
+          <div className="mb-8">
+            <h1 className="text-3xl font-bold mb-2">Team Aliases</h1>
+            <p className="text-gray-600 mb-4">
+              Provider team names ingest could not resolve. Approving a name adds the alias and starts a
+              reprocess of the affected weeks; ignoring it adds it to the denylist.
+            </p>
+
+            <div className="flex flex-wrap items-end gap-4">
+              <div>
+                <label className="block text-sm font-medium mb-1">Queue</label>
+                <select
+                  value={status}
+                  onChange={(e) => setStatus(e.target.value as UnmatchedNameStatus)}
+                  className="border rounded px-3 py-2"
+                >
+                  <option value="pending">Pending</option>
+                  <option value="approved">Approved</option>
+                  <option value="ignored">Ignored</option>
+                </select>
+              </div>
+              {loading && <p className="text-sm text-gray-500 pb-2">Working...</p>}
+            </div>
+          </div>
+
+          {signedOut && (
+            <div className="bg-yellow-50 border border-yellow-200 rounded p-4 mb-6">
+              <p className="text-yellow-800">
+                <Link href="/login?next=/admin/team-aliases" className="underline">Sign in</Link> as an admin to review the queue.
+              </p>
+            </div>
+          )}
+
+          {error && (
+            <div className="bg-red-50 border border-red-200 rounded p-4 mb-6">
+              <p className="text-red-800">Error: {error}</p>
+            </div>
+          )}
+
+          <datalist id="team-ids">
+            {teams.map(team => (
+              <option key={team.id} value={team.id}>{team.name}</option>
+            ))}
+          </datalist>
+
+          {!signedOut && (
+            <div className="bg-white rounded-lg shadow mb-8 overflow-x-auto">
+              <div className="p-6 border-b">
+                <h2 className="text-xl font-semibold">Unresolved Names</h2>
+                <p className="text-sm text-gray-600 mt-1">Most recently seen first; suggestions are the closest teams by name</p>
+              </div>
+              {entries.length === 0 ? (
+                <p className="p-6 text-gray-500">No {status} names.</p>
+              ) : (
+                <table className="w-full">
+                  <thead className="bg-gray-50">
+                    <tr>
+                      <th className={th}>Name</th>
+                      <th className={th}>Provider</th>
+                      <th className={th}>Seen</th>
+                      <th className={th}>Scope</th>
+                      <th className={th}>{status === 'pending' ? 'Map to team' : 'Team'}</th>
+                      <th className={th}>{status === 'approved' ? 'Reprocess' : ''}</th>
+                      <th className={th}></th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-gray-200">
+                    {entries.map(entry => (
+                      <tr key={entry.id} className="hover:bg-gray-50">
+                        <td className={`${td} font-medium text-gray-900`}>{entry.providerName}</td>
+                        <td className={td}>{entry.provider} <span className="text-gray-400">({entry.jobName})</span></td>
+                        <td className={td}>
+                          {entry.occurrences}× <span className="text-gray-400">last {formatTime(entry.lastSeenAt)}</span>
+                        </td>
+                        <td className={td}>{scope(entry)}</td>
+                        <td className={td}>
+                          {status === 'pending' ? (
+                            <div className="flex flex-wrap items-center gap-2">
+                              {entry.suggestions.map(s => (
+                                <button
+                                  key={s.teamId}
+                                  onClick={() => setChoices({ ...choices, [entry.id]: s.teamId })}
+                                  className={`px-2 py-1 rounded text-xs border ${
+                                    choices[entry.id] === s.teamId ? 'bg-blue-600 text-white border-blue-600' : 'bg-white hover:bg-gray-100'
+                                  }`}
+                                  title={`Similarity ${s.score}`}
+                                >
+                                  {s.name} ({Math.round(s.score * 100)}%)
+                                </button>
+                              ))}
+                              <input
+                                list="team-ids"
+                                value={choices[entry.id] || ''}
+                                onChange={(e) => setChoices({ ...choices, [entry.id]: e.target.value })}
+                                placeholder="team id"
+                                className="border rounded px-2 py-1 w-40 text-sm"
+                              />
+                            </div>
+                          ) : (
+                            entry.teamId || '—'
+                          )}
+                        </td>
+                        <td className={td}>
+                          {entry.reprocessStatus && (
+                            <span
+                              className={`px-2 py-1 rounded text-xs ${reprocessBadge[entry.reprocessStatus] || ''}`}
+                              title={entry.reprocessError || formatTime(entry.reprocessedAt)}
+                            >
+                              {entry.reprocessStatus}
+                            </span>
+                          )}
+                        </td>
+                        <td className={`${td} text-right`}>
+                          {status === 'pending' ? (
+                            <div className="flex gap-2 justify-end">
+                              <button
+                                onClick={() => review(entry, 'approve')}
+                                disabled={loading || !choices[entry.id]}
+                                className="px-3 py-1 rounded bg-green-600 text-white text-xs disabled:opacity-50"
+                              >
+                                Approve
+                              </button>
+                              <button
+                                onClick={() => review(entry, 'ignore')}
+                                disabled={loading}
+                                className="px-3 py-1 rounded bg-gray-200 text-gray-800 text-xs disabled:opacity-50"
+                              >
+                                Ignore
+                              </button>
+                            </div>
+                          ) : (
+                            <button
+                              onClick={() => review(entry, 'reopen')}
+                              disabled={loading}
+                              className="px-3 py-1 rounded bg-gray-200 text-gray-800 text-xs disabled:opacity-50"
+                            >
+                              Reopen
+                            </button>
+                          )}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              )}
+            </div>
+          )}
+
+          {!signedOut && (
+            <div className="bg-white rounded-lg shadow mb-8 overflow-x-auto">
+              <div className="p-6 border-b">
+                <h2 className="text-xl font-semibold">Aliases</h2>
+                <p className="text-sm text-gray-600 mt-1">
+                  Loaded by TeamResolver at the start of each run; general aliases apply to every feed, cfbd ones to CFBD names only
+                </p>
+                <div className="flex flex-wrap items-end gap-4 mt-4">
+                  <form
+                    onSubmit={(e) => {
+                      e.preventDefault();
+                      run(loadAliases);
+                    }}
+                    className="flex items-end gap-2"
+                  >
+                    <input
+                      value={query}
+                      onChange={(e) => setQuery(e.target.value)}
+                      placeholder="Search alias or team id"
+                      className="border rounded px-3 py-2 w-56"
+                    />
+                    <button type="submit" className="px-3 py-2 rounded bg-gray-200 text-sm">Search</button>
+                  </form>
+                  <form
+                    onSubmit={(e) => {
+                      e.preventDefault();
+                      addAlias();
+                    }}
+                    className="flex items-end gap-2"
+                  >
+                    <input
+                      value={newAlias.alias}
+                      onChange={(e) => setNewAlias({ ...newAlias, alias: e.target.value })}
+                      placeholder="Alias"
+                      className="border rounded px-3 py-2 w-44"
+                    />
+                    <input
+                      list="team-ids"
+                      value={newAlias.teamId}
+                      onChange={(e) => setNewAlias({ ...newAlias, teamId: e.target.value })}
+                      placeholder="team id"
+                      className="border rounded px-3 py-2 w-40"
+                    />
+                    <select
+                      value={newAlias.provider}
+                      onChange={(e) => setNewAlias({ ...newAlias, provider: e.target.value })}
+                      className="border rounded px-3 py-2"
+                    >
+                      <option value="general">general</option>
+                      <option value="cfbd">cfbd</option>
+                    </select>
+                    <button
+                      type="submit"
+                      disabled={loading || !newAlias.alias || !newAlias.teamId}
+                      className="px-3 py-2 rounded bg-blue-600 text-white text-sm disabled:opacity-50"
+                    >
+                      Add
+                    </button>
+                  </form>
+                </div>
+              </div>
+              <table className="w-full">
+                <thead className="bg-gray-50">
+                  <tr>
+                    <th className={th}>Alias</th>
+                    <th className={th}>Team</th>
+                    <th className={th}>Provider</th>
+                    <th className={th}>Source</th>
+                    <th className={th}>Updated</th>
+                    <th className={th}></th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-200">
+                  {aliases.map(alias => (
+                    <tr key={alias.id} className="hover:bg-gray-50">
+                      <td className={`${td} font-medium text-gray-900`}>{alias.alias}</td>
+                      <td className={td}>{alias.teamName} <span className="text-gray-400">({alias.teamId})</span></td>
+                      <td className={td}>{alias.provider}</td>
+                      <td className={td}>{alias.source}</td>
+                      <td className={td}>{formatTime(alias.updatedAt)}</td>
+                      <td className={`${td} text-right`}>
+                        <button
+                          onClick={() => removeAlias(alias)}
+                          disabled={loading}
+                          className="px-3 py-1 rounded bg-red-50 text-red-700 text-xs disabled:opacity-50"
+                        >
+                          Delete
+                        </button>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </div>
+      </div>
+      <Footer />
+    </div>
+  );
+}
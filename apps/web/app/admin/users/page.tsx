@@ -0,0 +1,297 @@
+/**
+ * Users Admin Page
+ *
+ * Expected URL: /admin/users
+ *
+ * Users and their roles (viewer, bettor, admin; lib/auth.ts) and the audit
+ * trail of admin actions. Requires an admin session (/login).
+ */
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import Link from 'next/link';
+import { HeaderNav } from '@/components/HeaderNav';
+import { Footer } from '@/components/Footer';
+import type { Role } from '@/lib/auth';
+import type { AuditLogEntry, UserSummary } from '@/lib/auth-context';
+
+const th = 'px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider';
+const td = 'px-4 py-3 whitespace-nowrap text-sm text-gray-700';
+
+// lib/auth.ts uses node crypto, so only its types are imported here
+const ROLES: Role[] = ['viewer', 'bettor', 'admin'];
+
+const formatTime = (iso: string | null) => (iso ? new Date(iso).toLocaleString() : '—');
+
+const statusBadge: Record<string, string> = {
+  success: 'bg-green-100 text-green-800',
+  failed: 'bg-red-100 text-red-800',
+  denied: 'bg-yellow-100 text-yellow-800',
+};
+
+export default function UsersAdminPage() {
+  const [signedOut, setSignedOut] = useState(false);
+  const [users, setUsers] = useState<UserSummary[]>([]);
+  const [audit, setAudit] = useState<AuditLogEntry[]>([]);
+  const [actionInput, setActionInput] = useState('');
+  const [actionFilter, setActionFilter] = useState('');
+  const [newUser, setNewUser] = useState<{ email: string; name: string; role: Role; password: string }>({
+    email: '',
+    name: '',
+    role: 'viewer',
+    password: '',
+  });
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const request = useCallback(async (url: string, init: RequestInit = {}) => {
+    const res = await fetch(url, {
+      ...init,
+      headers: { 'content-type': 'application/json', ...(init.headers || {}) },
+    });
+    const result = await res.json();
+    if (res.status === 401 || res.status === 403) setSignedOut(true);
+    if (!res.ok || !result.success) {
+      throw new Error(result.error || `HTTP ${res.status}`);
+    }
+    return result;
+  }, []);
+
+  const loadUsers = useCallback(async () => {
+    const result = await request('/api/admin/users');
+    setUsers(result.users);
+  }, [request]);
+
+  const loadAudit = useCallback(async () => {
+    const params = new URLSearchParams({ limit: '100' });
+    if (actionFilter) params.set('action', actionFilter);
+    const result = await request(`/api/admin/audit?${params}`);
+    setAudit(result.entries);
+  }, [request, actionFilter]);
+
+  const run = useCallback(async (fn: () => Promise<unknown>) => {
+    setLoading(true);
+    setError(null);
+    try {
+      await fn();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Unknown error');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    run(() => Promise.all([loadUsers(), loadAudit()]));
+  }, [actionFilter]);
+
+  const createUser = () =>
+    run(async () => {
+      await request('/api/admin/users', { method: 'POST', body: JSON.stringify(newUser) });
+      setNewUser({ email: '', name: '', role: newUser.role, password: '' });
+      await Promise.all([loadUsers(), loadAudit()]);
+    });
+
+  const updateUser = (user: UserSummary, changes: { role?: Role; disabled?: boolean }) => {
+    if (changes.disabled && !confirm(`Disable ${user.email}? Their sessions end and tokens stop working.`)) return;
+    run(async () => {
+      await request(`/api/admin/users/${user.id}`, { method: 'PUT', body: JSON.stringify(changes) });
+      await Promise.all([loadUsers(), loadAudit()]);
+    });
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50 flex flex-col">
+      <HeaderNav />
+      <div className="flex-1">
+        <div className="container mx-auto px-4 py-8">
+          <div className="mb-8">
+            <h1 className="text-3xl font-bold mb-2">Users</h1>
+            <p className="text-gray-600">
+              Viewers can sign in and create API tokens; bettors can also record bets, bankrolls, alerts,
+              rulesets and strategy runs; admins can grade, sync, seed and manage aliases and users.
+            </p>
+            {loading && <p className="text-sm text-gray-500 mt-2">Working...</p>}
+          </div>
+
+          {signedOut && (
+            <div className="bg-yellow-50 border border-yellow-200 rounded p-4 mb-6">
+              <p className="text-yellow-800">
+                <Link href="/login?next=/admin/users" className="underline">Sign in</Link> as an admin to manage users.
+              </p>
+            </div>
+          )}
+
+          {error && (
+            <div className="bg-red-50 border border-red-200 rounded p-4 mb-6">
+              <p className="text-red-800">Error: {error}</p>
+            </div>
+          )}
+
+          {!signedOut && (
+            <>
+              <div className="bg-white rounded-lg shadow mb-8 overflow-x-auto">
+                <div className="p-6 border-b">
+                  <h2 className="text-xl font-semibold">Accounts</h2>
+                  <div className="flex flex-wrap items-end gap-4 mt-4">
+                    <div>
+                      <label className="block text-sm font-medium mb-1">Email</label>
+                      <input
+                        type="email"
+                        value={newUser.email}
+                        onChange={(e) => setNewUser({ ...newUser, email: e.target.value })}
+                        className="border rounded px-3 py-2"
+                      />
+                    </div>
+                    <div>
+                      <label className="block text-sm font-medium mb-1">Name</label>
+                      <input
+                        value={newUser.name}
+                        onChange={(e) => setNewUser({ ...newUser, name: e.target.value })}
+                        className="border rounded px-3 py-2"
+                      />
+                    </div>
+                    <div>
+                      <label className="block text-sm font-medium mb-1">Role</label>
+                      <select
+                        value={newUser.role}
+                        onChange={(e) => setNewUser({ ...newUser, role: e.target.value as Role })}
+                        className="border rounded px-3 py-2"
+                      >
+                        {ROLES.map(role => <option key={role} value={role}>{role}</option>)}
+                      </select>
+                    </div>
+                    <div>
+                      <label className="block text-sm font-medium mb-1">Password</label>
+                      <input
+                        type="password"
+                        autoComplete="new-password"
+                        value={newUser.password}
+                        onChange={(e) => setNewUser({ ...newUser, password: e.target.value })}
+                        placeholder="10+ characters"
+                        className="border rounded px-3 py-2"
+                      />
+                    </div>
+                    <button
+                      onClick={createUser}
+                      disabled={loading || !newUser.email.trim()}
+                      className="px-4 py-2 bg-blue-600 text-white rounded hover:bg-blue-700 disabled:opacity-50"
+                    >
+                      Add user
+                    </button>
+                  </div>
+                </div>
+                {users.length === 0 ? (
+                  <p className="p-6 text-gray-500">No users.</p>
+                ) : (
+                  <table className="w-full">
+                    <thead className="bg-gray-50">
+                      <tr>
+                        <th className={th}>Email</th>
+                        <th className={th}>Name</th>
+                        <th className={th}>Role</th>
+                        <th className={th}>Last sign-in</th>
+                        <th className={th}>Created</th>
+                        <th className={th}></th>
+                      </tr>
+                    </thead>
+                    <tbody className="divide-y divide-gray-200">
+                      {users.map(user => (
+                        <tr key={user.id} className={user.disabled ? 'text-gray-400' : 'hover:bg-gray-50'}>
+                          <td className={`${td} font-medium text-gray-900`}>{user.email}</td>
+                          <td className={td}>{user.name || '—'}</td>
+                          <td className={td}>
+                            <select
+                              value={user.role}
+                              onChange={(e) => updateUser(user, { role: e.target.value as Role })}
+                              disabled={loading}
+                              className="border rounded px-2 py-1 text-sm"
+                            >
+                              {ROLES.map(role => <option key={role} value={role}>{role}</option>)}
+                            </select>
+                          </td>
+                          <td className={td}>{formatTime(user.lastLoginAt)}</td>
+                          <td className={td}>{formatTime(user.createdAt)}</td>
+                          <td className={td}>
+                            <button
+                              onClick={() => updateUser(user, { disabled: !user.disabled })}
+                              disabled={loading}
+                              className={`text-sm hover:underline disabled:opacity-50 ${user.disabled ? 'text-blue-600' : 'text-red-600'}`}
+                            >
+                              {user.disabled ? 'Enable' : 'Disable'}
+                            </button>
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                )}
+              </div>
+
+              <div className="bg-white rounded-lg shadow overflow-x-auto">
+                <div className="p-6 border-b flex flex-wrap items-end justify-between gap-4">
+                  <div>
+                    <h2 className="text-xl font-semibold">Audit Trail</h2>
+                    <p className="text-sm text-gray-600 mt-1">Admin actions and denied admin requests, newest first</p>
+                  </div>
+                  <form
+                    onSubmit={(e) => { e.preventDefault(); setActionFilter(actionInput.trim()); }}
+                    className="flex items-end gap-2"
+                  >
+                    <div>
+                      <label className="block text-sm font-medium mb-1">Action</label>
+                      <input
+                        value={actionInput}
+                        onChange={(e) => setActionInput(e.target.value)}
+                        placeholder="bets.grade"
+                        className="border rounded px-3 py-2"
+                      />
+                    </div>
+                    <button type="submit" className="px-4 py-2 border rounded hover:bg-gray-50">Filter</button>
+                  </form>
+                </div>
+                {audit.length === 0 ? (
+                  <p className="p-6 text-gray-500">No audit entries.</p>
+                ) : (
+                  <table className="w-full">
+                    <thead className="bg-gray-50">
+                      <tr>
+                        <th className={th}>Time</th>
+                        <th className={th}>Actor</th>
+                        <th className={th}>Action</th>
+                        <th className={th}>Status</th>
+                        <th className={th}>Request</th>
+                        <th className={th}>Details</th>
+                      </tr>
+                    </thead>
+                    <tbody className="divide-y divide-gray-200">
+                      {audit.map(entry => (
+                        <tr key={entry.id} className="hover:bg-gray-50">
+                          <td className={td}>{formatTime(entry.createdAt)}</td>
+                          <td className={td}>
+                            {entry.actor} <span className="text-gray-400">({entry.via})</span>
+                          </td>
+                          <td className={`${td} font-medium text-gray-900`}>{entry.action}</td>
+                          <td className={td}>
+                            <span className={`px-2 py-1 rounded text-xs ${statusBadge[entry.status] || 'bg-gray-100 text-gray-700'}`}>
+                              {entry.status}
+                            </span>
+                          </td>
+                          <td className={`${td} font-mono text-xs`}>{entry.method} {entry.path}</td>
+                          <td className="px-4 py-3 text-xs text-gray-600 font-mono break-all">
+                            {[entry.target, entry.details ? JSON.stringify(entry.details) : null].filter(Boolean).join(' ')}
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                )}
+              </div>
+            </>
+          )}
+        </div>
+      </div>
+      <Footer />
+    </div>
+  );
+}
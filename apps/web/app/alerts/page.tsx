@@ -0,0 +1,330 @@
+/**
+ * Line Alerts Page
+ *
+ * Alerts fired by the line-movement engine after each odds ingest, plus the
+ * rules that drive it (key numbers, moves from open, moves against open bets).
+ */
+
+'use client';
+
+import { useState, useEffect } from 'react';
+import Link from 'next/link';
+import { HeaderNav } from '@/components/HeaderNav';
+import { Footer } from '@/components/Footer';
+import {
+  ALERT_RULE_TYPES,
+  ALERT_RULE_TYPE_LABELS,
+  AlertRuleType,
+  describeAlertRule,
+} from '@/lib/alert-rules';
+
+interface AlertRow {
+  id: string;
+  marketType: string;
+  bookName: string;
+  message: string;
+  lineTimestamp: string;
+  webhookStatus: string | null;
+  webhookError: string | null;
+  acknowledgedAt: string | null;
+  createdAt: string;
+  rule: { id: string; name: string; type: AlertRuleType };
+  game: {
+    id: string;
+    season: number;
+    week: number;
+    date: string;
+    homeTeam: { id: string; name: string };
+    awayTeam: { id: string; name: string };
+  };
+  bet: { id: string; side: string; stake: number; strategyTag: string } | null;
+}
+
+interface RuleRow {
+  id: string;
+  name: string;
+  type: AlertRuleType;
+  marketType: string | null;
+  threshold: number | null;
+  keyNumbers: number[] | null;
+  bookName: string | null;
+  enabled: boolean;
+  notify: boolean;
+  alertCount: number;
+}
+
+const inputClass = 'rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 text-sm';
+
+const typeBadge: Record<AlertRuleType, string> = {
+  key_number: 'bg-purple-100 text-purple-800',
+  line_move: 'bg-blue-100 text-blue-800',
+  against_bet: 'bg-red-100 text-red-800',
+};
+
+export default function AlertsPage() {
+  const [alerts, setAlerts] = useState<AlertRow[]>([]);
+  const [rules, setRules] = useState<RuleRow[]>([]);
+  const [webhookConfigured, setWebhookConfigured] = useState(false);
+  const [status, setStatus] = useState<'open' | 'all'>('open');
+  const [type, setType] = useState<string>('');
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [form, setForm] = useState({
+    name: '',
+    type: 'line_move' as AlertRuleType,
+    marketType: '',
+    threshold: '1.5',
+    keyNumbers: '3, 7, 10',
+    bookName: '',
+  });
+
+  const fetchAlerts = async () => {
+    setLoading(true);
+    try {
+      const params = new URLSearchParams({ status, ...(type && { type }) });
+      const response = await fetch(`/api/alerts?${params}`);
+      const data = await response.json();
+      if (!data.success) throw new Error(data.error || 'Failed to fetch alerts');
+      setAlerts(data.alerts);
+      setWebhookConfigured(data.webhookConfigured);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Unknown error');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const fetchRules = async () => {
+    try {
+      const response = await fetch('/api/alerts/rules');
+      const data = await response.json();
+      if (data.success) setRules(data.rules);
+    } catch (err) {
+      setError('Failed to fetch alert rules');
+    }
+  };
+
+  useEffect(() => {
+    fetchAlerts();
+  }, [status, type]);
+
+  useEffect(() => {
+    fetchRules();
+  }, []);
+
+  const acknowledge = async (alert: AlertRow) => {
+    await fetch(`/api/alerts/${alert.id}`, {
+      method: 'PATCH',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ acknowledged: !alert.acknowledgedAt }),
+    });
+    fetchAlerts();
+  };
+
+  const updateRule = async (rule: RuleRow, changes: Partial<RuleRow>) => {
+    const response = await fetch(`/api/alerts/rules/${rule.id}`, {
+      method: 'PUT',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(changes),
+    });
+    const data = await response.json();
+    if (!data.success) setError(data.details ? data.details.join('; ') : data.error);
+    fetchRules();
+  };
+
+  const deleteRule = async (rule: RuleRow) => {
+    if (!confirm(`Delete "${rule.name}" and its ${rule.alertCount} alerts?`)) return;
+    await fetch(`/api/alerts/rules/${rule.id}`, { method: 'DELETE' });
+    fetchRules();
+    fetchAlerts();
+  };
+
+  const createRule = async () => {
+    setError(null);
+    const response = await fetch('/api/alerts/rules', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(form),
+    });
+    const data = await response.json();
+    if (!data.success) {
+      setError(data.details ? data.details.join('; ') : data.error);
+      return;
+    }
+    setForm({ ...form, name: '' });
+    fetchRules();
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50 flex flex-col">
+      <HeaderNav />
+      <div className="flex-1">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+          <div className="mb-8">
+            <h1 className="text-3xl font-bold text-gray-900">Line Alerts</h1>
+            <p className="text-gray-600 mt-1">
+              Key-number crosses, big moves and moves against your open bets, checked after every odds ingest.
+              {webhookConfigured ? ' Alerts are also posted to the configured webhook.' : ' Set ALERT_WEBHOOK_URL to post alerts to a webhook.'}
+            </p>
+          </div>
+
+          {error && (
+            <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded mb-6">
+              {error}
+            </div>
+          )}
+
+          {/* Alerts */}
+          <div className="bg-white rounded-lg shadow mb-8">
+            <div className="flex flex-wrap items-center justify-between gap-4 px-6 py-4 border-b">
+              <h2 className="text-lg font-semibold text-gray-900">Alerts</h2>
+              <div className="flex gap-3">
+                <select value={status} onChange={(e) => setStatus(e.target.value as 'open' | 'all')} className={inputClass}>
+                  <option value="open">Open</option>
+                  <option value="all">All</option>
+                </select>
+                <select value={type} onChange={(e) => setType(e.target.value)} className={inputClass}>
+                  <option value="">All types</option>
+                  {ALERT_RULE_TYPES.map(t => (
+                    <option key={t} value={t}>{ALERT_RULE_TYPE_LABELS[t]}</option>
+                  ))}
+                </select>
+              </div>
+            </div>
+
+            {loading ? (
+              <p className="px-6 py-8 text-center text-gray-500">Loading alerts...</p>
+            ) : alerts.length === 0 ? (
+              <p className="px-6 py-8 text-center text-gray-500">No alerts. They appear here after the next odds ingest moves a line.</p>
+            ) : (
+              <div className="overflow-x-auto">
+                <table className="min-w-full divide-y divide-gray-200">
+                  <thead className="bg-gray-50">
+                    <tr>
+                      <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Fired</th>
+                      <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Type</th>
+                      <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Game</th>
+                      <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Alert</th>
+                      <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Webhook</th>
+                      <th className="px-4 py-2"></th>
+                    </tr>
+                  </thead>
+                  <tbody className="bg-white divide-y divide-gray-200">
+                    {alerts.map(alert => (
+                      <tr key={alert.id} className={alert.acknowledgedAt ? 'opacity-60' : 'hover:bg-gray-50'}>
+                        <td className="px-4 py-2 text-sm text-gray-500 whitespace-nowrap">
+                          {new Date(alert.createdAt).toLocaleString()}
+                        </td>
+                        <td className="px-4 py-2 whitespace-nowrap">
+                          <span className={`px-2 py-0.5 rounded text-xs font-medium ${typeBadge[alert.rule.type]}`}>
+                            {ALERT_RULE_TYPE_LABELS[alert.rule.type]}
+                          </span>
+                        </td>
+                        <td className="px-4 py-2 text-sm whitespace-nowrap">
+                          <Link href={`/game/${alert.game.id}`} className="text-blue-600 hover:underline">
+                            {alert.game.awayTeam.name} @ {alert.game.homeTeam.name}
+                          </Link>
+                          <div className="text-xs text-gray-500">{alert.game.season} Week {alert.game.week}</div>
+                        </td>
+                        <td className="px-4 py-2 text-sm text-gray-900">
+                          {alert.message}
+                          {alert.bet && (
+                            <div className="text-xs text-gray-500">Bet: {alert.bet.side} ${alert.bet.stake} ({alert.bet.strategyTag})</div>
+                          )}
+                        </td>
+                        <td className="px-4 py-2 text-xs whitespace-nowrap">
+                          {alert.webhookStatus === 'sent' && <span className="text-green-600">Sent</span>}
+                          {alert.webhookStatus === 'failed' && (
+                            <span className="text-red-600" title={alert.webhookError || undefined}>Failed</span>
+                          )}
+                          {!alert.webhookStatus && <span className="text-gray-400">—</span>}
+                        </td>
+                        <td className="px-4 py-2 text-right">
+                          <button onClick={() => acknowledge(alert)} className="text-xs text-blue-600 hover:underline">
+                            {alert.acknowledgedAt ? 'Reopen' : 'Acknowledge'}
+                          </button>
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </div>
+
+          {/* Rules */}
+          <div className="bg-white rounded-lg shadow p-6">
+            <h2 className="text-lg font-semibold text-gray-900 mb-4">Rules</h2>
+            <div className="space-y-2 mb-6">
+              {rules.map(rule => (
+                <div key={rule.id} className="flex flex-wrap items-center gap-4 border rounded px-4 py-2">
+                  <div className="flex-1 min-w-[240px]">
+                    <div className="text-sm font-medium text-gray-900">{rule.name}</div>
+                    <div className="text-xs text-gray-500">{describeAlertRule(rule)} • {rule.alertCount} fired</div>
+                  </div>
+                  <label className="text-xs text-gray-700 flex items-center gap-1">
+                    <input type="checkbox" checked={rule.enabled} onChange={(e) => updateRule(rule, { enabled: e.target.checked })} />
+                    Enabled
+                  </label>
+                  <label className="text-xs text-gray-700 flex items-center gap-1">
+                    <input type="checkbox" checked={rule.notify} onChange={(e) => updateRule(rule, { notify: e.target.checked })} />
+                    Webhook
+                  </label>
+                  <button onClick={() => deleteRule(rule)} className="text-xs text-red-600 hover:underline">
+                    Delete
+                  </button>
+                </div>
+              ))}
+            </div>
+
+            <h3 className="text-sm font-semibold text-gray-900 mb-2">New rule</h3>
+            <div className="flex flex-wrap items-end gap-4">
+              <label className="text-sm text-gray-700">
+                <span className="block mb-1">Name</span>
+                <input value={form.name} onChange={(e) => setForm({ ...form, name: e.target.value })} className={inputClass} />
+              </label>
+              <label className="text-sm text-gray-700">
+                <span className="block mb-1">Type</span>
+                <select value={form.type} onChange={(e) => setForm({ ...form, type: e.target.value as AlertRuleType })} className={inputClass}>
+                  {ALERT_RULE_TYPES.map(t => (
+                    <option key={t} value={t}>{ALERT_RULE_TYPE_LABELS[t]}</option>
+                  ))}
+                </select>
+              </label>
+              <label className="text-sm text-gray-700">
+                <span className="block mb-1">Market</span>
+                <select value={form.marketType} onChange={(e) => setForm({ ...form, marketType: e.target.value })} className={inputClass}>
+                  <option value="">Spreads and totals</option>
+                  <option value="spread">Spread</option>
+                  <option value="total">Total</option>
+                </select>
+              </label>
+              {form.type === 'key_number' ? (
+                <label className="text-sm text-gray-700">
+                  <span className="block mb-1">Key numbers</span>
+                  <input value={form.keyNumbers} onChange={(e) => setForm({ ...form, keyNumbers: e.target.value })} className={`${inputClass} w-28`} />
+                </label>
+              ) : (
+                <label className="text-sm text-gray-700">
+                  <span className="block mb-1">Threshold (pts)</span>
+                  <input type="number" step="0.5" value={form.threshold} onChange={(e) => setForm({ ...form, threshold: e.target.value })} className={`${inputClass} w-24`} />
+                </label>
+              )}
+              <label className="text-sm text-gray-700">
+                <span className="block mb-1">Book (optional)</span>
+                <input value={form.bookName} onChange={(e) => setForm({ ...form, bookName: e.target.value })} className={`${inputClass} w-32`} />
+              </label>
+              <button
+                onClick={createRule}
+                className="inline-flex items-center px-4 py-2 bg-blue-600 text-white rounded hover:bg-blue-700 text-sm font-medium"
+              >
+                Add Rule
+              </button>
+            </div>
+          </div>
+        </div>
+      </div>
+      <Footer />
+    </div>
+  );
+}
@@ -0,0 +1,36 @@
+/**
+ * Audit Trail API
+ * Requires the admin role (lib/auth.ts)
+ *
+ * GET: Admin actions and denied admin requests, newest first
+ *   - action: filter by action (e.g. bets.grade, user.update)
+ *   - userId: filter by user
+ *   - limit: max rows (default 200, max 1000)
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { authorize, getAuditLog } from '@/lib/auth-context';
+
+export const dynamic = 'force-dynamic';
+
+export async function GET(request: NextRequest) {
+  const auth = await authorize(request, 'admin');
+  if (!auth.ok) return auth.response;
+
+  try {
+    const { searchParams } = new URL(request.url);
+    const limit = Math.min(parseInt(searchParams.get('limit') || '200') || 200, 1000);
+    const entries = await getAuditLog({
+      limit,
+      action: searchParams.get('action') || undefined,
+      userId: searchParams.get('userId') || undefined,
+    });
+    return NextResponse.json({ success: true, entries });
+  } catch (error) {
+    console.error('Error fetching audit log:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to fetch audit log' },
+      { status: 500 }
+    );
+  }
+}
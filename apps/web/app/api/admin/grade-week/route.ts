@@ -1,6 +1,6 @@
 /**
  * Admin endpoint: Sync scores and grade bets for a specific week
- * Requires x-admin-secret header matching ADMIN_SECRET env var
+ * Requires the admin role (lib/auth.ts); recorded in the audit trail
  */
 
 export const runtime = 'nodejs';
@@ -13,6 +13,8 @@ import fs from 'fs';
 import path from 'path';
 import { gradeAvailableBets } from '@/lib/grading/grading-service';
 import { syncGamesForWeek } from '@/lib/cfbd/cfbd-service';
+import { authorize, recordAudit } from '@/lib/auth-context';
+import { resolveSeasonWeek } from '@/lib/season-calendar-context';
 
 const execAsync = promisify(exec);
 
@@ -29,17 +31,6 @@ interface GradeWeekResponse {
   error?: string;
 }
 
-function checkAdminSecret(request: NextRequest): boolean {
-  const adminSecret = process.env.ADMIN_SECRET;
-  if (!adminSecret) {
-    console.error('ADMIN_SECRET environment variable not set');
-    return false;
-  }
-
-  const providedSecret = request.headers.get('x-admin-secret');
-  return providedSecret === adminSecret;
-}
-
 /**
  * Resolve the path to a jobs script, trying multiple candidate locations.
  * 
@@ -177,21 +168,15 @@ async function runGrader(season: number, week: number): Promise<{
 }
 
 export async function POST(request: NextRequest) {
-  try {
-    // Check admin secret
-    if (!checkAdminSecret(request)) {
-      return NextResponse.json(
-        { ok: false, error: 'Unauthorized: Invalid or missing x-admin-secret header' },
-        { status: 401 }
-      );
-    }
+  const auth = await authorize(request, 'admin');
+  if (!auth.ok) return auth.response;
 
+  try {
     // Parse query parameters
     const url = new URL(request.url);
-    const season = parseInt(url.searchParams.get('season') || '2025', 10);
-    const week = parseInt(url.searchParams.get('week') || '9', 10);
+    const { season, week } = await resolveSeasonWeek(url.searchParams);
 
-    if (!season || !week) {
+    if (!season || week < 0) {
       return NextResponse.json(
         { ok: false, error: 'Invalid season or week parameter' },
         { status: 400 }
@@ -210,6 +195,12 @@ export async function POST(request: NextRequest) {
     // Scores may already exist in the database, so grading can proceed
     const gradeResult = await runGrader(season, week);
     if (!gradeResult.ok) {
+      await recordAudit(request, auth.principal, {
+        action: 'bets.grade-week',
+        status: 'failed',
+        details: { season, week, updatedGames: cfbdResult.updatedGames || 0 },
+        error: gradeResult.error,
+      });
       return NextResponse.json(
         { 
           ok: false, 
@@ -246,10 +237,23 @@ export async function POST(request: NextRequest) {
     };
 
     console.log(`✅ Admin grade-week completed:`, response);
+    await recordAudit(request, auth.principal, {
+      action: 'bets.grade-week',
+      status: 'success',
+      details: {
+        season,
+        week,
+        updatedGames: response.updatedGames,
+        graded: response.graded,
+        pushes: response.pushes,
+        failed: response.failed,
+      },
+    });
     return NextResponse.json(response);
 
   } catch (error) {
     console.error('Admin grade-week error:', error);
+    await recordAudit(request, auth.principal, { action: 'bets.grade-week', status: 'failed', error });
     return NextResponse.json(
       { 
         ok: false, 
@@ -5,15 +5,21 @@
  * 
  * Serverless-friendly grading endpoint that uses the grading service directly
  * instead of spawning child processes. This is more reliable in Vercel/serverless environments.
+ *
+ * Requires the admin role (lib/auth.ts); recorded in the audit trail.
  */
 
 import { NextRequest, NextResponse } from 'next/server';
 import { gradeAvailableBets, GradeCounts } from '@/lib/grading/grading-service';
+import { authorize, recordAudit } from '@/lib/auth-context';
 
 export const runtime = 'nodejs';
 export const dynamic = 'force-dynamic';
 
 export async function POST(request: NextRequest) {
+  const auth = await authorize(request, 'admin');
+  if (!auth.ok) return auth.response;
+
   try {
     const body = await request.json();
     const { season, week, limit, force } = body;
@@ -35,6 +41,11 @@ export async function POST(request: NextRequest) {
     });
 
     console.log(`[GRADING_API] Completed:`, counts);
+    await recordAudit(request, auth.principal, {
+      action: 'bets.grade',
+      status: 'success',
+      details: { season, week: week ?? null, force: force === true, ...counts },
+    });
 
     return NextResponse.json({
       success: true,
@@ -43,11 +54,14 @@ export async function POST(request: NextRequest) {
         pushes: counts.pushes,
         failed: counts.failed,
         filledClosePrice: counts.filledClosePrice,
+        bankrollUpdates: counts.bankrollUpdates,
+        tickets: counts.tickets,
       },
     });
 
   } catch (error) {
     console.error('[GRADING_API] Error:', error);
+    await recordAudit(request, auth.principal, { action: 'bets.grade', status: 'failed', error });
     const errorMessage = error instanceof Error ? error.message : String(error);
     return NextResponse.json(
       {
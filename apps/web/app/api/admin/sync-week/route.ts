@@ -5,16 +5,22 @@
  * 
  * Serverless-friendly endpoint that syncs CFBD scores and optionally grades bets.
  * This replaces the child process approach with direct service calls.
+ *
+ * Requires the admin role (lib/auth.ts); recorded in the audit trail.
  */
 
 import { NextRequest, NextResponse } from 'next/server';
 import { syncGamesForWeek } from '@/lib/cfbd/cfbd-service';
 import { gradeAvailableBets } from '@/lib/grading/grading-service';
+import { authorize, recordAudit } from '@/lib/auth-context';
 
 export const runtime = 'nodejs';
 export const dynamic = 'force-dynamic';
 
 export async function POST(request: NextRequest) {
+  const auth = await authorize(request, 'admin');
+  if (!auth.ok) return auth.response;
+
   try {
     const body = await request.json();
     const { season, week, gradeAfterSync = true } = body;
@@ -42,6 +48,12 @@ export async function POST(request: NextRequest) {
     const syncResult = await syncGamesForWeek(seasonNum, weekNum);
 
     if (!syncResult.success) {
+      await recordAudit(request, auth.principal, {
+        action: 'scores.sync-week',
+        status: 'failed',
+        details: { season: seasonNum, week: weekNum },
+        error: syncResult.error || 'CFBD sync failed',
+      });
       return NextResponse.json(
         {
           ok: false,
@@ -73,6 +85,11 @@ export async function POST(request: NextRequest) {
       };
     }
 
+    await recordAudit(request, auth.principal, {
+      action: 'scores.sync-week',
+      status: 'success',
+      details: { season: seasonNum, week: weekNum, updatedGames: syncResult.gamesUpdated, ...gradeResult },
+    });
     return NextResponse.json({
       ok: true,
       season: seasonNum,
@@ -89,6 +106,7 @@ export async function POST(request: NextRequest) {
 
   } catch (error) {
     console.error('[SYNC_WEEK_API] Error:', error);
+    await recordAudit(request, auth.principal, { action: 'scores.sync-week', status: 'failed', error });
     const errorMessage = error instanceof Error ? error.message : String(error);
     return NextResponse.json(
       {
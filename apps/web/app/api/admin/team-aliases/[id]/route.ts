@@ -0,0 +1,39 @@
+/**
+ * Team Alias Admin API
+ * Requires the admin role (lib/auth.ts); changes are recorded in the audit trail
+ *
+ * DELETE: Remove an alias (the name shows up in the review queue again the
+ *         next time an ingest run cannot resolve it)
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { authorize, recordAudit } from '@/lib/auth-context';
+import { deleteTeamAlias } from '@/lib/team-alias-context';
+
+export const dynamic = 'force-dynamic';
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  const auth = await authorize(request, 'admin');
+  if (!auth.ok) return auth.response;
+  try {
+    const deleted = await deleteTeamAlias(params.id);
+    if (!deleted) {
+      return NextResponse.json(
+        { success: false, error: 'Team alias not found' },
+        { status: 404 }
+      );
+    }
+    await recordAudit(request, auth.principal, { action: 'team-alias.delete', status: 'success', target: params.id });
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Error deleting team alias:', error);
+    await recordAudit(request, auth.principal, { action: 'team-alias.delete', status: 'failed', target: params.id, error });
+    return NextResponse.json(
+      { success: false, error: 'Failed to delete team alias' },
+      { status: 500 }
+    );
+  }
+}
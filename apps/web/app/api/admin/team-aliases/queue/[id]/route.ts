@@ -0,0 +1,79 @@
+/**
+ * Unmatched Team Name Review API
+ * Requires the admin role (lib/auth.ts); changes are recorded in the audit trail
+ *
+ * POST: Review a queued name
+ *   - body: { action: 'approve', teamId } creates the alias and starts the
+ *           team-alias-reprocess workflow, which re-runs the affected weeks
+ *   - body: { action: 'ignore' } denylists the name
+ *   - body: { action: 'reopen' } moves it back to pending
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { authorize, recordAudit } from '@/lib/auth-context';
+import {
+  approveUnmatchedName,
+  ignoreUnmatchedName,
+  reopenUnmatchedName,
+  triggerAliasReprocess,
+} from '@/lib/team-alias-context';
+
+export const dynamic = 'force-dynamic';
+
+const ACTIONS = ['approve', 'ignore', 'reopen'];
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  const auth = await authorize(request, 'admin');
+  if (!auth.ok) return auth.response;
+  try {
+    const body = await request.json();
+    const action = body.action;
+    const teamId = typeof body.teamId === 'string' ? body.teamId.trim() : '';
+
+    if (!ACTIONS.includes(action)) {
+      return NextResponse.json(
+        { success: false, error: `Invalid action. Must be one of: ${ACTIONS.join(', ')}` },
+        { status: 400 }
+      );
+    }
+    if (action === 'approve' && !teamId) {
+      return NextResponse.json(
+        { success: false, error: 'teamId is required to approve' },
+        { status: 400 }
+      );
+    }
+
+    let entry = action === 'approve'
+      ? await approveUnmatchedName(params.id, teamId)
+      : action === 'ignore'
+        ? await ignoreUnmatchedName(params.id)
+        : await reopenUnmatchedName(params.id);
+
+    if (!entry) {
+      return NextResponse.json(
+        { success: false, error: action === 'approve' ? 'Queue entry or team not found' : 'Queue entry not found' },
+        { status: 404 }
+      );
+    }
+    if (action === 'approve') {
+      entry = await triggerAliasReprocess(entry);
+    }
+    await recordAudit(request, auth.principal, {
+      action: `team-alias.${action}`,
+      status: 'success',
+      target: params.id,
+      details: { providerName: entry.providerName, teamId: entry.teamId, reprocessError: entry.reprocessError },
+    });
+    return NextResponse.json({ success: true, entry });
+  } catch (error) {
+    console.error('Error reviewing unmatched team name:', error);
+    await recordAudit(request, auth.principal, { action: 'team-alias.review', status: 'failed', target: params.id, error });
+    return NextResponse.json(
+      { success: false, error: 'Failed to review unmatched team name' },
+      { status: 500 }
+    );
+  }
+}
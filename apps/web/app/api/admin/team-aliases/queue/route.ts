@@ -0,0 +1,41 @@
+/**
+ * Unmatched Team Name Queue API
+ * Requires the admin role (lib/auth.ts)
+ *
+ * GET: Provider team names ingest runs could not resolve, most recently seen
+ *      first, with suggested teams for pending ones and the team list
+ *   - status: 'pending' (default) | 'approved' | 'ignored'
+ *   - limit: max rows (default 200, max 1000)
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { authorize } from '@/lib/auth-context';
+import { UNMATCHED_NAME_STATUSES, UnmatchedNameStatus, getUnmatchedNames } from '@/lib/team-alias-context';
+
+export const dynamic = 'force-dynamic';
+
+export async function GET(request: NextRequest) {
+  const auth = await authorize(request, 'admin');
+  if (!auth.ok) return auth.response;
+  try {
+    const { searchParams } = new URL(request.url);
+    const status = (searchParams.get('status') || 'pending') as UnmatchedNameStatus;
+    const limit = Math.min(parseInt(searchParams.get('limit') || '200') || 200, 1000);
+
+    if (!UNMATCHED_NAME_STATUSES.includes(status)) {
+      return NextResponse.json(
+        { success: false, error: `Invalid status. Must be one of: ${UNMATCHED_NAME_STATUSES.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    const { entries, teams } = await getUnmatchedNames(status, limit);
+    return NextResponse.json({ success: true, status, entries, teams });
+  } catch (error) {
+    console.error('Error fetching unmatched team names:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to fetch unmatched team names' },
+      { status: 500 }
+    );
+  }
+}
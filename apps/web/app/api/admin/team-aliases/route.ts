@@ -0,0 +1,77 @@
+/**
+ * Team Aliases Admin API
+ * Requires the admin role (lib/auth.ts); changes are recorded in the audit trail
+ *
+ * GET:  List aliases TeamResolver loads from the database
+ *   - q: search on alias or team id
+ * POST: Add or remap an alias
+ *   - body: { alias, teamId, provider: 'general' | 'cfbd' (default 'general') }
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { authorize, recordAudit } from '@/lib/auth-context';
+import { ALIAS_PROVIDERS, AliasProvider, getTeamAliases, saveTeamAlias } from '@/lib/team-alias-context';
+
+export const dynamic = 'force-dynamic';
+
+export async function GET(request: NextRequest) {
+  const auth = await authorize(request, 'admin');
+  if (!auth.ok) return auth.response;
+  try {
+    const { searchParams } = new URL(request.url);
+    const aliases = await getTeamAliases(searchParams.get('q') || '');
+    return NextResponse.json({ success: true, aliases });
+  } catch (error) {
+    console.error('Error fetching team aliases:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to fetch team aliases' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: NextRequest) {
+  const auth = await authorize(request, 'admin');
+  if (!auth.ok) return auth.response;
+  try {
+    const body = await request.json();
+    const alias = typeof body.alias === 'string' ? body.alias.trim() : '';
+    const teamId = typeof body.teamId === 'string' ? body.teamId.trim() : '';
+    const provider = (body.provider || 'general') as AliasProvider;
+
+    if (!alias || !teamId) {
+      return NextResponse.json(
+        { success: false, error: 'alias and teamId are required' },
+        { status: 400 }
+      );
+    }
+    if (!ALIAS_PROVIDERS.includes(provider)) {
+      return NextResponse.json(
+        { success: false, error: `Invalid provider. Must be one of: ${ALIAS_PROVIDERS.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    const saved = await saveTeamAlias({ alias, teamId, provider });
+    if (!saved) {
+      return NextResponse.json(
+        { success: false, error: `Unknown team: ${teamId}` },
+        { status: 400 }
+      );
+    }
+    await recordAudit(request, auth.principal, {
+      action: 'team-alias.save',
+      status: 'success',
+      target: saved.id,
+      details: { alias, teamId, provider },
+    });
+    return NextResponse.json({ success: true, alias: saved });
+  } catch (error) {
+    console.error('Error saving team alias:', error);
+    await recordAudit(request, auth.principal, { action: 'team-alias.save', status: 'failed', error });
+    return NextResponse.json(
+      { success: false, error: 'Failed to save team alias' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,84 @@
+/**
+ * User Admin API
+ * Requires the admin role (lib/auth.ts); changes are recorded in the audit trail
+ *
+ * PUT: Change a user's role, name, password or disabled flag
+ *   - body: { role?, name?, password?, disabled? }
+ *     Disabling a user or setting a password signs them out everywhere.
+ *     Admins cannot demote or disable themselves.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { MIN_PASSWORD_LENGTH, ROLES, Role, isRole } from '@/lib/auth';
+import { authorize, recordAudit, updateUser } from '@/lib/auth-context';
+
+export const dynamic = 'force-dynamic';
+
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  const auth = await authorize(request, 'admin');
+  if (!auth.ok) return auth.response;
+
+  try {
+    const body = await request.json();
+    const changes: { role?: Role; name?: string | null; password?: string; disabled?: boolean } = {};
+
+    if (body.role !== undefined) {
+      if (!isRole(body.role)) {
+        return NextResponse.json(
+          { success: false, error: `Invalid role. Must be one of: ${ROLES.join(', ')}` },
+          { status: 400 }
+        );
+      }
+      changes.role = body.role;
+    }
+    if (body.name !== undefined) changes.name = typeof body.name === 'string' ? body.name : null;
+    if (body.password !== undefined) {
+      if (typeof body.password !== 'string' || body.password.length < MIN_PASSWORD_LENGTH) {
+        return NextResponse.json(
+          { success: false, error: `Password must be at least ${MIN_PASSWORD_LENGTH} characters` },
+          { status: 400 }
+        );
+      }
+      changes.password = body.password;
+    }
+    if (body.disabled !== undefined) changes.disabled = body.disabled === true;
+
+    if (params.id === auth.principal.userId && ((changes.role && changes.role !== 'admin') || changes.disabled)) {
+      return NextResponse.json(
+        { success: false, error: 'You cannot demote or disable your own account' },
+        { status: 400 }
+      );
+    }
+
+    const user = await updateUser(params.id, changes);
+    if (!user) {
+      return NextResponse.json(
+        { success: false, error: 'User not found' },
+        { status: 404 }
+      );
+    }
+    await recordAudit(request, auth.principal, {
+      action: 'user.update',
+      status: 'success',
+      target: user.id,
+      details: {
+        email: user.email,
+        role: changes.role,
+        name: changes.name,
+        disabled: changes.disabled,
+        password: changes.password !== undefined ? 'changed' : undefined,
+      },
+    });
+    return NextResponse.json({ success: true, user });
+  } catch (error) {
+    console.error('Error updating user:', error);
+    await recordAudit(request, auth.principal, { action: 'user.update', status: 'failed', target: params.id, error });
+    return NextResponse.json(
+      { success: false, error: 'Failed to update user' },
+      { status: 500 }
+    );
+  }
+}
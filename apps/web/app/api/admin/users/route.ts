@@ -0,0 +1,84 @@
+/**
+ * Users Admin API
+ * Requires the admin role (lib/auth.ts); changes are recorded in the audit trail
+ *
+ * GET:  List users
+ * POST: Create a user
+ *   - body: { email, role: 'viewer' | 'bettor' | 'admin', name?, password? }
+ *     (without a password the user can only use API tokens an admin creates
+ *     for them with scripts/auth-users.ts)
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { MIN_PASSWORD_LENGTH, ROLES, isRole } from '@/lib/auth';
+import { authorize, createUser, listUsers, recordAudit } from '@/lib/auth-context';
+
+export const dynamic = 'force-dynamic';
+
+export async function GET(request: NextRequest) {
+  const auth = await authorize(request, 'admin');
+  if (!auth.ok) return auth.response;
+
+  try {
+    const users = await listUsers();
+    return NextResponse.json({ success: true, users });
+  } catch (error) {
+    console.error('Error fetching users:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to fetch users' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: NextRequest) {
+  const auth = await authorize(request, 'admin');
+  if (!auth.ok) return auth.response;
+
+  try {
+    const body = await request.json();
+    const email = typeof body.email === 'string' ? body.email.trim() : '';
+    const password = typeof body.password === 'string' && body.password !== '' ? body.password : null;
+
+    if (!email || !email.includes('@')) {
+      return NextResponse.json(
+        { success: false, error: 'A valid email is required' },
+        { status: 400 }
+      );
+    }
+    if (!isRole(body.role)) {
+      return NextResponse.json(
+        { success: false, error: `Invalid role. Must be one of: ${ROLES.join(', ')}` },
+        { status: 400 }
+      );
+    }
+    if (password !== null && password.length < MIN_PASSWORD_LENGTH) {
+      return NextResponse.json(
+        { success: false, error: `Password must be at least ${MIN_PASSWORD_LENGTH} characters` },
+        { status: 400 }
+      );
+    }
+
+    const user = await createUser({ email, name: body.name ?? null, role: body.role, password });
+    if (!user) {
+      return NextResponse.json(
+        { success: false, error: `A user with email ${email} already exists` },
+        { status: 409 }
+      );
+    }
+    await recordAudit(request, auth.principal, {
+      action: 'user.create',
+      status: 'success',
+      target: user.id,
+      details: { email: user.email, role: user.role, password: password !== null },
+    });
+    return NextResponse.json({ success: true, user });
+  } catch (error) {
+    console.error('Error creating user:', error);
+    await recordAudit(request, auth.principal, { action: 'user.create', status: 'failed', error });
+    return NextResponse.json(
+      { success: false, error: 'Failed to create user' },
+      { status: 500 }
+    );
+  }
+}
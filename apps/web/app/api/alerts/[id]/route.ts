@@ -0,0 +1,53 @@
+/**
+ * Line Alert API
+ *
+ * PATCH: Acknowledge (or reopen) an alert - body { acknowledged: boolean }
+ *
+ * Writes require the bettor role (lib/auth.ts)
+ */
+
+import { prisma } from '@/lib/prisma';
+import { NextRequest, NextResponse } from 'next/server';
+import { authorize } from '@/lib/auth-context';
+
+export const dynamic = 'force-dynamic';
+
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  const auth = await authorize(request, 'bettor');
+  if (!auth.ok) return auth.response;
+
+  try {
+    const { id } = params;
+    const body = await request.json();
+
+    const existing = await prisma.lineAlert.findUnique({
+      where: { id },
+    });
+
+    if (!existing) {
+      return NextResponse.json(
+        { success: false, error: 'Alert not found' },
+        { status: 404 }
+      );
+    }
+
+    const alert = await prisma.lineAlert.update({
+      where: { id },
+      data: { acknowledgedAt: body.acknowledged === false ? null : new Date() },
+    });
+
+    return NextResponse.json({
+      success: true,
+      alert,
+    });
+  } catch (error) {
+    console.error('Error updating line alert:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to update line alert' },
+      { status: 500 }
+    );
+  }
+}
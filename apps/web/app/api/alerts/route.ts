@@ -0,0 +1,72 @@
+/**
+ * Line Alerts API
+ *
+ * GET: List fired line alerts, newest first
+ *   - status: 'open' (unacknowledged, default) | 'all'
+ *   - type: rule type filter (key_number | line_move | against_bet)
+ *   - gameId: limit to one game
+ *   - limit: max rows (default 100, max 500)
+ */
+
+import { prisma } from '@/lib/prisma';
+import { NextRequest, NextResponse } from 'next/server';
+import { ALERT_RULE_TYPES, AlertRuleType } from '@/lib/alert-rules';
+
+export const dynamic = 'force-dynamic';
+
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const status = searchParams.get('status') || 'open';
+    const type = searchParams.get('type');
+    const gameId = searchParams.get('gameId');
+    const limit = Math.min(parseInt(searchParams.get('limit') || '100') || 100, 500);
+
+    if (type && !ALERT_RULE_TYPES.includes(type as AlertRuleType)) {
+      return NextResponse.json(
+        { success: false, error: `Invalid type. Must be one of: ${ALERT_RULE_TYPES.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    const where: any = {};
+    if (status === 'open') where.acknowledgedAt = null;
+    if (type) where.rule = { type };
+    if (gameId) where.gameId = gameId;
+
+    const alerts = await prisma.lineAlert.findMany({
+      where,
+      include: {
+        rule: { select: { id: true, name: true, type: true } },
+        game: {
+          select: {
+            id: true,
+            season: true,
+            week: true,
+            date: true,
+            homeTeam: { select: { id: true, name: true } },
+            awayTeam: { select: { id: true, name: true } },
+          },
+        },
+        bet: { select: { id: true, side: true, stake: true, strategyTag: true } },
+      },
+      orderBy: { createdAt: 'desc' },
+      take: limit,
+    });
+
+    return NextResponse.json({
+      success: true,
+      webhookConfigured: Boolean(process.env.ALERT_WEBHOOK_URL),
+      alerts: alerts.map((alert: any) => ({
+        ...alert,
+        bet: alert.bet ? { ...alert.bet, stake: Number(alert.bet.stake) } : null,
+      })),
+    });
+  } catch (error) {
+    console.error('Error fetching line alerts:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to fetch line alerts' },
+      { status: 500 }
+    );
+  }
+}
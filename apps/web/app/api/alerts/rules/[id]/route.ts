@@ -0,0 +1,104 @@
+/**
+ * Alert Rule API
+ *
+ * PUT:    Replace a rule's settings (or just toggle `enabled` / `notify`)
+ * DELETE: Remove a rule and the alerts it fired
+ *
+ * Writes require the bettor role (lib/auth.ts)
+ */
+
+import { prisma } from '@/lib/prisma';
+import { NextRequest, NextResponse } from 'next/server';
+import { authorize } from '@/lib/auth-context';
+import { validateAlertRuleInput } from '@/lib/alert-rules';
+
+export const dynamic = 'force-dynamic';
+
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  const auth = await authorize(request, 'bettor');
+  if (!auth.ok) return auth.response;
+
+  try {
+    const { id } = params;
+    const body = await request.json();
+
+    const existing = await prisma.alertRule.findUnique({
+      where: { id },
+    });
+
+    if (!existing) {
+      return NextResponse.json(
+        { success: false, error: 'Alert rule not found' },
+        { status: 404 }
+      );
+    }
+
+    // Partial toggles keep the rest of the rule as-is
+    const validation = validateAlertRuleInput({ ...existing, ...body });
+    if (!validation.valid) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid alert rule', details: validation.errors },
+        { status: 400 }
+      );
+    }
+
+    const rule = await prisma.alertRule.update({
+      where: { id },
+      data: {
+        ...validation.data,
+        keyNumbers: validation.data.keyNumbers ?? undefined,
+      },
+    });
+
+    return NextResponse.json({
+      success: true,
+      rule,
+    });
+  } catch (error) {
+    console.error('Error updating alert rule:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to update alert rule' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  const auth = await authorize(request, 'bettor');
+  if (!auth.ok) return auth.response;
+
+  try {
+    const { id } = params;
+
+    const existing = await prisma.alertRule.findUnique({
+      where: { id },
+    });
+
+    if (!existing) {
+      return NextResponse.json(
+        { success: false, error: 'Alert rule not found' },
+        { status: 404 }
+      );
+    }
+
+    await prisma.alertRule.delete({
+      where: { id },
+    });
+
+    return NextResponse.json({
+      success: true,
+    });
+  } catch (error) {
+    console.error('Error deleting alert rule:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to delete alert rule' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,70 @@
+/**
+ * Alert Rules API
+ *
+ * GET:  List alert rules with how many alerts each has fired
+ * POST: Create an alert rule
+ *
+ * Writes require the bettor role (lib/auth.ts)
+ */
+
+import { prisma } from '@/lib/prisma';
+import { NextRequest, NextResponse } from 'next/server';
+import { authorize } from '@/lib/auth-context';
+import { validateAlertRuleInput } from '@/lib/alert-rules';
+
+export const dynamic = 'force-dynamic';
+
+export async function GET() {
+  try {
+    const rules = await prisma.alertRule.findMany({
+      include: { _count: { select: { alerts: true } } },
+      orderBy: { createdAt: 'asc' },
+    });
+
+    return NextResponse.json({
+      success: true,
+      rules: rules.map(({ _count, ...rule }: any) => ({ ...rule, alertCount: _count.alerts })),
+    });
+  } catch (error) {
+    console.error('Error fetching alert rules:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to fetch alert rules' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: NextRequest) {
+  const auth = await authorize(request, 'bettor');
+  if (!auth.ok) return auth.response;
+
+  try {
+    const body = await request.json();
+    const validation = validateAlertRuleInput(body);
+
+    if (!validation.valid) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid alert rule', details: validation.errors },
+        { status: 400 }
+      );
+    }
+
+    const rule = await prisma.alertRule.create({
+      data: {
+        ...validation.data,
+        keyNumbers: validation.data.keyNumbers ?? undefined,
+      },
+    });
+
+    return NextResponse.json({
+      success: true,
+      rule,
+    });
+  } catch (error) {
+    console.error('Error creating alert rule:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to create alert rule' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,45 @@
+/**
+ * Login API
+ *
+ * POST: Sign in with email and password; sets the session cookie
+ *   - body: { email, password }
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { SESSION_COOKIE } from '@/lib/auth';
+import { login, sessionCookieOptions } from '@/lib/auth-context';
+
+export const dynamic = 'force-dynamic';
+
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const email = typeof body.email === 'string' ? body.email : '';
+    const password = typeof body.password === 'string' ? body.password : '';
+
+    if (!email || !password) {
+      return NextResponse.json(
+        { success: false, error: 'email and password are required' },
+        { status: 400 }
+      );
+    }
+
+    const session = await login(email, password, request.headers.get('user-agent'));
+    if (!session) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid email or password' },
+        { status: 401 }
+      );
+    }
+
+    const response = NextResponse.json({ success: true, user: session.user });
+    response.cookies.set(SESSION_COOKIE, session.token, sessionCookieOptions(session.expiresAt));
+    return response;
+  } catch (error) {
+    console.error('Error signing in:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to sign in' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,26 @@
+/**
+ * Logout API
+ *
+ * POST: End the current session and clear the session cookie
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { SESSION_COOKIE } from '@/lib/auth';
+import { logout } from '@/lib/auth-context';
+
+export const dynamic = 'force-dynamic';
+
+export async function POST(request: NextRequest) {
+  try {
+    await logout(request);
+    const response = NextResponse.json({ success: true });
+    response.cookies.delete(SESSION_COOKIE);
+    return response;
+  } catch (error) {
+    console.error('Error signing out:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to sign out' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,39 @@
+/**
+ * Current User API
+ *
+ * GET: The signed-in caller (session, API token or admin secret), or
+ *      user: null when signed out
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getPrincipal, getUser } from '@/lib/auth-context';
+
+export const dynamic = 'force-dynamic';
+
+export async function GET(request: NextRequest) {
+  try {
+    const principal = await getPrincipal(request);
+    if (!principal) {
+      return NextResponse.json({ success: true, user: null });
+    }
+
+    const user = principal.userId ? await getUser(principal.userId) : null;
+    return NextResponse.json({
+      success: true,
+      user: {
+        id: principal.userId,
+        email: user?.email ?? null,
+        name: user?.name ?? null,
+        actor: principal.actor,
+        role: principal.role,
+        via: principal.via,
+      },
+    });
+  } catch (error) {
+    console.error('Error fetching current user:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to fetch current user' },
+      { status: 500 }
+    );
+  }
+}
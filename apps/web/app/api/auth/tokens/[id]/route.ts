@@ -0,0 +1,35 @@
+/**
+ * API Token API
+ *
+ * DELETE: Revoke one of the caller's tokens
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { authorize, revokeApiToken } from '@/lib/auth-context';
+
+export const dynamic = 'force-dynamic';
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  const auth = await authorize(request, 'viewer');
+  if (!auth.ok) return auth.response;
+
+  try {
+    const revoked = auth.principal.userId ? await revokeApiToken(auth.principal.userId, params.id) : false;
+    if (!revoked) {
+      return NextResponse.json(
+        { success: false, error: 'API token not found' },
+        { status: 404 }
+      );
+    }
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Error revoking API token:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to revoke API token' },
+      { status: 500 }
+    );
+  }
+}
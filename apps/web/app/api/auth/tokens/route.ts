@@ -0,0 +1,77 @@
+/**
+ * API Tokens API
+ *
+ * Tokens for scripts (`Authorization: Bearer ge_…`); they act with the role of
+ * the user who created them. Requires a signed-in user (any role).
+ *
+ * GET:  The caller's tokens (never the token values)
+ * POST: Create a token; the response is the only time the value is shown
+ *   - body: { name, expiresInDays? }
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { authorize, createApiToken, listApiTokens } from '@/lib/auth-context';
+
+export const dynamic = 'force-dynamic';
+
+const MAX_EXPIRY_DAYS = 365;
+
+function userRequired() {
+  return NextResponse.json(
+    { success: false, error: 'API tokens belong to a user; sign in as one' },
+    { status: 400 }
+  );
+}
+
+export async function GET(request: NextRequest) {
+  const auth = await authorize(request, 'viewer');
+  if (!auth.ok) return auth.response;
+  if (!auth.principal.userId) return userRequired();
+
+  try {
+    const tokens = await listApiTokens(auth.principal.userId);
+    return NextResponse.json({ success: true, tokens });
+  } catch (error) {
+    console.error('Error fetching API tokens:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to fetch API tokens' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: NextRequest) {
+  const auth = await authorize(request, 'viewer');
+  if (!auth.ok) return auth.response;
+  if (!auth.principal.userId) return userRequired();
+
+  try {
+    const body = await request.json();
+    const name = typeof body.name === 'string' ? body.name.trim() : '';
+    const expiresInDays = body.expiresInDays === undefined || body.expiresInDays === null
+      ? null
+      : Number(body.expiresInDays);
+
+    if (!name) {
+      return NextResponse.json(
+        { success: false, error: 'name is required' },
+        { status: 400 }
+      );
+    }
+    if (expiresInDays !== null && (!Number.isInteger(expiresInDays) || expiresInDays < 1 || expiresInDays > MAX_EXPIRY_DAYS)) {
+      return NextResponse.json(
+        { success: false, error: `expiresInDays must be a whole number from 1 to ${MAX_EXPIRY_DAYS}` },
+        { status: 400 }
+      );
+    }
+
+    const { token, apiToken } = await createApiToken(auth.principal.userId, name, expiresInDays);
+    return NextResponse.json({ success: true, token, apiToken });
+  } catch (error) {
+    console.error('Error creating API token:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to create API token' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,87 @@
+/**
+ * API Route: Place a Bet Against a Bankroll
+ *
+ * POST: Attach an ungraded bet to the bankroll, optionally restaking it
+ *       (e.g. at the suggested stake). The balance moves when the bet is graded.
+ *
+ * Writes require the bettor role (lib/auth.ts) and the bankroll's owner, or an
+ * admin for house bankrolls. The bet must be in the bankroll's portfolio.
+ */
+
+import { prisma } from '@/lib/prisma';
+import { NextRequest, NextResponse } from 'next/server';
+import { authorize } from '@/lib/auth-context';
+import { canManage } from '@/lib/portfolio';
+
+export const dynamic = 'force-dynamic';
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  const auth = await authorize(request, 'bettor');
+  if (!auth.ok) return auth.response;
+
+  try {
+    const { betId, stake } = await request.json();
+
+    if (!betId) {
+      return NextResponse.json(
+        { success: false, error: 'betId is required' },
+        { status: 400 }
+      );
+    }
+    if (stake !== undefined && !(Number(stake) > 0)) {
+      return NextResponse.json(
+        { success: false, error: 'stake must be positive' },
+        { status: 400 }
+      );
+    }
+
+    const [bankroll, bet] = await Promise.all([
+      prisma.bankroll.findUnique({ where: { id: params.id } }),
+      prisma.bet.findUnique({ where: { id: betId } }),
+    ]);
+
+    if (!bankroll || !canManage(bankroll.userId, auth.principal)) {
+      return NextResponse.json(
+        { success: false, error: 'Bankroll not found' },
+        { status: 404 }
+      );
+    }
+    if (!bet || bet.userId !== bankroll.userId) {
+      return NextResponse.json(
+        { success: false, error: 'Bet not found' },
+        { status: 404 }
+      );
+    }
+    if (bet.result !== null) {
+      return NextResponse.json(
+        { success: false, error: 'Bet is already graded' },
+        { status: 409 }
+      );
+    }
+
+    const updated = await prisma.bet.update({
+      where: { id: betId },
+      data: {
+        bankrollId: bankroll.id,
+        ...(stake !== undefined ? { stake: Number(stake) } : {}),
+      },
+    });
+
+    return NextResponse.json({
+      success: true,
+      bet: {
+        ...updated,
+        stake: Number(updated.stake),
+      },
+    });
+  } catch (error) {
+    console.error('Error placing bet against bankroll:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to place bet' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,108 @@
+/**
+ * API Route: Single Bankroll
+ *
+ * GET: Bankroll with its recent ledger
+ * PUT: Rename or change the staking policy (balance is only moved by settlements)
+ *
+ * House bankrolls are public; a user's bankroll is visible to them and admins.
+ * Writes require the bettor role (lib/auth.ts) and the bankroll's owner, or an
+ * admin for house bankrolls (lib/portfolio.ts).
+ */
+
+import { prisma } from '@/lib/prisma';
+import { NextRequest, NextResponse } from 'next/server';
+import { authorize, getPrincipal } from '@/lib/auth-context';
+import { validateBankrollInput } from '@/lib/bankroll';
+import { canManage, canView } from '@/lib/portfolio';
+
+export const dynamic = 'force-dynamic';
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const bankroll = await prisma.bankroll.findUnique({
+      where: { id: params.id },
+      include: {
+        transactions: {
+          orderBy: { createdAt: 'desc' },
+          take: 100,
+        },
+      },
+    });
+
+    if (!bankroll || !canView(bankroll.userId, await getPrincipal(request))) {
+      return NextResponse.json(
+        { success: false, error: 'Bankroll not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      bankroll,
+    });
+  } catch (error) {
+    console.error('Error fetching bankroll:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to fetch bankroll' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  const auth = await authorize(request, 'bettor');
+  if (!auth.ok) return auth.response;
+
+  try {
+    const existing = await prisma.bankroll.findUnique({
+      where: { id: params.id },
+    });
+
+    if (!existing || !canView(existing.userId, auth.principal)) {
+      return NextResponse.json(
+        { success: false, error: 'Bankroll not found' },
+        { status: 404 }
+      );
+    }
+    if (!canManage(existing.userId, auth.principal)) {
+      return NextResponse.json(
+        { success: false, error: 'Only admins can change house bankrolls' },
+        { status: 403 }
+      );
+    }
+
+    const body = await request.json();
+    // Starting balance is fixed at creation
+    const validation = validateBankrollInput({ ...body, startingBalance: existing.startingBalance });
+
+    if (!validation.valid) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid bankroll', details: validation.errors },
+        { status: 400 }
+      );
+    }
+
+    const { startingBalance, ...data } = validation.data;
+    const bankroll = await prisma.bankroll.update({
+      where: { id: params.id },
+      data,
+    });
+
+    return NextResponse.json({
+      success: true,
+      bankroll,
+    });
+  } catch (error) {
+    console.error('Error updating bankroll:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to update bankroll' },
+      { status: 500 }
+    );
+  }
+}
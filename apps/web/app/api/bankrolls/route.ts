@@ -0,0 +1,96 @@
+/**
+ * Bankrolls API
+ *
+ * GET:  List a portfolio's bankrolls with their staking policy and balance
+ *   - portfolio: mine | house (default: mine when signed in)
+ * POST: Create a bankroll (balance starts at startingBalance) in the caller's
+ *       portfolio; admins can pass portfolio: 'house'
+ *
+ * Writes require the bettor role (lib/auth.ts)
+ */
+
+import { prisma } from '@/lib/prisma';
+import { NextRequest, NextResponse } from 'next/server';
+import { authorize } from '@/lib/auth-context';
+import { validateBankrollInput } from '@/lib/bankroll';
+import { newRowOwner } from '@/lib/portfolio';
+import { getPortfolioScope } from '@/lib/portfolio-context';
+
+export const dynamic = 'force-dynamic';
+
+export async function GET(request: NextRequest) {
+  const portfolio = await getPortfolioScope(request);
+  if (!portfolio.ok) return portfolio.response;
+
+  try {
+    const bankrolls = await prisma.bankroll.findMany({
+      where: { userId: portfolio.scope.userId },
+      orderBy: { name: 'asc' },
+    });
+
+    return NextResponse.json({
+      success: true,
+      bankrolls,
+    });
+  } catch (error) {
+    console.error('Error fetching bankrolls:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to fetch bankrolls' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: NextRequest) {
+  const auth = await authorize(request, 'bettor');
+  if (!auth.ok) return auth.response;
+
+  try {
+    const body = await request.json();
+    const validation = validateBankrollInput(body);
+
+    if (!validation.valid) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid bankroll', details: validation.errors },
+        { status: 400 }
+      );
+    }
+
+    const owner = newRowOwner(body.portfolio, auth.principal);
+    if ('error' in owner) {
+      return NextResponse.json(
+        { success: false, error: owner.error },
+        { status: 403 }
+      );
+    }
+
+    const existing = await prisma.bankroll.findFirst({
+      where: { userId: owner.userId, name: validation.data.name },
+    });
+    if (existing) {
+      return NextResponse.json(
+        { success: false, error: `A bankroll named "${validation.data.name}" already exists` },
+        { status: 409 }
+      );
+    }
+
+    const bankroll = await prisma.bankroll.create({
+      data: {
+        ...validation.data,
+        balance: validation.data.startingBalance,
+        userId: owner.userId,
+      },
+    });
+
+    return NextResponse.json({
+      success: true,
+      bankroll,
+    });
+  } catch (error) {
+    console.error('Error creating bankroll:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to create bankroll' },
+      { status: 500 }
+    );
+  }
+}
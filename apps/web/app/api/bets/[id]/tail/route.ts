@@ -0,0 +1,65 @@
+/**
+ * Tail a House Bet
+ * Requires the bettor role (lib/auth.ts)
+ *
+ * POST: Copy an open house bet into the caller's portfolio (lib/portfolio.ts)
+ *   - body: { stake?, bankrollId? } (defaults: the house stake, no bankroll)
+ *     Only before kickoff, once per bet.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { authorize } from '@/lib/auth-context';
+import { tailHouseBet } from '@/lib/portfolio-context';
+
+export const dynamic = 'force-dynamic';
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  const auth = await authorize(request, 'bettor');
+  if (!auth.ok) return auth.response;
+  if (!auth.principal.userId) {
+    return NextResponse.json(
+      { success: false, error: 'Tailed bets belong to a user; sign in as one' },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const body = await request.json().catch(() => ({}));
+    if (body.stake !== undefined && !(Number(body.stake) > 0)) {
+      return NextResponse.json(
+        { success: false, error: 'stake must be positive' },
+        { status: 400 }
+      );
+    }
+
+    const result = await tailHouseBet(params.id, auth.principal.userId, {
+      stake: body.stake !== undefined ? Number(body.stake) : undefined,
+      bankrollId: body.bankrollId || null,
+    });
+    if (!result.ok) {
+      return NextResponse.json(
+        { success: false, error: result.error },
+        { status: result.status }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      bet: {
+        ...result.bet,
+        modelPrice: Number(result.bet.modelPrice),
+        closePrice: result.bet.closePrice ? Number(result.bet.closePrice) : null,
+        stake: Number(result.bet.stake),
+      },
+    });
+  } catch (error) {
+    console.error('Error tailing bet:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to tail bet' },
+      { status: 500 }
+    );
+  }
+}
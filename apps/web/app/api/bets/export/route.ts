@@ -1,12 +1,18 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { PrismaClient } from '@prisma/client';
+import { getPortfolioScope } from '@/lib/portfolio-context';
+import { describeLeg } from '@/lib/tickets';
 
 export const runtime = 'nodejs';
 export const dynamic = 'force-dynamic';
 
 const prisma = new PrismaClient();
 
+// ?portfolio=mine|house (default: mine when signed in)
 export async function GET(request: NextRequest) {
+  const portfolio = await getPortfolioScope(request);
+  if (!portfolio.ok) return portfolio.response;
+
   try {
     const { searchParams } = new URL(request.url);
     const season = searchParams.get('season');
@@ -24,6 +30,7 @@ export async function GET(request: NextRequest) {
     
     if (week) where.week = parseInt(week);
     if (strategy) where.strategyTag = strategy;
+    where.userId = portfolio.scope.userId;
 
     // Get all bets matching the criteria
     const bets = await prisma.bet.findMany({
@@ -35,6 +42,17 @@ export async function GET(request: NextRequest) {
             awayTeam: { select: { name: true } },
           },
         },
+        legs: {
+          orderBy: { legIndex: 'asc' },
+          include: {
+            game: {
+              include: {
+                homeTeam: { select: { name: true } },
+                awayTeam: { select: { name: true } },
+              },
+            },
+          },
+        },
       },
       orderBy: { createdAt: 'desc' },
     });
@@ -47,6 +65,7 @@ export async function GET(request: NextRequest) {
       'Market',
       'Side',
       'Model Price',
+      'Book',
       'Close Price',
       'CLV',
       'Edge',
@@ -58,6 +77,18 @@ export async function GET(request: NextRequest) {
       'Created'
     ];
 
+    // Parlays and teasers list every leg
+    const matchupOf = (bet: any) => bet.game
+      ? `${bet.game.awayTeam.name} @ ${bet.game.homeTeam.name}`
+      : bet.legs.map((leg: any) => `${leg.game.awayTeam.name} @ ${leg.game.homeTeam.name}`).join(' / ');
+    const sideOf = (bet: any) => bet.game
+      ? bet.side
+      : bet.legs.map((leg: any) => describeLeg(
+          { marketType: leg.marketType, side: leg.side, line: leg.line !== null ? Number(leg.line) : null },
+          bet.teaserPoints !== null ? Number(bet.teaserPoints) : null,
+          leg.side === 'home' ? leg.game.homeTeam.name : leg.side === 'away' ? leg.game.awayTeam.name : leg.side
+        )).join(' / ');
+
     const rows = bets.map(bet => {
       const edge = bet.closePrice && bet.marketType !== 'moneyline' 
         ? (Number(bet.modelPrice) - Number(bet.closePrice)).toFixed(1)
@@ -66,10 +97,11 @@ export async function GET(request: NextRequest) {
       return [
         bet.season,
         bet.week,
-        `${bet.game.awayTeam.name} @ ${bet.game.homeTeam.name}`,
+        matchupOf(bet),
         bet.marketType,
-        bet.side,
+        sideOf(bet),
         bet.modelPrice,
+        bet.bookName || '',
         bet.closePrice || '',
         bet.clv ? bet.clv.toFixed(3) : '',
         edge,
@@ -1,5 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { PrismaClient } from '@prisma/client';
+import { Prisma, PrismaClient } from '@prisma/client';
+import { authorize, recordAudit } from '@/lib/auth-context';
+import { STRAIGHT_BET_WHERE, isStraightBet } from '@/lib/tickets';
 
 export const runtime = 'nodejs';
 export const dynamic = 'force-dynamic';
@@ -7,6 +9,9 @@ export const dynamic = 'force-dynamic';
 const prisma = new PrismaClient();
 
 export async function POST(request: NextRequest) {
+  const auth = await authorize(request, 'admin');
+  if (!auth.ok) return auth.response;
+
   try {
     // Check if grading UI is enabled
     if (process.env.NEXT_PUBLIC_ENABLE_GRADE_UI !== 'true') {
@@ -20,15 +25,14 @@ export async function POST(request: NextRequest) {
     }
 
     // Find ungraded bets for the specified season/week
-    // Only grade strategy_run bets (not manual entries)
-    // Accept both null and 'pending' as ungraded states
+    // Grade strategy_run bets and user-owned bets (tails, manual and imported
+    // entries); parlays and teasers are graded leg by leg in grading-service.ts
+    // Note: 'pending' is not a valid BetResult enum value, so we only check for null
     const whereClause: any = {
       season: parseInt(season),
-      source: 'strategy_run', // Only grade strategy-run bets
-      OR: [
-        { result: null },
-        // Note: 'pending' is not a valid BetResult enum value, so we only check for null
-      ],
+      OR: [{ source: 'strategy_run' }, { userId: { not: null } }],
+      ...STRAIGHT_BET_WHERE,
+      result: null,
     };
     
     if (week) {
@@ -78,7 +82,7 @@ export async function POST(request: NextRequest) {
     let failed = 0;
     let filledClosePrice = 0;
 
-    for (const bet of ungradedBets) {
+    for (const bet of ungradedBets.filter(isStraightBet)) {
       try {
         const game = bet.game;
         
@@ -95,15 +99,22 @@ export async function POST(request: NextRequest) {
           continue;
         }
 
-        // Fill closePrice if missing
+        // Fill closePrice if missing (the bet's book first, when known)
         let closePrice: any = bet.closePrice;
         if (!closePrice) {
-          const latestLine = await prisma.marketLine.findFirst({
-            where: {
-              gameId: bet.gameId,
-              lineType: bet.marketType === 'moneyline' ? 'moneyline' : bet.marketType,
-              timestamp: { lte: kickoffTime },
-            },
+          const closeWhere: Prisma.MarketLineWhereInput = {
+            gameId: bet.gameId,
+            lineType: bet.marketType === 'moneyline' ? 'moneyline' : bet.marketType,
+            timestamp: { lte: kickoffTime },
+          };
+          const bookLine = bet.bookName
+            ? await prisma.marketLine.findFirst({
+                where: { ...closeWhere, bookName: bet.bookName },
+                orderBy: { timestamp: 'desc' },
+              })
+            : null;
+          const latestLine = bookLine ?? await prisma.marketLine.findFirst({
+            where: closeWhere,
             orderBy: { timestamp: 'desc' },
           });
           
@@ -251,6 +262,11 @@ export async function POST(request: NextRequest) {
       }
     }
 
+    await recordAudit(request, auth.principal, {
+      action: 'bets.grade',
+      status: 'success',
+      details: { season, week: week ?? null, graded, pushes, failed, filledClosePrice },
+    });
     return NextResponse.json({
       success: true,
       summary: {
@@ -264,6 +280,7 @@ export async function POST(request: NextRequest) {
 
   } catch (error) {
     console.error('BETS_API_ERROR grade', error);
+    await recordAudit(request, auth.principal, { action: 'bets.grade', status: 'failed', error });
     return NextResponse.json(
       { error: 'Internal error', detail: String((error as Error)?.message ?? error) },
       { status: 500 }
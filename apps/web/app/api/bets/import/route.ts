@@ -1,4 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server';
+import { authorize } from '@/lib/auth-context';
+import { newRowOwner } from '@/lib/portfolio';
 import { PrismaClient } from '@prisma/client';
 
 export const runtime = 'nodejs';
@@ -19,9 +21,20 @@ interface BetImportRequest {
   strategyTag: string;
   source: 'strategy_run' | 'manual';
   notes?: string;
+  bankrollId?: string; // Settle against this bankroll when graded
+  bookName?: string; // Book the bet was placed at; its line is used for close/CLV
 }
 
+// Bets go to the caller's portfolio; admins import official bets with ?portfolio=house
 export async function POST(request: NextRequest) {
+  const auth = await authorize(request, 'bettor');
+  if (!auth.ok) return auth.response;
+
+  const owner = newRowOwner(request.nextUrl.searchParams.get('portfolio'), auth.principal);
+  if ('error' in owner) {
+    return NextResponse.json({ error: owner.error }, { status: 403 });
+  }
+
   try {
     const bets: BetImportRequest[] = await request.json();
 
@@ -35,6 +48,10 @@ export async function POST(request: NextRequest) {
     const results = [];
 
     for (const bet of bets) {
+      if (!['spread', 'total', 'moneyline'].includes(bet.marketType)) {
+        throw new Error(`Unsupported marketType ${bet.marketType}; record parlays and teasers with POST /api/bets/tickets`);
+      }
+
       // Resolve gameId if not provided
       let gameId = bet.gameId;
       if (!gameId && bet.homeId && bet.awayId) {
@@ -56,9 +73,28 @@ export async function POST(request: NextRequest) {
         throw new Error('Either gameId or both homeId and awayId must be provided');
       }
 
-      // Find closePrice from market_lines
+      if (bet.bankrollId) {
+        const bankroll = await prisma.bankroll.findUnique({ where: { id: bet.bankrollId } });
+        if (!bankroll || bankroll.userId !== owner.userId) {
+          throw new Error(`Bankroll ${bet.bankrollId} not found in this portfolio`);
+        }
+      }
+
+      // Find closePrice from market_lines (the bet's book first, when known)
       let closePrice: number | null = null;
-      if (bet.marketType === 'moneyline') {
+      if (bet.bookName) {
+        const bookLine = await prisma.marketLine.findFirst({
+          where: {
+            gameId,
+            lineType: bet.marketType,
+            bookName: bet.bookName,
+            timestamp: { lte: new Date() },
+          },
+          orderBy: { timestamp: 'desc' },
+        });
+        closePrice = bookLine?.lineValue ?? null;
+      }
+      if (closePrice === null && bet.marketType === 'moneyline') {
         // For moneyline, find the latest h2h line
         const latestLine = await prisma.marketLine.findFirst({
           where: {
@@ -69,7 +105,7 @@ export async function POST(request: NextRequest) {
           orderBy: { timestamp: 'desc' },
         });
         closePrice = latestLine?.lineValue || null;
-      } else {
+      } else if (closePrice === null) {
         // For spread/total, find the latest line
         const latestLine = await prisma.marketLine.findFirst({
           where: {
@@ -96,6 +132,9 @@ export async function POST(request: NextRequest) {
           strategyTag: bet.strategyTag,
           source: bet.source,
           notes: bet.notes,
+          bankrollId: bet.bankrollId ?? null,
+          bookName: bet.bookName || null,
+          userId: owner.userId,
         },
         include: {
           game: {
@@ -1,12 +1,17 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { PrismaClient } from '@prisma/client';
+import { getPortfolioScope } from '@/lib/portfolio-context';
 
 export const runtime = 'nodejs';
 export const dynamic = 'force-dynamic';
 
 const prisma = new PrismaClient();
 
+// ?portfolio=mine|house (default: mine when signed in)
 export async function GET(request: NextRequest) {
+  const portfolio = await getPortfolioScope(request);
+  if (!portfolio.ok) return portfolio.response;
+
   try {
     const { searchParams } = new URL(request.url);
     const season = searchParams.get('season');
@@ -24,6 +29,7 @@ export async function GET(request: NextRequest) {
     if (marketType) where.marketType = marketType;
     if (side) where.side = side;
     if (strategy) where.strategyTag = strategy;
+    where.userId = portfolio.scope.userId;
 
     // Get bets with pagination
     const [bets, total] = await Promise.all([
@@ -36,6 +42,17 @@ export async function GET(request: NextRequest) {
               awayTeam: { select: { name: true } },
             },
           },
+          legs: {
+            orderBy: { legIndex: 'asc' },
+            include: {
+              game: {
+                include: {
+                  homeTeam: { select: { name: true } },
+                  awayTeam: { select: { name: true } },
+                },
+              },
+            },
+          },
         },
         orderBy: { createdAt: 'desc' },
         skip: offset,
@@ -53,6 +70,12 @@ export async function GET(request: NextRequest) {
         stake: Number(bet.stake),
         pnl: bet.pnl ? Number(bet.pnl) : null,
         clv: bet.clv ? Number(bet.clv) : null,
+        teaserPoints: bet.teaserPoints !== null ? Number(bet.teaserPoints) : null,
+        legs: bet.legs.map((leg: any) => ({
+          ...leg,
+          line: leg.line !== null ? Number(leg.line) : null,
+          price: leg.price !== null ? Number(leg.price) : null,
+        })),
       })),
       total,
     });
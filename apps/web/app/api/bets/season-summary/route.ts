@@ -4,11 +4,16 @@
  * Expected URL: /api/bets/season-summary
  * 
  * Returns season-wide performance summary for strategy-run bets.
- * Filters by season, strategyTag (optional), and marketType (optional).
+ * ?portfolio=house (strategy-run bets nobody owns) or mine (all of the caller's
+ * bets); default: mine when signed in.
+ * Filters by season, strategyTag (optional), and marketType (optional; parlays
+ * and teasers are their own market types, counted once per ticket).
  * Only includes graded bets (result IN ('win', 'loss', 'push')).
  */
 import { NextRequest, NextResponse } from 'next/server';
 import { prisma } from '@/lib/prisma';
+import { Portfolio, portfolioBetWhere } from '@/lib/portfolio';
+import { getPortfolioScope } from '@/lib/portfolio-context';
 
 export const runtime = 'nodejs';
 export const dynamic = 'force-dynamic';
@@ -61,6 +66,7 @@ interface SeasonSummaryResponse {
   byWeek: WeekBreakdown[];
   byMarketType: MarketTypeBreakdown[];
   meta: {
+    portfolio: Portfolio;
     seasonsAvailable: number[];
     strategyTagsAvailable: string[];
     pendingBets: number;
@@ -78,6 +84,10 @@ interface SeasonSummaryResponse {
 }
 
 export async function GET(request: NextRequest) {
+  const portfolio = await getPortfolioScope(request);
+  if (!portfolio.ok) return portfolio.response;
+  const ownerWhere = portfolioBetWhere(portfolio.scope);
+
   try {
     const { searchParams } = new URL(request.url);
     const seasonParam = searchParams.get('season');
@@ -96,6 +106,8 @@ export async function GET(request: NextRequest) {
       'ATS': 'spread',
       'TOTAL': 'total',
       'MONEYLINE': 'moneyline',
+      'PARLAY': 'parlay',
+      'TEASER': 'teaser',
       'ALL': 'ALL',
     };
     const dbMarketType = marketTypeParam !== 'ALL' ? marketTypeInputMap[marketTypeParam] || marketTypeParam.toLowerCase() : 'ALL';
@@ -118,7 +130,7 @@ export async function GET(request: NextRequest) {
     // Build base where clause
     const where: any = {
       season,
-      source: 'strategy_run',
+      ...ownerWhere,
       result: { in: ['win', 'loss', 'push'] },
     };
 
@@ -150,7 +162,7 @@ export async function GET(request: NextRequest) {
     // Get pending bets (same filters but result IS NULL)
     const pendingWhere: any = {
       season,
-      source: 'strategy_run',
+      ...ownerWhere,
       result: null,
     };
     if (strategyTagParam !== 'all') {
@@ -244,6 +256,8 @@ export async function GET(request: NextRequest) {
       'spread': 'ATS',
       'total': 'TOTAL',
       'moneyline': 'MONEYLINE',
+      'parlay': 'PARLAY',
+      'teaser': 'TEASER',
     };
 
     const byMarketType: MarketTypeBreakdown[] = Array.from(marketTypeMap.entries())
@@ -272,7 +286,7 @@ export async function GET(request: NextRequest) {
     // Only get strategy tags for the requested season
     const seasonStrategyRunBets = await prisma.bet.findMany({
       where: { 
-        source: 'strategy_run',
+        ...ownerWhere,
         season,
       },
       select: {
@@ -281,9 +295,9 @@ export async function GET(request: NextRequest) {
       distinct: ['strategyTag'],
     });
 
-    // Get all seasons with strategy_run bets
+    // Get all seasons with bets in the portfolio
     const allSeasons = await prisma.bet.findMany({
-      where: { source: 'strategy_run' },
+      where: ownerWhere,
       select: {
         season: true,
       },
@@ -359,6 +373,7 @@ export async function GET(request: NextRequest) {
       byWeek,
       byMarketType,
       meta: {
+        portfolio: portfolio.scope.portfolio,
         seasonsAvailable,
         strategyTagsAvailable,
         pendingBets,
@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { PrismaClient } from '@prisma/client';
+import { authorize, recordAudit } from '@/lib/auth-context';
 
 export const runtime = 'nodejs';
 export const dynamic = 'force-dynamic';
@@ -82,28 +83,10 @@ async function seedBets() {
   };
 }
 
-export async function GET() {
-  try {
-    // Check if seeding is enabled
-    if (process.env.ENABLE_BETS_SEED !== 'true') {
-      return NextResponse.json({ error: 'Seeding not enabled' }, { status: 403 });
-    }
-
-    const result = await seedBets();
-    return NextResponse.json(result);
-
-  } catch (error) {
-    console.error('BETS_API_ERROR seed GET', error);
-    return NextResponse.json(
-      { error: 'Internal error', detail: String((error as Error)?.message ?? error) },
-      { status: 500 }
-    );
-  } finally {
-    await prisma.$disconnect();
-  }
-}
-
 export async function POST(request: NextRequest) {
+  const auth = await authorize(request, 'admin');
+  if (!auth.ok) return auth.response;
+
   try {
     // Check if seeding is enabled
     if (process.env.ENABLE_BETS_SEED !== 'true') {
@@ -111,10 +94,12 @@ export async function POST(request: NextRequest) {
     }
 
     const result = await seedBets();
+    await recordAudit(request, auth.principal, { action: 'bets.seed', status: 'success', details: { inserted: result.inserted } });
     return NextResponse.json(result);
 
   } catch (error) {
     console.error('BETS_API_ERROR seed POST', error);
+    await recordAudit(request, auth.principal, { action: 'bets.seed', status: 'failed', error });
     return NextResponse.json(
       { error: 'Internal error', detail: String((error as Error)?.message ?? error) },
       { status: 500 }
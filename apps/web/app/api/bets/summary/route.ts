@@ -1,11 +1,19 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { prisma } from '@/lib/prisma';
 import { getOfficialStrategyTagsForFilter, isExcludedStrategyTag } from '@/lib/config/official-strategies';
+import { portfolioBetWhere } from '@/lib/portfolio';
+import { getPortfolioScope } from '@/lib/portfolio-context';
 
 export const runtime = 'nodejs';
 export const dynamic = 'force-dynamic';
 
+// ?portfolio=house (strategy-run bets nobody owns) or mine (all of the caller's bets);
+// default: mine when signed in
 export async function GET(request: NextRequest) {
+  const portfolio = await getPortfolioScope(request);
+  if (!portfolio.ok) return portfolio.response;
+  const ownerWhere = portfolioBetWhere(portfolio.scope);
+
   try {
     const { searchParams } = new URL(request.url);
     const season = searchParams.get('season');
@@ -22,8 +30,8 @@ export async function GET(request: NextRequest) {
     if (season) where.season = parseInt(season);
     if (week) where.week = parseInt(week);
     
-    // Always filter to strategy-run bets (not manual entries)
-    where.source = 'strategy_run';
+    // House: strategy-run bets only (not manual entries)
+    Object.assign(where, ownerWhere);
     
     // Only filter by strategy if it's provided and not empty (not "All Strategies")
     if (strategy && strategy.trim() !== '' && strategy !== 'all') {
@@ -70,7 +78,7 @@ export async function GET(request: NextRequest) {
     const metaWhere: any = {};
     if (season) metaWhere.season = parseInt(season);
     if (week) metaWhere.week = parseInt(week);
-    metaWhere.source = 'strategy_run';
+    Object.assign(metaWhere, ownerWhere);
     // Use same strategy filter as main query
     if (strategy && strategy.trim() !== '' && strategy !== 'all') {
       metaWhere.strategyTag = strategy;
@@ -98,7 +106,7 @@ export async function GET(request: NextRequest) {
       where: {
         ...(season && { season: parseInt(season) }),
         ...(week && { week: parseInt(week) }),
-        source: 'strategy_run',
+        ...ownerWhere,
       },
       select: {
         strategyTag: true,
@@ -223,6 +231,7 @@ export async function GET(request: NextRequest) {
 
     return NextResponse.json({
       success: true,
+      portfolio: portfolio.scope.portfolio,
       pagination: {
         currentPage: page,
         pageSize: limit,
@@ -0,0 +1,86 @@
+/**
+ * Parlays and Teasers
+ * Requires the bettor role (lib/auth.ts)
+ *
+ * POST: Record a parlay or teaser (lib/tickets.ts) in the caller's portfolio;
+ * admins can pass portfolio: 'house' (lib/portfolio.ts)
+ *   - body: { type: 'parlay' | 'teaser', teaserPoints? (6, 6.5, 7), stake,
+ *     price? (American; default: the parlay product or the teaser table),
+ *     legs: [{ gameId, marketType, side, line?, price? }], strategyTag?, notes?,
+ *     bookName?, bankrollId? }
+ *     Spread lines are side-relative (home -7 → line -7) and before teaser points.
+ *   - Returns the ticket with the model's EV per unit staked
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { authorize } from '@/lib/auth-context';
+import { newRowOwner } from '@/lib/portfolio';
+import { validateTicketInput } from '@/lib/tickets';
+import { createTicket, priceTicket } from '@/lib/tickets-context';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+export async function POST(request: NextRequest) {
+  const auth = await authorize(request, 'bettor');
+  if (!auth.ok) return auth.response;
+
+  try {
+    const body = await request.json();
+
+    const owner = newRowOwner(body.portfolio, auth.principal);
+    if ('error' in owner) {
+      return NextResponse.json(
+        { success: false, error: owner.error },
+        { status: 403 }
+      );
+    }
+
+    const validation = validateTicketInput(body);
+    if (!validation.valid) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid ticket', details: validation.errors },
+        { status: 400 }
+      );
+    }
+
+    const result = await createTicket(validation.data, owner.userId, {
+      strategyTag: typeof body.strategyTag === 'string' ? body.strategyTag.trim() : undefined,
+      notes: body.notes || null,
+      bookName: body.bookName || null,
+      bankrollId: body.bankrollId || null,
+    });
+    if (!result.ok) {
+      return NextResponse.json(
+        { success: false, error: result.error },
+        { status: result.status }
+      );
+    }
+
+    const pricing = await priceTicket(result.bet);
+
+    return NextResponse.json({
+      success: true,
+      bet: {
+        ...result.bet,
+        modelPrice: Number(result.bet.modelPrice),
+        stake: Number(result.bet.stake),
+        teaserPoints: result.bet.teaserPoints !== null ? Number(result.bet.teaserPoints) : null,
+        legs: result.bet.legs.map((leg: any, i: number) => ({
+          ...leg,
+          line: leg.line !== null ? Number(leg.line) : null,
+          price: leg.price !== null ? Number(leg.price) : null,
+          probabilities: pricing.legs[i],
+        })),
+        modelEv: pricing.ev,
+        modelEvPrior: pricing.evIsPrior,
+      },
+    });
+  } catch (error) {
+    console.error('Error creating ticket:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to create ticket' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,59 @@
+/**
+ * Season Calendar API
+ *
+ * The season's weeks (week 0, regular season, championship week, bowls and CFP
+ * rounds) with date spans, betting windows and stored game counts, plus the week
+ * being bet on now (or at `date`)
+ *
+ * Query params:
+ *   - season: number (optional, default current season)
+ *   - date: ISO date/time (optional) - resolve the week for this moment instead of now
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getDefaultSeason, getSeasonCalendar } from '@/lib/season-calendar-context';
+import { resolveCurrentWeek, weekForDate } from '@/lib/season-calendar';
+
+export const dynamic = 'force-dynamic';
+
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const seasonParam = searchParams.get('season');
+    const dateParam = searchParams.get('date');
+
+    const season = seasonParam ? parseInt(seasonParam, 10) : null;
+    if (seasonParam && (!season || season < 1900)) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid season parameter' },
+        { status: 400 }
+      );
+    }
+    const at = dateParam ? new Date(dateParam) : new Date();
+    if (isNaN(at.getTime())) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid date parameter' },
+        { status: 400 }
+      );
+    }
+
+    const calendar = await getSeasonCalendar(season ?? await getDefaultSeason(at));
+    const current = resolveCurrentWeek(calendar, at);
+
+    return NextResponse.json({
+      success: true,
+      season: calendar.season,
+      asOf: at.toISOString(),
+      currentWeek: current.week,
+      current,
+      containing: weekForDate(calendar, at),
+      weeks: calendar.weeks,
+    });
+  } catch (error) {
+    console.error('Error building season calendar:', error);
+    return NextResponse.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,11 +1,11 @@
 import { prisma } from '@/lib/prisma';
 import { NextRequest, NextResponse } from 'next/server';
+import { resolveSeasonWeek } from '@/lib/season-calendar-context';
 
 export async function GET(request: NextRequest) {
   try {
     const searchParams = request.nextUrl.searchParams;
-    const season = parseInt(searchParams.get('season') || '2025');
-    const week = parseInt(searchParams.get('week') || '9');
+    const { season, week } = await resolveSeasonWeek(searchParams);
 
     // Get total games for the week
     const totalGames = await prisma.game.count({
@@ -61,8 +61,8 @@ export async function GET(request: NextRequest) {
       success: false,
       error: 'Failed to fetch odds coverage data',
       details: error instanceof Error ? error.message : 'Unknown error',
-      season: parseInt(request.nextUrl.searchParams.get('season') || '2025'),
-      week: parseInt(request.nextUrl.searchParams.get('week') || '9')
+      season: request.nextUrl.searchParams.get('season'),
+      week: request.nextUrl.searchParams.get('week')
     }, { status: 500 });
   }
 }
@@ -1,16 +1,13 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { PrismaClient } from '@prisma/client';
+import { resolveSeasonWeek } from '@/lib/season-calendar-context';
 
 const prisma = new PrismaClient();
 
 export async function GET(request: NextRequest) {
   try {
     const { searchParams } = new URL(request.url);
-    const season = searchParams.get('season') || '2025';
-    const week = searchParams.get('week') || '9';
-
-    const seasonNum = parseInt(season);
-    const weekNum = parseInt(week);
+    const { season: seasonNum, week: weekNum } = await resolveSeasonWeek(searchParams);
 
     // Get coverage breakdown by book and line type
     const coverage = await prisma.marketLine.groupBy({
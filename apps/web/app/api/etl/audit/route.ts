@@ -11,6 +11,7 @@
 
 import { NextRequest, NextResponse } from 'next/server';
 import { PrismaClient } from '@prisma/client';
+import { resolveSeason } from '@/lib/season-calendar-context';
 
 const prisma = new PrismaClient();
 
@@ -49,7 +50,7 @@ interface AuditResult {
 export async function GET(request: NextRequest) {
   try {
     const { searchParams } = new URL(request.url);
-    const season = parseInt(searchParams.get('season') || '2025');
+    const season = await resolveSeason(searchParams);
     const week = searchParams.get('week') ? parseInt(searchParams.get('week')!) : undefined;
 
     console.log(`[ETL_AUDIT] Auditing season ${season}${week ? ` week ${week}` : ''}`);
@@ -0,0 +1,51 @@
+/**
+ * Futures API
+ *
+ * Latest win-total and conference-winner lines (FuturesMarket, loaded with
+ * scripts/load-futures.ts) compared with the latest season simulation
+ *
+ * Query params:
+ *   - season: number (optional, default current season)
+ *   - book: string (optional) - one book's lines
+ *   - minEdge: number (optional) - probability edge to flag, default 0.04
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { getDefaultSeason } from '@/lib/season-calendar-context';
+import { loadFuturesComparison } from '@/lib/futures-context';
+
+export const dynamic = 'force-dynamic';
+
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const seasonParam = searchParams.get('season');
+    const book = searchParams.get('book');
+    const minEdgeParam = searchParams.get('minEdge');
+    const minEdge = minEdgeParam !== null ? parseFloat(minEdgeParam) : undefined;
+
+    const season = seasonParam ? parseInt(seasonParam, 10) : await getDefaultSeason();
+    if (isNaN(season)) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid season parameter' },
+        { status: 400 }
+      );
+    }
+    if (minEdge !== undefined && (isNaN(minEdge) || minEdge < 0 || minEdge >= 1)) {
+      return NextResponse.json(
+        { success: false, error: 'minEdge must be a probability between 0 and 1' },
+        { status: 400 }
+      );
+    }
+
+    const comparison = await loadFuturesComparison(season, { book, minEdge });
+    return NextResponse.json({ success: true, ...comparison });
+  } catch (error) {
+    console.error('Error loading futures comparison:', error);
+    return NextResponse.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,33 @@
+/**
+ * Live Game API
+ *
+ * In-game win probability and fair live spread after every score/clock update,
+ * plus spread lines posted after kickoff
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { loadLiveGame } from '@/lib/live-game-context';
+
+export const dynamic = 'force-dynamic';
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { gameId: string } }
+) {
+  try {
+    const live = await loadLiveGame(params.gameId);
+    if (!live) {
+      return NextResponse.json(
+        { success: false, error: 'Game not found' },
+        { status: 404 }
+      );
+    }
+    return NextResponse.json({ success: true, ...live });
+  } catch (error) {
+    console.error('Error loading live game:', error);
+    return NextResponse.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -8,8 +8,16 @@ import { prisma } from '@/lib/prisma';
 import { computeSpreadPick, computeTotalPick, convertToFavoriteCentric, computeATSEdge, computeBettableSpreadPick, computeTotalBetTo } from '@/lib/pick-helpers';
 import { pickMarketLine, getLineValue, getPointValue, looksLikePriceLeak, pickMoneyline, americanToProb } from '@/lib/market-line-helpers';
 import { getCoreV1SpreadFromTeams, getATSPick, computeATSEdgeHma } from '@/lib/core-v1-spread';
+import { HfaBreakdown } from '@/lib/hfa-model';
+import { parseAsOf, marketLineAsOf, createdAsOf } from '@/lib/as-of';
+import { loadTeamSeasonRating, loadTeamUnitGrades } from '@/lib/rating-snapshots-context';
+import { loadMatchupOutputs } from '@/lib/matchup-output-context';
+import { loadInjuryRows } from '@/lib/injury-context';
 import { getOUPick } from '@/lib/core-v1-total';
+import { TotalsV2Projection } from '@/lib/totals-v2-model';
+import { getTotalsV2Projection } from '@/lib/totals-v2-context';
 import { calculateHybridSpread } from '@/lib/core-v2-spread';
+import { getCoreModel } from '@/lib/model-registry';
 import { NextResponse } from 'next/server';
 
 // === V1 MODE CONFIGURATION ===
@@ -66,6 +74,24 @@ export async function GET(
     const url = new URL(request.url);
     const debugMode = url.searchParams.get('debug') === '1';
     const enableWeather = url.searchParams.get('weather') === 'true' || url.searchParams.get('adjustments') === 'true';
+    // Point-in-time replay: only use ratings/lines/injuries that existed at this timestamp
+    const { asOf, error: asOfError } = parseAsOf(url.searchParams.get('asOf'));
+    // Registered model version to serve (default: the season's active version)
+    const modelVersion = url.searchParams.get('modelVersion');
+
+    if (asOfError) {
+      return NextResponse.json(
+        { success: false, error: asOfError },
+        { status: 400 }
+      );
+    }
+
+    if (modelVersion && !(await getCoreModel(modelVersion))) {
+      return NextResponse.json(
+        { success: false, error: `Unknown model version: ${modelVersion}` },
+        { status: 404 }
+      );
+    }
 
     // Get game with all related data
     const game = await prisma.game.findUnique({
@@ -73,23 +99,10 @@ export async function GET(
       include: {
         homeTeam: true,
         awayTeam: true,
-        marketLines: true, // Now includes teamId field after schema migration
-        weather: true,
-        injuries: {
-          include: {
-            team: {
-              select: {
-                id: true,
-                name: true,
-              }
-            }
-          }
-        },
-        matchupOutputs: {
-          where: {
-            modelVersion: 'v0.0.1'
-          }
+        marketLines: { // Now includes teamId field after schema migration
+          where: marketLineAsOf(asOf),
         },
+        weather: true,
         teamGameStats: {
           include: {
             team: true
@@ -112,7 +125,9 @@ export async function GET(
       where: {
         gameId: game.id,
         strategyTag: 'official_flat_100',
+        userId: null,
         marketType: 'spread',
+        ...createdAsOf(asOf),
       },
     });
 
@@ -121,11 +136,15 @@ export async function GET(
       where: {
         gameId: game.id,
         strategyTag: 'hybrid_v2',
+        userId: null,
         marketType: 'spread',
+        ...createdAsOf(asOf),
       },
     });
 
-    const matchupOutput = game.matchupOutputs[0];
+    // Injuries and matchup outputs are updated in place; asOf replays their snapshots
+    const matchupOutput = (await loadMatchupOutputs([game.id], 'v0.0.1', asOf)).get(game.id);
+    const injuryRows = await loadInjuryRows([game.id], asOf);
     
     // ============================================
     // COMPLETED GAMES: Use Pre-Kick Lines Only
@@ -964,48 +983,11 @@ export async function GET(
     };
 
     // Get power ratings from team_season_ratings (V1 with conference adjustments, fallback to V2)
-    const [homeRatingV1, awayRatingV1] = await Promise.all([
-      prisma.teamSeasonRating.findUnique({
-        where: {
-          season_teamId_modelVersion: {
-            season: game.season,
-            teamId: game.homeTeamId,
-            modelVersion: 'v1',
-          },
-        },
-      }),
-      prisma.teamSeasonRating.findUnique({
-        where: {
-          season_teamId_modelVersion: {
-            season: game.season,
-            teamId: game.awayTeamId,
-            modelVersion: 'v1',
-          },
-        },
-      }),
+    const [homeRating, awayRating] = await Promise.all([
+      loadTeamSeasonRating(game.season, game.homeTeamId, ['v1', 'v2'], asOf),
+      loadTeamSeasonRating(game.season, game.awayTeamId, ['v1', 'v2'], asOf),
     ]);
 
-    // Fallback to V2 if V1 not available
-    const homeRating = homeRatingV1 || await prisma.teamSeasonRating.findUnique({
-      where: {
-        season_teamId_modelVersion: {
-          season: game.season,
-          teamId: game.homeTeamId,
-          modelVersion: 'v2',
-        },
-      },
-    });
-
-    const awayRating = awayRatingV1 || await prisma.teamSeasonRating.findUnique({
-      where: {
-        season_teamId_modelVersion: {
-          season: game.season,
-          teamId: game.awayTeamId,
-          modelVersion: 'v2',
-        },
-      },
-    });
-
     // Get base ratings for comparison
     const homeRatingBase = homeRating ? Number(homeRating.powerRating || homeRating.rating || 0) : 0;
     const awayRatingBase = awayRating ? Number(awayRating.powerRating || awayRating.rating || 0) : 0;
@@ -1534,12 +1516,7 @@ export async function GET(
     let hfaUsed: number = game.neutralSite 
       ? 0 
       : (homeHFA !== null ? homeHFA : 2.0); // Fallback to 2.0 if not computed yet
-    let hfaInfo: {
-      effectiveHfa: number;
-      baseHfa: number;
-      teamAdjustment: number;
-      rawHfa: number;
-    } | null = null;
+    let hfaInfo: HfaBreakdown | null = null;
     
     const hfaCapped = homeHFA !== null && (homeHFA < 0.5 || homeHFA > 5.0);
     const hfaLowSample = (hfaNHome + hfaNAway) < LOW_SAMPLE_THRESHOLD;
@@ -1655,7 +1632,11 @@ export async function GET(
           game.awayTeamId,
           game.neutralSite || false,
           game.homeTeam.name,
-          game.awayTeam.name
+          game.awayTeam.name,
+          asOf,
+          game.date,
+          game.id,
+          modelVersion
         );
         
         finalImpliedSpread = coreV1SpreadInfo.coreSpreadHma;
@@ -1710,6 +1691,23 @@ export async function GET(
                                  ((isValidSpread ? matchupOutput.impliedSpread : null) ?? computedSpread);
     }
     
+    // Totals V2: plays × points per play from pace/efficiency matchups, plus weather
+    let totalsV2Projection: TotalsV2Projection | null = null;
+    if (USE_CORE_V1) {
+      try {
+        totalsV2Projection = await getTotalsV2Projection({
+          id: game.id,
+          season: game.season,
+          week: game.week,
+          homeTeamId: game.homeTeamId,
+          awayTeamId: game.awayTeamId,
+          date: game.date,
+        }, asOf);
+      } catch (error) {
+        console.warn(`[Game ${gameId}] Totals V2 unavailable, using spread overlay:`, (error as Error).message);
+      }
+    }
+
     // Initialize finalSpreadWithOverlay (V1: no overlay, use Core V1 directly)
     let finalSpreadWithOverlay = finalImpliedSpread;
     
@@ -2935,7 +2933,7 @@ export async function GET(
       
       if (marketTotal !== null && marketSpreadHmaForTotals !== null) {
         // Compute Core V1 total using spread-driven overlay
-        const ouPick = getOUPick(marketTotal, marketSpreadHmaForTotals, coreV1SpreadInfo.coreSpreadHma);
+        const ouPick = getOUPick(marketTotal, marketSpreadHmaForTotals, coreV1SpreadInfo.coreSpreadHma, totalsV2Projection?.modelTotal ?? null);
         finalImpliedTotal = ouPick.modelTotal;
         
         // CRITICAL FIX: Update validation flag AFTER calculation
@@ -3976,7 +3974,7 @@ export async function GET(
     }
     
     if (USE_CORE_V1 && coreV1SpreadInfo && marketTotal !== null && marketSpreadHmaForOuPick !== null) {
-      const ouPick = getOUPick(marketTotal, marketSpreadHmaForOuPick, coreV1SpreadInfo.coreSpreadHma);
+      const ouPick = getOUPick(marketTotal, marketSpreadHmaForOuPick, coreV1SpreadInfo.coreSpreadHma, totalsV2Projection?.modelTotal ?? null);
       ouPickInfo = {
         modelTotal: ouPick.modelTotal,
         marketTotal: marketTotal,
@@ -3990,6 +3988,7 @@ export async function GET(
     // Legacy mode ouPickInfo will be computed later after totalPick is available
 
     const model_view = {
+      modelVersion: coreV1SpreadInfo?.modelVersion ?? null, // Registry version behind the Core V1 spread
       modelFavoriteTeamId: modelFavoriteTeamId,
       modelFavoriteName: modelFavoriteName,
       modelFavoriteLine: modelFavoriteLine, // Favorite-centric, negative (or 0.0 for pick'em)
@@ -4001,6 +4000,17 @@ export async function GET(
         ouEdgePts: totalEdgePts // ✅ Capped overlay (not raw disagreement)
       },
       totals: ouPickInfo, // ✅ Totals V1 fields (raw and official)
+      // Totals V2 breakdown: expected plays and points per play per offense, weather terms
+      totals_v2: totalsV2Projection ? {
+        modelTotal: totalsV2Projection.modelTotal,
+        rawTotal: totalsV2Projection.rawTotal,
+        expectedPlays: totalsV2Projection.expectedPlays,
+        home: totalsV2Projection.home,
+        away: totalsV2Projection.away,
+        weatherAdj: totalsV2Projection.weatherAdj,
+        weatherComponents: totalsV2Projection.weatherComponents,
+        weatherSource: totalsV2Projection.weatherSource,
+      } : null,
       // PHASE 2.1: Features for calibration (talent gap, matchup class, HFA, recency)
       features: {
         talent: {
@@ -4035,6 +4045,9 @@ export async function GET(
           baseHfa: hfaInfo?.baseHfa ?? (game.neutralSite ? 0 : 2.0), // HFA v2 base value
           teamAdjustment: hfaInfo?.teamAdjustment ?? 0.0, // HFA v2 team adjustment
           rawHfa: hfaInfo?.rawHfa ?? hfaUsed, // HFA v2 raw (before clipping)
+          components: hfaInfo?.components ?? null, // HFA v3: points from travel/timezone/altitude/rest/crowd
+          inputs: hfaInfo ? { ...hfaInfo.features, travelMiles: hfaInfo.travelMiles } : null, // HFA v3 feature values
+          paramsSource: hfaInfo?.source ?? null, // 'fitted' (HfaSeasonParams) or 'config' (HFA v2 JSON)
           raw: hfaRaw, // Legacy: Raw HFA before shrinkage (Phase 2.3)
           shrink_w: hfaShrinkW, // Legacy: Shrinkage weight (0-1)
           n_home: hfaNHome, // Legacy: Number of home games used
@@ -4044,8 +4057,32 @@ export async function GET(
           low_sample: hfaLowSample, // Legacy: True if n_total < 4
           outlier: hfaOutlier, // Legacy: True if |hfa_raw| > 8
           neutral_site: game.neutralSite,
-          note: hfaInfo ? 'HFA v2 (config-based)' : 'Team-specific HFA with shrinkage (Phase 2.3)'
+          note: hfaInfo
+            ? (hfaInfo.source === 'fitted' ? `HFA v3 (fitted ${hfaInfo.season})` : 'HFA v2 (config-based)')
+            : 'Team-specific HFA with shrinkage (Phase 2.3)'
         },
+        // Injury impact: usage- and severity-weighted Injury rows, included in the Core V1 spread
+        injury: coreV1SpreadInfo?.injuryInfo ? {
+          adjPts: coreV1SpreadInfo.injuryInfo.injuryAdjPts, // HMA: positive moves the spread toward home
+          fitted: coreV1SpreadInfo.injuryInfo.fitted, // false = scale not fitted yet, adjPts is 0
+          rawAdjPts: coreV1SpreadInfo.injuryInfo.rawAdjPts, // awayImpact - homeImpact before scale/clamp
+          scale: coreV1SpreadInfo.injuryInfo.scale,
+          homeImpactPts: coreV1SpreadInfo.injuryInfo.home.impactPts,
+          awayImpactPts: coreV1SpreadInfo.injuryInfo.away.impactPts,
+          players: [...coreV1SpreadInfo.injuryInfo.home.players, ...coreV1SpreadInfo.injuryInfo.away.players].map(p => ({
+            teamId: p.teamId,
+            side: p.teamId === game.homeTeamId ? 'home' as const : 'away' as const,
+            playerName: p.playerName,
+            position: p.position,
+            group: p.group,
+            severity: p.severity,
+            usageShare: p.usageShare,
+            usageSource: p.usageSource,
+            missProbability: p.missProbability,
+            impactPts: p.impactPts * coreV1SpreadInfo!.injuryInfo!.scale,
+          })),
+          breakdown: coreV1SpreadInfo.injuryInfo.breakdown,
+        } : null,
         // PHASE 2.4: Recency-Weighted Stats
         recency: {
           weights: {
@@ -4088,6 +4125,7 @@ export async function GET(
         rating_home_used: (isFinite(homeRatingWeighted) && !isNaN(homeRatingWeighted)) ? homeRatingWeighted : homeRatingBase,
         rating_away_used: (isFinite(awayRatingWeighted) && !isNaN(awayRatingWeighted)) ? awayRatingWeighted : awayRatingBase,
         hfa_used: hfaUsed,
+        injury_adj_used: coreV1SpreadInfo?.injuryInfo?.injuryAdjPts ?? 0, // HMA points, included in the Core V1 spread
         raw_model_spread_from_used: (() => {
           // Compute raw spread (home-minus-away)
           const rawSpreadHMA = (isFinite(homeRatingWeighted) && !isNaN(homeRatingWeighted) && 
@@ -4843,9 +4881,7 @@ export async function GET(
       }
 
       // Last resort: baseline ratings
-      const baselineRating = await prisma.teamSeasonRating.findUnique({
-        where: { season_teamId_modelVersion: { season, teamId, modelVersion: 'v2' } }
-      });
+      const baselineRating = await loadTeamSeasonRating(season, teamId, ['v2'], asOf);
 
       if (baselineRating) {
         const offenseRating = toNumber(baselineRating.offenseRating) || 0;
@@ -5231,24 +5267,9 @@ export async function GET(
     
     try {
       // Get unit grades (already fetched in unitGrades block, but we need them here)
-      const prismaClient = prisma as any;
       const [homeGrades, awayGrades] = await Promise.all([
-        prismaClient.teamUnitGrades.findUnique({
-          where: {
-            teamId_season: {
-              teamId: game.homeTeamId,
-              season: game.season,
-            },
-          },
-        }),
-        prismaClient.teamUnitGrades.findUnique({
-          where: {
-            teamId_season: {
-              teamId: game.awayTeamId,
-              season: game.season,
-            },
-          },
-        }),
+        loadTeamUnitGrades(game.season, game.homeTeamId, asOf),
+        loadTeamUnitGrades(game.season, game.awayTeamId, asOf),
       ]);
 
       if (homeRating && awayRating && homeGrades && awayGrades) {
@@ -5503,12 +5524,12 @@ export async function GET(
       clvHint: await (async () => {
         // Calculate if market moved toward model since opening
         const spreadLines = await prisma.marketLine.findMany({
-          where: { gameId, lineType: 'spread' },
+          where: { gameId, lineType: 'spread', ...marketLineAsOf(asOf) },
           orderBy: { timestamp: 'asc' },
           take: 1
         });
         const totalLines = await prisma.marketLine.findMany({
-          where: { gameId, lineType: 'total' },
+          where: { gameId, lineType: 'total', ...marketLineAsOf(asOf) },
           orderBy: { timestamp: 'asc' },
           take: 1
         });
@@ -5575,25 +5596,9 @@ export async function GET(
       // Unit Grades for V2 Matchup Analysis
       unitGrades: await (async () => {
         // Fetch unit grades separately for the current season
-        // Note: Using type assertion as Prisma client may need regeneration
-        const prismaClient = prisma as any;
         const [homeGrades, awayGrades] = await Promise.all([
-          prismaClient.teamUnitGrades.findUnique({
-            where: {
-              teamId_season: {
-                teamId: game.homeTeamId,
-                season: game.season,
-              },
-            },
-          }),
-          prismaClient.teamUnitGrades.findUnique({
-            where: {
-              teamId_season: {
-                teamId: game.awayTeamId,
-                season: game.season,
-              },
-            },
-          }),
+          loadTeamUnitGrades(game.season, game.homeTeamId, asOf),
+          loadTeamUnitGrades(game.season, game.awayTeamId, asOf),
         ]);
         
         if (!homeGrades || !awayGrades) {
@@ -5630,24 +5635,9 @@ export async function GET(
         }
         
         // Get unit grades (already fetched above, but we need to fetch again here or pass them)
-        const prismaClient = prisma as any;
         const [homeGrades, awayGrades] = await Promise.all([
-          prismaClient.teamUnitGrades.findUnique({
-            where: {
-              teamId_season: {
-                teamId: game.homeTeamId,
-                season: game.season,
-              },
-            },
-          }),
-          prismaClient.teamUnitGrades.findUnique({
-            where: {
-              teamId_season: {
-                teamId: game.awayTeamId,
-                season: game.season,
-              },
-            },
-          }),
+          loadTeamUnitGrades(game.season, game.homeTeamId, asOf),
+          loadTeamUnitGrades(game.season, game.awayTeamId, asOf),
         ]);
         
         // Need V1 ratings for hybrid calculation
@@ -5992,10 +5982,10 @@ export async function GET(
       } : null,
 
       // Injury data (if available)
-      injuries: game.injuries.map(injury => ({
-        id: injury.id,
+      injuries: injuryRows.map(injury => ({
+        id: 'injuryId' in injury ? injury.injuryId : injury.id,
         teamId: injury.teamId,
-        teamName: injury.team.name,
+        teamName: injury.teamId === game.homeTeamId ? game.homeTeam.name : game.awayTeam.name,
         playerName: injury.playerName,
         position: injury.position,
         severity: injury.severity,
@@ -6010,7 +6000,7 @@ export async function GET(
       lineHistory: await (async () => {
         // Fetch all market lines for this game
         const allLines = await prisma.marketLine.findMany({
-          where: { gameId },
+          where: { gameId, ...marketLineAsOf(asOf) },
           orderBy: { timestamp: 'asc' },
           select: {
             id: true,
@@ -0,0 +1,91 @@
+/**
+ * Ingest Runs API
+ *
+ * Recent IngestRun ledger entries (written by ingest.ts and the ETL jobs) with
+ * the number of rows each run wrote to market_lines, weather, injuries and
+ * team_game_stats
+ *
+ * Query params:
+ *   - limit: number (optional, default 25, max 200)
+ *   - job: string (optional) - job name, e.g. ingest, cfbd_team_stats
+ *   - status: string (optional) - running, success, partial or failed
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+
+export const dynamic = 'force-dynamic';
+
+const RUN_STATUSES = ['running', 'success', 'partial', 'failed'];
+
+// Runs still 'running' after this long most likely crashed before closing
+const RUNNING_STALE_HOURS = 6;
+
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const limit = parseInt(searchParams.get('limit') || '25', 10);
+    const job = searchParams.get('job');
+    const status = searchParams.get('status');
+
+    if (isNaN(limit) || limit < 1 || limit > 200) {
+      return NextResponse.json(
+        { success: false, error: 'limit must be between 1 and 200' },
+        { status: 400 }
+      );
+    }
+    if (status && !RUN_STATUSES.includes(status)) {
+      return NextResponse.json(
+        { success: false, error: `status must be one of ${RUN_STATUSES.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    const runs = await prisma.ingestRun.findMany({
+      where: {
+        ...(job ? { jobName: job } : {}),
+        ...(status ? { status } : {}),
+      },
+      orderBy: { startedAt: 'desc' },
+      take: limit,
+      include: {
+        _count: { select: { marketLines: true, weather: true, injuries: true, teamGameStats: true } },
+      },
+    });
+
+    const staleBefore = Date.now() - RUNNING_STALE_HOURS * 60 * 60 * 1000;
+
+    return NextResponse.json({
+      success: true,
+      runs: runs.map((run: any) => ({
+        id: run.id,
+        jobName: run.jobName,
+        adapter: run.adapter,
+        season: run.season,
+        weeks: run.weeks,
+        status: run.status === 'running' && new Date(run.startedAt).getTime() < staleBefore ? 'stale' : run.status,
+        startedAt: run.startedAt,
+        finishedAt: run.finishedAt,
+        durationMs: run.finishedAt ? new Date(run.finishedAt).getTime() - new Date(run.startedAt).getTime() : null,
+        rowsInserted: run.rowsInserted,
+        rowsUpdated: run.rowsUpdated,
+        rowsSkipped: run.rowsSkipped,
+        unmatchedTeams: run.unmatchedTeams,
+        apiCreditsUsed: run.apiCreditsUsed,
+        errors: run.errors,
+        linkedRows: {
+          marketLines: run._count.marketLines,
+          weather: run._count.weather,
+          injuries: run._count.injuries,
+          teamGameStats: run._count.teamGameStats,
+        },
+      })),
+    });
+  } catch (error) {
+    console.error('Error loading ingest runs:', error);
+    return NextResponse.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,14 +1,29 @@
 import { prisma } from '@/lib/prisma';
 
+// Adapter checks older than this are flagged stale (health job not running)
+const ADAPTER_HEALTH_STALE_HOURS = 24;
+
 export async function GET() {
   try {
-    const [games, lines, ratings, matchups] = await Promise.all([
+    const [games, lines, ratings, matchups, healthChecks, latestRuns] = await Promise.all([
       prisma.game.aggregate({ _max: { updatedAt: true }, _count: true }),
       prisma.marketLine.aggregate({ _max: { updatedAt: true }, _count: true }),
       prisma.powerRating.aggregate({ _max: { updatedAt: true }, _count: true }),
       prisma.matchupOutput.aggregate({ _max: { updatedAt: true }, _count: true }),
+      // Latest check per adapter (written by the adapter health job)
+      prisma.adapterHealthCheck.findMany({
+        distinct: ['adapter'],
+        orderBy: [{ adapter: 'asc' }, { checkedAt: 'desc' }],
+      }),
+      // Latest IngestRun per job (the full ledger is at /api/ingest-runs)
+      prisma.ingestRun.findMany({
+        distinct: ['jobName'],
+        orderBy: [{ jobName: 'asc' }, { startedAt: 'desc' }],
+      }),
     ]);
 
+    const staleBefore = Date.now() - ADAPTER_HEALTH_STALE_HOURS * 60 * 60 * 1000;
+
     return Response.json({
       success: true,
       lastUpdated: {
@@ -22,10 +37,32 @@ export async function GET() {
         market_lines: lines._count,
         power_ratings: ratings._count,
         matchup_outputs: matchups._count,
-      }
+      },
+      adapters: healthChecks.map((check: any) => ({
+        adapter: check.adapter,
+        provider: check.provider,
+        capabilities: check.capabilities,
+        ok: check.ok,
+        message: check.message,
+        latencyMs: check.latencyMs,
+        quotaRemaining: check.quotaRemaining,
+        quotaUsed: check.quotaUsed,
+        checkedAt: check.checkedAt,
+        stale: new Date(check.checkedAt).getTime() < staleBefore,
+      })),
+      runs: latestRuns.map((run: any) => ({
+        id: run.id,
+        jobName: run.jobName,
+        adapter: run.adapter,
+        status: run.status,
+        startedAt: run.startedAt,
+        finishedAt: run.finishedAt,
+        rowsInserted: run.rowsInserted,
+        rowsUpdated: run.rowsUpdated,
+        errors: run.errors.length,
+      })),
     });
   } catch (e) {
     return Response.json({ success: false, error: (e as Error).message }, { status: 500 });
   }
 }
-
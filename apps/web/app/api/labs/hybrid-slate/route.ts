@@ -8,8 +8,10 @@ export const dynamic = 'force-dynamic';
 
 import { NextRequest, NextResponse } from 'next/server';
 import { prisma } from '@/lib/prisma';
+import { resolveSeasonWeek } from '@/lib/season-calendar-context';
 import { calculateHybridSpread, calculateV1Spread } from '@/lib/core-v2-spread';
 import { getCoreV1SpreadFromTeams } from '@/lib/core-v1-spread';
+import { getGameHfa } from '@/lib/hfa-context';
 
 interface HybridGame {
   gameId: string;
@@ -56,10 +58,9 @@ interface HybridGame {
 export async function GET(request: NextRequest) {
   try {
     const url = new URL(request.url);
-    const season = parseInt(url.searchParams.get('season') || '2025', 10);
-    const week = parseInt(url.searchParams.get('week') || '9', 10);
+    const { season, week } = await resolveSeasonWeek(url.searchParams);
 
-    if (!season || !week) {
+    if (!season || week < 0) {
       return NextResponse.json(
         { error: 'Invalid season or week parameter' },
         { status: 400 }
@@ -163,12 +164,23 @@ export async function GET(request: NextRequest) {
         continue;
       }
 
+      // Per-game HFA once the season has fitted HFA v3 params; otherwise the hybrid's flat default
+      const hfa = await getGameHfa({
+        season,
+        homeTeamId: game.homeTeamId,
+        awayTeamId: game.awayTeamId,
+        neutralSite: game.neutralSite || false,
+        gameDate: game.date,
+      });
+      const hfaPoints = hfa.source === 'fitted' ? hfa.effectiveHfa : null;
+
       // Calculate V1 spread using the same logic as hybrid blend
       // This ensures consistency between V1 display and hybrid calculation
       const v1SpreadHma = calculateV1Spread(
         homeRating,
         awayRating,
-        game.neutralSite || false
+        game.neutralSite || false,
+        hfaPoints
       );
       
       // Determine favorite for V1
@@ -201,7 +213,9 @@ export async function GET(request: NextRequest) {
         },
         game.neutralSite || false,
         game.homeTeamId,
-        game.awayTeamId
+        game.awayTeamId,
+        null,
+        hfaPoints
       );
 
       // Get favorite names
@@ -8,7 +8,7 @@ export const dynamic = 'force-dynamic';
 
 import { NextRequest, NextResponse } from 'next/server';
 import { prisma } from '@/lib/prisma';
-import { getCurrentSeasonWeek } from '@/lib/current-week';
+import { getDefaultSeason } from '@/lib/season-calendar-context';
 
 type RiskBand = "low" | "medium" | "high";
 
@@ -95,8 +95,7 @@ export async function GET(request: NextRequest) {
         );
       }
     } else {
-      const current = await getCurrentSeasonWeek(prisma);
-      season = current.season;
+      season = await getDefaultSeason();
     }
 
     // Load TeamSeasonStat rows
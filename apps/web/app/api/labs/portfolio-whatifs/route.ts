@@ -9,6 +9,8 @@ export const dynamic = 'force-dynamic';
 
 import { NextRequest, NextResponse } from 'next/server';
 import { prisma } from '@/lib/prisma';
+import { resolveSeason } from '@/lib/season-calendar-context';
+import { isStraightBet } from '@/lib/tickets';
 
 interface PortfolioStats {
   bets: number;
@@ -39,7 +41,7 @@ function isBetTeamDog(closePrice: number | null): boolean {
 export async function GET(request: NextRequest) {
   try {
     const url = new URL(request.url);
-    const season = parseInt(url.searchParams.get('season') || '2025', 10);
+    const season = await resolveSeason(url.searchParams);
 
     if (!season) {
       return NextResponse.json(
@@ -65,10 +67,11 @@ export async function GET(request: NextRequest) {
     const scenarios: PortfolioScenario[] = [];
 
     // Scenario 1: Official Baseline (all bets)
-    const officialBaseline = await prisma.bet.findMany({
+    const officialRows = await prisma.bet.findMany({
       where: {
         season,
         strategyTag: 'official_flat_100',
+        userId: null,
         marketType: 'spread',
         result: { in: ['win', 'loss', 'push'] },
       },
@@ -81,6 +84,7 @@ export async function GET(request: NextRequest) {
         },
       },
     });
+    const officialBaseline = officialRows.filter(isStraightBet);
 
     const officialBaselineStats = calculateStats(officialBaseline, continuityMap);
     scenarios.push({
@@ -112,6 +116,7 @@ export async function GET(request: NextRequest) {
       where: {
         season,
         strategyTag: 'hybrid_v2',
+        userId: null,
         marketType: 'spread',
       },
       select: {
@@ -121,7 +126,7 @@ export async function GET(request: NextRequest) {
     });
 
     const gameConflictMap = new Map<string, string | null>();
-    for (const bet of hybridBets) {
+    for (const bet of hybridBets.filter(isStraightBet)) {
       if (!gameConflictMap.has(bet.gameId)) {
         gameConflictMap.set(bet.gameId, bet.hybridConflictType);
       }
@@ -144,6 +149,7 @@ export async function GET(request: NextRequest) {
       where: {
         season,
         strategyTag: 'hybrid_v2',
+        userId: null,
         marketType: 'spread',
         result: { in: ['win', 'loss', 'push'] },
       },
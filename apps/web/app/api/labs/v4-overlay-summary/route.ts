@@ -34,6 +34,7 @@ async function calculateStrategySummary(
     where: {
       season,
       strategyTag,
+      userId: null,
       marketType: 'spread',
       result: { in: ['win', 'loss', 'push'] },
     },
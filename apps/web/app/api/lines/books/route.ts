@@ -0,0 +1,92 @@
+/**
+ * Book Price Matrix API
+ *
+ * Returns the latest number and price at every book for each market and side of a
+ * game, plus the best available book per side versus consensus
+ *
+ * Query params:
+ *   - gameId: string (required)
+ *   - asOf: ISO timestamp (optional, matrix as it stood at that moment)
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { parseAsOf, marketLineAsOf } from '@/lib/as-of';
+import { buildPriceMatrix, summarizeBestPrice } from '@/lib/book-prices';
+
+export const dynamic = 'force-dynamic';
+
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const gameId = searchParams.get('gameId');
+    const { asOf, error: asOfError } = parseAsOf(searchParams.get('asOf'));
+
+    if (!gameId) {
+      return NextResponse.json(
+        { success: false, error: 'Missing required parameter: gameId' },
+        { status: 400 }
+      );
+    }
+    if (asOfError) {
+      return NextResponse.json(
+        { success: false, error: asOfError },
+        { status: 400 }
+      );
+    }
+
+    const game = await prisma.game.findUnique({
+      where: { id: gameId },
+      select: { id: true, homeTeamId: true, awayTeamId: true },
+    });
+
+    if (!game) {
+      return NextResponse.json(
+        { success: false, error: 'Game not found' },
+        { status: 404 }
+      );
+    }
+
+    const lines = await prisma.marketLine.findMany({
+      where: { gameId, ...marketLineAsOf(asOf) },
+      select: { lineType: true, lineValue: true, price: true, bookName: true, teamId: true, timestamp: true },
+    });
+
+    const matrix = buildPriceMatrix(
+      lines.map((line: any) => ({
+        ...line,
+        lineValue: Number(line.lineValue),
+        price: line.price !== null ? Number(line.price) : null,
+      })),
+      game.homeTeamId,
+      game.awayTeamId
+    );
+
+    return NextResponse.json({
+      success: true,
+      gameId,
+      asOf: asOf ? asOf.toISOString() : null,
+      matrix,
+      best: {
+        spread: {
+          home: summarizeBestPrice(matrix, 'spread', 'home'),
+          away: summarizeBestPrice(matrix, 'spread', 'away'),
+        },
+        total: {
+          over: summarizeBestPrice(matrix, 'total', 'over'),
+          under: summarizeBestPrice(matrix, 'total', 'under'),
+        },
+        moneyline: {
+          home: summarizeBestPrice(matrix, 'moneyline', 'home'),
+          away: summarizeBestPrice(matrix, 'moneyline', 'away'),
+        },
+      },
+    });
+  } catch (error) {
+    console.error('BOOK_PRICES_API_ERROR', error);
+    return NextResponse.json(
+      { success: false, error: 'Internal error', detail: String((error as Error)?.message ?? error) },
+      { status: 500 }
+    );
+  }
+}
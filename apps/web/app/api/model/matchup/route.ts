@@ -7,10 +7,16 @@
  *   - season: number (required)
  *   - homeId: string (required)
  *   - awayId: string (required)
+ *   - gameId: string (optional) - scheduled game, for kickoff-dated profiles and weather
+ *   - asOf: ISO timestamp (optional) - only data recorded by then
+ *
+ * Model total comes from Totals V2 (lib/totals-v2-model.ts).
  */
 
 import { NextRequest, NextResponse } from 'next/server';
 import { prisma } from '@/lib/prisma';
+import { parseAsOf } from '@/lib/as-of';
+import { getTotalsV2Projection } from '@/lib/totals-v2-context';
 
 const HFA = 2.0; // Home field advantage in points
 
@@ -22,6 +28,8 @@ export async function GET(request: NextRequest) {
     const season = parseInt(searchParams.get('season') || '');
     const homeId = searchParams.get('homeId');
     const awayId = searchParams.get('awayId');
+    const gameId = searchParams.get('gameId');
+    const { asOf, error: asOfError } = parseAsOf(searchParams.get('asOf'));
 
     if (!season || !homeId || !awayId) {
       return NextResponse.json(
@@ -29,6 +37,22 @@ export async function GET(request: NextRequest) {
         { status: 400 }
       );
     }
+    if (asOfError) {
+      return NextResponse.json(
+        { success: false, error: asOfError },
+        { status: 400 }
+      );
+    }
+
+    const game = gameId
+      ? await prisma.game.findUnique({ where: { id: gameId }, select: { id: true, week: true, date: true } })
+      : null;
+    if (gameId && !game) {
+      return NextResponse.json(
+        { success: false, error: `Game ${gameId} not found` },
+        { status: 404 }
+      );
+    }
 
     // Load team ratings
     const [homeRating, awayRating] = await Promise.all([
@@ -51,62 +75,22 @@ export async function GET(request: NextRequest) {
       );
     }
 
-    // Load team season stats for pace/EPA calculations
-    const [homeStats, awayStats] = await Promise.all([
-      prisma.teamSeasonStat.findUnique({
-        where: {
-          season_teamId: { season, teamId: homeId },
-        },
-      }),
-      prisma.teamSeasonStat.findUnique({
-        where: {
-          season_teamId: { season, teamId: awayId },
-        },
-      }),
-    ]);
-
     const homePower = Number(homeRating.powerRating || homeRating.rating || 0);
     const awayPower = Number(awayRating.powerRating || awayRating.rating || 0);
 
     // Model Spread = (home_power - away_power) + HFA
     const modelSpread = homePower - awayPower + HFA;
 
-    // Model Total: Use pace + efficiency
-    // If we have EPA, use points_per_play ≈ 7 * epa_off
-    // Otherwise, fall back to ypp_off mapping
-    const homeEpaOff = homeStats?.epaOff ? Number(homeStats.epaOff) : null;
-    const awayEpaOff = awayStats?.epaOff ? Number(awayStats.epaOff) : null;
-    const homeYppOff = homeStats?.yppOff ? Number(homeStats.yppOff) : null;
-    const awayYppOff = awayStats?.yppOff ? Number(awayStats.yppOff) : null;
-    
-    // Pace is stored as plays per game (typically 70-80)
-    // If it's stored as seconds per play (< 1.0), convert it
-    let homePace = homeStats?.paceOff ? Number(homeStats.paceOff) : 70;
-    let awayPace = awayStats?.paceOff ? Number(awayStats.paceOff) : 70;
-    
-    // If pace is < 10, it's likely seconds per play, convert to plays per game
-    if (homePace < 10) {
-      homePace = 60 / homePace; // Convert seconds/play to plays/game
-    }
-    if (awayPace < 10) {
-      awayPace = 60 / awayPace;
-    }
-    
-    // Estimate points per play (typically 0.4-0.8)
-    const homePpp = homeEpaOff !== null 
-      ? Math.max(0.3, Math.min(0.8, 7 * homeEpaOff)) // EPA typically 0.05-0.35, so 7*EPA = 0.35-2.45, clamp to 0.3-0.8
-      : homeYppOff !== null 
-        ? Math.max(0.3, Math.min(0.8, 0.14 * homeYppOff)) // YPP typically 4-8, so 0.14*YPP = 0.56-1.12, clamp to 0.3-0.8
-        : 0.5; // Baseline
-    
-    const awayPpp = awayEpaOff !== null
-      ? Math.max(0.3, Math.min(0.8, 7 * awayEpaOff))
-      : awayYppOff !== null
-        ? Math.max(0.3, Math.min(0.8, 0.14 * awayYppOff))
-        : 0.5;
-
-    // Model Total = (home_points_per_play * home_plays_per_game) + (away_points_per_play * away_plays_per_game)
-    const modelTotal = (homePpp * homePace) + (awayPpp * awayPace);
+    // Model Total: Totals V2 (expected plays × points per play for each offense, plus weather)
+    const totals = await getTotalsV2Projection({
+      id: game?.id ?? null,
+      season,
+      week: game?.week ?? null,
+      homeTeamId: homeId,
+      awayTeamId: awayId,
+      date: game?.date ?? asOf,
+    }, asOf);
+    const modelTotal = totals.modelTotal;
 
     // Confidence: average of both teams, weighted by data source quality
     const homeConfidence = Number(homeRating.confidence || 0);
@@ -128,17 +112,27 @@ export async function GET(request: NextRequest) {
         powerHome: Math.round(homePower * 100) / 100,
         powerAway: Math.round(awayPower * 100) / 100,
         hfa: HFA,
-        paceHome: Math.round(homePace * 10) / 10,
-        paceAway: Math.round(awayPace * 10) / 10,
-        epaHome: homeEpaOff !== null ? Math.round(homeEpaOff * 1000) / 1000 : null,
-        epaAway: awayEpaOff !== null ? Math.round(awayEpaOff * 1000) / 1000 : null,
-        yppHome: homeYppOff !== null ? Math.round(homeYppOff * 10) / 10 : null,
-        yppAway: awayYppOff !== null ? Math.round(awayYppOff * 10) / 10 : null,
+        paceHome: Math.round(totals.home.plays * 10) / 10,
+        paceAway: Math.round(totals.away.plays * 10) / 10,
+        epaHome: Math.round(totals.home.epa * 1000) / 1000,
+        epaAway: Math.round(totals.away.epa * 1000) / 1000,
+        pppHome: Math.round(totals.home.pointsPerPlay * 1000) / 1000,
+        pppAway: Math.round(totals.away.pointsPerPlay * 1000) / 1000,
         dataSources,
         confidence: Math.round(avgConfidence * 100) / 100,
         homeConfidence: Math.round(homeConfidence * 100) / 100,
         awayConfidence: Math.round(awayConfidence * 100) / 100,
       },
+      totals: {
+        modelTotal: Math.round(totals.modelTotal * 10) / 10,
+        rawTotal: Math.round(totals.rawTotal * 10) / 10,
+        expectedPlays: Math.round(totals.expectedPlays * 10) / 10,
+        home: totals.home,
+        away: totals.away,
+        weatherAdj: Math.round(totals.weatherAdj * 10) / 10,
+        weatherComponents: totals.weatherComponents,
+        weatherSource: totals.weatherSource,
+      },
       ratings: {
         home: {
           teamId: homeId,
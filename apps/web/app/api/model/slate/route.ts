@@ -53,7 +53,10 @@ export async function GET(request: NextRequest) {
             game.awayTeamId,
             game.neutralSite || false,
             game.homeTeam.name,
-            game.awayTeam.name
+            game.awayTeam.name,
+            null,
+            game.date,
+            game.id
           );
 
           const modelSpreadHma = coreSpreadInfo.coreSpreadHma;
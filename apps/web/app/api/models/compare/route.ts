@@ -0,0 +1,62 @@
+/**
+ * Model Comparison API
+ *
+ * Puts two or more ModelCalibration fits side by side (see lib/model-compare.ts)
+ *
+ * Query params:
+ *   - ids: comma-separated ModelCalibration IDs (required, at least 2)
+ *   - season: number (optional) - season to compare on, default the season after the latest fit's
+ *   - weeks: comma-separated weeks (optional)
+ *   - minEdge: number (optional) - points off the market before a fit takes a side (default 0)
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { loadModelComparison } from '@/lib/model-compare-context';
+
+export const dynamic = 'force-dynamic';
+
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const ids = (searchParams.get('ids') || '').split(',').map(id => id.trim()).filter(Boolean);
+    const seasonParam = searchParams.get('season');
+    const season = seasonParam ? parseInt(seasonParam, 10) : null;
+    const weeksParam = searchParams.get('weeks');
+    const weeks = weeksParam ? weeksParam.split(',').map(w => parseInt(w, 10)) : null;
+    const minEdge = parseFloat(searchParams.get('minEdge') || '0');
+
+    if (new Set(ids).size < 2) {
+      return NextResponse.json(
+        { success: false, error: 'Pass at least two calibration IDs in ids' },
+        { status: 400 }
+      );
+    }
+    if ((seasonParam && !season) || (weeks && weeks.some(w => isNaN(w))) || isNaN(minEdge) || minEdge < 0) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid season, weeks or minEdge' },
+        { status: 400 }
+      );
+    }
+
+    let comparison;
+    try {
+      comparison = await loadModelComparison({ ids: Array.from(new Set(ids)), season, weeks, minEdge });
+    } catch (error) {
+      if (error instanceof Error && error.message.startsWith('Unknown calibration')) {
+        return NextResponse.json(
+          { success: false, error: error.message },
+          { status: 404 }
+        );
+      }
+      throw error;
+    }
+
+    return NextResponse.json({ success: true, minEdge, ...comparison });
+  } catch (error) {
+    console.error('Error comparing models:', error);
+    return NextResponse.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,37 @@
+/**
+ * Models API
+ *
+ * Lists ModelCalibration fits available to compare on /models
+ *
+ * Query params:
+ *   - season: number (optional)
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { listCalibrations } from '@/lib/model-compare-context';
+
+export const dynamic = 'force-dynamic';
+
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const seasonParam = searchParams.get('season');
+    const season = seasonParam ? parseInt(seasonParam, 10) : null;
+
+    if (seasonParam && !season) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid season' },
+        { status: 400 }
+      );
+    }
+
+    const calibrations = await listCalibrations(season);
+    return NextResponse.json({ success: true, calibrations });
+  } catch (error) {
+    console.error('Error listing calibrations:', error);
+    return NextResponse.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
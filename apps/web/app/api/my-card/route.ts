@@ -1,36 +1,58 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { prisma } from '@/lib/prisma';
 import { pickMarketLine, getLineValue } from '@/lib/market-line-helpers';
-import { getCurrentSeasonWeek } from '@/lib/current-week';
+import { resolveSeasonWeek } from '@/lib/season-calendar-context';
+import { getCoreV1SpreadFromTeams } from '@/lib/core-v1-spread';
+import {
+  STANDARD_PRICE,
+  betWinProbability,
+  stakingConfigOf,
+  suggestStake,
+  StakeSuggestion,
+} from '@/lib/bankroll';
+import {
+  PriceMarket,
+  PriceSide,
+  buildPriceMatrix,
+  quotesForSide,
+  summarizeBestPrice,
+} from '@/lib/book-prices';
+import { getPortfolioScope, getTailedBetIds } from '@/lib/portfolio-context';
+import { describeLeg, isStraightBet, isTicketType } from '@/lib/tickets';
+import { LegModel, TicketPricing, priceTicket } from '@/lib/tickets-context';
 
 export const runtime = 'nodejs';
 export const dynamic = 'force-dynamic';
 
 /**
  * My Card API - Returns tracked bets with current best lines and CLV
+ * Each bet carries per-book quotes for its side and the best number vs consensus.
+ * With ?bankrollId=, pending bets also carry a suggested stake from that bankroll's policy
+ * ?portfolio=mine|house picks the caller's own bets or the shared house bets
+ * (default: mine when signed in); house bets carry whether the caller tailed them
+ * Parlays and teasers carry their legs, and pending ones the model's EV (lib/tickets.ts)
  */
 export async function GET(request: NextRequest) {
+  const portfolio = await getPortfolioScope(request);
+  if (!portfolio.ok) return portfolio.response;
+  const { scope, principal } = portfolio;
+
   try {
     const { searchParams } = new URL(request.url);
-    const season = searchParams.get('season');
-    const week = searchParams.get('week');
     const status = searchParams.get('status'); // 'pending', 'graded', 'all'
     const marketType = searchParams.get('marketType');
+    const bankrollId = searchParams.get('bankrollId');
 
-    // Default to current week if not specified
-    const current = await getCurrentSeasonWeek(prisma);
-    const filterSeason = season ? parseInt(season) : current.season;
-    const filterWeek = week ? parseInt(week) : current.week;
+    // Default to the calendar's current week if not specified
+    const { season: filterSeason, week: filterWeek } = await resolveSeasonWeek(searchParams);
 
     // Build where clause
     const where: any = {
       season: filterSeason,
+      week: filterWeek,
+      userId: scope.userId,
     };
 
-    if (filterWeek) {
-      where.week = filterWeek;
-    }
-
     if (marketType) {
       where.marketType = marketType;
     }
@@ -52,6 +74,17 @@ export async function GET(request: NextRequest) {
             marketLines: true,
           },
         },
+        legs: {
+          orderBy: { legIndex: 'asc' },
+          include: {
+            game: {
+              include: {
+                homeTeam: { select: { id: true, name: true } },
+                awayTeam: { select: { id: true, name: true } },
+              },
+            },
+          },
+        },
       },
       orderBy: [
         { week: 'desc' },
@@ -59,8 +92,100 @@ export async function GET(request: NextRequest) {
       ],
     });
 
+    const bankroll = bankrollId
+      ? await prisma.bankroll.findUnique({ where: { id: bankrollId } })
+      : null;
+    // Stakes are sized from a bankroll in the same portfolio
+    if (bankrollId && (!bankroll || bankroll.userId !== scope.userId)) {
+      return NextResponse.json(
+        { success: false, error: 'Bankroll not found' },
+        { status: 404 }
+      );
+    }
+
+    const tailedIds = scope.portfolio === 'house' && principal?.userId
+      ? await getTailedBetIds(principal.userId, bets.map((bet: any) => bet.id))
+      : new Set<string>();
+
+    // Model EV for pending parlays and teasers
+    const ticketPricing = new Map<string, TicketPricing>();
+    const legModels = new Map<string, LegModel>();
+    for (const bet of bets) {
+      if (bet.result !== null || !isTicketType(bet.marketType)) continue;
+      ticketPricing.set(bet.id, await priceTicket({ ...bet, marketType: bet.marketType }, legModels));
+    }
+
+    // Core V1 spread per game, only needed to size pending bets
+    const coreSpreadByGame = new Map<string, number | null>();
+    if (bankroll) {
+      for (const bet of bets.filter(isStraightBet)) {
+        if (bet.result !== null || coreSpreadByGame.has(bet.gameId)) continue;
+        try {
+          const core = await getCoreV1SpreadFromTeams(
+            bet.game.season,
+            bet.game.homeTeamId,
+            bet.game.awayTeamId,
+            bet.game.neutralSite || false,
+            bet.game.homeTeam.name,
+            bet.game.awayTeam.name,
+            null,
+            bet.game.date,
+            bet.gameId
+          );
+          coreSpreadByGame.set(bet.gameId, core.coreSpreadHma);
+        } catch (error) {
+          coreSpreadByGame.set(bet.gameId, null);
+        }
+      }
+    }
+
     // Enrich bets with current best lines and CLV
-    const enrichedBets = bets.map(bet => {
+    const enrichedBets = bets.map((bet: any) => {
+      if (!bet.game) {
+        const teaserPoints = bet.teaserPoints !== null ? Number(bet.teaserPoints) : null;
+        const pricing = ticketPricing.get(bet.id) ?? null;
+        return {
+          ...bet,
+          modelPrice: Number(bet.modelPrice),
+          closePrice: null,
+          stake: Number(bet.stake),
+          pnl: bet.pnl ? Number(bet.pnl) : null,
+          clv: null,
+          teaserPoints,
+          legs: bet.legs.map((leg: any, i: number) => {
+            const line = leg.line !== null ? Number(leg.line) : null;
+            return {
+              ...leg,
+              line,
+              price: leg.price !== null ? Number(leg.price) : null,
+              label: describeLeg(
+                { marketType: leg.marketType, side: leg.side, line },
+                teaserPoints,
+                leg.side === 'home' ? leg.game.homeTeam.name : leg.side === 'away' ? leg.game.awayTeam.name : leg.side
+              ),
+              gameStatus: leg.game.status,
+              gameDate: leg.game.date,
+              probabilities: pricing?.legs[i] ?? null,
+            };
+          }),
+          modelEv: pricing?.ev ?? null,
+          modelEvPrior: pricing?.evIsPrior ?? false,
+          currentBestLine: null,
+          currentBestLineBook: null,
+          currentBestLineTimestamp: null,
+          edgeVsCurrent: null,
+          gameStatus: null,
+          // First leg to kick off
+          gameDate: bet.legs.reduce(
+            (first: Date | null, leg: any) => (first === null || leg.game.date < first ? leg.game.date : first),
+            null
+          ),
+          suggestedStake: null,
+          bookPrices: null,
+          tailed: tailedIds.has(bet.id),
+        };
+      }
+
       // Get current best line for the bet's market type
       const bestLine = pickMarketLine(bet.game.marketLines, bet.marketType as 'spread' | 'total' | 'moneyline');
       const currentLine = getLineValue(bestLine);
@@ -97,6 +222,39 @@ export async function GET(request: NextRequest) {
         edgeVsCurrent = modelLine - currentLine;
       }
 
+      // Stake suggestion: spreads are sized at the current best number, moneylines at the bet price
+      let suggestedStake: StakeSuggestion | null = null;
+      if (bankroll && bet.result === null) {
+        let marketSpreadHma: number | null = null;
+        if (bet.marketType === 'spread' && bestLine?.teamId && currentLine !== null) {
+          // Spread lines are team-relative (negative = that team favored)
+          marketSpreadHma = bestLine.teamId === bet.game.homeTeamId ? -currentLine : currentLine;
+        }
+        const winProb = betWinProbability(
+          bet.marketType,
+          bet.side,
+          coreSpreadByGame.get(bet.gameId) ?? null,
+          marketSpreadHma
+        );
+        const price = bet.marketType === 'moneyline' ? Number(bet.modelPrice) : STANDARD_PRICE;
+        suggestedStake = suggestStake(stakingConfigOf(bankroll), bankroll.balance, winProb, price);
+      }
+
+      // Per-book quotes for the bet's side
+      const priceMatrix = buildPriceMatrix(
+        bet.game.marketLines.map((line: any) => ({
+          ...line,
+          lineValue: Number(line.lineValue),
+          price: line.price !== null && line.price !== undefined ? Number(line.price) : null,
+        })),
+        bet.game.homeTeamId,
+        bet.game.awayTeamId
+      );
+      const bookPrices = {
+        best: summarizeBestPrice(priceMatrix, bet.marketType as PriceMarket, bet.side as PriceSide),
+        quotes: quotesForSide(priceMatrix, bet.marketType as PriceMarket, bet.side as PriceSide),
+      };
+
       return {
         ...bet,
         modelPrice: Number(bet.modelPrice),
@@ -110,23 +268,28 @@ export async function GET(request: NextRequest) {
         edgeVsCurrent,
         gameStatus: bet.game.status,
         gameDate: bet.game.date,
+        suggestedStake,
+        bookPrices,
+        tailed: tailedIds.has(bet.id),
       };
     });
 
     // Calculate summary stats
-    const pendingBets = enrichedBets.filter(b => b.result === null);
-    const gradedBets = enrichedBets.filter(b => b.result !== null);
-    const totalStake = enrichedBets.reduce((sum, b) => sum + Number(b.stake), 0);
-    const totalPnL = gradedBets.reduce((sum, b) => sum + (b.pnl || 0), 0);
-    const winCount = gradedBets.filter(b => b.result === 'win').length;
-    const lossCount = gradedBets.filter(b => b.result === 'loss').length;
-    const pushCount = gradedBets.filter(b => b.result === 'push').length;
+    const pendingBets = enrichedBets.filter((b: any) => b.result === null);
+    const gradedBets = enrichedBets.filter((b: any) => b.result !== null);
+    const totalStake = enrichedBets.reduce((sum: number, b: any) => sum + Number(b.stake), 0);
+    const totalPnL = gradedBets.reduce((sum: number, b: any) => sum + (b.pnl || 0), 0);
+    const winCount = gradedBets.filter((b: any) => b.result === 'win').length;
+    const lossCount = gradedBets.filter((b: any) => b.result === 'loss').length;
+    const pushCount = gradedBets.filter((b: any) => b.result === 'push').length;
     const hitRate = gradedBets.length > 0 ? winCount / gradedBets.length : 0;
 
     return NextResponse.json({
       success: true,
       season: filterSeason,
       week: filterWeek,
+      portfolio: scope.portfolio,
+      bankroll,
       bets: enrichedBets,
       summary: {
         total: enrichedBets.length,
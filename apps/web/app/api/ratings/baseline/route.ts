@@ -1,5 +1,6 @@
 import { prisma } from '@/lib/prisma';
 import { NextResponse } from 'next/server';
+import { resolveSeason } from '@/lib/season-calendar-context';
 
 export const runtime = 'nodejs';
 export const dynamic = 'force-dynamic';
@@ -7,7 +8,7 @@ export const dynamic = 'force-dynamic';
 export async function GET(request: Request) {
   try {
     const { searchParams } = new URL(request.url);
-    const season = parseInt(searchParams.get('season') || '2025');
+    const season = await resolveSeason(searchParams);
     const limit = parseInt(searchParams.get('limit') || '25');
 
     const ratings = await prisma.teamSeasonRating.findMany({
@@ -10,6 +10,7 @@
 
 import { NextRequest, NextResponse } from 'next/server';
 import { PrismaClient } from '@prisma/client';
+import { resolveSeason } from '@/lib/season-calendar-context';
 // Import types only - we'll implement the logic directly here to avoid cross-workspace imports
 interface DataSourceSummary {
   gameFeatures: number;
@@ -26,7 +27,7 @@ export const dynamic = 'force-dynamic';
 export async function GET(request: NextRequest) {
   try {
     const { searchParams } = new URL(request.url);
-    const season = parseInt(searchParams.get('season') || '2025');
+    const season = await resolveSeason(searchParams);
 
     console.log(`[DATA_SOURCES] Getting data source summary for season ${season}`);
 
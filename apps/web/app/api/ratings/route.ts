@@ -6,7 +6,7 @@
 
 import { NextRequest, NextResponse } from 'next/server';
 import { prisma } from '@/lib/prisma';
-import { getCurrentSeasonWeek } from '@/lib/current-week';
+import { getDefaultSeason } from '@/lib/season-calendar-context';
 
 export async function GET(request: NextRequest) {
   try {
@@ -24,8 +24,7 @@ export async function GET(request: NextRequest) {
         );
       }
     } else {
-      const current = await getCurrentSeasonWeek(prisma);
-      season = current.season;
+      season = await getDefaultSeason();
     }
 
     // Get all FBS teams for this season
@@ -1,14 +1,19 @@
 /**
- * Safe UI proxy for grade-week admin endpoint
- * Injects admin secret server-side to avoid exposing it to the client
+ * UI proxy for the grade-week admin endpoint
+ * Requires the admin role; forwards the caller's credentials (session cookie or
+ * API token) so the admin endpoint checks and audits the actual user
  */
 
 export const runtime = 'nodejs';
 export const dynamic = 'force-dynamic';
 
 import { NextRequest, NextResponse } from 'next/server';
+import { authorize } from '@/lib/auth-context';
 
 export async function POST(request: NextRequest) {
+  const auth = await authorize(request, 'admin');
+  if (!auth.ok) return auth.response;
+
   try {
     // Parse the request body to get season/week
     const body = await request.json();
@@ -21,27 +26,19 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    // Get admin secret from environment
-    const adminSecret = process.env.ADMIN_SECRET;
-    if (!adminSecret) {
-      console.error('ADMIN_SECRET environment variable not set');
-      return NextResponse.json(
-        { ok: false, error: 'Admin secret not configured' },
-        { status: 500 }
-      );
-    }
-
-    // Call the admin endpoint with the secret
+    // Call the admin endpoint as the caller
     const adminUrl = new URL('/api/admin/grade-week', request.url);
     adminUrl.searchParams.set('season', season.toString());
     adminUrl.searchParams.set('week', week.toString());
 
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    for (const name of ['cookie', 'authorization', 'x-admin-secret']) {
+      const value = request.headers.get(name);
+      if (value) headers[name] = value;
+    }
     const adminResponse = await fetch(adminUrl.toString(), {
       method: 'POST',
-      headers: {
-        'x-admin-secret': adminSecret,
-        'Content-Type': 'application/json'
-      }
+      headers,
     });
 
     const adminResult = await adminResponse.json();
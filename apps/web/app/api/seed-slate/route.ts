@@ -10,13 +10,12 @@ import { computeSpreadPick, computeTotalPick } from '@/lib/pick-helpers';
 import { 
   applyAdjustments, 
   calculateConfidenceTier,
-  getMockInjuries,
   getMockWeather 
 } from '@/lib/adjustment-helpers';
+import { injuryRowToReport } from '@/lib/injury-context';
 import { pickMarketLine, getLineValue, pickMoneyline, americanToProb } from '@/lib/market-line-helpers';
 import { logDataMode } from '@/lib/data-mode';
-import { getSeasonWeekFromParams } from '@/lib/season-week-helpers';
-import { getCurrentSeasonWeek } from '@/lib/current-week';
+import { resolveSeasonWeek } from '@/lib/season-calendar-context';
 import { NextRequest } from 'next/server';
 
 export async function GET(request: NextRequest) {
@@ -28,17 +27,8 @@ export async function GET(request: NextRequest) {
   const injuriesOn = searchParams.get('injuries') === 'on';
   const weatherOn = searchParams.get('weather') === 'on';
   
-  // Get season/week from params or auto-detect from database
-  let season: number, week: number;
-  if (searchParams.get('season') && searchParams.get('week')) {
-    const params = getSeasonWeekFromParams(searchParams);
-    season = params.season;
-    week = params.week;
-  } else {
-    const current = await getCurrentSeasonWeek(prisma);
-    season = current.season;
-    week = current.week;
-  }
+  // Get season/week from params, defaulting from the season calendar
+  const { season, week } = await resolveSeasonWeek(searchParams);
   
   try {
     // Get this week's games
@@ -51,6 +41,7 @@ export async function GET(request: NextRequest) {
         homeTeam: true,
         awayTeam: true,
         marketLines: true,
+        injuries: true,
         matchupOutputs: {
           where: {
             modelVersion: 'v0.0.1'
@@ -131,7 +122,7 @@ export async function GET(request: NextRequest) {
       let adjustments = null;
 
       if (injuriesOn || weatherOn) {
-        const injuries = injuriesOn ? getMockInjuries(game.id) : [];
+        const injuries = injuriesOn ? game.injuries.map(injuryRowToReport) : [];
         const weather = weatherOn ? getMockWeather(game.id) : null;
         
         const adjustmentResult = applyAdjustments(
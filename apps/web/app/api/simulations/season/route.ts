@@ -0,0 +1,75 @@
+/**
+ * Season Simulation API
+ *
+ * Serves the latest stored Monte Carlo season simulation (scripts/simulate-season.ts)
+ *
+ * Query params:
+ *   - season: number (required)
+ *   - teamId: string (optional) - just this team, plus its conference race
+ *   - conference: string (optional) - just this conference
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getLatestSeasonSimulation } from '@/lib/season-sim-context';
+
+export const dynamic = 'force-dynamic';
+
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const season = parseInt(searchParams.get('season') || '');
+    const teamId = searchParams.get('teamId');
+    const conferenceParam = searchParams.get('conference');
+
+    if (!season) {
+      return NextResponse.json(
+        { success: false, error: 'Missing required parameter: season' },
+        { status: 400 }
+      );
+    }
+
+    const simulation = await getLatestSeasonSimulation(season);
+    if (!simulation) {
+      return NextResponse.json(
+        { success: false, error: `No season simulation for ${season}` },
+        { status: 404 }
+      );
+    }
+
+    const team = teamId ? simulation.teams.find(t => t.teamId === teamId) : null;
+    if (teamId && !team) {
+      return NextResponse.json(
+        { success: false, error: `Team ${teamId} not in the ${season} simulation` },
+        { status: 404 }
+      );
+    }
+
+    const conference = team?.conference ?? conferenceParam;
+    const teams = conference ? simulation.teams.filter(t => t.conference === conference) : simulation.teams;
+    const conferences = conference
+      ? simulation.conferences.filter(c => c.conference === conference)
+      : simulation.conferences;
+
+    return NextResponse.json({
+      success: true,
+      simulation: {
+        id: simulation.id,
+        season: simulation.season,
+        asOfWeek: simulation.asOfWeek,
+        iterations: simulation.iterations,
+        modelVersion: simulation.modelVersion,
+        marginSigma: simulation.marginSigma,
+        createdAt: simulation.createdAt.toISOString(),
+      },
+      team,
+      teams: [...teams].sort((a, b) => b.cfpProb - a.cfpProb || b.expectedWins - a.expectedWins),
+      conferences,
+    });
+  } catch (error) {
+    console.error('Error loading season simulation:', error);
+    return NextResponse.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
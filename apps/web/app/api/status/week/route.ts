@@ -7,7 +7,7 @@
 
 import { NextRequest, NextResponse } from 'next/server';
 import { prisma } from '@/lib/prisma';
-import { getCurrentSeasonWeek } from '@/lib/current-week';
+import { getCurrentSeasonWeek } from '@/lib/season-calendar-context';
 
 export const dynamic = 'force-dynamic';
 
@@ -46,7 +46,7 @@ interface WeekStatus {
 export async function GET(request: NextRequest) {
   try {
     // Get current season/week
-    const { season, week } = await getCurrentSeasonWeek(prisma);
+    const { season, week } = await getCurrentSeasonWeek();
 
     // Get all games for this week
     const games = await prisma.game.findMany({
@@ -0,0 +1,230 @@
+/**
+ * API Route: Walk-Forward Backtest for a Ruleset
+ *
+ * POST: Replay the ruleset across a season range week by week and persist the
+ *       run (StrategyRun + simulated bets + weekly bankroll curve)
+ * GET:  Fetch a persisted backtest (?runId=, default: latest for the ruleset)
+ *
+ * Writes require the bettor role (lib/auth.ts); both read only rulesets the
+ * caller can view
+ */
+
+export const dynamic = 'force-dynamic';
+
+import { NextRequest, NextResponse } from 'next/server';
+import { authorize, getPrincipal } from '@/lib/auth-context';
+import { canView } from '@/lib/portfolio';
+import { prisma } from '@/lib/prisma';
+import { normalizeRulesetParameters } from '@/lib/ruleset-dsl';
+import {
+  DEFAULT_FLAT_STAKE,
+  DEFAULT_INITIAL_BANKROLL,
+  runWalkForwardBacktest,
+} from '@/lib/walk-forward-backtest';
+
+const MAX_SEASON_SPAN = 5;
+
+/**
+ * Shape a persisted run (with bets and weeks) for the backtests page
+ */
+function serializeRun(run: any) {
+  const initialBankroll = Number(run.initialBankroll);
+  const weeks = run.weeks.map((week: any) => ({
+    season: week.season,
+    week: week.week,
+    cutoff: week.cutoff.toISOString(),
+    bets: week.bets,
+    wins: week.wins,
+    losses: week.losses,
+    pushes: week.pushes,
+    staked: week.staked,
+    pnl: week.pnl,
+    bankroll: week.bankroll,
+    drawdown: week.drawdown,
+  }));
+  const last = weeks[weeks.length - 1];
+
+  return {
+    id: run.id,
+    rulesetId: run.rulesetId,
+    rulesetName: run.ruleset?.name ?? null,
+    startDate: run.startDate.toISOString(),
+    endDate: run.endDate.toISOString(),
+    createdAt: run.createdAt.toISOString(),
+    initialBankroll,
+    summary: {
+      totalBets: run.totalBets,
+      winRate: run.winRate,
+      roi: run.roi,
+      clv: run.clv,
+      finalBankroll: last ? last.bankroll : initialBankroll,
+      maxDrawdown: weeks.reduce((max: number, week: any) => Math.max(max, week.drawdown), 0),
+    },
+    weeks,
+    bets: run.bets.map((bet: any) => ({
+      gameId: bet.gameId,
+      matchup: bet.game ? `${bet.game.awayTeam.name} @ ${bet.game.homeTeam.name}` : bet.gameId,
+      season: bet.season,
+      week: bet.week,
+      marketType: bet.marketType,
+      side: bet.side,
+      line: bet.line,
+      price: bet.price,
+      closeLine: bet.closeLine,
+      edge: bet.edge,
+      stake: bet.stake,
+      result: bet.result,
+      pnl: bet.pnl,
+      clv: bet.clv,
+    })),
+  };
+}
+
+const runInclude = {
+  ruleset: { select: { name: true } },
+  weeks: { orderBy: [{ season: 'asc' as const }, { week: 'asc' as const }] },
+  bets: {
+    include: { game: { include: { homeTeam: true, awayTeam: true } } },
+    orderBy: [{ season: 'asc' as const }, { week: 'asc' as const }],
+  },
+};
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const { id } = params;
+    const runId = request.nextUrl.searchParams.get('runId');
+
+    const ruleset = await prisma.ruleset.findUnique({
+      where: { id },
+      select: { userId: true },
+    });
+
+    if (!ruleset || !canView(ruleset.userId, await getPrincipal(request))) {
+      return NextResponse.json(
+        { success: false, error: 'Ruleset not found' },
+        { status: 404 }
+      );
+    }
+
+    // Walk-forward runs are the ones with a bankroll; weekly saves have none
+    const run = await prisma.strategyRun.findFirst({
+      where: {
+        rulesetId: id,
+        initialBankroll: { not: null },
+        ...(runId ? { id: runId } : {}),
+      },
+      include: runInclude,
+      orderBy: { createdAt: 'desc' },
+    });
+
+    if (!run) {
+      return NextResponse.json(
+        { success: false, error: 'No backtest found for this ruleset' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      run: serializeRun(run),
+    });
+  } catch (error) {
+    console.error('Error fetching backtest:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to fetch backtest' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  const auth = await authorize(request, 'bettor');
+  if (!auth.ok) return auth.response;
+
+  try {
+    const { id } = params;
+    const body = await request.json();
+
+    const startSeason = Number(body.startSeason);
+    const endSeason = Number(body.endSeason ?? body.startSeason);
+    const initialBankroll = body.initialBankroll != null ? Number(body.initialBankroll) : DEFAULT_INITIAL_BANKROLL;
+    const stake = body.stake != null ? Number(body.stake) : DEFAULT_FLAT_STAKE;
+
+    if (!Number.isInteger(startSeason) || !Number.isInteger(endSeason) || endSeason < startSeason) {
+      return NextResponse.json(
+        { success: false, error: 'startSeason and endSeason must be seasons with startSeason <= endSeason' },
+        { status: 400 }
+      );
+    }
+    if (endSeason - startSeason + 1 > MAX_SEASON_SPAN) {
+      return NextResponse.json(
+        { success: false, error: `A backtest can span at most ${MAX_SEASON_SPAN} seasons` },
+        { status: 400 }
+      );
+    }
+    if (!(initialBankroll > 0) || !(stake > 0)) {
+      return NextResponse.json(
+        { success: false, error: 'initialBankroll and stake must be positive' },
+        { status: 400 }
+      );
+    }
+
+    const ruleset = await prisma.ruleset.findUnique({
+      where: { id },
+    });
+
+    if (!ruleset || !canView(ruleset.userId, auth.principal)) {
+      return NextResponse.json(
+        { success: false, error: 'Ruleset not found' },
+        { status: 404 }
+      );
+    }
+
+    const result = await runWalkForwardBacktest(normalizeRulesetParameters(ruleset.parameters), {
+      startSeason,
+      endSeason,
+      initialBankroll,
+      stake,
+    });
+
+    if (result.weeks.length === 0) {
+      return NextResponse.json(
+        { success: false, error: `No games found for seasons ${startSeason}-${endSeason}` },
+        { status: 404 }
+      );
+    }
+
+    const run = await prisma.strategyRun.create({
+      data: {
+        rulesetId: id,
+        startDate: result.weeks[0].cutoff,
+        endDate: result.weeks[result.weeks.length - 1].cutoff,
+        totalBets: result.summary.totalBets,
+        winRate: result.summary.winRate,
+        roi: result.summary.roi,
+        clv: result.summary.clv,
+        initialBankroll,
+        weeks: { create: result.weeks },
+        bets: { create: result.bets },
+      },
+      include: runInclude,
+    });
+
+    return NextResponse.json({
+      success: true,
+      run: serializeRun(run),
+    });
+  } catch (error) {
+    console.error('Error running backtest:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to run backtest' },
+      { status: 500 }
+    );
+  }
+}
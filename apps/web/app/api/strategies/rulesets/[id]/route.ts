@@ -3,10 +3,17 @@
  * 
  * GET: Fetch ruleset by ID
  * PUT: Update existing ruleset
+ *
+ * House rulesets are public; a user's ruleset is visible to them and admins.
+ * Writes require the bettor role (lib/auth.ts) and the ruleset's owner, or an
+ * admin for house rulesets (lib/portfolio.ts).
  */
 
 import { NextRequest, NextResponse } from 'next/server';
+import { authorize, getPrincipal } from '@/lib/auth-context';
+import { canManage, canView } from '@/lib/portfolio';
 import { prisma } from '@/lib/prisma';
+import { validateRulesetParameters, normalizeRulesetParameters } from '@/lib/ruleset-dsl';
 
 export async function GET(
   request: NextRequest,
@@ -19,7 +26,7 @@ export async function GET(
       where: { id },
     });
 
-    if (!ruleset) {
+    if (!ruleset || !canView(ruleset.userId, await getPrincipal(request))) {
       return NextResponse.json(
         { success: false, error: 'Ruleset not found' },
         { status: 404 }
@@ -32,8 +39,9 @@ export async function GET(
         id: ruleset.id,
         name: ruleset.name,
         description: ruleset.description,
-        parameters: ruleset.parameters,
+        parameters: normalizeRulesetParameters(ruleset.parameters),
         active: ruleset.active,
+        portfolio: ruleset.userId ? 'mine' : 'house',
         createdAt: ruleset.createdAt.toISOString(),
         updatedAt: ruleset.updatedAt.toISOString(),
       },
@@ -51,6 +59,9 @@ export async function PUT(
   request: NextRequest,
   { params }: { params: { id: string } }
 ) {
+  const auth = await authorize(request, 'bettor');
+  if (!auth.ok) return auth.response;
+
   try {
     const { id } = params;
     const body = await request.json();
@@ -63,17 +74,31 @@ export async function PUT(
       );
     }
 
+    const validation = validateRulesetParameters(body.parameters);
+    if (!validation.valid) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid ruleset parameters', details: validation.errors },
+        { status: 400 }
+      );
+    }
+
     // Check if ruleset exists
     const existing = await prisma.ruleset.findUnique({
       where: { id },
     });
 
-    if (!existing) {
+    if (!existing || !canView(existing.userId, auth.principal)) {
       return NextResponse.json(
         { success: false, error: 'Ruleset not found' },
         { status: 404 }
       );
     }
+    if (!canManage(existing.userId, auth.principal)) {
+      return NextResponse.json(
+        { success: false, error: 'Only admins can change house rulesets' },
+        { status: 403 }
+      );
+    }
 
     // Update ruleset
     const updated = await prisma.ruleset.update({
@@ -81,7 +106,7 @@ export async function PUT(
       data: {
         name: body.name,
         description: body.description || null,
-        parameters: body.parameters || {},
+        parameters: validation.parameters,
         active: body.active !== undefined ? body.active : existing.active,
         updatedAt: new Date(),
       },
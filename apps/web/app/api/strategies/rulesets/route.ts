@@ -2,15 +2,26 @@
  * M6 Rulesets API
  * 
  * CRUD operations for strategy rulesets
+ *
+ * Lists the house (official) rulesets and the caller's own. New rulesets go to
+ * the caller's portfolio; admins can pass portfolio: 'house' (lib/portfolio.ts).
+ * Writes require the bettor role (lib/auth.ts)
  */
 
 import { prisma } from '@/lib/prisma';
 import { NextRequest, NextResponse } from 'next/server';
+import { authorize, getPrincipal } from '@/lib/auth-context';
+import { newRowOwner } from '@/lib/portfolio';
+import { validateRulesetParameters, normalizeRulesetParameters } from '@/lib/ruleset-dsl';
 
-// GET /api/strategies/rulesets - List all rulesets
-export async function GET() {
+// GET /api/strategies/rulesets - List house rulesets and the caller's own
+export async function GET(request: NextRequest) {
   try {
+    const principal = await getPrincipal(request);
     const rulesets = await prisma.ruleset.findMany({
+      where: {
+        OR: [{ userId: null }, ...(principal?.userId ? [{ userId: principal.userId }] : [])],
+      },
       orderBy: {
         createdAt: 'desc',
       },
@@ -18,7 +29,11 @@ export async function GET() {
 
     return NextResponse.json({
       success: true,
-      rulesets,
+      rulesets: rulesets.map((ruleset: any) => ({
+        ...ruleset,
+        parameters: normalizeRulesetParameters(ruleset.parameters),
+        portfolio: ruleset.userId ? 'mine' : 'house',
+      })),
     });
   } catch (error) {
     console.error('Error fetching rulesets:', error);
@@ -31,10 +46,21 @@ export async function GET() {
 
 // POST /api/strategies/rulesets - Create new ruleset
 export async function POST(request: NextRequest) {
+  const auth = await authorize(request, 'bettor');
+  if (!auth.ok) return auth.response;
+
   try {
     const body = await request.json();
     const { name, description, parameters, active } = body;
 
+    const owner = newRowOwner(body.portfolio, auth.principal);
+    if ('error' in owner) {
+      return NextResponse.json(
+        { success: false, error: owner.error },
+        { status: 403 }
+      );
+    }
+
     if (!name || !parameters) {
       return NextResponse.json(
         { success: false, error: 'Name and parameters are required' },
@@ -42,12 +68,22 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    // Legacy (v1) payloads are upgraded; everything is stored as the v2 rule tree
+    const validation = validateRulesetParameters(parameters);
+    if (!validation.valid) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid ruleset parameters', details: validation.errors },
+        { status: 400 }
+      );
+    }
+
     const ruleset = await prisma.ruleset.create({
       data: {
         name,
         description: description || null,
-        parameters,
+        parameters: validation.parameters,
         active: active !== undefined ? active : true,
+        userId: owner.userId,
       },
     });
 
@@ -2,6 +2,7 @@
  * M6 Strategy Run API
  * 
  * Execute a ruleset against a specific week and return qualifying games
+ * With ?bankrollId=, each game also carries suggested stakes from that bankroll's policy
  */
 
 // Mark as dynamic since we use searchParams
@@ -10,17 +11,36 @@ export const dynamic = 'force-dynamic';
 import { prisma } from '@/lib/prisma';
 import { NextRequest, NextResponse } from 'next/server';
 import { computeSpreadPick, computeTotalPick } from '@/lib/pick-helpers';
-import { pickMoneyline, getLineValue, americanToProb } from '@/lib/market-line-helpers';
+import { MoneylinePick } from '@/lib/core-v1-moneyline';
 import { abbrevSource } from '@/lib/market-badges';
-import { getSeasonWeekFromParams } from '@/lib/season-week-helpers';
+import { resolveSeasonWeek } from '@/lib/season-calendar-context';
+import { getPrincipal } from '@/lib/auth-context';
+import { canView } from '@/lib/portfolio';
+import { normalizeRulesetParameters, evaluateRule } from '@/lib/ruleset-dsl';
+import {
+  STRATEGY_MODEL_VERSION,
+  buildGameFacts,
+  getRulesetModelTotal,
+  getRulesetMoneylinePick,
+  spreadLineMove,
+} from '@/lib/strategy-facts';
+import {
+  STANDARD_PRICE,
+  coverProbability,
+  stakingConfigOf,
+  suggestStake,
+  StakeSuggestion,
+} from '@/lib/bankroll';
+import { isStraightBet } from '@/lib/tickets';
 
 export async function GET(request: NextRequest) {
   try {
     const searchParams = request.nextUrl.searchParams;
     const rulesetId = searchParams.get('rulesetId');
+    const bankrollId = searchParams.get('bankrollId');
     
     // Get season/week from params or use current
-    const { season, week } = getSeasonWeekFromParams(searchParams);
+    const { season, week } = await resolveSeasonWeek(searchParams);
 
     if (!rulesetId) {
       return NextResponse.json(
@@ -34,17 +54,27 @@ export async function GET(request: NextRequest) {
       where: { id: rulesetId },
     });
 
-    if (!ruleset) {
+    const principal = await getPrincipal(request);
+    if (!ruleset || !canView(ruleset.userId, principal)) {
       return NextResponse.json(
         { success: false, error: 'Ruleset not found' },
         { status: 404 }
       );
     }
 
-    const params = ruleset.parameters as any;
-    
-    // Default markets to spread and total if not specified
-    const markets = params.markets || ['spread', 'total'];
+    const bankroll = bankrollId
+      ? await prisma.bankroll.findUnique({ where: { id: bankrollId } })
+      : null;
+    if (bankrollId && (!bankroll || !canView(bankroll.userId, principal))) {
+      return NextResponse.json(
+        { success: false, error: 'Bankroll not found' },
+        { status: 404 }
+      );
+    }
+
+    // Legacy (v1) rulesets are upgraded to the v2 rule tree on read
+    const params = normalizeRulesetParameters(ruleset.parameters);
+    const markets: string[] = params.markets;
 
     // Fetch games for the week
     const games = await prisma.game.findMany({
@@ -56,9 +86,10 @@ export async function GET(request: NextRequest) {
         homeTeam: true,
         awayTeam: true,
         marketLines: true,
+        weather: true,
         matchupOutputs: {
           where: {
-            modelVersion: 'v0.0.1',
+            modelVersion: STRATEGY_MODEL_VERSION,
           },
         },
       },
@@ -67,7 +98,25 @@ export async function GET(request: NextRequest) {
       },
     });
 
-    // Filter games based on ruleset parameters
+    // Hybrid V2 spread bets carry the conflict type for each game
+    const hybridBets = await prisma.bet.findMany({
+      where: {
+        season,
+        week,
+        strategyTag: 'hybrid_v2',
+        userId: null,
+        marketType: 'spread',
+      },
+      select: {
+        gameId: true,
+        hybridConflictType: true,
+      },
+    });
+    const conflictTypeByGame = new Map<string, string | null>(
+      hybridBets.filter(isStraightBet).map((bet: { gameId: string; hybridConflictType: string | null }) => [bet.gameId, bet.hybridConflictType])
+    );
+
+    // Filter games based on ruleset rules
     const qualifyingGames = [];
 
     for (const game of games) {
@@ -76,66 +125,37 @@ export async function GET(request: NextRequest) {
 
       const spreadLine = game.marketLines.find(line => line.lineType === 'spread');
       const totalLine = game.marketLines.find(line => line.lineType === 'total');
-      const moneylineLine = pickMoneyline(game.marketLines);
 
       const impliedSpread = matchupOutput.impliedSpread || 0;
-      const impliedTotal = matchupOutput.impliedTotal || 45;
+      const totalsV2Total = markets.includes('total') ? await getRulesetModelTotal(season, game) : null;
+      const impliedTotal = totalsV2Total ?? (matchupOutput.impliedTotal || 45);
       const marketSpread = spreadLine?.closingLine || 0;
       const marketTotal = totalLine?.closingLine || 45;
-      const moneylinePrice = getLineValue(moneylineLine);
-
-      const spreadEdge = Math.abs(impliedSpread - marketSpread);
-      const totalEdge = Math.abs(impliedTotal - marketTotal);
-      
-      // Calculate max edge across selected markets
-      const edges = [];
-      if (markets.includes('spread')) edges.push(spreadEdge);
-      if (markets.includes('total')) edges.push(totalEdge);
-      if (markets.includes('moneyline') && moneylinePrice != null) {
-        // For moneyline, we'll use a simple approach: include if available
-        edges.push(0); // No edge calculation for ML in first pass
-      }
-      const maxEdge = edges.length > 0 ? Math.max(...edges) : 0;
 
-      // Apply filters
-      let qualifies = true;
-
-      // Min edge thresholds - check if any selected market meets threshold
-      let meetsEdgeThreshold = false;
-      if (markets.includes('spread') && spreadEdge >= (params.minSpreadEdge || 0)) {
-        meetsEdgeThreshold = true;
-      }
-      if (markets.includes('total') && totalEdge >= (params.minTotalEdge || 0)) {
-        meetsEdgeThreshold = true;
-      }
-      if (markets.includes('moneyline') && moneylinePrice != null) {
-        // For moneyline, include if available (no edge threshold for now)
-        meetsEdgeThreshold = true;
-      }
-      
-      if (!meetsEdgeThreshold) {
-        qualifies = false;
-      }
-
-      // Confidence filter
-      if (params.confidenceIn && params.confidenceIn.length > 0) {
-        if (!params.confidenceIn.includes(matchupOutput.edgeConfidence)) {
-          qualifies = false;
-        }
+      // Moneyline: Core V1 win probability vs latest price per side (EV in percent)
+      let mlPick: MoneylinePick | null = null;
+      let moneylineEdge: number | null = null;
+      if (markets.includes('moneyline')) {
+        mlPick = await getRulesetMoneylinePick(season, game, game.marketLines);
+        moneylineEdge = mlPick?.ev != null ? mlPick.ev * 100 : null;
       }
 
-      // Team filters
-      if (params.includeTeams && params.includeTeams.length > 0) {
-        if (!params.includeTeams.includes(game.homeTeamId) && !params.includeTeams.includes(game.awayTeamId)) {
-          qualifies = false;
-        }
-      }
+      const { facts, spreadEdge, totalEdge, maxEdge } = buildGameFacts({
+        game,
+        markets,
+        impliedSpread,
+        impliedTotal,
+        marketSpread,
+        marketTotal,
+        hasSpreadLine: spreadLine !== undefined,
+        confidence: matchupOutput.edgeConfidence,
+        moneylineEdge,
+        windMph: game.weather ? Number(game.weather.windSpeed) : null,
+        lineMove: spreadLineMove(game.marketLines),
+        hybridConflictType: conflictTypeByGame.get(game.id) ?? null,
+      });
 
-      if (params.excludeTeams && params.excludeTeams.length > 0) {
-        if (params.excludeTeams.includes(game.homeTeamId) || params.excludeTeams.includes(game.awayTeamId)) {
-          qualifies = false;
-        }
-      }
+      const qualifies = evaluateRule(params.rules, facts);
 
       if (qualifies) {
         // Convert date to America/Chicago timezone
@@ -161,17 +181,41 @@ export async function GET(request: NextRequest) {
 
         // Moneyline data
         let moneylineData = null;
-        if (markets.includes('moneyline') && moneylinePrice != null) {
-          const favoredTeam = moneylinePrice < 0 ? game.homeTeam.name : game.awayTeam.name;
-          const moneylinePickLabel = `${favoredTeam} ML`;
-          const impliedProb = americanToProb(moneylinePrice);
-          const moneylineSource = moneylineLine?.source ? abbrevSource(moneylineLine.source) : '';
+        if (mlPick?.side && mlPick.price !== null) {
+          const pickedLine = game.marketLines
+            .filter((line: any) => line.lineType === 'moneyline' && line.teamId === mlPick!.recommendedTeamId)
+            .sort((a: any, b: any) => new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime())[0];
+          const isHome = mlPick.side === 'home';
 
           moneylineData = {
-            price: moneylinePrice,
-            pickLabel: moneylinePickLabel,
-            impliedProb,
-            source: moneylineSource,
+            price: mlPick.price,
+            pickLabel: `${mlPick.recommendedTeamName} ML`,
+            impliedProb: isHome ? mlPick.marketHomeProb : mlPick.marketAwayProb,
+            winProb: isHome ? mlPick.homeWinProb : mlPick.awayWinProb,
+            fairPrice: mlPick.fairPrice !== null ? Math.round(mlPick.fairPrice) : null,
+            ev: moneylineEdge,
+            source: pickedLine?.source ? abbrevSource(pickedLine.source) : '',
+          };
+        }
+
+        // Stake suggestions: spread side vs market at -110, moneyline at the offered price
+        let suggestedStakes: { spread: StakeSuggestion | null; moneyline: StakeSuggestion | null } | null = null;
+        if (bankroll) {
+          const config = stakingConfigOf(bankroll);
+          const spreadSide = impliedSpread < marketSpread ? 'home' : 'away';
+          suggestedStakes = {
+            // Matchup frame is negative = home favored; flip into HMA
+            spread: markets.includes('spread') && spreadLine
+              ? suggestStake(config, bankroll.balance, coverProbability(-impliedSpread, -marketSpread, spreadSide), STANDARD_PRICE)
+              : null,
+            moneyline: mlPick?.side && mlPick.price !== null
+              ? suggestStake(
+                  config,
+                  bankroll.balance,
+                  mlPick.side === 'home' ? mlPick.homeWinProb : mlPick.awayWinProb,
+                  mlPick.price
+                )
+              : null,
           };
         }
 
@@ -181,11 +225,13 @@ export async function GET(request: NextRequest) {
           kickoff: kickoffTime,
           spreadEdge,
           totalEdge,
+          moneylineEdge: moneylineEdge ?? 0,
           maxEdge,
           confidence: matchupOutput.edgeConfidence,
           spreadPickLabel: spreadPick.spreadPickLabel,
           totalPickLabel: totalPick.totalPickLabel,
           moneyline: moneylineData,
+          suggestedStakes,
         });
       }
     }
@@ -217,10 +263,11 @@ export async function GET(request: NextRequest) {
       ruleset: {
         id: ruleset.id,
         name: ruleset.name,
-        parameters: ruleset.parameters,
+        parameters: params,
       },
       season,
       week,
+      bankroll,
       qualifyingGames: finalGames,
       summary,
     });
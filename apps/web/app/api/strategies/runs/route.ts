@@ -2,10 +2,14 @@
  * M6 Strategy Runs API
  * 
  * CRUD operations for strategy run results
+ *
+ * Writes require the bettor role (lib/auth.ts)
  */
 
 import { prisma } from '@/lib/prisma';
 import { NextRequest, NextResponse } from 'next/server';
+import { authorize } from '@/lib/auth-context';
+import { canView } from '@/lib/portfolio';
 
 // GET /api/strategies/runs - List all strategy runs
 export async function GET() {
@@ -38,6 +42,9 @@ export async function GET() {
 
 // POST /api/strategies/runs - Save a new strategy run
 export async function POST(request: NextRequest) {
+  const auth = await authorize(request, 'bettor');
+  if (!auth.ok) return auth.response;
+
   try {
     const body = await request.json();
     const { rulesetId, season, week, totalBets, avgEdge, confidenceBreakdown } = body;
@@ -49,6 +56,14 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    const ruleset = await prisma.ruleset.findUnique({ where: { id: rulesetId } });
+    if (!ruleset || !canView(ruleset.userId, auth.principal)) {
+      return NextResponse.json(
+        { success: false, error: 'Ruleset not found' },
+        { status: 404 }
+      );
+    }
+
     // Create date range for this week
     const startDate = new Date(season, 0, 1 + (week - 1) * 7);
     const endDate = new Date(season, 0, 1 + week * 7);
@@ -10,7 +10,7 @@ import { prisma } from '@/lib/prisma';
 import { computeSpreadPick, computeTotalPick } from '@/lib/pick-helpers';
 import { pickMoneyline, getLineValue, americanToProb } from '@/lib/market-line-helpers';
 import { abbrevSource } from '@/lib/market-badges';
-import { getSeasonWeekFromParams } from '@/lib/season-week-helpers';
+import { resolveSeasonWeek } from '@/lib/season-calendar-context';
 
 export async function GET(request: Request) {
   try {
@@ -18,7 +18,7 @@ export async function GET(request: Request) {
     const searchParams = url.searchParams;
     
     // Get season/week from params or use current
-    const { season, week } = getSeasonWeekFromParams(searchParams);
+    const { season, week } = await resolveSeasonWeek(searchParams);
     
     const confidence = searchParams.get('confidence') || '';
     const market = searchParams.get('market') || '';
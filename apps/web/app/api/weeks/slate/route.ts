@@ -8,10 +8,17 @@ export const dynamic = 'force-dynamic';
 
 import { NextRequest, NextResponse } from 'next/server';
 import { prisma } from '@/lib/prisma';
+import { resolveSeasonWeek } from '@/lib/season-calendar-context';
 import { selectClosingLine } from '@/lib/closing-line-helpers';
 import { getCoreV1SpreadFromTeams, getATSPick, computeATSEdgeHma } from '@/lib/core-v1-spread';
 import { getOUPick } from '@/lib/core-v1-total';
-import { americanToProb } from '@/lib/market-line-helpers';
+import { getTotalsV2Projection } from '@/lib/totals-v2-context';
+import { isTotalsV2Fitted } from '@/lib/totals-v2-model';
+import { getMoneylinePick } from '@/lib/core-v1-moneyline';
+import { parseAsOf, marketLineAsOf, createdAsOf } from '@/lib/as-of';
+import { getCoreModel } from '@/lib/model-registry';
+import { BestPriceSummary, BookLineInput, buildPriceMatrix, summarizeBestPrice } from '@/lib/book-prices';
+import { isStraightBet } from '@/lib/tickets';
 
 interface SlateGame {
   gameId: string;
@@ -37,7 +44,10 @@ interface SlateGame {
   hasOdds?: boolean; // Indicates if game has any market lines
   // Advanced columns (optional)
   modelSpread?: number | null;
+  injuryAdjPts?: number | null; // Injury line item already included in modelSpread (HMA)
+  modelVersion?: string | null; // Registry version that produced modelSpread
   modelTotal?: number | null;
+  modelTotalSource?: 'totals_v2' | 'spread_overlay' | null;
   pickSpread?: string | null;
   pickTotal?: string | null;
   pickMoneyline?: string | null;
@@ -59,16 +69,23 @@ interface SlateGame {
       continuityDiff?: number | null;
       isDog?: boolean | null;
       isLowContinuityDog?: boolean;
+      bestPrice?: BestPriceSummary | null; // Best book for the picked side vs consensus
     };
     total?: {
       label: string | null;
       edge: number | null;
       grade: string | null;
+      bestPrice?: BestPriceSummary | null;
     };
     moneyline?: {
       label: string | null;
-      value: number | null;
+      value: number | null; // EV percent at the offered price
       grade: string | null;
+      winProb?: number | null; // Model win probability for the picked side
+      marketProb?: number | null; // De-vigged market probability for the picked side
+      price?: number | null;
+      fairPrice?: number | null;
+      bestPrice?: BestPriceSummary | null;
     };
   };
   // Debug info (only when debug=1 query param is present)
@@ -87,14 +104,17 @@ interface SlateGame {
 export async function GET(request: NextRequest) {
   try {
     const url = new URL(request.url);
-    const season = parseInt(url.searchParams.get('season') || '2025', 10);
-    const week = parseInt(url.searchParams.get('week') || '9', 10);
+    const { season, week } = await resolveSeasonWeek(url.searchParams);
     
     // Query parameters for performance optimization
     const limitDates = parseInt(url.searchParams.get('limitDates') || '0', 10);
     const afterDate = url.searchParams.get('afterDate');
     const includeAdvanced = url.searchParams.get('includeAdvanced') === 'true';
     const debug = url.searchParams.get('debug') === '1' || url.searchParams.get('debug') === 'true';
+    // Point-in-time replay: only use ratings/lines that existed at this timestamp
+    const { asOf, error: asOfError } = parseAsOf(url.searchParams.get('asOf'));
+    // Registered model version to serve (default: the season's active version)
+    const modelVersion = url.searchParams.get('modelVersion');
 
     if (!season || !week) {
       return NextResponse.json(
@@ -103,7 +123,21 @@ export async function GET(request: NextRequest) {
       );
     }
 
-    console.log(`📅 Fetching slate for ${season} Week ${week}${limitDates > 0 ? ` (limitDates: ${limitDates})` : ''}${afterDate ? ` (afterDate: ${afterDate})` : ''}`);
+    if (asOfError) {
+      return NextResponse.json(
+        { error: asOfError },
+        { status: 400 }
+      );
+    }
+
+    if (modelVersion && !(await getCoreModel(modelVersion))) {
+      return NextResponse.json(
+        { error: `Unknown model version: ${modelVersion}` },
+        { status: 404 }
+      );
+    }
+
+    console.log(`📅 Fetching slate for ${season} Week ${week}${limitDates > 0 ? ` (limitDates: ${limitDates})` : ''}${afterDate ? ` (afterDate: ${afterDate})` : ''}${asOf ? ` (asOf: ${asOf.toISOString()})` : ''}${modelVersion ? ` (model: ${modelVersion})` : ''}`);
 
     // Build where clause with date filtering
     const whereClause: any = { season, week };
@@ -141,7 +175,8 @@ export async function GET(request: NextRequest) {
         where: {
           season: season,
           week: week,
-          lineType: 'spread'
+          lineType: 'spread',
+          ...marketLineAsOf(asOf)
         },
         orderBy: { timestamp: 'desc' }
       }),
@@ -149,7 +184,8 @@ export async function GET(request: NextRequest) {
         where: {
           season: season,
           week: week,
-          lineType: 'total'
+          lineType: 'total',
+          ...marketLineAsOf(asOf)
         },
         orderBy: { timestamp: 'desc' }
       }),
@@ -157,7 +193,8 @@ export async function GET(request: NextRequest) {
         where: {
           season: season,
           week: week,
-          lineType: 'moneyline'
+          lineType: 'moneyline',
+          ...marketLineAsOf(asOf)
         },
         orderBy: { timestamp: 'desc' }
       })
@@ -229,6 +266,22 @@ export async function GET(request: NextRequest) {
       moneylineMap.get(line.gameId)!.push(line);
     });
 
+    // Every book's lines per game, for best-price shopping on picks
+    const bookLinesByGame = new Map<string, BookLineInput[]>();
+    for (const line of [...spreadLines, ...totalLines, ...moneylineLines]) {
+      if (!bookLinesByGame.has(line.gameId)) {
+        bookLinesByGame.set(line.gameId, []);
+      }
+      bookLinesByGame.get(line.gameId)!.push({
+        lineType: line.lineType,
+        lineValue: Number(line.lineValue),
+        price: line.price !== null && line.price !== undefined ? Number(line.price) : null,
+        bookName: line.bookName,
+        teamId: line.teamId,
+        timestamp: line.timestamp,
+      });
+    }
+
     // Process each game
     const slateGames: SlateGame[] = [];
     
@@ -241,6 +294,12 @@ export async function GET(request: NextRequest) {
         status = 'in_progress';
       }
 
+      // As-of replay: a game that had not kicked off yet has no status or score
+      const notStartedAsOf = asOf !== null && game.date > asOf;
+      if (notStartedAsOf) {
+        status = 'scheduled';
+      }
+
       // Get closing lines from batch data (may be null if game doesn't have odds yet)
       const spreadLine = spreadMap.get(game.id);
       const totalLine = totalMap.get(game.id);
@@ -273,8 +332,8 @@ export async function GET(request: NextRequest) {
         awayTeamName: game.awayTeam.name,
         homeTeamId: game.homeTeam.id,
         homeTeamName: game.homeTeam.name,
-        awayScore: game.awayScore,
-        homeScore: game.homeScore,
+        awayScore: notStartedAsOf ? null : game.awayScore,
+        homeScore: notStartedAsOf ? null : game.homeScore,
         closingSpread,
         closingTotal,
         hasOdds, // Indicate if this game has odds data
@@ -298,7 +357,9 @@ export async function GET(request: NextRequest) {
         season,
         week,
         strategyTag: 'hybrid_v2',
+        userId: null,
         marketType: 'spread',
+        ...createdAsOf(asOf),
       },
       select: {
         gameId: true,
@@ -311,8 +372,9 @@ export async function GET(request: NextRequest) {
 
     // Create lookup map by gameId
     const hybridBetMap = new Map<string, typeof hybridBets[0]>();
-    for (const bet of hybridBets) {
-      hybridBetMap.set(bet.gameId, bet);
+    for (const bet of hybridBets.filter(isStraightBet)) {
+      // Close price and CLV are written after kickoff - hide them from as-of replays
+      hybridBetMap.set(bet.gameId, asOf ? { ...bet, closePrice: null, clv: null } : bet);
     }
 
     console.log(`   Found ${hybridBets.length} Hybrid V2 spread bets for conflict/tier lookup`);
@@ -384,7 +446,11 @@ export async function GET(request: NextRequest) {
           game.awayTeamId,
           fullGame.neutralSite || false,
           fullGame.homeTeam.name,
-          fullGame.awayTeam.name
+          fullGame.awayTeam.name,
+          asOf,
+          fullGame.date,
+          game.gameId,
+          modelVersion
         );
 
         const modelSpreadHma = coreSpreadInfo.coreSpreadHma;
@@ -481,9 +547,25 @@ export async function GET(request: NextRequest) {
           });
         }
 
-        // Totals: Compute using Core V1 totals model
+        // Totals: Totals V2 (pace/efficiency/weather) projection once fitted, spread overlay as fallback
         const marketTotal = game.closingTotal?.value ?? null;
-        const ouPick = getOUPick(marketTotal, marketSpreadHma, modelSpreadHma);
+        let totalsV2Total: number | null = null;
+        if (isTotalsV2Fitted()) {
+          try {
+            const projection = await getTotalsV2Projection({
+              id: game.gameId,
+              season,
+              week,
+              homeTeamId: game.homeTeamId,
+              awayTeamId: game.awayTeamId,
+              date: fullGame.date,
+            }, asOf);
+            totalsV2Total = projection.modelTotal;
+          } catch (error) {
+            console.warn(`[Slate API] Totals V2 unavailable for ${game.gameId}, using spread overlay:`, (error as Error).message);
+          }
+        }
+        const ouPick = getOUPick(marketTotal, marketSpreadHma, modelSpreadHma, totalsV2Total);
         const modelTotal = ouPick.modelTotal !== null ? Math.round(ouPick.modelTotal * 10) / 10 : null;
         const totalPick = ouPick.pickLabel;
         const totalEdgePts = ouPick.ouEdgePts !== null ? Math.round(ouPick.ouEdgePts * 10) / 10 : null;
@@ -496,67 +578,41 @@ export async function GET(request: NextRequest) {
           else if (totalEdgePts >= 0.1) totalGrade = 'C';
         }
 
-        // Moneyline: Calculate win probabilities and value
+        // Moneyline: Core V1 win probability vs de-vigged market, EV at the offered price
         let moneylinePick: string | null = null;
         let moneylineValue: number | null = null;
         let moneylineGrade: string | null = null;
+        let moneylineWinProb: number | null = null;
+        let moneylineMarketProb: number | null = null;
+        let moneylineFairPrice: number | null = null;
+        let moneylinePrice: number | null = null;
+        let moneylineSide: 'home' | 'away' | null = null;
         
         // Get moneyline prices from market
         const gameMoneylineLines = moneylineMap.get(game.gameId) || [];
         const homeMLPrice = gameMoneylineLines.find((ml: any) => ml.teamId === game.homeTeamId)?.lineValue ?? null;
         const awayMLPrice = gameMoneylineLines.find((ml: any) => ml.teamId === game.awayTeamId)?.lineValue ?? null;
         
-        if (modelSpreadHma !== null && Number.isFinite(modelSpreadHma) && Math.abs(modelSpreadHma) <= 24.0) {
-          // Calculate win probabilities from spread using sigmoid
-          const spreadForHome = -modelSpreadHma; // Flip sign: positive HMA = home favored
-          const homeProbRaw = 1 / (1 + Math.pow(10, spreadForHome / 14.5));
-          const modelHomeWinProb = Math.max(0.01, Math.min(0.99, homeProbRaw));
-          const modelAwayWinProb = 1 - modelHomeWinProb;
-          
-          // Calculate value for both sides
-          const impliedHome = homeMLPrice !== null ? americanToProb(homeMLPrice)! : null;
-          const impliedAway = awayMLPrice !== null ? americanToProb(awayMLPrice)! : null;
-          
-          const homeValue = impliedHome !== null ? (modelHomeWinProb - impliedHome) : null;
-          const awayValue = impliedAway !== null ? (modelAwayWinProb - impliedAway) : null;
-          const homeValuePercent = homeValue !== null ? homeValue * 100 : null;
-          const awayValuePercent = awayValue !== null ? awayValue * 100 : null;
-          
-          // Select the side with highest positive value (minimum 1% threshold)
-          const HARD_MIN_ML_VALUE = 0.01; // 1% minimum value threshold
-          let selectedSide: 'home' | 'away' | null = null;
-          let selectedValuePercent: number | null = null;
-          let selectedTeamName: string | null = null;
-          let selectedPrice: number | null = null;
-          
-          if (homeValuePercent !== null && homeValuePercent > HARD_MIN_ML_VALUE * 100) {
-            if (awayValuePercent === null || homeValuePercent >= awayValuePercent) {
-              selectedSide = 'home';
-              selectedValuePercent = homeValuePercent;
-              selectedTeamName = fullGame.homeTeam.name;
-              selectedPrice = homeMLPrice;
-            }
-          }
-          
-          if (awayValuePercent !== null && awayValuePercent > HARD_MIN_ML_VALUE * 100) {
-            if (selectedSide === null || awayValuePercent > selectedValuePercent!) {
-              selectedSide = 'away';
-              selectedValuePercent = awayValuePercent;
-              selectedTeamName = fullGame.awayTeam.name;
-              selectedPrice = awayMLPrice;
-            }
-          }
+        if (homeMLPrice !== null || awayMLPrice !== null) {
+          const mlPick = getMoneylinePick(
+            modelSpreadHma,
+            homeMLPrice,
+            awayMLPrice,
+            game.homeTeamId,
+            game.awayTeamId,
+            fullGame.homeTeam.name,
+            fullGame.awayTeam.name
+          );
           
-          if (selectedSide !== null && selectedValuePercent !== null) {
-            // Format moneyline pick
-            const priceStr = selectedPrice! < 0 ? selectedPrice!.toString() : `+${selectedPrice!}`;
-            moneylinePick = `${selectedTeamName} ${priceStr}`;
-            moneylineValue = selectedValuePercent;
-            
-            // Calculate Moneyline grade
-            if (selectedValuePercent >= 10.0) moneylineGrade = 'A';
-            else if (selectedValuePercent >= 5.0) moneylineGrade = 'B';
-            else if (selectedValuePercent >= 1.0) moneylineGrade = 'C';
+          if (mlPick.side !== null && mlPick.ev !== null) {
+            moneylinePick = mlPick.pickLabel;
+            moneylineValue = Math.round(mlPick.ev * 1000) / 10; // EV in percent
+            moneylineGrade = mlPick.grade;
+            moneylineWinProb = mlPick.side === 'home' ? mlPick.homeWinProb : mlPick.awayWinProb;
+            moneylineMarketProb = mlPick.side === 'home' ? mlPick.marketHomeProb : mlPick.marketAwayProb;
+            moneylineFairPrice = mlPick.fairPrice !== null ? Math.round(mlPick.fairPrice) : null;
+            moneylinePrice = mlPick.price;
+            moneylineSide = mlPick.side;
           }
         }
         
@@ -588,7 +644,10 @@ export async function GET(request: NextRequest) {
 
         // Assign to game - CRITICAL: Always assign, even if some fields are null
         game.modelSpread = modelSpread;
+        game.injuryAdjPts = coreSpreadInfo.injuryInfo ? Math.round(coreSpreadInfo.injuryInfo.injuryAdjPts * 10) / 10 : null;
+        game.modelVersion = coreSpreadInfo.modelVersion;
         game.modelTotal = modelTotal;
+        game.modelTotalSource = modelTotal === null ? null : totalsV2Total !== null ? 'totals_v2' : 'spread_overlay';
         game.pickSpread = spreadPick;
         game.pickTotal = totalPick;
         game.pickMoneyline = moneylinePick;
@@ -678,6 +737,22 @@ export async function GET(request: NextRequest) {
           }
         }
 
+        // Best book for each picked side
+        const priceMatrix = buildPriceMatrix(
+          bookLinesByGame.get(game.gameId) || [],
+          game.homeTeamId,
+          game.awayTeamId
+        );
+        const spreadBestPrice = spreadPick && edgeHma !== null
+          ? summarizeBestPrice(priceMatrix, 'spread', edgeHma > 0 ? 'home' : 'away')
+          : null;
+        const totalBestPrice = totalPick && ouPick.ouEdgePts !== null
+          ? summarizeBestPrice(priceMatrix, 'total', ouPick.ouEdgePts > 0 ? 'over' : 'under')
+          : null;
+        const moneylineBestPrice = moneylineSide
+          ? summarizeBestPrice(priceMatrix, 'moneyline', moneylineSide)
+          : null;
+
         // Add picks object with individual market data
         game.picks = {
           spread: {
@@ -693,16 +768,23 @@ export async function GET(request: NextRequest) {
             continuityDiff,
             isDog,
             isLowContinuityDog,
+            bestPrice: spreadBestPrice,
           },
           total: {
             label: totalPick,
             edge: totalEdgePts,
-            grade: totalGrade
+            grade: totalGrade,
+            bestPrice: totalBestPrice,
           },
           moneyline: {
             label: moneylinePick,
             value: moneylineValue,
-            grade: moneylineGrade
+            grade: moneylineGrade,
+            winProb: moneylineWinProb,
+            marketProb: moneylineMarketProb,
+            price: moneylinePrice,
+            fairPrice: moneylineFairPrice,
+            bestPrice: moneylineBestPrice,
           }
         };
         
@@ -744,7 +826,8 @@ export async function GET(request: NextRequest) {
     }
 
     // Determine cache headers based on game status
-    const hasFinalGames = slateGames.some(g => g.status === 'final');
+    // As-of replays are immutable once the rows exist, so cache them like final games
+    const hasFinalGames = asOf !== null || slateGames.some(g => g.status === 'final');
     const cacheHeaders = hasFinalGames 
       ? { 'Cache-Control': 'public, s-maxage=600, stale-while-revalidate=1200' } // 10min cache for final games
       : { 'Cache-Control': 'public, s-maxage=60, stale-while-revalidate=120' }; // 1min cache for live games
@@ -1,7 +1,8 @@
 /**
  * Backtests Viewer Page
  * 
- * Client-side CSV upload and visualization for backtest reports
+ * Walk-forward ruleset backtests, plus client-side CSV upload and visualization
+ * for backtest reports
  */
 
 'use client';
@@ -12,6 +13,7 @@ import Papa from 'papaparse';
 import { LineChart, Line, BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer } from 'recharts';
 import { HeaderNav } from '@/components/HeaderNav';
 import { Footer } from '@/components/Footer';
+import { WalkForwardBacktest } from '@/components/WalkForwardBacktest';
 
 interface BacktestRow {
   season: string;
@@ -349,9 +351,11 @@ export default function BacktestsPage() {
           {/* Header */}
           <div className="mb-8">
             <h1 className="text-3xl font-bold text-gray-900">Backtest Viewer</h1>
-            <p className="text-gray-600 mt-1">Upload and analyze backtest CSV reports</p>
+            <p className="text-gray-600 mt-1">Replay rulesets walk-forward, or upload and analyze backtest CSV reports</p>
           </div>
 
+          <WalkForwardBacktest />
+
           {/* Error Banner */}
           {error && (
             <div className="bg-red-50 border-l-4 border-red-500 p-4 mb-8">
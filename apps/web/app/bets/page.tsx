@@ -7,9 +7,9 @@ interface Bet {
   id: string;
   season: number;
   week: number;
-  gameId: string;
+  gameId: string | null; // null for parlays and teasers
   marketType: string;
-  side: string;
+  side: string | null;
   modelPrice: number;
   closePrice: number | null;
   stake: number;
@@ -24,7 +24,26 @@ interface Bet {
     homeTeam: { name: string };
     awayTeam: { name: string };
     date: string;
-  };
+  } | null;
+  teaserPoints: number | null;
+  legs: Array<{
+    id: string;
+    side: string;
+    line: number | null;
+    result: string | null;
+    game: {
+      homeTeam: { name: string };
+      awayTeam: { name: string };
+      date: string;
+    };
+  }>;
+}
+
+function matchupOf(bet: Bet): string {
+  if (bet.game === null) {
+    return bet.legs.map(leg => `${leg.game.awayTeam.name} @ ${leg.game.homeTeam.name}`).join(' / ');
+  }
+  return `${bet.game.awayTeam.name} @ ${bet.game.homeTeam.name}`;
 }
 
 interface BetFilters {
@@ -33,6 +52,7 @@ interface BetFilters {
   marketType: string;
   side: string;
   strategyTag: string;
+  portfolio: string; // 'mine' | 'house' | '' (API default)
 }
 
 export default function BetsPage() {
@@ -46,7 +66,8 @@ export default function BetsPage() {
     week: null,
     marketType: '',
     side: '',
-    strategyTag: ''
+    strategyTag: '',
+    portfolio: ''
   });
 
   const fetchBets = async () => {
@@ -59,6 +80,7 @@ export default function BetsPage() {
         ...(filters.marketType && { marketType: filters.marketType }),
         ...(filters.side && { side: filters.side }),
         ...(filters.strategyTag && { strategyTag: filters.strategyTag }),
+        ...(filters.portfolio && { portfolio: filters.portfolio }),
         limit: '100',
         offset: '0'
       });
@@ -82,7 +104,7 @@ export default function BetsPage() {
   const handleSeed = async () => {
     setSeeding(true);
     try {
-      const response = await fetch('/api/bets/seed', { method: 'GET' });
+      const response = await fetch('/api/bets/seed', { method: 'POST' });
       const result = await response.json();
       
       if (result.success) {
@@ -105,6 +127,7 @@ export default function BetsPage() {
       ...(filters.marketType && { marketType: filters.marketType }),
       ...(filters.side && { side: filters.side }),
       ...(filters.strategyTag && { strategy: filters.strategyTag }),
+      ...(filters.portfolio && { portfolio: filters.portfolio }),
     });
     
     const url = `/api/bets/export?${params}`;
@@ -123,7 +146,7 @@ export default function BetsPage() {
         index: index + 1,
         date: new Date(bet.createdAt).toLocaleDateString(),
         cumulativePnL: Math.round(cumulativePnL * 100) / 100,
-        bet: `${bet.game.awayTeam.name} @ ${bet.game.homeTeam.name}`,
+        bet: matchupOf(bet),
         pnl: bet.pnl || 0
       };
     });
@@ -202,7 +225,7 @@ export default function BetsPage() {
         {/* Filters */}
         <div className="bg-white p-6 rounded-lg shadow mb-6">
           <h2 className="text-lg font-semibold mb-4">Filters</h2>
-          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-5 gap-4">
+          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-6 gap-4">
             <div>
               <label className="block text-sm font-medium mb-1">Season</label>
               <select 
@@ -240,6 +263,8 @@ export default function BetsPage() {
                 <option value="spread">Spread</option>
                 <option value="total">Total</option>
                 <option value="moneyline">Moneyline</option>
+                <option value="parlay">Parlay</option>
+                <option value="teaser">Teaser</option>
               </select>
             </div>
             
@@ -270,6 +295,19 @@ export default function BetsPage() {
                 <option value="TestStrategy2">Test Strategy 2</option>
               </select>
             </div>
+
+            <div>
+              <label className="block text-sm font-medium mb-1">Portfolio</label>
+              <select 
+                value={filters.portfolio} 
+                onChange={(e) => setFilters(prev => ({ ...prev, portfolio: e.target.value }))}
+                className="w-full border rounded px-3 py-2"
+              >
+                <option value="">Default</option>
+                <option value="mine">My bets</option>
+                <option value="house">House</option>
+              </select>
+            </div>
           </div>
         </div>
 
@@ -457,18 +495,34 @@ export default function BetsPage() {
                       {bet.season} W{bet.week}
                     </td>
                     <td className="px-6 py-4 whitespace-nowrap">
-                      <div className="text-sm font-medium text-gray-900">
-                        {bet.game.awayTeam.name} @ {bet.game.homeTeam.name}
-                      </div>
-                      <div className="text-sm text-gray-500">
-                        {new Date(bet.game.date).toLocaleDateString()}
-                      </div>
+                      {bet.game === null ? (
+                        <>
+                          <div className="text-sm font-medium text-gray-900">
+                            {bet.legs.length}-leg {bet.marketType === 'teaser' ? `${bet.teaserPoints}-pt teaser` : 'parlay'}
+                          </div>
+                          {bet.legs.map(leg => (
+                            <div key={leg.id} className="text-sm text-gray-500">
+                              {leg.game.awayTeam.name} @ {leg.game.homeTeam.name}
+                              {leg.result && ` (${leg.result})`}
+                            </div>
+                          ))}
+                        </>
+                      ) : (
+                        <>
+                          <div className="text-sm font-medium text-gray-900">
+                            {bet.game.awayTeam.name} @ {bet.game.homeTeam.name}
+                          </div>
+                          <div className="text-sm text-gray-500">
+                            {new Date(bet.game.date).toLocaleDateString()}
+                          </div>
+                        </>
+                      )}
                     </td>
                     <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
                       {bet.marketType}
                     </td>
                     <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
-                      {bet.side}
+                      {bet.side ?? '-'}
                     </td>
                     <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
                       {bet.modelPrice}
@@ -1,7 +1,7 @@
 import { Metadata } from 'next';
 import { prisma } from '@/lib/prisma';
 import Link from 'next/link';
-import { getCurrentSeasonWeek } from '@/lib/current-week';
+import { getCurrentSeasonWeek } from '@/lib/season-calendar-context';
 import ETLHeartbeat from './etl-heartbeat';
 import DataSources from './data-sources';
 
@@ -31,8 +31,8 @@ export default async function StatusPage() {
     });
 
     // 2) Counts for market_lines for the current (season, week) grouped by line_type and source
-    // Use getCurrentSeasonWeek helper to get actual current week, not just latest game in DB
-    const current = await getCurrentSeasonWeek(prisma);
+    // Current week from the season calendar, not just latest game in DB
+    const current = await getCurrentSeasonWeek();
     const currentSeason = current.season;
     const currentWeek = current.week;
     
@@ -0,0 +1,265 @@
+/**
+ * Futures Page
+ *
+ * Expected URL: /futures?season=2025&book=<name>&minEdge=0.04
+ *
+ * Season win totals and conference-winner prices against the latest season
+ * simulation: model vs no-vig market probabilities, edge and EV, with flagged
+ * edges highlighted.
+ */
+'use client';
+
+import { Suspense, useEffect, useState } from 'react';
+import Link from 'next/link';
+import { useRouter, useSearchParams } from 'next/navigation';
+import { HeaderNav } from '@/components/HeaderNav';
+import { Footer } from '@/components/Footer';
+import type { FuturesComparison } from '@/lib/futures-context';
+
+const th = 'px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider';
+const td = 'px-4 py-3 whitespace-nowrap text-sm text-gray-700';
+
+const pct = (p: number) => `${(p * 100).toFixed(1)}%`;
+const signedPct = (p: number) => `${p >= 0 ? '+' : ''}${(p * 100).toFixed(1)}%`;
+const price = (american: number) => (american > 0 ? `+${american}` : `${american}`);
+
+function FuturesContent() {
+  const router = useRouter();
+  const searchParams = useSearchParams();
+  const [season, setSeason] = useState<string>(searchParams.get('season') || '');
+  const [book, setBook] = useState<string>(searchParams.get('book') || '');
+  const [minEdge, setMinEdge] = useState<string>(searchParams.get('minEdge') || '0.04');
+  const [flaggedOnly, setFlaggedOnly] = useState(false);
+  const [data, setData] = useState<FuturesComparison | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const params = new URLSearchParams({ minEdge: minEdge || '0' });
+    if (season) params.set('season', season);
+    if (book) params.set('book', book);
+    router.replace(`/futures?${params}`);
+
+    setLoading(true);
+    setError(null);
+    fetch(`/api/futures?${params}`)
+      .then(async res => {
+        const result = await res.json();
+        if (!res.ok || !result.success) {
+          throw new Error(result.error || `HTTP ${res.status}`);
+        }
+        setData(result);
+        if (!season) setSeason(String(result.season));
+      })
+      .catch(err => {
+        setData(null);
+        setError(err instanceof Error ? err.message : 'Unknown error');
+      })
+      .finally(() => setLoading(false));
+  }, [season, book, minEdge]);
+
+  const winTotals = (data?.winTotals ?? []).filter(w => !flaggedOnly || w.flagged);
+  const conferenceWinners = (data?.conferenceWinners ?? []).filter(c => !flaggedOnly || c.flagged);
+  const noLines = data && data.books.length === 0;
+
+  return (
+    <div className="min-h-screen bg-gray-50 flex flex-col">
+      <HeaderNav />
+      <div className="flex-1">
+        <div className="container mx-auto px-4 py-8">
+          <div className="mb-8">
+            <h1 className="text-3xl font-bold mb-2">Futures</h1>
+            <p className="text-gray-600 mb-4">
+              Season win totals and conference-winner prices compared with the season simulation.
+              Market probabilities are no-vig; edge is model minus market.
+            </p>
+
+            <div className="flex flex-wrap items-end gap-4">
+              <div>
+                <label className="block text-sm font-medium mb-1">Season</label>
+                <input
+                  type="number"
+                  value={season}
+                  placeholder="Current"
+                  onChange={(e) => setSeason(e.target.value)}
+                  className="border rounded px-3 py-2 w-28"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium mb-1">Book</label>
+                <select value={book} onChange={(e) => setBook(e.target.value)} className="border rounded px-3 py-2">
+                  <option value="">All books</option>
+                  {(data?.books ?? []).map(b => (
+                    <option key={b} value={b}>{b}</option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <label className="block text-sm font-medium mb-1">Min edge (prob)</label>
+                <input
+                  type="number"
+                  step="0.01"
+                  min="0"
+                  max="0.99"
+                  value={minEdge}
+                  onChange={(e) => setMinEdge(e.target.value)}
+                  className="border rounded px-3 py-2 w-28"
+                />
+              </div>
+              <label className="flex items-center gap-2 text-sm pb-2">
+                <input type="checkbox" checked={flaggedOnly} onChange={(e) => setFlaggedOnly(e.target.checked)} />
+                Flagged edges only
+              </label>
+            </div>
+
+            {data?.simulation && (
+              <p className="text-xs text-gray-500 mt-3">
+                Simulation from week {data.simulation.asOfWeek}, {data.simulation.iterations.toLocaleString()} runs,
+                model {data.simulation.modelVersion}, {data.simulation.createdAt.slice(0, 10)}
+              </p>
+            )}
+          </div>
+
+          {loading && (
+            <div className="text-center py-12">
+              <p className="text-gray-500">Loading futures...</p>
+            </div>
+          )}
+
+          {error && (
+            <div className="bg-red-50 border border-red-200 rounded p-4 mb-6">
+              <p className="text-red-800">Error: {error}</p>
+            </div>
+          )}
+
+          {!loading && !error && data && (
+            <>
+              {noLines && (
+                <div className="bg-yellow-50 border border-yellow-200 rounded p-4 mb-6">
+                  <p className="text-yellow-800">
+                    No futures lines for {data.season}. Load a file with <code>npm run load:futures</code>.
+                  </p>
+                </div>
+              )}
+              {!noLines && !data.simulation && (
+                <div className="bg-yellow-50 border border-yellow-200 rounded p-4 mb-6">
+                  <p className="text-yellow-800">
+                    No season simulation for {data.season}. Run <code>npm run simulate:season</code> to compare lines.
+                  </p>
+                </div>
+              )}
+              {data.unmatchedTeamIds.length > 0 && (
+                <p className="text-xs text-gray-500 mb-4">
+                  Not in the simulation: {data.unmatchedTeamIds.join(', ')}
+                </p>
+              )}
+
+              {/* Win totals */}
+              <div className="bg-white rounded-lg shadow mb-8 overflow-x-auto">
+                <div className="p-6 border-b">
+                  <h2 className="text-xl font-semibold">Win Totals</h2>
+                  <p className="text-sm text-gray-600 mt-1">Regular-season wins, largest edge first</p>
+                </div>
+                <table className="w-full">
+                  <thead className="bg-gray-50">
+                    <tr>
+                      <th className={th}>Team</th>
+                      <th className={th}>Book</th>
+                      <th className={th}>Line</th>
+                      <th className={th}>Over / Under</th>
+                      <th className={th}>Model xW</th>
+                      <th className={th}>Model O / U / Push</th>
+                      <th className={th}>Market O / U</th>
+                      <th className={th}>Edge O / U</th>
+                      <th className={th}>EV O / U</th>
+                      <th className={th}>Pick</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-gray-200">
+                    {winTotals.length === 0 && (
+                      <tr>
+                        <td className={td} colSpan={10}>No win totals{flaggedOnly ? ' with a flagged edge' : ''}.</td>
+                      </tr>
+                    )}
+                    {winTotals.map(w => (
+                      <tr key={`${w.teamId}|${w.bookName}`} className={w.flagged ? 'bg-green-50' : ''}>
+                        <td className={`${td} font-medium text-gray-900`}>
+                          <Link href={`/team/${w.teamId}?season=${data.season}`} className="hover:underline">{w.teamName}</Link>
+                        </td>
+                        <td className={td}>{w.bookName}</td>
+                        <td className={td}>{w.line}</td>
+                        <td className={td}>{price(w.overPrice)} / {price(w.underPrice)}</td>
+                        <td className={td}>{w.expectedWins.toFixed(2)}</td>
+                        <td className={td}>{pct(w.modelOverProb)} / {pct(w.modelUnderProb)} / {pct(w.pushProb)}</td>
+                        <td className={td}>{pct(w.marketOverProb)} / {pct(w.marketUnderProb)}</td>
+                        <td className={td}>{signedPct(w.overEdge)} / {signedPct(w.underEdge)}</td>
+                        <td className={td}>{w.overEv.toFixed(3)} / {w.underEv.toFixed(3)}</td>
+                        <td className={`${td} font-semibold ${w.pick ? 'text-green-700' : 'text-gray-400'}`}>
+                          {w.pick ? `${w.pick} ${w.line}` : '—'}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+
+              {/* Conference winners */}
+              <div className="bg-white rounded-lg shadow mb-8 overflow-x-auto">
+                <div className="p-6 border-b">
+                  <h2 className="text-xl font-semibold">Conference Winners</h2>
+                  <p className="text-sm text-gray-600 mt-1">Each book&apos;s conference field de-vigged together; model is the simulated title probability</p>
+                </div>
+                <table className="w-full">
+                  <thead className="bg-gray-50">
+                    <tr>
+                      <th className={th}>Conference</th>
+                      <th className={th}>Team</th>
+                      <th className={th}>Book</th>
+                      <th className={th}>Price</th>
+                      <th className={th}>Market</th>
+                      <th className={th}>Model</th>
+                      <th className={th}>Edge</th>
+                      <th className={th}>EV</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-gray-200">
+                    {conferenceWinners.length === 0 && (
+                      <tr>
+                        <td className={td} colSpan={8}>No conference-winner lines{flaggedOnly ? ' with a flagged edge' : ''}.</td>
+                      </tr>
+                    )}
+                    {conferenceWinners.map(c => (
+                      <tr key={`${c.teamId}|${c.bookName}`} className={c.flagged ? 'bg-green-50' : ''}>
+                        <td className={td}>{c.conference}</td>
+                        <td className={`${td} font-medium text-gray-900`}>
+                          <Link href={`/team/${c.teamId}?season=${data.season}`} className="hover:underline">{c.teamName}</Link>
+                        </td>
+                        <td className={td}>{c.bookName}</td>
+                        <td className={td}>{price(c.price)}</td>
+                        <td className={td}>{pct(c.marketProb)}</td>
+                        <td className={td}>{pct(c.modelProb)}</td>
+                        <td className={`${td} ${c.flagged ? 'font-semibold text-green-700' : ''}`}>{signedPct(c.edge)}</td>
+                        <td className={td}>{c.ev.toFixed(3)}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            </>
+          )}
+        </div>
+      </div>
+      <Footer />
+    </div>
+  );
+}
+
+export default function FuturesPage() {
+  return (
+    <Suspense fallback={<div className="min-h-screen bg-gray-50 flex items-center justify-center">
+      <div className="text-gray-600">Loading...</div>
+    </div>}>
+      <FuturesContent />
+    </Suspense>
+  );
+}
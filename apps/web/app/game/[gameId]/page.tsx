@@ -11,7 +11,7 @@
 'use client';
 
 import { useState, useEffect } from 'react';
-import { useParams } from 'next/navigation';
+import { useParams, useSearchParams } from 'next/navigation';
 import Link from 'next/link';
 import { HeaderNav } from '@/components/HeaderNav';
 import { Footer } from '@/components/Footer';
@@ -27,9 +27,13 @@ import { TeamLogo } from '@/components/TeamLogo';
 import { ModelViewModeToggle } from '@/components/ModelViewModeToggle';
 import { useModelViewMode } from '@/contexts/ModelViewModeContext';
 import { UnitMatchupCard } from '@/components/UnitMatchupCard';
+import { LiveWinProbability } from '@/components/LiveWinProbability';
 
 export default function GameDetailPage() {
   const params = useParams();
+  const searchParams = useSearchParams();
+  // Registered model version to view (default: the season's active version)
+  const modelVersion = searchParams.get('modelVersion');
   const [game, setGame] = useState<any>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
@@ -41,13 +45,16 @@ export default function GameDetailPage() {
     if (params.gameId) {
       fetchGameDetail();
     }
-  }, [params.gameId, weatherAdjusted]);
+  }, [params.gameId, weatherAdjusted, modelVersion]);
 
   const fetchGameDetail = async () => {
     const fetchStart = Date.now();
     try {
-      const url = weatherAdjusted 
-        ? `/api/game/${params.gameId}?weather=true`
+      const query = new URLSearchParams();
+      if (weatherAdjusted) query.set('weather', 'true');
+      if (modelVersion) query.set('modelVersion', modelVersion);
+      const url = query.toString()
+        ? `/api/game/${params.gameId}?${query.toString()}`
         : `/api/game/${params.gameId}`;
       const response = await fetch(url);
       const fetchTime = Date.now() - fetchStart;
@@ -585,6 +592,9 @@ export default function GameDetailPage() {
             </div>
           )}
 
+          {/* Live Win Probability (in-game updates) */}
+          {game.game.status !== 'scheduled' && <LiveWinProbability gameId={params.gameId as string} />}
+
           {/* Betting Lines Summary - Priority above fold */}
           <div className="bg-blue-50 border border-blue-200 rounded-lg p-3 sm:p-4 mb-4 md:mb-6">
             <h3 className="text-base sm:text-lg font-semibold text-blue-900 mb-2 sm:mb-3 flex items-center gap-2">
@@ -2621,6 +2631,9 @@ export default function GameDetailPage() {
         {/* Model Info */}
         <div className="bg-white p-6 rounded-lg shadow">
           <h3 className="text-lg font-semibold text-gray-900 mb-4">Model Information</h3>
+          {game.model_view?.modelVersion && (
+            <div className="text-xs text-gray-500 -mt-3 mb-4">Model version: {game.model_view.modelVersion}</div>
+          )}
           <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
             <div>
           <div className="text-sm text-gray-500 flex items-center gap-1">
@@ -2651,6 +2664,30 @@ export default function GameDetailPage() {
                   For this game: 0.0 pts (neutral site)
                 </div>
               )}
+              {!game.model_view.features.hfa.neutral_site && game.model_view.features.hfa.components && (
+                <div className="mt-2 text-xs text-gray-600 space-y-0.5">
+                  {([
+                    ['travel', 'Travel', game.model_view.features.hfa.inputs?.travelMiles != null ? `${Math.round(game.model_view.features.hfa.inputs.travelMiles)} mi` : 'unknown'],
+                    ['timezone', 'Time zones', `${game.model_view.features.hfa.inputs?.timezone ?? 0} crossed`],
+                    ['altitude', 'Altitude', `+${((game.model_view.features.hfa.inputs?.altitude ?? 0) * 1000).toFixed(0)} ft`],
+                    ['rest', 'Rest', `${(game.model_view.features.hfa.inputs?.rest ?? 0) > 0 ? '+' : ''}${game.model_view.features.hfa.inputs?.rest ?? 0} days`],
+                    ['crowd', 'Crowd', game.model_view.features.hfa.inputs?.crowd ? 'power conference' : 'other'],
+                  ] as [string, string, string][]).map(([key, label, input]) => (
+                    <div key={key} className="flex justify-between gap-4">
+                      <span>{label} <span className="text-gray-400">({input})</span></span>
+                      <span className="font-mono">
+                        {(game.model_view.features.hfa.components[key] ?? 0) >= 0 ? '+' : ''}
+                        {(game.model_view.features.hfa.components[key] ?? 0).toFixed(2)}
+                      </span>
+                    </div>
+                  ))}
+                  <div className="text-gray-400">
+                    {game.model_view.features.hfa.paramsSource === 'fitted'
+                      ? 'Component weights fitted for this season'
+                      : 'No fitted weights for this season yet; components not applied'}
+                  </div>
+                </div>
+              )}
               <div className="text-xs text-gray-500 mt-1">Separate from talent component</div>
             </>
           ) : (
@@ -2660,6 +2697,42 @@ export default function GameDetailPage() {
             </>
           )}
             </div>
+            <div>
+              <div className="text-sm text-gray-500 flex items-center gap-1">
+                Injury Adjustment
+                <InfoTooltip content={TOOLTIP_CONTENT.INJURY_ADJUSTMENT} />
+              </div>
+              {game.model_view?.features?.injury ? (
+                <>
+                  <div className="text-lg text-gray-900">
+                    {game.model_view.features.injury.adjPts === 0
+                      ? '0.0 pts'
+                      : `${Math.abs(game.model_view.features.injury.adjPts).toFixed(1)} pts toward ${game.model_view.features.injury.adjPts > 0 ? game.game.homeTeam : game.game.awayTeam}`}
+                  </div>
+                  {game.model_view.features.injury.players.length > 0 ? (
+                    <div className="mt-2 text-xs text-gray-600 space-y-0.5">
+                      {game.model_view.features.injury.players.map((player: any, i: number) => (
+                        <div key={`${player.teamId}-${player.position}-${player.playerName ?? i}`} className="flex justify-between gap-4">
+                          <span>
+                            {player.side === 'home' ? game.game.homeTeam : game.game.awayTeam} {player.position}
+                            {player.playerName ? ` ${player.playerName}` : ''}{' '}
+                            <span className="text-gray-400">
+                              ({player.severity.toLowerCase()}, {Math.round(player.usageShare * 100)}% usage{player.usageSource === 'default' ? ' est.' : ''})
+                            </span>
+                          </span>
+                          <span className="font-mono">-{player.impactPts.toFixed(2)}</span>
+                        </div>
+                      ))}
+                    </div>
+                  ) : (
+                    <div className="text-sm text-gray-600 mt-1">No injuries reported</div>
+                  )}
+                  <div className="text-xs text-gray-500 mt-1">Included in the model spread</div>
+                </>
+              ) : (
+                <div className="text-sm text-gray-600">Not available</div>
+              )}
+            </div>
             <div>
               <div className="text-sm text-gray-500">Confidence Thresholds</div>
               <div className="text-sm text-gray-900">
@@ -0,0 +1,366 @@
+/**
+ * Models Page
+ *
+ * Expected URL: /models?ids=<id>,<id>
+ *
+ * Compares ModelCalibration fits side by side: walk-forward metrics and gates,
+ * residuals by spread bucket, coefficient diffs, and the games where the fits take
+ * different sides against the market with each fit's realized ATS record there.
+ */
+'use client';
+
+import { Suspense, useEffect, useState } from 'react';
+import { useRouter, useSearchParams } from 'next/navigation';
+import { HeaderNav } from '@/components/HeaderNav';
+import { Footer } from '@/components/Footer';
+import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer } from 'recharts';
+import type { AtsRecord, ModelComparison } from '@/lib/model-compare';
+import type { CalibrationSummary } from '@/lib/model-compare-context';
+
+const MODEL_COLORS = ['#3b82f6', '#f59e0b', '#10b981', '#ef4444', '#8b5cf6', '#6b7280'];
+const MAX_DISAGREEMENTS_SHOWN = 100;
+
+const th = 'px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider';
+const td = 'px-4 py-3 whitespace-nowrap text-sm text-gray-700';
+
+function fmt(value: number | null | undefined, digits = 2): string {
+  return value === null || value === undefined ? '—' : value.toFixed(digits);
+}
+
+function formatRecord(record: AtsRecord): string {
+  const rate = record.winRate !== null ? ` (${(record.winRate * 100).toFixed(1)}%)` : '';
+  return `${record.wins}-${record.losses}-${record.pushes}${rate}`;
+}
+
+function ModelsContent() {
+  const router = useRouter();
+  const searchParams = useSearchParams();
+  const [available, setAvailable] = useState<CalibrationSummary[]>([]);
+  const [selected, setSelected] = useState<string[]>(
+    (searchParams.get('ids') || '').split(',').filter(Boolean)
+  );
+  const [season, setSeason] = useState<string>(searchParams.get('season') || '');
+  const [minEdge, setMinEdge] = useState<string>(searchParams.get('minEdge') || '0');
+  const [data, setData] = useState<(ModelComparison & { season: number }) | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetch('/api/models')
+      .then(res => res.json())
+      .then(result => {
+        if (result.success) setAvailable(result.calibrations);
+        else setError(result.error || 'Failed to load calibrations');
+      })
+      .catch(err => setError(err instanceof Error ? err.message : 'Unknown error'));
+  }, []);
+
+  useEffect(() => {
+    if (selected.length < 2) {
+      setData(null);
+      return;
+    }
+
+    const params = new URLSearchParams({ ids: selected.join(','), minEdge: minEdge || '0' });
+    if (season) params.set('season', season);
+    router.replace(`/models?${params}`);
+
+    setLoading(true);
+    setError(null);
+    fetch(`/api/models/compare?${params}`)
+      .then(async res => {
+        const result = await res.json();
+        if (!res.ok || !result.success) {
+          throw new Error(result.error || `HTTP ${res.status}`);
+        }
+        setData(result);
+      })
+      .catch(err => {
+        setData(null);
+        setError(err instanceof Error ? err.message : 'Unknown error');
+      })
+      .finally(() => setLoading(false));
+  }, [selected.join(','), season, minEdge]);
+
+  const toggle = (id: string) => {
+    setSelected(prev => (prev.includes(id) ? prev.filter(x => x !== id) : [...prev, id]));
+  };
+
+  const models = data?.calibrations ?? [];
+  const colorOf = (id: string) => MODEL_COLORS[models.findIndex(m => m.id === id) % MODEL_COLORS.length];
+
+  const residualChart = (data?.residualsByBucket ?? []).map(row => {
+    const point: Record<string, string | number | null> = { bucket: row.bucket };
+    for (const model of models) point[model.label] = row.models[model.id]?.mae ?? null;
+    return point;
+  });
+
+  return (
+    <div className="min-h-screen bg-gray-50 flex flex-col">
+      <HeaderNav />
+      <div className="flex-1">
+        <div className="container mx-auto px-4 py-8">
+          <div className="mb-8">
+            <h1 className="text-3xl font-bold mb-2">Model Comparison</h1>
+            <p className="text-gray-600 mb-4">
+              Pick two or more calibrations to compare walk-forward metrics, residuals, coefficients and the games where they disagree.
+            </p>
+
+            <div className="flex flex-wrap gap-4 mb-6">
+              <div>
+                <label className="block text-sm font-medium mb-1">Season</label>
+                <input
+                  type="number"
+                  value={season}
+                  placeholder="After fits"
+                  onChange={(e) => setSeason(e.target.value)}
+                  className="border rounded px-3 py-2 w-28"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium mb-1">Min edge (pts)</label>
+                <input
+                  type="number"
+                  step="0.5"
+                  min="0"
+                  value={minEdge}
+                  onChange={(e) => setMinEdge(e.target.value)}
+                  className="border rounded px-3 py-2 w-28"
+                />
+              </div>
+            </div>
+
+            <div className="bg-white rounded-lg shadow overflow-x-auto">
+              <table className="w-full">
+                <thead className="bg-gray-50">
+                  <tr>
+                    <th className={th}></th>
+                    <th className={th}>Version</th>
+                    <th className={th}>Fit</th>
+                    <th className={th}>Season</th>
+                    <th className={th}>Features</th>
+                    <th className={th}>WF RMSE</th>
+                    <th className={th}>Gates</th>
+                    <th className={th}>Created</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-200">
+                  {available.length === 0 && (
+                    <tr>
+                      <td className={td} colSpan={8}>No calibrations yet. Run scripts/calibrate.ts to create one.</td>
+                    </tr>
+                  )}
+                  {available.map((c) => (
+                    <tr key={c.id} className="hover:bg-blue-50 cursor-pointer" onClick={() => toggle(c.id)}>
+                      <td className={td}>
+                        <input type="checkbox" checked={selected.includes(c.id)} readOnly />
+                      </td>
+                      <td className={`${td} font-medium text-gray-900`}>
+                        {c.modelVersion}
+                        {c.isActive && <span className="ml-2 text-xs text-green-700 bg-green-100 rounded px-1">active</span>}
+                      </td>
+                      <td className={td}>{c.fitLabel}</td>
+                      <td className={td}>{c.season}</td>
+                      <td className={td}>{c.featureVersion}</td>
+                      <td className={td}>{fmt(c.walkForwardRmse)}</td>
+                      <td className={td}>{c.gatesPassed ? '✅' : '❌'}</td>
+                      <td className={td}>{c.createdAt.slice(0, 10)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </div>
+
+          {loading && (
+            <div className="text-center py-12">
+              <p className="text-gray-500">Comparing models...</p>
+            </div>
+          )}
+
+          {error && (
+            <div className="bg-red-50 border border-red-200 rounded p-4 mb-6">
+              <p className="text-red-800">Error: {error}</p>
+            </div>
+          )}
+
+          {!loading && !error && data && (
+            <>
+              {/* Metrics */}
+              <div className="bg-white rounded-lg shadow mb-8 overflow-x-auto">
+                <div className="p-6 border-b">
+                  <h2 className="text-xl font-semibold">Metrics</h2>
+                  <p className="text-sm text-gray-600 mt-1">Walk-forward metrics and gates as stored by the calibration run</p>
+                </div>
+                <table className="w-full">
+                  <thead className="bg-gray-50">
+                    <tr>
+                      <th className={th}>Model</th>
+                      <th className={th}>Train RMSE</th>
+                      <th className={th}>WF RMSE</th>
+                      <th className={th}>WF R²</th>
+                      <th className={th}>WF Pearson</th>
+                      <th className={th}>WF Spearman</th>
+                      <th className={th}>Slope</th>
+                      <th className={th}>Sign %</th>
+                      <th className={th}>Gates</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-gray-200">
+                    {models.map((m) => (
+                      <tr key={m.id}>
+                        <td className={`${td} font-medium`} style={{ color: colorOf(m.id) }}>{m.label}</td>
+                        <td className={td}>{fmt(m.metrics.trainRmse)}</td>
+                        <td className={td}>{fmt(m.metrics.walkForwardRmse)}</td>
+                        <td className={td}>{fmt(m.metrics.walkForwardR2, 3)}</td>
+                        <td className={td}>{fmt(m.metrics.walkForwardPearson, 3)}</td>
+                        <td className={td}>{fmt(m.metrics.walkForwardSpearman, 3)}</td>
+                        <td className={td}>{fmt(m.metrics.slope, 3)}</td>
+                        <td className={td}>{fmt(m.metrics.signAgreement, 1)}</td>
+                        <td className={td} title={m.gateChecks.map(c => `${c.passed ? '✓' : '✗'} ${c.gate} ${c.value.toFixed(3)} (${c.target})`).join('\n')}>
+                          {m.gatesPassed ? '✅ pass' : '❌ fail'}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+
+              {/* Residuals by bucket */}
+              <div className="bg-white rounded-lg shadow p-6 mb-8">
+                <h2 className="text-xl font-semibold mb-4">Residual MAE by Spread Size</h2>
+                {residualChart.length > 0 ? (
+                  <ResponsiveContainer width="100%" height={300}>
+                    <BarChart data={residualChart}>
+                      <CartesianGrid strokeDasharray="3 3" />
+                      <XAxis dataKey="bucket" label={{ value: '|Market spread|', position: 'insideBottom', offset: -5 }} />
+                      <YAxis label={{ value: 'MAE (pts)', angle: -90, position: 'insideLeft' }} />
+                      <Tooltip formatter={(value: number) => value.toFixed(2)} />
+                      <Legend />
+                      {models.map((m) => (
+                        <Bar key={m.id} dataKey={m.label} fill={colorOf(m.id)} />
+                      ))}
+                    </BarChart>
+                  </ResponsiveContainer>
+                ) : (
+                  <p className="text-gray-500 text-center py-8">No residual diagnostics stored for these fits.</p>
+                )}
+              </div>
+
+              {/* Coefficients */}
+              <div className="bg-white rounded-lg shadow mb-8 overflow-x-auto">
+                <div className="p-6 border-b">
+                  <h2 className="text-xl font-semibold">Coefficients</h2>
+                  <p className="text-sm text-gray-600 mt-1">Original scale, widest disagreement first</p>
+                </div>
+                <table className="w-full">
+                  <thead className="bg-gray-50">
+                    <tr>
+                      <th className={th}>Feature</th>
+                      {models.map((m) => (
+                        <th key={m.id} className={th} style={{ color: colorOf(m.id) }}>{m.label}</th>
+                      ))}
+                      <th className={th}>Range</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-gray-200">
+                    {data.coefficientDiffs.map((row) => (
+                      <tr key={row.feature}>
+                        <td className={`${td} font-medium`}>{row.feature}</td>
+                        {models.map((m) => (
+                          <td key={m.id} className={td}>{fmt(row.values[m.id], 4)}</td>
+                        ))}
+                        <td className={td}>{fmt(row.range, 4)}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+
+              {/* ATS records */}
+              <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4 mb-8">
+                {models.map((m) => (
+                  <div key={m.id} className="bg-white rounded-lg shadow p-6">
+                    <h3 className="text-sm font-medium mb-2" style={{ color: colorOf(m.id) }}>{m.label}</h3>
+                    <p className="text-2xl font-bold text-gray-900">{formatRecord(data.atsOnDisagreements[m.id])}</p>
+                    <p className="text-sm text-gray-600 mt-2">
+                      ATS where the fits disagree · all games {formatRecord(data.atsAll[m.id])}
+                    </p>
+                    {m.unsupportedFeatures.length > 0 && (
+                      <p className="text-xs text-amber-700 mt-2">
+                        Can't predict: uses {m.unsupportedFeatures.join(', ')}
+                      </p>
+                    )}
+                  </div>
+                ))}
+              </div>
+
+              {/* Disagreements */}
+              <div className="bg-white rounded-lg shadow mb-8 overflow-x-auto">
+                <div className="p-6 border-b">
+                  <h2 className="text-xl font-semibold">Disagreements</h2>
+                  <p className="text-sm text-gray-600 mt-1">
+                    Season {data.season}: {data.disagreements.length} of {data.gamesCompared} games where the fits take different sides
+                    (min edge {minEdge || 0} pts), largest prediction gap first. * = game was in that fit&apos;s training rows.
+                  </p>
+                </div>
+                <table className="w-full">
+                  <thead className="bg-gray-50">
+                    <tr>
+                      <th className={th}>Wk</th>
+                      <th className={th}>Matchup</th>
+                      <th className={th}>Market (HMA)</th>
+                      <th className={th}>Margin</th>
+                      {models.map((m) => (
+                        <th key={m.id} className={th} style={{ color: colorOf(m.id) }}>{m.label}</th>
+                      ))}
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-gray-200">
+                    {data.disagreements.slice(0, MAX_DISAGREEMENTS_SHOWN).map((game) => (
+                      <tr
+                        key={game.gameId}
+                        className="hover:bg-blue-50 cursor-pointer"
+                        onClick={() => router.push(`/game/${game.gameId}`)}
+                      >
+                        <td className={td}>{game.week}</td>
+                        <td className={`${td} font-medium text-gray-900`}>{game.matchup}</td>
+                        <td className={td}>{fmt(game.marketSpread, 1)}</td>
+                        <td className={td}>{game.actualMargin ?? '—'}</td>
+                        {models.map((m) => {
+                          const pick = game.picks[m.id];
+                          const resultClass = pick.result === 'win' ? 'text-green-600'
+                            : pick.result === 'loss' ? 'text-red-600'
+                            : 'text-gray-500';
+                          return (
+                            <td key={m.id} className={td}>
+                              {fmt(pick.prediction, 1)}{pick.inSample ? '*' : ''}{' '}
+                              <span className={resultClass}>
+                                {pick.side ? `${pick.side}${pick.result ? ` (${pick.result})` : ''}` : 'pass'}
+                              </span>
+                            </td>
+                          );
+                        })}
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            </>
+          )}
+        </div>
+      </div>
+      <Footer />
+    </div>
+  );
+}
+
+export default function ModelsPage() {
+  return (
+    <Suspense fallback={<div className="min-h-screen bg-gray-50 flex items-center justify-center">
+      <div className="text-gray-600">Loading...</div>
+    </div>}>
+      <ModelsContent />
+    </Suspense>
+  );
+}
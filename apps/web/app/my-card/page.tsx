@@ -3,14 +3,36 @@
 import { useState, useEffect } from 'react';
 import Link from 'next/link';
 import { InfoTooltip } from '@/components/InfoTooltip';
+import { BankrollPanel } from '@/components/BankrollPanel';
+import { SuggestedStake } from '@/components/SuggestedStake';
+import { StakeSuggestion } from '@/lib/bankroll';
+import { BestBookPrice } from '@/components/BestBookPrice';
+import { BestPriceSummary, BookQuote } from '@/lib/book-prices';
+
+// One leg of a parlay or teaser
+interface TicketLeg {
+  id: string;
+  gameId: string;
+  marketType: string;
+  side: string;
+  label: string;
+  result: string | null;
+  gameStatus: string;
+  gameDate: string;
+  probabilities: { win: number; push: number; loss: number } | null;
+  game: {
+    homeTeam: { id: string; name: string };
+    awayTeam: { id: string; name: string };
+  };
+}
 
 interface Bet {
   id: string;
   season: number;
   week: number;
-  gameId: string;
+  gameId: string | null; // null for parlays and teasers
   marketType: string;
-  side: string;
+  side: string | null;
   modelPrice: number;
   closePrice: number | null;
   stake: number;
@@ -20,17 +42,48 @@ interface Bet {
   strategyTag: string;
   source: string;
   notes: string | null;
+  bankrollId: string | null;
+  bookName: string | null;
   createdAt: string;
   currentBestLine: number | null;
   currentBestLineBook: string | null;
   currentBestLineTimestamp: string | null;
   edgeVsCurrent: number | null;
-  gameStatus: string;
+  gameStatus: string | null;
   gameDate: string;
+  suggestedStake: StakeSuggestion | null;
+  bookPrices: { best: BestPriceSummary | null; quotes: BookQuote[] } | null;
+  tailed: boolean;
   game: {
     homeTeam: { id: string; name: string };
     awayTeam: { id: string; name: string };
-  };
+  } | null;
+  teaserPoints: number | null;
+  legs: TicketLeg[];
+  modelEv?: number | null;
+  modelEvPrior?: boolean;
+}
+
+// Before every game on the bet has kicked off
+function isOpen(bet: Bet): boolean {
+  const now = new Date();
+  if (bet.game === null) {
+    return bet.legs.every(leg => leg.gameStatus === 'scheduled' && new Date(leg.gameDate) > now);
+  }
+  return bet.gameStatus === 'scheduled' && new Date(bet.gameDate) > now;
+}
+
+function matchupOf(bet: Bet): string {
+  if (bet.game === null) {
+    return bet.legs.map(leg => `${leg.game.awayTeam.name} @ ${leg.game.homeTeam.name}`).join(' / ');
+  }
+  return `${bet.game.awayTeam.name} @ ${bet.game.homeTeam.name}`;
+}
+
+function ticketTitle(bet: Bet): string {
+  return bet.marketType === 'teaser'
+    ? `${bet.legs.length}-leg ${bet.teaserPoints}-pt Teaser`
+    : `${bet.legs.length}-leg Parlay`;
 }
 
 interface Summary {
@@ -56,6 +109,12 @@ export default function MyCardPage() {
   const [week, setWeek] = useState<number | null>(null);
   const [status, setStatus] = useState<'all' | 'pending' | 'graded'>('pending');
   const [marketType, setMarketType] = useState<string>('');
+  const [bankrollId, setBankrollId] = useState<string>('');
+  const [bankrollRefresh, setBankrollRefresh] = useState(0);
+  // '' = the API default (your bets when signed in, else the house portfolio)
+  const [portfolio, setPortfolio] = useState<'' | 'mine' | 'house'>('');
+  const [shownPortfolio, setShownPortfolio] = useState<'mine' | 'house' | null>(null);
+  const [signedOut, setSignedOut] = useState(false);
 
   // Load filters from URL
   useEffect(() => {
@@ -71,6 +130,10 @@ export default function MyCardPage() {
       }
       const marketParam = params.get('marketType');
       if (marketParam) setMarketType(marketParam);
+      const bankrollParam = params.get('bankrollId');
+      if (bankrollParam) setBankrollId(bankrollParam);
+      const portfolioParam = params.get('portfolio');
+      if (portfolioParam === 'mine' || portfolioParam === 'house') setPortfolio(portfolioParam);
     }
   }, []);
 
@@ -82,9 +145,11 @@ export default function MyCardPage() {
       if (week) params.set('week', week.toString());
       if (status !== 'all') params.set('status', status);
       if (marketType) params.set('marketType', marketType);
+      if (bankrollId) params.set('bankrollId', bankrollId);
+      if (portfolio) params.set('portfolio', portfolio);
       window.history.replaceState({}, '', `${window.location.pathname}?${params.toString()}`);
     }
-  }, [season, week, status, marketType]);
+  }, [season, week, status, marketType, bankrollId, portfolio]);
 
   const fetchMyCard = async () => {
     setLoading(true);
@@ -95,15 +160,24 @@ export default function MyCardPage() {
         ...(week && { week: week.toString() }),
         ...(status !== 'all' && { status }),
         ...(marketType && { marketType }),
+        ...(bankrollId && { bankrollId }),
+        ...(portfolio && { portfolio }),
       });
       
       const response = await fetch(`/api/my-card?${params}`);
+      setSignedOut(response.status === 401);
+      if (response.status === 401) {
+        setBets([]);
+        setSummary(null);
+        return;
+      }
       if (!response.ok) throw new Error('Failed to fetch my card');
       
       const result = await response.json();
       if (result.success) {
         setBets(result.bets || []);
         setSummary(result.summary || null);
+        setShownPortfolio(result.portfolio);
       } else {
         throw new Error(result.error || 'Unknown error');
       }
@@ -116,7 +190,51 @@ export default function MyCardPage() {
 
   useEffect(() => {
     fetchMyCard();
-  }, [season, week, status, marketType]);
+  }, [season, week, status, marketType, bankrollId, portfolio]);
+
+  // Bankrolls belong to a portfolio, so switching clears the selection
+  const switchPortfolio = (next: 'mine' | 'house') => {
+    setBankrollId('');
+    setPortfolio(next);
+  };
+
+  // Copy a house bet onto your own card at the house stake
+  const tailBet = async (bet: Bet) => {
+    try {
+      const response = await fetch(`/api/bets/${bet.id}/tail`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({}),
+      });
+      if (response.status === 401) {
+        setSignedOut(true);
+        return;
+      }
+      const result = await response.json();
+      if (!result.success) throw new Error(result.error || 'Failed to tail bet');
+      await fetchMyCard();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Unknown error');
+    }
+  };
+
+  // Attach a pending bet to the selected bankroll at its suggested stake
+  const applySuggestedStake = async (bet: Bet) => {
+    if (!bankrollId || !bet.suggestedStake) return;
+    try {
+      const response = await fetch(`/api/bankrolls/${bankrollId}/bets`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ betId: bet.id, stake: bet.suggestedStake.stake }),
+      });
+      const result = await response.json();
+      if (!result.success) throw new Error(result.error || 'Failed to apply stake');
+      setBankrollRefresh(n => n + 1);
+      await fetchMyCard();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Unknown error');
+    }
+  };
 
   const formatCurrency = (value: number) => 
     new Intl.NumberFormat('en-US', { style: 'currency', currency: 'USD' }).format(value);
@@ -142,6 +260,7 @@ export default function MyCardPage() {
       case 'win': return <span className="inline-flex items-center px-2 py-1 rounded-full text-xs font-medium bg-green-100 text-green-800">✅ Win</span>;
       case 'loss': return <span className="inline-flex items-center px-2 py-1 rounded-full text-xs font-medium bg-red-100 text-red-800">❌ Loss</span>;
       case 'push': return <span className="inline-flex items-center px-2 py-1 rounded-full text-xs font-medium bg-yellow-100 text-yellow-800">🤝 Push</span>;
+      case 'void': return <span className="inline-flex items-center px-2 py-1 rounded-full text-xs font-medium bg-gray-100 text-gray-600">Void</span>;
       default: return <span className="inline-flex items-center px-2 py-1 rounded-full text-xs font-medium bg-gray-100 text-gray-600">⏳ Pending</span>;
     }
   };
@@ -159,6 +278,7 @@ export default function MyCardPage() {
       'Market',
       'Side',
       'Bet Line',
+      'Book',
       'Current Best Line',
       'Closing Line',
       'CLV',
@@ -172,10 +292,11 @@ export default function MyCardPage() {
     const rows = bets.map(bet => [
       bet.season,
       bet.week,
-      `${bet.game.awayTeam.name} @ ${bet.game.homeTeam.name}`,
+      matchupOf(bet),
       bet.marketType,
-      bet.side,
+      bet.game === null ? bet.legs.map(leg => leg.label).join(' / ') : bet.side,
       bet.modelPrice,
+      bet.bookName || '',
       bet.currentBestLine || '',
       bet.closePrice || '',
       bet.clv?.toFixed(3) || '',
@@ -206,7 +327,22 @@ export default function MyCardPage() {
         <div className="flex justify-between items-center mb-6">
           <div>
             <h1 className="text-3xl font-bold mb-2">My Card</h1>
-            <p className="text-gray-600">Track your bets with live line updates and CLV tracking</p>
+            <p className="text-gray-600">
+              {shownPortfolio === 'house'
+                ? 'House portfolio: the official strategy bets. Tail a bet to copy it onto your card.'
+                : 'Track your bets with live line updates and CLV tracking'}
+            </p>
+            <div className="inline-flex mt-3 rounded border overflow-hidden text-sm">
+              {(['mine', 'house'] as const).map(option => (
+                <button
+                  key={option}
+                  onClick={() => switchPortfolio(option)}
+                  className={`px-3 py-1 ${shownPortfolio === option ? 'bg-blue-600 text-white' : 'bg-white text-gray-700 hover:bg-gray-50'}`}
+                >
+                  {option === 'mine' ? 'My bets' : 'House'}
+                </button>
+              ))}
+            </div>
           </div>
           <button
             onClick={exportCSV}
@@ -269,11 +405,29 @@ export default function MyCardPage() {
                 <option value="spread">Spread</option>
                 <option value="total">Total</option>
                 <option value="moneyline">Moneyline</option>
+                <option value="parlay">Parlay</option>
+                <option value="teaser">Teaser</option>
               </select>
             </div>
           </div>
         </div>
 
+        {signedOut && (
+          <div className="bg-yellow-50 border border-yellow-200 text-yellow-800 px-4 py-3 rounded mb-4">
+            <Link href="/login?next=/my-card" className="underline">Sign in</Link> to keep your own card, or view the{' '}
+            <button onClick={() => switchPortfolio('house')} className="underline">house portfolio</button>.
+          </div>
+        )}
+
+        {!signedOut && (
+          <BankrollPanel
+            selectedId={bankrollId}
+            onSelect={setBankrollId}
+            refreshKey={bankrollRefresh}
+            portfolio={shownPortfolio ?? portfolio}
+          />
+        )}
+
         {/* Summary Stats */}
         {summary && (
           <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-6">
@@ -325,7 +479,8 @@ export default function MyCardPage() {
             <div className="text-gray-400 text-5xl mb-4">📋</div>
             <h3 className="text-lg font-medium text-gray-900 mb-2">No bets found</h3>
             <p className="text-gray-600 mb-4">
-              No bets match the current filters. Try adjusting your selection.
+              No bets match the current filters. Try adjusting your selection
+              {shownPortfolio === 'mine' && ', or tail bets from the house portfolio'}.
             </p>
             <Link href="/bets" className="text-blue-600 hover:underline">
               View all bets →
@@ -341,12 +496,16 @@ export default function MyCardPage() {
                     <div className="text-xs text-gray-500 mb-1">
                       {bet.season} Week {bet.week}
                     </div>
-                    <Link 
-                      href={`/game/${bet.gameId}`}
-                      className="text-lg font-semibold text-gray-900 hover:text-blue-600"
-                    >
-                      {bet.game.awayTeam.name} @ {bet.game.homeTeam.name}
-                    </Link>
+                    {bet.game === null ? (
+                      <div className="text-lg font-semibold text-gray-900">{ticketTitle(bet)}</div>
+                    ) : (
+                      <Link 
+                        href={`/game/${bet.gameId}`}
+                        className="text-lg font-semibold text-gray-900 hover:text-blue-600"
+                      >
+                        {bet.game.awayTeam.name} @ {bet.game.homeTeam.name}
+                      </Link>
+                    )}
                     <div className="text-sm text-gray-500 mt-1">
                       {new Date(bet.gameDate).toLocaleDateString('en-US', {
                         weekday: 'short',
@@ -360,8 +519,41 @@ export default function MyCardPage() {
                   {getResultBadge(bet.result)}
                 </div>
 
+                {/* Legs (parlays and teasers) */}
+                {bet.game === null && (
+                  <div className="space-y-2 mb-4">
+                    {bet.legs.map((leg) => (
+                      <div key={leg.id} className="flex justify-between items-start gap-2">
+                        <div>
+                          <div className="text-sm font-medium text-gray-900">{leg.label}</div>
+                          <Link href={`/game/${leg.gameId}`} className="text-xs text-gray-500 hover:text-blue-600">
+                            {leg.game.awayTeam.name} @ {leg.game.homeTeam.name}
+                          </Link>
+                          {leg.probabilities && (
+                            <div className="text-xs text-gray-500">
+                              Model: {(leg.probabilities.win * 100).toFixed(1)}% win
+                              {leg.probabilities.push > 0.001 && `, ${(leg.probabilities.push * 100).toFixed(1)}% push`}
+                            </div>
+                          )}
+                        </div>
+                        {getResultBadge(leg.result)}
+                      </div>
+                    ))}
+                  </div>
+                )}
+
                 {/* Bet Details */}
                 <div className="space-y-3 mb-4">
+                  {bet.game === null ? (
+                    <div className="flex justify-between items-center">
+                      <span className="text-sm text-gray-600">Price</span>
+                      <span className="text-sm font-medium text-gray-900">
+                        {bet.modelPrice > 0 ? '+' : ''}{bet.modelPrice}
+                        {bet.bookName && <span className="text-xs text-gray-500 font-normal"> @ {bet.bookName}</span>}
+                      </span>
+                    </div>
+                  ) : (
+                  <>
                   <div className="flex justify-between items-center">
                     <span className="text-sm text-gray-600">Market</span>
                     <span className="text-sm font-medium text-gray-900 capitalize">
@@ -371,8 +563,37 @@ export default function MyCardPage() {
 
                   <div className="flex justify-between items-center">
                     <span className="text-sm text-gray-600">Bet Line</span>
-                    <span className="text-sm font-medium text-gray-900">{bet.modelPrice}</span>
+                    <span className="text-sm font-medium text-gray-900">
+                      {bet.modelPrice}
+                      {bet.bookName && <span className="text-xs text-gray-500 font-normal"> @ {bet.bookName}</span>}
+                    </span>
                   </div>
+                  </>
+                  )}
+
+                  {bet.modelEv !== undefined && bet.modelEv !== null && (
+                    <div className="flex justify-between items-center">
+                      <span className="text-sm text-gray-600 flex items-center gap-1">
+                        Model EV{bet.modelEvPrior ? ' (prior)' : ''}
+                        <InfoTooltip content={`Expected return per $1 staked at this price, from the model's margin distribution (weighted toward key numbers like 3 and 7) with legs treated as independent. Pushes and postponed legs drop out as they would when graded.${bet.modelEvPrior ? ' The key-number weights are hand-set starting values, not yet fit on our games, so treat this EV as a prior.' : ''}`} />
+                      </span>
+                      <span className={`text-sm font-medium ${bet.modelEv >= 0 ? 'text-green-600' : 'text-red-600'}`}>
+                        {bet.modelEv >= 0 ? '+' : ''}{(bet.modelEv * 100).toFixed(1)}%
+                      </span>
+                    </div>
+                  )}
+
+                  {bet.result === null && bet.bookPrices && (
+                    <div className="flex justify-between items-start">
+                      <span className="text-sm text-gray-600 flex items-center gap-1">
+                        Book Prices
+                        <InfoTooltip content="Latest number at every book for your side. The best book is highlighted; half-points are measured against the median (consensus) number." />
+                      </span>
+                      <div className="text-right w-1/2">
+                        <BestBookPrice summary={bet.bookPrices.best} quotes={bet.bookPrices.quotes} />
+                      </div>
+                    </div>
+                  )}
 
                   {bet.currentBestLine !== null && (
                     <div className="flex justify-between items-center">
@@ -428,6 +649,26 @@ export default function MyCardPage() {
                     <span className="text-sm font-medium text-gray-900">{formatCurrency(bet.stake)}</span>
                   </div>
 
+                  {bet.suggestedStake && (
+                    <div className="flex justify-between items-center">
+                      <span className="text-sm text-gray-600 flex items-center gap-1">
+                        Suggested
+                        <InfoTooltip content="Stake from the selected bankroll's policy at its current balance. Kelly sizes from the Core V1 win probability at this price." />
+                      </span>
+                      <div className="text-right text-sm">
+                        <SuggestedStake suggestion={bet.suggestedStake} />
+                        {bet.suggestedStake.stake > 0 && (bet.bankrollId !== bankrollId || bet.suggestedStake.stake !== bet.stake) && (
+                          <button
+                            onClick={() => applySuggestedStake(bet)}
+                            className="block ml-auto mt-1 text-xs text-blue-600 hover:underline"
+                          >
+                            Use suggested stake
+                          </button>
+                        )}
+                      </div>
+                    </div>
+                  )}
+
                   {bet.pnl !== null && (
                     <div className="flex justify-between items-center">
                       <span className="text-sm text-gray-600">PnL</span>
@@ -444,6 +685,20 @@ export default function MyCardPage() {
                     <span>Strategy: {bet.strategyTag}</span>
                     <span>{bet.source === 'manual' ? 'Manual' : 'Auto'}</span>
                   </div>
+                  {shownPortfolio === 'house' && (
+                    <div className="mt-2 text-right">
+                      {bet.tailed ? (
+                        <span className="text-green-700">✓ On your card</span>
+                      ) : bet.result === null && isOpen(bet) ? (
+                        <button
+                          onClick={() => tailBet(bet)}
+                          className="px-3 py-1 rounded bg-blue-600 text-white hover:bg-blue-700"
+                        >
+                          Tail
+                        </button>
+                      ) : null}
+                    </div>
+                  )}
                   {bet.notes && (
                     <div className="mt-2 text-gray-600 italic">"{bet.notes}"</div>
                   )}
@@ -3,13 +3,15 @@
  * 
  * Expected URL: /season-review
  * 
- * Displays season-wide performance summary for strategy-run bets.
+ * Displays season-wide performance summary for strategy-run bets, or for the
+ * signed-in user's own bets (?portfolio=mine|house; lib/portfolio.ts).
  * Includes summary cards, cumulative PnL chart, per-week breakdown, and market type breakdown.
  * Clicking a week row navigates to Week Review for that week.
  */
 'use client';
 
 import { useState, useEffect } from 'react';
+import Link from 'next/link';
 import { useRouter } from 'next/navigation';
 import { HeaderNav } from '@/components/HeaderNav';
 import { Footer } from '@/components/Footer';
@@ -53,6 +55,7 @@ interface SeasonSummaryData {
   byWeek: WeekBreakdown[];
   byMarketType: MarketTypeBreakdown[];
   meta: {
+    portfolio: 'mine' | 'house';
     seasonsAvailable: number[];
     strategyTagsAvailable: string[];
     pendingBets: number;
@@ -74,6 +77,9 @@ export default function SeasonReviewPage() {
   const [season, setSeason] = useState<number>(2025);
   const [strategyTag, setStrategyTag] = useState<string>('official_flat_100');
   const [selectedMarket, setSelectedMarket] = useState<string>('ALL');
+  // '' = the API default (your bets when signed in, else the house portfolio)
+  const [portfolio, setPortfolio] = useState<'' | 'mine' | 'house'>('');
+  const [signedOut, setSignedOut] = useState(false);
   const [data, setData] = useState<SeasonSummaryData | null>(null);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
@@ -92,9 +98,15 @@ export default function SeasonReviewPage() {
         season: season.toString(),
         strategyTag: strategyTag === 'all' ? 'all' : strategyTag,
         marketType: selectedMarket,
+        ...(portfolio && { portfolio }),
       });
 
       const response = await fetch(`/api/bets/season-summary?${params}`);
+      setSignedOut(response.status === 401);
+      if (response.status === 401) {
+        setData(null);
+        return;
+      }
       if (!response.ok) {
         const errorData = await response.json().catch(() => ({}));
         const errorMessage = errorData.detail || errorData.error || `HTTP ${response.status}: ${response.statusText}`;
@@ -113,7 +125,7 @@ export default function SeasonReviewPage() {
 
   useEffect(() => {
     fetchData();
-  }, [season, strategyTag, selectedMarket]);
+  }, [season, strategyTag, selectedMarket, portfolio]);
 
   // Initialize season and strategy from available data on first load
   useEffect(() => {
@@ -145,6 +157,11 @@ export default function SeasonReviewPage() {
   const formatStrategyName = getStrategyLabel;
 
   const handleWeekClick = (week: number) => {
+    // Your own weeks open on My Card; Week Review shows the house bets
+    if (data?.meta.portfolio === 'mine') {
+      router.push(`/my-card?season=${season}&week=${week}&status=all&portfolio=mine`);
+      return;
+    }
     // Week Review uses 'strategy' param, not 'strategyTag'
     // For 'official_flat_100', we pass it directly; for 'all', we omit it
     const strategyParam = strategyTag === 'all' ? '' : strategyTag;
@@ -182,11 +199,23 @@ export default function SeasonReviewPage() {
             </p>
             <h1 className="text-3xl font-bold mb-2">Season Review</h1>
             <p className="text-gray-600 mb-4">
-              Season-wide performance summary for strategy-run bets. View cumulative PnL, per-week breakdowns, and performance by market type.
+              Season-wide performance summary for {data?.meta.portfolio === 'mine' ? 'your bets' : 'the house strategy-run bets'}. View cumulative PnL, per-week breakdowns, and performance by market type.
             </p>
 
             {/* Controls */}
             <div className="flex flex-wrap gap-4 mb-6">
+              <div>
+                <label className="block text-sm font-medium mb-1">Portfolio</label>
+                <select
+                  value={portfolio || data?.meta.portfolio || ''}
+                  onChange={(e) => setPortfolio(e.target.value as 'mine' | 'house')}
+                  className="border rounded px-3 py-2"
+                >
+                  <option value="mine">My bets</option>
+                  <option value="house">House</option>
+                </select>
+              </div>
+
               <div>
                 <label className="block text-sm font-medium mb-1">Season</label>
                 <select
@@ -234,6 +263,8 @@ export default function SeasonReviewPage() {
                   <option value="ATS">Spread (ATS)</option>
                   <option value="TOTAL">Total (O/U)</option>
                   <option value="MONEYLINE">Moneyline</option>
+                  <option value="PARLAY">Parlay</option>
+                  <option value="TEASER">Teaser</option>
                 </select>
               </div>
             </div>
@@ -245,6 +276,14 @@ export default function SeasonReviewPage() {
             </div>
           )}
 
+          {signedOut && (
+            <div className="bg-yellow-50 border border-yellow-200 rounded p-4 mb-6">
+              <p className="text-yellow-800">
+                <Link href="/login?next=/season-review" className="underline">Sign in</Link> to review your own season.
+              </p>
+            </div>
+          )}
+
           {error && (
             <div className="bg-red-50 border border-red-200 rounded p-4 mb-6">
               <p className="text-red-800">Error: {error}</p>
@@ -2,7 +2,8 @@
  * System Status Dashboard
  * 
  * Live health check for the current week's data ingestion.
- * Shows game data, stats coverage, ratings, and V2 data status.
+ * Shows game data, stats coverage, ratings, V2 data status and the most
+ * recent ingest runs from the IngestRun ledger.
  */
 
 'use client';
@@ -45,6 +46,37 @@ interface WeekStatus {
   lastUpdated: string | null;
 }
 
+interface IngestRunSummary {
+  id: string;
+  jobName: string;
+  adapter: string | null;
+  season: number | null;
+  weeks: number[];
+  status: 'running' | 'success' | 'partial' | 'failed' | 'stale';
+  startedAt: string;
+  durationMs: number | null;
+  rowsInserted: number;
+  rowsUpdated: number;
+  rowsSkipped: number;
+  unmatchedTeams: string[];
+  apiCreditsUsed: number;
+  errors: string[];
+}
+
+const RUN_STATUS_STYLES: Record<IngestRunSummary['status'], string> = {
+  success: 'bg-green-100 text-green-800',
+  partial: 'bg-yellow-100 text-yellow-800',
+  failed: 'bg-red-100 text-red-800',
+  running: 'bg-blue-100 text-blue-800',
+  stale: 'bg-gray-200 text-gray-700',
+};
+
+function formatDuration(ms: number | null): string {
+  if (ms === null) return '—';
+  if (ms < 60000) return `${Math.round(ms / 1000)}s`;
+  return `${Math.floor(ms / 60000)}m ${Math.round((ms % 60000) / 1000)}s`;
+}
+
 function StatusBadge({ status, label }: { status: boolean; label: string }) {
   return (
     <div className="flex items-center gap-2">
@@ -63,6 +95,67 @@ function StatusBadge({ status, label }: { status: boolean; label: string }) {
   );
 }
 
+function IngestRunsTable({ runs }: { runs: IngestRunSummary[] }) {
+  if (runs.length === 0) {
+    return <p className="text-sm text-gray-500">No ingest runs recorded yet.</p>;
+  }
+  return (
+    <div className="overflow-x-auto">
+      <table className="min-w-full text-sm">
+        <thead>
+          <tr className="text-left text-gray-600 border-b">
+            <th className="py-2 pr-4 font-medium">Started</th>
+            <th className="py-2 pr-4 font-medium">Job</th>
+            <th className="py-2 pr-4 font-medium">Scope</th>
+            <th className="py-2 pr-4 font-medium">Status</th>
+            <th className="py-2 pr-4 font-medium text-right">Inserted</th>
+            <th className="py-2 pr-4 font-medium text-right">Updated</th>
+            <th className="py-2 pr-4 font-medium text-right">Skipped</th>
+            <th className="py-2 pr-4 font-medium text-right">Credits</th>
+            <th className="py-2 pr-4 font-medium">Duration</th>
+            <th className="py-2 font-medium">Issues</th>
+          </tr>
+        </thead>
+        <tbody>
+          {runs.map((run) => (
+            <tr key={run.id} className="border-b last:border-0 align-top">
+              <td className="py-2 pr-4 text-gray-700 whitespace-nowrap">{new Date(run.startedAt).toLocaleString()}</td>
+              <td className="py-2 pr-4 text-gray-900">
+                {run.jobName}
+                {run.adapter && <span className="text-gray-500"> ({run.adapter})</span>}
+              </td>
+              <td className="py-2 pr-4 text-gray-700 whitespace-nowrap">
+                {run.season ?? '—'}
+                {run.weeks.length > 0 && ` wk ${run.weeks.join(', ')}`}
+              </td>
+              <td className="py-2 pr-4">
+                <span className={`px-2 py-0.5 rounded text-xs font-medium ${RUN_STATUS_STYLES[run.status]}`}>{run.status}</span>
+              </td>
+              <td className="py-2 pr-4 text-right text-gray-900">{run.rowsInserted}</td>
+              <td className="py-2 pr-4 text-right text-gray-900">{run.rowsUpdated}</td>
+              <td className="py-2 pr-4 text-right text-gray-500">{run.rowsSkipped}</td>
+              <td className="py-2 pr-4 text-right text-gray-500">{run.apiCreditsUsed}</td>
+              <td className="py-2 pr-4 text-gray-500">{formatDuration(run.durationMs)}</td>
+              <td className="py-2 text-gray-600">
+                {run.errors.length > 0 && (
+                  <div className="text-red-700" title={run.errors.join('\n')}>
+                    {run.errors.length} error{run.errors.length === 1 ? '' : 's'}: {run.errors[0]}
+                  </div>
+                )}
+                {run.unmatchedTeams.length > 0 && (
+                  <div title={run.unmatchedTeams.join(', ')}>
+                    {run.unmatchedTeams.length} unmatched team{run.unmatchedTeams.length === 1 ? '' : 's'}
+                  </div>
+                )}
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
+
 function CoverageBar({ percentage, label }: { percentage: number; label: string }) {
   const color = percentage >= 90 ? 'bg-green-500' : percentage >= 50 ? 'bg-yellow-500' : 'bg-red-500';
   return (
@@ -83,6 +176,7 @@ function CoverageBar({ percentage, label }: { percentage: number; label: string
 
 export default function StatusPage() {
   const [status, setStatus] = useState<WeekStatus | null>(null);
+  const [runs, setRuns] = useState<IngestRunSummary[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
 
@@ -96,6 +190,13 @@ export default function StatusPage() {
         const data = await response.json();
         setStatus(data);
         setError(null);
+
+        // Run ledger is secondary; keep the page up if it fails
+        const runsResponse = await fetch('/api/ingest-runs?limit=15');
+        if (runsResponse.ok) {
+          const runsData = await runsResponse.json();
+          setRuns(runsData.runs || []);
+        }
       } catch (err) {
         setError(err instanceof Error ? err.message : 'Unknown error');
       } finally {
@@ -237,6 +338,12 @@ export default function StatusPage() {
             </div>
           </div>
 
+          {/* Ingest Runs Section */}
+          <div className="bg-white rounded-lg shadow p-6 mt-6">
+            <h2 className="text-xl font-semibold text-gray-900 mb-4">Recent Ingest Runs</h2>
+            <IngestRunsTable runs={runs} />
+          </div>
+
           {/* Refresh Note */}
           <div className="mt-6 text-center text-sm text-gray-500">
             <p>Status updates automatically every 30 seconds</p>
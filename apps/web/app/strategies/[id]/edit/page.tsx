@@ -11,20 +11,14 @@ import { useParams, useRouter } from 'next/navigation';
 import Link from 'next/link';
 import { HeaderNav } from '@/components/HeaderNav';
 import { Footer } from '@/components/Footer';
+import { RuleBuilder } from '@/components/RuleBuilder';
+import { RuleNode, RulesetParameters, RULESET_DSL_VERSION } from '@/lib/ruleset-dsl';
 
 interface Ruleset {
   id: string;
   name: string;
   description: string | null;
-  parameters: {
-    markets?: string[];
-    minSpreadEdge?: number;
-    minTotalEdge?: number;
-    confidenceIn?: ('A' | 'B' | 'C')[];
-    maxGamesPerWeek?: number;
-    includeTeams?: string[];
-    excludeTeams?: string[];
-  };
+  parameters: RulesetParameters;
   active: boolean;
 }
 
@@ -37,14 +31,8 @@ export default function EditRulesetPage() {
   
   const [name, setName] = useState('');
   const [description, setDescription] = useState('');
-  const [minSpreadEdge, setMinSpreadEdge] = useState('');
-  const [minTotalEdge, setMinTotalEdge] = useState('');
-  const [confidenceA, setConfidenceA] = useState(false);
-  const [confidenceB, setConfidenceB] = useState(false);
-  const [confidenceC, setConfidenceC] = useState(false);
+  const [rules, setRules] = useState<RuleNode>({ type: 'and', rules: [] });
   const [maxGamesPerWeek, setMaxGamesPerWeek] = useState('');
-  const [includeTeams, setIncludeTeams] = useState('');
-  const [excludeTeams, setExcludeTeams] = useState('');
   const [active, setActive] = useState(true);
   const [markets, setMarkets] = useState({
     spread: true,
@@ -65,23 +53,18 @@ export default function EditRulesetPage() {
       const data = await response.json();
       
       if (data.success && data.ruleset) {
-        const ruleset = data.ruleset;
+        const ruleset: Ruleset = data.ruleset;
         setName(ruleset.name);
         setDescription(ruleset.description || '');
         
-        const p = ruleset.parameters || {};
-        setMinSpreadEdge(p.minSpreadEdge?.toString() || '');
-        setMinTotalEdge(p.minTotalEdge?.toString() || '');
-        setConfidenceA(p.confidenceIn?.includes('A') || false);
-        setConfidenceB(p.confidenceIn?.includes('B') || false);
-        setConfidenceC(p.confidenceIn?.includes('C') || false);
+        // API returns v2 parameters (legacy rulesets are upgraded on read)
+        const p = ruleset.parameters;
+        setRules(p.rules);
         setMaxGamesPerWeek(p.maxGamesPerWeek?.toString() || '');
-        setIncludeTeams(p.includeTeams?.join(', ') || '');
-        setExcludeTeams(p.excludeTeams?.join(', ') || '');
         setActive(ruleset.active);
         
         // Load markets
-        const marketsList = p.markets || ['spread', 'total'];
+        const marketsList: string[] = p.markets;
         setMarkets({
           spread: marketsList.includes('spread'),
           total: marketsList.includes('total'),
@@ -109,24 +92,16 @@ export default function EditRulesetPage() {
       setSaving(true);
       setError('');
 
-      const confidenceIn: ('A' | 'B' | 'C')[] = [];
-      if (confidenceA) confidenceIn.push('A');
-      if (confidenceB) confidenceIn.push('B');
-      if (confidenceC) confidenceIn.push('C');
-
       const selectedMarkets = [];
       if (markets.spread) selectedMarkets.push('spread');
       if (markets.total) selectedMarkets.push('total');
       if (markets.moneyline) selectedMarkets.push('moneyline');
 
       const parameters = {
+        version: RULESET_DSL_VERSION,
         markets: selectedMarkets,
-        minSpreadEdge: minSpreadEdge ? parseFloat(minSpreadEdge) : undefined,
-        minTotalEdge: minTotalEdge ? parseFloat(minTotalEdge) : undefined,
-        confidenceIn: confidenceIn.length > 0 ? confidenceIn : undefined,
-        maxGamesPerWeek: maxGamesPerWeek ? parseInt(maxGamesPerWeek) : undefined,
-        includeTeams: includeTeams ? includeTeams.split(',').map(t => t.trim()).filter(t => t) : undefined,
-        excludeTeams: excludeTeams ? excludeTeams.split(',').map(t => t.trim()).filter(t => t) : undefined,
+        rules,
+        maxGamesPerWeek: maxGamesPerWeek ? parseInt(maxGamesPerWeek) : null,
       };
 
       const response = await fetch(`/api/strategies/rulesets/${params.id}`, {
@@ -145,7 +120,11 @@ export default function EditRulesetPage() {
       if (data.success) {
         router.push('/strategies');
       } else {
-        setError(data.error || 'Failed to update ruleset');
+        setError(
+          data.details?.length
+            ? `${data.error}: ${data.details.join('; ')}`
+            : data.error || 'Failed to update ruleset'
+        );
       }
     } catch (err) {
       setError('Network error: ' + (err instanceof Error ? err.message : 'Unknown error'));
@@ -225,41 +204,6 @@ export default function EditRulesetPage() {
               />
             </div>
 
-            {/* Edge Filters */}
-            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-              <div>
-                <label htmlFor="minSpreadEdge" className="block text-sm font-medium text-gray-700 mb-2">
-                  Min Spread Edge (pts)
-                </label>
-                <input
-                  type="number"
-                  id="minSpreadEdge"
-                  value={minSpreadEdge}
-                  onChange={(e) => setMinSpreadEdge(e.target.value)}
-                  step="0.1"
-                  min="0"
-                  className="block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
-                  placeholder="e.g., 2.5"
-                />
-              </div>
-
-              <div>
-                <label htmlFor="minTotalEdge" className="block text-sm font-medium text-gray-700 mb-2">
-                  Min Total Edge (pts)
-                </label>
-                <input
-                  type="number"
-                  id="minTotalEdge"
-                  value={minTotalEdge}
-                  onChange={(e) => setMinTotalEdge(e.target.value)}
-                  step="0.1"
-                  min="0"
-                  className="block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
-                  placeholder="e.g., 3.0"
-                />
-              </div>
-            </div>
-
             {/* Markets */}
             <div>
               <label className="block text-sm font-medium text-gray-700 mb-2">
@@ -302,40 +246,12 @@ export default function EditRulesetPage() {
               </div>
             </div>
 
-            {/* Confidence Tiers */}
+            {/* Rules */}
             <div>
               <label className="block text-sm font-medium text-gray-700 mb-2">
-                Confidence Tiers
+                Rules
               </label>
-              <div className="flex gap-4">
-                <label className="flex items-center">
-                  <input
-                    type="checkbox"
-                    checked={confidenceA}
-                    onChange={(e) => setConfidenceA(e.target.checked)}
-                    className="h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300 rounded"
-                  />
-                  <span className="ml-2 text-sm text-gray-700">Tier A</span>
-                </label>
-                <label className="flex items-center">
-                  <input
-                    type="checkbox"
-                    checked={confidenceB}
-                    onChange={(e) => setConfidenceB(e.target.checked)}
-                    className="h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300 rounded"
-                  />
-                  <span className="ml-2 text-sm text-gray-700">Tier B</span>
-                </label>
-                <label className="flex items-center">
-                  <input
-                    type="checkbox"
-                    checked={confidenceC}
-                    onChange={(e) => setConfidenceC(e.target.checked)}
-                    className="h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300 rounded"
-                  />
-                  <span className="ml-2 text-sm text-gray-700">Tier C</span>
-                </label>
-              </div>
+              <RuleBuilder value={rules} onChange={setRules} />
             </div>
 
             {/* Max Games */}
@@ -354,35 +270,6 @@ export default function EditRulesetPage() {
               />
             </div>
 
-            {/* Team Filters */}
-            <div>
-              <label htmlFor="includeTeams" className="block text-sm font-medium text-gray-700 mb-2">
-                Include Teams (comma-separated IDs)
-              </label>
-              <input
-                type="text"
-                id="includeTeams"
-                value={includeTeams}
-                onChange={(e) => setIncludeTeams(e.target.value)}
-                className="block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
-                placeholder="e.g., alabama, georgia, ohio-state"
-              />
-            </div>
-
-            <div>
-              <label htmlFor="excludeTeams" className="block text-sm font-medium text-gray-700 mb-2">
-                Exclude Teams (comma-separated IDs)
-              </label>
-              <input
-                type="text"
-                id="excludeTeams"
-                value={excludeTeams}
-                onChange={(e) => setExcludeTeams(e.target.value)}
-                className="block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
-                placeholder="e.g., team-a, team-b"
-              />
-            </div>
-
             {/* Active Toggle */}
             <div>
               <label className="flex items-center">
@@ -9,6 +9,16 @@
 import { useState } from 'react';
 import { useRouter } from 'next/navigation';
 import Link from 'next/link';
+import { RuleBuilder } from '@/components/RuleBuilder';
+import { RuleNode, RULESET_DSL_VERSION, upgradeLegacyParameters } from '@/lib/ruleset-dsl';
+
+// Starting point for new rulesets: either market clears 2 pts, A/B tiers only
+const DEFAULT_RULES: RuleNode = upgradeLegacyParameters({
+  markets: ['spread', 'total'],
+  minSpreadEdge: 2.0,
+  minTotalEdge: 2.0,
+  confidenceIn: ['A', 'B'],
+}).rules;
 
 export default function NewRulesetPage() {
   const router = useRouter();
@@ -17,14 +27,8 @@ export default function NewRulesetPage() {
 
   const [name, setName] = useState('');
   const [description, setDescription] = useState('');
-  const [minSpreadEdge, setMinSpreadEdge] = useState('2.0');
-  const [minTotalEdge, setMinTotalEdge] = useState('2.0');
-  const [confidenceA, setConfidenceA] = useState(true);
-  const [confidenceB, setConfidenceB] = useState(true);
-  const [confidenceC, setConfidenceC] = useState(false);
+  const [rules, setRules] = useState<RuleNode>(DEFAULT_RULES);
   const [maxGamesPerWeek, setMaxGamesPerWeek] = useState('');
-  const [includeTeams, setIncludeTeams] = useState('');
-  const [excludeTeams, setExcludeTeams] = useState('');
   const [markets, setMarkets] = useState({
     spread: true,
     total: true,
@@ -37,11 +41,6 @@ export default function NewRulesetPage() {
     setError(null);
 
     try {
-      const confidenceIn = [];
-      if (confidenceA) confidenceIn.push('A');
-      if (confidenceB) confidenceIn.push('B');
-      if (confidenceC) confidenceIn.push('C');
-
       const selectedMarkets = [];
       if (markets.spread) selectedMarkets.push('spread');
       if (markets.total) selectedMarkets.push('total');
@@ -51,13 +50,10 @@ export default function NewRulesetPage() {
         name,
         description: description || null,
         parameters: {
+          version: RULESET_DSL_VERSION,
           markets: selectedMarkets,
-          minSpreadEdge: parseFloat(minSpreadEdge) || 0,
-          minTotalEdge: parseFloat(minTotalEdge) || 0,
-          confidenceIn: confidenceIn.length > 0 ? confidenceIn : ['A', 'B', 'C'],
+          rules,
           maxGamesPerWeek: maxGamesPerWeek ? parseInt(maxGamesPerWeek) : null,
-          includeTeams: includeTeams ? includeTeams.split(',').map(t => t.trim()) : [],
-          excludeTeams: excludeTeams ? excludeTeams.split(',').map(t => t.trim()) : [],
         },
         active: true,
       };
@@ -73,7 +69,11 @@ export default function NewRulesetPage() {
       if (data.success) {
         router.push('/strategies');
       } else {
-        setError(data.error || 'Failed to create ruleset');
+        setError(
+          data.details?.length
+            ? `${data.error}: ${data.details.join('; ')}`
+            : data.error || 'Failed to create ruleset'
+        );
       }
     } catch (err) {
       setError('Network error: ' + (err instanceof Error ? err.message : 'Unknown error'));
@@ -132,39 +132,6 @@ export default function NewRulesetPage() {
             />
           </div>
 
-          {/* Edge Thresholds */}
-          <div className="border-t pt-6">
-            <h3 className="text-lg font-medium text-gray-900 mb-4">Edge Thresholds</h3>
-            <div className="grid grid-cols-2 gap-4">
-              <div>
-                <label htmlFor="minSpreadEdge" className="block text-sm font-medium text-gray-700">
-                  Min Spread Edge (pts)
-                </label>
-                <input
-                  type="number"
-                  id="minSpreadEdge"
-                  step="0.1"
-                  value={minSpreadEdge}
-                  onChange={(e) => setMinSpreadEdge(e.target.value)}
-                  className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
-                />
-              </div>
-              <div>
-                <label htmlFor="minTotalEdge" className="block text-sm font-medium text-gray-700">
-                  Min Total Edge (pts)
-                </label>
-                <input
-                  type="number"
-                  id="minTotalEdge"
-                  step="0.1"
-                  value={minTotalEdge}
-                  onChange={(e) => setMinTotalEdge(e.target.value)}
-                  className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
-                />
-              </div>
-            </div>
-          </div>
-
           {/* Markets */}
           <div className="border-t pt-6">
             <h3 className="text-lg font-medium text-gray-900 mb-4">Markets</h3>
@@ -205,44 +172,13 @@ export default function NewRulesetPage() {
             </div>
           </div>
 
-          {/* Confidence Tiers */}
+          {/* Rules */}
           <div className="border-t pt-6">
-            <h3 className="text-lg font-medium text-gray-900 mb-4">Confidence Tiers</h3>
-            <div className="space-y-2">
-              <label className="flex items-center">
-                <input
-                  type="checkbox"
-                  checked={confidenceA}
-                  onChange={(e) => setConfidenceA(e.target.checked)}
-                  className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
-                />
-                <span className="ml-2 text-sm text-gray-700">
-                  A Tier (≥3.5 pts) - Highest confidence
-                </span>
-              </label>
-              <label className="flex items-center">
-                <input
-                  type="checkbox"
-                  checked={confidenceB}
-                  onChange={(e) => setConfidenceB(e.target.checked)}
-                  className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
-                />
-                <span className="ml-2 text-sm text-gray-700">
-                  B Tier (≥2.5 pts) - Medium confidence
-                </span>
-              </label>
-              <label className="flex items-center">
-                <input
-                  type="checkbox"
-                  checked={confidenceC}
-                  onChange={(e) => setConfidenceC(e.target.checked)}
-                  className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
-                />
-                <span className="ml-2 text-sm text-gray-700">
-                  C Tier (≥1.5 pts) - Lower confidence
-                </span>
-              </label>
-            </div>
+            <h3 className="text-lg font-medium text-gray-900 mb-1">Rules</h3>
+            <p className="text-sm text-gray-500 mb-4">
+              Games qualify when the rule tree matches. Edges are in points; moneyline EV is percent per $1 at the market price.
+            </p>
+            <RuleBuilder value={rules} onChange={setRules} />
           </div>
 
           {/* Limits */}
@@ -263,41 +199,6 @@ export default function NewRulesetPage() {
             </div>
           </div>
 
-          {/* Team Filters */}
-          <div className="border-t pt-6">
-            <h3 className="text-lg font-medium text-gray-900 mb-4">Team Filters</h3>
-            <div className="space-y-4">
-              <div>
-                <label htmlFor="includeTeams" className="block text-sm font-medium text-gray-700">
-                  Include Only Teams (comma-separated IDs)
-                </label>
-                <input
-                  type="text"
-                  id="includeTeams"
-                  value={includeTeams}
-                  onChange={(e) => setIncludeTeams(e.target.value)}
-                  className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
-                  placeholder="e.g., alabama, ohio-state, georgia"
-                />
-                <p className="mt-1 text-xs text-gray-500">Leave blank to include all teams</p>
-              </div>
-              <div>
-                <label htmlFor="excludeTeams" className="block text-sm font-medium text-gray-700">
-                  Exclude Teams (comma-separated IDs)
-                </label>
-                <input
-                  type="text"
-                  id="excludeTeams"
-                  value={excludeTeams}
-                  onChange={(e) => setExcludeTeams(e.target.value)}
-                  className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
-                  placeholder="e.g., fcs-teams, group-of-five"
-                />
-                <p className="mt-1 text-xs text-gray-500">Leave blank to exclude none</p>
-              </div>
-            </div>
-          </div>
-
           {/* Actions */}
           <div className="border-t pt-6 flex justify-end gap-3">
             <Link
@@ -11,12 +11,13 @@ import Link from 'next/link';
 import { DataModeBadge } from '@/components/DataModeBadge';
 import { HeaderNav } from '@/components/HeaderNav';
 import { Footer } from '@/components/Footer';
+import { describeRule, RulesetParameters } from '@/lib/ruleset-dsl';
 
 interface Ruleset {
   id: string;
   name: string;
   description: string | null;
-  parameters: any;
+  parameters: RulesetParameters;
   active: boolean;
   createdAt: string;
 }
@@ -156,24 +157,18 @@ export default function StrategiesPage() {
                       )}
                       <div className="mt-3 grid grid-cols-2 md:grid-cols-4 gap-4 text-sm">
                         <div>
-                          <span className="text-gray-500">Min Spread Edge:</span>
-                          <span className="ml-2 font-medium">{ruleset.parameters.minSpreadEdge || 'N/A'}</span>
-                        </div>
-                        <div>
-                          <span className="text-gray-500">Min Total Edge:</span>
-                          <span className="ml-2 font-medium">{ruleset.parameters.minTotalEdge || 'N/A'}</span>
-                        </div>
-                        <div>
-                          <span className="text-gray-500">Confidence:</span>
-                          <span className="ml-2 font-medium">
-                            {ruleset.parameters.confidenceIn?.join(', ') || 'Any'}
-                          </span>
+                          <span className="text-gray-500">Markets:</span>
+                          <span className="ml-2 font-medium">{ruleset.parameters.markets.join(', ')}</span>
                         </div>
                         <div>
                           <span className="text-gray-500">Max/Week:</span>
                           <span className="ml-2 font-medium">{ruleset.parameters.maxGamesPerWeek || 'Unlimited'}</span>
                         </div>
                       </div>
+                      <p className="mt-2 text-sm text-gray-700">
+                        <span className="text-gray-500">Rules:</span>
+                        <span className="ml-2 font-mono text-xs">{describeRule(ruleset.parameters.rules)}</span>
+                      </p>
                     </div>
                     <div className="flex gap-2 ml-4">
                       <Link
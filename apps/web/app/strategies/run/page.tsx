@@ -9,6 +9,9 @@
 import { useState, useEffect, Suspense } from 'react';
 import { useSearchParams, useRouter } from 'next/navigation';
 import Link from 'next/link';
+import { describeRule, RulesetParameters } from '@/lib/ruleset-dsl';
+import { StakeSuggestion, describeStakingPolicy, StakingConfig } from '@/lib/bankroll';
+import { SuggestedStake } from '@/components/SuggestedStake';
 
 interface QualifyingGame {
   gameId: string;
@@ -16,6 +19,7 @@ interface QualifyingGame {
   kickoff: string;
   spreadEdge: number;
   totalEdge: number;
+  moneylineEdge?: number;
   maxEdge: number;
   confidence: string;
   spreadPickLabel: string;
@@ -23,9 +27,22 @@ interface QualifyingGame {
   moneyline?: {
     price: number;
     pickLabel: string;
-    impliedProb: number;
+    impliedProb: number | null;
+    winProb?: number;
+    fairPrice?: number | null;
+    ev?: number;
     source: string;
   } | null;
+  suggestedStakes?: {
+    spread: StakeSuggestion | null;
+    moneyline: StakeSuggestion | null;
+  } | null;
+}
+
+interface BankrollOption extends StakingConfig {
+  id: string;
+  name: string;
+  balance: number;
 }
 
 interface RunResult {
@@ -33,10 +50,11 @@ interface RunResult {
   ruleset: {
     id: string;
     name: string;
-    parameters: any;
+    parameters: RulesetParameters;
   };
   week: number;
   season: number;
+  bankroll: BankrollOption | null;
   qualifyingGames: QualifyingGame[];
   summary: {
     totalGames: number;
@@ -61,17 +79,30 @@ function StrategyRunContent() {
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [saving, setSaving] = useState(false);
+  const [bankrolls, setBankrolls] = useState<BankrollOption[]>([]);
+  const [bankrollId, setBankrollId] = useState<string>('');
+
+  useEffect(() => {
+    fetch('/api/bankrolls')
+      .then(res => res.json())
+      .then(data => {
+        if (data.success) setBankrolls(data.bankrolls);
+      })
+      .catch(() => {
+        // Stake suggestions are optional; the run works without bankrolls
+      });
+  }, []);
 
   useEffect(() => {
     if (rulesetId) {
       runStrategy();
     }
-  }, [rulesetId, season, week]);
+  }, [rulesetId, season, week, bankrollId]);
 
   const runStrategy = async () => {
     try {
       const response = await fetch(
-        `/api/strategies/run?rulesetId=${rulesetId}&season=${season}&week=${week}`
+        `/api/strategies/run?rulesetId=${rulesetId}&season=${season}&week=${week}${bankrollId ? `&bankrollId=${bankrollId}` : ''}`
       );
       const data = await response.json();
 
@@ -155,6 +186,20 @@ function StrategyRunContent() {
                 {result.ruleset.name} • {season} Week {week}
               </p>
             </div>
+            <div className="flex items-center gap-4">
+              <label className="text-sm text-gray-600">
+                Stake from{' '}
+                <select
+                  value={bankrollId}
+                  onChange={(e) => setBankrollId(e.target.value)}
+                  className="ml-1 rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 text-sm"
+                >
+                  <option value="">No bankroll</option>
+                  {bankrolls.map(b => (
+                    <option key={b.id} value={b.id}>{b.name}</option>
+                  ))}
+                </select>
+              </label>
             <button
               onClick={saveRun}
               disabled={saving}
@@ -162,7 +207,13 @@ function StrategyRunContent() {
             >
               {saving ? 'Saving...' : 'Save as StrategyRun'}
             </button>
+            </div>
           </div>
+          {result.bankroll && (
+            <p className="text-sm text-gray-500 mt-2">
+              {result.bankroll.name}: balance ${result.bankroll.balance.toFixed(2)} • {describeStakingPolicy(result.bankroll)}
+            </p>
+          )}
         </div>
 
         {/* Summary Cards */}
@@ -190,16 +241,8 @@ function StrategyRunContent() {
           <h2 className="text-lg font-semibold text-gray-900 mb-4">Ruleset Parameters</h2>
           <div className="grid grid-cols-2 md:grid-cols-4 gap-4 text-sm">
             <div>
-              <span className="text-gray-500">Min Spread Edge:</span>
-              <span className="ml-2 font-medium">{result.ruleset.parameters.minSpreadEdge} pts</span>
-            </div>
-            <div>
-              <span className="text-gray-500">Min Total Edge:</span>
-              <span className="ml-2 font-medium">{result.ruleset.parameters.minTotalEdge} pts</span>
-            </div>
-            <div>
-              <span className="text-gray-500">Confidence:</span>
-              <span className="ml-2 font-medium">{result.ruleset.parameters.confidenceIn.join(', ')}</span>
+              <span className="text-gray-500">Markets:</span>
+              <span className="ml-2 font-medium">{result.ruleset.parameters.markets.join(', ')}</span>
             </div>
             <div>
               <span className="text-gray-500">Max/Week:</span>
@@ -208,6 +251,10 @@ function StrategyRunContent() {
               </span>
             </div>
           </div>
+          <div className="mt-4 text-sm">
+            <span className="text-gray-500">Rules:</span>
+            <span className="ml-2 font-mono text-xs text-gray-800">{describeRule(result.ruleset.parameters.rules)}</span>
+          </div>
         </div>
 
         {/* Qualifying Games */}
@@ -230,7 +277,11 @@ function StrategyRunContent() {
                   <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">Moneyline</th>
                   <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">Spread Edge</th>
                   <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">Total Edge</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">ML EV</th>
                   <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">Confidence</th>
+                  {result.bankroll && (
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">Suggested Stake</th>
+                  )}
                 </tr>
               </thead>
               <tbody className="bg-white divide-y divide-gray-200">
@@ -250,7 +301,7 @@ function StrategyRunContent() {
                       {game.moneyline ? (
                         <div className="flex items-center">
                           <span className="font-medium">
-                            {game.moneyline.price > 0 ? '+' : ''}{game.moneyline.price}
+                            {game.moneyline.pickLabel} {game.moneyline.price > 0 ? '+' : ''}{game.moneyline.price}
                           </span>
                           {game.moneyline.source && (
                             <span className="ml-1 text-xs text-gray-500">
@@ -268,6 +319,9 @@ function StrategyRunContent() {
                     <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
                       {game.totalEdge > 0 ? `+${game.totalEdge.toFixed(1)}` : '—'}
                     </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                      {game.moneyline?.ev != null ? `+${game.moneyline.ev.toFixed(1)}%` : '—'}
+                    </td>
                     <td className="px-6 py-4 whitespace-nowrap">
                       <span
                         className={`px-2 py-1 rounded-full text-xs font-medium ${
@@ -281,6 +335,18 @@ function StrategyRunContent() {
                         {game.confidence}
                       </span>
                     </td>
+                    {result.bankroll && (
+                      <td className="px-6 py-4 whitespace-nowrap text-sm">
+                        <div className="space-y-1">
+                          {game.suggestedStakes?.spread && (
+                            <div><span className="text-xs text-gray-500 mr-1">ATS</span><SuggestedStake suggestion={game.suggestedStakes.spread} /></div>
+                          )}
+                          {game.suggestedStakes?.moneyline && (
+                            <div><span className="text-xs text-gray-500 mr-1">ML</span><SuggestedStake suggestion={game.suggestedStakes.moneyline} /></div>
+                          )}
+                        </div>
+                      </td>
+                    )}
                   </tr>
                 ))}
               </tbody>
@@ -1,7 +1,8 @@
 /**
  * Team Detail Page
  * 
- * Shows team profile with logo, colors, conference, and latest power rating
+ * Shows team profile with logo, colors, conference, latest power rating and the
+ * season outlook from the latest Monte Carlo season simulation
  */
 
 'use client';
@@ -12,6 +13,8 @@ import Link from 'next/link';
 import { HeaderNav } from '@/components/HeaderNav';
 import { Footer } from '@/components/Footer';
 import { TeamLogo } from '@/components/TeamLogo';
+import { BarChart, Bar, XAxis, YAxis, Tooltip, ResponsiveContainer } from 'recharts';
+import type { TeamSimResult } from '@/lib/season-simulator';
 
 interface TeamData {
   success: boolean;
@@ -45,12 +48,26 @@ interface TeamData {
   }>;
 }
 
+interface SeasonOutlook {
+  simulation: {
+    season: number;
+    asOfWeek: number;
+    iterations: number;
+    createdAt: string;
+  };
+  team: TeamSimResult;
+  teams: TeamSimResult[];
+}
+
+const formatProb = (p: number) => (p < 0.001 && p > 0 ? '<0.1%' : `${(p * 100).toFixed(1)}%`);
+
 export default function TeamDetailPage() {
   const params = useParams();
   const searchParams = useSearchParams();
   const [data, setData] = useState<TeamData | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
+  const [outlook, setOutlook] = useState<SeasonOutlook | null>(null);
 
   useEffect(() => {
     if (params.id) {
@@ -58,6 +75,16 @@ export default function TeamDetailPage() {
     }
   }, [params.id, searchParams]);
 
+  // Season outlook (optional - only when a simulation has been run for the season)
+  const outlookSeason = searchParams.get('season') || data?.rating?.season?.toString();
+  useEffect(() => {
+    if (!params.id || !outlookSeason) return;
+    fetch(`/api/simulations/season?season=${outlookSeason}&teamId=${params.id}`)
+      .then(res => res.json())
+      .then(result => setOutlook(result.success ? result : null))
+      .catch(() => setOutlook(null));
+  }, [params.id, outlookSeason]);
+
   const fetchTeamData = async () => {
     try {
       setLoading(true);
@@ -289,6 +316,90 @@ export default function TeamDetailPage() {
             </div>
           </div>
 
+          {/* Season Outlook */}
+          {outlook && (
+            <div className="bg-white rounded-lg shadow p-6 mt-8">
+              <div className="flex items-baseline justify-between mb-4">
+                <h2 className="text-xl font-bold text-gray-900">{outlook.simulation.season} Season Outlook</h2>
+                <span className="text-xs text-gray-500">
+                  {outlook.simulation.iterations.toLocaleString()} simulations from week {outlook.simulation.asOfWeek}
+                </span>
+              </div>
+              <div className="grid grid-cols-2 md:grid-cols-5 gap-4 mb-6">
+                <div className="text-center py-4 bg-gray-50 rounded-lg">
+                  <div className="text-2xl font-bold text-gray-900">
+                    {outlook.team.currentWins}-{outlook.team.currentLosses}
+                  </div>
+                  <div className="text-xs text-gray-600 mt-1">Current Record</div>
+                </div>
+                <div className="text-center py-4 bg-gray-50 rounded-lg">
+                  <div className="text-2xl font-bold text-gray-900">
+                    {outlook.team.expectedWins.toFixed(1)}-{outlook.team.expectedLosses.toFixed(1)}
+                  </div>
+                  <div className="text-xs text-gray-600 mt-1">Projected Record</div>
+                </div>
+                <div className="text-center py-4 bg-gray-50 rounded-lg">
+                  <div className="text-2xl font-bold text-gray-900">{formatProb(outlook.team.titleGameProb)}</div>
+                  <div className="text-xs text-gray-600 mt-1">Conf. Title Game</div>
+                </div>
+                <div className="text-center py-4 bg-gray-50 rounded-lg">
+                  <div className="text-2xl font-bold text-gray-900">{formatProb(outlook.team.confChampProb)}</div>
+                  <div className="text-xs text-gray-600 mt-1">Conf. Champion</div>
+                </div>
+                <div className="text-center py-4 bg-blue-50 rounded-lg">
+                  <div className="text-2xl font-bold text-blue-600">{formatProb(outlook.team.cfpProb)}</div>
+                  <div className="text-xs text-gray-600 mt-1">Makes CFP</div>
+                </div>
+              </div>
+
+              <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
+                <div>
+                  <h3 className="text-sm font-semibold text-gray-700 mb-2">Win Total Distribution</h3>
+                  <ResponsiveContainer width="100%" height={200}>
+                    <BarChart data={outlook.team.winDistribution.map((p, wins) => ({ wins, p: p * 100 })).filter(d => d.wins >= outlook.team.currentWins)}>
+                      <XAxis dataKey="wins" />
+                      <YAxis unit="%" />
+                      <Tooltip formatter={(value: number) => `${value.toFixed(1)}%`} labelFormatter={(label) => `${label} wins`} />
+                      <Bar dataKey="p" fill={team.primaryColor || '#3b82f6'} />
+                    </BarChart>
+                  </ResponsiveContainer>
+                </div>
+                <div>
+                  <h3 className="text-sm font-semibold text-gray-700 mb-2">{team.conference} Race</h3>
+                  <table className="w-full text-sm">
+                    <thead>
+                      <tr className="text-left text-xs text-gray-500 uppercase">
+                        <th className="py-1">Team</th>
+                        <th className="py-1">Conf</th>
+                        <th className="py-1">Title G</th>
+                        <th className="py-1">Champ</th>
+                        <th className="py-1">CFP</th>
+                      </tr>
+                    </thead>
+                    <tbody className="divide-y divide-gray-100">
+                      {[...outlook.teams]
+                        .sort((a, b) => b.confChampProb - a.confChampProb)
+                        .slice(0, 8)
+                        .map(t => (
+                          <tr key={t.teamId} className={t.teamId === team.id ? 'font-semibold bg-blue-50' : ''}>
+                            <td className="py-1">
+                              <Link href={`/team/${t.teamId}?season=${outlook.simulation.season}`} className="hover:underline">
+                                {t.name}
+                              </Link>
+                            </td>
+                            <td className="py-1">{t.expectedConfWins.toFixed(1)}-{t.expectedConfLosses.toFixed(1)}</td>
+                            <td className="py-1">{formatProb(t.titleGameProb)}</td>
+                            <td className="py-1">{formatProb(t.confChampProb)}</td>
+                            <td className="py-1">{formatProb(t.cfpProb)}</td>
+                          </tr>
+                        ))}
+                    </tbody>
+                  </table>
+                </div>
+              </div>
+            </div>
+          )}
+
           {/* Back Link */}
           <div className="mt-8">
             <Link 
@@ -113,17 +113,39 @@ function WeekPageContent() {
   const [data, setData] = useState<{ week: number; season: number; games: WeekData[]; summary: WeekSummary } | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
-  const [season, setSeason] = useState(2025);
-  const [week, setWeek] = useState(9);
+  const [season, setSeason] = useState<number | null>(null);
+  const [week, setWeek] = useState<number | null>(null);
 
   const searchParams = useSearchParams();
+  const asOf = searchParams.get('asOf');
+  const modelVersion = searchParams.get('modelVersion');
 
   useEffect(() => {
     const seasonParam = searchParams.get('season');
     const weekParam = searchParams.get('week');
-    
-    if (seasonParam) setSeason(parseInt(seasonParam, 10));
-    if (weekParam) setWeek(parseInt(weekParam, 10));
+
+    if (seasonParam && weekParam) {
+      setSeason(parseInt(seasonParam, 10));
+      setWeek(parseInt(weekParam, 10));
+      return;
+    }
+
+    // Missing season or week: default to the week being bet on now (season calendar)
+    const fetchCurrentWeek = async () => {
+      try {
+        const response = await fetch(`/api/calendar${seasonParam ? `?season=${seasonParam}` : ''}`);
+        const calendar = await response.json();
+        if (!calendar.success) {
+          throw new Error(calendar.error || 'Failed to resolve current week');
+        }
+        setSeason(calendar.season);
+        setWeek(weekParam ? parseInt(weekParam, 10) : calendar.currentWeek);
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'Failed to resolve current week');
+        setLoading(false);
+      }
+    };
+    fetchCurrentWeek();
   }, [searchParams]);
 
   // Update URL when filters change
@@ -139,6 +161,7 @@ function WeekPageContent() {
   }, [season, week]);
 
   const fetchWeekData = async () => {
+    if (season === null || week === null) return;
     setLoading(true);
     setError(null);
     try {
@@ -211,6 +234,14 @@ function WeekPageContent() {
     );
   }
 
+  if (season === null || week === null) {
+    return null;
+  }
+
+  // Keep the resolved season/week selectable even outside the default ranges (postseason, new season)
+  const seasonOptions = Array.from(new Set([2022, 2023, 2024, 2025, season])).sort((a, b) => a - b);
+  const weekOptions = Array.from(new Set([...Array.from({ length: 15 }, (_, i) => i + 1), week])).sort((a, b) => a - b);
+
   return (
     <div className="flex-1">
       <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
@@ -238,10 +269,9 @@ function WeekPageContent() {
                 }}
                 className="rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
               >
-                <option value={2022}>2022</option>
-                <option value={2023}>2023</option>
-                <option value={2024}>2024</option>
-                <option value={2025}>2025</option>
+                {seasonOptions.map(s => (
+                  <option key={s} value={s}>{s}</option>
+                ))}
               </select>
             </div>
             
@@ -259,7 +289,7 @@ function WeekPageContent() {
                 }}
                 className="rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
               >
-                {Array.from({ length: 15 }, (_, i) => i + 1).map(w => (
+                {weekOptions.map(w => (
                   <option key={w} value={w}>Week {w}</option>
                 ))}
               </select>
@@ -279,9 +309,11 @@ function WeekPageContent() {
             <SlateTable 
               season={season} 
               week={week} 
-              title={`Week ${week} Games`}
+              title={asOf ? `Week ${week} Games (as of ${new Date(asOf).toLocaleString()})` : `Week ${week} Games`}
               showDateHeaders={true}
               showAdvanced={false}
+              asOf={asOf}
+              modelVersion={modelVersion}
             />
           </div>
 
@@ -68,8 +68,8 @@ interface WeekReviewData {
 
 export default function WeekReviewPage() {
   const router = useRouter();
-  const [season, setSeason] = useState(2025);
-  const [week, setWeek] = useState(9);
+  const [season, setSeason] = useState<number | null>(null);
+  const [week, setWeek] = useState<number | null>(null);
   const [strategy, setStrategy] = useState<string>('');
   const [data, setData] = useState<WeekReviewData | null>(null);
   const [loading, setLoading] = useState(false);
@@ -78,7 +78,26 @@ export default function WeekReviewPage() {
   const [grading, setGrading] = useState(false);
   const defaultStrategySet = useRef(false);
 
+  // Default to the week being bet on now (season calendar)
+  useEffect(() => {
+    const fetchCurrentWeek = async () => {
+      try {
+        const response = await fetch('/api/calendar');
+        const calendar = await response.json();
+        if (!calendar.success) {
+          throw new Error(calendar.error || 'Failed to resolve current week');
+        }
+        setSeason(calendar.season);
+        setWeek(calendar.currentWeek);
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'Failed to resolve current week');
+      }
+    };
+    fetchCurrentWeek();
+  }, []);
+
   const fetchData = async () => {
+    if (season === null || week === null) return;
     setLoading(true);
     setError(null);
     try {
@@ -86,7 +105,9 @@ export default function WeekReviewPage() {
         season: season.toString(),
         week: week.toString(),
         page: '1',
-        limit: '50'
+        limit: '50',
+        // Week Review grades and reviews the official (house) bets
+        portfolio: 'house',
       });
       // Only add strategy if it's not empty (not "All Strategies")
       // Note: The API expects strategyTag, but we're using strategy ID from rulesets
@@ -137,7 +158,7 @@ export default function WeekReviewPage() {
   const handleSeed = async () => {
     setSeeding(true);
     try {
-      const response = await fetch('/api/bets/seed', { method: 'GET' });
+      const response = await fetch('/api/bets/seed', { method: 'POST' });
       const result = await response.json();
       
       if (result.success) {
@@ -207,6 +228,7 @@ export default function WeekReviewPage() {
   };
 
   const exportCSV = () => {
+    if (season === null) return;
     const params = new URLSearchParams({
       season: season.toString(),
       ...(week && { week: week.toString() }),
@@ -261,6 +283,11 @@ export default function WeekReviewPage() {
     }
   };
 
+  // Keep the resolved season/week selectable even outside the default ranges (postseason, new season)
+  const seasonOptions = Array.from(new Set([2024, 2025, ...(season !== null ? [season] : [])])).sort((a, b) => a - b);
+  const weekOptions = Array.from(new Set([...Array.from({ length: 16 }, (_, i) => i + 1), ...(week !== null ? [week] : [])]))
+    .sort((a, b) => a - b);
+
   return (
     <div className="min-h-screen bg-gray-50 flex flex-col">
       <HeaderNav />
@@ -283,23 +310,24 @@ export default function WeekReviewPage() {
           <div>
             <label className="block text-sm font-medium mb-1">Season</label>
             <select 
-              value={season} 
+              value={season ?? ''} 
               onChange={(e) => setSeason(parseInt(e.target.value))}
               className="border rounded px-3 py-2"
             >
-              <option value={2024}>2024</option>
-              <option value={2025}>2025</option>
+              {seasonOptions.map(s => (
+                <option key={s} value={s}>{s}</option>
+              ))}
             </select>
           </div>
           
           <div>
             <label className="block text-sm font-medium mb-1">Week</label>
             <select 
-              value={week} 
+              value={week ?? ''} 
               onChange={(e) => setWeek(parseInt(e.target.value))}
               className="border rounded px-3 py-2"
             >
-              {Array.from({ length: 16 }, (_, i) => i + 1).map(w => (
+              {weekOptions.map(w => (
                 <option key={w} value={w}>Week {w}</option>
               ))}
             </select>
@@ -0,0 +1,42 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import Link from 'next/link';
+
+interface CurrentUser {
+  email: string | null;
+  actor: string;
+  role: string;
+}
+
+/**
+ * "Sign in", or the signed-in user linking to /account
+ */
+export function AccountLink() {
+  const [user, setUser] = useState<CurrentUser | null | undefined>(undefined);
+
+  useEffect(() => {
+    fetch('/api/auth/me')
+      .then(res => res.json())
+      .then(result => setUser(result.success ? result.user : null))
+      .catch(() => setUser(null));
+  }, []);
+
+  // Nothing until we know, to avoid flashing "Sign in" for signed-in users
+  if (user === undefined) return null;
+
+  if (!user) {
+    return (
+      <Link href="/login" className="text-sm font-medium text-blue-600 hover:text-blue-800">
+        Sign in
+      </Link>
+    );
+  }
+
+  return (
+    <Link href="/account" className="text-sm text-gray-700 hover:text-gray-900" title={`Role: ${user.role}`}>
+      {user.email ?? user.actor}
+      <span className="ml-1 text-xs text-gray-400">({user.role})</span>
+    </Link>
+  );
+}
@@ -0,0 +1,171 @@
+/**
+ * BankrollPanel Component
+ *
+ * Bankroll picker for My Card: select a bankroll, see its balance and staking
+ * policy, or create a new one. Lists the bankrolls of the card's portfolio.
+ */
+
+'use client';
+
+import { useState, useEffect } from 'react';
+import { KELLY_MULTIPLIERS, StakingConfig, StakingPolicy, describeStakingPolicy } from '@/lib/bankroll';
+
+export interface BankrollSummary extends StakingConfig {
+  id: string;
+  name: string;
+  startingBalance: number;
+  balance: number;
+}
+
+interface BankrollPanelProps {
+  selectedId: string;
+  onSelect: (id: string) => void;
+  /** Bumped by the parent when balances may have changed */
+  refreshKey?: number;
+  /** 'mine' or 'house' (lib/portfolio.ts); the API default when unset */
+  portfolio?: string;
+}
+
+const inputClass = 'w-full border rounded px-3 py-2 text-sm';
+
+export function BankrollPanel({ selectedId, onSelect, refreshKey = 0, portfolio = '' }: BankrollPanelProps) {
+  const [bankrolls, setBankrolls] = useState<BankrollSummary[]>([]);
+  const [showCreate, setShowCreate] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [form, setForm] = useState({
+    name: '',
+    startingBalance: '1000',
+    stakingPolicy: 'kelly' as StakingPolicy,
+    flatStake: '10',
+    stakePct: '0.01',
+    kellyMultiplier: String(KELLY_MULTIPLIERS.quarter),
+    maxStakePct: '0.05',
+  });
+
+  const loadBankrolls = async () => {
+    try {
+      const response = await fetch(`/api/bankrolls${portfolio ? `?portfolio=${portfolio}` : ''}`);
+      const data = await response.json();
+      setBankrolls(data.success ? data.bankrolls : []);
+    } catch (err) {
+      setError('Failed to load bankrolls');
+    }
+  };
+
+  useEffect(() => {
+    loadBankrolls();
+  }, [refreshKey, portfolio]);
+
+  const handleCreate = async () => {
+    setError(null);
+    try {
+      const response = await fetch('/api/bankrolls', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ ...form, ...(portfolio && { portfolio }) }),
+      });
+      const data = await response.json();
+      if (!data.success) {
+        setError(data.details ? data.details.join('; ') : data.error);
+        return;
+      }
+      setShowCreate(false);
+      await loadBankrolls();
+      onSelect(data.bankroll.id);
+    } catch (err) {
+      setError('Failed to create bankroll');
+    }
+  };
+
+  const selected = bankrolls.find(b => b.id === selectedId) || null;
+
+  return (
+    <div className="bg-white p-4 rounded-lg shadow mb-6">
+      <div className="flex flex-wrap items-end gap-4">
+        <div className="min-w-[200px]">
+          <label className="block text-sm font-medium mb-1">Bankroll</label>
+          <select value={selectedId} onChange={(e) => onSelect(e.target.value)} className={inputClass}>
+            <option value="">None</option>
+            {bankrolls.map(b => (
+              <option key={b.id} value={b.id}>{b.name}</option>
+            ))}
+          </select>
+        </div>
+
+        {selected && (
+          <div className="text-sm">
+            <div className="font-semibold text-gray-900">
+              ${selected.balance.toFixed(2)}
+              <span className={`ml-2 text-xs ${selected.balance >= selected.startingBalance ? 'text-green-600' : 'text-red-600'}`}>
+                {selected.balance >= selected.startingBalance ? '+' : ''}
+                {(selected.balance - selected.startingBalance).toFixed(2)} since start
+              </span>
+            </div>
+            <div className="text-xs text-gray-500">{describeStakingPolicy(selected)}</div>
+          </div>
+        )}
+
+        <button
+          onClick={() => setShowCreate(!showCreate)}
+          className="ml-auto text-sm text-blue-600 hover:underline"
+        >
+          {showCreate ? 'Cancel' : 'New bankroll'}
+        </button>
+      </div>
+
+      {showCreate && (
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mt-4 pt-4 border-t">
+          <div>
+            <label className="block text-xs font-medium mb-1">Name</label>
+            <input value={form.name} onChange={(e) => setForm({ ...form, name: e.target.value })} className={inputClass} />
+          </div>
+          <div>
+            <label className="block text-xs font-medium mb-1">Starting balance</label>
+            <input type="number" value={form.startingBalance} onChange={(e) => setForm({ ...form, startingBalance: e.target.value })} className={inputClass} />
+          </div>
+          <div>
+            <label className="block text-xs font-medium mb-1">Policy</label>
+            <select value={form.stakingPolicy} onChange={(e) => setForm({ ...form, stakingPolicy: e.target.value as StakingPolicy })} className={inputClass}>
+              <option value="flat">Flat</option>
+              <option value="percent">Percent of balance</option>
+              <option value="kelly">Kelly</option>
+            </select>
+          </div>
+          {form.stakingPolicy === 'flat' && (
+            <div>
+              <label className="block text-xs font-medium mb-1">Flat stake</label>
+              <input type="number" value={form.flatStake} onChange={(e) => setForm({ ...form, flatStake: e.target.value })} className={inputClass} />
+            </div>
+          )}
+          {form.stakingPolicy === 'percent' && (
+            <div>
+              <label className="block text-xs font-medium mb-1">Stake (fraction of balance)</label>
+              <input type="number" step="0.005" value={form.stakePct} onChange={(e) => setForm({ ...form, stakePct: e.target.value })} className={inputClass} />
+            </div>
+          )}
+          {form.stakingPolicy === 'kelly' && (
+            <div>
+              <label className="block text-xs font-medium mb-1">Kelly multiplier</label>
+              <select value={form.kellyMultiplier} onChange={(e) => setForm({ ...form, kellyMultiplier: e.target.value })} className={inputClass}>
+                {Object.entries(KELLY_MULTIPLIERS).map(([label, value]) => (
+                  <option key={label} value={String(value)} className="capitalize">{label}</option>
+                ))}
+              </select>
+            </div>
+          )}
+          <div>
+            <label className="block text-xs font-medium mb-1">Max stake (fraction, blank = none)</label>
+            <input type="number" step="0.01" value={form.maxStakePct} onChange={(e) => setForm({ ...form, maxStakePct: e.target.value })} className={inputClass} />
+          </div>
+          <div className="flex items-end">
+            <button onClick={handleCreate} className="bg-blue-600 text-white px-4 py-2 rounded hover:bg-blue-700 text-sm">
+              Create
+            </button>
+          </div>
+        </div>
+      )}
+
+      {error && <p className="text-sm text-red-600 mt-2">{error}</p>}
+    </div>
+  );
+}
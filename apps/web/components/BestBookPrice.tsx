@@ -0,0 +1,55 @@
+/**
+ * BestBookPrice Component
+ *
+ * Best available number for a side (book, number/price, gain vs consensus),
+ * optionally followed by every book's quote for that side
+ */
+
+import {
+  BestPriceSummary,
+  BookQuote,
+  formatQuote,
+  formatVsConsensus,
+} from '@/lib/book-prices';
+
+interface BestBookPriceProps {
+  summary: BestPriceSummary | null;
+  /** Every book's quote for the same side; rendered as a list when given */
+  quotes?: BookQuote[];
+  compact?: boolean;
+}
+
+export function BestBookPrice({ summary, quotes, compact = false }: BestBookPriceProps) {
+  if (!summary) {
+    return <span className="text-xs text-gray-400">No book prices</span>;
+  }
+
+  const vsConsensus = formatVsConsensus(summary);
+  const gained = (summary.halfPointsVsConsensus ?? summary.probVsConsensus ?? 0) > 0;
+
+  return (
+    <div className={compact ? 'text-xs' : 'text-sm'}>
+      <div>
+        <span className="font-medium text-gray-900">
+          {formatQuote(summary.market, summary.side, summary.bestNumber, summary.bestPrice)}
+        </span>
+        <span className="text-gray-500"> @ {summary.bestBook}</span>
+      </div>
+      {vsConsensus && summary.books > 1 && (
+        <div className={gained ? 'text-green-600' : 'text-gray-500'}>{vsConsensus}</div>
+      )}
+      {quotes && quotes.length > 1 && (
+        <table className="mt-1 w-full text-xs text-gray-600">
+          <tbody>
+            {quotes.map(quote => (
+              <tr key={quote.bookName} className={quote.bookName === summary.bestBook ? 'font-medium text-gray-900' : ''}>
+                <td className="pr-2">{quote.bookName}</td>
+                <td className="text-right">{formatQuote(summary.market, summary.side, quote.number, quote.price)}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </div>
+  );
+}
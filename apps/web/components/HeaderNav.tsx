@@ -2,6 +2,7 @@
 
 import Link from 'next/link';
 import { usePathname } from 'next/navigation';
+import { AccountLink } from './AccountLink';
 import { DataModeBadge } from './DataModeBadge';
 
 export function HeaderNav() {
@@ -52,6 +53,12 @@ export function HeaderNav() {
             <Link href="/ratings" className={linkClass('/ratings')} title="View team power ratings">
               Ratings
             </Link>
+            <Link href="/models" className={linkClass('/models')} title="Compare model calibrations side by side">
+              Models
+            </Link>
+            <Link href="/futures" className={linkClass('/futures')} title="Win totals and conference futures versus the season simulation">
+              Futures
+            </Link>
             <Link href="/labs/hybrid" className={linkClass('/labs/hybrid')} title="V2 Hybrid Model Dashboard">
               Labs (V2)
             </Link>
@@ -64,6 +71,9 @@ export function HeaderNav() {
             </Link>
             <Link href="/backtests" className={linkClass('/backtests')}>
               Backtests
+            </Link>
+            <Link href="/alerts" className={linkClass('/alerts')}>
+              Alerts
             </Link> */}
             {process.env.NEXT_PUBLIC_SHOW_DOCS === 'true' && (
               <Link href="/docs" className={linkClass('/docs')}>
@@ -72,8 +82,9 @@ export function HeaderNav() {
             )}
           </div>
 
-          {/* Right: Data Mode Badge */}
-          <div className="flex items-center">
+          {/* Right: Account and Data Mode Badge */}
+          <div className="flex items-center gap-4">
+            <AccountLink />
             <DataModeBadge />
           </div>
         </div>
@@ -99,6 +110,9 @@ export function HeaderNav() {
             <Link href="/ratings" className={linkClass('/ratings')} title="View team power ratings">
               Ratings
             </Link>
+            <Link href="/futures" className={linkClass('/futures')} title="Win totals and conference futures versus the season simulation">
+              Futures
+            </Link>
             <Link href="/labs/hybrid" className={linkClass('/labs/hybrid')} title="V2 Hybrid Model Dashboard">
               Labs (V2)
             </Link>
@@ -111,6 +125,9 @@ export function HeaderNav() {
             </Link>
             <Link href="/backtests" className={linkClass('/backtests')}>
               Backtests
+            </Link>
+            <Link href="/alerts" className={linkClass('/alerts')}>
+              Alerts
             </Link> */}
             {process.env.NEXT_PUBLIC_SHOW_DOCS === 'true' && (
               <Link href="/docs" className={linkClass('/docs')}>
@@ -0,0 +1,150 @@
+/**
+ * LiveWinProbability Component
+ *
+ * In-game home win probability and fair live spread trajectory for a game, with
+ * live market spreads on the same clock. Refreshes while the game is in progress;
+ * renders nothing until the first score/clock update arrives.
+ */
+'use client';
+
+import { useEffect, useState } from 'react';
+import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ReferenceLine, ResponsiveContainer } from 'recharts';
+import type { LiveGameView } from '@/lib/live-game-context';
+
+const REFRESH_MS = 30000;
+
+interface LiveWinProbabilityProps {
+  gameId: string;
+}
+
+function formatClock(period: number, clockSeconds: number, status: string): string {
+  if (status === 'final') return 'Final';
+  const label = period > 4 ? `OT${period > 5 ? period - 4 : ''}` : `Q${period}`;
+  const minutes = Math.floor(clockSeconds / 60);
+  const seconds = String(clockSeconds % 60).padStart(2, '0');
+  return `${label} ${minutes}:${seconds}`;
+}
+
+function formatSpread(spreadHma: number, home: string, away: string): string {
+  if (Math.abs(spreadHma) < 0.05) return 'Pick\'em';
+  return spreadHma > 0 ? `${home} -${spreadHma.toFixed(1)}` : `${away} -${Math.abs(spreadHma).toFixed(1)}`;
+}
+
+export function LiveWinProbability({ gameId }: LiveWinProbabilityProps) {
+  const [live, setLive] = useState<LiveGameView | null>(null);
+
+  useEffect(() => {
+    let timer: ReturnType<typeof setTimeout> | null = null;
+    let cancelled = false;
+
+    const load = async () => {
+      try {
+        const response = await fetch(`/api/game/${gameId}/live`);
+        const result = await response.json();
+        if (cancelled) return;
+        if (result.success) {
+          setLive(result);
+          if (result.status === 'in_progress') timer = setTimeout(load, REFRESH_MS);
+        }
+      } catch (error) {
+        console.warn('[Live] Failed to load live win probability:', error);
+      }
+    };
+    load();
+
+    return () => {
+      cancelled = true;
+      if (timer) clearTimeout(timer);
+    };
+  }, [gameId]);
+
+  if (!live || !live.current) return null;
+
+  const { current, homeTeam, awayTeam } = live;
+  const winProbData = live.trajectory.map(p => ({ minute: p.minute, homeWinPct: p.homeWinProb * 100 }));
+  const fairSpreadData = live.trajectory.map(p => ({ minute: p.minute, fair: p.fairSpreadHma }));
+  const marketData = live.liveLines
+    .filter(l => l.minute !== null)
+    .map(l => ({ minute: l.minute, market: l.spreadHma }));
+  const latestLine = live.liveLines.length > 0 ? live.liveLines[live.liveLines.length - 1] : null;
+
+  return (
+    <div className="mb-6 bg-white p-4 rounded-lg shadow">
+      <div className="flex items-baseline justify-between mb-3">
+        <h3 className="text-lg font-semibold text-gray-900">
+          {live.status === 'final' ? 'Win Probability' : 'Live Win Probability'}
+        </h3>
+        <span className="text-sm text-gray-600">
+          {formatClock(current.period, current.clockSeconds, current.status)} · {awayTeam.name} {current.awayScore} - {current.homeScore} {homeTeam.name}
+        </span>
+      </div>
+
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-4">
+        <div className="text-center py-3 bg-gray-50 rounded-lg">
+          <div className="text-2xl font-bold text-gray-900">{(current.homeWinProb * 100).toFixed(1)}%</div>
+          <div className="text-xs text-gray-600 mt-1">{homeTeam.name} win</div>
+        </div>
+        <div className="text-center py-3 bg-gray-50 rounded-lg">
+          <div className="text-2xl font-bold text-gray-900">{((1 - current.homeWinProb) * 100).toFixed(1)}%</div>
+          <div className="text-xs text-gray-600 mt-1">{awayTeam.name} win</div>
+        </div>
+        <div className="text-center py-3 bg-blue-50 rounded-lg">
+          <div className="text-lg font-bold text-blue-700">{formatSpread(current.fairSpreadHma, homeTeam.name, awayTeam.name)}</div>
+          <div className="text-xs text-gray-600 mt-1">Fair live spread</div>
+        </div>
+        <div className="text-center py-3 bg-gray-50 rounded-lg">
+          <div className="text-lg font-bold text-gray-900">
+            {latestLine ? formatSpread(latestLine.spreadHma, homeTeam.name, awayTeam.name) : '—'}
+          </div>
+          <div className="text-xs text-gray-600 mt-1">
+            {latestLine ? `Live market (${latestLine.bookName})` : 'No live market line'}
+          </div>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        <div>
+          <h4 className="text-sm font-semibold text-gray-700 mb-2">{homeTeam.name} win probability</h4>
+          <ResponsiveContainer width="100%" height={220}>
+            <LineChart data={winProbData}>
+              <CartesianGrid strokeDasharray="3 3" />
+              <XAxis dataKey="minute" type="number" domain={[0, 'dataMax']} ticks={[0, 15, 30, 45, 60]} />
+              <YAxis domain={[0, 100]} unit="%" />
+              <ReferenceLine y={50} stroke="#9ca3af" strokeDasharray="4 4" />
+              <Tooltip
+                formatter={(value: number) => `${value.toFixed(1)}%`}
+                labelFormatter={(minute) => `Minute ${Number(minute).toFixed(1)}`}
+              />
+              <Line type="stepAfter" dataKey="homeWinPct" name="Home win %" stroke="#3b82f6" dot={false} strokeWidth={2} />
+            </LineChart>
+          </ResponsiveContainer>
+        </div>
+        <div>
+          <h4 className="text-sm font-semibold text-gray-700 mb-2">Fair vs market live spread (home margin)</h4>
+          <ResponsiveContainer width="100%" height={220}>
+            <LineChart>
+              <CartesianGrid strokeDasharray="3 3" />
+              <XAxis dataKey="minute" type="number" domain={[0, 'dataMax']} ticks={[0, 15, 30, 45, 60]} allowDuplicatedCategory={false} />
+              <YAxis />
+              <ReferenceLine y={0} stroke="#9ca3af" />
+              <Tooltip
+                formatter={(value: number) => value.toFixed(1)}
+                labelFormatter={(minute) => `Minute ${Number(minute).toFixed(1)}`}
+              />
+              <Legend />
+              <Line data={fairSpreadData} type="stepAfter" dataKey="fair" name="Fair (model)" stroke="#3b82f6" dot={false} strokeWidth={2} />
+              {marketData.length > 0 && (
+                <Line data={marketData} type="stepAfter" dataKey="market" name="Market" stroke="#f59e0b" dot={{ r: 2 }} />
+              )}
+            </LineChart>
+          </ResponsiveContainer>
+        </div>
+      </div>
+
+      <p className="text-xs text-gray-500 mt-2">
+        From the pregame Core V1 spread ({live.pregameSpreadHma !== null ? formatSpread(live.pregameSpreadHma, homeTeam.name, awayTeam.name) : '—'}),
+        score and time remaining{live.source ? ` · updates from ${live.source}` : ''}
+      </p>
+    </div>
+  );
+}
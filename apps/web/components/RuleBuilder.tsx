@@ -0,0 +1,288 @@
+/**
+ * RuleBuilder Component
+ *
+ * Visual editor for ruleset DSL trees: nested AND/OR groups, NOT wrappers and
+ * field predicates. Controlled - the parent owns the RuleNode.
+ */
+
+'use client';
+
+import { useState, useEffect } from 'react';
+import {
+  RuleNode,
+  RulePredicate,
+  RuleField,
+  RuleOperator,
+  RULE_FIELDS,
+  OPERATORS_BY_KIND,
+  OPERATOR_LABELS,
+  describeRule,
+} from '@/lib/ruleset-dsl';
+
+interface RuleBuilderProps {
+  value: RuleNode;
+  onChange: (node: RuleNode) => void;
+}
+
+interface RuleNodeEditorProps {
+  node: RuleNode;
+  onChange: (node: RuleNode) => void;
+  onRemove?: () => void;
+  depth: number;
+}
+
+/**
+ * Default predicate for a field: first operator for its kind and a neutral value
+ */
+function defaultPredicate(field: RuleField): RulePredicate {
+  const def = RULE_FIELDS[field];
+  const op = OPERATORS_BY_KIND[def.kind][0];
+  switch (def.kind) {
+    case 'number':
+      return { type: 'predicate', field, op, value: 0 };
+    case 'boolean':
+      return { type: 'predicate', field, op, value: true };
+    case 'enum':
+      return { type: 'predicate', field, op, value: def.options ? [def.options[0]] : [] };
+    default:
+      return { type: 'predicate', field, op, value: [] };
+  }
+}
+
+const inputClass = 'rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 text-sm';
+const linkButtonClass = 'text-xs font-medium text-blue-600 hover:text-blue-700';
+
+/**
+ * Comma-separated team IDs; committed on blur so typing separators isn't fought
+ */
+function TeamListInput({ value, onChange }: { value: string[]; onChange: (teams: string[]) => void }) {
+  const [text, setText] = useState(value.join(', '));
+
+  useEffect(() => {
+    setText(value.join(', '));
+  }, [value]);
+
+  return (
+    <input
+      type="text"
+      value={text}
+      onChange={(e) => setText(e.target.value)}
+      onBlur={() => onChange(text.split(',').map(t => t.trim()).filter(t => t))}
+      className={`${inputClass} flex-1 min-w-[12rem]`}
+      placeholder="e.g., alabama, ohio-state"
+    />
+  );
+}
+
+function PredicateEditor({ node, onChange }: { node: RulePredicate; onChange: (node: RuleNode) => void }) {
+  const def = RULE_FIELDS[node.field];
+
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      <select
+        value={node.field}
+        onChange={(e) => onChange(defaultPredicate(e.target.value as RuleField))}
+        className={inputClass}
+      >
+        {(Object.keys(RULE_FIELDS) as RuleField[]).map(field => (
+          <option key={field} value={field}>{RULE_FIELDS[field].label}</option>
+        ))}
+      </select>
+
+      <select
+        value={node.op}
+        onChange={(e) => onChange({ ...node, op: e.target.value as RuleOperator })}
+        className={inputClass}
+      >
+        {OPERATORS_BY_KIND[def.kind].map(op => (
+          <option key={op} value={op}>{OPERATOR_LABELS[op]}</option>
+        ))}
+      </select>
+
+      {def.kind === 'number' && (
+        <>
+          <input
+            type="number"
+            step="0.5"
+            value={node.value as number}
+            onChange={(e) => onChange({ ...node, value: parseFloat(e.target.value) || 0 })}
+            className={`${inputClass} w-24`}
+          />
+          {def.unit && <span className="text-xs text-gray-500">{def.unit}</span>}
+        </>
+      )}
+
+      {def.kind === 'boolean' && (
+        <select
+          value={node.value ? 'true' : 'false'}
+          onChange={(e) => onChange({ ...node, value: e.target.value === 'true' })}
+          className={inputClass}
+        >
+          <option value="true">Yes</option>
+          <option value="false">No</option>
+        </select>
+      )}
+
+      {def.kind === 'enum' && def.options && (
+        <div className="flex flex-wrap gap-3">
+          {def.options.map(option => {
+            const selected = (node.value as string[]).includes(option);
+            return (
+              <label key={option} className="flex items-center text-sm text-gray-700">
+                <input
+                  type="checkbox"
+                  checked={selected}
+                  onChange={(e) => {
+                    const current = node.value as string[];
+                    onChange({
+                      ...node,
+                      value: e.target.checked ? [...current, option] : current.filter(v => v !== option),
+                    });
+                  }}
+                  className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                />
+                <span className="ml-1">{option}</span>
+              </label>
+            );
+          })}
+        </div>
+      )}
+
+      {def.kind === 'teamList' && (
+        <TeamListInput
+          value={node.value as string[]}
+          onChange={(teams) => onChange({ ...node, value: teams })}
+        />
+      )}
+    </div>
+  );
+}
+
+function RuleNodeEditor({ node, onChange, onRemove, depth }: RuleNodeEditorProps) {
+  const removeButton = onRemove && (
+    <button type="button" onClick={onRemove} className="text-xs font-medium text-red-600 hover:text-red-700">
+      Remove
+    </button>
+  );
+
+  if (node.type === 'predicate') {
+    return (
+      <div className="flex items-start justify-between gap-3 bg-white border border-gray-200 rounded-md p-2">
+        <PredicateEditor node={node} onChange={onChange} />
+        <div className="flex gap-3 pt-2">
+          <button type="button" onClick={() => onChange({ type: 'not', rule: node })} className={linkButtonClass}>
+            Negate
+          </button>
+          {removeButton}
+        </div>
+      </div>
+    );
+  }
+
+  if (node.type === 'not') {
+    return (
+      <div className="border-l-4 border-red-300 pl-3 space-y-2">
+        <div className="flex items-center justify-between">
+          <span className="text-xs font-semibold text-red-700">NOT</span>
+          <div className="flex gap-3">
+            <button type="button" onClick={() => onChange(node.rule)} className={linkButtonClass}>
+              Remove NOT
+            </button>
+            {removeButton}
+          </div>
+        </div>
+        <RuleNodeEditor
+          node={node.rule}
+          onChange={(rule) => onChange({ ...node, rule })}
+          depth={depth + 1}
+        />
+      </div>
+    );
+  }
+
+  // AND / OR group
+  const updateChild = (index: number, child: RuleNode) => {
+    const rules = [...node.rules];
+    rules[index] = child;
+    onChange({ ...node, rules });
+  };
+
+  const removeChild = (index: number) => {
+    onChange({ ...node, rules: node.rules.filter((_, i) => i !== index) });
+  };
+
+  return (
+    <div className={`rounded-md border p-3 space-y-2 ${depth % 2 === 0 ? 'bg-gray-50 border-gray-200' : 'bg-blue-50 border-blue-100'}`}>
+      <div className="flex items-center justify-between">
+        <div className="flex items-center gap-2">
+          <span className="text-xs text-gray-500">Match</span>
+          <select
+            value={node.type}
+            onChange={(e) => onChange({ ...node, type: e.target.value as 'and' | 'or' })}
+            className={inputClass}
+          >
+            <option value="and">ALL (AND)</option>
+            <option value="or">ANY (OR)</option>
+          </select>
+          <span className="text-xs text-gray-500">of:</span>
+        </div>
+        <div className="flex gap-3">
+          {depth > 0 && (
+            <button type="button" onClick={() => onChange({ type: 'not', rule: node })} className={linkButtonClass}>
+              Negate
+            </button>
+          )}
+          {removeButton}
+        </div>
+      </div>
+
+      {node.rules.length === 0 && (
+        <p className="text-xs text-gray-500 italic">
+          {node.type === 'and' ? 'Empty group matches every game' : 'Empty group matches no games'}
+        </p>
+      )}
+
+      {node.rules.map((child, index) => (
+        <RuleNodeEditor
+          key={index}
+          node={child}
+          onChange={(updated) => updateChild(index, updated)}
+          onRemove={() => removeChild(index)}
+          depth={depth + 1}
+        />
+      ))}
+
+      <div className="flex gap-4 pt-1">
+        <button
+          type="button"
+          onClick={() => onChange({ ...node, rules: [...node.rules, defaultPredicate('spreadEdge')] })}
+          className={linkButtonClass}
+        >
+          + Condition
+        </button>
+        <button
+          type="button"
+          onClick={() => onChange({ ...node, rules: [...node.rules, { type: node.type === 'and' ? 'or' : 'and', rules: [] }] })}
+          className={linkButtonClass}
+        >
+          + Group
+        </button>
+      </div>
+    </div>
+  );
+}
+
+export function RuleBuilder({ value, onChange }: RuleBuilderProps) {
+  return (
+    <div className="space-y-3">
+      <RuleNodeEditor node={value} onChange={onChange} depth={0} />
+      <p className="text-xs text-gray-500">
+        <span className="font-medium">Preview:</span>{' '}
+        <span className="font-mono">{describeRule(value)}</span>
+      </p>
+      <p className="text-xs text-gray-500">
+        Conditions on data a game doesn&apos;t have (e.g. wind without a forecast) never match.
+      </p>
+    </div>
+  );
+}
@@ -5,6 +5,8 @@ import Link from 'next/link';
 import { InfoTooltip } from './InfoTooltip';
 import { ModelViewModeToggle } from './ModelViewModeToggle';
 import { useModelViewMode } from '@/contexts/ModelViewModeContext';
+import { BestBookPrice } from './BestBookPrice';
+import { BestPriceSummary } from '@/lib/book-prices';
 
 /**
  * Terminology:
@@ -33,18 +35,42 @@ interface SlateGame {
   } | null;
   // Advanced columns (optional)
   modelSpread?: number | null;
+  injuryAdjPts?: number | null; // Injury adjustment included in modelSpread (HMA)
+  modelVersion?: string | null; // Registry version that produced modelSpread
   modelTotal?: number | null;
   pickSpread?: string | null;
   pickTotal?: string | null;
+  pickMoneyline?: string | null;
   maxEdge?: number | null;
   confidence?: string | null;
   hasOdds?: boolean; // Indicates if game has any market lines
+  picks?: {
+    spread?: {
+      bestPrice?: BestPriceSummary | null; // Best book for the picked side vs consensus
+    };
+    total?: {
+      bestPrice?: BestPriceSummary | null;
+    };
+    moneyline?: {
+      label: string | null;
+      value: number | null; // EV percent at the offered price
+      grade: string | null;
+      winProb?: number | null;
+      fairPrice?: number | null;
+      bestPrice?: BestPriceSummary | null;
+    };
+  };
 }
 
 interface SearchResult extends SlateGame {
   score: number;
 }
 
+/** Keep a non-default model version when linking to the game page */
+function modelVersionParam(modelVersion: string | null): string {
+  return modelVersion ? `?modelVersion=${encodeURIComponent(modelVersion)}` : '';
+}
+
 interface SlateTableProps {
   season: number;
   week: number;
@@ -52,6 +78,8 @@ interface SlateTableProps {
   showDateHeaders?: boolean;
   showAdvanced?: boolean;
   onAdvancedToggle?: (show: boolean) => void;
+  asOf?: string | null; // Point-in-time replay (ISO timestamp)
+  modelVersion?: string | null; // Registered model version (null = season's active version)
 }
 
 export default function SlateTable({ 
@@ -60,7 +88,9 @@ export default function SlateTable({
   title = `Week ${week} Games`,
   showDateHeaders = true,
   showAdvanced = false,
-  onAdvancedToggle
+  onAdvancedToggle,
+  asOf = null,
+  modelVersion = null
 }: SlateTableProps) {
   const [games, setGames] = useState<SlateGame[]>([]);
   const [loading, setLoading] = useState(true);
@@ -93,7 +123,7 @@ export default function SlateTable({
 
   useEffect(() => {
     fetchSlate();
-  }, [season, week]);
+  }, [season, week, asOf, modelVersion]);
 
   // Handle URL hash for deep linking
   useEffect(() => {
@@ -531,7 +561,9 @@ export default function SlateTable({
     setLoading(true);
     setError(null);
     try {
-      const response = await fetch(`/api/weeks/slate?season=${season}&week=${week}`);
+      const asOfParam = asOf ? `&asOf=${encodeURIComponent(asOf)}` : '';
+      const versionParam = modelVersion ? `&modelVersion=${encodeURIComponent(modelVersion)}` : '';
+      const response = await fetch(`/api/weeks/slate?season=${season}&week=${week}${asOfParam}${versionParam}`);
       if (!response.ok) throw new Error('Failed to fetch slate');
       
       const data = await response.json();
@@ -1232,7 +1264,7 @@ export default function SlateTable({
         style={{ height: '70vh', maxHeight: '70vh' }}
       >
         <div className="w-full overflow-x-auto md:overflow-visible">
-          <table className="min-w-full divide-y divide-gray-200" style={{ minWidth: showAdvancedColumns ? '1400px' : '1100px' }}>
+          <table className="min-w-full divide-y divide-gray-200" style={{ minWidth: showAdvancedColumns ? '1600px' : '1100px' }}>
           <thead className="bg-white/95 backdrop-blur supports-[backdrop-filter]:bg-white/70 sticky top-0 z-10 border-b">
             {/* Row 1: Grouped headers */}
             <tr>
@@ -1248,6 +1280,11 @@ export default function SlateTable({
               <th colSpan={showAdvancedColumns ? (allGamesHaveNullTotals ? 1 : 4) : 1} className="text-center text-xs font-semibold text-slate-500 border-l border-slate-200 px-6 py-2">
                 TOTAL
               </th>
+              {showAdvancedColumns && (
+                <th colSpan={2} className="text-center text-xs font-semibold text-slate-500 border-l border-slate-200 px-6 py-2">
+                  MONEYLINE
+                </th>
+              )}
               <th rowSpan={2} className="px-6 py-3 text-center text-xs font-medium text-gray-500 uppercase tracking-wider min-w-[80px]">
                 Status
               </th>
@@ -1321,6 +1358,19 @@ export default function SlateTable({
                       <InfoTooltip content={modelViewMode === 'raw' ? "Raw model edge (before Trust-Market caps). Higher edge means stronger betting opportunity." : "Total edge (in points), after Trust-Market caps. Higher edge means stronger betting opportunity."} position="bottom" />
                     </div>
                   </th>
+                  {/* MONEYLINE columns */}
+                  <th className="px-6 py-3 text-center text-[11px] font-medium text-slate-500 border-l border-slate-200 min-w-[120px]">
+                    <div className="flex items-center justify-center gap-1">
+                      Pick
+                      <InfoTooltip content="Model's moneyline pick at the listed market price. Only shown when the model's win probability makes the price a positive-EV bet." position="bottom" />
+                    </div>
+                  </th>
+                  <th className="px-6 py-3 text-center text-[11px] font-medium text-slate-500 min-w-[80px]">
+                    <div className="flex items-center justify-center gap-1">
+                      EV
+                      <InfoTooltip content="Expected value per $1 staked at the market price, using the model's win probability from its spread. Market probabilities are de-vigged before comparison." position="bottom" />
+                    </div>
+                  </th>
                   {/* PICKS group columns (already handled above) */}
                   {/* EDGE group columns */}
                   <th className="px-6 py-3 text-center text-[11px] font-medium text-slate-500 border-l border-slate-200 min-w-[80px]">
@@ -1351,7 +1401,7 @@ export default function SlateTable({
                     }}
                     className="bg-white/90 sticky top-[var(--header-height,48px)] z-9 border-b"
                   >
-                    <td colSpan={showAdvancedColumns ? (allGamesHaveNullTotals ? 10 : 13) : 5} className="px-6 py-3 text-sm font-medium text-gray-700">
+                    <td colSpan={showAdvancedColumns ? (allGamesHaveNullTotals ? 12 : 15) : 5} className="px-6 py-3 text-sm font-medium text-gray-700">
                       {dateData.formattedDate}
                     </td>
                   </tr>
@@ -1364,12 +1414,12 @@ export default function SlateTable({
                     key={game.gameId} 
                     id={`game-${game.gameId}`}
                     className={`border-b border-slate-100 transition-colors ${!noOdds ? 'hover:bg-slate-50' : ''} ${noOdds ? 'opacity-40 italic' : ''} cursor-pointer`}
-                    onClick={() => window.location.href = `/game/${game.gameId}`}
+                    onClick={() => window.location.href = `/game/${game.gameId}${modelVersionParam(modelVersion)}`}
                   >
                     <td className={`sticky left-0 z-10 bg-white border-r border-slate-200 px-6 whitespace-nowrap ${compactMode ? 'py-1.5' : 'py-3'}`}>
                       <div className="flex flex-col">
                         <Link
-                          href={`/game/${game.gameId}`}
+                          href={`/game/${game.gameId}${modelVersionParam(modelVersion)}`}
                           className="text-sm font-medium text-slate-900 hover:underline"
                           onClick={(e) => e.stopPropagation()}
                         >
@@ -1415,12 +1465,22 @@ export default function SlateTable({
                           <div className="text-sm text-gray-900">
                             {Number.isFinite(game.modelSpread) ? game.modelSpread!.toFixed(1) : '—'}
                           </div>
+                          {game.injuryAdjPts !== null && game.injuryAdjPts !== undefined && game.injuryAdjPts !== 0 && (
+                            <div className="text-xs text-gray-500" title="Injury adjustment included in the model spread (positive = toward home)">
+                              inj {game.injuryAdjPts > 0 ? '+' : ''}{game.injuryAdjPts.toFixed(1)}
+                            </div>
+                          )}
                         </td>
                         {/* SPREAD: Pick */}
                         <td className={`px-6 whitespace-nowrap text-center ${compactMode ? 'py-1.5' : 'py-3'}`}>
                           <div className="text-sm text-gray-900">
                             {game.pickSpread || '—'}
                           </div>
+                          {game.pickSpread && game.picks?.spread?.bestPrice && (
+                            <div className="mt-0.5">
+                              <BestBookPrice summary={game.picks.spread.bestPrice} compact />
+                            </div>
+                          )}
                         </td>
                         {/* SPREAD: Edge */}
                         <td className={`px-6 whitespace-nowrap text-center ${compactMode ? 'py-1.5' : 'py-3'}`}>
@@ -1478,6 +1538,11 @@ export default function SlateTable({
                             <div className="text-sm text-gray-900">
                               {game.pickTotal || '—'}
                             </div>
+                            {game.pickTotal && game.picks?.total?.bestPrice && (
+                              <div className="mt-0.5">
+                                <BestBookPrice summary={game.picks.total.bestPrice} compact />
+                              </div>
+                            )}
                           </td>
                         )}
                         {/* TOTAL: Edge */}
@@ -1497,6 +1562,36 @@ export default function SlateTable({
                         </td>
                       </>
                     )}
+                    {showAdvancedColumns && (
+                      <>
+                        {/* MONEYLINE: Pick */}
+                        <td className={`px-6 whitespace-nowrap text-center border-l border-slate-200 ${compactMode ? 'py-1.5' : 'py-3'}`}>
+                          <div className="text-sm text-gray-900">
+                            {game.pickMoneyline || '—'}
+                          </div>
+                          {game.picks?.moneyline?.winProb != null && (
+                            <div className="text-xs text-gray-500 mt-0.5">
+                              Win {(game.picks.moneyline.winProb * 100).toFixed(0)}%
+                            </div>
+                          )}
+                          {game.pickMoneyline && game.picks?.moneyline?.bestPrice && (
+                            <div className="mt-0.5">
+                              <BestBookPrice summary={game.picks.moneyline.bestPrice} compact />
+                            </div>
+                          )}
+                        </td>
+                        {/* MONEYLINE: EV */}
+                        <td className={`px-6 whitespace-nowrap text-center ${compactMode ? 'py-1.5' : 'py-3'}`}>
+                          {game.picks?.moneyline?.value != null && Number.isFinite(game.picks.moneyline.value) ? (
+                            <div className="text-sm text-gray-900">
+                              +{game.picks.moneyline.value.toFixed(1)}%
+                            </div>
+                          ) : (
+                            <div className="text-sm text-gray-400">—</div>
+                          )}
+                        </td>
+                      </>
+                    )}
                     <td className={`px-6 whitespace-nowrap text-center ${compactMode ? 'py-1.5' : 'py-3'}`}>
                       {getStatusBadge(game)}
                     </td>
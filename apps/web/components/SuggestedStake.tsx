@@ -0,0 +1,37 @@
+/**
+ * SuggestedStake Component
+ *
+ * Compact display of a bankroll stake suggestion (amount, Kelly %, cap flag)
+ */
+
+import { StakeSuggestion } from '@/lib/bankroll';
+
+interface SuggestedStakeProps {
+  suggestion: StakeSuggestion | null;
+}
+
+export function SuggestedStake({ suggestion }: SuggestedStakeProps) {
+  if (!suggestion) {
+    return <span className="text-gray-400">—</span>;
+  }
+
+  if (suggestion.stake <= 0) {
+    return (
+      <span className="text-xs text-gray-500" title={suggestion.reason || undefined}>
+        Pass{suggestion.reason ? ` (${suggestion.reason})` : ''}
+      </span>
+    );
+  }
+
+  return (
+    <span className="inline-flex items-baseline gap-1">
+      <span className="font-medium text-gray-900">${suggestion.stake.toFixed(2)}</span>
+      {suggestion.kelly !== null && (
+        <span className="text-xs text-gray-500">Kelly {(suggestion.kelly * 100).toFixed(1)}%</span>
+      )}
+      {suggestion.capped && (
+        <span className="text-xs font-medium text-orange-600" title="Reduced to the bankroll's max stake">capped</span>
+      )}
+    </span>
+  );
+}
@@ -0,0 +1,260 @@
+/**
+ * WalkForwardBacktest Component
+ *
+ * Runs (or loads the latest) walk-forward backtest for a ruleset and renders
+ * the bankroll curve, drawdown and per-week results.
+ */
+
+'use client';
+
+import { useState, useEffect } from 'react';
+import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer } from 'recharts';
+
+interface RulesetOption {
+  id: string;
+  name: string;
+}
+
+interface BacktestWeekRow {
+  season: number;
+  week: number;
+  cutoff: string;
+  bets: number;
+  wins: number;
+  losses: number;
+  pushes: number;
+  staked: number;
+  pnl: number;
+  bankroll: number;
+  drawdown: number;
+}
+
+interface BacktestRun {
+  id: string;
+  rulesetName: string | null;
+  createdAt: string;
+  initialBankroll: number;
+  summary: {
+    totalBets: number;
+    winRate: number;
+    roi: number;
+    clv: number;
+    finalBankroll: number;
+    maxDrawdown: number;
+  };
+  weeks: BacktestWeekRow[];
+}
+
+const inputClass = 'rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 text-sm';
+
+export function WalkForwardBacktest() {
+  const currentYear = new Date().getFullYear();
+  const [rulesets, setRulesets] = useState<RulesetOption[]>([]);
+  const [rulesetId, setRulesetId] = useState('');
+  const [startSeason, setStartSeason] = useState(currentYear - 1);
+  const [endSeason, setEndSeason] = useState(currentYear - 1);
+  const [initialBankroll, setInitialBankroll] = useState(10000);
+  const [stake, setStake] = useState(100);
+  const [run, setRun] = useState<BacktestRun | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    fetch('/api/strategies/rulesets')
+      .then(res => res.json())
+      .then(data => {
+        if (data.success) {
+          setRulesets(data.rulesets);
+          if (data.rulesets.length > 0) setRulesetId(data.rulesets[0].id);
+        }
+      })
+      .catch(() => setError('Failed to load rulesets'));
+  }, []);
+
+  // Show the latest persisted backtest for the selected ruleset, if any
+  useEffect(() => {
+    if (!rulesetId) return;
+    setRun(null);
+    setError('');
+    fetch(`/api/strategies/${rulesetId}/backtest`)
+      .then(res => res.json())
+      .then(data => {
+        if (data.success) setRun(data.run);
+      })
+      .catch(() => setError('Failed to load backtest'));
+  }, [rulesetId]);
+
+  const handleRun = async () => {
+    setLoading(true);
+    setError('');
+    try {
+      const response = await fetch(`/api/strategies/${rulesetId}/backtest`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ startSeason, endSeason, initialBankroll, stake }),
+      });
+      const data = await response.json();
+      if (data.success) {
+        setRun(data.run);
+      } else {
+        setError(data.error || 'Backtest failed');
+      }
+    } catch (err) {
+      setError('Backtest failed');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const chartData = run
+    ? [
+        { label: 'Start', bankroll: run.initialBankroll, drawdown: 0 },
+        ...run.weeks.map(w => ({ label: `${w.season} W${w.week}`, bankroll: w.bankroll, drawdown: w.drawdown })),
+      ]
+    : [];
+
+  return (
+    <div className="bg-white rounded-lg shadow p-6 mb-8">
+      <h2 className="text-lg font-semibold text-gray-900 mb-1">Walk-Forward Backtest</h2>
+      <p className="text-xs text-gray-500 mb-4">
+        Replays a ruleset week by week, each week frozen at its first kickoff - only ratings, projections and lines that existed then are used.
+        Flat stakes; spreads and totals at -110.
+      </p>
+
+      <div className="flex flex-wrap items-end gap-4 mb-4">
+        <label className="text-sm text-gray-700">
+          <span className="block mb-1">Ruleset</span>
+          <select value={rulesetId} onChange={(e) => setRulesetId(e.target.value)} className={inputClass}>
+            {rulesets.map(r => (
+              <option key={r.id} value={r.id}>{r.name}</option>
+            ))}
+          </select>
+        </label>
+        <label className="text-sm text-gray-700">
+          <span className="block mb-1">From season</span>
+          <input type="number" value={startSeason} onChange={(e) => setStartSeason(parseInt(e.target.value) || currentYear)} className={`${inputClass} w-24`} />
+        </label>
+        <label className="text-sm text-gray-700">
+          <span className="block mb-1">To season</span>
+          <input type="number" value={endSeason} onChange={(e) => setEndSeason(parseInt(e.target.value) || currentYear)} className={`${inputClass} w-24`} />
+        </label>
+        <label className="text-sm text-gray-700">
+          <span className="block mb-1">Bankroll</span>
+          <input type="number" value={initialBankroll} onChange={(e) => setInitialBankroll(parseFloat(e.target.value) || 0)} className={`${inputClass} w-28`} />
+        </label>
+        <label className="text-sm text-gray-700">
+          <span className="block mb-1">Stake / bet</span>
+          <input type="number" value={stake} onChange={(e) => setStake(parseFloat(e.target.value) || 0)} className={`${inputClass} w-24`} />
+        </label>
+        <button
+          onClick={handleRun}
+          disabled={!rulesetId || loading}
+          className="inline-flex items-center px-4 py-2 bg-blue-600 text-white rounded hover:bg-blue-700 text-sm font-medium disabled:opacity-50"
+        >
+          {loading ? 'Running...' : 'Run Backtest'}
+        </button>
+      </div>
+
+      {error && <p className="text-sm text-red-600 mb-4">{error}</p>}
+
+      {run && (
+        <>
+          <p className="text-xs text-gray-500 mb-3">
+            {run.rulesetName} - run {new Date(run.createdAt).toLocaleString()}
+          </p>
+
+          <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-6 gap-4 mb-6">
+            <div className="bg-gray-50 rounded-lg p-4">
+              <div className="text-2xl font-bold text-blue-600">{run.summary.totalBets}</div>
+              <div className="text-xs text-gray-600">Total Bets</div>
+            </div>
+            <div className="bg-gray-50 rounded-lg p-4">
+              <div className="text-2xl font-bold text-green-600">{(run.summary.winRate * 100).toFixed(1)}%</div>
+              <div className="text-xs text-gray-600">Win Rate</div>
+            </div>
+            <div className="bg-gray-50 rounded-lg p-4">
+              <div className={`text-2xl font-bold ${run.summary.roi >= 0 ? 'text-green-600' : 'text-red-600'}`}>
+                {run.summary.roi >= 0 ? '+' : ''}{(run.summary.roi * 100).toFixed(1)}%
+              </div>
+              <div className="text-xs text-gray-600">ROI</div>
+            </div>
+            <div className="bg-gray-50 rounded-lg p-4">
+              <div className="text-2xl font-bold text-blue-600">
+                {run.summary.clv >= 0 ? '+' : ''}{run.summary.clv.toFixed(2)}
+              </div>
+              <div className="text-xs text-gray-600">Avg CLV (pts)</div>
+            </div>
+            <div className="bg-gray-50 rounded-lg p-4">
+              <div className="text-2xl font-bold text-gray-900">{run.summary.finalBankroll.toFixed(0)}</div>
+              <div className="text-xs text-gray-600">Final Bankroll</div>
+            </div>
+            <div className="bg-gray-50 rounded-lg p-4">
+              <div className="text-2xl font-bold text-red-600">{run.summary.maxDrawdown.toFixed(0)}</div>
+              <div className="text-xs text-gray-600">Max DD</div>
+            </div>
+          </div>
+
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-8 mb-6">
+            <div>
+              <h3 className="text-sm font-semibold text-gray-900 mb-2">Equity Curve</h3>
+              <ResponsiveContainer width="100%" height={260}>
+                <LineChart data={chartData}>
+                  <CartesianGrid strokeDasharray="3 3" />
+                  <XAxis dataKey="label" tick={{ fontSize: 10 }} />
+                  <YAxis />
+                  <Tooltip />
+                  <Legend />
+                  <Line type="monotone" dataKey="bankroll" stroke="#2563eb" strokeWidth={2} dot={false} />
+                </LineChart>
+              </ResponsiveContainer>
+            </div>
+            <div>
+              <h3 className="text-sm font-semibold text-gray-900 mb-2">Drawdown</h3>
+              <ResponsiveContainer width="100%" height={260}>
+                <LineChart data={chartData}>
+                  <CartesianGrid strokeDasharray="3 3" />
+                  <XAxis dataKey="label" tick={{ fontSize: 10 }} />
+                  <YAxis />
+                  <Tooltip />
+                  <Legend />
+                  <Line type="monotone" dataKey="drawdown" stroke="#dc2626" strokeWidth={2} dot={false} />
+                </LineChart>
+              </ResponsiveContainer>
+            </div>
+          </div>
+
+          <div className="overflow-x-auto">
+            <table className="min-w-full divide-y divide-gray-200">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Week</th>
+                  <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Cutoff</th>
+                  <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase">Bets</th>
+                  <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase">W-L-P</th>
+                  <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase">P/L</th>
+                  <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase">Bankroll</th>
+                  <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase">Drawdown</th>
+                </tr>
+              </thead>
+              <tbody className="bg-white divide-y divide-gray-200">
+                {run.weeks.map(w => (
+                  <tr key={`${w.season}-${w.week}`} className="hover:bg-gray-50">
+                    <td className="px-4 py-2 text-sm text-gray-900">{w.season} W{w.week}</td>
+                    <td className="px-4 py-2 text-sm text-gray-500">{new Date(w.cutoff).toLocaleDateString()}</td>
+                    <td className="px-4 py-2 text-sm text-right text-gray-900">{w.bets}</td>
+                    <td className="px-4 py-2 text-sm text-right text-gray-900">{w.wins}-{w.losses}-{w.pushes}</td>
+                    <td className={`px-4 py-2 text-sm text-right font-medium ${w.pnl >= 0 ? 'text-green-600' : 'text-red-600'}`}>
+                      {w.pnl >= 0 ? '+' : ''}{w.pnl.toFixed(2)}
+                    </td>
+                    <td className="px-4 py-2 text-sm text-right text-gray-900">{w.bankroll.toFixed(2)}</td>
+                    <td className="px-4 py-2 text-sm text-right text-red-600">{w.drawdown > 0 ? w.drawdown.toFixed(2) : '-'}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
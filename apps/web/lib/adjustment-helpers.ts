@@ -1,10 +1,12 @@
 /**
  * M6 Lite Adjustments
  * 
- * Server-side heuristics for injuries and weather impact on spreads/totals.
- * No external APIs yet - using mock inputs for demonstration.
+ * Server-side adjustments for injuries and weather impact on spreads/totals.
+ * Injuries come from Injury rows scored by injury-impact.ts; weather is still mock input.
  */
 
+import { InjuryReport, computeInjuryAdjustment } from './injury-impact';
+
 // Confidence tier thresholds (M6 tuned)
 export const CONFIDENCE_THRESHOLDS = {
   A: 3.5,
@@ -12,12 +14,6 @@ export const CONFIDENCE_THRESHOLDS = {
   C: 1.5,
 };
 
-export interface InjuryInput {
-  teamId: string;
-  type: 'QB' | 'OL' | 'DL' | 'WR' | 'RB' | 'DB';
-  severity: 'out' | 'questionable' | 'probable';
-}
-
 export interface WeatherInput {
   windMph: number;
   precipitation: 'none' | 'rain' | 'snow';
@@ -36,56 +32,15 @@ export interface AdjustmentResult {
 
 /**
  * Calculate injury adjustments to spread
- * Negative value = disadvantage to the injured team
+ * Negative value = disadvantage to the home team (HMA)
  */
 export function calculateInjuryAdjustment(
   homeTeamId: string,
   awayTeamId: string,
-  injuries: InjuryInput[]
+  injuries: InjuryReport[]
 ): { spreadAdj: number; breakdown: string[] } {
-  let spreadAdj = 0;
-  const breakdown: string[] = [];
-
-  for (const injury of injuries) {
-    let impact = 0;
-    const isHomeTeam = injury.teamId === homeTeamId;
-    const teamLabel = isHomeTeam ? 'Home' : 'Away';
-
-    // Severity multiplier
-    const severityMultiplier = injury.severity === 'out' ? 1.0 : 
-                              injury.severity === 'questionable' ? 0.5 : 0.25;
-
-    // Position-based impact
-    switch (injury.type) {
-      case 'QB':
-        impact = -2.5 * severityMultiplier;
-        breakdown.push(`${teamLabel} ${injury.type} ${injury.severity}: ${impact.toFixed(1)} pts`);
-        break;
-      case 'OL':
-      case 'DL':
-        impact = -1.0 * severityMultiplier;
-        breakdown.push(`${teamLabel} ${injury.type} ${injury.severity}: ${impact.toFixed(1)} pts`);
-        break;
-      case 'WR':
-      case 'RB':
-        impact = -0.75 * severityMultiplier;
-        breakdown.push(`${teamLabel} ${injury.type} ${injury.severity}: ${impact.toFixed(1)} pts`);
-        break;
-      case 'DB':
-        impact = -0.5 * severityMultiplier;
-        breakdown.push(`${teamLabel} ${injury.type} ${injury.severity}: ${impact.toFixed(1)} pts`);
-        break;
-    }
-
-    // Apply to spread (home perspective)
-    if (isHomeTeam) {
-      spreadAdj += impact; // negative impact to home = more positive spread
-    } else {
-      spreadAdj -= impact; // negative impact to away = more negative spread
-    }
-  }
-
-  return { spreadAdj, breakdown };
+  const adjustment = computeInjuryAdjustment(homeTeamId, awayTeamId, injuries);
+  return { spreadAdj: adjustment.injuryAdjPts, breakdown: adjustment.breakdown };
 }
 
 /**
@@ -142,7 +97,7 @@ export function applyAdjustments(
   baseTotal: number,
   homeTeamId: string,
   awayTeamId: string,
-  injuries: InjuryInput[],
+  injuries: InjuryReport[],
   weather: WeatherInput | null,
   homeTeamStyle: 'pass' | 'run' | 'balanced' = 'balanced',
   awayTeamStyle: 'pass' | 'run' | 'balanced' = 'balanced'
@@ -200,27 +155,6 @@ export function calculateConfidenceTier(edge: number): 'A' | 'B' | 'C' {
   return 'C';
 }
 
-/**
- * Mock injury data for demonstration
- */
-export function getMockInjuries(gameId: string): InjuryInput[] {
-  // Mock injuries for specific games
-  const mockData: Record<string, InjuryInput[]> = {
-    'game-1': [
-      { teamId: 'alabama', type: 'QB', severity: 'questionable' },
-    ],
-    'game-2': [
-      { teamId: 'ohio-state', type: 'OL', severity: 'out' },
-      { teamId: 'ohio-state', type: 'OL', severity: 'out' },
-    ],
-    'game-3': [
-      { teamId: 'clemson', type: 'WR', severity: 'out' },
-    ],
-  };
-
-  return mockData[gameId] || [];
-}
-
 /**
  * Mock weather data for demonstration
  */
@@ -0,0 +1,21 @@
+/**
+ * Admin Auth
+ *
+ * Admin endpoints accept an x-admin-secret header matching the ADMIN_SECRET env
+ * var. getPrincipal() in auth-context.ts uses this check to authenticate the
+ * secret as the admin role, next to sessions and API tokens.
+ */
+
+import { NextRequest } from 'next/server';
+import { secretsEqual } from './auth';
+
+export function checkAdminSecret(request: NextRequest): boolean {
+  const adminSecret = process.env.ADMIN_SECRET;
+  if (!adminSecret) {
+    console.error('ADMIN_SECRET environment variable not set');
+    return false;
+  }
+
+  const providedSecret = request.headers.get('x-admin-secret');
+  return secretsEqual(providedSecret, adminSecret);
+}
@@ -0,0 +1,112 @@
+/**
+ * Line Alert Rules
+ *
+ * Validation and labels for AlertRule rows. Evaluation lives in the jobs app
+ * (apps/jobs/src/alerts), which runs after each odds ingest.
+ */
+
+export type AlertRuleType = 'key_number' | 'line_move' | 'against_bet';
+
+export const ALERT_RULE_TYPES: AlertRuleType[] = ['key_number', 'line_move', 'against_bet'];
+
+export const ALERT_RULE_TYPE_LABELS: Record<AlertRuleType, string> = {
+  key_number: 'Crosses key number',
+  line_move: 'Moves from open',
+  against_bet: 'Moves against open bet',
+};
+
+export const DEFAULT_KEY_NUMBERS = [3, 7, 10];
+
+export interface AlertRuleInput {
+  name: string;
+  type: AlertRuleType;
+  marketType: 'spread' | 'total' | null;
+  threshold: number | null;
+  keyNumbers: number[] | null;
+  bookName: string | null;
+  enabled: boolean;
+  notify: boolean;
+}
+
+/**
+ * Validate a create/update payload for an alert rule
+ */
+export function validateAlertRuleInput(
+  raw: any
+): { valid: true; data: AlertRuleInput } | { valid: false; errors: string[] } {
+  const errors: string[] = [];
+
+  const name = typeof raw?.name === 'string' ? raw.name.trim() : '';
+  const type = raw?.type as AlertRuleType;
+  const marketType = raw?.marketType === 'spread' || raw?.marketType === 'total' ? raw.marketType : null;
+  const threshold = raw?.threshold === null || raw?.threshold === undefined || raw?.threshold === '' ? null : Number(raw.threshold);
+  const bookName = typeof raw?.bookName === 'string' && raw.bookName.trim() ? raw.bookName.trim() : null;
+
+  let keyNumbers: number[] | null = null;
+  if (type === 'key_number') {
+    const list = Array.isArray(raw?.keyNumbers)
+      ? raw.keyNumbers
+      : typeof raw?.keyNumbers === 'string'
+        ? raw.keyNumbers.split(',')
+        : DEFAULT_KEY_NUMBERS;
+    keyNumbers = list.map((n: any) => Number(typeof n === 'string' ? n.trim() : n));
+    if (keyNumbers!.length === 0 || keyNumbers!.some(n => !(n > 0))) {
+      errors.push('Key numbers must be a list of positive numbers');
+    }
+  }
+
+  if (!name) errors.push('Name is required');
+  if (!ALERT_RULE_TYPES.includes(type)) {
+    errors.push(`Type must be one of: ${ALERT_RULE_TYPES.join(', ')}`);
+  }
+  if (raw?.marketType && !marketType) {
+    errors.push('Market type must be spread or total (or empty for both)');
+  }
+  if ((type === 'line_move' || type === 'against_bet') && !(threshold !== null && threshold > 0)) {
+    errors.push('Threshold must be a positive number of points');
+  }
+
+  if (errors.length > 0) {
+    return { valid: false, errors };
+  }
+
+  return {
+    valid: true,
+    data: {
+      name,
+      type,
+      marketType,
+      threshold: type === 'key_number' ? null : threshold,
+      keyNumbers,
+      bookName,
+      enabled: raw?.enabled !== false,
+      notify: raw?.notify !== false,
+    },
+  };
+}
+
+/**
+ * Short description of what a rule fires on
+ */
+export function describeAlertRule(rule: {
+  type: string;
+  marketType: string | null;
+  threshold: number | null;
+  keyNumbers: unknown;
+  bookName: string | null;
+}): string {
+  const market = rule.marketType ? `${rule.marketType}s` : 'spreads and totals';
+  const book = rule.bookName ? ` at ${rule.bookName}` : '';
+  switch (rule.type) {
+    case 'key_number': {
+      const keys = Array.isArray(rule.keyNumbers) ? rule.keyNumbers : DEFAULT_KEY_NUMBERS;
+      return `${market} crossing ${keys.join(', ')}${book}`;
+    }
+    case 'line_move':
+      return `${market} moving more than ${rule.threshold} pts from open${book}`;
+    case 'against_bet':
+      return `${market} moving more than ${rule.threshold} pts against an open bet${book}`;
+    default:
+      return rule.type;
+  }
+}
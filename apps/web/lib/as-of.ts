@@ -0,0 +1,66 @@
+/**
+ * As-Of (Point-in-Time) Helpers
+ *
+ * Builds Prisma filters that restrict reads to rows that existed at a given moment,
+ * so the slate pipeline can be replayed exactly as it looked at that time.
+ *
+ * Rules:
+ * - Append-only rows (MarketLine, PowerRating, Bet): createdAt ≤ asOf
+ *   (MarketLine additionally requires timestamp ≤ asOf)
+ * - TeamSeasonRating, TeamUnitGrades, Injury, MatchupOutput: updated in place by
+ *   every run, so replays read their append-only snapshot tables instead
+ *   (rating-snapshots-context.ts, injury-context.ts, matchup-output-context.ts)
+ * - Other upserted-in-place rows (HfaSeasonParams, TeamGameStat): updatedAt ≤ asOf
+ *
+ * Every helper returns an empty filter when asOf is null, so callers can spread
+ * the result into an existing where clause unconditionally.
+ */
+
+/**
+ * Parse the `asOf` query parameter
+ *
+ * @param raw - Raw query string value (ISO timestamp or YYYY-MM-DD)
+ * @returns Parsed date (null if absent) or an error message if unparseable
+ *
+ * @example
+ * parseAsOf('2025-10-23T23:00:00Z') // { asOf: Date(2025-10-23T23:00:00Z), error: null }
+ * parseAsOf(null)                   // { asOf: null, error: null }
+ * parseAsOf('thursday')             // { asOf: null, error: 'Invalid asOf parameter: thursday' }
+ */
+export function parseAsOf(raw: string | null | undefined): { asOf: Date | null; error: string | null } {
+  if (raw === null || raw === undefined || raw.trim() === '') {
+    return { asOf: null, error: null };
+  }
+
+  const asOf = new Date(raw);
+  if (Number.isNaN(asOf.getTime())) {
+    return { asOf: null, error: `Invalid asOf parameter: ${raw}` };
+  }
+
+  return { asOf, error: null };
+}
+
+/**
+ * Filter for append-only rows (PowerRating, Bet)
+ */
+export function createdAsOf(asOf: Date | null): { createdAt?: { lte: Date } } {
+  return asOf ? { createdAt: { lte: asOf } } : {};
+}
+
+/**
+ * Filter for rows that are upserted in place (HfaSeasonParams, TeamGameStat)
+ *
+ * A row updated after asOf is treated as missing. Ratings, unit grades, injuries
+ * and matchup outputs are rewritten every run, so they are replayed from
+ * snapshots instead.
+ */
+export function updatedAsOf(asOf: Date | null): { updatedAt?: { lte: Date } } {
+  return asOf ? { updatedAt: { lte: asOf } } : {};
+}
+
+/**
+ * Filter for MarketLine rows: the quote must be timestamped and ingested by asOf
+ */
+export function marketLineAsOf(asOf: Date | null): { timestamp?: { lte: Date }; createdAt?: { lte: Date } } {
+  return asOf ? { timestamp: { lte: asOf }, createdAt: { lte: asOf } } : {};
+}
@@ -0,0 +1,366 @@
+/**
+ * Auth Context Loader
+ *
+ * Database side of auth (auth.ts): resolves the caller of a request from its
+ * session cookie, API token or admin secret, enforces role checks for routes,
+ * and keeps users, sessions, API tokens and the admin audit trail.
+ *
+ * Routes guard themselves with:
+ *
+ *   const auth = await authorize(request, 'admin');
+ *   if (!auth.ok) return auth.response;
+ *
+ * and admin routes record what they did with recordAudit(). Denied admin
+ * requests are recorded by authorize().
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from './prisma';
+import { checkAdminSecret } from './admin-auth';
+import {
+  Principal,
+  Role,
+  SESSION_COOKIE,
+  SESSION_TTL_DAYS,
+  generateApiToken,
+  generateSessionToken,
+  hasRole,
+  hashPassword,
+  hashToken,
+  isRole,
+  isSameOrigin,
+  normalizeEmail,
+  parseBearerToken,
+  verifyPassword,
+} from './auth';
+
+export interface UserSummary {
+  id: string;
+  email: string;
+  name: string | null;
+  role: Role;
+  disabled: boolean;
+  lastLoginAt: string | null;
+  createdAt: string;
+}
+
+export interface ApiTokenSummary {
+  id: string;
+  name: string;
+  prefix: string;
+  lastUsedAt: string | null;
+  expiresAt: string | null;
+  revokedAt: string | null;
+  createdAt: string;
+}
+
+export interface AuditLogEntry {
+  id: string;
+  actor: string;
+  via: string;
+  action: string;
+  status: string;
+  method: string;
+  path: string;
+  target: string | null;
+  details: unknown;
+  ip: string | null;
+  createdAt: string;
+}
+
+export type AuthResult =
+  | { ok: true; principal: Principal }
+  | { ok: false; response: NextResponse };
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function iso(date: Date | null): string | null {
+  return date ? date.toISOString() : null;
+}
+
+function toUserSummary(row: any): UserSummary {
+  return {
+    id: row.id,
+    email: row.email,
+    name: row.name,
+    role: isRole(row.role) ? row.role : 'viewer',
+    disabled: row.disabledAt !== null,
+    lastLoginAt: iso(row.lastLoginAt),
+    createdAt: row.createdAt.toISOString(),
+  };
+}
+
+function toTokenSummary(row: any): ApiTokenSummary {
+  return {
+    id: row.id,
+    name: row.name,
+    prefix: row.prefix,
+    lastUsedAt: iso(row.lastUsedAt),
+    expiresAt: iso(row.expiresAt),
+    revokedAt: iso(row.revokedAt),
+    createdAt: row.createdAt.toISOString(),
+  };
+}
+
+function userPrincipal(user: any, via: Principal['via']): Principal | null {
+  if (!user || user.disabledAt || !isRole(user.role)) return null;
+  return { userId: user.id, actor: user.email, role: user.role, via };
+}
+
+function clientIp(request: NextRequest): string | null {
+  return request.headers.get('x-forwarded-for')?.split(',')[0].trim() || request.ip || null;
+}
+
+/**
+ * Caller of a request: API token, then admin secret, then session cookie;
+ * null when none is valid
+ */
+export async function getPrincipal(request: NextRequest): Promise<Principal | null> {
+  const bearer = parseBearerToken(request.headers.get('authorization'));
+  if (bearer) {
+    const token = await prisma.apiToken.findUnique({ where: { tokenHash: hashToken(bearer) }, include: { user: true } });
+    if (!token || token.revokedAt || (token.expiresAt && token.expiresAt.getTime() < Date.now())) return null;
+    await prisma.apiToken.update({ where: { id: token.id }, data: { lastUsedAt: new Date() } });
+    return userPrincipal(token.user, 'token');
+  }
+
+  if (request.headers.get('x-admin-secret')) {
+    return checkAdminSecret(request) ? { userId: null, actor: 'admin-secret', role: 'admin', via: 'secret' } : null;
+  }
+
+  const sessionToken = request.cookies.get(SESSION_COOKIE)?.value;
+  if (sessionToken) {
+    const session = await prisma.userSession.findUnique({ where: { tokenHash: hashToken(sessionToken) }, include: { user: true } });
+    if (!session || session.expiresAt.getTime() < Date.now()) return null;
+    return userPrincipal(session.user, 'session');
+  }
+  return null;
+}
+
+/**
+ * Role check for a route (see header). 401 without valid credentials, 403 when
+ * the role is too low or a cookie-authenticated write comes from another site.
+ */
+export async function authorize(request: NextRequest, role: Role): Promise<AuthResult> {
+  const principal = await getPrincipal(request);
+  const deny = async (status: number, error: string): Promise<AuthResult> => {
+    if (role === 'admin') {
+      await recordAudit(request, principal, { action: `${request.method} ${request.nextUrl.pathname}`, status: 'denied' });
+    }
+    return { ok: false, response: NextResponse.json({ success: false, error }, { status }) };
+  };
+
+  if (!principal) return deny(401, 'Authentication required');
+  if (!hasRole(principal.role, role)) return deny(403, `Requires the ${role} role`);
+  if (
+    principal.via === 'session' &&
+    request.method !== 'GET' &&
+    !isSameOrigin(request.headers.get('origin'), request.headers.get('host'))
+  ) {
+    return deny(403, 'Cross-site request rejected');
+  }
+  return { ok: true, principal };
+}
+
+/**
+ * Audit trail entry for an admin action (an error, for failed actions, is kept
+ * in details.error); logged, never thrown, on failure
+ */
+export async function recordAudit(
+  request: NextRequest,
+  principal: Principal | null,
+  entry: {
+    action: string;
+    status: 'success' | 'failed' | 'denied';
+    target?: string | null;
+    details?: Record<string, unknown>;
+    error?: unknown;
+  }
+): Promise<void> {
+  const details = entry.error === undefined
+    ? entry.details
+    : { ...entry.details, error: entry.error instanceof Error ? entry.error.message : String(entry.error) };
+  try {
+    await prisma.auditLog.create({
+      data: {
+        userId: principal?.userId ?? null,
+        actor: principal?.actor ?? 'anonymous',
+        via: principal?.via ?? 'none',
+        action: entry.action,
+        status: entry.status,
+        method: request.method,
+        path: request.nextUrl.pathname,
+        target: entry.target ?? null,
+        details: details === undefined ? undefined : (details as any),
+        ip: clientIp(request),
+      },
+    });
+  } catch (error) {
+    console.warn('[AUDIT] Failed to record audit entry:', error);
+  }
+}
+
+export async function getAuditLog(options: { limit?: number; action?: string; userId?: string } = {}): Promise<AuditLogEntry[]> {
+  const rows = await prisma.auditLog.findMany({
+    where: {
+      ...(options.action ? { action: options.action } : {}),
+      ...(options.userId ? { userId: options.userId } : {}),
+    },
+    orderBy: { createdAt: 'desc' },
+    take: options.limit ?? 200,
+  });
+  return rows.map((row: any) => ({
+    id: row.id,
+    actor: row.actor,
+    via: row.via,
+    action: row.action,
+    status: row.status,
+    method: row.method,
+    path: row.path,
+    target: row.target,
+    details: row.details,
+    ip: row.ip,
+    createdAt: row.createdAt.toISOString(),
+  }));
+}
+
+// --- Sessions -------------------------------------------------------------
+
+/**
+ * Check a password and open a session. Returns null for an unknown or disabled
+ * user or a wrong password.
+ */
+export async function login(
+  email: string,
+  password: string,
+  userAgent: string | null
+): Promise<{ user: UserSummary; token: string; expiresAt: Date } | null> {
+  const user = await prisma.user.findUnique({ where: { email: normalizeEmail(email) } });
+  if (!user || user.disabledAt || !verifyPassword(password, user.passwordHash)) return null;
+
+  const token = generateSessionToken();
+  const expiresAt = new Date(Date.now() + SESSION_TTL_DAYS * DAY_MS);
+  const now = new Date();
+  const [, , updated] = await prisma.$transaction([
+    prisma.userSession.deleteMany({ where: { userId: user.id, expiresAt: { lt: now } } }),
+    prisma.userSession.create({ data: { userId: user.id, tokenHash: hashToken(token), userAgent, expiresAt } }),
+    prisma.user.update({ where: { id: user.id }, data: { lastLoginAt: now } }),
+  ]);
+  return { user: toUserSummary(updated), token, expiresAt };
+}
+
+export async function logout(request: NextRequest): Promise<void> {
+  const token = request.cookies.get(SESSION_COOKIE)?.value;
+  if (token) await prisma.userSession.deleteMany({ where: { tokenHash: hashToken(token) } });
+}
+
+/**
+ * Cookie options for the session cookie
+ */
+export function sessionCookieOptions(expiresAt: Date) {
+  return {
+    httpOnly: true,
+    sameSite: 'lax' as const,
+    secure: process.env.NODE_ENV === 'production',
+    path: '/',
+    expires: expiresAt,
+  };
+}
+
+export async function getUser(id: string): Promise<UserSummary | null> {
+  const user = await prisma.user.findUnique({ where: { id } });
+  return user ? toUserSummary(user) : null;
+}
+
+// --- API tokens -----------------------------------------------------------
+
+/**
+ * Create a token for a user; the plain token is only returned here
+ */
+export async function createApiToken(
+  userId: string,
+  name: string,
+  expiresInDays: number | null = null
+): Promise<{ token: string; apiToken: ApiTokenSummary }> {
+  const { token, prefix } = generateApiToken();
+  const row = await prisma.apiToken.create({
+    data: {
+      userId,
+      name,
+      prefix,
+      tokenHash: hashToken(token),
+      expiresAt: expiresInDays ? new Date(Date.now() + expiresInDays * DAY_MS) : null,
+    },
+  });
+  return { token, apiToken: toTokenSummary(row) };
+}
+
+export async function listApiTokens(userId: string): Promise<ApiTokenSummary[]> {
+  const rows = await prisma.apiToken.findMany({ where: { userId }, orderBy: { createdAt: 'desc' } });
+  return rows.map(toTokenSummary);
+}
+
+/**
+ * Revoke one of a user's tokens. Returns false when the user has no such token.
+ */
+export async function revokeApiToken(userId: string, id: string): Promise<boolean> {
+  const { count } = await prisma.apiToken.updateMany({
+    where: { id, userId, revokedAt: null },
+    data: { revokedAt: new Date() },
+  });
+  return count > 0;
+}
+
+// --- Users ----------------------------------------------------------------
+
+export async function listUsers(): Promise<UserSummary[]> {
+  const rows = await prisma.user.findMany({ orderBy: { email: 'asc' } });
+  return rows.map(toUserSummary);
+}
+
+/**
+ * Create a user. Returns null when the email is taken.
+ */
+export async function createUser(input: {
+  email: string;
+  name?: string | null;
+  role: Role;
+  password?: string | null;
+}): Promise<UserSummary | null> {
+  const email = normalizeEmail(input.email);
+  const existing = await prisma.user.findUnique({ where: { email }, select: { id: true } });
+  if (existing) return null;
+  const row = await prisma.user.create({
+    data: {
+      email,
+      name: input.name?.trim() || null,
+      role: input.role,
+      passwordHash: input.password ? hashPassword(input.password) : null,
+    },
+  });
+  return toUserSummary(row);
+}
+
+/**
+ * Change a user's role, password or disabled flag. Disabling (or a password
+ * change) ends the user's sessions. Returns null when the user does not exist.
+ */
+export async function updateUser(
+  id: string,
+  changes: { role?: Role; disabled?: boolean; password?: string; name?: string | null }
+): Promise<UserSummary | null> {
+  const existing = await prisma.user.findUnique({ where: { id }, select: { id: true } });
+  if (!existing) return null;
+
+  const data: Record<string, unknown> = {};
+  if (changes.role !== undefined) data.role = changes.role;
+  if (changes.name !== undefined) data.name = changes.name?.trim() || null;
+  if (changes.disabled !== undefined) data.disabledAt = changes.disabled ? new Date() : null;
+  if (changes.password !== undefined) data.passwordHash = hashPassword(changes.password);
+
+  const row = await prisma.user.update({ where: { id }, data });
+  if (changes.disabled === true || changes.password !== undefined) {
+    await prisma.userSession.deleteMany({ where: { userId: id } });
+  }
+  return toUserSummary(row);
+}
@@ -0,0 +1,134 @@
+/**
+ * Auth
+ *
+ * Roles, password hashing and token helpers shared by the auth routes and the
+ * role checks in auth-context.ts.
+ *
+ * Roles are ordered: viewer < bettor < admin. A role check passes for that role
+ * or any above it.
+ * - viewer: signed-in reader (read routes stay public)
+ * - bettor: records bets, bankrolls, alert rules, rulesets and strategy runs
+ * - admin:  grading, score sync, bet seeding, team aliases, users;
+ *           every admin action is written to the audit trail
+ *
+ * Credentials:
+ * - Sessions (UI): random token in an httpOnly cookie, stored as a sha256 hash
+ * - API tokens (scripts): `Authorization: Bearer ge_…`, stored as a sha256 hash;
+ *   the plain token is shown once when it is created
+ * - x-admin-secret: the ADMIN_SECRET env var still authenticates as admin, for
+ *   callers that predate API tokens
+ * - Passwords: scrypt with a per-user salt
+ */
+
+import { createHash, randomBytes, scryptSync, timingSafeEqual } from 'crypto';
+
+export const ROLES = ['viewer', 'bettor', 'admin'] as const;
+export type Role = typeof ROLES[number];
+
+export type AuthVia = 'session' | 'token' | 'secret';
+
+export interface Principal {
+  userId: string | null;
+  /** Email, or "admin-secret" */
+  actor: string;
+  role: Role;
+  via: AuthVia;
+}
+
+export const SESSION_COOKIE = 'ge_session';
+export const SESSION_TTL_DAYS = 30;
+export const API_TOKEN_PREFIX = 'ge_';
+// Characters of a token kept in clear for token lists
+const TOKEN_DISPLAY_LENGTH = 10;
+
+export const MIN_PASSWORD_LENGTH = 10;
+
+const SCRYPT_KEY_LENGTH = 64;
+
+export function isRole(value: unknown): value is Role {
+  return typeof value === 'string' && (ROLES as readonly string[]).includes(value);
+}
+
+/**
+ * Whether a role satisfies a required role (see header)
+ */
+export function hasRole(role: Role, required: Role): boolean {
+  return ROLES.indexOf(role) >= ROLES.indexOf(required);
+}
+
+export function normalizeEmail(email: string): string {
+  return email.trim().toLowerCase();
+}
+
+/**
+ * "scrypt$<salt>$<hash>" (hex)
+ */
+export function hashPassword(password: string): string {
+  const salt = randomBytes(16).toString('hex');
+  const hash = scryptSync(password, salt, SCRYPT_KEY_LENGTH).toString('hex');
+  return `scrypt$${salt}$${hash}`;
+}
+
+export function verifyPassword(password: string, stored: string | null): boolean {
+  if (!stored) return false;
+  const [scheme, salt, hash] = stored.split('$');
+  if (scheme !== 'scrypt' || !salt || !hash) return false;
+  const expected = Buffer.from(hash, 'hex');
+  const actual = scryptSync(password, salt, expected.length);
+  return actual.length === expected.length && timingSafeEqual(actual, expected);
+}
+
+/**
+ * Random session cookie value
+ */
+export function generateSessionToken(): string {
+  return randomBytes(32).toString('base64url');
+}
+
+/**
+ * New API token: the plain value (shown once) and the prefix kept for display
+ */
+export function generateApiToken(): { token: string; prefix: string } {
+  const token = `${API_TOKEN_PREFIX}${randomBytes(32).toString('base64url')}`;
+  return { token, prefix: token.slice(0, TOKEN_DISPLAY_LENGTH) };
+}
+
+/**
+ * Stored form of a session or API token
+ */
+export function hashToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex');
+}
+
+/**
+ * Token from an `Authorization: Bearer …` header, or null
+ */
+export function parseBearerToken(header: string | null): string | null {
+  if (!header) return null;
+  const match = /^Bearer\s+(\S+)$/i.exec(header.trim());
+  return match ? match[1] : null;
+}
+
+/**
+ * Constant-time comparison for shared secrets
+ */
+export function secretsEqual(provided: string | null, expected: string): boolean {
+  if (provided === null) return false;
+  const a = createHash('sha256').update(provided).digest();
+  const b = createHash('sha256').update(expected).digest();
+  return timingSafeEqual(a, b);
+}
+
+/**
+ * Cookie-authenticated writes must come from this site: an Origin header, when
+ * the browser sends one, has to match the request host
+ */
+export function isSameOrigin(origin: string | null, host: string | null): boolean {
+  if (!origin) return true;
+  if (!host) return false;
+  try {
+    return new URL(origin).host === host;
+  } catch {
+    return false;
+  }
+}
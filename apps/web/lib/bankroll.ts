@@ -0,0 +1,238 @@
+/**
+ * Bankroll Staking
+ *
+ * Stake sizing for named bankrolls. Policies:
+ * - flat:    fixed amount per bet
+ * - percent: fixed fraction of the current balance
+ * - kelly:   Kelly fraction from model win probability and price, scaled by a
+ *            multiplier (1 = full, 0.5 = half, 0.25 = quarter)
+ * Every policy is capped by maxStakePct of the balance when one is set.
+ */
+
+import { americanToDecimal } from './market-line-helpers';
+import { computeHomeWinProb } from './core-v1-moneyline';
+
+export type StakingPolicy = 'flat' | 'percent' | 'kelly';
+
+export const STAKING_POLICIES: StakingPolicy[] = ['flat', 'percent', 'kelly'];
+
+export const KELLY_MULTIPLIERS: Record<string, number> = {
+  full: 1,
+  half: 0.5,
+  quarter: 0.25,
+};
+
+/**
+ * Price assumed for spread and total bets
+ */
+export const STANDARD_PRICE = -110;
+
+export interface StakingConfig {
+  stakingPolicy: StakingPolicy;
+  flatStake: number | null;
+  stakePct: number | null;
+  kellyMultiplier: number | null;
+  maxStakePct: number | null;
+}
+
+export interface BankrollInput extends StakingConfig {
+  name: string;
+  startingBalance: number;
+}
+
+export interface StakeSuggestion {
+  /** Suggested stake, rounded to cents (0 = pass) */
+  stake: number;
+  /** Full-Kelly fraction of balance (null when no win probability) */
+  kelly: number | null;
+  /** True when maxStakePct reduced the stake */
+  capped: boolean;
+  /** Why no stake could be sized, if any */
+  reason: string | null;
+}
+
+/**
+ * Full-Kelly fraction of bankroll: (b·p - q) / b with b = decimal odds - 1
+ * Negative when the bet is -EV.
+ */
+export function kellyFraction(winProb: number, americanPrice: number): number {
+  const b = americanToDecimal(americanPrice) - 1;
+  return (b * winProb - (1 - winProb)) / b;
+}
+
+/**
+ * Model probability that a spread bet covers
+ *
+ * @param modelHma - Model spread, HMA frame (positive = home favored)
+ * @param marketHma - Market spread for the game, same frame
+ * @param side - Side bet
+ */
+export function coverProbability(modelHma: number, marketHma: number, side: 'home' | 'away'): number {
+  const homeCover = computeHomeWinProb(modelHma - marketHma);
+  return side === 'home' ? homeCover : 1 - homeCover;
+}
+
+/**
+ * Model win probability for a bet from the Core V1 spread
+ * Totals have no calibrated distribution yet, so they return null (Kelly can't size them).
+ *
+ * @param coreSpreadHma - Core V1 spread, HMA frame
+ * @param marketSpreadHma - Market spread in HMA frame (spread bets only)
+ */
+export function betWinProbability(
+  marketType: string,
+  side: string,
+  coreSpreadHma: number | null,
+  marketSpreadHma: number | null
+): number | null {
+  if (coreSpreadHma === null || (side !== 'home' && side !== 'away')) return null;
+
+  if (marketType === 'moneyline') {
+    const homeWin = computeHomeWinProb(coreSpreadHma);
+    return side === 'home' ? homeWin : 1 - homeWin;
+  }
+  if (marketType === 'spread' && marketSpreadHma !== null) {
+    return coverProbability(coreSpreadHma, marketSpreadHma, side);
+  }
+  return null;
+}
+
+/**
+ * Staking config from a Bankroll row
+ */
+export function stakingConfigOf(bankroll: {
+  stakingPolicy: string;
+  flatStake: number | null;
+  stakePct: number | null;
+  kellyMultiplier: number | null;
+  maxStakePct: number | null;
+}): StakingConfig {
+  return {
+    stakingPolicy: bankroll.stakingPolicy as StakingPolicy,
+    flatStake: bankroll.flatStake,
+    stakePct: bankroll.stakePct,
+    kellyMultiplier: bankroll.kellyMultiplier,
+    maxStakePct: bankroll.maxStakePct,
+  };
+}
+
+/**
+ * Suggest a stake for one bet given the bankroll's policy and current balance
+ */
+export function suggestStake(
+  config: StakingConfig,
+  balance: number,
+  winProb: number | null,
+  americanPrice: number | null
+): StakeSuggestion {
+  if (!(balance > 0)) {
+    return { stake: 0, kelly: null, capped: false, reason: 'Bankroll is empty' };
+  }
+
+  const kelly = winProb !== null && americanPrice !== null ? kellyFraction(winProb, americanPrice) : null;
+
+  let stake: number;
+  switch (config.stakingPolicy) {
+    case 'flat':
+      stake = config.flatStake ?? 0;
+      break;
+    case 'percent':
+      stake = balance * (config.stakePct ?? 0);
+      break;
+    case 'kelly':
+      if (kelly === null) {
+        return { stake: 0, kelly: null, capped: false, reason: 'No model win probability for this market' };
+      }
+      if (kelly <= 0) {
+        return { stake: 0, kelly, capped: false, reason: 'No edge at this price' };
+      }
+      stake = balance * kelly * (config.kellyMultiplier ?? 1);
+      break;
+    default:
+      return { stake: 0, kelly, capped: false, reason: `Unknown staking policy ${config.stakingPolicy}` };
+  }
+
+  let capped = false;
+  const cap = config.maxStakePct !== null ? balance * config.maxStakePct : balance;
+  if (stake > cap) {
+    stake = cap;
+    capped = config.maxStakePct !== null;
+  }
+
+  return { stake: Math.round(stake * 100) / 100, kelly, capped, reason: null };
+}
+
+/**
+ * Validate a create/update payload for a bankroll
+ */
+export function validateBankrollInput(
+  raw: any
+): { valid: true; data: BankrollInput } | { valid: false; errors: string[] } {
+  const errors: string[] = [];
+  const optionalNumber = (value: any): number | null =>
+    value === null || value === undefined || value === '' ? null : Number(value);
+
+  const name = typeof raw?.name === 'string' ? raw.name.trim() : '';
+  const startingBalance = Number(raw?.startingBalance);
+  const stakingPolicy = raw?.stakingPolicy as StakingPolicy;
+  const flatStake = optionalNumber(raw?.flatStake);
+  const stakePct = optionalNumber(raw?.stakePct);
+  const kellyMultiplier = optionalNumber(raw?.kellyMultiplier);
+  const maxStakePct = optionalNumber(raw?.maxStakePct);
+
+  if (!name) errors.push('Name is required');
+  if (!(startingBalance > 0)) errors.push('Starting balance must be positive');
+  if (!STAKING_POLICIES.includes(stakingPolicy)) {
+    errors.push(`Staking policy must be one of: ${STAKING_POLICIES.join(', ')}`);
+  }
+  if (stakingPolicy === 'flat' && !(flatStake !== null && flatStake > 0)) {
+    errors.push('Flat staking needs a positive flat stake');
+  }
+  if (stakingPolicy === 'percent' && !(stakePct !== null && stakePct > 0 && stakePct <= 1)) {
+    errors.push('Percent staking needs a stake percent between 0 and 1');
+  }
+  if (stakingPolicy === 'kelly' && !(kellyMultiplier !== null && kellyMultiplier > 0 && kellyMultiplier <= 1)) {
+    errors.push('Kelly staking needs a multiplier between 0 and 1');
+  }
+  if (maxStakePct !== null && !(maxStakePct > 0 && maxStakePct <= 1)) {
+    errors.push('Max stake percent must be between 0 and 1');
+  }
+
+  if (errors.length > 0) {
+    return { valid: false, errors };
+  }
+
+  return {
+    valid: true,
+    data: {
+      name,
+      startingBalance,
+      stakingPolicy,
+      flatStake: stakingPolicy === 'flat' ? flatStake : null,
+      stakePct: stakingPolicy === 'percent' ? stakePct : null,
+      kellyMultiplier: stakingPolicy === 'kelly' ? kellyMultiplier : null,
+      maxStakePct,
+    },
+  };
+}
+
+/**
+ * Short human-readable description of a staking policy
+ */
+export function describeStakingPolicy(config: StakingConfig): string {
+  let base: string;
+  switch (config.stakingPolicy) {
+    case 'flat':
+      base = `Flat ${config.flatStake ?? 0}`;
+      break;
+    case 'percent':
+      base = `${((config.stakePct ?? 0) * 100).toFixed(1)}% of balance`;
+      break;
+    default: {
+      const multiplier = config.kellyMultiplier ?? 1;
+      const named = Object.keys(KELLY_MULTIPLIERS).find(key => KELLY_MULTIPLIERS[key] === multiplier);
+      base = named ? `${named.charAt(0).toUpperCase()}${named.slice(1)} Kelly` : `${multiplier}x Kelly`;
+    }
+  }
+  return config.maxStakePct !== null ? `${base}, cap ${(config.maxStakePct * 100).toFixed(1)}%` : base;
+}
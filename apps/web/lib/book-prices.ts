@@ -0,0 +1,253 @@
+/**
+ * Book-Level Price Shopping
+ *
+ * Per-book price matrix (latest number and price at every book, per market and
+ * side) and the best available number for a given side versus consensus.
+ *
+ * Conventions:
+ * - Spread numbers are side-relative (home -3.5 / away +3.5), from lines with a teamId
+ * - Totals store the over price in `price`; under prices aren't captured
+ * - Moneyline prices live in lineValue; numbers are null
+ * - A missing spread/total price is treated as -110 when comparing books
+ */
+
+import { americanToDecimal, americanToProb } from './market-line-helpers';
+
+export const DEFAULT_JUICE = -110;
+
+export type PriceMarket = 'spread' | 'total' | 'moneyline';
+export type PriceSide = 'home' | 'away' | 'over' | 'under';
+
+export interface BookLineInput {
+  lineType: string;
+  lineValue: number;
+  price?: number | null;
+  bookName: string;
+  teamId: string | null;
+  timestamp: Date | string;
+}
+
+export interface BookQuote {
+  bookName: string;
+  /** Side-relative spread or the total; null for moneylines */
+  number: number | null;
+  /** American price, null when the book didn't report one */
+  price: number | null;
+  timestamp: string;
+}
+
+export interface PriceMatrixRow {
+  bookName: string;
+  spread: { home: BookQuote | null; away: BookQuote | null };
+  total: { over: BookQuote | null; under: BookQuote | null };
+  moneyline: { home: BookQuote | null; away: BookQuote | null };
+}
+
+export interface BestPriceSummary {
+  market: PriceMarket;
+  side: PriceSide;
+  bestBook: string;
+  bestNumber: number | null;
+  bestPrice: number | null;
+  /** Median number (spread/total) or median price (moneyline) across books */
+  consensus: number | null;
+  /** Half-points gained over consensus for the side (spread/total only) */
+  halfPointsVsConsensus: number | null;
+  /** Implied-probability points gained over the consensus price (moneyline only) */
+  probVsConsensus: number | null;
+  books: number;
+}
+
+function median(values: number[]): number | null {
+  if (values.length === 0) return null;
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 0 ? (sorted[mid - 1] + sorted[mid]) / 2 : sorted[mid];
+}
+
+function toIso(timestamp: Date | string): string {
+  return timestamp instanceof Date ? timestamp.toISOString() : new Date(timestamp).toISOString();
+}
+
+/**
+ * Latest quote per book for every market and side of one game
+ */
+export function buildPriceMatrix(
+  lines: BookLineInput[],
+  homeTeamId: string,
+  awayTeamId: string
+): PriceMatrixRow[] {
+  // Latest row per (book, market, team)
+  const latest = new Map<string, BookLineInput>();
+  for (const line of lines) {
+    const key = `${line.bookName}|${line.lineType}|${line.teamId ?? ''}`;
+    const existing = latest.get(key);
+    if (!existing || new Date(line.timestamp).getTime() > new Date(existing.timestamp).getTime()) {
+      latest.set(key, line);
+    }
+  }
+
+  const rows = new Map<string, PriceMatrixRow>();
+  const rowFor = (bookName: string): PriceMatrixRow => {
+    if (!rows.has(bookName)) {
+      rows.set(bookName, {
+        bookName,
+        spread: { home: null, away: null },
+        total: { over: null, under: null },
+        moneyline: { home: null, away: null },
+      });
+    }
+    return rows.get(bookName)!;
+  };
+
+  for (const line of Array.from(latest.values())) {
+    const side = line.teamId === homeTeamId ? 'home' : line.teamId === awayTeamId ? 'away' : null;
+    const timestamp = toIso(line.timestamp);
+    const price = line.price ?? null;
+
+    if (line.lineType === 'spread') {
+      // Teamless spreads can't be oriented
+      if (!side) continue;
+      const row = rowFor(line.bookName);
+      const other = side === 'home' ? 'away' : 'home';
+      const current = row.spread[side];
+      if (!current || new Date(current.timestamp).getTime() <= new Date(timestamp).getTime()) {
+        row.spread[side] = { bookName: line.bookName, number: line.lineValue, price, timestamp };
+      }
+      // Mirror onto the other side when the book's quote for it is missing or older
+      const opposite = row.spread[other];
+      if (!opposite || new Date(opposite.timestamp).getTime() < new Date(timestamp).getTime()) {
+        row.spread[other] = { bookName: line.bookName, number: -line.lineValue, price: null, timestamp };
+      }
+    } else if (line.lineType === 'total') {
+      const row = rowFor(line.bookName);
+      row.total.over = { bookName: line.bookName, number: line.lineValue, price, timestamp };
+      row.total.under = { bookName: line.bookName, number: line.lineValue, price: null, timestamp };
+    } else if (line.lineType === 'moneyline' && side) {
+      rowFor(line.bookName).moneyline[side] = { bookName: line.bookName, number: null, price: line.lineValue, timestamp };
+    }
+  }
+
+  return Array.from(rows.values()).sort((a, b) => a.bookName.localeCompare(b.bookName));
+}
+
+/**
+ * All books' quotes for one market and side
+ */
+export function quotesForSide(matrix: PriceMatrixRow[], market: PriceMarket, side: PriceSide): BookQuote[] {
+  const quotes: BookQuote[] = [];
+  for (const row of matrix) {
+    const quote = (row[market] as Record<string, BookQuote | null>)[side] ?? null;
+    if (quote) quotes.push(quote);
+  }
+  return quotes;
+}
+
+/**
+ * Points better (positive) or worse for the bettor, comparing two numbers on a side
+ * Spreads: more points is better. Overs: a lower total is better; unders: higher.
+ */
+export function numberAdvantage(market: PriceMarket, side: PriceSide, number: number, versus: number): number {
+  if (market === 'total' && side === 'over') return versus - number;
+  return number - versus;
+}
+
+/**
+ * True when quote `a` is a better bet than `b` for the side
+ * Better number first, then better price.
+ */
+function isBetterQuote(market: PriceMarket, side: PriceSide, a: BookQuote, b: BookQuote): boolean {
+  if (market !== 'moneyline' && a.number !== null && b.number !== null && a.number !== b.number) {
+    return numberAdvantage(market, side, a.number, b.number) > 0;
+  }
+  const fallback = market === 'moneyline' ? null : DEFAULT_JUICE;
+  const priceA = a.price ?? fallback;
+  const priceB = b.price ?? fallback;
+  if (priceA === null) return false;
+  if (priceB === null) return true;
+  return americanToDecimal(priceA) > americanToDecimal(priceB);
+}
+
+/**
+ * Best book for a side and how much it beats consensus by
+ */
+export function summarizeBestPrice(
+  matrix: PriceMatrixRow[],
+  market: PriceMarket,
+  side: PriceSide
+): BestPriceSummary | null {
+  const quotes = quotesForSide(matrix, market, side).filter(q =>
+    market === 'moneyline' ? q.price !== null : q.number !== null
+  );
+  if (quotes.length === 0) return null;
+
+  let best = quotes[0];
+  for (const quote of quotes.slice(1)) {
+    if (isBetterQuote(market, side, quote, best)) best = quote;
+  }
+
+  if (market === 'moneyline') {
+    const consensus = median(quotes.map(q => q.price!));
+    const bestProb = americanToProb(best.price);
+    const consensusProb = americanToProb(consensus);
+    return {
+      market,
+      side,
+      bestBook: best.bookName,
+      bestNumber: null,
+      bestPrice: best.price,
+      consensus,
+      halfPointsVsConsensus: null,
+      probVsConsensus: bestProb !== null && consensusProb !== null ? consensusProb - bestProb : null,
+      books: quotes.length,
+    };
+  }
+
+  const consensus = median(quotes.map(q => q.number!));
+  return {
+    market,
+    side,
+    bestBook: best.bookName,
+    bestNumber: best.number,
+    bestPrice: best.price,
+    consensus,
+    halfPointsVsConsensus: consensus !== null ? numberAdvantage(market, side, best.number!, consensus) / 0.5 : null,
+    probVsConsensus: null,
+    books: quotes.length,
+  };
+}
+
+function formatAmerican(price: number): string {
+  return price > 0 ? `+${price}` : `${price}`;
+}
+
+/**
+ * Display a quote, e.g. "-3.5 (-105)", "o47.5", "+140"
+ */
+export function formatQuote(market: PriceMarket, side: PriceSide, number: number | null, price: number | null): string {
+  if (market === 'moneyline') {
+    return price !== null ? formatAmerican(price) : '—';
+  }
+  if (number === null) return '—';
+  const base = market === 'total'
+    ? `${side === 'over' ? 'o' : 'u'}${number}`
+    : number > 0 ? `+${number}` : `${number}`;
+  return price !== null ? `${base} (${formatAmerican(price)})` : base;
+}
+
+/**
+ * Display what the best book gains over consensus, e.g. "+1 half-pt vs consensus"
+ */
+export function formatVsConsensus(summary: BestPriceSummary): string | null {
+  if (summary.halfPointsVsConsensus !== null) {
+    const halfPoints = Math.round(summary.halfPointsVsConsensus * 10) / 10;
+    if (halfPoints === 0) return 'at consensus';
+    return `${halfPoints > 0 ? '+' : ''}${halfPoints} half-pt${Math.abs(halfPoints) === 1 ? '' : 's'} vs consensus`;
+  }
+  if (summary.probVsConsensus !== null) {
+    const pts = Math.round(summary.probVsConsensus * 1000) / 10;
+    if (pts === 0) return 'at consensus';
+    return `${pts > 0 ? '+' : ''}${pts.toFixed(1)}% implied vs consensus`;
+  }
+  return null;
+}
@@ -0,0 +1,112 @@
+/**
+ * Calibration Context Loader
+ *
+ * Database side of spread calibration: turns GameTrainingRow into CalibrationRow,
+ * filling ratingDiffV2 / ratingDiffBlend / hfaPoints from V2 team ratings when the
+ * row doesn't carry them. The math lives in calibration.ts.
+ */
+
+import { prisma } from './prisma';
+import { CALIBRATION_FEATURES, CalibrationRow } from './calibration';
+import { computeRatingDiffBlend } from './core-v1-spread';
+import { BUNDLED_CORE_MODEL, CoreModel } from './model-registry';
+
+const DEFAULT_HFA = 2.0;
+
+// GameTrainingRow columns read as-is (Decimal/Int/Boolean → number)
+const ROW_COLUMNS = [
+  'ratingDiffV2', 'hfaPoints', 'neutralSite', 'restDeltaDiff', 'p5VsG5', 'byeHome', 'byeAway',
+  'sameConf', 'tierGap', 'offAdjSrDiff', 'offAdjExplDiff', 'offAdjPpaDiff', 'havocFront7Diff',
+  'havocDbDiff', 'ewma3OffAdjPpaDiff', 'ewma5OffAdjPpaDiff', 'ewma3OffAdjSrDiff', 'ewma5OffAdjSrDiff',
+];
+
+export interface CalibrationRowQuery {
+  seasons: number[];
+  featureVersion: string;
+  /** Set labels to include (null = all) */
+  sets?: string[] | null;
+  weeks?: number[] | null;
+  /** Rows missing a required one of these are dropped */
+  features?: string[];
+  /** MFTR ratings + normalization for ratingDiffBlend (default: bundled) */
+  blendModel?: CoreModel;
+}
+
+function toNumber(value: any): number | null {
+  if (value === null || value === undefined) return null;
+  if (typeof value === 'boolean') return value ? 1 : 0;
+  const n = Number(value);
+  return Number.isFinite(n) ? n : null;
+}
+
+/**
+ * Training rows with a market target, ordered by season, week, game
+ */
+export async function loadCalibrationRows(
+  query: CalibrationRowQuery
+): Promise<{ rows: CalibrationRow[]; dropped: number }> {
+  const { seasons, featureVersion, sets = null, weeks = null, features = [], blendModel = BUNDLED_CORE_MODEL } = query;
+
+  const trainingRows = await prisma.gameTrainingRow.findMany({
+    where: {
+      season: { in: seasons },
+      featureVersion,
+      targetSpreadHma: { not: null },
+      ...(sets ? { setLabel: { in: sets } } : {}),
+      ...(weeks ? { week: { in: weeks } } : {}),
+    },
+    orderBy: [{ season: 'asc' }, { week: 'asc' }, { gameId: 'asc' }],
+  });
+
+  const ratings = await prisma.teamSeasonRating.findMany({
+    where: { season: { in: seasons }, modelVersion: 'v2' },
+  });
+  const ratingByTeam = new Map<string, { power: number | null; hfa: number | null }>();
+  for (const rating of ratings as any[]) {
+    ratingByTeam.set(`${rating.season}:${rating.teamId}`, {
+      power: toNumber(rating.powerRating ?? rating.rating),
+      hfa: toNumber(rating.hfaTeam),
+    });
+  }
+
+  const required = features.filter(name => CALIBRATION_FEATURES[name]?.required);
+  const rows: CalibrationRow[] = [];
+  let dropped = 0;
+
+  for (const row of trainingRows as any[]) {
+    const values: Record<string, number | null> = {};
+    for (const column of ROW_COLUMNS) {
+      values[column] = toNumber(row[column]);
+    }
+
+    const home = ratingByTeam.get(`${row.season}:${row.homeTeamId}`);
+    const away = ratingByTeam.get(`${row.season}:${row.awayTeamId}`);
+    const haveRatings = home?.power != null && away?.power != null;
+    if (values.ratingDiffV2 === null && haveRatings) {
+      values.ratingDiffV2 = home!.power! - away!.power!;
+    }
+    values.ratingDiffBlend = haveRatings
+      ? computeRatingDiffBlend(row.homeTeamId, row.awayTeamId, home!.power!, away!.power!, blendModel)
+      : null;
+    if (values.hfaPoints === null) {
+      values.hfaPoints = row.neutralSite ? 0 : (home?.hfa ?? DEFAULT_HFA);
+    }
+
+    if (required.some(name => values[name] === null)) {
+      dropped++;
+      continue;
+    }
+
+    rows.push({
+      gameId: row.gameId,
+      season: row.season,
+      week: row.week,
+      setLabel: row.setLabel,
+      weight: toNumber(row.rowWeight) ?? 1,
+      target: Number(row.targetSpreadHma),
+      values,
+    });
+  }
+
+  return { rows, dropped };
+}
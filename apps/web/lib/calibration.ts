@@ -0,0 +1,722 @@
+/**
+ * Spread Calibration
+ *
+ * Shared fitting core for scripts/calibrate.ts: declared features, pluggable
+ * estimators, time-series CV by week, gate checks and residual diagnostics.
+ * Pure functions only; loading GameTrainingRow and writing ModelCalibration live in
+ * the script.
+ *
+ * Target is the pre-kick consensus spread in the HMA frame (positive = home favored).
+ * Continuous features are standardized before fitting; coefficients are reported on
+ * both scales so a fit can be reproduced from the stored row.
+ *
+ * CV is an expanding window over (season, week): each week is predicted by a model
+ * trained only on earlier weeks. Hyperparameters are chosen by the pooled RMSE of
+ * those out-of-sample predictions, and the gates are checked on the same predictions.
+ */
+
+import { solveLinearSystem } from './hfa-model';
+
+// ============================================================================
+// Features
+// ============================================================================
+
+/** One training row after loading (feature values already resolved) */
+export interface CalibrationRow {
+  gameId: string;
+  season: number;
+  week: number;
+  setLabel: string;
+  weight: number;
+  /** Pre-kick consensus spread, HMA frame */
+  target: number;
+  values: Record<string, number | null>;
+}
+
+export interface CalibrationFeature {
+  name: string;
+  description: string;
+  /** 0/1 flags are fitted as-is (not standardized) */
+  binary?: boolean;
+  /** Rows missing a required feature are dropped; others fill with 0 */
+  required?: boolean;
+  /** Sign the coefficient must not contradict (gate) */
+  expectedSign?: 1 | -1;
+}
+
+/** Every feature the calibration CLI can load (GameTrainingRow columns + derived) */
+export const CALIBRATION_FEATURES: Record<string, CalibrationFeature> = {
+  ratingDiffV2: { name: 'ratingDiffV2', description: 'V2 power rating, home - away', required: true, expectedSign: 1 },
+  ratingDiffBlend: { name: 'ratingDiffBlend', description: 'V2/MFTR rating blend (Core V1 input), home - away', required: true, expectedSign: 1 },
+  hfaPoints: { name: 'hfaPoints', description: 'Home field advantage points (0 at neutral sites)', required: true, expectedSign: 1 },
+  neutralSite: { name: 'neutralSite', description: 'Neutral site', binary: true },
+  restDeltaDiff: { name: 'restDeltaDiff', description: 'Rest days, home - away' },
+  p5VsG5: { name: 'p5VsG5', description: 'Power vs Group of Five matchup', binary: true },
+  byeHome: { name: 'byeHome', description: 'Home team off a bye', binary: true },
+  byeAway: { name: 'byeAway', description: 'Away team off a bye', binary: true },
+  sameConf: { name: 'sameConf', description: 'Conference game', binary: true },
+  tierGap: { name: 'tierGap', description: 'Conference tier gap' },
+  offAdjSrDiff: { name: 'offAdjSrDiff', description: 'Opponent-adjusted offensive success rate, home - away' },
+  offAdjExplDiff: { name: 'offAdjExplDiff', description: 'Opponent-adjusted explosiveness, home - away' },
+  offAdjPpaDiff: { name: 'offAdjPpaDiff', description: 'Opponent-adjusted PPA, home - away' },
+  havocFront7Diff: { name: 'havocFront7Diff', description: 'Front-seven havoc rate, home - away' },
+  havocDbDiff: { name: 'havocDbDiff', description: 'DB havoc rate, home - away' },
+  ewma3OffAdjPpaDiff: { name: 'ewma3OffAdjPpaDiff', description: '3-game EWMA adjusted PPA, home - away' },
+  ewma5OffAdjPpaDiff: { name: 'ewma5OffAdjPpaDiff', description: '5-game EWMA adjusted PPA, home - away' },
+  ewma3OffAdjSrDiff: { name: 'ewma3OffAdjSrDiff', description: '3-game EWMA adjusted success rate, home - away' },
+  ewma5OffAdjSrDiff: { name: 'ewma5OffAdjSrDiff', description: '5-game EWMA adjusted success rate, home - away' },
+};
+
+/** Named feature lists; `core_v1` fits are servable through the model registry */
+export const FEATURE_SETS: Record<string, string[]> = {
+  core_v1: ['ratingDiffBlend', 'hfaPoints'],
+  core: ['ratingDiffV2', 'hfaPoints', 'neutralSite', 'restDeltaDiff', 'p5VsG5', 'byeHome', 'byeAway'],
+  extended: [
+    'ratingDiffV2', 'hfaPoints', 'neutralSite', 'restDeltaDiff', 'p5VsG5', 'byeHome', 'byeAway',
+    'offAdjSrDiff', 'offAdjExplDiff', 'offAdjPpaDiff', 'havocFront7Diff', 'havocDbDiff',
+    'ewma3OffAdjPpaDiff', 'ewma5OffAdjPpaDiff', 'ewma3OffAdjSrDiff', 'ewma5OffAdjSrDiff',
+  ],
+};
+
+/**
+ * Feature list from a set name or a comma-separated list
+ */
+export function resolveFeatureList(spec: string): { label: string; features: string[] } {
+  if (FEATURE_SETS[spec]) {
+    return { label: spec, features: FEATURE_SETS[spec] };
+  }
+  const features = spec.split(',').map(s => s.trim()).filter(Boolean);
+  const unknown = features.filter(f => !CALIBRATION_FEATURES[f]);
+  if (features.length === 0 || unknown.length > 0) {
+    throw new Error(`Unknown feature(s): ${unknown.join(', ') || spec} (sets: ${Object.keys(FEATURE_SETS).join(', ')})`);
+  }
+  return { label: 'custom', features };
+}
+
+// ============================================================================
+// Estimators
+// ============================================================================
+
+export type EstimatorName = 'ols' | 'ridge' | 'elastic_net' | 'quadratic';
+
+export interface Hyperparams {
+  /** Penalty strength (0 = unpenalized) */
+  alpha: number;
+  /** Share of the penalty on L1 (elastic net only) */
+  l1Ratio: number;
+}
+
+export interface Estimator {
+  name: EstimatorName;
+  description: string;
+  /** Hyperparameter grid searched by CV */
+  grid: Hyperparams[];
+  /** Extra features derived from the declared ones (quadratic terms) */
+  expandFeatures?: (features: string[]) => string[];
+  /**
+   * Fit on standardized X (no intercept column); returns [intercept, ...coefficients]
+   */
+  fit: (X: number[][], y: number[], w: number[], params: Hyperparams) => number[];
+}
+
+/**
+ * Weighted ridge via the normal equations, intercept unpenalized
+ *
+ * Minimizes (1/2W) Σ wᵢ(yᵢ - b₀ - xᵢβ)² + (α/2)‖β‖²
+ */
+export function fitRidge(X: number[][], y: number[], w: number[], alpha: number): number[] {
+  const p = X[0]?.length ?? 0;
+  const k = p + 1;
+  const totalWeight = w.reduce((a, b) => a + b, 0);
+  const XtX = Array.from({ length: k }, () => new Array(k).fill(0));
+  const Xty = new Array(k).fill(0);
+  for (let i = 0; i < X.length; i++) {
+    const x = [1, ...X[i]];
+    for (let a = 0; a < k; a++) {
+      Xty[a] += w[i] * x[a] * y[i];
+      for (let b = 0; b < k; b++) XtX[a][b] += w[i] * x[a] * x[b];
+    }
+  }
+  for (let j = 1; j < k; j++) XtX[j][j] += alpha * totalWeight;
+  return solveLinearSystem(XtX, Xty);
+}
+
+/**
+ * Weighted elastic net by coordinate descent, intercept unpenalized
+ *
+ * Minimizes (1/2W) Σ wᵢ(yᵢ - b₀ - xᵢβ)² + α(l1·‖β‖₁ + (1 - l1)/2·‖β‖²)
+ */
+export function fitElasticNet(
+  X: number[][],
+  y: number[],
+  w: number[],
+  alpha: number,
+  l1Ratio: number,
+  maxIter = 1000,
+  tol = 1e-7
+): number[] {
+  const n = X.length;
+  const p = X[0]?.length ?? 0;
+  const totalWeight = w.reduce((a, b) => a + b, 0);
+  const beta = new Array(p).fill(0);
+  let intercept = y.reduce((sum, v, i) => sum + w[i] * v, 0) / totalWeight;
+  const residual = y.map(v => v - intercept);
+
+  const colScale = new Array(p).fill(0);
+  for (let j = 0; j < p; j++) {
+    for (let i = 0; i < n; i++) colScale[j] += w[i] * X[i][j] * X[i][j];
+    colScale[j] /= totalWeight;
+  }
+
+  const l1 = alpha * l1Ratio;
+  const l2 = alpha * (1 - l1Ratio);
+
+  for (let iter = 0; iter < maxIter; iter++) {
+    let maxChange = 0;
+
+    for (let j = 0; j < p; j++) {
+      if (colScale[j] < 1e-12) continue;
+      let rho = 0;
+      for (let i = 0; i < n; i++) rho += w[i] * X[i][j] * (residual[i] + X[i][j] * beta[j]);
+      rho /= totalWeight;
+      const updated = Math.sign(rho) * Math.max(Math.abs(rho) - l1, 0) / (colScale[j] + l2);
+      const delta = updated - beta[j];
+      if (delta !== 0) {
+        for (let i = 0; i < n; i++) residual[i] -= X[i][j] * delta;
+        beta[j] = updated;
+        maxChange = Math.max(maxChange, Math.abs(delta));
+      }
+    }
+
+    const shift = residual.reduce((sum, r, i) => sum + w[i] * r, 0) / totalWeight;
+    if (shift !== 0) {
+      intercept += shift;
+      for (let i = 0; i < n; i++) residual[i] -= shift;
+      maxChange = Math.max(maxChange, Math.abs(shift));
+    }
+
+    if (maxChange < tol) break;
+  }
+
+  return [intercept, ...beta];
+}
+
+const RIDGE_ALPHAS = [0.001, 0.003, 0.01, 0.03, 0.1, 0.3, 1];
+
+export const ESTIMATORS: Record<EstimatorName, Estimator> = {
+  ols: {
+    name: 'ols',
+    description: 'Weighted least squares',
+    grid: [{ alpha: 0, l1Ratio: 0 }],
+    // Negligible ridge so a flag that's constant in an early CV fold gets 0 instead of a singular solve
+    fit: (X, y, w) => fitRidge(X, y, w, 1e-9),
+  },
+  ridge: {
+    name: 'ridge',
+    description: 'L2-penalized least squares',
+    grid: RIDGE_ALPHAS.map(alpha => ({ alpha, l1Ratio: 0 })),
+    fit: (X, y, w, params) => fitRidge(X, y, w, params.alpha),
+  },
+  elastic_net: {
+    name: 'elastic_net',
+    description: 'L1 + L2 penalized least squares (coordinate descent)',
+    grid: [0.001, 0.01, 0.05, 0.1, 0.25].flatMap(alpha => [0.1, 0.5, 0.9].map(l1Ratio => ({ alpha, l1Ratio }))),
+    fit: (X, y, w, params) => fitElasticNet(X, y, w, params.alpha, params.l1Ratio),
+  },
+  quadratic: {
+    name: 'quadratic',
+    description: 'Ridge with a squared term on the rating difference (blowouts scale faster)',
+    grid: RIDGE_ALPHAS.map(alpha => ({ alpha, l1Ratio: 0 })),
+    expandFeatures: (features) => {
+      const rating = features.find(f => f.startsWith('ratingDiff'));
+      return rating ? [...features, `${rating}Sq`] : features;
+    },
+    fit: (X, y, w, params) => fitRidge(X, y, w, params.alpha),
+  },
+};
+
+// ============================================================================
+// Design matrix
+// ============================================================================
+
+export interface ScalerParams {
+  mean: number;
+  std: number;
+}
+
+export interface DesignMatrix {
+  featureNames: string[];
+  /** Raw (unstandardized) values, one row per sample */
+  raw: number[][];
+  scalers: Record<string, ScalerParams>;
+}
+
+function isBinary(name: string): boolean {
+  return CALIBRATION_FEATURES[name]?.binary === true;
+}
+
+/**
+ * One feature's value for a row (`<name>Sq` is the square of `<name>`; missing = 0)
+ */
+export function featureValue(values: Record<string, number | null>, name: string): number {
+  if (name.endsWith('Sq') && !CALIBRATION_FEATURES[name]) {
+    const base = values[name.slice(0, -2)] ?? 0;
+    return base * base;
+  }
+  return values[name] ?? 0;
+}
+
+/**
+ * Original-scale prediction from a stored fit
+ */
+export function predictFromCoefficients(
+  values: Record<string, number | null>,
+  intercept: number,
+  coefficients: Record<string, number>
+): number {
+  let prediction = intercept;
+  for (const [name, coefficient] of Object.entries(coefficients)) {
+    prediction += coefficient * featureValue(values, name);
+  }
+  return prediction;
+}
+
+/**
+ * Scaler params fitted on the given rows only (walk-forward folds pass their
+ * training rows so test weeks never shape the standardization)
+ */
+export function fitScalers(raw: number[][], featureNames: string[], indices: number[]): Record<string, ScalerParams> {
+  const scalers: Record<string, ScalerParams> = {};
+  featureNames.forEach((name, j) => {
+    if (isBinary(name)) {
+      scalers[name] = { mean: 0, std: 1 };
+      return;
+    }
+    const column = indices.map(i => raw[i][j]);
+    const mean = column.reduce((a, b) => a + b, 0) / Math.max(column.length, 1);
+    const variance = column.reduce((sum, v) => sum + (v - mean) ** 2, 0) / Math.max(column.length, 1);
+    const std = Math.sqrt(variance);
+    scalers[name] = { mean, std: std > 1e-10 ? std : 1 };
+  });
+  return scalers;
+}
+
+/**
+ * Raw feature values (squared terms derived from `<name>Sq`) and scaler params
+ * over all rows (used for the final fit)
+ */
+export function buildDesignMatrix(rows: CalibrationRow[], featureNames: string[]): DesignMatrix {
+  const raw = rows.map(row => featureNames.map(name => featureValue(row.values, name)));
+  return { featureNames, raw, scalers: fitScalers(raw, featureNames, rows.map((_, i) => i)) };
+}
+
+function standardize(design: DesignMatrix, indices: number[], scalers = design.scalers): number[][] {
+  return indices.map(i => design.featureNames.map((name, j) => {
+    const scaler = scalers[name];
+    return (design.raw[i][j] - scaler.mean) / scaler.std;
+  }));
+}
+
+/**
+ * Standardized-scale fit → original-scale intercept and coefficients
+ */
+export function toOriginalScale(
+  fitted: number[],
+  design: DesignMatrix
+): { intercept: number; coefficients: Record<string, { standardized: number; original: number }> } {
+  let intercept = fitted[0];
+  const coefficients: Record<string, { standardized: number; original: number }> = {};
+  design.featureNames.forEach((name, j) => {
+    const scaler = design.scalers[name];
+    const standardized = fitted[j + 1];
+    const original = standardized / scaler.std;
+    intercept -= original * scaler.mean;
+    coefficients[name] = { standardized, original };
+  });
+  return { intercept, coefficients };
+}
+
+// ============================================================================
+// Metrics
+// ============================================================================
+
+export interface FitMetrics {
+  n: number;
+  rmse: number;
+  mae: number;
+  r2: number;
+  pearson: number;
+  spearman: number;
+}
+
+function ranks(values: number[]): number[] {
+  const order = values.map((v, i) => ({ v, i })).sort((a, b) => a.v - b.v);
+  const result = new Array(values.length);
+  let start = 0;
+  while (start < order.length) {
+    let end = start;
+    while (end + 1 < order.length && order[end + 1].v === order[start].v) end++;
+    const avgRank = (start + end) / 2 + 1;
+    for (let k = start; k <= end; k++) result[order[k].i] = avgRank;
+    start = end + 1;
+  }
+  return result;
+}
+
+function weightedPearson(x: number[], y: number[], w: number[]): number {
+  const sumW = w.reduce((a, b) => a + b, 0);
+  const meanX = x.reduce((s, v, i) => s + w[i] * v, 0) / sumW;
+  const meanY = y.reduce((s, v, i) => s + w[i] * v, 0) / sumW;
+  let cov = 0;
+  let varX = 0;
+  let varY = 0;
+  for (let i = 0; i < x.length; i++) {
+    cov += w[i] * (x[i] - meanX) * (y[i] - meanY);
+    varX += w[i] * (x[i] - meanX) ** 2;
+    varY += w[i] * (y[i] - meanY) ** 2;
+  }
+  const r = cov / Math.sqrt(varX * varY);
+  return Number.isFinite(r) ? r : 0;
+}
+
+export function computeFitMetrics(y: number[], predictions: number[], w: number[]): FitMetrics {
+  const sumW = w.reduce((a, b) => a + b, 0);
+  const meanY = y.reduce((s, v, i) => s + w[i] * v, 0) / sumW;
+  let ssRes = 0;
+  let ssTot = 0;
+  let absErr = 0;
+  for (let i = 0; i < y.length; i++) {
+    ssRes += w[i] * (y[i] - predictions[i]) ** 2;
+    ssTot += w[i] * (y[i] - meanY) ** 2;
+    absErr += w[i] * Math.abs(y[i] - predictions[i]);
+  }
+  return {
+    n: y.length,
+    rmse: Math.sqrt(ssRes / sumW),
+    mae: absErr / sumW,
+    r2: ssTot > 0 ? 1 - ssRes / ssTot : 0,
+    pearson: weightedPearson(y, predictions, w),
+    spearman: weightedPearson(ranks(y), ranks(predictions), w),
+  };
+}
+
+// ============================================================================
+// Time-series CV
+// ============================================================================
+
+export interface TimeSeriesFold {
+  season: number;
+  week: number;
+  trainIndices: number[];
+  testIndices: number[];
+}
+
+/**
+ * Expanding-window folds: each (season, week) after the first `minTrainWeeks`
+ * is tested on a model trained on all earlier weeks
+ */
+export function timeSeriesFolds(rows: Array<{ season: number; week: number }>, minTrainWeeks = 3): TimeSeriesFold[] {
+  const periodKey = (r: { season: number; week: number }) => r.season * 100 + r.week;
+  const periods = Array.from(new Set(rows.map(periodKey))).sort((a, b) => a - b);
+  const folds: TimeSeriesFold[] = [];
+  for (let k = minTrainWeeks; k < periods.length; k++) {
+    const period = periods[k];
+    const trainIndices: number[] = [];
+    const testIndices: number[] = [];
+    rows.forEach((row, i) => {
+      const key = periodKey(row);
+      if (key < period) trainIndices.push(i);
+      else if (key === period) testIndices.push(i);
+    });
+    if (trainIndices.length > 0 && testIndices.length > 0) {
+      folds.push({ season: Math.floor(period / 100), week: period % 100, trainIndices, testIndices });
+    }
+  }
+  return folds;
+}
+
+// ============================================================================
+// Gates & diagnostics
+// ============================================================================
+
+export interface GateThresholds {
+  slopeMin: number;
+  slopeMax: number;
+  signAgreementMin: number;
+  pearsonMin: number;
+  rmseMax: number;
+}
+
+export const DEFAULT_GATE_THRESHOLDS: GateThresholds = {
+  slopeMin: 0.9,
+  slopeMax: 1.1,
+  signAgreementMin: 70,
+  pearsonMin: 0.3,
+  rmseMax: 9.0,
+};
+
+export interface GateCheck {
+  gate: string;
+  value: number;
+  target: string;
+  passed: boolean;
+}
+
+export interface GateResults {
+  /** OLS slope of target on prediction (1 = well calibrated) */
+  slope: number;
+  /** % of games where prediction and target pick the same favorite */
+  signAgreement: number;
+  checks: GateCheck[];
+  allPassed: boolean;
+}
+
+export function checkGates(
+  y: number[],
+  predictions: number[],
+  w: number[],
+  coefficients: Record<string, { original: number }>,
+  thresholds: GateThresholds = DEFAULT_GATE_THRESHOLDS
+): GateResults {
+  const metrics = computeFitMetrics(y, predictions, w);
+  const sumW = w.reduce((a, b) => a + b, 0);
+  const meanY = y.reduce((s, v, i) => s + w[i] * v, 0) / sumW;
+  const meanPred = predictions.reduce((s, v, i) => s + w[i] * v, 0) / sumW;
+  let cov = 0;
+  let varPred = 0;
+  for (let i = 0; i < y.length; i++) {
+    cov += w[i] * (y[i] - meanY) * (predictions[i] - meanPred);
+    varPred += w[i] * (predictions[i] - meanPred) ** 2;
+  }
+  const slope = varPred > 1e-10 ? cov / varPred : 0;
+  const decided = y.map((v, i) => ({ v, p: predictions[i] })).filter(({ v }) => v !== 0);
+  const agree = decided.filter(({ v, p }) => Math.sign(v) === Math.sign(p)).length;
+  const signAgreement = decided.length > 0 ? (agree / decided.length) * 100 : 0;
+
+  const checks: GateCheck[] = [
+    { gate: 'slope', value: slope, target: `${thresholds.slopeMin}-${thresholds.slopeMax}`, passed: slope >= thresholds.slopeMin && slope <= thresholds.slopeMax },
+    { gate: 'signAgreement', value: signAgreement, target: `>= ${thresholds.signAgreementMin}%`, passed: signAgreement >= thresholds.signAgreementMin },
+    { gate: 'pearson', value: metrics.pearson, target: `>= ${thresholds.pearsonMin}`, passed: metrics.pearson >= thresholds.pearsonMin },
+    { gate: 'rmse', value: metrics.rmse, target: `<= ${thresholds.rmseMax}`, passed: metrics.rmse <= thresholds.rmseMax },
+  ];
+  for (const [name, coef] of Object.entries(coefficients)) {
+    const expected = CALIBRATION_FEATURES[name]?.expectedSign;
+    if (!expected) continue;
+    checks.push({
+      gate: `sign:${name}`,
+      value: coef.original,
+      target: expected > 0 ? '>= 0' : '<= 0',
+      passed: coef.original * expected >= 0,
+    });
+  }
+
+  return { slope, signAgreement, checks, allPassed: checks.every(c => c.passed) };
+}
+
+export interface ResidualBucket {
+  label: string;
+  count: number;
+  meanResidual: number;
+  mae: number;
+}
+
+export interface ResidualSummary {
+  count: number;
+  meanResidual: number;
+  sdResidual: number;
+  mae: number;
+  /** By |target| (spread size) */
+  bySpread: ResidualBucket[];
+  byWeek: Array<{ season: number; week: number; count: number; meanResidual: number; rmse: number }>;
+}
+
+export interface ResidualOutlier {
+  gameId: string;
+  season: number;
+  week: number;
+  target: number;
+  prediction: number;
+  residual: number;
+}
+
+const SPREAD_BUCKETS: Array<{ label: string; min: number; max: number }> = [
+  { label: '0-7', min: 0, max: 7 },
+  { label: '7-14', min: 7, max: 14 },
+  { label: '14-28', min: 14, max: 28 },
+  { label: '>28', min: 28, max: Infinity },
+];
+
+/**
+ * Residual (target - prediction) summary and the largest misses
+ */
+export function buildResidualDiagnostics(
+  rows: CalibrationRow[],
+  predictions: number[],
+  topN = 20
+): { summary: ResidualSummary; outliers: ResidualOutlier[] } {
+  const residuals = rows.map((row, i) => row.target - predictions[i]);
+  const mean = (values: number[]) => (values.length > 0 ? values.reduce((a, b) => a + b, 0) / values.length : 0);
+  const meanResidual = mean(residuals);
+
+  const bySpread = SPREAD_BUCKETS.map(bucket => {
+    const inBucket = residuals.filter((_, i) => {
+      const size = Math.abs(rows[i].target);
+      return size >= bucket.min && size < bucket.max;
+    });
+    return { label: bucket.label, count: inBucket.length, meanResidual: mean(inBucket), mae: mean(inBucket.map(Math.abs)) };
+  });
+
+  const weeks = new Map<number, number[]>();
+  rows.forEach((row, i) => {
+    const key = row.season * 100 + row.week;
+    if (!weeks.has(key)) weeks.set(key, []);
+    weeks.get(key)!.push(residuals[i]);
+  });
+  const byWeek = Array.from(weeks.entries())
+    .sort(([a], [b]) => a - b)
+    .map(([key, values]) => ({
+      season: Math.floor(key / 100),
+      week: key % 100,
+      count: values.length,
+      meanResidual: mean(values),
+      rmse: Math.sqrt(mean(values.map(v => v * v))),
+    }));
+
+  const outliers = rows
+    .map((row, i) => ({
+      gameId: row.gameId,
+      season: row.season,
+      week: row.week,
+      target: row.target,
+      prediction: predictions[i],
+      residual: residuals[i],
+    }))
+    .sort((a, b) => Math.abs(b.residual) - Math.abs(a.residual))
+    .slice(0, topN);
+
+  return {
+    summary: {
+      count: residuals.length,
+      meanResidual,
+      sdResidual: Math.sqrt(mean(residuals.map(r => (r - meanResidual) ** 2))),
+      mae: mean(residuals.map(Math.abs)),
+      bySpread,
+      byWeek,
+    },
+    outliers,
+  };
+}
+
+// ============================================================================
+// Full run
+// ============================================================================
+
+export interface CalibrationOptions {
+  estimator: Estimator;
+  features: string[];
+  minTrainWeeks?: number;
+  thresholds?: GateThresholds;
+}
+
+export interface GridResult extends Hyperparams {
+  cvRmse: number;
+}
+
+export interface CalibrationRunResult {
+  estimator: EstimatorName;
+  featureNames: string[];
+  best: GridResult;
+  grid: GridResult[];
+  intercept: number;
+  coefficients: Record<string, { standardized: number; original: number }>;
+  scalers: Record<string, ScalerParams>;
+  train: FitMetrics;
+  /** Out-of-sample (walk-forward) metrics over the CV test weeks */
+  walkForward: FitMetrics;
+  gates: GateResults;
+  residuals: ResidualSummary;
+  outliers: ResidualOutlier[];
+  /** Rows predicted out of sample (the CV test weeks) */
+  walkForwardRowIds: string[];
+  folds: number;
+}
+
+/**
+ * Fit, cross-validate, gate and diagnose one calibration
+ */
+export function runCalibration(rows: CalibrationRow[], options: CalibrationOptions): CalibrationRunResult {
+  const { estimator, minTrainWeeks = 3, thresholds = DEFAULT_GATE_THRESHOLDS } = options;
+  const featureNames = estimator.expandFeatures ? estimator.expandFeatures(options.features) : options.features;
+  const design = buildDesignMatrix(rows, featureNames);
+  const y = rows.map(r => r.target);
+  const w = rows.map(r => r.weight);
+
+  const folds = timeSeriesFolds(rows, minTrainWeeks);
+  if (folds.length === 0) {
+    throw new Error(`Need more than ${minTrainWeeks} weeks of rows for time-series CV`);
+  }
+  const testIndices = folds.flatMap(f => f.testIndices);
+  // Each fold standardizes with scalers from its own training rows
+  const foldScalers = folds.map(fold => fitScalers(design.raw, featureNames, fold.trainIndices));
+
+  const predictOutOfSample = (params: Hyperparams): number[] => {
+    const predictions = new Array(rows.length).fill(NaN);
+    folds.forEach((fold, f) => {
+      const fitted = estimator.fit(
+        standardize(design, fold.trainIndices, foldScalers[f]),
+        fold.trainIndices.map(i => y[i]),
+        fold.trainIndices.map(i => w[i]),
+        params
+      );
+      const XTest = standardize(design, fold.testIndices, foldScalers[f]);
+      fold.testIndices.forEach((rowIndex, k) => {
+        predictions[rowIndex] = XTest[k].reduce((sum, v, j) => sum + v * fitted[j + 1], fitted[0]);
+      });
+    });
+    return predictions;
+  };
+
+  let best: { result: GridResult; predictions: number[] } | null = null;
+  const grid: GridResult[] = [];
+  for (const params of estimator.grid) {
+    const predictions = predictOutOfSample(params);
+    const metrics = computeFitMetrics(
+      testIndices.map(i => y[i]),
+      testIndices.map(i => predictions[i]),
+      testIndices.map(i => w[i])
+    );
+    const result = { ...params, cvRmse: metrics.rmse };
+    grid.push(result);
+    if (!best || result.cvRmse < best.result.cvRmse) {
+      best = { result, predictions };
+    }
+  }
+
+  const allIndices = rows.map((_, i) => i);
+  const fitted = estimator.fit(standardize(design, allIndices), y, w, best!.result);
+  const { intercept, coefficients } = toOriginalScale(fitted, design);
+  const trainPredictions = design.raw.map(x => x.reduce((sum, v, j) => sum + v * coefficients[featureNames[j]].original, intercept));
+
+  const wfRows = testIndices.map(i => rows[i]);
+  const wfY = testIndices.map(i => y[i]);
+  const wfPred = testIndices.map(i => best!.predictions[i]);
+  const wfW = testIndices.map(i => w[i]);
+  const diagnostics = buildResidualDiagnostics(wfRows, wfPred);
+
+  return {
+    estimator: estimator.name,
+    featureNames,
+    best: best!.result,
+    grid,
+    intercept,
+    coefficients,
+    scalers: design.scalers,
+    train: computeFitMetrics(y, trainPredictions, w),
+    walkForward: computeFitMetrics(wfY, wfPred, wfW),
+    gates: checkGates(wfY, wfPred, wfW, coefficients, thresholds),
+    residuals: diagnostics.summary,
+    outliers: diagnostics.outliers,
+    walkForwardRowIds: wfRows.map(r => r.gameId),
+    folds: folds.length,
+  };
+}
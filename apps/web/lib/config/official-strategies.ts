@@ -48,8 +48,9 @@ export async function getOfficialStrategyTags(): Promise<string[]> {
   // Dynamic import to avoid circular dependencies
   const { prisma } = await import('@/lib/prisma');
   
+  // Users' own rulesets are never official (lib/portfolio.ts)
   const activeRulesets = await prisma.ruleset.findMany({
-    where: { active: true },
+    where: { active: true, userId: null },
     select: { name: true },
   });
   
@@ -0,0 +1,296 @@
+/**
+ * Core V1 Moneyline Helper
+ *
+ * Turns the Core V1 spread into a win probability and prices it against the market:
+ * homeWinProb = Φ(coreSpreadHma / σ)
+ *
+ * Where σ is the standard deviation of (actual margin - Core V1 spread), fitted on
+ * historical games by scripts/train-moneyline-v1.ts, which stores the sample size and
+ * fit metrics next to it (training_stats null = σ is still the prior). Market
+ * probabilities are de-vigged before comparison, and the reported edge is expected
+ * value per unit staked at the offered price.
+ */
+
+// Static import - bundled by Next.js/Vercel
+import moneylineConfigData from './data/core_v1_moneyline_config.json';
+import { americanToDecimal, probToAmerican, removeVig } from './market-line-helpers';
+
+interface MoneylineConfig {
+  margin_sigma: number;
+  max_abs_spread: number;
+  prob_floor: number;
+  prob_ceiling: number;
+  min_ev_for_pick: number;
+  grade_thresholds: {
+    A: number;
+    B: number;
+    C: number;
+  };
+  /** Written by scripts/train-moneyline-v1.ts; null while margin_sigma is the unfitted prior */
+  training_stats: MoneylineTrainingStats | null;
+  trained_on: string | null;
+}
+
+export interface MoneylineTrainingStats {
+  seasons: number[];
+  sample_size: number;
+  mean_residual: number;
+  log_loss: number;
+  brier: number;
+  market_sample_size?: number;
+  market_log_loss?: number;
+  market_brier?: number;
+}
+
+/** Fewest games the trainer will fit σ on */
+export const MIN_SIGMA_TRAINING_GAMES = 50;
+
+export interface MarginSigmaSample {
+  /** Core V1 spread at kickoff, HMA frame */
+  modelSpread: number;
+  /** Final home score minus away score */
+  actualMargin: number;
+  /** De-vigged pre-kick market home win probability, if priced */
+  marketHomeProb: number | null;
+}
+
+export interface MarginSigmaFit {
+  sigma: number;
+  sampleSize: number;
+  meanResidual: number;
+  /** Model win probabilities at the fitted σ, ties excluded */
+  logLoss: number;
+  brier: number;
+  /** De-vigged market on the decided games that had prices (null if none) */
+  market: { sampleSize: number; logLoss: number; brier: number } | null;
+}
+
+const MONEYLINE_CONFIG: MoneylineConfig = moneylineConfigData as MoneylineConfig;
+
+export interface MoneylinePick {
+  homeWinProb: number;
+  awayWinProb: number;
+  marketHomeProb: number | null; // De-vigged
+  marketAwayProb: number | null; // De-vigged
+  homeEv: number | null; // EV per unit staked at home price
+  awayEv: number | null; // EV per unit staked at away price
+  side: 'home' | 'away' | null;
+  recommendedTeamId: string | null;
+  recommendedTeamName: string | null;
+  price: number | null; // Market price for the recommended side
+  fairPrice: number | null; // Model fair price for the recommended side
+  ev: number | null; // EV of the recommended side (0.05 = +5%)
+  probEdge: number | null; // Model prob - de-vigged market prob for the recommended side
+  pickLabel: string | null;
+  grade: 'A' | 'B' | 'C' | null;
+}
+
+/**
+ * Standard normal CDF (Abramowitz & Stegun 7.1.26, |error| < 1.5e-7)
+ */
+export function normalCdf(z: number): number {
+  const t = 1 / (1 + 0.3275911 * Math.abs(z) / Math.SQRT2);
+  const poly = t * (0.254829592 + t * (-0.284496736 + t * (1.421413741 + t * (-1.453152027 + t * 1.061405429))));
+  const erf = 1 - poly * Math.exp(-(z * z) / 2);
+  return z >= 0 ? (1 + erf) / 2 : (1 - erf) / 2;
+}
+
+/**
+ * Mean log loss and Brier score of probabilities against outcomes
+ */
+function scoreProbabilities(probs: number[], outcomes: boolean[]): { logLoss: number; brier: number } {
+  let logLoss = 0;
+  let brier = 0;
+  for (let i = 0; i < probs.length; i++) {
+    const p = Math.max(1e-6, Math.min(1 - 1e-6, probs[i]));
+    const y = outcomes[i] ? 1 : 0;
+    logLoss += -(y * Math.log(p) + (1 - y) * Math.log(1 - p));
+    brier += (p - y) * (p - y);
+  }
+  return { logLoss: logLoss / probs.length, brier: brier / probs.length };
+}
+
+/**
+ * Fit σ for actualMargin - modelSpread ~ Normal(0, σ²)
+ *
+ * σ is the RMS of the residuals (MLE for a zero-mean normal). Win probabilities at
+ * that σ are then scored against outcomes, alongside the market where priced.
+ *
+ * @throws if there are fewer than MIN_SIGMA_TRAINING_GAMES samples
+ */
+export function fitMarginSigma(samples: MarginSigmaSample[]): MarginSigmaFit {
+  if (samples.length < MIN_SIGMA_TRAINING_GAMES) {
+    throw new Error(`Insufficient training data: ${samples.length} games (need at least ${MIN_SIGMA_TRAINING_GAMES})`);
+  }
+
+  const residuals = samples.map(s => s.actualMargin - s.modelSpread);
+  const meanResidual = residuals.reduce((a, b) => a + b, 0) / residuals.length;
+  const sigma = Math.sqrt(residuals.reduce((a, r) => a + r * r, 0) / residuals.length);
+
+  const decided = samples.filter(s => s.actualMargin !== 0);
+  const model = scoreProbabilities(
+    decided.map(s => computeHomeWinProb(s.modelSpread, sigma)),
+    decided.map(s => s.actualMargin > 0)
+  );
+
+  const priced = decided.filter(s => s.marketHomeProb !== null);
+  const market = priced.length > 0
+    ? {
+        sampleSize: priced.length,
+        ...scoreProbabilities(priced.map(s => s.marketHomeProb as number), priced.map(s => s.actualMargin > 0)),
+      }
+    : null;
+
+  return { sigma, sampleSize: samples.length, meanResidual, logLoss: model.logLoss, brier: model.brier, market };
+}
+
+/**
+ * Clamp a value between min and max
+ */
+function clamp(value: number, min: number, max: number): number {
+  return Math.max(min, Math.min(max, value));
+}
+
+/**
+ * Get the calibrated margin standard deviation (σ)
+ */
+export function getMarginSigma(): number {
+  return MONEYLINE_CONFIG.margin_sigma;
+}
+
+/**
+ * Fit statistics behind the shipped σ (null = unfitted prior)
+ */
+export function getMarginSigmaTrainingStats(): MoneylineTrainingStats | null {
+  return MONEYLINE_CONFIG.training_stats;
+}
+
+/**
+ * Probability that the home team wins the game outright
+ *
+ * @param coreSpreadHma - Core V1 spread in HMA frame (positive = home favored)
+ * @param sigma - Margin standard deviation (defaults to calibrated value)
+ * @returns Home win probability, clamped to [prob_floor, prob_ceiling]
+ */
+export function computeHomeWinProb(
+  coreSpreadHma: number,
+  sigma: number = MONEYLINE_CONFIG.margin_sigma
+): number {
+  const raw = normalCdf(coreSpreadHma / sigma);
+  return clamp(raw, MONEYLINE_CONFIG.prob_floor, MONEYLINE_CONFIG.prob_ceiling);
+}
+
+/**
+ * Expected value per unit staked
+ *
+ * @param winProb - Model win probability for the side
+ * @param americanPrice - Offered American price for the side
+ * @returns EV (e.g. 0.05 = +5% per unit staked)
+ */
+export function computeMoneylineEV(winProb: number, americanPrice: number): number {
+  return winProb * americanToDecimal(americanPrice) - 1;
+}
+
+/**
+ * Get Moneyline confidence grade (A/B/C or null)
+ *
+ * @param ev - EV of the recommended side
+ * @returns Grade or null if EV is below the C threshold
+ */
+export function getMoneylineGrade(ev: number | null): 'A' | 'B' | 'C' | null {
+  if (ev === null || !Number.isFinite(ev)) {
+    return null;
+  }
+
+  const thresholds = MONEYLINE_CONFIG.grade_thresholds;
+  if (ev >= thresholds.A) return 'A';
+  if (ev >= thresholds.B) return 'B';
+  if (ev >= thresholds.C) return 'C';
+  return null;
+}
+
+/**
+ * Get complete Moneyline pick info
+ *
+ * @param coreSpreadHma - Core V1 spread in HMA frame
+ * @param homePrice - Home American price (null if unavailable)
+ * @param awayPrice - Away American price (null if unavailable)
+ * @param homeTeamId - Home team ID
+ * @param awayTeamId - Away team ID
+ * @param homeTeamName - Home team name
+ * @param awayTeamName - Away team name
+ * @param minEv - Minimum EV to recommend a side (defaults to min_ev_for_pick)
+ * @returns Model/market probabilities, per-side EV and the recommended side (if any)
+ */
+export function getMoneylinePick(
+  coreSpreadHma: number,
+  homePrice: number | null,
+  awayPrice: number | null,
+  homeTeamId: string,
+  awayTeamId: string,
+  homeTeamName: string,
+  awayTeamName: string,
+  minEv: number = MONEYLINE_CONFIG.min_ev_for_pick
+): MoneylinePick {
+  const homeWinProb = computeHomeWinProb(coreSpreadHma);
+  const awayWinProb = 1 - homeWinProb;
+
+  const noVig = removeVig(homePrice, awayPrice);
+  const homeEv = homePrice !== null ? computeMoneylineEV(homeWinProb, homePrice) : null;
+  const awayEv = awayPrice !== null ? computeMoneylineEV(awayWinProb, awayPrice) : null;
+
+  const pick: MoneylinePick = {
+    homeWinProb,
+    awayWinProb,
+    marketHomeProb: noVig?.homeProb ?? null,
+    marketAwayProb: noVig?.awayProb ?? null,
+    homeEv,
+    awayEv,
+    side: null,
+    recommendedTeamId: null,
+    recommendedTeamName: null,
+    price: null,
+    fairPrice: null,
+    ev: null,
+    probEdge: null,
+    pickLabel: null,
+    grade: null,
+  };
+
+  // Huge spreads: tails of the margin distribution are not trustworthy for ML pricing
+  if (!Number.isFinite(coreSpreadHma) || Math.abs(coreSpreadHma) > MONEYLINE_CONFIG.max_abs_spread) {
+    return pick;
+  }
+
+  let side: 'home' | 'away' | null = null;
+  if (homeEv !== null && homeEv >= minEv && (awayEv === null || homeEv >= awayEv)) {
+    side = 'home';
+  } else if (awayEv !== null && awayEv >= minEv) {
+    side = 'away';
+  }
+
+  if (side === null) {
+    return pick;
+  }
+
+  const isHome = side === 'home';
+  const price = (isHome ? homePrice : awayPrice) as number;
+  const winProb = isHome ? homeWinProb : awayWinProb;
+  const marketProb = isHome ? pick.marketHomeProb : pick.marketAwayProb;
+  const ev = (isHome ? homeEv : awayEv) as number;
+  const teamName = isHome ? homeTeamName : awayTeamName;
+  const priceStr = price < 0 ? price.toString() : `+${price}`;
+
+  return {
+    ...pick,
+    side,
+    recommendedTeamId: isHome ? homeTeamId : awayTeamId,
+    recommendedTeamName: teamName,
+    price,
+    fairPrice: probToAmerican(winProb),
+    ev,
+    probEdge: marketProb !== null ? winProb - marketProb : null,
+    pickLabel: `${teamName} ${priceStr}`,
+    grade: getMoneylineGrade(ev),
+  };
+}
@@ -7,80 +7,23 @@
  * 
  * Where:
  * - ratingDiffBlend = homeRatingBlend - awayRatingBlend (denormalized, in V2 scale)
- * - hfaPoints = 2.0 for true home games, 0.0 for neutral
+ * - hfaPoints = effective HFA for the game (HFA v3, see hfa-model.ts), 0.0 for neutral
+ * - Injury adjustment (injury-impact.ts) is added on top when a gameId is given
  * - Frame: HMA (Home minus Away)
  *   - Positive = home should be favored
  *   - Negative = away should be favored
+ *
+ * Coefficients, blend config, MFTR ratings and the HFA v2 fallback come from the
+ * model registry (model-registry.ts): the season's active version, or `modelVersion`.
  */
 
 import { prisma } from './prisma';
-// Static imports - bundled by Next.js/Vercel
-import coreCoefficients2025 from './data/core_coefficients_2025_fe_v1.json';
-import blendConfig from './data/rating_blend_config.json';
-import mftrRatings from './data/mftr_ratings_ridge.json';
-import hfaConfig from './data/core_v1_hfa_config.json';
-
-interface BlendConfig {
-  optimalWeight: number;
-  normalization: {
-    v2Mean: number;
-    v2Std: number;
-    mftrMean: number;
-    mftrStd: number;
-  };
-}
-
-// Static data - no caching needed, already loaded at build time
-const BLEND_CONFIG: BlendConfig = blendConfig as BlendConfig;
-const MFTR_RATINGS_MAP: Map<string, number> = new Map(Object.entries(mftrRatings as Record<string, number>));
-
-interface TeamAdjustment {
-  adjustment: number;
-  sampleSize: number;
-  meanResidual: number;
-  stdevResidual: number;
-}
-
-interface HfaConfig {
-  baseHfaPoints: number;
-  clipRange: [number, number];
-  teamAdjustments: Record<string, TeamAdjustment>;
-}
-
-// Type assertion: JSON clipRange is number[] but we know it's a 2-element tuple
-// Cast to any first to handle JSON import typing, then assert as tuple
-const clipRangeArray = hfaConfig.clipRange as any as number[];
-const HFA_CONFIG: HfaConfig = {
-  ...hfaConfig,
-  clipRange: [clipRangeArray[0], clipRangeArray[1]] as [number, number],
-} as HfaConfig;
-
-interface CoreCoefficients {
-  beta0: number;
-  betaRatingDiff: number;
-  betaHfa: number;
-  season: number;
-  featureVersion: string;
-  calibratedOnSet: 'A';
-  timestamp: string;
-}
-
-// Static coefficients - no caching needed, already loaded at build time
-const CORE_V1_COEFFS_2025: CoreCoefficients = coreCoefficients2025 as CoreCoefficients;
-
-/**
- * Get blend configuration (static import, no file I/O)
- */
-function getBlendConfig(): BlendConfig | null {
-  return BLEND_CONFIG;
-}
-
-/**
- * Get MFTR ratings (static import, no file I/O)
- */
-function getMFTRRatings(): Map<string, number> | null {
-  return MFTR_RATINGS_MAP;
-}
+import { loadTeamSeasonRating } from './rating-snapshots-context';
+import { HfaBreakdown, computeHfaBreakdown } from './hfa-model';
+import { getGameHfa } from './hfa-context';
+import { InjuryAdjustment } from './injury-impact';
+import { getGameInjuryAdjustment } from './injury-context';
+import { BUNDLED_CORE_MODEL, CoreModel, resolveCoreModel } from './model-registry';
 
 /**
  * Compute ratingDiffBlend from V2 ratings and MFTR
@@ -89,21 +32,18 @@ function getMFTRRatings(): Map<string, number> | null {
  * @param awayTeamId - Away team ID
  * @param homeV2 - Home team V2 rating
  * @param awayV2 - Away team V2 rating
+ * @param model - Registered model supplying the blend config and MFTR ratings (default: bundled)
  * @returns ratingDiffBlend in HMA frame (denormalized, V2 scale)
  */
 export function computeRatingDiffBlend(
   homeTeamId: string,
   awayTeamId: string,
   homeV2: number,
-  awayV2: number
+  awayV2: number,
+  model: CoreModel = BUNDLED_CORE_MODEL
 ): number {
-  const blendConfig = getBlendConfig();
-  const mftrRatings = getMFTRRatings();
-
-  // If no blend config or MFTR, fall back to raw V2 difference
-  if (!blendConfig || !mftrRatings) {
-    return homeV2 - awayV2;
-  }
+  const blendConfig = model.blend;
+  const mftrRatings = model.mftrRatings;
 
   const homeMFTR = mftrRatings.get(homeTeamId);
   const awayMFTR = mftrRatings.get(awayTeamId);
@@ -134,61 +74,28 @@ export function computeRatingDiffBlend(
 }
 
 /**
- * Get Core V1 coefficients (static import, no file I/O)
- */
-function getCoreCoefficients(): CoreCoefficients {
-  // Validate
-  if (typeof CORE_V1_COEFFS_2025.beta0 !== 'number' || 
-      typeof CORE_V1_COEFFS_2025.betaRatingDiff !== 'number' || 
-      typeof CORE_V1_COEFFS_2025.betaHfa !== 'number') {
-    throw new Error('Invalid Core V1 coefficients format');
-  }
-  
-  return CORE_V1_COEFFS_2025;
-}
-
-/**
- * Compute effective HFA for a game using HFA v2 config
+ * Compute effective HFA for a game using the HFA v2 config (no travel/rest context)
  * 
  * @param homeTeamId - Home team ID
  * @param neutralSite - Whether game is at neutral site
+ * @param model - Registered model supplying the HFA v2 config (default: bundled)
  * @returns Effective HFA points (0.0 for neutral, otherwise base + adjustment, clipped)
  */
 export function computeEffectiveHfa(
   homeTeamId: string,
-  neutralSite: boolean
-): {
-  effectiveHfa: number;
-  baseHfa: number;
-  teamAdjustment: number;
-  rawHfa: number;
-} {
-  // Neutral site: HFA = 0
-  if (neutralSite) {
-    return {
-      effectiveHfa: 0.0,
-      baseHfa: HFA_CONFIG.baseHfaPoints,
-      teamAdjustment: 0.0,
-      rawHfa: 0.0,
-    };
-  }
-  
-  // True home game: base + team adjustment
-  const baseHfa = HFA_CONFIG.baseHfaPoints;
-  const teamAdjustmentData = HFA_CONFIG.teamAdjustments[homeTeamId];
-  const teamAdjustment = teamAdjustmentData?.adjustment ?? 0.0;
-  const rawHfa = baseHfa + teamAdjustment;
-  
-  // Clip to range
-  const [clipMin, clipMax] = HFA_CONFIG.clipRange;
-  const effectiveHfa = Math.max(clipMin, Math.min(clipMax, rawHfa));
-  
-  return {
-    effectiveHfa,
-    baseHfa,
-    teamAdjustment,
-    rawHfa,
-  };
+  neutralSite: boolean,
+  model: CoreModel = BUNDLED_CORE_MODEL
+): HfaBreakdown {
+  return computeHfaBreakdown(model.legacyHfa, {
+    homeTeamId,
+    awayTeamId: '',
+    neutralSite,
+    homeState: null,
+    awayState: null,
+    homeConference: null,
+    homeRestDays: null,
+    awayRestDays: null,
+  });
 }
 
 /**
@@ -196,13 +103,15 @@ export function computeEffectiveHfa(
  * 
  * @param ratingDiffBlend - Home rating blend minus away rating blend (denormalized, V2 scale)
  * @param hfaPoints - Home field advantage points (from computeEffectiveHfa or legacy 2.0 for home, 0.0 for neutral)
+ * @param model - Registered model supplying the coefficients (default: bundled)
  * @returns Predicted spread in HMA frame (positive = home favored, negative = away favored)
  */
 export function computeCoreV1Spread(
   ratingDiffBlend: number,
-  hfaPoints: number
+  hfaPoints: number,
+  model: CoreModel = BUNDLED_CORE_MODEL
 ): number {
-  const coeffs = getCoreCoefficients();
+  const coeffs = model.coefficients;
   
   // Core V1 OLS: y_hma = β₀ + β_rating * ratingDiffBlend + β_hfa * hfaPoints
   const spreadHma = coeffs.beta0 + coeffs.betaRatingDiff * ratingDiffBlend + coeffs.betaHfa * hfaPoints;
@@ -210,6 +119,30 @@ export function computeCoreV1Spread(
   return spreadHma;
 }
 
+/**
+ * Core V1 spread from two teams' season ratings (the math behind getCoreV1SpreadFromTeams)
+ *
+ * @param useV1Ratings - Ratings are Balanced V1 power ratings (already in spread points);
+ *   otherwise they are V2 ratings run through the rating blend and the model coefficients
+ * @returns Spread in HMA frame and the rating diff it used
+ */
+export function computeCoreV1SpreadFromRatings(
+  homeTeamId: string,
+  awayTeamId: string,
+  homeRating: number,
+  awayRating: number,
+  hfaPoints: number,
+  useV1Ratings: boolean,
+  model: CoreModel = BUNDLED_CORE_MODEL
+): { coreSpreadHma: number; ratingDiffBlend: number } {
+  if (useV1Ratings) {
+    const ratingDiff = homeRating - awayRating;
+    return { coreSpreadHma: ratingDiff + hfaPoints, ratingDiffBlend: ratingDiff };
+  }
+  const ratingDiffBlend = computeRatingDiffBlend(homeTeamId, awayTeamId, homeRating, awayRating, model);
+  return { coreSpreadHma: computeCoreV1Spread(ratingDiffBlend, hfaPoints, model), ratingDiffBlend };
+}
+
 /**
  * Get Core V1 spread and favorite/dog information
  * 
@@ -362,6 +295,10 @@ export function getATSPick(
  * @param neutralSite - Whether game is at neutral site
  * @param homeTeamName - Home team name
  * @param awayTeamName - Away team name
+ * @param asOf - Use the ratings snapshot and model version live at this time (null = latest)
+ * @param gameDate - Kickoff, for the HFA rest differential (null = no rest component)
+ * @param gameId - Game whose Injury rows adjust the spread (null = no injury adjustment)
+ * @param modelVersion - Registered model version (null = the season's active version)
  * @returns Core V1 spread info
  */
 export async function getCoreV1SpreadFromTeams(
@@ -370,7 +307,11 @@ export async function getCoreV1SpreadFromTeams(
   awayTeamId: string,
   neutralSite: boolean,
   homeTeamName: string,
-  awayTeamName: string
+  awayTeamName: string,
+  asOf: Date | null = null,
+  gameDate: Date | null = null,
+  gameId: string | null = null,
+  modelVersion: string | null = null
 ): Promise<{
   coreSpreadHma: number;
   ratingDiffBlend: number;
@@ -382,74 +323,38 @@ export async function getCoreV1SpreadFromTeams(
   dogSpread: number;
   favoriteLine: string;
   dogLine: string;
-  hfaInfo: {
-    effectiveHfa: number;
-    baseHfa: number;
-    teamAdjustment: number;
-    rawHfa: number;
-  };
+  hfaInfo: HfaBreakdown;
+  injuryInfo: InjuryAdjustment | null;
+  modelVersion: string;
 }> {
+  const model = await resolveCoreModel(season, modelVersion, asOf);
+
   // Load V1 ratings from database (updated with conference adjustments)
-  // Fallback to V2 if V1 not available
-  const [homeRatingV1, awayRatingV1] = await Promise.all([
-    prisma.teamSeasonRating.findUnique({
-      where: {
-        season_teamId_modelVersion: {
-          season,
-          teamId: homeTeamId,
-          modelVersion: 'v1',
-        },
-      },
-    }),
-    prisma.teamSeasonRating.findUnique({
-      where: {
-        season_teamId_modelVersion: {
-          season,
-          teamId: awayTeamId,
-          modelVersion: 'v1',
-        },
-      },
-    }),
+  // Fallback to V2 if V1 not available; with asOf, from the rating snapshots
+  const [homeRating, awayRating] = await Promise.all([
+    loadTeamSeasonRating(season, homeTeamId, ['v1', 'v2'], asOf),
+    loadTeamSeasonRating(season, awayTeamId, ['v1', 'v2'], asOf),
   ]);
 
-  // Fallback to V2 if V1 not available
-  const homeRating = homeRatingV1 || await prisma.teamSeasonRating.findUnique({
-    where: {
-      season_teamId_modelVersion: {
-        season,
-        teamId: homeTeamId,
-        modelVersion: 'v2',
-      },
-    },
-  });
-
-  const awayRating = awayRatingV1 || await prisma.teamSeasonRating.findUnique({
-    where: {
-      season_teamId_modelVersion: {
-        season,
-        teamId: awayTeamId,
-        modelVersion: 'v2',
-      },
-    },
-  });
-
   if (!homeRating || !awayRating) {
-    throw new Error(`Missing ratings (v1 or v2) for ${homeTeamId} or ${awayTeamId}`);
+    throw new Error(
+      `Missing ratings (v1 or v2) for ${homeTeamId} or ${awayTeamId}${asOf ? ` as of ${asOf.toISOString()}` : ''}`
+    );
   }
 
   // Use V1 ratings (with conference adjustments) or fallback to V2
   const homeRatingValue = Number(homeRating.powerRating || homeRating.rating || 0);
   const awayRatingValue = Number(awayRating.powerRating || awayRating.rating || 0);
   
-  // Get HFA points using HFA v2
-  const hfaInfo = computeEffectiveHfa(homeTeamId, neutralSite);
+  // Get HFA points using HFA v3 (season params + travel/altitude/rest/crowd components)
+  const hfaInfo = await getGameHfa({ season, homeTeamId, awayTeamId, neutralSite, gameDate }, asOf, model.legacyHfa);
   const hfaPoints = hfaInfo.effectiveHfa;
 
   // CRITICAL: Use V1 Power Ratings directly for spread calculation
   // Balanced ratings are already in spread points (scaled by 14.0), so no additional scaling needed
-  const hasV1Ratings = homeRatingV1 && awayRatingV1 && 
-                       (homeRatingV1.powerRating !== null || homeRatingV1.rating !== null) &&
-                       (awayRatingV1.powerRating !== null || awayRatingV1.rating !== null);
+  const hasV1Ratings = homeRating.modelVersion === 'v1' && awayRating.modelVersion === 'v1' &&
+                       (homeRating.powerRating !== null || homeRating.rating !== null) &&
+                       (awayRating.powerRating !== null || awayRating.rating !== null);
 
   let coreSpreadHma: number;
   let ratingDiffBlend: number;
@@ -459,9 +364,9 @@ export async function getCoreV1SpreadFromTeams(
     // HMA frame: positive = home favored, negative = away favored
     // No scaling needed - ratings are already calibrated to spread points
     const ratingDiff = homeRatingValue - awayRatingValue;
-    coreSpreadHma = ratingDiff + hfaPoints; // Add HFA (already in points)
-    // ratingDiffBlend for reference (used in diagnostics)
-    ratingDiffBlend = ratingDiff; // Keep for diagnostics
+    ({ coreSpreadHma, ratingDiffBlend } = computeCoreV1SpreadFromRatings(
+      homeTeamId, awayTeamId, homeRatingValue, awayRatingValue, hfaPoints, true, model
+    ));
     
     console.log(`[Core V1 Spread] Using Balanced V1 Power Ratings (no scaling):`, {
       homeTeam: homeTeamName,
@@ -473,25 +378,27 @@ export async function getCoreV1SpreadFromTeams(
       spreadHma: coreSpreadHma.toFixed(2),
     });
   } else {
-    // Fallback: Use raw stat blend (legacy logic)
-    // For blending, we still need V2-scale values
-    const homeV2 = homeRatingValue;
-    const awayV2 = awayRatingValue;
-    
-    // Compute ratingDiffBlend using raw stats blend
-    ratingDiffBlend = computeRatingDiffBlend(homeTeamId, awayTeamId, homeV2, awayV2);
-    
-    // Use the OLS model with blended ratings
-    coreSpreadHma = computeCoreV1Spread(ratingDiffBlend, hfaPoints);
+    // Fallback: Use raw stat blend (legacy logic) on V2-scale values
+    ({ coreSpreadHma, ratingDiffBlend } = computeCoreV1SpreadFromRatings(
+      homeTeamId, awayTeamId, homeRatingValue, awayRatingValue, hfaPoints, false, model
+    ));
     
     console.log(`[Core V1 Spread] Using raw stat blend (V1 ratings not available):`, {
       homeTeam: homeTeamName,
       awayTeam: awayTeamName,
       ratingDiffBlend: ratingDiffBlend.toFixed(2),
       spreadHma: coreSpreadHma.toFixed(2),
+      modelVersion: model.modelVersion,
     });
   }
 
+  // Injury adjustment from the game's Injury rows (its own line item in the breakdown);
+  // 0 until the injury scale has been fitted
+  const injuryInfo = gameId ? await getGameInjuryAdjustment(gameId, homeTeamId, awayTeamId, asOf) : null;
+  if (injuryInfo && injuryInfo.injuryAdjPts !== 0) {
+    coreSpreadHma += injuryInfo.injuryAdjPts;
+  }
+
   // Convert to favorite-centric format for display
   const isHomeFavorite = coreSpreadHma > 0;
   const favoriteTeamId = isHomeFavorite ? homeTeamId : awayTeamId;
@@ -523,6 +430,8 @@ export async function getCoreV1SpreadFromTeams(
     ...spreadInfo,
     ratingDiffBlend,
     hfaInfo, // Expose HFA breakdown for UI
+    injuryInfo, // Injury adjustment breakdown (null when no gameId)
+    modelVersion: model.modelVersion, // Registry version that produced the spread
   };
 }
 
@@ -5,10 +5,15 @@
  * modelTotal = marketTotal + clamp(β * (modelSpread - marketSpread), -maxOverlay, +maxOverlay)
  * 
  * Where β is learned from historical data.
+ * 
+ * When a Totals V2 projection (totals-v2-model.ts) is available and its config has
+ * been fitted, getOUPick uses it as the model total and the overlay is only the
+ * fallback.
  */
 
 // Static import - bundled by Next.js/Vercel
 import totalsConfigData from './data/core_v1_totals_config.json';
+import { isTotalsV2Fitted } from './totals-v2-model';
 
 interface TotalsConfig {
   beta_spread_diff_to_total: number;
@@ -155,19 +160,23 @@ export function getOUGrade(ouEdge: number | null): 'A' | 'B' | 'C' | null {
  * @param marketTotal - Market closing total
  * @param marketSpreadHma - Market closing spread in HMA format
  * @param modelSpreadHma - Core V1 model spread in HMA format
+ * @param totalsV2Total - Totals V2 projected total (null or unfitted = spread-overlay total)
  * @returns Complete OU pick information
  */
 export function getOUPick(
   marketTotal: number | null,
   marketSpreadHma: number | null,
-  modelSpreadHma: number | null
+  modelSpreadHma: number | null,
+  totalsV2Total: number | null = null
 ): {
   modelTotal: number | null;
   ouEdgePts: number | null;
   pickLabel: string | null;
   grade: 'A' | 'B' | 'C' | null;
 } {
-  const modelTotal = computeCoreV1Total(marketTotal, marketSpreadHma, modelSpreadHma);
+  const modelTotal = totalsV2Total !== null && Number.isFinite(totalsV2Total) && isTotalsV2Fitted()
+    ? totalsV2Total
+    : computeCoreV1Total(marketTotal, marketSpreadHma, modelSpreadHma);
   const ouEdgePts = computeOUEdge(modelTotal, marketTotal);
   const pickLabel = getOUPickLabel(ouEdgePts, marketTotal);
   const grade = getOUGrade(ouEdgePts);
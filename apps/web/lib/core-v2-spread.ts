@@ -42,7 +42,7 @@ interface HybridSpreadResult {
 const V1_WEIGHT = 0.7;
 const V2_WEIGHT = 0.3;
 const V2_SCALE = 9.0; // Optimal scale from optimization
-const HFA = 2.5; // Home field advantage
+const HFA = 2.5; // Default home field advantage when no per-game HFA (hfa-context.ts) is supplied
 
 // V2 Matchup weights (from optimization: Balanced Matchup scenario)
 const W_RUN = 0.4;
@@ -130,13 +130,15 @@ function calculateMatchups(
  * @param awayGrades - Away team unit grades
  * @param neutralSite - Whether game is at neutral site
  * @param weather - Optional weather data for adjustments
+ * @param hfaPoints - Per-game HFA (null = flat default)
  * @returns V2 spread in HMA frame
  */
 export function calculateV2Spread(
   homeGrades: UnitGrades,
   awayGrades: UnitGrades,
   neutralSite: boolean = false,
-  weather: WeatherData | null = null
+  weather: WeatherData | null = null,
+  hfaPoints: number | null = null
 ): number {
   const matchups = calculateMatchups(homeGrades, awayGrades, weather);
   
@@ -147,8 +149,8 @@ export function calculateV2Spread(
     matchups.netExploAdv * W_EXPLO;
 
   // Convert to points using optimal scale
-  const hfaPoints = neutralSite ? 0 : HFA;
-  const v2SpreadHma = compositeZ * V2_SCALE + hfaPoints;
+  const hfa = neutralSite ? 0 : (hfaPoints ?? HFA);
+  const v2SpreadHma = compositeZ * V2_SCALE + hfa;
 
   return v2SpreadHma;
 }
@@ -159,15 +161,17 @@ export function calculateV2Spread(
  * @param homeRating - Home team V1 power rating
  * @param awayRating - Away team V1 power rating
  * @param neutralSite - Whether game is at neutral site
+ * @param hfaPoints - Per-game HFA (null = flat default)
  * @returns V1 spread in HMA frame
  */
 export function calculateV1Spread(
   homeRating: number,
   awayRating: number,
-  neutralSite: boolean = false
+  neutralSite: boolean = false,
+  hfaPoints: number | null = null
 ): number {
-  const hfaPoints = neutralSite ? 0 : HFA;
-  const v1SpreadHma = homeRating - awayRating + hfaPoints;
+  const hfa = neutralSite ? 0 : (hfaPoints ?? HFA);
+  const v1SpreadHma = homeRating - awayRating + hfa;
   return v1SpreadHma;
 }
 
@@ -182,6 +186,7 @@ export function calculateV1Spread(
  * @param homeTeamId - Home team ID (for favorite determination)
  * @param awayTeamId - Away team ID (for favorite determination)
  * @param weather - Optional weather data for adjustments
+ * @param hfaPoints - Per-game HFA applied to both components (null = flat default)
  * @returns Hybrid spread result with all three components
  */
 export function calculateHybridSpread(
@@ -192,13 +197,14 @@ export function calculateHybridSpread(
   neutralSite: boolean = false,
   homeTeamId: string,
   awayTeamId: string,
-  weather: WeatherData | null = null
+  weather: WeatherData | null = null,
+  hfaPoints: number | null = null
 ): HybridSpreadResult {
   // Calculate V1 component
-  const v1SpreadHma = calculateV1Spread(homeRating, awayRating, neutralSite);
+  const v1SpreadHma = calculateV1Spread(homeRating, awayRating, neutralSite, hfaPoints);
 
   // Calculate V2 component (with weather adjustments if provided)
-  const v2SpreadHma = calculateV2Spread(homeGrades, awayGrades, neutralSite, weather);
+  const v2SpreadHma = calculateV2Spread(homeGrades, awayGrades, neutralSite, weather, hfaPoints);
 
   // Blend: 70% V1 + 30% V2
   const hybridSpreadHma = v1SpreadHma * V1_WEIGHT + v2SpreadHma * V2_WEIGHT;
@@ -0,0 +1,164 @@
+/**
+ * Futures Context Loader
+ *
+ * Database side of futures: resolves futures file rows to teams, stores them as
+ * FuturesMarket rows and compares the latest lines with the latest stored season
+ * simulation. The math lives in futures.ts.
+ */
+
+import { prisma } from './prisma';
+import {
+  ConferenceWinnerComparison,
+  DEFAULT_FUTURES_MIN_EDGE,
+  FuturesFileRow,
+  FuturesMarketInput,
+  WinTotalComparison,
+  buildTeamMatcher,
+  compareConferenceWinners,
+  compareWinTotal,
+  latestFuturesMarkets,
+} from './futures';
+import { getLatestSeasonSimulation } from './season-sim-context';
+
+export interface FuturesComparison {
+  season: number;
+  simulation: {
+    id: string;
+    asOfWeek: number;
+    iterations: number;
+    modelVersion: string;
+    createdAt: string;
+  } | null;
+  books: string[];
+  winTotals: WinTotalComparison[];
+  conferenceWinners: ConferenceWinnerComparison[];
+  /** Teams with lines but no simulation result (e.g. non-FBS) */
+  unmatchedTeamIds: string[];
+}
+
+/**
+ * Store futures file rows for a season
+ *
+ * Rows without captured_at are stamped with `capturedAt`. Re-loading the same
+ * file updates its rows instead of duplicating them.
+ */
+export async function saveFuturesRows(
+  season: number,
+  rows: FuturesFileRow[],
+  options: { source: string; capturedAt: Date; dryRun?: boolean }
+): Promise<{ saved: number; skipped: string[] }> {
+  const teams = await prisma.team.findMany({ select: { id: true, name: true, conference: true } });
+  const match = buildTeamMatcher(teams);
+  const conferenceOf = new Map<string, string>(teams.map((t: any) => [t.id, t.conference]));
+
+  const skipped: string[] = [];
+  let saved = 0;
+  for (const row of rows) {
+    if (row.season !== null && row.season !== season) {
+      skipped.push(`row ${row.rowNumber}: season ${row.season} != ${season}`);
+      continue;
+    }
+    const teamId = match(row.team);
+    if (!teamId) {
+      skipped.push(`row ${row.rowNumber}: unknown team "${row.team}"`);
+      continue;
+    }
+    if (options.dryRun) {
+      saved++;
+      continue;
+    }
+
+    const capturedAt = row.capturedAt ?? options.capturedAt;
+    const data = {
+      conference: row.marketType === 'conference_winner' ? row.conference ?? conferenceOf.get(teamId) ?? null : null,
+      line: row.line,
+      overPrice: row.overPrice,
+      underPrice: row.underPrice,
+      price: row.price,
+      source: options.source,
+    };
+    await prisma.futuresMarket.upsert({
+      where: {
+        season_teamId_marketType_bookName_capturedAt: {
+          season,
+          teamId,
+          marketType: row.marketType,
+          bookName: row.bookName,
+          capturedAt,
+        },
+      },
+      update: data,
+      create: { season, teamId, marketType: row.marketType, bookName: row.bookName, capturedAt, ...data },
+    });
+    saved++;
+  }
+
+  return { saved, skipped };
+}
+
+/**
+ * Latest futures lines for a season compared with the latest season simulation
+ *
+ * @param book - Only this book's lines (null = every book)
+ */
+export async function loadFuturesComparison(
+  season: number,
+  options: { book?: string | null; minEdge?: number } = {}
+): Promise<FuturesComparison> {
+  const minEdge = options.minEdge ?? DEFAULT_FUTURES_MIN_EDGE;
+  const rows = await prisma.futuresMarket.findMany({ where: { season } });
+  const markets: FuturesMarketInput[] = latestFuturesMarkets(
+    (rows as any[]).map(row => ({
+      teamId: row.teamId,
+      marketType: row.marketType,
+      conference: row.conference,
+      line: row.line,
+      overPrice: row.overPrice,
+      underPrice: row.underPrice,
+      price: row.price,
+      bookName: row.bookName,
+      capturedAt: row.capturedAt,
+    }))
+  );
+  const books = Array.from(new Set(markets.map(m => m.bookName))).sort();
+  const selected = options.book ? markets.filter(m => m.bookName === options.book) : markets;
+
+  const simulation = await getLatestSeasonSimulation(season);
+  if (!simulation) {
+    return { season, simulation: null, books, winTotals: [], conferenceWinners: [], unmatchedTeamIds: [] };
+  }
+
+  const simByTeam = new Map(simulation.teams.map(t => [t.teamId, t]));
+  const unmatched = new Set<string>();
+  const winTotals: WinTotalComparison[] = [];
+  for (const market of selected) {
+    if (market.marketType !== 'win_total') continue;
+    const sim = simByTeam.get(market.teamId);
+    if (!sim) {
+      unmatched.add(market.teamId);
+      continue;
+    }
+    const comparison = compareWinTotal(market, sim, minEdge);
+    if (comparison) winTotals.push(comparison);
+  }
+  for (const market of selected) {
+    if (market.marketType === 'conference_winner' && !simByTeam.has(market.teamId)) unmatched.add(market.teamId);
+  }
+
+  return {
+    season,
+    simulation: {
+      id: simulation.id,
+      asOfWeek: simulation.asOfWeek,
+      iterations: simulation.iterations,
+      modelVersion: simulation.modelVersion,
+      createdAt: simulation.createdAt.toISOString(),
+    },
+    books,
+    winTotals: winTotals.sort((a, b) =>
+      Math.max(b.overEdge, b.underEdge) - Math.max(a.overEdge, a.underEdge)
+    ),
+    conferenceWinners: compareConferenceWinners(selected, simByTeam, minEdge),
+    unmatchedTeamIds: Array.from(unmatched).sort(),
+  };
+}
@@ -0,0 +1,346 @@
+/**
+ * Futures Market Comparison
+ *
+ * Season win-total and conference-winner prices against the season simulator
+ * (season-simulator.ts): parsing of the local futures file format, no-vig market
+ * probabilities, model probabilities, edges and EV per line.
+ *
+ * Conventions:
+ * - Prices are American odds
+ * - Win totals settle on regular-season wins (title games excluded); whole-number
+ *   lines can push
+ * - A missing win-total price is treated as -110, as for game totals
+ * - Conference-winner prices are de-vigged across the teams the book lists for
+ *   the conference (only when the listed field is overround)
+ */
+
+import { DEFAULT_JUICE } from './book-prices';
+import { americanToDecimal, americanToProb, removeVig } from './market-line-helpers';
+import type { TeamSimResult } from './season-simulator';
+
+export const FUTURES_MARKET_TYPES = ['win_total', 'conference_winner'] as const;
+export type FuturesMarketType = typeof FUTURES_MARKET_TYPES[number];
+
+/** Minimum model-minus-market probability for a flagged edge */
+export const DEFAULT_FUTURES_MIN_EDGE = 0.04;
+
+/**
+ * One row of a futures file (CSV or JSON), before team resolution
+ *
+ * Columns: season, team, market, line, over_price, under_price, price, book,
+ * captured_at, conference
+ */
+export interface FuturesFileRow {
+  rowNumber: number;
+  season: number | null;
+  team: string;
+  marketType: FuturesMarketType;
+  line: number | null;
+  overPrice: number | null;
+  underPrice: number | null;
+  price: number | null;
+  bookName: string;
+  capturedAt: Date | null;
+  conference: string | null;
+}
+
+export interface FuturesMarketInput {
+  teamId: string;
+  marketType: FuturesMarketType;
+  conference: string | null;
+  line: number | null;
+  overPrice: number | null;
+  underPrice: number | null;
+  price: number | null;
+  bookName: string;
+  capturedAt: Date | string;
+}
+
+export interface WinTotalComparison {
+  teamId: string;
+  teamName: string;
+  conference: string;
+  bookName: string;
+  capturedAt: string;
+  line: number;
+  overPrice: number;
+  underPrice: number;
+  expectedWins: number;
+  modelOverProb: number;
+  modelUnderProb: number;
+  pushProb: number;
+  /** No-vig market probabilities (push excluded) */
+  marketOverProb: number;
+  marketUnderProb: number;
+  /** Model minus market, both with pushes excluded */
+  overEdge: number;
+  underEdge: number;
+  /** Expected profit per unit staked (pushes refunded) */
+  overEv: number;
+  underEv: number;
+  pick: 'over' | 'under' | null;
+  flagged: boolean;
+}
+
+export interface ConferenceWinnerComparison {
+  teamId: string;
+  teamName: string;
+  conference: string;
+  bookName: string;
+  capturedAt: string;
+  price: number;
+  impliedProb: number;
+  marketProb: number;
+  modelProb: number;
+  edge: number;
+  ev: number;
+  flagged: boolean;
+}
+
+function toIso(timestamp: Date | string): string {
+  return timestamp instanceof Date ? timestamp.toISOString() : new Date(timestamp).toISOString();
+}
+
+function parseNumber(value: unknown): number | null {
+  if (value === null || value === undefined) return null;
+  const text = String(value).trim();
+  if (text === '') return null;
+  const parsed = Number(text.replace(/^\+/, ''));
+  return Number.isFinite(parsed) ? parsed : NaN;
+}
+
+/**
+ * Validate raw futures records (CSV rows with a header, or JSON objects)
+ *
+ * Bad rows are reported, not thrown, so one typo doesn't block a whole file.
+ */
+export function parseFuturesRecords(
+  records: Array<Record<string, unknown>>
+): { rows: FuturesFileRow[]; errors: string[] } {
+  const rows: FuturesFileRow[] = [];
+  const errors: string[] = [];
+
+  records.forEach((record, index) => {
+    const rowNumber = index + 1;
+    const get = (key: string) => record[key] ?? record[key.replace(/_([a-z])/g, (_, c) => c.toUpperCase())];
+    const fail = (message: string) => errors.push(`row ${rowNumber}: ${message}`);
+
+    const team = String(get('team') ?? '').trim();
+    const market = String(get('market') ?? '').trim().toLowerCase();
+    const bookName = String(get('book') ?? '').trim();
+    if (!team) return fail('missing team');
+    if (!bookName) return fail('missing book');
+    if (!(FUTURES_MARKET_TYPES as readonly string[]).includes(market)) {
+      return fail(`unknown market "${market}" (expected ${FUTURES_MARKET_TYPES.join(' or ')})`);
+    }
+
+    const numbers = {
+      season: parseNumber(get('season')),
+      line: parseNumber(get('line')),
+      overPrice: parseNumber(get('over_price')),
+      underPrice: parseNumber(get('under_price')),
+      price: parseNumber(get('price')),
+    };
+    const invalid = Object.entries(numbers).find(([, v]) => Number.isNaN(v));
+    if (invalid) return fail(`${invalid[0]} is not a number`);
+    for (const key of ['overPrice', 'underPrice', 'price'] as const) {
+      const value = numbers[key];
+      if (value !== null && Math.abs(value) < 100) return fail(`${key} ${value} is not an American price`);
+    }
+
+    const marketType = market as FuturesMarketType;
+    if (marketType === 'win_total') {
+      if (numbers.line === null || numbers.line < 0) return fail('win_total needs a line');
+      if (numbers.overPrice === null && numbers.underPrice === null) return fail('win_total needs over_price or under_price');
+    } else if (numbers.price === null) {
+      return fail('conference_winner needs a price');
+    }
+
+    const capturedRaw = get('captured_at');
+    let capturedAt: Date | null = null;
+    if (capturedRaw !== undefined && capturedRaw !== null && String(capturedRaw).trim() !== '') {
+      capturedAt = new Date(String(capturedRaw));
+      if (isNaN(capturedAt.getTime())) return fail(`bad captured_at "${capturedRaw}"`);
+    }
+    const conference = String(get('conference') ?? '').trim();
+
+    rows.push({
+      rowNumber,
+      season: numbers.season,
+      team,
+      marketType,
+      line: marketType === 'win_total' ? numbers.line : null,
+      overPrice: marketType === 'win_total' ? numbers.overPrice : null,
+      underPrice: marketType === 'win_total' ? numbers.underPrice : null,
+      price: marketType === 'conference_winner' ? numbers.price : null,
+      bookName,
+      capturedAt,
+      conference: conference || null,
+    });
+  });
+
+  return { rows, errors };
+}
+
+function slug(name: string): string {
+  return name.trim().toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '');
+}
+
+/**
+ * Team resolver for futures files: team id, then exact name, then slugged name
+ */
+export function buildTeamMatcher(teams: Array<{ id: string; name: string }>): (name: string) => string | null {
+  const ids = new Set(teams.map(t => t.id));
+  const byName = new Map(teams.map(t => [t.name.trim().toLowerCase(), t.id]));
+  const bySlug = new Map<string, string>();
+  for (const team of teams) {
+    bySlug.set(slug(team.id), team.id);
+    bySlug.set(slug(team.name), team.id);
+  }
+  return (name: string) => {
+    if (ids.has(name)) return name;
+    return byName.get(name.trim().toLowerCase()) ?? bySlug.get(slug(name)) ?? null;
+  };
+}
+
+/**
+ * Latest line per (team, market, book)
+ */
+export function latestFuturesMarkets<T extends FuturesMarketInput>(markets: T[]): T[] {
+  const latest = new Map<string, T>();
+  for (const market of markets) {
+    const key = `${market.teamId}|${market.marketType}|${market.bookName}`;
+    const existing = latest.get(key);
+    if (!existing || new Date(market.capturedAt).getTime() > new Date(existing.capturedAt).getTime()) {
+      latest.set(key, market);
+    }
+  }
+  return Array.from(latest.values());
+}
+
+/**
+ * Over/under/push probabilities of a win total from a win distribution
+ */
+export function winTotalProbabilities(distribution: number[], line: number): { over: number; under: number; push: number } {
+  let over = 0;
+  let under = 0;
+  let push = 0;
+  distribution.forEach((p, wins) => {
+    if (wins > line) over += p;
+    else if (wins < line) under += p;
+    else push += p;
+  });
+  return { over, under, push };
+}
+
+/**
+ * Expected profit per unit for a bet that wins with `winProb` and loses with `lossProb`
+ */
+export function expectedValue(price: number, winProb: number, lossProb: number): number {
+  return winProb * (americanToDecimal(price) - 1) - lossProb;
+}
+
+/**
+ * Compare one win-total line with the team's simulated regular-season wins
+ */
+export function compareWinTotal(
+  market: FuturesMarketInput,
+  sim: TeamSimResult,
+  minEdge: number = DEFAULT_FUTURES_MIN_EDGE
+): WinTotalComparison | null {
+  if (market.marketType !== 'win_total' || market.line === null) return null;
+
+  // Runs stored before the regular-season distribution existed only have the full one
+  const distribution = sim.regularSeasonWinDistribution ?? sim.winDistribution;
+  const { over, under, push } = winTotalProbabilities(distribution, market.line);
+  const overPrice = market.overPrice ?? DEFAULT_JUICE;
+  const underPrice = market.underPrice ?? DEFAULT_JUICE;
+  const noVig = removeVig(overPrice, underPrice)!;
+
+  const graded = over + under;
+  const modelOver = graded > 0 ? over / graded : 0;
+  const modelUnder = graded > 0 ? under / graded : 0;
+  const overEdge = modelOver - noVig.homeProb;
+  const underEdge = modelUnder - noVig.awayProb;
+  const overEv = expectedValue(overPrice, over, under);
+  const underEv = expectedValue(underPrice, under, over);
+
+  let pick: 'over' | 'under' | null = null;
+  if (overEdge >= minEdge && overEv > 0) pick = 'over';
+  else if (underEdge >= minEdge && underEv > 0) pick = 'under';
+
+  return {
+    teamId: sim.teamId,
+    teamName: sim.name,
+    conference: sim.conference,
+    bookName: market.bookName,
+    capturedAt: toIso(market.capturedAt),
+    line: market.line,
+    overPrice,
+    underPrice,
+    expectedWins: distribution.reduce((sum, p, wins) => sum + p * wins, 0),
+    modelOverProb: over,
+    modelUnderProb: under,
+    pushProb: push,
+    marketOverProb: noVig.homeProb,
+    marketUnderProb: noVig.awayProb,
+    overEdge,
+    underEdge,
+    overEv,
+    underEv,
+    pick,
+    flagged: pick !== null,
+  };
+}
+
+/**
+ * Compare conference-winner prices with simulated conference title odds
+ *
+ * Each book's prices for a conference are de-vigged together.
+ */
+export function compareConferenceWinners(
+  markets: FuturesMarketInput[],
+  simByTeam: Map<string, TeamSimResult>,
+  minEdge: number = DEFAULT_FUTURES_MIN_EDGE
+): ConferenceWinnerComparison[] {
+  const groups = new Map<string, Array<{ market: FuturesMarketInput; sim: TeamSimResult }>>();
+  for (const market of markets) {
+    if (market.marketType !== 'conference_winner' || market.price === null) continue;
+    const sim = simByTeam.get(market.teamId);
+    if (!sim) continue;
+    const conference = market.conference ?? sim.conference;
+    const key = `${market.bookName}|${conference}`;
+    if (!groups.has(key)) groups.set(key, []);
+    groups.get(key)!.push({ market, sim });
+  }
+
+  const results: ConferenceWinnerComparison[] = [];
+  groups.forEach(entries => {
+    const overround = entries.reduce((sum, e) => sum + americanToProb(e.market.price)!, 0);
+    const scale = overround > 1 ? overround : 1;
+    for (const { market, sim } of entries) {
+      const price = market.price!;
+      const impliedProb = americanToProb(price)!;
+      const marketProb = impliedProb / scale;
+      const modelProb = sim.confChampProb;
+      const edge = modelProb - marketProb;
+      const ev = expectedValue(price, modelProb, 1 - modelProb);
+      results.push({
+        teamId: sim.teamId,
+        teamName: sim.name,
+        conference: market.conference ?? sim.conference,
+        bookName: market.bookName,
+        capturedAt: toIso(market.capturedAt),
+        price,
+        impliedProb,
+        marketProb,
+        modelProb,
+        edge,
+        ev,
+        flagged: edge >= minEdge && ev > 0,
+      });
+    }
+  });
+
+  return results.sort((a, b) => a.conference.localeCompare(b.conference) || b.modelProb - a.modelProb);
+}
@@ -2,19 +2,34 @@
  * Grading Service
  * 
  * Serverless-friendly grading logic extracted from grade-bets.ts script.
- * Grades strategy-run bets based on final game scores.
+ * Grades strategy-run bets, every user-owned bet (tails, manual and imported
+ * entries) and any bet placed against a bankroll based on final game scores,
+ * moving the bankroll balance as each bet settles. Parlays and
+ * teasers are graded leg by leg (see tickets.ts for push and postponement rules).
  * 
  * This service can be called directly from API routes without spawning child processes.
  */
 
-import { PrismaClient, BetResult, BetType, BetSide } from '@prisma/client';
+import { Prisma, PrismaClient, BetResult, BetType, BetSide } from '@prisma/client';
 import { prisma } from '../prisma';
+import {
+  LegMarket,
+  LegOutcome,
+  STRAIGHT_BET_WHERE,
+  TicketType,
+  gradeLeg,
+  isStraightBet,
+  settleTicket,
+  ticketPnl,
+} from '../tickets';
 
 export interface GradeCounts {
   graded: number;
   pushes: number;
   failed: number;
   filledClosePrice: number;
+  bankrollUpdates: number;
+  tickets: number; // Parlays and teasers settled (also counted in graded)
 }
 
 export interface GradeOptions {
@@ -34,12 +49,29 @@ function americanToProb(price: number): number {
 
 /**
  * Find the closing line at kickoff time for a game
+ * With a bookName, that book's close is used when it has one.
  */
 async function findCloseLineAtCutoff(
   gameId: string,
-  marketType: BetType,
-  cutoff: Date
+  marketType: LegMarket,
+  cutoff: Date,
+  bookName: string | null = null
 ): Promise<number | null> {
+  if (bookName) {
+    const bookLine = await prisma.marketLine.findFirst({
+      where: {
+        gameId,
+        lineType: marketType === 'moneyline' ? 'moneyline' : marketType,
+        bookName,
+        timestamp: { lte: cutoff }
+      },
+      orderBy: { timestamp: 'desc' }
+    });
+    if (bookLine) {
+      return Number(bookLine.lineValue);
+    }
+  }
+
   // First try to find line at or before kickoff
   const preKickoffLine = await prisma.marketLine.findFirst({
     where: {
@@ -151,11 +183,118 @@ function gradeMoneyline(
   return { result, pnl, clv };
 }
 
+/**
+ * Write a bet's grade and move its bankroll by the change in P/L
+ * Re-grades (force) only move the bankroll by the difference.
+ *
+ * @param beforeSave - Extra writes in the same transaction (ticket legs)
+ * @returns Whether the bankroll balance moved
+ */
+async function saveGrade(
+  bet: { id: string; result: BetResult | null; pnl: any; bankrollId: string | null },
+  data: { result: BetResult; pnl: number; clv?: number; closePrice?: number },
+  beforeSave: (tx: Prisma.TransactionClient) => Promise<void> = async () => {}
+): Promise<boolean> {
+  const previousPnl = bet.result !== null && bet.pnl != null ? Number(bet.pnl) : 0;
+  const delta = data.pnl - previousPnl;
+
+  return prisma.$transaction(async (tx) => {
+    await beforeSave(tx);
+    await tx.bet.update({
+      where: { id: bet.id },
+      data,
+    });
+
+    if (!bet.bankrollId || delta === 0) return false;
+
+    const bankroll = await tx.bankroll.update({
+      where: { id: bet.bankrollId },
+      data: { balance: { increment: delta } },
+    });
+    await tx.bankrollTransaction.create({
+      data: {
+        bankrollId: bet.bankrollId,
+        betId: bet.id,
+        amount: delta,
+        balanceAfter: bankroll.balance,
+        reason: bet.result !== null ? 'regrade' : 'settle',
+      },
+    });
+    return true;
+  });
+}
+
+/**
+ * Grade pending parlays and teasers: record each leg's outcome and settle the
+ * ticket once a leg loses or every leg is decided
+ */
+async function gradeTickets(options: GradeOptions, counts: GradeCounts, now: Date = new Date()): Promise<void> {
+  const { season, week, limit = 500, force = false } = options;
+
+  const tickets = await prisma.bet.findMany({
+    where: {
+      marketType: { in: ['parlay', 'teaser'] },
+      ...(force ? {} : { result: null }),
+      ...(season ? { season } : {}),
+      ...(week ? { week } : {}),
+    },
+    include: { legs: { include: { game: true }, orderBy: { legIndex: 'asc' } } },
+    take: limit,
+  });
+
+  for (const ticket of tickets) {
+    try {
+      const teaserPoints = ticket.teaserPoints != null ? Number(ticket.teaserPoints) : null;
+      const outcomes: Array<LegOutcome | null> = ticket.legs.map((leg: any) =>
+        gradeLeg(
+          { marketType: leg.marketType, side: leg.side, line: leg.line != null ? Number(leg.line) : null },
+          teaserPoints,
+          {
+            status: leg.game.status,
+            homeScore: leg.game.homeScore != null ? Number(leg.game.homeScore) : null,
+            awayScore: leg.game.awayScore != null ? Number(leg.game.awayScore) : null,
+          },
+          new Date(leg.kickoff),
+          now
+        )
+      );
+      const changedLegs = ticket.legs.filter((leg: any, i: number) => (leg.result ?? null) !== outcomes[i]);
+      const updateLegs = async (tx: Prisma.TransactionClient) => {
+        for (const leg of changedLegs) {
+          await tx.betLeg.update({ where: { id: leg.id }, data: { result: outcomes[ticket.legs.indexOf(leg)] } });
+        }
+      };
+
+      const settlement = settleTicket(
+        { type: ticket.marketType as TicketType, teaserPoints, price: Number(ticket.modelPrice) },
+        ticket.legs.map((leg: any, i: number) => ({ outcome: outcomes[i], price: leg.price != null ? Number(leg.price) : null }))
+      );
+
+      if (!settlement) {
+        // Still open: keep the legs decided so far
+        if (changedLegs.length > 0) await prisma.$transaction(updateLegs);
+        continue;
+      }
+
+      const pnl = ticketPnl(settlement, Number(ticket.stake));
+      const bankrollUpdated = await saveGrade(ticket, { result: settlement.result, pnl }, updateLegs);
+
+      counts.graded++;
+      counts.tickets++;
+      if (bankrollUpdated) counts.bankrollUpdates++;
+      if (settlement.result === 'push') counts.pushes++;
+    } catch (err) {
+      console.error(`Failed to grade ticket ${ticket.id}:`, (err as Error).message);
+      counts.failed++;
+    }
+  }
+}
+
 /**
  * Grade available bets for a season/week
  * 
  * @param options Grading options (season, week, limit, force)
- * @returns Counts of graded bets, pushes, failures, and filled close prices
+ * @returns Counts of graded bets and tickets, pushes, failures, and filled close prices
  */
 export async function gradeAvailableBets(options: GradeOptions = {}): Promise<GradeCounts> {
   const {
@@ -166,9 +305,10 @@ export async function gradeAvailableBets(options: GradeOptions = {}): Promise<Gr
   } = options;
 
   // Find candidate bets to grade
-  // Only grade strategy_run bets (not manual entries)
+  // Strategy-run bets, user-owned bets and manual entries placed against a bankroll
   const whereClause: any = {
-    source: 'strategy_run', // Only grade strategy-run bets
+    OR: [{ source: 'strategy_run' }, { userId: { not: null } }, { bankrollId: { not: null } }],
+    ...STRAIGHT_BET_WHERE,
     ...(force ? {} : { result: null }),
     ...(season ? { season } : {}),
     ...(week ? { week } : {}),
@@ -186,9 +326,9 @@ export async function gradeAvailableBets(options: GradeOptions = {}): Promise<Gr
     take: limit
   });
 
-  const counts: GradeCounts = { graded: 0, pushes: 0, failed: 0, filledClosePrice: 0 };
+  const counts: GradeCounts = { graded: 0, pushes: 0, failed: 0, filledClosePrice: 0, bankrollUpdates: 0, tickets: 0 };
 
-  for (const bet of candidates) {
+  for (const bet of candidates.filter(isStraightBet)) {
     try {
       const game = bet.game as any;
       if (!game || game.homeScore == null || game.awayScore == null || !game.date) {
@@ -202,7 +342,7 @@ export async function gradeAvailableBets(options: GradeOptions = {}): Promise<Gr
 
       let closePrice = bet.closePrice != null ? Number(bet.closePrice) : null;
       if (closePrice == null) {
-        const fetched = await findCloseLineAtCutoff(bet.gameId, bet.marketType, kickoff);
+        const fetched = await findCloseLineAtCutoff(bet.gameId, bet.marketType, kickoff, bet.bookName ?? null);
         if (fetched != null) {
           closePrice = fetched;
           counts.filledClosePrice++;
@@ -232,17 +372,10 @@ export async function gradeAvailableBets(options: GradeOptions = {}): Promise<Gr
         result = graded.result; pnl = graded.pnl; clv = graded.clv;
       }
 
-      await prisma.bet.update({
-        where: { id: bet.id },
-        data: {
-          result,
-          pnl,
-          clv,
-          closePrice,
-        }
-      });
+      const bankrollUpdated = await saveGrade(bet, { result, pnl, clv, closePrice });
 
       counts.graded++;
+      if (bankrollUpdated) counts.bankrollUpdates++;
       if (result === 'push') counts.pushes++;
     } catch (err) {
       console.error(`Failed to grade bet ${bet.id}:`, (err as Error).message);
@@ -250,6 +383,8 @@ export async function gradeAvailableBets(options: GradeOptions = {}): Promise<Gr
     }
   }
 
+  await gradeTickets(options, counts);
+
   return counts;
 }
 
@@ -0,0 +1,139 @@
+/**
+ * HFA Context Loader
+ *
+ * Database side of the HFA v3 model: loads the fitted parameters for a season and the
+ * per-game inputs (team states, conference, days since each team's last game).
+ * The math lives in hfa-model.ts.
+ */
+
+import { prisma } from './prisma';
+import { updatedAsOf } from './as-of';
+import {
+  HfaBreakdown,
+  HfaGameContext,
+  HfaParams,
+  computeHfaBreakdown,
+  hfaParamsFromRow,
+  legacyHfaParams,
+} from './hfa-model';
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+// Fitted params change only on a refit; short TTL so a fit written by another
+// process (or after a miss) is picked up without a restart
+const CACHE_TTL_MS = 60 * 1000;
+
+// Latest row per season (null = not fitted)
+const paramsCache = new Map<number, { params: HfaParams | null; expiresAt: number }>();
+
+/**
+ * HFA params for a season: the fitted HfaSeasonParams row, or the legacy v2 config
+ *
+ * @param asOf - Ignore a row last written after this time (null = latest)
+ * @param fallback - Params for an unfitted season (default: bundled v2 config)
+ */
+export async function getHfaParams(
+  season: number,
+  asOf: Date | null = null,
+  fallback: HfaParams | null = null
+): Promise<HfaParams> {
+  const hit = asOf ? undefined : paramsCache.get(season);
+  if (hit && hit.expiresAt > Date.now()) {
+    return hit.params ?? fallback ?? legacyHfaParams();
+  }
+
+  const row = await prisma.hfaSeasonParams.findFirst({
+    where: { season, ...updatedAsOf(asOf) },
+  });
+  const fitted = row ? hfaParamsFromRow(row) : null;
+
+  if (!asOf) {
+    paramsCache.set(season, { params: fitted, expiresAt: Date.now() + CACHE_TTL_MS });
+  }
+  return fitted ?? fallback ?? legacyHfaParams();
+}
+
+/**
+ * Drop cached params (after a refit)
+ */
+export function clearHfaParamsCache(): void {
+  paramsCache.clear();
+}
+
+/**
+ * Days since a team's previous game this season (null if none)
+ */
+async function restDaysBefore(season: number, teamId: string, gameDate: Date): Promise<number | null> {
+  const previous = await prisma.game.findFirst({
+    where: {
+      season,
+      date: { lt: gameDate },
+      OR: [{ homeTeamId: teamId }, { awayTeamId: teamId }],
+    },
+    orderBy: { date: 'desc' },
+    select: { date: true },
+  });
+  if (!previous) return null;
+  return Math.round((gameDate.getTime() - previous.date.getTime()) / MS_PER_DAY);
+}
+
+export interface HfaGameInput {
+  season: number;
+  homeTeamId: string;
+  awayTeamId: string;
+  neutralSite: boolean;
+  /** Kickoff; rest days are skipped when unknown */
+  gameDate: Date | null;
+}
+
+/**
+ * Load the model inputs for one game
+ */
+export async function loadHfaGameContext(input: HfaGameInput): Promise<HfaGameContext> {
+  const context: HfaGameContext = {
+    homeTeamId: input.homeTeamId,
+    awayTeamId: input.awayTeamId,
+    neutralSite: input.neutralSite,
+    homeState: null,
+    awayState: null,
+    homeConference: null,
+    homeRestDays: null,
+    awayRestDays: null,
+  };
+  if (input.neutralSite) {
+    return context;
+  }
+
+  const [teams, homeRestDays, awayRestDays] = await Promise.all([
+    prisma.team.findMany({
+      where: { id: { in: [input.homeTeamId, input.awayTeamId] } },
+      select: { id: true, state: true, conference: true },
+    }),
+    input.gameDate ? restDaysBefore(input.season, input.homeTeamId, input.gameDate) : Promise.resolve(null),
+    input.gameDate ? restDaysBefore(input.season, input.awayTeamId, input.gameDate) : Promise.resolve(null),
+  ]);
+
+  const home = teams.find((t: any) => t.id === input.homeTeamId);
+  const away = teams.find((t: any) => t.id === input.awayTeamId);
+  context.homeState = home?.state ?? null;
+  context.awayState = away?.state ?? null;
+  context.homeConference = home?.conference ?? null;
+  context.homeRestDays = homeRestDays;
+  context.awayRestDays = awayRestDays;
+  return context;
+}
+
+/**
+ * Effective HFA and its breakdown for one game
+ */
+export async function getGameHfa(
+  input: HfaGameInput,
+  asOf: Date | null = null,
+  fallback: HfaParams | null = null
+): Promise<HfaBreakdown> {
+  const [params, context] = await Promise.all([
+    getHfaParams(input.season, asOf, fallback),
+    loadHfaGameContext(input),
+  ]);
+  return computeHfaBreakdown(params, context);
+}
@@ -0,0 +1,378 @@
+/**
+ * HFA Model (v3)
+ *
+ * Home field advantage built from components instead of a flat number:
+ *
+ * hfa = base + teamAdjustment
+ *     + β_travel   * awayTravelMiles / 1000
+ *     + β_timezone * timeZonesCrossed
+ *     + β_altitude * max(0, homeAltitudeFt - awayAltitudeFt) / 1000
+ *     + β_rest     * (homeRestDays - awayRestDays)
+ *     + β_crowd    * (home team in a power conference ? 1 : 0)
+ *
+ * clipped to [clipMin, clipMax]. Neutral sites are always 0.
+ *
+ * Coefficients are fitted per season (scripts/fit-hfa-v3.ts → HfaSeasonParams). Without
+ * a fitted row the legacy HFA v2 config is used: base + team adjustment, component
+ * coefficients all 0, so spreads match the previous behaviour exactly.
+ *
+ * Locations come from the team's `state` (state centroid and standard-time UTC offset),
+ * so in-state trips count as 0 miles. Venue altitude is keyed by team ID.
+ */
+
+// Static imports - bundled by Next.js/Vercel
+import hfaConfig from './data/core_v1_hfa_config.json';
+import stateLocations from './data/hfa_state_locations.json';
+import venueAltitudes from './data/hfa_venue_altitudes.json';
+
+export const HFA_FEATURES = ['travel', 'timezone', 'altitude', 'rest', 'crowd'] as const;
+export type HfaFeature = typeof HFA_FEATURES[number];
+
+export type HfaFeatureValues = Record<HfaFeature, number>;
+
+export interface HfaTeamAdjustment {
+  adjustment: number;
+  sampleSize: number;
+  meanResidual: number;
+}
+
+export interface HfaParams {
+  /** Season the parameters were fitted for (null = legacy config) */
+  season: number | null;
+  source: 'fitted' | 'config';
+  baseHfaPoints: number;
+  coefficients: HfaFeatureValues;
+  clipMin: number;
+  clipMax: number;
+  teamAdjustments: Record<string, HfaTeamAdjustment>;
+}
+
+/** What's known about a game's two teams and timing */
+export interface HfaGameContext {
+  homeTeamId: string;
+  awayTeamId: string;
+  neutralSite: boolean;
+  homeState: string | null;
+  awayState: string | null;
+  homeConference: string | null;
+  /** Days since each team's previous game (null = no previous game this season) */
+  homeRestDays: number | null;
+  awayRestDays: number | null;
+}
+
+export interface HfaBreakdown {
+  effectiveHfa: number;
+  baseHfa: number;
+  teamAdjustment: number;
+  /** base + team adjustment + components, before clipping */
+  rawHfa: number;
+  components: HfaFeatureValues;
+  features: HfaFeatureValues;
+  /** Miles the away team traveled (state centroid to state centroid) */
+  travelMiles: number | null;
+  source: HfaParams['source'];
+  season: number | null;
+}
+
+export const POWER_CONFERENCES = ['SEC', 'Big Ten', 'B1G', 'ACC', 'Big 12', 'Pac-12'];
+
+/** Rest differentials beyond a week stop mattering (bye vs short week) */
+export const MAX_REST_DIFF_DAYS = 7;
+
+interface StateLocation {
+  name: string;
+  lat: number;
+  lon: number;
+  utcOffset: number;
+}
+
+const STATES = (stateLocations as { states: Record<string, StateLocation> }).states;
+const STATES_BY_NAME = new Map<string, StateLocation>(
+  Object.values(STATES).map(state => [state.name.toLowerCase(), state])
+);
+const VENUE_ALTITUDE_FT = (venueAltitudes as { altitudeFt: Record<string, number> }).altitudeFt;
+
+function zeroFeatures(): HfaFeatureValues {
+  return { travel: 0, timezone: 0, altitude: 0, rest: 0, crowd: 0 };
+}
+
+/** HFA v2 config (core_v1_hfa_config.json, or a registered model's `hfa` artifact) */
+export interface LegacyHfaConfig {
+  baseHfaPoints: number;
+  clipRange: number[];
+  teamAdjustments: Record<string, HfaTeamAdjustment>;
+}
+
+/**
+ * Legacy HFA v2 config as v3 params (no components)
+ */
+export function legacyHfaParams(config: LegacyHfaConfig = hfaConfig as LegacyHfaConfig): HfaParams {
+  const teamAdjustments: Record<string, HfaTeamAdjustment> = {};
+  for (const [teamId, adj] of Object.entries(config.teamAdjustments)) {
+    teamAdjustments[teamId] = {
+      adjustment: adj.adjustment,
+      sampleSize: adj.sampleSize,
+      meanResidual: adj.meanResidual,
+    };
+  }
+  const clipRange = config.clipRange;
+  return {
+    season: null,
+    source: 'config',
+    baseHfaPoints: config.baseHfaPoints,
+    coefficients: zeroFeatures(),
+    clipMin: clipRange[0],
+    clipMax: clipRange[1],
+    teamAdjustments,
+  };
+}
+
+/**
+ * Look up a state by abbreviation ("CO") or name ("Colorado")
+ */
+export function resolveStateLocation(state: string | null | undefined): StateLocation | null {
+  if (!state) return null;
+  const trimmed = state.trim();
+  return STATES[trimmed.toUpperCase()] ?? STATES_BY_NAME.get(trimmed.toLowerCase()) ?? null;
+}
+
+/**
+ * Home stadium elevation for a team (0 when unlisted)
+ */
+export function venueAltitudeFt(teamId: string): number {
+  return VENUE_ALTITUDE_FT[teamId] ?? 0;
+}
+
+/**
+ * Great-circle distance in miles
+ */
+export function haversineMiles(lat1: number, lon1: number, lat2: number, lon2: number): number {
+  const toRad = (deg: number) => (deg * Math.PI) / 180;
+  const dLat = toRad(lat2 - lat1);
+  const dLon = toRad(lon2 - lon1);
+  const a = Math.sin(dLat / 2) ** 2 + Math.cos(toRad(lat1)) * Math.cos(toRad(lat2)) * Math.sin(dLon / 2) ** 2;
+  return 2 * 3958.8 * Math.asin(Math.sqrt(a));
+}
+
+/**
+ * Feature values for a game (all 0 at neutral sites), plus away travel miles
+ */
+export function computeHfaFeatures(context: HfaGameContext): { features: HfaFeatureValues; travelMiles: number | null } {
+  const features = zeroFeatures();
+  if (context.neutralSite) {
+    return { features, travelMiles: null };
+  }
+
+  const home = resolveStateLocation(context.homeState);
+  const away = resolveStateLocation(context.awayState);
+  let travelMiles: number | null = null;
+  if (home && away) {
+    travelMiles = haversineMiles(away.lat, away.lon, home.lat, home.lon);
+    features.travel = travelMiles / 1000;
+    features.timezone = Math.abs(home.utcOffset - away.utcOffset);
+  }
+
+  // Visitors from altitude don't get the penalty
+  features.altitude = Math.max(0, venueAltitudeFt(context.homeTeamId) - venueAltitudeFt(context.awayTeamId)) / 1000;
+
+  if (context.homeRestDays !== null && context.awayRestDays !== null) {
+    const diff = context.homeRestDays - context.awayRestDays;
+    features.rest = Math.max(-MAX_REST_DIFF_DAYS, Math.min(MAX_REST_DIFF_DAYS, diff));
+  }
+
+  features.crowd = context.homeConference && POWER_CONFERENCES.includes(context.homeConference) ? 1 : 0;
+
+  return { features, travelMiles };
+}
+
+/**
+ * Effective HFA for a game with its component breakdown
+ */
+export function computeHfaBreakdown(params: HfaParams, context: HfaGameContext): HfaBreakdown {
+  const { features, travelMiles } = computeHfaFeatures(context);
+
+  if (context.neutralSite) {
+    return {
+      effectiveHfa: 0.0,
+      baseHfa: params.baseHfaPoints,
+      teamAdjustment: 0.0,
+      rawHfa: 0.0,
+      components: zeroFeatures(),
+      features,
+      travelMiles,
+      source: params.source,
+      season: params.season,
+    };
+  }
+
+  const components = zeroFeatures();
+  let componentTotal = 0;
+  for (const feature of HFA_FEATURES) {
+    components[feature] = params.coefficients[feature] * features[feature];
+    componentTotal += components[feature];
+  }
+
+  const teamAdjustment = params.teamAdjustments[context.homeTeamId]?.adjustment ?? 0.0;
+  const rawHfa = params.baseHfaPoints + teamAdjustment + componentTotal;
+  const effectiveHfa = Math.max(params.clipMin, Math.min(params.clipMax, rawHfa));
+
+  return {
+    effectiveHfa,
+    baseHfa: params.baseHfaPoints,
+    teamAdjustment,
+    rawHfa,
+    components,
+    features,
+    travelMiles,
+    source: params.source,
+    season: params.season,
+  };
+}
+
+// ============================================================================
+// Fitting
+// ============================================================================
+
+export interface HfaFitSample {
+  homeTeamId: string;
+  features: HfaFeatureValues;
+  /** Actual home margin minus the model spread without HFA */
+  residual: number;
+}
+
+export interface HfaFitOptions {
+  /** Ridge penalty on component coefficients (not the base) */
+  ridgeLambda?: number;
+  /** Per-team shrinkage: adj = mean * n / (n + k) */
+  teamShrinkage?: number;
+  maxTeamAdjustment?: number;
+  clipMin?: number;
+  clipMax?: number;
+}
+
+export interface HfaFitResult {
+  params: Omit<HfaParams, 'season' | 'source'>;
+  sampleSize: number;
+  rmse: number;
+  /** RMSE of a base-only HFA on the same games, for comparison */
+  baseOnlyRmse: number;
+}
+
+/**
+ * Solve A x = b with Gaussian elimination (partial pivoting)
+ */
+export function solveLinearSystem(A: number[][], b: number[]): number[] {
+  const n = b.length;
+  const m = A.map((row, i) => [...row, b[i]]);
+  for (let col = 0; col < n; col++) {
+    let pivot = col;
+    for (let row = col + 1; row < n; row++) {
+      if (Math.abs(m[row][col]) > Math.abs(m[pivot][col])) pivot = row;
+    }
+    if (Math.abs(m[pivot][col]) < 1e-12) {
+      throw new Error('Singular system: features are collinear or constant');
+    }
+    [m[col], m[pivot]] = [m[pivot], m[col]];
+    for (let row = 0; row < n; row++) {
+      if (row === col) continue;
+      const factor = m[row][col] / m[col][col];
+      for (let k = col; k <= n; k++) m[row][k] -= factor * m[col][k];
+    }
+  }
+  return m.map((row, i) => row[n] / row[i]);
+}
+
+/**
+ * Fit base + component coefficients by ridge regression on residuals, then
+ * shrunk per-team adjustments on what the components leave unexplained
+ */
+export function fitHfaParams(samples: HfaFitSample[], options: HfaFitOptions = {}): HfaFitResult {
+  const ridgeLambda = options.ridgeLambda ?? 10;
+  const teamShrinkage = options.teamShrinkage ?? 20;
+  const maxTeamAdjustment = options.maxTeamAdjustment ?? 1.5;
+  const clipMin = options.clipMin ?? -1.0;
+  const clipMax = options.clipMax ?? 6.0;
+
+  if (samples.length < HFA_FEATURES.length + 1) {
+    throw new Error(`Need at least ${HFA_FEATURES.length + 1} games to fit HFA, got ${samples.length}`);
+  }
+
+  // Normal equations with an intercept column; the intercept isn't penalized
+  const dim = HFA_FEATURES.length + 1;
+  const xtx = Array.from({ length: dim }, () => new Array(dim).fill(0));
+  const xty = new Array(dim).fill(0);
+  for (const sample of samples) {
+    const x = [1, ...HFA_FEATURES.map(f => sample.features[f])];
+    for (let i = 0; i < dim; i++) {
+      xty[i] += x[i] * sample.residual;
+      for (let j = 0; j < dim; j++) xtx[i][j] += x[i] * x[j];
+    }
+  }
+  for (let i = 1; i < dim; i++) xtx[i][i] += ridgeLambda;
+
+  const beta = solveLinearSystem(xtx, xty);
+  const coefficients = zeroFeatures();
+  HFA_FEATURES.forEach((feature, i) => {
+    coefficients[feature] = beta[i + 1];
+  });
+  const baseHfaPoints = beta[0];
+
+  // Team adjustments on the remaining residual, home games only
+  const remaining = new Map<string, number[]>();
+  for (const sample of samples) {
+    const fitted = baseHfaPoints + HFA_FEATURES.reduce((sum, f) => sum + coefficients[f] * sample.features[f], 0);
+    const list = remaining.get(sample.homeTeamId) ?? [];
+    list.push(sample.residual - fitted);
+    remaining.set(sample.homeTeamId, list);
+  }
+  const teamAdjustments: Record<string, HfaTeamAdjustment> = {};
+  for (const [teamId, residuals] of Array.from(remaining.entries())) {
+    const n = residuals.length;
+    const meanResidual = residuals.reduce((sum, r) => sum + r, 0) / n;
+    const shrunk = (meanResidual * n) / (n + teamShrinkage);
+    teamAdjustments[teamId] = {
+      adjustment: Math.max(-maxTeamAdjustment, Math.min(maxTeamAdjustment, shrunk)),
+      sampleSize: n,
+      meanResidual,
+    };
+  }
+
+  const mean = samples.reduce((sum, s) => sum + s.residual, 0) / samples.length;
+  let sse = 0;
+  let baseOnlySse = 0;
+  for (const sample of samples) {
+    const fitted = baseHfaPoints
+      + (teamAdjustments[sample.homeTeamId]?.adjustment ?? 0)
+      + HFA_FEATURES.reduce((sum, f) => sum + coefficients[f] * sample.features[f], 0);
+    sse += (sample.residual - fitted) ** 2;
+    baseOnlySse += (sample.residual - mean) ** 2;
+  }
+
+  return {
+    params: { baseHfaPoints, coefficients, clipMin, clipMax, teamAdjustments },
+    sampleSize: samples.length,
+    rmse: Math.sqrt(sse / samples.length),
+    baseOnlyRmse: Math.sqrt(baseOnlySse / samples.length),
+  };
+}
+
+/**
+ * Fitted-row shape (HfaSeasonParams) to params
+ */
+export function hfaParamsFromRow(row: any): HfaParams {
+  return {
+    season: row.season,
+    source: 'fitted',
+    baseHfaPoints: Number(row.baseHfaPoints),
+    coefficients: {
+      travel: Number(row.travelCoef),
+      timezone: Number(row.timezoneCoef),
+      altitude: Number(row.altitudeCoef),
+      rest: Number(row.restCoef),
+      crowd: Number(row.crowdCoef),
+    },
+    clipMin: Number(row.clipMin),
+    clipMax: Number(row.clipMax),
+    teamAdjustments: (row.teamAdjustments ?? {}) as Record<string, HfaTeamAdjustment>,
+  };
+}
@@ -0,0 +1,84 @@
+/**
+ * Injury Context Loader
+ *
+ * Database side of the injury impact model: reads Injury rows (ESPN adapter or
+ * manual ETL) for a game and scores them. The math lives in injury-impact.ts.
+ * Both writers update rows in place, so asOf reads replay injury_snapshots.
+ */
+
+import type { Injury, InjurySnapshot } from '@prisma/client';
+import { prisma } from './prisma';
+import { latestPerKeyAsOf } from './rating-snapshots';
+import {
+  InjuryAdjustment,
+  InjuryReport,
+  computeInjuryAdjustment,
+} from './injury-impact';
+
+/**
+ * Map an Injury row to model input
+ */
+export function injuryRowToReport(row: any): InjuryReport {
+  return {
+    teamId: row.teamId,
+    position: row.position,
+    severity: row.severity,
+    playerName: row.playerName ?? null,
+    depthRank: row.depthRank ?? null,
+    usageShare: row.usageShare ?? null,
+  };
+}
+
+/**
+ * Injury rows for a set of games as they stood at asOf
+ *
+ * @param asOf - Replay time (null = live rows)
+ * @returns Live Injury rows, or for asOf each report's latest snapshot at or before it
+ */
+export async function loadInjuryRows(
+  gameIds: string[],
+  asOf: Date | null = null
+): Promise<Array<Injury | InjurySnapshot>> {
+  if (gameIds.length === 0) return [];
+  if (!asOf) {
+    return prisma.injury.findMany({
+      where: { gameId: { in: gameIds } },
+      orderBy: { createdAt: 'asc' },
+    });
+  }
+  const snapshots = await prisma.injurySnapshot.findMany({
+    where: { gameId: { in: gameIds }, createdAt: { lte: asOf } },
+    orderBy: { createdAt: 'asc' },
+  });
+  return latestPerKeyAsOf(snapshots, row => row.injuryId, asOf);
+}
+
+/**
+ * Injury reports for a set of games, keyed by gameId
+ *
+ * @param asOf - Replay time (null = live rows)
+ */
+export async function loadInjuryReports(
+  gameIds: string[],
+  asOf: Date | null = null
+): Promise<Map<string, InjuryReport[]>> {
+  const byGame = new Map<string, InjuryReport[]>();
+  for (const row of await loadInjuryRows(gameIds, asOf)) {
+    if (!byGame.has(row.gameId)) byGame.set(row.gameId, []);
+    byGame.get(row.gameId)!.push(injuryRowToReport(row));
+  }
+  return byGame;
+}
+
+/**
+ * Injury spread adjustment for one game
+ */
+export async function getGameInjuryAdjustment(
+  gameId: string,
+  homeTeamId: string,
+  awayTeamId: string,
+  asOf: Date | null = null
+): Promise<InjuryAdjustment> {
+  const reports = (await loadInjuryReports([gameId], asOf)).get(gameId) ?? [];
+  return computeInjuryAdjustment(homeTeamId, awayTeamId, reports);
+}
@@ -0,0 +1,342 @@
+/**
+ * Injury Impact Model
+ *
+ * Turns Injury rows into a spread adjustment:
+ *   player value = groupValuePts[group] × usageShare × P(miss | severity)
+ *   team impact  = Σ over position groups of min(lost group share, 1) × groupValuePts
+ *   adjustment   = clamp(scale × (awayImpact - homeImpact), ±maxAdjustment)   (HMA: + favors home)
+ *
+ * Usage share comes from the row's usageShare when reported, otherwise from its
+ * depth-chart rank, otherwise from a per-group default for an unranked listing.
+ * `scale` is fitted by scripts/train-injury-impact-v1.ts; until that has run
+ * (trained_on is null) the adjustment is reported but not applied.
+ */
+
+// Static import - bundled by Next.js/Vercel
+import injuryConfigData from './data/core_v1_injury_config.json';
+
+export const INJURY_POSITION_GROUPS = ['QB', 'RB', 'WR', 'OL', 'DL', 'LB', 'DB'] as const;
+export type InjuryPositionGroup = typeof INJURY_POSITION_GROUPS[number];
+
+export type InjurySeverityLevel = 'OUT' | 'DOUBTFUL' | 'QUESTIONABLE' | 'PROBABLE';
+
+export interface InjuryReport {
+  teamId: string;
+  /** Raw position (ESPN abbreviations are fine: TE, LB, CB, ...) */
+  position: string;
+  /** InjurySeverity, any case */
+  severity: string;
+  playerName?: string | null;
+  /** Depth-chart string at the position (1 = starter) */
+  depthRank?: number | null;
+  /** Share of the position group's snaps/touches (0-1) */
+  usageShare?: number | null;
+}
+
+export interface InjuryImpactConfig {
+  scale: number;
+  maxAdjustmentPts: number;
+  groupValuePts: Record<InjuryPositionGroup, number>;
+  /** Usage share by depth-chart string; the last entry covers deeper strings */
+  depthShares: Record<InjuryPositionGroup, number[]>;
+  unknownDepthShare: Record<InjuryPositionGroup, number>;
+  missProbability: Record<InjurySeverityLevel, number>;
+  /** When scripts/train-injury-impact-v1.ts last fitted the scale (null = hand-set priors) */
+  trainedOn: string | null;
+}
+
+export interface PlayerInjuryImpact {
+  teamId: string;
+  playerName: string | null;
+  position: string;
+  group: InjuryPositionGroup;
+  severity: InjurySeverityLevel;
+  usageShare: number;
+  usageSource: 'reported' | 'depth' | 'default';
+  missProbability: number;
+  /** Points this player costs the team, before the model scale */
+  impactPts: number;
+}
+
+export interface TeamInjuryImpact {
+  teamId: string;
+  /** Points the injuries cost the team, before the model scale */
+  impactPts: number;
+  byGroup: Record<InjuryPositionGroup, number>;
+  players: PlayerInjuryImpact[];
+}
+
+export interface InjuryAdjustment {
+  /** Spread adjustment in HMA points (positive = toward home); 0 while unfitted */
+  injuryAdjPts: number;
+  /** Whether the scale has been fitted, i.e. whether the adjustment is applied */
+  fitted: boolean;
+  /** awayImpact - homeImpact before scale and clamp */
+  rawAdjPts: number;
+  scale: number;
+  home: TeamInjuryImpact;
+  away: TeamInjuryImpact;
+  breakdown: string[];
+}
+
+const POSITION_GROUP_MAP: Record<string, InjuryPositionGroup> = {
+  QB: 'QB',
+  RB: 'RB', FB: 'RB', HB: 'RB',
+  WR: 'WR', TE: 'WR',
+  OL: 'OL', OT: 'OL', OG: 'OL', T: 'OL', G: 'OL', C: 'OL',
+  DL: 'DL', DE: 'DL', DT: 'DL', NT: 'DL', EDGE: 'DL',
+  LB: 'LB', ILB: 'LB', OLB: 'LB', MLB: 'LB',
+  DB: 'DB', CB: 'DB', S: 'DB', FS: 'DB', SS: 'DB', NB: 'DB',
+  // Specialists (K, P, LS) are left unmapped: the model has no value for them
+};
+
+/**
+ * Map a raw position to its model group (null for unknown positions)
+ */
+export function positionGroup(position: string): InjuryPositionGroup | null {
+  return POSITION_GROUP_MAP[position.trim().toUpperCase()] ?? null;
+}
+
+/**
+ * Normalize a severity string to the InjurySeverity enum (null if unrecognized)
+ */
+export function normalizeSeverity(severity: string): InjurySeverityLevel | null {
+  const upper = severity.trim().toUpperCase();
+  return upper === 'OUT' || upper === 'DOUBTFUL' || upper === 'QUESTIONABLE' || upper === 'PROBABLE'
+    ? upper
+    : null;
+}
+
+/**
+ * Config from the snake_case JSON written by the training script
+ */
+export function injuryConfigFromJson(data: any): InjuryImpactConfig {
+  return {
+    scale: Number(data.scale ?? 1),
+    maxAdjustmentPts: Number(data.max_adjustment_points ?? 7),
+    groupValuePts: data.group_value_points,
+    depthShares: data.depth_shares,
+    unknownDepthShare: data.unknown_depth_share,
+    missProbability: data.miss_probability,
+    trainedOn: data.trained_on ?? null,
+  };
+}
+
+export const DEFAULT_INJURY_CONFIG: InjuryImpactConfig = injuryConfigFromJson(injuryConfigData);
+
+/**
+ * Whether the scale has been fitted; an unfitted adjustment must not move spreads
+ */
+export function isInjuryModelFitted(config: InjuryImpactConfig = DEFAULT_INJURY_CONFIG): boolean {
+  return config.trainedOn !== null;
+}
+
+/**
+ * Usage share for one report and where it came from
+ */
+export function usageShareFor(
+  report: InjuryReport,
+  group: InjuryPositionGroup,
+  config: InjuryImpactConfig = DEFAULT_INJURY_CONFIG
+): { share: number; source: PlayerInjuryImpact['usageSource'] } {
+  if (report.usageShare !== null && report.usageShare !== undefined && Number.isFinite(report.usageShare)) {
+    return { share: Math.max(0, Math.min(1, report.usageShare)), source: 'reported' };
+  }
+  if (report.depthRank !== null && report.depthRank !== undefined && report.depthRank >= 1) {
+    const shares = config.depthShares[group];
+    return { share: shares[Math.min(report.depthRank, shares.length) - 1], source: 'depth' };
+  }
+  return { share: config.unknownDepthShare[group], source: 'default' };
+}
+
+/**
+ * Unscaled impact of one team's injuries
+ * A group can't lose more than its whole value, however many players are listed.
+ */
+export function computeTeamInjuryImpact(
+  teamId: string,
+  reports: InjuryReport[],
+  config: InjuryImpactConfig = DEFAULT_INJURY_CONFIG
+): TeamInjuryImpact {
+  const players: PlayerInjuryImpact[] = [];
+  const lostShare = Object.fromEntries(INJURY_POSITION_GROUPS.map(g => [g, 0])) as Record<InjuryPositionGroup, number>;
+
+  for (const report of reports) {
+    if (report.teamId !== teamId) continue;
+    const group = positionGroup(report.position);
+    const severity = normalizeSeverity(report.severity);
+    if (!group || !severity) continue;
+
+    const { share, source } = usageShareFor(report, group, config);
+    const missProbability = config.missProbability[severity];
+    lostShare[group] += share * missProbability;
+    players.push({
+      teamId,
+      playerName: report.playerName ?? null,
+      position: report.position.toUpperCase(),
+      group,
+      severity,
+      usageShare: share,
+      usageSource: source,
+      missProbability,
+      impactPts: config.groupValuePts[group] * share * missProbability,
+    });
+  }
+
+  const byGroup = Object.fromEntries(INJURY_POSITION_GROUPS.map(g => [g, 0])) as Record<InjuryPositionGroup, number>;
+  for (const group of INJURY_POSITION_GROUPS) {
+    byGroup[group] = config.groupValuePts[group] * Math.min(lostShare[group], 1);
+    // Scale players down pro rata when the group cap binds
+    if (lostShare[group] > 1) {
+      for (const player of players) {
+        if (player.group === group) player.impactPts /= lostShare[group];
+      }
+    }
+  }
+
+  return {
+    teamId,
+    impactPts: INJURY_POSITION_GROUPS.reduce((sum, g) => sum + byGroup[g], 0),
+    byGroup,
+    players: players.sort((a, b) => b.impactPts - a.impactPts),
+  };
+}
+
+function describePlayer(label: string, player: PlayerInjuryImpact, scale: number): string {
+  const who = player.playerName ? `${player.position} ${player.playerName}` : player.position;
+  return `${label} ${who} ${player.severity.toLowerCase()}: ${(-player.impactPts * scale).toFixed(1)} pts`;
+}
+
+/**
+ * Spread adjustment (HMA) for one game's injury reports
+ * While the config is unfitted the impacts and breakdown are still computed, but
+ * injuryAdjPts is 0.
+ */
+export function computeInjuryAdjustment(
+  homeTeamId: string,
+  awayTeamId: string,
+  reports: InjuryReport[],
+  config: InjuryImpactConfig = DEFAULT_INJURY_CONFIG
+): InjuryAdjustment {
+  const home = computeTeamInjuryImpact(homeTeamId, reports, config);
+  const away = computeTeamInjuryImpact(awayTeamId, reports, config);
+  const rawAdjPts = away.impactPts - home.impactPts;
+  const fitted = isInjuryModelFitted(config);
+  const injuryAdjPts = fitted
+    ? Math.max(-config.maxAdjustmentPts, Math.min(config.maxAdjustmentPts, config.scale * rawAdjPts))
+    : 0;
+
+  return {
+    injuryAdjPts,
+    fitted,
+    rawAdjPts,
+    scale: config.scale,
+    home,
+    away,
+    breakdown: [
+      ...home.players.map(p => describePlayer('Home', p, config.scale)),
+      ...away.players.map(p => describePlayer('Away', p, config.scale)),
+    ],
+  };
+}
+
+// ============================================================================
+// Calibration
+// ============================================================================
+
+export interface InjuryCalibrationSample {
+  /** awayImpact - homeImpact, unscaled */
+  rawAdjPts: number;
+  /** actualMargin - modelSpreadWithoutInjuries (HMA) */
+  residual: number;
+}
+
+export interface InjuryCalibrationBucket {
+  label: string;
+  min: number;
+  max: number;
+  games: number;
+  meanPredicted: number | null;
+  meanResidual: number | null;
+}
+
+export interface InjuryScaleFit {
+  scale: number;
+  scaleStdError: number | null;
+  sampleSize: number;
+  /** Games with a nonzero raw adjustment (the only ones that inform the scale) */
+  informativeGames: number;
+  rmseWithout: number;
+  rmseWith: number;
+}
+
+/**
+ * Fit residual ≈ scale × rawAdj through the origin
+ */
+export function fitInjuryScale(samples: InjuryCalibrationSample[]): InjuryScaleFit {
+  const informative = samples.filter(s => s.rawAdjPts !== 0);
+  if (informative.length < 30) {
+    throw new Error(`Need at least 30 games with injury adjustments to fit (got ${informative.length})`);
+  }
+
+  let sumXY = 0;
+  let sumX2 = 0;
+  for (const s of informative) {
+    sumXY += s.rawAdjPts * s.residual;
+    sumX2 += s.rawAdjPts * s.rawAdjPts;
+  }
+  const scale = sumXY / sumX2;
+
+  let ssWith = 0;
+  let ssWithout = 0;
+  for (const s of samples) {
+    ssWith += (s.residual - scale * s.rawAdjPts) ** 2;
+    ssWithout += s.residual ** 2;
+  }
+  const informativeSs = informative.reduce((sum, s) => sum + (s.residual - scale * s.rawAdjPts) ** 2, 0);
+  const sigma2 = informative.length > 1 ? informativeSs / (informative.length - 1) : null;
+
+  return {
+    scale,
+    scaleStdError: sigma2 !== null ? Math.sqrt(sigma2 / sumX2) : null,
+    sampleSize: samples.length,
+    informativeGames: informative.length,
+    rmseWithout: Math.sqrt(ssWithout / samples.length),
+    rmseWith: Math.sqrt(ssWith / samples.length),
+  };
+}
+
+export const DEFAULT_CALIBRATION_EDGES = [-3, -1.5, -0.5, 0.5, 1.5, 3];
+
+/**
+ * Predicted vs realized residual by size of the scaled adjustment
+ * A calibrated model has meanPredicted ≈ meanResidual in every bucket.
+ */
+export function buildInjuryCalibrationTable(
+  samples: InjuryCalibrationSample[],
+  scale: number,
+  edges: number[] = DEFAULT_CALIBRATION_EDGES
+): InjuryCalibrationBucket[] {
+  const bounds = [-Infinity, ...edges, Infinity];
+  const buckets: InjuryCalibrationBucket[] = [];
+
+  for (let i = 0; i < bounds.length - 1; i++) {
+    const min = bounds[i];
+    const max = bounds[i + 1];
+    const inBucket = samples.filter(s => {
+      const predicted = scale * s.rawAdjPts;
+      return predicted >= min && predicted < max;
+    });
+    const label = min === -Infinity ? `< ${max}` : max === Infinity ? `≥ ${min}` : `${min} to ${max}`;
+    buckets.push({
+      label,
+      min,
+      max,
+      games: inBucket.length,
+      meanPredicted: inBucket.length > 0 ? inBucket.reduce((sum, s) => sum + scale * s.rawAdjPts, 0) / inBucket.length : null,
+      meanResidual: inBucket.length > 0 ? inBucket.reduce((sum, s) => sum + s.residual, 0) / inBucket.length : null,
+    });
+  }
+
+  return buckets;
+}
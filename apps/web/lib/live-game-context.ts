@@ -0,0 +1,104 @@
+/**
+ * Live Game Context Loader
+ *
+ * Database side of live win probability: the pregame Core V1 spread, the game's
+ * LiveGameUpdate rows (written by the jobs live-scores poller) and spread lines
+ * posted after kickoff. The math lives in live-win-prob.ts.
+ */
+
+import { prisma } from './prisma';
+import { getCoreV1SpreadFromTeams } from './core-v1-spread';
+import { getMarginSigma } from './core-v1-moneyline';
+import {
+  LiveLinePoint,
+  LiveTrajectoryPoint,
+  alignLiveLines,
+  buildLiveTrajectory,
+} from './live-win-prob';
+
+export interface LiveGameView {
+  gameId: string;
+  status: string;
+  homeTeam: { id: string; name: string };
+  awayTeam: { id: string; name: string };
+  kickoff: string;
+  pregameSpreadHma: number | null;
+  marginSigma: number;
+  /** Latest trajectory point (null before the first update) */
+  current: LiveTrajectoryPoint | null;
+  trajectory: LiveTrajectoryPoint[];
+  liveLines: LiveLinePoint[];
+  source: string | null;
+}
+
+/**
+ * Live view of one game (null if the game doesn't exist)
+ */
+export async function loadLiveGame(gameId: string): Promise<LiveGameView | null> {
+  const game = await prisma.game.findUnique({
+    where: { id: gameId },
+    include: { homeTeam: { select: { id: true, name: true } }, awayTeam: { select: { id: true, name: true } } },
+  });
+  if (!game) return null;
+
+  let pregameSpreadHma: number | null = null;
+  try {
+    const spread = await getCoreV1SpreadFromTeams(
+      game.season, game.homeTeamId, game.awayTeamId, game.neutralSite,
+      game.homeTeam.name, game.awayTeam.name, game.date, game.date, game.id
+    );
+    pregameSpreadHma = spread.coreSpreadHma;
+  } catch (error) {
+    console.warn(`[Live] No pregame Core V1 spread for ${gameId}:`, error);
+  }
+
+  const updates = await prisma.liveGameUpdate.findMany({
+    where: { gameId },
+    orderBy: { recordedAt: 'asc' },
+  });
+  // One source per game: the one that reported most recently
+  const source = updates.length > 0 ? updates[updates.length - 1].source : null;
+  const states = (updates as any[])
+    .filter(u => u.source === source)
+    .map(u => ({
+      status: u.status,
+      period: u.period,
+      clockSeconds: u.clockSeconds,
+      homeScore: u.homeScore,
+      awayScore: u.awayScore,
+      possession: u.possession === 'home' || u.possession === 'away' ? u.possession : null,
+      recordedAt: u.recordedAt,
+    }));
+
+  const marginSigma = getMarginSigma();
+  const trajectory = pregameSpreadHma !== null ? buildLiveTrajectory(states, pregameSpreadHma, marginSigma) : [];
+
+  // Spread lines posted after kickoff, oriented to HMA
+  const lines = await prisma.marketLine.findMany({
+    where: { gameId, lineType: 'spread', timestamp: { gte: game.date }, teamId: { not: null } },
+    orderBy: { timestamp: 'asc' },
+    select: { timestamp: true, bookName: true, lineValue: true, teamId: true },
+  });
+  const liveLines = alignLiveLines(
+    (lines as any[]).map(line => ({
+      timestamp: line.timestamp,
+      bookName: line.bookName,
+      spreadHma: line.teamId === game.homeTeamId ? -line.lineValue : line.lineValue,
+    })),
+    trajectory
+  );
+
+  return {
+    gameId: game.id,
+    status: game.status,
+    homeTeam: game.homeTeam,
+    awayTeam: game.awayTeam,
+    kickoff: game.date.toISOString(),
+    pregameSpreadHma,
+    marginSigma,
+    current: trajectory.length > 0 ? trajectory[trajectory.length - 1] : null,
+    trajectory,
+    liveLines,
+    source,
+  };
+}
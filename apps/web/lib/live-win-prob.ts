@@ -0,0 +1,199 @@
+/**
+ * Live Win Probability
+ *
+ * In-game home win probability and fair live spread from the pregame Core V1
+ * spread, the score and the time left:
+ *
+ *   f            = secondsRemaining / regulationSeconds
+ *   fairSpread   = lead + pregameSpread × f + possession
+ *   homeWinProb  = Φ(fairSpread / (σ × √f))
+ *
+ * The unplayed share of the game keeps the pregame edge and the pregame margin
+ * variance (σ, see core-v1-moneyline.ts) in proportion to the time left. All
+ * spreads are HMA (positive = home favored); a live spread is on the full-game
+ * margin, current score included. Overtime is priced as a fixed slice of game time.
+ */
+
+// Static import - bundled by Next.js/Vercel
+import liveConfigData from './data/live_win_prob_config.json';
+import { normalCdf } from './core-v1-moneyline';
+
+export const LIVE_WIN_PROB_CONFIG = {
+  regulationPeriods: liveConfigData.regulation_periods as number,
+  periodSeconds: liveConfigData.period_seconds as number,
+  overtimeEquivalentSeconds: liveConfigData.overtime_equivalent_seconds as number,
+  /** Expected points of having the ball, credited to the team in possession */
+  possessionPoints: liveConfigData.possession_points as number,
+};
+
+const REGULATION_SECONDS = LIVE_WIN_PROB_CONFIG.regulationPeriods * LIVE_WIN_PROB_CONFIG.periodSeconds;
+
+export type LiveGameStatus = 'scheduled' | 'in_progress' | 'final';
+
+export interface LiveGameState {
+  status: LiveGameStatus;
+  period: number;
+  /** Seconds left in the period */
+  clockSeconds: number;
+  homeScore: number;
+  awayScore: number;
+  possession: 'home' | 'away' | null;
+}
+
+export interface LiveWinProb {
+  homeWinProb: number;
+  /** Expected final margin (HMA) */
+  fairSpreadHma: number;
+  secondsRemaining: number;
+}
+
+export interface LiveTrajectoryPoint extends LiveWinProb {
+  recordedAt: string;
+  /** Game minutes played (regulation clock; overtime counts past 60) */
+  minute: number;
+  period: number;
+  clockSeconds: number;
+  homeScore: number;
+  awayScore: number;
+  status: LiveGameStatus;
+}
+
+export interface LiveLineInput {
+  timestamp: Date | string;
+  bookName: string;
+  spreadHma: number;
+}
+
+export interface LiveLinePoint {
+  timestamp: string;
+  bookName: string;
+  spreadHma: number;
+  /** Game minute of the latest update at or before the line (null = before kickoff) */
+  minute: number | null;
+}
+
+function toIso(timestamp: Date | string): string {
+  return timestamp instanceof Date ? timestamp.toISOString() : new Date(timestamp).toISOString();
+}
+
+/**
+ * Regulation seconds left (0 in overtime)
+ */
+export function secondsRemaining(period: number, clockSeconds: number): number {
+  const { regulationPeriods, periodSeconds } = LIVE_WIN_PROB_CONFIG;
+  if (period > regulationPeriods) return 0;
+  const clock = Math.max(0, Math.min(periodSeconds, clockSeconds));
+  return Math.max(0, (regulationPeriods - Math.max(period, 1)) * periodSeconds + clock);
+}
+
+/**
+ * Game minutes played
+ */
+export function gameMinute(period: number, clockSeconds: number): number {
+  const { regulationPeriods, periodSeconds } = LIVE_WIN_PROB_CONFIG;
+  if (period > regulationPeriods) {
+    // Overtime periods are untimed; space them a minute apart
+    return REGULATION_SECONDS / 60 + (period - regulationPeriods);
+  }
+  return (REGULATION_SECONDS - secondsRemaining(period, clockSeconds)) / 60;
+}
+
+/**
+ * Home win probability and fair live spread for one game state
+ *
+ * @param pregameSpreadHma - Pregame Core V1 spread (positive = home favored)
+ * @param marginSigma - Full-game margin standard deviation
+ */
+export function liveWinProbability(state: LiveGameState, pregameSpreadHma: number, marginSigma: number): LiveWinProb {
+  const lead = state.homeScore - state.awayScore;
+
+  if (state.status === 'final') {
+    return { homeWinProb: lead > 0 ? 1 : lead < 0 ? 0 : 0.5, fairSpreadHma: lead, secondsRemaining: 0 };
+  }
+  if (state.status === 'scheduled') {
+    return {
+      homeWinProb: normalCdf(pregameSpreadHma / marginSigma),
+      fairSpreadHma: pregameSpreadHma,
+      secondsRemaining: REGULATION_SECONDS,
+    };
+  }
+
+  let remaining = secondsRemaining(state.period, state.clockSeconds);
+  const overtime = state.period > LIVE_WIN_PROB_CONFIG.regulationPeriods;
+  // A tie at the end of regulation, or any overtime state, still has football left
+  if (overtime || (remaining === 0 && lead === 0)) {
+    remaining = LIVE_WIN_PROB_CONFIG.overtimeEquivalentSeconds;
+  }
+
+  const fraction = remaining / REGULATION_SECONDS;
+  const possession = remaining > 0 && state.possession
+    ? (state.possession === 'home' ? 1 : -1) * LIVE_WIN_PROB_CONFIG.possessionPoints
+    : 0;
+  const fairSpreadHma = lead + pregameSpreadHma * fraction + possession;
+  const sd = marginSigma * Math.sqrt(fraction);
+  const homeWinProb = sd > 0
+    ? normalCdf(fairSpreadHma / sd)
+    : fairSpreadHma > 0 ? 1 : fairSpreadHma < 0 ? 0 : 0.5;
+
+  return { homeWinProb, fairSpreadHma, secondsRemaining: remaining };
+}
+
+/**
+ * Win probability after every update, starting from the pregame number at kickoff
+ */
+export function buildLiveTrajectory(
+  updates: Array<LiveGameState & { recordedAt: Date | string }>,
+  pregameSpreadHma: number,
+  marginSigma: number
+): LiveTrajectoryPoint[] {
+  const sorted = [...updates].sort((a, b) => new Date(a.recordedAt).getTime() - new Date(b.recordedAt).getTime());
+  const points: LiveTrajectoryPoint[] = [];
+
+  if (sorted.length > 0) {
+    const kickoff: LiveGameState = {
+      status: 'in_progress', period: 1, clockSeconds: LIVE_WIN_PROB_CONFIG.periodSeconds,
+      homeScore: 0, awayScore: 0, possession: null,
+    };
+    points.push({
+      ...kickoff,
+      ...liveWinProbability(kickoff, pregameSpreadHma, marginSigma),
+      recordedAt: toIso(sorted[0].recordedAt),
+      minute: 0,
+    });
+  }
+
+  for (const update of sorted) {
+    if (update.status === 'scheduled') continue;
+    points.push({
+      status: update.status,
+      period: update.period,
+      clockSeconds: update.clockSeconds,
+      homeScore: update.homeScore,
+      awayScore: update.awayScore,
+      ...liveWinProbability(update, pregameSpreadHma, marginSigma),
+      recordedAt: toIso(update.recordedAt),
+      minute: update.status === 'final' && points.length > 0
+        ? Math.max(points[points.length - 1].minute, REGULATION_SECONDS / 60)
+        : gameMinute(update.period, update.clockSeconds),
+    });
+  }
+
+  return points;
+}
+
+/**
+ * Place live market spreads on the game clock of the trajectory
+ */
+export function alignLiveLines(lines: LiveLineInput[], trajectory: LiveTrajectoryPoint[]): LiveLinePoint[] {
+  return [...lines]
+    .sort((a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime())
+    .map(line => {
+      const time = new Date(line.timestamp).getTime();
+      let minute: number | null = null;
+      for (const point of trajectory) {
+        if (new Date(point.recordedAt).getTime() > time) break;
+        minute = point.minute;
+      }
+      return { timestamp: toIso(line.timestamp), bookName: line.bookName, spreadHma: line.spreadHma, minute };
+    });
+}
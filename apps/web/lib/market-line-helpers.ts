@@ -261,3 +261,64 @@ export function americanToProb(american?: number | null): number | null {
   return (-american) / ((-american) + 100);
 }
 
+/**
+ * Convert American odds to decimal odds (total return per 1 unit staked)
+ *
+ * @example
+ * americanToDecimal(-110) // 1.909
+ * americanToDecimal(+150) // 2.5
+ */
+export function americanToDecimal(american: number): number {
+  return american > 0 ? 1 + american / 100 : 1 + 100 / Math.abs(american);
+}
+
+/**
+ * Convert a win probability to fair American odds (no vig)
+ *
+ * @param prob - Win probability (0-1, exclusive)
+ * @returns Fair American price, or null if probability is out of range
+ *
+ * @example
+ * probToAmerican(0.6) // -150
+ * probToAmerican(0.4) // +150
+ */
+export function probToAmerican(prob: number): number | null {
+  if (!Number.isFinite(prob) || prob <= 0 || prob >= 1) return null;
+
+  if (prob >= 0.5) {
+    return -(prob / (1 - prob)) * 100;
+  }
+  return ((1 - prob) / prob) * 100;
+}
+
+/**
+ * Remove vigorish from a two-way market (proportional method)
+ *
+ * Implied probabilities from both sides sum to more than 1 (the overround);
+ * each side is scaled down so the pair sums to exactly 1.
+ *
+ * @param homePrice - Home American odds
+ * @param awayPrice - Away American odds
+ * @returns No-vig probabilities and the overround, or null if either price is missing
+ *
+ * @example
+ * removeVig(-150, +130) // { homeProb: 0.580, awayProb: 0.420, overround: 0.0348 }
+ */
+export function removeVig(
+  homePrice?: number | null,
+  awayPrice?: number | null
+): { homeProb: number; awayProb: number; overround: number } | null {
+  const homeImplied = americanToProb(homePrice);
+  const awayImplied = americanToProb(awayPrice);
+  if (homeImplied === null || awayImplied === null) return null;
+
+  const book = homeImplied + awayImplied;
+  if (!(book > 0)) return null;
+
+  return {
+    homeProb: homeImplied / book,
+    awayProb: awayImplied / book,
+    overround: book - 1,
+  };
+}
+
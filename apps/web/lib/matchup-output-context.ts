@@ -0,0 +1,34 @@
+/**
+ * Matchup Output Context Loader
+ *
+ * MatchupOutput rows are upserted in place by every matchup-output run. Without
+ * asOf this reads the live rows; with asOf it reads the snapshot rows each run
+ * appends and picks the one live at asOf.
+ */
+
+import type { MatchupOutput, MatchupOutputSnapshot } from '@prisma/client';
+import { prisma } from './prisma';
+import { latestPerKeyAsOf } from './rating-snapshots';
+
+/**
+ * Matchup outputs for one model version, keyed by gameId
+ *
+ * @param asOf - Replay time (null = live rows)
+ * @returns Outputs by game; games without an output at asOf are absent
+ */
+export async function loadMatchupOutputs(
+  gameIds: string[],
+  modelVersion: string,
+  asOf: Date | null = null
+): Promise<Map<string, MatchupOutput | MatchupOutputSnapshot>> {
+  if (gameIds.length === 0) return new Map();
+  const where = { gameId: { in: gameIds }, modelVersion };
+  const rows: Array<MatchupOutput | MatchupOutputSnapshot> = asOf
+    ? latestPerKeyAsOf(
+        await prisma.matchupOutputSnapshot.findMany({ where: { ...where, createdAt: { lte: asOf } } }),
+        row => row.gameId,
+        asOf
+      )
+    : await prisma.matchupOutput.findMany({ where });
+  return new Map(rows.map(row => [row.gameId, row] as const));
+}
@@ -0,0 +1,154 @@
+/**
+ * Model Comparison Context Loader
+ *
+ * Database side of the model comparison: loads ModelCalibration rows, the season's
+ * training rows (market target + features) and final scores, and predicts each game
+ * with each fit. The comparison itself lives in model-compare.ts.
+ */
+
+import { prisma } from './prisma';
+import { loadCalibrationRows } from './calibration-context';
+import { BUNDLED_CORE_MODEL, CORE_V1_FIT_LABEL, CoreModel, getCoreModel } from './model-registry';
+import {
+  ComparedCalibration,
+  ComparisonGame,
+  ModelComparison,
+  calibrationFromRow,
+  compareCalibrations,
+  predictCalibration,
+} from './model-compare';
+
+export interface CalibrationSummary {
+  id: string;
+  modelVersion: string;
+  fitLabel: string;
+  season: number;
+  featureVersion: string;
+  gatesPassed: boolean;
+  isActive: boolean;
+  walkForwardRmse: number | null;
+  createdAt: string;
+}
+
+export interface ModelComparisonQuery {
+  ids: string[];
+  /** Season to compare on (default: the season after the latest fit's, so no fit sees its training rows) */
+  season?: number | null;
+  weeks?: number[] | null;
+  minEdge?: number;
+}
+
+/**
+ * Calibrations available to compare, newest first
+ */
+export async function listCalibrations(season: number | null = null): Promise<CalibrationSummary[]> {
+  const rows = await prisma.modelCalibration.findMany({
+    where: season !== null ? { season } : {},
+    orderBy: [{ season: 'desc' }, { createdAt: 'desc' }],
+    select: {
+      id: true,
+      modelVersion: true,
+      fitLabel: true,
+      season: true,
+      featureVersion: true,
+      gatesPassed: true,
+      isActive: true,
+      walkForwardRmse: true,
+      createdAt: true,
+    },
+  });
+  return rows.map((row: any) => ({
+    ...row,
+    walkForwardRmse: row.walkForwardRmse !== null ? Number(row.walkForwardRmse) : null,
+    createdAt: row.createdAt.toISOString(),
+  }));
+}
+
+/**
+ * Registry fits predict with their own rating blend; everything else with the bundled one
+ */
+async function blendModelFor(calibration: ComparedCalibration, row: any): Promise<CoreModel> {
+  if (calibration.fitLabel !== CORE_V1_FIT_LABEL || !row.artifacts) return BUNDLED_CORE_MODEL;
+  return (await getCoreModel(calibration.modelVersion)) ?? BUNDLED_CORE_MODEL;
+}
+
+/**
+ * Compare calibrations on the games every fit has training rows for
+ *
+ * @throws if an ID is unknown
+ */
+export async function loadModelComparison(query: ModelComparisonQuery): Promise<ModelComparison & { season: number }> {
+  const { ids, weeks = null, minEdge = 0 } = query;
+  const rows = await prisma.modelCalibration.findMany({ where: { id: { in: ids } } });
+  const missing = ids.filter(id => !rows.some((row: any) => row.id === id));
+  if (missing.length > 0) {
+    throw new Error(`Unknown calibration: ${missing.join(', ')}`);
+  }
+
+  const ordered = ids.map(id => rows.find((row: any) => row.id === id)!);
+  const calibrations = ordered.map(calibrationFromRow);
+  // Fits predict with their final coefficients, so their own season would be scored in sample
+  const season = query.season ?? Math.max(...calibrations.map(c => c.season)) + 1;
+
+  // Features per fit: one row load per (feature version, blend model)
+  const rowSets = new Map<string, Awaited<ReturnType<typeof loadCalibrationRows>>['rows']>();
+  const predictionsById = new Map<string, Map<string, number | null>>();
+  const targets = new Map<string, { season: number; week: number; target: number }>();
+
+  for (let i = 0; i < calibrations.length; i++) {
+    const calibration = calibrations[i];
+    const blendModel = await blendModelFor(calibration, ordered[i]);
+    const key = `${calibration.featureVersion}|${blendModel.modelVersion}`;
+    if (!rowSets.has(key)) {
+      const { rows: loaded } = await loadCalibrationRows({
+        seasons: [season],
+        featureVersion: calibration.featureVersion,
+        weeks,
+        blendModel,
+      });
+      rowSets.set(key, loaded);
+    }
+
+    const predictions = new Map<string, number | null>();
+    for (const row of rowSets.get(key)!) {
+      predictions.set(row.gameId, predictCalibration(calibration, row.values));
+      if (!targets.has(row.gameId)) {
+        targets.set(row.gameId, { season: row.season, week: row.week, target: row.target });
+      }
+    }
+    predictionsById.set(calibration.id, predictions);
+  }
+
+  const sharedGameIds = Array.from(targets.keys()).filter(gameId =>
+    calibrations.every(c => predictionsById.get(c.id)!.has(gameId))
+  );
+  const gameRows = await prisma.game.findMany({
+    where: { id: { in: sharedGameIds } },
+    select: {
+      id: true,
+      homeScore: true,
+      awayScore: true,
+      homeTeam: { select: { name: true } },
+      awayTeam: { select: { name: true } },
+    },
+  });
+  const gameById = new Map(gameRows.map((game: any) => [game.id, game]));
+
+  const games: ComparisonGame[] = sharedGameIds.map(gameId => {
+    const target = targets.get(gameId)!;
+    const game: any = gameById.get(gameId);
+    const predictions: Record<string, number | null> = {};
+    for (const c of calibrations) predictions[c.id] = predictionsById.get(c.id)!.get(gameId) ?? null;
+    return {
+      gameId,
+      season: target.season,
+      week: target.week,
+      matchup: game ? `${game.awayTeam.name} @ ${game.homeTeam.name}` : gameId,
+      marketSpread: target.target,
+      actualMargin: game && game.homeScore !== null && game.awayScore !== null ? game.homeScore - game.awayScore : null,
+      predictions,
+    };
+  });
+
+  return { season, ...compareCalibrations(calibrations, games, minEdge) };
+}
@@ -0,0 +1,294 @@
+/**
+ * Model Comparison
+ *
+ * Puts two or more ModelCalibration fits side by side: metric table, residuals by
+ * spread bucket, coefficient diffs, and the games where the fits take different sides
+ * against the market, with each fit's realized ATS record on those games.
+ *
+ * Spreads are HMA (home minus away, positive = home favored). A fit picks home when its
+ * prediction is above the market spread by more than `minEdge`, away when below.
+ * The DB side lives in model-compare-context.ts.
+ */
+
+import { CALIBRATION_FEATURES, GateCheck, ResidualBucket, predictFromCoefficients } from './calibration';
+
+export interface CalibrationMetrics {
+  trainRmse: number | null;
+  trainR2: number | null;
+  walkForwardRmse: number | null;
+  walkForwardR2: number | null;
+  walkForwardPearson: number | null;
+  walkForwardSpearman: number | null;
+  slope: number | null;
+  signAgreement: number | null;
+}
+
+export interface ComparedCalibration {
+  id: string;
+  modelVersion: string;
+  fitLabel: string;
+  season: number;
+  featureVersion: string;
+  gatesPassed: boolean;
+  isActive: boolean;
+  createdAt: string;
+  metrics: CalibrationMetrics;
+  intercept: number;
+  /** Original-scale coefficients by feature */
+  coefficients: Record<string, number>;
+  /** Coefficients this tree can't compute (legacy feature names); such a fit can't predict */
+  unsupportedFeatures: string[];
+  residualBuckets: ResidualBucket[];
+  gateChecks: GateCheck[];
+  trainingRowIds: string[];
+}
+
+export interface ComparisonGame {
+  gameId: string;
+  season: number;
+  week: number;
+  matchup: string;
+  marketSpread: number;
+  /** Home score - away score (null until final) */
+  actualMargin: number | null;
+  /** Prediction per calibration ID (null = fit can't predict this game) */
+  predictions: Record<string, number | null>;
+}
+
+export type AtsSide = 'home' | 'away';
+export type AtsOutcome = 'win' | 'loss' | 'push';
+
+export interface ModelPick {
+  prediction: number | null;
+  edge: number | null;
+  side: AtsSide | null;
+  result: AtsOutcome | null;
+  /** Game was in the fit's training rows */
+  inSample: boolean;
+}
+
+export interface AtsRecord {
+  wins: number;
+  losses: number;
+  pushes: number;
+  /** Wins / (wins + losses), null without decided picks */
+  winRate: number | null;
+}
+
+export interface DisagreementGame {
+  gameId: string;
+  season: number;
+  week: number;
+  matchup: string;
+  marketSpread: number;
+  actualMargin: number | null;
+  /** Largest gap between two fits' predictions */
+  predictionGap: number;
+  picks: Record<string, ModelPick>;
+}
+
+export interface CoefficientDiff {
+  feature: string;
+  values: Record<string, number | null>;
+  /** Max - min across the fits that use the feature */
+  range: number;
+}
+
+export interface ModelComparison {
+  calibrations: Array<Omit<ComparedCalibration, 'trainingRowIds'> & { label: string }>;
+  coefficientDiffs: CoefficientDiff[];
+  residualsByBucket: Array<{ bucket: string; models: Record<string, ResidualBucket | null> }>;
+  gamesCompared: number;
+  disagreements: DisagreementGame[];
+  atsAll: Record<string, AtsRecord>;
+  atsOnDisagreements: Record<string, AtsRecord>;
+}
+
+function toNumber(value: any): number | null {
+  if (value === null || value === undefined) return null;
+  const n = Number(value);
+  return Number.isFinite(n) ? n : null;
+}
+
+function isKnownFeature(name: string): boolean {
+  return Boolean(CALIBRATION_FEATURES[name] || (name.endsWith('Sq') && CALIBRATION_FEATURES[name.slice(0, -2)]));
+}
+
+/**
+ * Normalize a ModelCalibration row
+ *
+ * Handles calibration CLI coefficients ({ feature: { standardized, original } }),
+ * plain numbers, and registry rows ({ beta0, betaRatingDiff, betaHfa }).
+ */
+export function calibrationFromRow(row: any): ComparedCalibration {
+  const raw = (row.coefficients ?? {}) as Record<string, any>;
+  let intercept = toNumber(row.intercept) ?? 0;
+  let coefficients: Record<string, number> = {};
+
+  if (typeof raw.betaRatingDiff === 'number') {
+    intercept = toNumber(raw.beta0) ?? intercept;
+    coefficients = { ratingDiffBlend: raw.betaRatingDiff, hfaPoints: toNumber(raw.betaHfa) ?? 0 };
+  } else {
+    for (const [name, value] of Object.entries(raw)) {
+      const coefficient = typeof value === 'object' && value !== null ? toNumber(value.original) : toNumber(value);
+      if (coefficient !== null) coefficients[name] = coefficient;
+    }
+  }
+
+  const gateDetails = (row.gateDetails ?? {}) as Record<string, any>;
+  return {
+    id: row.id,
+    modelVersion: row.modelVersion,
+    fitLabel: row.fitLabel,
+    season: row.season,
+    featureVersion: row.featureVersion,
+    gatesPassed: Boolean(row.gatesPassed),
+    isActive: Boolean(row.isActive),
+    createdAt: new Date(row.createdAt).toISOString(),
+    metrics: {
+      trainRmse: toNumber(row.trainRmse),
+      trainR2: toNumber(row.trainR2),
+      walkForwardRmse: toNumber(row.walkForwardRmse),
+      walkForwardR2: toNumber(row.walkForwardR2),
+      walkForwardPearson: toNumber(row.walkForwardPearson),
+      walkForwardSpearman: toNumber(row.walkForwardSpearman),
+      slope: toNumber(row.slope),
+      signAgreement: toNumber(row.signAgreement),
+    },
+    intercept,
+    coefficients,
+    unsupportedFeatures: Object.keys(coefficients).filter(name => !isKnownFeature(name)),
+    residualBuckets: Array.isArray(row.residualSummary?.bySpread) ? row.residualSummary.bySpread : [],
+    gateChecks: Array.isArray(gateDetails.checks) ? gateDetails.checks : [],
+    trainingRowIds: row.trainingRowIds ?? [],
+  };
+}
+
+/**
+ * A fit's spread for one game (null if it uses features this tree can't compute)
+ */
+export function predictCalibration(
+  calibration: ComparedCalibration,
+  values: Record<string, number | null>
+): number | null {
+  if (calibration.unsupportedFeatures.length > 0) return null;
+  return predictFromCoefficients(values, calibration.intercept, calibration.coefficients);
+}
+
+/**
+ * Side a prediction takes against the market (null inside `minEdge`)
+ */
+export function pickSide(prediction: number, marketSpread: number, minEdge = 0): AtsSide | null {
+  const edge = prediction - marketSpread;
+  if (edge > minEdge) return 'home';
+  if (edge < -minEdge) return 'away';
+  return null;
+}
+
+/**
+ * Grade a side against the market spread (HMA)
+ */
+export function gradeAts(side: AtsSide, marketSpread: number, actualMargin: number): AtsOutcome {
+  const cover = actualMargin - marketSpread;
+  if (cover === 0) return 'push';
+  const homeCovered = cover > 0;
+  return (side === 'home') === homeCovered ? 'win' : 'loss';
+}
+
+function emptyRecord(): AtsRecord {
+  return { wins: 0, losses: 0, pushes: 0, winRate: null };
+}
+
+function addResult(record: AtsRecord, result: AtsOutcome | null): void {
+  if (result === 'win') record.wins++;
+  else if (result === 'loss') record.losses++;
+  else if (result === 'push') record.pushes++;
+  const decided = record.wins + record.losses;
+  record.winRate = decided > 0 ? record.wins / decided : null;
+}
+
+/**
+ * Side-by-side comparison of calibrations over a shared set of games
+ */
+export function compareCalibrations(
+  calibrations: ComparedCalibration[],
+  games: ComparisonGame[],
+  minEdge = 0
+): ModelComparison {
+  const ids = calibrations.map(c => c.id);
+  const trainingSets = new Map(calibrations.map(c => [c.id, new Set(c.trainingRowIds)]));
+
+  // Coefficients: union of features, widest disagreement first (intercept on top)
+  const features = Array.from(new Set(calibrations.flatMap(c => Object.keys(c.coefficients))));
+  const diffRow = (feature: string, valueOf: (c: ComparedCalibration) => number | null): CoefficientDiff => {
+    const values: Record<string, number | null> = {};
+    for (const c of calibrations) values[c.id] = valueOf(c);
+    const present = Object.values(values).filter((v): v is number => v !== null);
+    return { feature, values, range: present.length > 0 ? Math.max(...present) - Math.min(...present) : 0 };
+  };
+  const coefficientDiffs = [
+    diffRow('intercept', c => c.intercept),
+    ...features
+      .map(feature => diffRow(feature, c => c.coefficients[feature] ?? null))
+      .sort((a, b) => b.range - a.range),
+  ];
+
+  const bucketLabels = Array.from(new Set(calibrations.flatMap(c => c.residualBuckets.map(b => b.label))));
+  const residualsByBucket = bucketLabels.map(bucket => {
+    const models: Record<string, ResidualBucket | null> = {};
+    for (const c of calibrations) models[c.id] = c.residualBuckets.find(b => b.label === bucket) ?? null;
+    return { bucket, models };
+  });
+
+  const atsAll: Record<string, AtsRecord> = {};
+  const atsOnDisagreements: Record<string, AtsRecord> = {};
+  for (const id of ids) {
+    atsAll[id] = emptyRecord();
+    atsOnDisagreements[id] = emptyRecord();
+  }
+
+  const disagreements: DisagreementGame[] = [];
+  for (const game of games) {
+    const picks: Record<string, ModelPick> = {};
+    for (const id of ids) {
+      const prediction = game.predictions[id] ?? null;
+      const side = prediction !== null ? pickSide(prediction, game.marketSpread, minEdge) : null;
+      const result = side && game.actualMargin !== null ? gradeAts(side, game.marketSpread, game.actualMargin) : null;
+      picks[id] = {
+        prediction,
+        edge: prediction !== null ? prediction - game.marketSpread : null,
+        side,
+        result,
+        inSample: trainingSets.get(id)!.has(game.gameId),
+      };
+      addResult(atsAll[id], result);
+    }
+
+    const sides = new Set(Object.values(picks).map(p => p.side).filter(Boolean));
+    if (sides.size < 2) continue;
+
+    for (const id of ids) addResult(atsOnDisagreements[id], picks[id].result);
+    const predictions = Object.values(picks).map(p => p.prediction).filter((p): p is number => p !== null);
+    disagreements.push({
+      gameId: game.gameId,
+      season: game.season,
+      week: game.week,
+      matchup: game.matchup,
+      marketSpread: game.marketSpread,
+      actualMargin: game.actualMargin,
+      predictionGap: Math.max(...predictions) - Math.min(...predictions),
+      picks,
+    });
+  }
+  disagreements.sort((a, b) => b.predictionGap - a.predictionGap);
+
+  return {
+    calibrations: calibrations.map(({ trainingRowIds, ...c }) => ({ ...c, label: `${c.modelVersion}/${c.fitLabel}` })),
+    coefficientDiffs,
+    residualsByBucket,
+    gamesCompared: games.length,
+    disagreements,
+    atsAll,
+    atsOnDisagreements,
+  };
+}
@@ -0,0 +1,328 @@
+/**
+ * Model Registry
+ *
+ * Serves Core V1 spread models from ModelCalibration rows instead of bundled JSON, so a
+ * recalibration goes live by activating a row (no redeploy) and earlier versions stay
+ * servable side by side via `?modelVersion=`.
+ *
+ * A registered version is a ModelCalibration row with fitLabel 'core_v1' and an
+ * `artifacts` blob holding everything the spread needs:
+ *   { coefficients: { beta0, betaRatingDiff, betaHfa }, blend, mftrRatings, hfa }
+ * At most one row per season is active (enforced by a partial unique index). A season
+ * without an active row is served the bundled JSON in lib/data as version
+ * 'core_v1_bundled', so an empty registry changes nothing. Replays (asOf) are served
+ * the version most recently activated at or before asOf.
+ */
+
+import type { ModelCalibration } from '@prisma/client';
+import { prisma } from './prisma';
+import { HfaParams, LegacyHfaConfig, legacyHfaParams } from './hfa-model';
+// Static imports - bundled by Next.js/Vercel (fallback when the registry has no active row)
+import coreCoefficients2025 from './data/core_coefficients_2025_fe_v1.json';
+import blendConfig from './data/rating_blend_config.json';
+import mftrRatings from './data/mftr_ratings_ridge.json';
+import hfaConfig from './data/core_v1_hfa_config.json';
+
+export const CORE_V1_FIT_LABEL = 'core_v1';
+export const BUNDLED_MODEL_VERSION = 'core_v1_bundled';
+
+// Rows change only on register/activate; short TTL so other instances pick up activations
+const CACHE_TTL_MS = 60 * 1000;
+
+export interface CoreCoefficients {
+  beta0: number;
+  betaRatingDiff: number;
+  betaHfa: number;
+}
+
+export interface RatingBlendConfig {
+  optimalWeight: number;
+  normalization: {
+    v2Mean: number;
+    v2Std: number;
+    mftrMean: number;
+    mftrStd: number;
+  };
+}
+
+export interface CoreModelArtifacts {
+  coefficients: CoreCoefficients;
+  blend: RatingBlendConfig;
+  /** MFTR ridge ratings by team ID */
+  mftrRatings: Record<string, number>;
+  /** HFA v2 config for seasons without fitted HfaSeasonParams (null = bundled config) */
+  hfa: LegacyHfaConfig | null;
+}
+
+export interface CoreModel {
+  modelVersion: string;
+  /** Season the version was registered for (null = bundled) */
+  season: number | null;
+  featureVersion: string;
+  source: 'registry' | 'bundled';
+  isActive: boolean;
+  coefficients: CoreCoefficients;
+  blend: RatingBlendConfig;
+  mftrRatings: Map<string, number>;
+  legacyHfa: HfaParams;
+}
+
+export interface RegisteredModelSummary {
+  modelVersion: string;
+  season: number;
+  featureVersion: string;
+  isActive: boolean;
+  activatedAt: Date | null;
+  gatesPassed: boolean;
+  walkForwardRmse: number | null;
+  createdAt: Date;
+}
+
+function asRecord(value: unknown): Record<string, unknown> | null {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+    ? (value as Record<string, unknown>)
+    : null;
+}
+
+/**
+ * Validate an artifacts blob (registry row JSON or bundled JSON)
+ */
+export function parseCoreModelArtifacts(data: unknown): CoreModelArtifacts {
+  const blob = asRecord(data);
+  const coefficients = asRecord(blob?.coefficients);
+  if (!blob || !coefficients ||
+      typeof coefficients.beta0 !== 'number' ||
+      typeof coefficients.betaRatingDiff !== 'number' ||
+      typeof coefficients.betaHfa !== 'number') {
+    throw new Error('Invalid Core V1 coefficients format');
+  }
+  const blend = asRecord(blob.blend);
+  const normalization = asRecord(blend?.normalization);
+  if (!blend || typeof blend.optimalWeight !== 'number' || !normalization ||
+      !(Number(normalization.v2Std) > 0) || !(Number(normalization.mftrStd) > 0)) {
+    throw new Error('Invalid rating blend config');
+  }
+  return {
+    coefficients: {
+      beta0: coefficients.beta0,
+      betaRatingDiff: coefficients.betaRatingDiff,
+      betaHfa: coefficients.betaHfa,
+    },
+    blend: {
+      optimalWeight: blend.optimalWeight,
+      normalization: {
+        v2Mean: Number(normalization.v2Mean),
+        v2Std: Number(normalization.v2Std),
+        mftrMean: Number(normalization.mftrMean),
+        mftrStd: Number(normalization.mftrStd),
+      },
+    },
+    mftrRatings: (asRecord(blob.mftrRatings) ?? {}) as Record<string, number>,
+    hfa: blob.hfa ? (blob.hfa as LegacyHfaConfig) : null,
+  };
+}
+
+/** Artifacts currently bundled in lib/data */
+export const BUNDLED_CORE_ARTIFACTS: CoreModelArtifacts = parseCoreModelArtifacts({
+  coefficients: coreCoefficients2025,
+  blend: blendConfig,
+  mftrRatings,
+  hfa: hfaConfig,
+});
+
+function buildCoreModel(
+  meta: Pick<CoreModel, 'modelVersion' | 'season' | 'featureVersion' | 'source' | 'isActive'>,
+  artifacts: CoreModelArtifacts
+): CoreModel {
+  return {
+    ...meta,
+    coefficients: artifacts.coefficients,
+    blend: artifacts.blend,
+    mftrRatings: new Map(Object.entries(artifacts.mftrRatings)),
+    legacyHfa: artifacts.hfa ? legacyHfaParams(artifacts.hfa) : legacyHfaParams(),
+  };
+}
+
+export const BUNDLED_CORE_MODEL: CoreModel = buildCoreModel(
+  {
+    modelVersion: BUNDLED_MODEL_VERSION,
+    season: null,
+    featureVersion: coreCoefficients2025.featureVersion,
+    source: 'bundled',
+    isActive: false,
+  },
+  BUNDLED_CORE_ARTIFACTS
+);
+
+function coreModelFromRow(row: ModelCalibration): CoreModel {
+  return buildCoreModel(
+    {
+      modelVersion: row.modelVersion,
+      season: row.season,
+      featureVersion: row.featureVersion,
+      source: 'registry',
+      isActive: row.isActive,
+    },
+    parseCoreModelArtifacts(row.artifacts)
+  );
+}
+
+const modelCache = new Map<string, { model: CoreModel | null; expiresAt: number }>();
+
+async function cached(key: string, load: () => Promise<CoreModel | null>): Promise<CoreModel | null> {
+  const hit = modelCache.get(key);
+  if (hit && hit.expiresAt > Date.now()) return hit.model;
+  const model = await load();
+  modelCache.set(key, { model, expiresAt: Date.now() + CACHE_TTL_MS });
+  return model;
+}
+
+/**
+ * Drop cached models (after register/activate)
+ */
+export function clearModelRegistryCache(): void {
+  modelCache.clear();
+}
+
+/**
+ * A registered version by name (null if unknown)
+ */
+export async function getCoreModel(modelVersion: string): Promise<CoreModel | null> {
+  if (modelVersion === BUNDLED_MODEL_VERSION) return BUNDLED_CORE_MODEL;
+  return cached(`version:${modelVersion}`, async () => {
+    const row = await prisma.modelCalibration.findUnique({
+      where: { modelVersion_fitLabel: { modelVersion, fitLabel: CORE_V1_FIT_LABEL } },
+    });
+    return row && row.artifacts ? coreModelFromRow(row) : null;
+  });
+}
+
+/**
+ * The active version for a season, else the bundled model
+ *
+ * @param asOf - Replay time: the version most recently activated at or before it,
+ *   whether or not it is still active (null = the currently active version).
+ *   Re-activating a version moves its activatedAt, so only its latest stint replays.
+ */
+export async function getActiveCoreModel(season: number, asOf: Date | null = null): Promise<CoreModel> {
+  const key = asOf ? `active:${season}:${asOf.toISOString()}` : `active:${season}`;
+  const model = await cached(key, async () => {
+    const row = await prisma.modelCalibration.findFirst({
+      where: asOf
+        ? { season, fitLabel: CORE_V1_FIT_LABEL, activatedAt: { lte: asOf } }
+        : { season, fitLabel: CORE_V1_FIT_LABEL, isActive: true },
+      orderBy: { activatedAt: 'desc' },
+    });
+    return row && row.artifacts ? coreModelFromRow(row) : null;
+  });
+  return model ?? BUNDLED_CORE_MODEL;
+}
+
+/**
+ * Model to serve: the requested version, else the season's active one (at asOf)
+ *
+ * @throws if `modelVersion` is given but not registered
+ */
+export async function resolveCoreModel(
+  season: number,
+  modelVersion: string | null = null,
+  asOf: Date | null = null
+): Promise<CoreModel> {
+  if (!modelVersion) return getActiveCoreModel(season, asOf);
+  const model = await getCoreModel(modelVersion);
+  if (!model) {
+    throw new Error(`Unknown model version: ${modelVersion}`);
+  }
+  return model;
+}
+
+/**
+ * Registered versions, newest first
+ */
+export async function listCoreModels(season: number | null = null): Promise<RegisteredModelSummary[]> {
+  const rows = await prisma.modelCalibration.findMany({
+    where: { fitLabel: CORE_V1_FIT_LABEL, ...(season !== null ? { season } : {}) },
+    orderBy: [{ season: 'desc' }, { createdAt: 'desc' }],
+  });
+  return rows.filter(row => row.artifacts).map(row => ({
+    modelVersion: row.modelVersion,
+    season: row.season,
+    featureVersion: row.featureVersion,
+    isActive: row.isActive,
+    activatedAt: row.activatedAt,
+    gatesPassed: row.gatesPassed,
+    walkForwardRmse: row.walkForwardRmse !== null ? Number(row.walkForwardRmse) : null,
+    createdAt: row.createdAt,
+  }));
+}
+
+export interface RegisterCoreModelInput {
+  modelVersion: string;
+  season: number;
+  featureVersion: string;
+  artifacts: CoreModelArtifacts;
+  gatesPassed?: boolean;
+  walkForwardRmse?: number | null;
+  activate?: boolean;
+}
+
+/**
+ * Register (or overwrite) a version; optionally make it the season's active one
+ */
+export async function registerCoreModel(input: RegisterCoreModelInput): Promise<void> {
+  if (input.modelVersion === BUNDLED_MODEL_VERSION) {
+    throw new Error(`${BUNDLED_MODEL_VERSION} is reserved for the bundled model`);
+  }
+  const artifacts = parseCoreModelArtifacts(input.artifacts);
+  const data = {
+    season: input.season,
+    featureVersion: input.featureVersion,
+    coefficients: artifacts.coefficients as any,
+    intercept: artifacts.coefficients.beta0,
+    scalerParams: artifacts.blend.normalization as any,
+    artifacts: artifacts as any,
+    gatesPassed: input.gatesPassed ?? false,
+    walkForwardRmse: input.walkForwardRmse ?? null,
+  };
+
+  await prisma.modelCalibration.upsert({
+    where: { modelVersion_fitLabel: { modelVersion: input.modelVersion, fitLabel: CORE_V1_FIT_LABEL } },
+    update: data,
+    create: {
+      modelVersion: input.modelVersion,
+      fitLabel: CORE_V1_FIT_LABEL,
+      trainingRowIds: [],
+      setLabels: [],
+      ...data,
+    },
+  });
+
+  if (input.activate) {
+    await activateCoreModel(input.modelVersion);
+  }
+  clearModelRegistryCache();
+}
+
+/**
+ * Make a version the active one for its season (deactivates the previous one)
+ */
+export async function activateCoreModel(modelVersion: string): Promise<void> {
+  const row = await prisma.modelCalibration.findUnique({
+    where: { modelVersion_fitLabel: { modelVersion, fitLabel: CORE_V1_FIT_LABEL } },
+  });
+  if (!row || !row.artifacts) {
+    throw new Error(`Unknown model version: ${modelVersion}`);
+  }
+
+  await prisma.$transaction([
+    prisma.modelCalibration.updateMany({
+      where: { season: row.season, fitLabel: CORE_V1_FIT_LABEL, isActive: true },
+      data: { isActive: false },
+    }),
+    prisma.modelCalibration.update({
+      where: { id: row.id },
+      data: { isActive: true, activatedAt: new Date() },
+    }),
+  ]);
+  clearModelRegistryCache();
+}
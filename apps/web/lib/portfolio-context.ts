@@ -0,0 +1,113 @@
+/**
+ * Portfolio Context Loader
+ *
+ * Database side of portfolios (portfolio.ts): the portfolio a request reads and
+ * tailing house bets.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from './prisma';
+import { Principal } from './auth';
+import { getPrincipal } from './auth-context';
+import { PortfolioScope, resolvePortfolioScope, tailBlockedReason } from './portfolio';
+
+export type PortfolioScopeResult =
+  | { ok: true; scope: PortfolioScope; principal: Principal | null }
+  | { ok: false; response: NextResponse };
+
+/**
+ * Portfolio from the request's `portfolio` param (see resolvePortfolioScope):
+ * 401 for "mine" when signed out, 400 for an unknown portfolio
+ */
+export async function getPortfolioScope(request: NextRequest): Promise<PortfolioScopeResult> {
+  const principal = await getPrincipal(request);
+  const resolved = resolvePortfolioScope(request.nextUrl.searchParams.get('portfolio'), principal);
+  if ('error' in resolved) {
+    const status = principal?.userId ? 400 : 401;
+    return { ok: false, response: NextResponse.json({ success: false, error: resolved.error }, { status }) };
+  }
+  return { ok: true, scope: resolved, principal };
+}
+
+export type TailResult =
+  | { ok: true; bet: any }
+  | { ok: false; status: number; error: string };
+
+/**
+ * Copy an open house bet into a user's portfolio at the house stake (or
+ * `stake`), optionally against one of their bankrolls. Parlays and teasers are
+ * copied with their legs and can be tailed until their first game kicks off.
+ * Fails for a missing bet, a bet that cannot be tailed, a bankroll the user
+ * does not own or a bet the user already tailed.
+ */
+export async function tailHouseBet(
+  betId: string,
+  userId: string,
+  options: { stake?: number; bankrollId?: string | null } = {}
+): Promise<TailResult> {
+  const houseBet = await prisma.bet.findUnique({
+    where: { id: betId },
+    include: { game: true, legs: { include: { game: true }, orderBy: { legIndex: 'asc' } } },
+  });
+  if (!houseBet) return { ok: false, status: 404, error: 'Bet not found' };
+
+  const games = houseBet.legs.length > 0 ? houseBet.legs.map((leg: any) => leg.game) : [houseBet.game];
+  const blocked = games.map((game: any) => tailBlockedReason(houseBet, game)).find((reason: string | null) => reason !== null);
+  if (blocked) return { ok: false, status: 409, error: blocked };
+
+  if (options.bankrollId) {
+    const bankroll = await prisma.bankroll.findUnique({ where: { id: options.bankrollId } });
+    if (!bankroll || bankroll.userId !== userId) return { ok: false, status: 404, error: 'Bankroll not found' };
+  }
+
+  const existing = await prisma.bet.findFirst({ where: { userId, tailedFromId: houseBet.id }, select: { id: true } });
+  if (existing) return { ok: false, status: 409, error: 'You already tailed this bet' };
+
+  const bet = await prisma.bet.create({
+    data: {
+      season: houseBet.season,
+      week: houseBet.week,
+      gameId: houseBet.gameId,
+      marketType: houseBet.marketType,
+      side: houseBet.side,
+      modelPrice: houseBet.modelPrice,
+      closePrice: houseBet.closePrice,
+      stake: options.stake ?? houseBet.stake,
+      strategyTag: houseBet.strategyTag,
+      source: 'manual',
+      notes: houseBet.notes,
+      bookName: houseBet.bookName,
+      hybridConflictType: houseBet.hybridConflictType,
+      teaserPoints: houseBet.teaserPoints,
+      bankrollId: options.bankrollId ?? null,
+      userId,
+      tailedFromId: houseBet.id,
+      ...(houseBet.legs.length > 0 && {
+        legs: {
+          create: houseBet.legs.map((leg: any) => ({
+            legIndex: leg.legIndex,
+            gameId: leg.gameId,
+            marketType: leg.marketType,
+            side: leg.side,
+            line: leg.line,
+            price: leg.price,
+            kickoff: leg.kickoff,
+          })),
+        },
+      }),
+    },
+  });
+  return { ok: true, bet };
+}
+
+/**
+ * Ids of the house bets among betIds that the user has tailed
+ */
+export async function getTailedBetIds(userId: string, betIds: string[]): Promise<Set<string>> {
+  if (betIds.length === 0) return new Set();
+  const rows = await prisma.bet.findMany({
+    where: { userId, tailedFromId: { in: betIds } },
+    select: { tailedFromId: true },
+  });
+  return new Set(rows.map((row: any) => row.tailedFromId as string));
+}
@@ -0,0 +1,105 @@
+/**
+ * Portfolios
+ *
+ * Bets, bankrolls and rulesets belong to a user, or to nobody: rows without an
+ * owner make up the shared "house" portfolio, i.e. the official strategy bets
+ * written by the sync scripts and by admins. Each user has their own portfolio
+ * ("mine"): their imports, manual bets and house bets they tailed.
+ *
+ * - Reading: house rows are public; a user's rows are visible to that user and
+ *   to admins
+ * - Writing: users manage their own rows; admins also manage house rows
+ * - Tailing copies an open house bet into the user's portfolio, once per bet
+ */
+
+import { Principal } from './auth';
+
+export const PORTFOLIOS = ['house', 'mine'] as const;
+export type Portfolio = typeof PORTFOLIOS[number];
+
+/**
+ * Which portfolio a request reads, and the owner id that selects it
+ * (null = house)
+ */
+export interface PortfolioScope {
+  portfolio: Portfolio;
+  userId: string | null;
+}
+
+export function isPortfolio(value: unknown): value is Portfolio {
+  return typeof value === 'string' && (PORTFOLIOS as readonly string[]).includes(value);
+}
+
+/**
+ * Scope for a `portfolio` query param. Defaults to the caller's own portfolio
+ * when signed in as a user, otherwise the house. Returns an error message for
+ * an unknown value or for "mine" without a user.
+ */
+export function resolvePortfolioScope(
+  param: string | null,
+  principal: Principal | null
+): PortfolioScope | { error: string } {
+  if (param !== null && param !== '' && !isPortfolio(param)) {
+    return { error: `Invalid portfolio. Must be one of: ${PORTFOLIOS.join(', ')}` };
+  }
+  const portfolio: Portfolio = param ? (param as Portfolio) : principal?.userId ? 'mine' : 'house';
+  if (portfolio === 'house') return { portfolio, userId: null };
+  if (!principal?.userId) return { error: 'Sign in to see your own portfolio' };
+  return { portfolio, userId: principal.userId };
+}
+
+/**
+ * Bet filter for a portfolio. The house shows strategy-run bets only (as Week
+ * and Season Review always have); a user's portfolio shows all their bets,
+ * including manual entries and tails.
+ */
+export function portfolioBetWhere(scope: PortfolioScope): { userId: string | null; source?: 'strategy_run' } {
+  return scope.portfolio === 'house' ? { userId: null, source: 'strategy_run' } : { userId: scope.userId };
+}
+
+/**
+ * Whether a row owned by ownerId (null = house) is visible to the caller
+ */
+export function canView(ownerId: string | null, principal: Principal | null): boolean {
+  if (ownerId === null) return true;
+  if (!principal) return false;
+  return principal.userId === ownerId || principal.role === 'admin';
+}
+
+/**
+ * Whether the caller may change a row owned by ownerId (null = house)
+ */
+export function canManage(ownerId: string | null, principal: Principal): boolean {
+  if (ownerId === null) return principal.role === 'admin';
+  return principal.userId === ownerId || principal.role === 'admin';
+}
+
+/**
+ * Owner for a row the caller creates: their own portfolio, or the house when
+ * an admin asks for it (or has no user, e.g. the admin secret). Returns an
+ * error message when a non-admin asks for the house.
+ */
+export function newRowOwner(
+  requested: unknown,
+  principal: Principal
+): { userId: string | null } | { error: string } {
+  const wantsHouse = requested === 'house' || principal.userId === null;
+  if (!wantsHouse) return { userId: principal.userId };
+  if (principal.role !== 'admin') return { error: 'Only admins can add to the house portfolio' };
+  return { userId: null };
+}
+
+/**
+ * Why a house bet cannot be tailed now, or null when it can. Tails are only
+ * taken before kickoff so nobody tails a result.
+ */
+export function tailBlockedReason(
+  bet: { userId: string | null; result: string | null },
+  game: { date: Date; status: string },
+  now: Date = new Date()
+): string | null {
+  if (bet.userId !== null) return 'Only house bets can be tailed';
+  if (bet.result !== null) return 'Bet is already graded';
+  if (game.status !== 'scheduled' || game.date.getTime() <= now.getTime()) return 'Game has already kicked off';
+  return null;
+}
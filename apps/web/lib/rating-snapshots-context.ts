@@ -0,0 +1,54 @@
+/**
+ * Rating Snapshots Context Loader
+ *
+ * Database side of rating-snapshots.ts: without asOf, reads the live
+ * TeamSeasonRating / TeamUnitGrades rows; with asOf, reads the snapshot rows
+ * the ratings jobs append after each run and picks the one live at asOf.
+ */
+
+import type {
+  TeamSeasonRating,
+  TeamSeasonRatingSnapshot,
+  TeamUnitGradeSnapshot,
+  TeamUnitGrades,
+} from '@prisma/client';
+import { prisma } from './prisma';
+import { latestAsOf, pickRatingAsOf } from './rating-snapshots';
+
+/**
+ * Team season rating, v1 falling back to v2 by default
+ *
+ * @param versions - Model versions in preference order
+ * @param asOf - Replay time (null = live rows)
+ * @returns The rating, or null if no version has a row at or before asOf
+ */
+export async function loadTeamSeasonRating(
+  season: number,
+  teamId: string,
+  versions: string[] = ['v1', 'v2'],
+  asOf: Date | null = null
+): Promise<TeamSeasonRating | TeamSeasonRatingSnapshot | null> {
+  const where = { season, teamId, modelVersion: { in: versions } };
+  const rows = asOf
+    ? await prisma.teamSeasonRatingSnapshot.findMany({ where })
+    : await prisma.teamSeasonRating.findMany({ where });
+  return pickRatingAsOf<TeamSeasonRating | TeamSeasonRatingSnapshot>(rows, versions, asOf);
+}
+
+/**
+ * Team unit grades for a season
+ *
+ * @param asOf - Replay time (null = live row)
+ * @returns The grades, or null if none were written at or before asOf
+ */
+export async function loadTeamUnitGrades(
+  season: number,
+  teamId: string,
+  asOf: Date | null = null
+): Promise<TeamUnitGrades | TeamUnitGradeSnapshot | null> {
+  if (!asOf) {
+    return prisma.teamUnitGrades.findUnique({ where: { teamId_season: { teamId, season } } });
+  }
+  const rows = await prisma.teamUnitGradeSnapshot.findMany({ where: { season, teamId } });
+  return latestAsOf(rows, asOf);
+}
@@ -0,0 +1,84 @@
+/**
+ * Rating Snapshots (Point-in-Time)
+ *
+ * TeamSeasonRating and TeamUnitGrades are upserted in place, so the live rows
+ * only ever hold the latest run. Every ratings / unit-grades run also appends a
+ * copy of its rows to team_season_rating_snapshots / team_unit_grade_snapshots
+ * (apps/jobs/lib/rating-snapshots.ts). These helpers pick, from those copies,
+ * the row that was live at asOf. The queries live in rating-snapshots-context.ts.
+ *
+ * Injury and MatchupOutput rows are snapshotted the same way on every write
+ * (apps/jobs/lib/row-snapshots.ts) and replayed with latestPerKeyAsOf.
+ */
+
+export interface SnapshotRow {
+  createdAt: Date;
+}
+
+export interface VersionedSnapshotRow extends SnapshotRow {
+  modelVersion: string;
+}
+
+/**
+ * Most recent row written at or before asOf
+ *
+ * @param asOf - Replay time (null = most recent row overall)
+ * @returns The row, or null if every row was written after asOf
+ *
+ * @example
+ * // Runs on Oct 5 and Oct 12; replaying Oct 8 returns the Oct 5 row
+ * latestAsOf(rows, new Date('2025-10-08'))
+ */
+export function latestAsOf<T extends SnapshotRow>(rows: T[], asOf: Date | null): T | null {
+  let latest: T | null = null;
+  for (const row of rows) {
+    if (asOf && row.createdAt.getTime() > asOf.getTime()) continue;
+    if (!latest || row.createdAt.getTime() > latest.createdAt.getTime()) latest = row;
+  }
+  return latest;
+}
+
+/**
+ * For each key, the most recent row written at or before asOf
+ *
+ * @param keyOf - Identity of the live row a snapshot copies (e.g. injuryId)
+ * @returns One row per key that existed at asOf, in first-seen key order
+ */
+export function latestPerKeyAsOf<T extends SnapshotRow>(
+  rows: T[],
+  keyOf: (row: T) => string,
+  asOf: Date | null
+): T[] {
+  const byKey = new Map<string, T[]>();
+  for (const row of rows) {
+    const key = keyOf(row);
+    if (!byKey.has(key)) byKey.set(key, []);
+    byKey.get(key)!.push(row);
+  }
+  const latest: T[] = [];
+  byKey.forEach(group => {
+    const row = latestAsOf(group, asOf);
+    if (row) latest.push(row);
+  });
+  return latest;
+}
+
+/**
+ * Team rating live at asOf, trying model versions in order
+ *
+ * A version falls through to the next only if it has no row at or before
+ * asOf, matching the live read's v1 → v2 fallback.
+ *
+ * @param versions - Model versions in preference order (e.g. ['v1', 'v2'])
+ */
+export function pickRatingAsOf<T extends VersionedSnapshotRow>(
+  rows: T[],
+  versions: string[],
+  asOf: Date | null
+): T | null {
+  for (const version of versions) {
+    const row = latestAsOf(rows.filter(r => r.modelVersion === version), asOf);
+    if (row) return row;
+  }
+  return null;
+}
@@ -0,0 +1,353 @@
+/**
+ * Ruleset DSL (v2)
+ *
+ * Typed, versioned rule language for strategy rulesets. A ruleset selects games with a
+ * tree of AND / OR / NOT groups whose leaves are predicates over slate fields:
+ *
+ *   { type: 'and', rules: [
+ *     { type: 'or', rules: [
+ *       { type: 'predicate', field: 'spreadEdge', op: 'gte', value: 2 },
+ *       { type: 'predicate', field: 'totalEdge', op: 'gte', value: 2 },
+ *     ] },
+ *     { type: 'predicate', field: 'confidence', op: 'in', value: ['A', 'B'] },
+ *     { type: 'not', rule: { type: 'predicate', field: 'windMph', op: 'gt', value: 20 } },
+ *   ] }
+ *
+ * Legacy (v1) parameters - flat minSpreadEdge / minTotalEdge / confidenceIn / team lists -
+ * are upgraded with upgradeLegacyParameters (same mapping as the ruleset_dsl_v2 migration).
+ *
+ * No server imports: shared by the API routes and the builder UI.
+ */
+
+import type { Prisma } from '@prisma/client';
+
+export const RULESET_DSL_VERSION = 2;
+
+export type RulesetMarket = 'spread' | 'total' | 'moneyline';
+
+export const RULESET_MARKETS: RulesetMarket[] = ['spread', 'total', 'moneyline'];
+
+export type RuleFieldKind = 'number' | 'boolean' | 'enum' | 'teamList';
+
+export type RuleOperator = 'gt' | 'gte' | 'lt' | 'lte' | 'eq' | 'neq' | 'in' | 'notIn' | 'includesAny';
+
+export interface RuleFieldDef {
+  label: string;
+  kind: RuleFieldKind;
+  unit?: string;
+  options?: string[]; // enum fields only
+}
+
+/**
+ * Slate fields available to predicates
+ */
+export const RULE_FIELDS: Record<keyof SlateFacts, RuleFieldDef> = {
+  spreadEdge: { label: 'Spread Edge', kind: 'number', unit: 'pts' },
+  totalEdge: { label: 'Total Edge', kind: 'number', unit: 'pts' },
+  moneylineEdge: { label: 'Moneyline EV', kind: 'number', unit: '%' },
+  maxEdge: { label: 'Max Edge', kind: 'number' },
+  confidence: { label: 'Confidence Tier', kind: 'enum', options: ['A', 'B', 'C'] },
+  isDog: { label: 'Spread Pick Is Underdog', kind: 'boolean' },
+  isFavorite: { label: 'Spread Pick Is Favorite', kind: 'boolean' },
+  isConferenceGame: { label: 'Conference Game', kind: 'boolean' },
+  neutralSite: { label: 'Neutral Site', kind: 'boolean' },
+  windMph: { label: 'Wind', kind: 'number', unit: 'mph' },
+  lineMove: { label: 'Spread Line Move', kind: 'number', unit: 'pts' },
+  hybridConflictType: {
+    label: 'Hybrid Conflict Type',
+    kind: 'enum',
+    options: ['hybrid_strong', 'hybrid_weak', 'hybrid_only'],
+  },
+  teams: { label: 'Teams', kind: 'teamList' },
+};
+
+export type RuleField = keyof SlateFacts;
+
+export const OPERATORS_BY_KIND: Record<RuleFieldKind, RuleOperator[]> = {
+  number: ['gte', 'gt', 'lte', 'lt', 'eq', 'neq'],
+  boolean: ['eq'],
+  enum: ['in', 'notIn'],
+  teamList: ['includesAny'],
+};
+
+export const OPERATOR_LABELS: Record<RuleOperator, string> = {
+  gt: '>',
+  gte: '≥',
+  lt: '<',
+  lte: '≤',
+  eq: '=',
+  neq: '≠',
+  in: 'is one of',
+  notIn: 'is not one of',
+  includesAny: 'includes any of',
+};
+
+export interface RulePredicate {
+  type: 'predicate';
+  field: RuleField;
+  op: RuleOperator;
+  value: number | boolean | string[];
+}
+
+export interface RuleGroup {
+  type: 'and' | 'or';
+  rules: RuleNode[];
+}
+
+export interface RuleNot {
+  type: 'not';
+  rule: RuleNode;
+}
+
+export type RuleNode = RulePredicate | RuleGroup | RuleNot;
+
+export interface RulesetParameters {
+  version: typeof RULESET_DSL_VERSION;
+  markets: RulesetMarket[];
+  rules: RuleNode;
+  maxGamesPerWeek: number | null;
+}
+
+/** Validated parameters, writable to the rulesets.parameters JSON column as is */
+export type StoredRulesetParameters = RulesetParameters & Prisma.InputJsonObject;
+
+/**
+ * Per-game facts the rules are evaluated against (null = unknown for this game)
+ */
+export interface SlateFacts {
+  spreadEdge: number | null;
+  totalEdge: number | null;
+  moneylineEdge: number | null;
+  maxEdge: number | null;
+  confidence: string | null;
+  isDog: boolean | null;
+  isFavorite: boolean | null;
+  isConferenceGame: boolean | null;
+  neutralSite: boolean | null;
+  windMph: number | null;
+  lineMove: number | null;
+  hybridConflictType: string | null;
+  teams: string[];
+}
+
+const MAX_RULE_DEPTH = 8;
+
+/**
+ * Upgrade legacy (v1) flat parameters to a v2 rule tree
+ *
+ * Mirrors the v1 run semantics: any selected market meeting its edge threshold (OR),
+ * AND confidence tier, AND include/exclude team filters.
+ */
+export function upgradeLegacyParameters(legacy: any): RulesetParameters {
+  const markets: RulesetMarket[] = Array.isArray(legacy?.markets) && legacy.markets.length > 0
+    ? legacy.markets.filter((m: string) => (RULESET_MARKETS as string[]).includes(m))
+    : ['spread', 'total'];
+
+  const edgeRules: RuleNode[] = [];
+  if (markets.includes('spread')) {
+    edgeRules.push({ type: 'predicate', field: 'spreadEdge', op: 'gte', value: Number(legacy?.minSpreadEdge) || 0 });
+  }
+  if (markets.includes('total')) {
+    edgeRules.push({ type: 'predicate', field: 'totalEdge', op: 'gte', value: Number(legacy?.minTotalEdge) || 0 });
+  }
+  if (markets.includes('moneyline')) {
+    edgeRules.push({ type: 'predicate', field: 'moneylineEdge', op: 'gte', value: Number(legacy?.minMoneylineEdge) || 0 });
+  }
+
+  const rules: RuleNode[] = [{ type: 'or', rules: edgeRules }];
+
+  if (Array.isArray(legacy?.confidenceIn) && legacy.confidenceIn.length > 0) {
+    rules.push({ type: 'predicate', field: 'confidence', op: 'in', value: legacy.confidenceIn.map(String) });
+  }
+  if (Array.isArray(legacy?.includeTeams) && legacy.includeTeams.length > 0) {
+    rules.push({ type: 'predicate', field: 'teams', op: 'includesAny', value: legacy.includeTeams.map(String) });
+  }
+  if (Array.isArray(legacy?.excludeTeams) && legacy.excludeTeams.length > 0) {
+    rules.push({
+      type: 'not',
+      rule: { type: 'predicate', field: 'teams', op: 'includesAny', value: legacy.excludeTeams.map(String) },
+    });
+  }
+
+  const maxGames = Number(legacy?.maxGamesPerWeek);
+  return {
+    version: RULESET_DSL_VERSION,
+    markets,
+    rules: { type: 'and', rules },
+    maxGamesPerWeek: Number.isInteger(maxGames) && maxGames > 0 ? maxGames : null,
+  };
+}
+
+/**
+ * Read stored parameters as v2, upgrading legacy rows on the fly
+ */
+export function normalizeRulesetParameters(raw: unknown): RulesetParameters {
+  if (raw && typeof raw === 'object' && (raw as any).version === RULESET_DSL_VERSION) {
+    return raw as RulesetParameters;
+  }
+  return upgradeLegacyParameters(raw);
+}
+
+function validateNode(node: any, path: string, depth: number, errors: string[]): void {
+  if (depth > MAX_RULE_DEPTH) {
+    errors.push(`${path}: rules nested deeper than ${MAX_RULE_DEPTH} levels`);
+    return;
+  }
+  if (!node || typeof node !== 'object') {
+    errors.push(`${path}: must be a rule object`);
+    return;
+  }
+
+  switch (node.type) {
+    case 'and':
+    case 'or':
+      if (!Array.isArray(node.rules)) {
+        errors.push(`${path}.rules: must be an array`);
+        return;
+      }
+      node.rules.forEach((child: unknown, i: number) => validateNode(child, `${path}.rules[${i}]`, depth + 1, errors));
+      return;
+
+    case 'not':
+      validateNode(node.rule, `${path}.rule`, depth + 1, errors);
+      return;
+
+    case 'predicate': {
+      const def: RuleFieldDef | undefined = (RULE_FIELDS as Record<string, RuleFieldDef>)[node.field];
+      if (!def) {
+        errors.push(`${path}.field: unknown field "${node.field}"`);
+        return;
+      }
+      if (!OPERATORS_BY_KIND[def.kind].includes(node.op)) {
+        errors.push(`${path}.op: "${node.op}" is not valid for ${node.field} (allowed: ${OPERATORS_BY_KIND[def.kind].join(', ')})`);
+        return;
+      }
+      if (def.kind === 'number' && (typeof node.value !== 'number' || !Number.isFinite(node.value))) {
+        errors.push(`${path}.value: ${node.field} needs a number`);
+      } else if (def.kind === 'boolean' && typeof node.value !== 'boolean') {
+        errors.push(`${path}.value: ${node.field} needs true or false`);
+      } else if (def.kind === 'enum' || def.kind === 'teamList') {
+        if (!Array.isArray(node.value) || node.value.length === 0 || !node.value.every((v: unknown) => typeof v === 'string')) {
+          errors.push(`${path}.value: ${node.field} needs a non-empty list`);
+        } else if (def.options) {
+          const invalid = node.value.filter((v: string) => !def.options!.includes(v));
+          if (invalid.length > 0) {
+            errors.push(`${path}.value: invalid ${node.field} option(s): ${invalid.join(', ')}`);
+          }
+        }
+      }
+      return;
+    }
+
+    default:
+      errors.push(`${path}.type: unknown rule type "${node.type}"`);
+  }
+}
+
+/**
+ * Validate ruleset parameters (v2 or legacy) for storage
+ *
+ * @param raw - Parameters from the request body
+ * @returns Normalized v2 parameters, or the list of validation errors
+ */
+export function validateRulesetParameters(
+  raw: unknown
+): { valid: true; parameters: StoredRulesetParameters } | { valid: false; errors: string[] } {
+  if (!raw || typeof raw !== 'object') {
+    return { valid: false, errors: ['parameters: must be an object'] };
+  }
+
+  const version = (raw as any).version;
+  if (version !== undefined && version !== RULESET_DSL_VERSION) {
+    return { valid: false, errors: [`parameters.version: unsupported version ${version}`] };
+  }
+
+  const params = normalizeRulesetParameters(raw);
+  const errors: string[] = [];
+
+  if (!Array.isArray(params.markets) || params.markets.length === 0) {
+    errors.push('parameters.markets: select at least one market');
+  } else {
+    const invalid = params.markets.filter(m => !RULESET_MARKETS.includes(m));
+    if (invalid.length > 0) {
+      errors.push(`parameters.markets: unknown market(s): ${invalid.join(', ')}`);
+    }
+  }
+
+  if (params.maxGamesPerWeek !== null && (!Number.isInteger(params.maxGamesPerWeek) || params.maxGamesPerWeek <= 0)) {
+    errors.push('parameters.maxGamesPerWeek: must be a positive integer or null');
+  }
+
+  validateNode(params.rules, 'parameters.rules', 0, errors);
+
+  return errors.length > 0
+    ? { valid: false, errors }
+    : { valid: true, parameters: params as StoredRulesetParameters };
+}
+
+function evaluatePredicate(predicate: RulePredicate, facts: SlateFacts): boolean {
+  const actual = facts[predicate.field];
+
+  // Unknown facts never satisfy a predicate (NOT of one does)
+  if (actual === null || actual === undefined) {
+    return false;
+  }
+
+  const value = predicate.value;
+  switch (predicate.op) {
+    case 'gt': return (actual as number) > (value as number);
+    case 'gte': return (actual as number) >= (value as number);
+    case 'lt': return (actual as number) < (value as number);
+    case 'lte': return (actual as number) <= (value as number);
+    case 'eq': return actual === value;
+    case 'neq': return actual !== value;
+    case 'in': return (value as string[]).includes(actual as string);
+    case 'notIn': return !(value as string[]).includes(actual as string);
+    case 'includesAny': return (actual as string[]).some(v => (value as string[]).includes(v));
+    default: return false;
+  }
+}
+
+/**
+ * Evaluate a rule tree against one game's facts
+ *
+ * Empty AND groups match everything; empty OR groups match nothing.
+ */
+export function evaluateRule(node: RuleNode, facts: SlateFacts): boolean {
+  switch (node.type) {
+    case 'and': return node.rules.every(child => evaluateRule(child, facts));
+    case 'or': return node.rules.some(child => evaluateRule(child, facts));
+    case 'not': return !evaluateRule(node.rule, facts);
+    case 'predicate': return evaluatePredicate(node, facts);
+    default: return false;
+  }
+}
+
+/**
+ * Human-readable summary of a rule tree
+ *
+ * @example
+ * describeRule(upgradeLegacyParameters({ minSpreadEdge: 2, confidenceIn: ['A'] }).rules)
+ * // "(Spread Edge ≥ 2 pts OR Total Edge ≥ 0 pts) AND Confidence Tier is one of A"
+ */
+export function describeRule(node: RuleNode, nested = false): string {
+  switch (node.type) {
+    case 'and':
+    case 'or': {
+      if (node.rules.length === 0) return node.type === 'and' ? 'Any game' : 'No games';
+      const text = node.rules.map(child => describeRule(child, true)).join(` ${node.type.toUpperCase()} `);
+      return nested && node.rules.length > 1 ? `(${text})` : text;
+    }
+    case 'not':
+      return `NOT ${describeRule(node.rule, true)}`;
+    case 'predicate': {
+      const def: RuleFieldDef = RULE_FIELDS[node.field];
+      const value = Array.isArray(node.value)
+        ? node.value.join(', ')
+        : `${node.value}${def.unit ? ` ${def.unit}` : ''}`;
+      return `${def.label} ${OPERATOR_LABELS[node.op]} ${value}`;
+    }
+    default:
+      return '';
+  }
+}
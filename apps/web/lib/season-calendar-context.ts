@@ -0,0 +1,120 @@
+/**
+ * Season Calendar Context Loader
+ *
+ * Database side of the season calendar (season-calendar.ts): fits the date-rule
+ * calendar to the stored games and resolves the season/week routes use when a
+ * request does not name one.
+ *
+ * The default season is the calendar season for today, unless no games are stored
+ * for it yet (preseason, before the schedule ingest); then it is the latest season
+ * with games, so pages keep showing the last slate instead of an empty one.
+ */
+
+import { prisma } from './prisma';
+import {
+  CalendarWeek,
+  GameWeekRange,
+  SeasonCalendar,
+  applyGameWeeks,
+  buildSeasonCalendar,
+  resolveCurrentWeek,
+  seasonForDate,
+} from './season-calendar';
+
+export interface SeasonWeek {
+  season: number;
+  week: number;
+}
+
+export interface CurrentSeasonWeek extends SeasonWeek {
+  phase: CalendarWeek['phase'];
+  label: string;
+}
+
+async function loadGameWeekRanges(season: number): Promise<GameWeekRange[]> {
+  const rows = await prisma.game.groupBy({
+    by: ['week'],
+    where: { season },
+    _min: { date: true },
+    _max: { date: true },
+    _count: { _all: true },
+  });
+  return rows
+    .filter((row: any) => row._min.date && row._max.date)
+    .map((row: any) => ({
+      week: row.week,
+      firstKickoff: new Date(row._min.date),
+      lastKickoff: new Date(row._max.date),
+      games: row._count._all,
+    }));
+}
+
+/**
+ * Season used when a request names none (see header)
+ */
+export async function getDefaultSeason(now: Date = new Date()): Promise<number> {
+  const calendarSeason = seasonForDate(now);
+  const latest = await prisma.game.findFirst({
+    where: { season: { lte: calendarSeason } },
+    orderBy: { season: 'desc' },
+    select: { season: true },
+  });
+  return latest?.season ?? calendarSeason;
+}
+
+/**
+ * Calendar for a season (default: see getDefaultSeason), fitted to its games
+ */
+export async function getSeasonCalendar(season?: number): Promise<SeasonCalendar> {
+  const resolved = season ?? await getDefaultSeason();
+  return applyGameWeeks(buildSeasonCalendar(resolved), await loadGameWeekRanges(resolved));
+}
+
+/**
+ * Current season and week: the week whose betting window is open (or the next
+ * one between slates); for a season that is over, its last week
+ */
+export async function getCurrentSeasonWeek(now: Date = new Date()): Promise<CurrentSeasonWeek> {
+  const calendar = await getSeasonCalendar(await getDefaultSeason(now));
+  const week = resolveCurrentWeek(calendar, now);
+  return { season: calendar.season, week: week.week, phase: week.phase, label: week.label };
+}
+
+/**
+ * Default week for a season: the current week while it is in progress, its final
+ * week once over, its first week before it starts
+ */
+export async function getDefaultWeek(season: number, now: Date = new Date()): Promise<number> {
+  return resolveCurrentWeek(await getSeasonCalendar(season), now).week;
+}
+
+function parseIntParam(value: string | null): number | null {
+  if (value === null || value.trim() === '') return null;
+  const parsed = parseInt(value, 10);
+  return Number.isFinite(parsed) ? parsed : null;
+}
+
+/**
+ * `season` query param, or the default season
+ */
+export async function resolveSeason(searchParams: URLSearchParams): Promise<number> {
+  return parseIntParam(searchParams.get('season')) ?? await getDefaultSeason();
+}
+
+/**
+ * `season` / `week` query params with calendar defaults for whichever is missing
+ * (week 0 is a valid week)
+ */
+export async function resolveSeasonWeek(searchParams: URLSearchParams): Promise<SeasonWeek> {
+  const season = parseIntParam(searchParams.get('season'));
+  const week = parseIntParam(searchParams.get('week'));
+
+  if (season !== null && week !== null) return { season, week };
+  if (season === null && week === null) {
+    const current = await getCurrentSeasonWeek();
+    return { season: current.season, week: current.week };
+  }
+
+  const resolvedSeason = season ?? await getDefaultSeason();
+  return { season: resolvedSeason, week: week ?? await getDefaultWeek(resolvedSeason) };
+}
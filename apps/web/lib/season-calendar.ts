@@ -0,0 +1,285 @@
+/**
+ * Season Calendar
+ *
+ * One calendar per season: week 0, regular-season weeks, conference championship
+ * week and the postseason weeks (bowls and CFP rounds), each with its date span and
+ * betting window. Built from date rules, then fitted to the games actually stored
+ * (season-calendar-context.ts) so week numbers always match Game.week.
+ *
+ * Conventions:
+ * - Times are America/Chicago wall time (the site's timezone)
+ * - A week runs Tuesday 00:00 through Monday 23:59, so Monday games belong to the
+ *   Saturday before them
+ * - Week 1 is Labor Day weekend; week 0 is the Saturday before it
+ * - Championship week is the week of the first Saturday in December; the weeks
+ *   after it are postseason, numbered on from there, through the CFP title game
+ * - CFP rounds (12-team format) are placed relative to championship Saturday:
+ *   first round +14 days, quarterfinals on Jan 1, semifinals +33, title game +44
+ * - A week's betting window opens the Sunday before its Saturday (lines post after
+ *   the previous week's games) and closes at its last kickoff
+ */
+
+export const CALENDAR_TIME_ZONE = 'America/Chicago';
+
+export type CalendarPhase = 'week0' | 'regular' | 'championship' | 'postseason';
+
+export type PostseasonRound =
+  | 'bowls'
+  | 'cfp_first_round'
+  | 'cfp_quarterfinal'
+  | 'cfp_semifinal'
+  | 'cfp_championship';
+
+const ROUND_LABELS: Record<PostseasonRound, string> = {
+  bowls: 'Bowls',
+  cfp_first_round: 'CFP First Round',
+  cfp_quarterfinal: 'CFP Quarterfinals',
+  cfp_semifinal: 'CFP Semifinals',
+  cfp_championship: 'CFP National Championship',
+};
+
+export interface CalendarWeek {
+  season: number;
+  week: number;
+  phase: CalendarPhase;
+  /** e.g. "Week 9", "Conference Championships", "Bowls · CFP First Round" */
+  label: string;
+  rounds: PostseasonRound[];
+  start: string;
+  end: string;
+  bettingWindow: { opensAt: string; closesAt: string };
+  /** Stored games with this week number (0 before the schedule is ingested) */
+  gameCount: number;
+  firstKickoff: string | null;
+  lastKickoff: string | null;
+}
+
+export interface SeasonCalendar {
+  season: number;
+  weeks: CalendarWeek[];
+}
+
+/** Kickoff range of stored games for one week number */
+export interface GameWeekRange {
+  week: number;
+  firstKickoff: Date;
+  lastKickoff: Date;
+  games: number;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function chicagoParts(date: Date): { year: number; month: number; day: number; hour: number; minute: number } {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone: CALENDAR_TIME_ZONE,
+    year: 'numeric',
+    month: 'numeric',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: 'numeric',
+    hourCycle: 'h23',
+  }).formatToParts(date);
+  const get = (type: string) => Number(parts.find(p => p.type === type)?.value);
+  return { year: get('year'), month: get('month') - 1, day: get('day'), hour: get('hour'), minute: get('minute') };
+}
+
+/**
+ * Chicago wall time → instant (month is 0-based, as in Date)
+ */
+export function chicagoTime(year: number, month: number, day: number, hour: number = 0, minute: number = 0): Date {
+  const wall = Date.UTC(year, month, day, hour, minute);
+  // Chicago is UTC-5 or UTC-6; correct the guess by the offset it actually has
+  let guess = wall + 6 * 60 * 60 * 1000;
+  for (let i = 0; i < 2; i++) {
+    const p = chicagoParts(new Date(guess));
+    guess += wall - Date.UTC(p.year, p.month, p.day, p.hour, p.minute);
+  }
+  return new Date(guess);
+}
+
+/** Calendar day arithmetic on UTC dates (no time component) */
+function addDays(day: Date, days: number): Date {
+  return new Date(day.getTime() + days * DAY_MS);
+}
+
+function atChicago(day: Date, hour: number = 0, minute: number = 0): Date {
+  return chicagoTime(day.getUTCFullYear(), day.getUTCMonth(), day.getUTCDate(), hour, minute);
+}
+
+function firstWeekday(year: number, month: number, weekday: number): Date {
+  const first = new Date(Date.UTC(year, month, 1));
+  return addDays(first, (weekday - first.getUTCDay() + 7) % 7);
+}
+
+/**
+ * Saturday of Labor Day weekend (week 1)
+ */
+export function weekOneSaturday(season: number): Date {
+  return addDays(firstWeekday(season, 8, 1), -2);
+}
+
+/**
+ * First Saturday of December (conference championships)
+ */
+export function championshipSaturday(season: number): Date {
+  return firstWeekday(season, 11, 6);
+}
+
+/**
+ * Season a date belongs to: August onwards is that year's season, January–July
+ * the previous one (bowls and the title game run into January)
+ */
+export function seasonForDate(date: Date): number {
+  const { year, month } = chicagoParts(date);
+  return month >= 7 ? year : year - 1;
+}
+
+function weekLabel(week: number, phase: CalendarPhase, rounds: PostseasonRound[]): string {
+  if (phase === 'week0') return 'Week 0';
+  if (phase === 'championship') return 'Conference Championships';
+  if (phase === 'postseason') return rounds.length > 0 ? rounds.map(r => ROUND_LABELS[r]).join(' · ') : `Week ${week}`;
+  return `Week ${week}`;
+}
+
+function postseasonRounds(season: number, start: Date, end: Date): PostseasonRound[] {
+  const champ = championshipSaturday(season);
+  const within = (day: Date) => {
+    const noon = atChicago(day, 12).getTime();
+    return noon >= start.getTime() && noon <= end.getTime();
+  };
+  const rounds: PostseasonRound[] = [];
+  // Bowl season runs from the week after championships into the first days of January
+  if (start.getTime() <= atChicago(new Date(Date.UTC(season + 1, 0, 4)), 23, 59).getTime()) rounds.push('bowls');
+  if (within(addDays(champ, 14))) rounds.push('cfp_first_round');
+  if (within(new Date(Date.UTC(season + 1, 0, 1)))) rounds.push('cfp_quarterfinal');
+  if (within(addDays(champ, 33))) rounds.push('cfp_semifinal');
+  if (within(addDays(champ, 44))) rounds.push('cfp_championship');
+  return rounds;
+}
+
+function weekFromSaturday(season: number, week: number, saturday: Date): CalendarWeek {
+  const championshipWeek = Math.round((championshipSaturday(season).getTime() - weekOneSaturday(season).getTime()) / (7 * DAY_MS)) + 1;
+  const start = atChicago(addDays(saturday, -4));
+  const end = new Date(atChicago(addDays(saturday, 3)).getTime() - 1);
+  const phase: CalendarPhase = week === 0
+    ? 'week0'
+    : week < championshipWeek
+      ? 'regular'
+      : week === championshipWeek
+        ? 'championship'
+        : 'postseason';
+  const rounds = phase === 'postseason' ? postseasonRounds(season, start, end) : [];
+
+  return {
+    season,
+    week,
+    phase,
+    label: weekLabel(week, phase, rounds),
+    rounds,
+    start: start.toISOString(),
+    end: end.toISOString(),
+    bettingWindow: {
+      opensAt: atChicago(addDays(saturday, -6), 10).toISOString(),
+      closesAt: end.toISOString(),
+    },
+    gameCount: 0,
+    firstKickoff: null,
+    lastKickoff: null,
+  };
+}
+
+/**
+ * Calendar from the date rules alone: week 0 through the CFP title game week
+ */
+export function buildSeasonCalendar(season: number): SeasonCalendar {
+  const weekOne = weekOneSaturday(season);
+  const titleGame = addDays(championshipSaturday(season), 44);
+  const lastWeek = Math.floor((titleGame.getTime() - weekOne.getTime()) / (7 * DAY_MS)) + 1;
+
+  const weeks: CalendarWeek[] = [];
+  for (let week = 0; week <= lastWeek; week++) {
+    weeks.push(weekFromSaturday(season, week, addDays(weekOne, 7 * (week - 1))));
+  }
+  return { season, weeks };
+}
+
+/**
+ * Fit the calendar to stored games: each week takes the game count and kickoff
+ * range of the games carrying its number, widens its span to cover them (CFBD
+ * folds week 0 games into week 1) and closes its betting window at its last
+ * kickoff. Week numbers only present in the data are added.
+ */
+export function applyGameWeeks(calendar: SeasonCalendar, ranges: GameWeekRange[]): SeasonCalendar {
+  const byWeek = new Map(ranges.map(range => [range.week, range]));
+  const weeks = calendar.weeks.map(week => ({ ...week, bettingWindow: { ...week.bettingWindow } }));
+  const known = new Set(weeks.map(week => week.week));
+
+  for (const range of ranges) {
+    if (known.has(range.week)) continue;
+    const saturday = addDays(weekOneSaturday(calendar.season), 7 * (range.week - 1));
+    weeks.push(weekFromSaturday(calendar.season, range.week, saturday));
+  }
+
+  for (const week of weeks) {
+    const range = byWeek.get(week.week);
+    if (!range) continue;
+    week.gameCount = range.games;
+    week.firstKickoff = range.firstKickoff.toISOString();
+    week.lastKickoff = range.lastKickoff.toISOString();
+    if (range.firstKickoff.getTime() < new Date(week.start).getTime()) week.start = week.firstKickoff;
+    if (range.lastKickoff.getTime() > new Date(week.end).getTime()) week.end = week.lastKickoff;
+    week.bettingWindow.closesAt = week.lastKickoff;
+  }
+
+  return { season: calendar.season, weeks: weeks.sort((a, b) => a.week - b.week) };
+}
+
+/** Weeks that can be "current": those with games once any are stored */
+function candidateWeeks(calendar: SeasonCalendar): CalendarWeek[] {
+  const withGames = calendar.weeks.filter(week => week.gameCount > 0);
+  return withGames.length > 0 ? withGames : calendar.weeks;
+}
+
+/**
+ * The week being bet on at `now`: the first week whose betting window has not
+ * closed (the week in progress, or the next one between slates); after the
+ * season, the last week
+ */
+export function resolveCurrentWeek(calendar: SeasonCalendar, now: Date = new Date()): CalendarWeek {
+  const weeks = candidateWeeks(calendar);
+  return weeks.find(week => new Date(week.bettingWindow.closesAt).getTime() >= now.getTime()) ?? weeks[weeks.length - 1];
+}
+
+/**
+ * Next week on the schedule at `now`, stored games or not: the week to bootstrap
+ * before its games are ingested (postseason weeks, week 0)
+ */
+export function upcomingWeek(calendar: SeasonCalendar, now: Date = new Date()): CalendarWeek {
+  return calendar.weeks.find(week => new Date(week.bettingWindow.closesAt).getTime() >= now.getTime())
+    ?? calendar.weeks[calendar.weeks.length - 1];
+}
+
+/**
+ * Week whose span contains a date, or null outside the season
+ */
+export function weekForDate(calendar: SeasonCalendar, date: Date): CalendarWeek | null {
+  const t = date.getTime();
+  const weeks = candidateWeeks(calendar);
+  return weeks.find(week => new Date(week.start).getTime() <= t && t <= new Date(week.end).getTime()) ?? null;
+}
+
+/**
+ * Last week with stored games (or the title game week), for past seasons
+ */
+export function finalWeek(calendar: SeasonCalendar): CalendarWeek {
+  const weeks = candidateWeeks(calendar);
+  return weeks[weeks.length - 1];
+}
+
+/**
+ * Chicago calendar date (YYYY-MM-DD) of an instant
+ */
+export function formatCalendarDate(iso: string): string {
+  const { year, month, day } = chicagoParts(new Date(iso));
+  return `${year}-${String(month + 1).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+}
@@ -0,0 +1,250 @@
+/**
+ * Season Simulation Context Loader
+ *
+ * Database side of the season simulator: loads FBS teams, season ratings, the latest
+ * poll and the schedule, prices every unplayed game with the Core V1 spread, and
+ * stores/reads SeasonSimulation runs. The simulation lives in season-simulator.ts.
+ */
+
+import { prisma } from './prisma';
+import { computeCoreV1SpreadFromRatings, getCoreV1SpreadFromTeams } from './core-v1-spread';
+import { getMarginSigma } from './core-v1-moneyline';
+import { resolveCoreModel } from './model-registry';
+import {
+  ConferenceSimResult,
+  DEFAULT_SEASON_SIM_CONFIG,
+  SEASON_SIM_SCHEDULE,
+  SeasonSimConfig,
+  SeasonSimResult,
+  SimGame,
+  SimTeam,
+  TeamSimResult,
+  simulateSeason,
+} from './season-simulator';
+
+export interface SeasonSimInputs {
+  season: number;
+  asOfWeek: number;
+  modelVersion: string;
+  teams: SimTeam[];
+  games: SimGame[];
+  neutralSpread: (homeTeamId: string, awayTeamId: string) => number;
+}
+
+export interface StoredSeasonSimulation {
+  id: string;
+  season: number;
+  asOfWeek: number;
+  iterations: number;
+  seed: number;
+  modelVersion: string;
+  marginSigma: number;
+  createdAt: Date;
+  teams: TeamSimResult[];
+  conferences: ConferenceSimResult[];
+}
+
+/**
+ * Latest poll ranks for a season (CFP once it's out, else AP)
+ */
+async function loadPollRanks(season: number): Promise<Map<string, number>> {
+  for (const pollType of ['CFP', 'AP'] as const) {
+    const latest = await prisma.teamRanking.findFirst({
+      where: { season, pollType },
+      orderBy: { week: 'desc' },
+      select: { week: true },
+    });
+    if (!latest) continue;
+    const rankings = await prisma.teamRanking.findMany({ where: { season, pollType, week: latest.week } });
+    return new Map(rankings.map((r: any) => [r.teamId, r.rank]));
+  }
+  return new Map();
+}
+
+/**
+ * Teams, schedule and prices for a season simulation
+ *
+ * @param modelVersion - Registered Core V1 version (null = season's active model)
+ */
+export async function loadSeasonSimInputs(season: number, modelVersion: string | null = null): Promise<SeasonSimInputs> {
+  const model = await resolveCoreModel(season, modelVersion);
+
+  const memberships = await prisma.teamMembership.findMany({
+    where: { season, level: 'fbs' },
+    include: { team: true },
+  });
+  const fbs = new Map<string, any>(memberships.map((m: any) => [m.teamId, m.team]));
+
+  // Same rating choice as getCoreV1SpreadFromTeams: V1 when both teams have it, else V2
+  const ratingRows = await prisma.teamSeasonRating.findMany({
+    where: { season, modelVersion: { in: ['v1', 'v2'] } },
+  });
+  const ratings = new Map<string, { v1: number | null; v2: number | null }>();
+  for (const row of ratingRows as any[]) {
+    const value = row.powerRating !== null || row.rating !== null ? Number(row.powerRating ?? row.rating) : null;
+    if (!ratings.has(row.teamId)) ratings.set(row.teamId, { v1: null, v2: null });
+    ratings.get(row.teamId)![row.modelVersion as 'v1' | 'v2'] = value;
+  }
+  const isRated = (teamId: string) => {
+    const r = ratings.get(teamId);
+    return Boolean(r && (r.v1 !== null || r.v2 !== null));
+  };
+
+  const neutralSpread = (homeTeamId: string, awayTeamId: string): number => {
+    const home = ratings.get(homeTeamId);
+    const away = ratings.get(awayTeamId);
+    if (!home || !away || !isRated(homeTeamId) || !isRated(awayTeamId)) return 0;
+    const useV1 = home.v1 !== null && away.v1 !== null;
+    return computeCoreV1SpreadFromRatings(
+      homeTeamId,
+      awayTeamId,
+      (home.v1 ?? home.v2)!,
+      (away.v1 ?? away.v2)!,
+      0,
+      useV1,
+      model
+    ).coreSpreadHma;
+  };
+
+  const pollRanks = await loadPollRanks(season);
+  const fbsIds = Array.from(fbs.keys());
+  const teams: SimTeam[] = fbsIds.map(teamId => {
+    const others = fbsIds.filter(id => id !== teamId && isRated(id));
+    const strength = isRated(teamId) && others.length > 0
+      ? others.reduce((sum, id) => sum + neutralSpread(teamId, id), 0) / others.length
+      : 0;
+    const team = fbs.get(teamId);
+    return {
+      teamId,
+      name: team.name,
+      conference: team.conference,
+      strength,
+      pollRank: pollRanks.get(teamId) ?? null,
+    };
+  });
+
+  const gameRows = await prisma.game.findMany({
+    where: { season, week: { lte: SEASON_SIM_SCHEDULE.regularSeasonLastWeek } },
+    include: { homeTeam: { select: { name: true } }, awayTeam: { select: { name: true } } },
+    orderBy: [{ week: 'asc' }, { date: 'asc' }],
+  });
+
+  const games: SimGame[] = [];
+  let asOfWeek: number | null = null;
+  for (const game of gameRows as any[]) {
+    const homeFbs = fbs.has(game.homeTeamId);
+    const awayFbs = fbs.has(game.awayTeamId);
+    if (!homeFbs && !awayFbs) continue;
+
+    const final = game.status === 'final' && game.homeScore !== null && game.awayScore !== null;
+    const isTitleGame = game.neutralSite && game.conferenceGame && homeFbs && awayFbs &&
+      game.week >= SEASON_SIM_SCHEDULE.titleGameMinWeek &&
+      fbs.get(game.homeTeamId).conference === fbs.get(game.awayTeamId).conference;
+
+    let spreadHma: number | null = null;
+    if (!final) {
+      asOfWeek = asOfWeek === null ? game.week : Math.min(asOfWeek, game.week);
+      if (!(homeFbs && isRated(game.homeTeamId)) || !(awayFbs && isRated(game.awayTeamId))) {
+        // Unrated (non-FBS) opponent: the FBS side is a heavy favorite
+        spreadHma = homeFbs ? SEASON_SIM_SCHEDULE.nonFbsSpread : -SEASON_SIM_SCHEDULE.nonFbsSpread;
+      } else {
+        try {
+          const spread = await getCoreV1SpreadFromTeams(
+            season, game.homeTeamId, game.awayTeamId, game.neutralSite,
+            game.homeTeam.name, game.awayTeam.name, null, game.date, game.id, model.modelVersion
+          );
+          spreadHma = spread.coreSpreadHma;
+        } catch (error) {
+          console.warn(`[Season Sim] Core V1 spread failed for ${game.id}, using neutral ratings:`, error);
+          spreadHma = neutralSpread(game.homeTeamId, game.awayTeamId);
+        }
+      }
+    }
+
+    games.push({
+      gameId: game.id,
+      week: game.week,
+      homeTeamId: game.homeTeamId,
+      awayTeamId: game.awayTeamId,
+      conferenceGame: game.conferenceGame,
+      isTitleGame,
+      homeScore: final ? game.homeScore : null,
+      awayScore: final ? game.awayScore : null,
+      spreadHma,
+    });
+  }
+
+  const lastWeek = gameRows.length > 0 ? Math.max(...gameRows.map((g: any) => g.week)) : 0;
+  return {
+    season,
+    asOfWeek: asOfWeek ?? lastWeek + 1,
+    modelVersion: model.modelVersion,
+    teams,
+    games,
+    neutralSpread,
+  };
+}
+
+/**
+ * Simulate a season from the database (does not store the run)
+ */
+export async function runSeasonSimulation(
+  season: number,
+  options: { iterations?: number; seed?: number; modelVersion?: string | null } = {}
+): Promise<{ inputs: SeasonSimInputs; config: SeasonSimConfig; result: SeasonSimResult }> {
+  const inputs = await loadSeasonSimInputs(season, options.modelVersion ?? null);
+  const config: SeasonSimConfig = {
+    ...DEFAULT_SEASON_SIM_CONFIG,
+    iterations: options.iterations ?? DEFAULT_SEASON_SIM_CONFIG.iterations,
+    seed: options.seed ?? DEFAULT_SEASON_SIM_CONFIG.seed,
+    marginSigma: getMarginSigma(),
+  };
+  const result = simulateSeason(inputs.teams, inputs.games, inputs.neutralSpread, config);
+  return { inputs, config, result };
+}
+
+/**
+ * Store a run
+ */
+export async function saveSeasonSimulation(
+  inputs: SeasonSimInputs,
+  config: SeasonSimConfig,
+  result: SeasonSimResult
+): Promise<string> {
+  const row = await prisma.seasonSimulation.create({
+    data: {
+      season: inputs.season,
+      asOfWeek: inputs.asOfWeek,
+      iterations: result.iterations,
+      seed: config.seed,
+      modelVersion: inputs.modelVersion,
+      marginSigma: config.marginSigma,
+      teams: result.teams as any,
+      conferences: result.conferences as any,
+    },
+  });
+  return row.id;
+}
+
+/**
+ * Most recent stored run for a season (null if never simulated)
+ */
+export async function getLatestSeasonSimulation(season: number): Promise<StoredSeasonSimulation | null> {
+  const row = await prisma.seasonSimulation.findFirst({
+    where: { season },
+    orderBy: { createdAt: 'desc' },
+  });
+  if (!row) return null;
+  return {
+    id: row.id,
+    season: row.season,
+    asOfWeek: row.asOfWeek,
+    iterations: row.iterations,
+    seed: row.seed,
+    modelVersion: row.modelVersion,
+    marginSigma: row.marginSigma,
+    createdAt: row.createdAt,
+    teams: row.teams as unknown as TeamSimResult[],
+    conferences: row.conferences as unknown as ConferenceSimResult[],
+  };
+}
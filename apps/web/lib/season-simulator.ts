@@ -0,0 +1,369 @@
+/**
+ * Monte Carlo Season Simulator
+ *
+ * Plays out the rest of a season N times. Each unplayed game's home margin is drawn
+ * from Normal(Core V1 spread, σ), with σ the calibrated margin sigma used for moneyline
+ * win probabilities. Final games keep their real result.
+ *
+ * Per simulated season:
+ *   - Conference standings by conference win %, ties broken head-to-head, then by
+ *     ranking score
+ *   - Conference title game: a scheduled one is played as-is; otherwise the top two in
+ *     the standings meet at a neutral site (conferences with at least `titleGameMinTeams`)
+ *   - CFP field: the `cfpAutoBids` best-ranked conference champions plus the best-ranked
+ *     remaining teams up to `cfpFieldSize`
+ *
+ * Ranking score (a stand-in for the committee):
+ *   -pointsPerLoss × losses + strength + poll bonus + conference champion bonus
+ * where strength is the team's average neutral-site spread against the field and the
+ * poll bonus is (26 - rank) × pollPointsPerRank for currently ranked teams.
+ *
+ * Spreads are HMA (positive = home favored). The DB side lives in season-sim-context.ts.
+ */
+
+import simConfigData from './data/season_sim_config.json';
+
+export interface SeasonSimConfig {
+  iterations: number;
+  seed: number;
+  marginSigma: number;
+  cfpFieldSize: number;
+  cfpAutoBids: number;
+  pointsPerLoss: number;
+  pollPointsPerRank: number;
+  confChampBonus: number;
+  titleGameMinTeams: number;
+  independentConferences: string[];
+}
+
+export const DEFAULT_SEASON_SIM_CONFIG: Omit<SeasonSimConfig, 'marginSigma'> = {
+  iterations: simConfigData.iterations,
+  seed: simConfigData.seed,
+  cfpFieldSize: simConfigData.cfp_field_size,
+  cfpAutoBids: simConfigData.cfp_auto_bids,
+  pointsPerLoss: simConfigData.points_per_loss,
+  pollPointsPerRank: simConfigData.poll_points_per_rank,
+  confChampBonus: simConfigData.conf_champ_bonus,
+  titleGameMinTeams: simConfigData.title_game_min_teams,
+  independentConferences: simConfigData.independent_conferences,
+};
+
+/** Schedule handling for the context loader */
+export const SEASON_SIM_SCHEDULE = {
+  /** Neutral-site conference games from this week on are title games */
+  titleGameMinWeek: simConfigData.title_game_min_week as number,
+  regularSeasonLastWeek: simConfigData.regular_season_last_week as number,
+  /** Spread toward the FBS team against an unrated (non-FBS) opponent */
+  nonFbsSpread: simConfigData.non_fbs_spread as number,
+};
+
+export interface SimTeam {
+  teamId: string;
+  name: string;
+  conference: string;
+  /** Average neutral-site spread against the field (points) */
+  strength: number;
+  /** Current poll rank (CFP, else AP), null if unranked */
+  pollRank: number | null;
+}
+
+export interface SimGame {
+  gameId: string;
+  week: number;
+  homeTeamId: string;
+  awayTeamId: string;
+  conferenceGame: boolean;
+  /** Scheduled conference championship game */
+  isTitleGame: boolean;
+  /** Final score (null = unplayed) */
+  homeScore: number | null;
+  awayScore: number | null;
+  /** Model spread for an unplayed game */
+  spreadHma: number | null;
+}
+
+export interface TeamSimResult {
+  teamId: string;
+  name: string;
+  conference: string;
+  currentWins: number;
+  currentLosses: number;
+  expectedWins: number;
+  expectedLosses: number;
+  /** P(total wins = index), title game included */
+  winDistribution: number[];
+  /** P(regular-season wins = index), the number win-total markets settle on */
+  regularSeasonWinDistribution: number[];
+  expectedConfWins: number;
+  expectedConfLosses: number;
+  /** P(first in the regular-season conference standings) */
+  confFirstProb: number;
+  titleGameProb: number;
+  confChampProb: number;
+  cfpProb: number;
+}
+
+export interface ConferenceSimResult {
+  conference: string;
+  hasTitleGame: boolean;
+  /** Team IDs, most likely champion first */
+  teamIds: string[];
+}
+
+export interface SeasonSimResult {
+  iterations: number;
+  teams: TeamSimResult[];
+  conferences: ConferenceSimResult[];
+}
+
+/**
+ * Seeded PRNG (mulberry32) so a run is reproducible
+ */
+export function createRng(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * Standard normal draw (Box-Muller)
+ */
+export function sampleNormal(rng: () => number): number {
+  const u1 = Math.max(rng(), 1e-12);
+  const u2 = rng();
+  return Math.sqrt(-2 * Math.log(u1)) * Math.cos(2 * Math.PI * u2);
+}
+
+/**
+ * Ranking score for standings tiebreaks and CFP selection
+ */
+export function rankingScore(team: SimTeam, losses: number, isConfChamp: boolean, config: SeasonSimConfig): number {
+  const pollBonus = team.pollRank !== null ? (26 - team.pollRank) * config.pollPointsPerRank : 0;
+  return -config.pointsPerLoss * losses + team.strength + pollBonus + (isConfChamp ? config.confChampBonus : 0);
+}
+
+interface SimRecord {
+  wins: number;
+  losses: number;
+  confWins: number;
+  confLosses: number;
+}
+
+function winPct(wins: number, losses: number): number {
+  return wins + losses > 0 ? wins / (wins + losses) : 0;
+}
+
+/**
+ * Simulate the season `config.iterations` times
+ *
+ * @param neutralSpread - Spread for a hypothetical neutral-site game (title games)
+ */
+export function simulateSeason(
+  teams: SimTeam[],
+  games: SimGame[],
+  neutralSpread: (homeTeamId: string, awayTeamId: string) => number,
+  config: SeasonSimConfig
+): SeasonSimResult {
+  const rng = createRng(config.seed);
+  const teamById = new Map(teams.map(t => [t.teamId, t]));
+  const independents = new Set(config.independentConferences);
+
+  const conferences = new Map<string, string[]>();
+  for (const team of teams) {
+    if (independents.has(team.conference)) continue;
+    if (!conferences.has(team.conference)) conferences.set(team.conference, []);
+    conferences.get(team.conference)!.push(team.teamId);
+  }
+  const sameConference = (a: string, b: string) => {
+    const ta = teamById.get(a);
+    const tb = teamById.get(b);
+    return Boolean(ta && tb && ta.conference === tb.conference && conferences.has(ta.conference));
+  };
+
+  // Scheduled title games by conference; everything else is regular season
+  const scheduledTitleGames = new Map<string, SimGame>();
+  const regularGames: SimGame[] = [];
+  for (const game of games) {
+    if (game.isTitleGame && sameConference(game.homeTeamId, game.awayTeamId)) {
+      scheduledTitleGames.set(teamById.get(game.homeTeamId)!.conference, game);
+    } else {
+      regularGames.push(game);
+    }
+  }
+
+  const tracked = (teamId: string) => teamById.has(teamId);
+  const maxGames = new Map<string, number>(teams.map(t => [t.teamId, 0]));
+  const current = new Map<string, { wins: number; losses: number }>(teams.map(t => [t.teamId, { wins: 0, losses: 0 }]));
+  for (const game of games) {
+    for (const teamId of [game.homeTeamId, game.awayTeamId]) {
+      if (tracked(teamId)) maxGames.set(teamId, maxGames.get(teamId)! + 1);
+    }
+    if (game.homeScore !== null && game.awayScore !== null && game.homeScore !== game.awayScore) {
+      const homeWon = game.homeScore > game.awayScore;
+      if (tracked(game.homeTeamId)) current.get(game.homeTeamId)![homeWon ? 'wins' : 'losses']++;
+      if (tracked(game.awayTeamId)) current.get(game.awayTeamId)![homeWon ? 'losses' : 'wins']++;
+    }
+  }
+
+  // Title games are possible for every conference team
+  const winCounts = new Map<string, number[]>(
+    teams.map(t => [t.teamId, new Array(maxGames.get(t.teamId)! + 2).fill(0)])
+  );
+  const regularWinCounts = new Map<string, number[]>(
+    teams.map(t => [t.teamId, new Array(maxGames.get(t.teamId)! + 1).fill(0)])
+  );
+  const totals = new Map(teams.map(t => [t.teamId, {
+    wins: 0, losses: 0, confWins: 0, confLosses: 0, confFirst: 0, titleGame: 0, confChamp: 0, cfp: 0,
+  }]));
+
+  const homeWins = (game: SimGame, spread: number | null): boolean => {
+    if (game.homeScore !== null && game.awayScore !== null) {
+      if (game.homeScore !== game.awayScore) return game.homeScore > game.awayScore;
+      return rng() < 0.5;
+    }
+    const margin = (spread ?? 0) + config.marginSigma * sampleNormal(rng);
+    return margin > 0 || (margin === 0 && rng() < 0.5);
+  };
+
+  for (let iter = 0; iter < config.iterations; iter++) {
+    const records = new Map<string, SimRecord>(teams.map(t => [t.teamId, { wins: 0, losses: 0, confWins: 0, confLosses: 0 }]));
+    const headToHead = new Map<string, string>(); // "a|b" (sorted) → winner
+
+    const play = (game: SimGame, spread: number | null, countsForConference: boolean) => {
+      const homeWon = homeWins(game, spread);
+      const winner = homeWon ? game.homeTeamId : game.awayTeamId;
+      const loser = homeWon ? game.awayTeamId : game.homeTeamId;
+      const winnerRecord = records.get(winner);
+      const loserRecord = records.get(loser);
+      if (winnerRecord) winnerRecord.wins++;
+      if (loserRecord) loserRecord.losses++;
+      if (countsForConference && winnerRecord && loserRecord) {
+        winnerRecord.confWins++;
+        loserRecord.confLosses++;
+        headToHead.set([winner, loser].sort().join('|'), winner);
+      }
+      return winner;
+    };
+
+    for (const game of regularGames) {
+      play(game, game.spreadHma, game.conferenceGame && sameConference(game.homeTeamId, game.awayTeamId));
+    }
+    records.forEach((r, teamId) => {
+      const counts = regularWinCounts.get(teamId)!;
+      counts[Math.min(r.wins, counts.length - 1)]++;
+    });
+
+    const champions = new Set<string>();
+    conferences.forEach((teamIds, conference) => {
+      const standingScore = (teamId: string) => {
+        const r = records.get(teamId)!;
+        return rankingScore(teamById.get(teamId)!, r.losses, false, config);
+      };
+      const standings = [...teamIds].sort((a, b) => {
+        const ra = records.get(a)!;
+        const rb = records.get(b)!;
+        const pctDiff = winPct(rb.confWins, rb.confLosses) - winPct(ra.confWins, ra.confLosses);
+        if (pctDiff !== 0) return pctDiff;
+        const h2h = headToHead.get([a, b].sort().join('|'));
+        if (h2h) return h2h === a ? -1 : 1;
+        return standingScore(b) - standingScore(a);
+      });
+      totals.get(standings[0])!.confFirst++;
+
+      const scheduled = scheduledTitleGames.get(conference);
+      let champion: string;
+      if (scheduled) {
+        champion = play(scheduled, scheduled.spreadHma, false);
+        totals.get(scheduled.homeTeamId)!.titleGame++;
+        totals.get(scheduled.awayTeamId)!.titleGame++;
+      } else if (teamIds.length >= config.titleGameMinTeams && standings.length >= 2) {
+        const [first, second] = standings;
+        const titleGame: SimGame = {
+          gameId: `title:${conference}`,
+          week: 0,
+          homeTeamId: first,
+          awayTeamId: second,
+          conferenceGame: false,
+          isTitleGame: true,
+          homeScore: null,
+          awayScore: null,
+          spreadHma: null,
+        };
+        champion = play(titleGame, neutralSpread(first, second), false);
+        totals.get(first)!.titleGame++;
+        totals.get(second)!.titleGame++;
+      } else {
+        champion = standings[0];
+      }
+      champions.add(champion);
+      totals.get(champion)!.confChamp++;
+    });
+
+    const ranked = teams
+      .map(team => ({
+        teamId: team.teamId,
+        score: rankingScore(team, records.get(team.teamId)!.losses, champions.has(team.teamId), config),
+      }))
+      .sort((a, b) => b.score - a.score);
+    const field = new Set(ranked.filter(r => champions.has(r.teamId)).slice(0, config.cfpAutoBids).map(r => r.teamId));
+    for (const r of ranked) {
+      if (field.size >= config.cfpFieldSize) break;
+      field.add(r.teamId);
+    }
+
+    for (const team of teams) {
+      const r = records.get(team.teamId)!;
+      const t = totals.get(team.teamId)!;
+      t.wins += r.wins;
+      t.losses += r.losses;
+      t.confWins += r.confWins;
+      t.confLosses += r.confLosses;
+      if (field.has(team.teamId)) t.cfp++;
+      const counts = winCounts.get(team.teamId)!;
+      counts[Math.min(r.wins, counts.length - 1)]++;
+    }
+  }
+
+  const n = config.iterations;
+  const results: TeamSimResult[] = teams.map(team => {
+    const t = totals.get(team.teamId)!;
+    const counts = winCounts.get(team.teamId)!;
+    const regularCounts = regularWinCounts.get(team.teamId)!;
+    for (const c of [counts, regularCounts]) {
+      while (c.length > 1 && c[c.length - 1] === 0) c.pop();
+    }
+    return {
+      teamId: team.teamId,
+      name: team.name,
+      conference: team.conference,
+      currentWins: current.get(team.teamId)!.wins,
+      currentLosses: current.get(team.teamId)!.losses,
+      expectedWins: t.wins / n,
+      expectedLosses: t.losses / n,
+      winDistribution: counts.map(c => c / n),
+      regularSeasonWinDistribution: regularCounts.map(c => c / n),
+      expectedConfWins: t.confWins / n,
+      expectedConfLosses: t.confLosses / n,
+      confFirstProb: t.confFirst / n,
+      titleGameProb: t.titleGame / n,
+      confChampProb: t.confChamp / n,
+      cfpProb: t.cfp / n,
+    };
+  });
+
+  const byId = new Map(results.map(r => [r.teamId, r]));
+  const conferenceResults: ConferenceSimResult[] = Array.from(conferences.entries())
+    .map(([conference, teamIds]) => ({
+      conference,
+      hasTitleGame: scheduledTitleGames.has(conference) || teamIds.length >= config.titleGameMinTeams,
+      teamIds: [...teamIds].sort((a, b) => byId.get(b)!.confChampProb - byId.get(a)!.confChampProb),
+    }))
+    .sort((a, b) => a.conference.localeCompare(b.conference));
+
+  return { iterations: n, teams: results, conferences: conferenceResults };
+}
@@ -0,0 +1,191 @@
+/**
+ * Strategy Facts
+ *
+ * Builds the per-game SlateFacts a ruleset is evaluated against. Shared by the
+ * single-week strategy run and the walk-forward backtest so both qualify games
+ * identically.
+ */
+
+import { getCoreV1SpreadFromTeams } from './core-v1-spread';
+import { getMoneylinePick, MoneylinePick } from './core-v1-moneyline';
+import { getTotalsV2Projection } from './totals-v2-context';
+import { isTotalsV2Fitted } from './totals-v2-model';
+import { SlateFacts } from './ruleset-dsl';
+
+/**
+ * Matchup output model version rulesets are evaluated against
+ */
+export const STRATEGY_MODEL_VERSION = 'v0.0.1';
+
+type FactLine = { lineType: string; teamId: string | null; lineValue: number; timestamp: Date };
+
+interface FactGame {
+  id: string;
+  homeTeamId: string;
+  awayTeamId: string;
+  neutralSite: boolean;
+  conferenceGame: boolean;
+  week?: number;
+  date?: Date | null;
+  homeTeam: { name: string };
+  awayTeam: { name: string };
+}
+
+export interface GameFactsInput {
+  game: FactGame;
+  markets: string[];
+  /** Model spread, matchup frame (negative = home favored) */
+  impliedSpread: number;
+  impliedTotal: number;
+  /** Market spread, same frame as impliedSpread */
+  marketSpread: number;
+  marketTotal: number;
+  hasSpreadLine: boolean;
+  confidence: string;
+  moneylineEdge: number | null;
+  windMph: number | null;
+  lineMove: number | null;
+  hybridConflictType: string | null;
+}
+
+export interface GameFacts {
+  facts: SlateFacts;
+  spreadEdge: number;
+  totalEdge: number;
+  maxEdge: number;
+}
+
+/**
+ * Latest moneyline price for a team (lineValue holds the American price)
+ */
+export function latestPriceForTeam(lines: FactLine[], teamId: string): number | null {
+  const latest = lines
+    .filter(line => line.lineType === 'moneyline' && line.teamId === teamId)
+    .sort((a, b) => new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime())[0];
+  return latest ? Number(latest.lineValue) : null;
+}
+
+/**
+ * Absolute spread move (pts) from the opening to the latest quote for the same side
+ */
+export function spreadLineMove(lines: FactLine[]): number | null {
+  const spreads = lines
+    .filter(line => line.lineType === 'spread')
+    .sort((a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime());
+  if (spreads.length < 2) return null;
+
+  const latest = spreads[spreads.length - 1];
+  const sameSide = spreads.filter(line => line.teamId === latest.teamId);
+  if (sameSide.length < 2) return null;
+
+  return Math.abs(Number(latest.lineValue) - Number(sameSide[0].lineValue));
+}
+
+/**
+ * Core V1 moneyline pick from the latest prices in `lines`
+ * Any +EV side is surfaced (minEv 0); the ruleset's moneylineEdge predicate sets the bar.
+ * Returns null when the game has no prices or Core V1 ratings are unavailable.
+ */
+export async function getRulesetMoneylinePick(
+  season: number,
+  game: FactGame,
+  lines: FactLine[],
+  asOf: Date | null = null
+): Promise<MoneylinePick | null> {
+  const homePrice = latestPriceForTeam(lines, game.homeTeamId);
+  const awayPrice = latestPriceForTeam(lines, game.awayTeamId);
+  if (homePrice === null && awayPrice === null) return null;
+
+  try {
+    const coreSpreadInfo = await getCoreV1SpreadFromTeams(
+      season,
+      game.homeTeamId,
+      game.awayTeamId,
+      game.neutralSite || false,
+      game.homeTeam.name,
+      game.awayTeam.name,
+      asOf,
+      game.date ?? null
+    );
+    return getMoneylinePick(
+      coreSpreadInfo.coreSpreadHma,
+      homePrice,
+      awayPrice,
+      game.homeTeamId,
+      game.awayTeamId,
+      game.homeTeam.name,
+      game.awayTeam.name,
+      0
+    );
+  } catch (error) {
+    console.warn(`[Strategy Facts] Core V1 unavailable for ${game.id}, skipping moneyline:`, (error as Error).message);
+    return null;
+  }
+}
+
+/**
+ * Totals V2 model total for a game, as of `asOf`
+ * Returns null when the projection can't be built or its config is unfitted, so callers
+ * fall back to the matchup output.
+ */
+export async function getRulesetModelTotal(
+  season: number,
+  game: FactGame,
+  asOf: Date | null = null
+): Promise<number | null> {
+  if (!isTotalsV2Fitted()) return null;
+  try {
+    const projection = await getTotalsV2Projection({
+      id: game.id,
+      season,
+      week: game.week ?? null,
+      homeTeamId: game.homeTeamId,
+      awayTeamId: game.awayTeamId,
+      date: game.date ?? null,
+    }, asOf);
+    return projection.modelTotal;
+  } catch (error) {
+    console.warn(`[Strategy Facts] Totals V2 unavailable for ${game.id}, using matchup output:`, (error as Error).message);
+    return null;
+  }
+}
+
+/**
+ * Build the SlateFacts for one game; markets not selected by the ruleset are unknown (null)
+ */
+export function buildGameFacts(input: GameFactsInput): GameFacts {
+  const { game, markets, impliedSpread, impliedTotal, marketSpread, marketTotal, moneylineEdge } = input;
+
+  const spreadEdge = Math.abs(impliedSpread - marketSpread);
+  const totalEdge = Math.abs(impliedTotal - marketTotal);
+
+  // Max edge across selected markets
+  const edges = [];
+  if (markets.includes('spread')) edges.push(spreadEdge);
+  if (markets.includes('total')) edges.push(totalEdge);
+  if (markets.includes('moneyline') && moneylineEdge !== null) edges.push(moneylineEdge);
+  const maxEdge = edges.length > 0 ? Math.max(...edges) : 0;
+
+  // Spread pick side (matchup frame: negative = home favored) vs market favorite
+  const spreadPickIsHome = impliedSpread < marketSpread;
+  const marketHomeFavorite = marketSpread < 0;
+  const isDog = input.hasSpreadLine ? spreadPickIsHome !== marketHomeFavorite : null;
+
+  const facts: SlateFacts = {
+    spreadEdge: markets.includes('spread') ? spreadEdge : null,
+    totalEdge: markets.includes('total') ? totalEdge : null,
+    moneylineEdge: markets.includes('moneyline') ? moneylineEdge : null,
+    maxEdge,
+    confidence: input.confidence,
+    isDog,
+    isFavorite: isDog !== null ? !isDog : null,
+    isConferenceGame: game.conferenceGame,
+    neutralSite: game.neutralSite,
+    windMph: input.windMph,
+    lineMove: input.lineMove,
+    hybridConflictType: input.hybridConflictType,
+    teams: [game.homeTeamId, game.awayTeamId],
+  };
+
+  return { facts, spreadEdge, totalEdge, maxEdge };
+}
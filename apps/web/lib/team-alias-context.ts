@@ -0,0 +1,264 @@
+/**
+ * Team Alias Context Loader
+ *
+ * Database side of /admin/team-aliases: the unmatched-name review queue (with
+ * fuzzy suggestions from team-alias-match.ts) and the alias tables TeamResolver
+ * reads. Approving a name creates the alias, flags the entry for the jobs'
+ * reprocess run (apps/jobs/src/aliases/team_aliases.ts reprocess) and starts
+ * that run through the team-alias-reprocess workflow.
+ */
+
+import { prisma } from './prisma';
+import { TeamCandidate, TeamSuggestion, aliasKey, aliasProviderFor, suggestTeams } from './team-alias-match';
+
+export const UNMATCHED_NAME_STATUSES = ['pending', 'approved', 'ignored'] as const;
+export type UnmatchedNameStatus = typeof UNMATCHED_NAME_STATUSES[number];
+
+export const ALIAS_PROVIDERS = ['general', 'cfbd'] as const;
+export type AliasProvider = typeof ALIAS_PROVIDERS[number];
+
+export interface UnmatchedNameEntry {
+  id: string;
+  provider: string;
+  providerName: string;
+  jobName: string;
+  season: number | null;
+  weeks: number[];
+  occurrences: number;
+  status: UnmatchedNameStatus;
+  teamId: string | null;
+  lastIngestRunId: string | null;
+  firstSeenAt: string;
+  lastSeenAt: string;
+  resolvedAt: string | null;
+  reprocessStatus: string | null;
+  reprocessedAt: string | null;
+  reprocessError: string | null;
+  suggestions: TeamSuggestion[];
+}
+
+export interface TeamAliasEntry {
+  id: string;
+  provider: AliasProvider;
+  alias: string;
+  teamId: string;
+  teamName: string;
+  source: string;
+  updatedAt: string;
+}
+
+function iso(date: Date | null): string | null {
+  return date ? date.toISOString() : null;
+}
+
+// Workflow started after an approval (GitHub workflow_dispatch)
+const REPROCESS_WORKFLOW = 'team-alias-reprocess.yml';
+
+function toEntry(row: any, teams: TeamCandidate[]): UnmatchedNameEntry {
+  return {
+    id: row.id,
+    provider: row.provider,
+    providerName: row.providerName,
+    jobName: row.jobName,
+    season: row.season,
+    weeks: row.weeks,
+    occurrences: row.occurrences,
+    status: row.status,
+    teamId: row.teamId,
+    lastIngestRunId: row.lastIngestRunId,
+    firstSeenAt: row.firstSeenAt.toISOString(),
+    lastSeenAt: row.lastSeenAt.toISOString(),
+    resolvedAt: iso(row.resolvedAt),
+    reprocessStatus: row.reprocessStatus,
+    reprocessedAt: iso(row.reprocessedAt),
+    reprocessError: row.reprocessError,
+    suggestions: row.status === 'pending' ? suggestTeams(row.providerName, teams) : [],
+  };
+}
+
+function toAliasEntry(row: any, teamName: string): TeamAliasEntry {
+  return {
+    id: row.id,
+    provider: aliasProviderFor(row.provider),
+    alias: row.alias,
+    teamId: row.teamId,
+    teamName,
+    source: row.source,
+    updatedAt: row.updatedAt.toISOString(),
+  };
+}
+
+export async function loadTeamCandidates(): Promise<TeamCandidate[]> {
+  return prisma.team.findMany({ select: { id: true, name: true, mascot: true }, orderBy: { name: 'asc' } });
+}
+
+/**
+ * Queue entries for a status, most recently seen first, with suggestions for
+ * pending ones
+ */
+export async function getUnmatchedNames(
+  status: UnmatchedNameStatus,
+  limit: number = 200
+): Promise<{ entries: UnmatchedNameEntry[]; teams: TeamCandidate[] }> {
+  const [rows, teams] = await Promise.all([
+    prisma.unmatchedTeamName.findMany({
+      where: { status },
+      orderBy: { lastSeenAt: 'desc' },
+      take: limit,
+    }),
+    loadTeamCandidates(),
+  ]);
+  return { entries: rows.map((row: any) => toEntry(row, teams)), teams };
+}
+
+/**
+ * Map a queued name to a team: upserts the alias (in the namespace of the
+ * provider that saw it) and marks the entry approved and due for reprocessing.
+ * Returns null when the entry or team does not exist.
+ */
+export async function approveUnmatchedName(id: string, teamId: string): Promise<UnmatchedNameEntry | null> {
+  const [entry, team] = await Promise.all([
+    prisma.unmatchedTeamName.findUnique({ where: { id } }),
+    prisma.team.findUnique({ where: { id: teamId }, select: { id: true } }),
+  ]);
+  if (!entry || !team) return null;
+
+  const provider = aliasProviderFor(entry.provider);
+  const key = { provider, aliasKey: aliasKey(entry.providerName) };
+  const [, updated] = await prisma.$transaction([
+    prisma.teamAlias.upsert({
+      where: { provider_aliasKey: key },
+      update: { alias: entry.providerName, teamId, source: 'admin' },
+      create: { ...key, alias: entry.providerName, teamId, source: 'admin' },
+    }),
+    prisma.unmatchedTeamName.update({
+      where: { id },
+      data: {
+        status: 'approved',
+        teamId,
+        resolvedAt: new Date(),
+        reprocessStatus: 'pending',
+        reprocessedAt: null,
+        reprocessError: null,
+      },
+    }),
+  ]);
+  return toEntry(updated, []);
+}
+
+/**
+ * Start the reprocess workflow for an approved entry. Needs GITHUB_DISPATCH_TOKEN
+ * and GITHUB_REPOSITORY (GITHUB_DISPATCH_REF defaults to main); when the
+ * dispatch fails the entry stays pending with the reason in reprocessError, for
+ * the next manual `npm run aliases:reprocess`.
+ */
+export async function triggerAliasReprocess(entry: UnmatchedNameEntry): Promise<UnmatchedNameEntry> {
+  const token = process.env.GITHUB_DISPATCH_TOKEN;
+  const repository = process.env.GITHUB_REPOSITORY;
+  let error: string | null = null;
+
+  if (!token || !repository) {
+    error = 'Reprocess not started: GITHUB_DISPATCH_TOKEN or GITHUB_REPOSITORY is not set';
+  } else {
+    try {
+      const res = await fetch(
+        `https://api.github.com/repos/${repository}/actions/workflows/${REPROCESS_WORKFLOW}/dispatches`,
+        {
+          method: 'POST',
+          headers: {
+            accept: 'application/vnd.github+json',
+            authorization: `Bearer ${token}`,
+            'content-type': 'application/json',
+          },
+          body: JSON.stringify({ ref: process.env.GITHUB_DISPATCH_REF || 'main' }),
+        }
+      );
+      if (!res.ok) error = `Reprocess not started: GitHub returned HTTP ${res.status}`;
+    } catch (err) {
+      error = `Reprocess not started: ${err instanceof Error ? err.message : String(err)}`;
+    }
+  }
+
+  if (!error) return entry;
+  console.warn(`[ALIASES] ${error}`);
+  const updated = await prisma.unmatchedTeamName.update({ where: { id: entry.id }, data: { reprocessError: error } });
+  return toEntry(updated, []);
+}
+
+/**
+ * Not a team we track (FCS opponent, bad feed row): denylisted so the resolver
+ * stops reporting it
+ */
+export async function ignoreUnmatchedName(id: string): Promise<UnmatchedNameEntry | null> {
+  const entry = await prisma.unmatchedTeamName.findUnique({ where: { id } });
+  if (!entry) return null;
+
+  const nameKey = aliasKey(entry.providerName);
+  const [, updated] = await prisma.$transaction([
+    prisma.teamNameDenylist.upsert({
+      where: { nameKey },
+      update: {},
+      create: { name: entry.providerName, nameKey, source: 'admin' },
+    }),
+    prisma.unmatchedTeamName.update({
+      where: { id },
+      data: { status: 'ignored', teamId: null, resolvedAt: new Date(), reprocessStatus: null },
+    }),
+  ]);
+  return toEntry(updated, []);
+}
+
+/**
+ * Back to pending; an ignored name is taken off the denylist again (an approved
+ * name keeps its alias, which is managed in the alias list)
+ */
+export async function reopenUnmatchedName(id: string): Promise<UnmatchedNameEntry | null> {
+  const entry = await prisma.unmatchedTeamName.findUnique({ where: { id } });
+  if (!entry) return null;
+
+  if (entry.status === 'ignored') {
+    await prisma.teamNameDenylist.deleteMany({ where: { nameKey: aliasKey(entry.providerName) } });
+  }
+  const updated = await prisma.unmatchedTeamName.update({
+    where: { id },
+    data: { status: 'pending', teamId: null, resolvedAt: null, reprocessStatus: null, reprocessError: null },
+  });
+  return toEntry(updated, await loadTeamCandidates());
+}
+
+/**
+ * Aliases matching a search on alias or team id, alphabetical
+ */
+export async function getTeamAliases(query: string = '', limit: number = 500): Promise<TeamAliasEntry[]> {
+  const q = query.trim();
+  const rows = await prisma.teamAlias.findMany({
+    where: q
+      ? { OR: [{ alias: { contains: q, mode: 'insensitive' } }, { teamId: { contains: q.toLowerCase() } }] }
+      : undefined,
+    include: { team: { select: { name: true } } },
+    orderBy: [{ alias: 'asc' }, { provider: 'asc' }],
+    take: limit,
+  });
+  return rows.map((row: any) => toAliasEntry(row, row.team.name));
+}
+
+/**
+ * Add or remap an alias by hand. Returns null when the team does not exist.
+ */
+export async function saveTeamAlias(input: { alias: string; teamId: string; provider: AliasProvider }): Promise<TeamAliasEntry | null> {
+  const team = await prisma.team.findUnique({ where: { id: input.teamId }, select: { id: true, name: true } });
+  if (!team) return null;
+
+  const key = { provider: input.provider, aliasKey: aliasKey(input.alias) };
+  const row = await prisma.teamAlias.upsert({
+    where: { provider_aliasKey: key },
+    update: { alias: input.alias.trim(), teamId: team.id, source: 'admin' },
+    create: { ...key, alias: input.alias.trim(), teamId: team.id, source: 'admin' },
+  });
+  return toAliasEntry(row, team.name);
+}
+
+export async function deleteTeamAlias(id: string): Promise<boolean> {
+  const { count } = await prisma.teamAlias.deleteMany({ where: { id } });
+  return count > 0;
+}
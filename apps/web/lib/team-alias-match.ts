@@ -0,0 +1,120 @@
+/**
+ * Team Alias Matching
+ *
+ * Suggestions for provider team names the resolver could not map (the review
+ * queue on /admin/team-aliases): names are normalized, then scored against each
+ * team's name and "name mascot" (odds feeds often append the mascot) by
+ * character-bigram Dice similarity.
+ */
+
+export interface TeamCandidate {
+  id: string;
+  name: string;
+  mascot?: string | null;
+}
+
+export interface TeamSuggestion {
+  teamId: string;
+  name: string;
+  /** 0..1, 1 = identical after normalization */
+  score: number;
+}
+
+/** Suggestions below this score are dropped */
+export const DEFAULT_SUGGESTION_MIN_SCORE = 0.5;
+
+/**
+ * Lookup key for the alias tables. Must match aliasKey() in
+ * apps/jobs/lib/team-aliases.ts (what TeamResolver looks up).
+ */
+export function aliasKey(name: string): string {
+  return name
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/\bA\s*&\s*M\b/gi, 'A&M')
+    .replace(/\bA\s+and\s+M\b/gi, 'A&M')
+    .trim()
+    .toLowerCase();
+}
+
+/**
+ * Alias namespace for the provider that reported a name (matches
+ * aliasProviderFor() in apps/jobs/lib/team-aliases.ts)
+ */
+export function aliasProviderFor(provider: string): 'general' | 'cfbd' {
+  return provider.toLowerCase().startsWith('cfbd') ? 'cfbd' : 'general';
+}
+
+/**
+ * Looser form for similarity only: punctuation dropped, "St"/"St." → "state",
+ * "University"/"of" dropped
+ */
+export function normalizeTeamName(name: string): string {
+  return aliasKey(name)
+    .replace(/&/g, ' and ')
+    .replace(/[^a-z0-9 ]+/g, ' ')
+    .split(/\s+/)
+    .filter(token => token && token !== 'university' && token !== 'univ' && token !== 'of' && token !== 'the')
+    .map(token => (token === 'st' ? 'state' : token))
+    .join(' ');
+}
+
+function bigrams(text: string): Map<string, number> {
+  const compact = text.replace(/ /g, '');
+  const grams = new Map<string, number>();
+  for (let i = 0; i < compact.length - 1; i++) {
+    const gram = compact.slice(i, i + 2);
+    grams.set(gram, (grams.get(gram) ?? 0) + 1);
+  }
+  return grams;
+}
+
+/**
+ * Sørensen–Dice coefficient over character bigrams (spaces ignored)
+ */
+export function diceSimilarity(a: string, b: string): number {
+  if (a === b) return a.length > 0 ? 1 : 0;
+  const gramsA = bigrams(a);
+  const gramsB = bigrams(b);
+  let totalA = 0;
+  let totalB = 0;
+  gramsA.forEach(count => (totalA += count));
+  gramsB.forEach(count => (totalB += count));
+  if (totalA === 0 || totalB === 0) return 0;
+
+  let overlap = 0;
+  gramsA.forEach((count, gram) => {
+    overlap += Math.min(count, gramsB.get(gram) ?? 0);
+  });
+  return (2 * overlap) / (totalA + totalB);
+}
+
+/**
+ * Best match score of a provider name against one team
+ */
+export function scoreTeamMatch(providerName: string, team: TeamCandidate): number {
+  const name = normalizeTeamName(providerName);
+  if (!name) return 0;
+  if (aliasKey(providerName) === team.id.toLowerCase()) return 1;
+
+  const forms = [normalizeTeamName(team.name)];
+  if (team.mascot) forms.push(normalizeTeamName(`${team.name} ${team.mascot}`));
+  return Math.max(...forms.map(form => diceSimilarity(name, form)));
+}
+
+/**
+ * Closest teams for a provider name, best first
+ */
+export function suggestTeams(
+  providerName: string,
+  teams: TeamCandidate[],
+  limit: number = 3,
+  minScore: number = DEFAULT_SUGGESTION_MIN_SCORE
+): TeamSuggestion[] {
+  return teams
+    .map(team => ({ teamId: team.id, name: team.name, score: scoreTeamMatch(providerName, team) }))
+    .filter(suggestion => suggestion.score >= minScore)
+    .sort((a, b) => b.score - a.score || a.name.localeCompare(b.name))
+    .slice(0, limit)
+    .map(suggestion => ({ ...suggestion, score: Math.round(suggestion.score * 1000) / 1000 }));
+}
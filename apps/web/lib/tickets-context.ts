@@ -0,0 +1,195 @@
+/**
+ * Tickets Context Loader
+ *
+ * Database side of parlays and teasers (tickets.ts): creating a ticket with its
+ * legs, and pricing pending tickets from the model.
+ */
+
+import { prisma } from './prisma';
+import { getCoreV1SpreadFromTeams } from './core-v1-spread';
+import { getMarginSigma } from './core-v1-moneyline';
+import { getTotalsV2Projection } from './totals-v2-context';
+import { isTotalsV2Fitted } from './totals-v2-model';
+import {
+  LegProbabilities,
+  TicketInput,
+  TicketType,
+  isKeyNumberWeightsFitted,
+  legProbabilities,
+  ticketExpectedValue,
+} from './tickets';
+
+export type TicketResult =
+  | { ok: true; bet: any }
+  | { ok: false; status: number; error: string };
+
+export interface TicketPricing {
+  /** EV per unit staked (null when the model has no number for some leg) */
+  ev: number | null;
+  /** The EV rests on the hand-set key-number prior (a spread or moneyline leg, weights not fitted) */
+  evIsPrior: boolean;
+  legs: Array<LegProbabilities | null>;
+}
+
+export interface LegModel {
+  spreadHma: number | null;
+  total: number | null;
+}
+
+/**
+ * Create a parlay or teaser in a portfolio (owner null = house). The ticket's
+ * season and week are those of its first game to kick off.
+ */
+export async function createTicket(
+  input: TicketInput,
+  ownerId: string | null,
+  options: { strategyTag?: string; notes?: string | null; bookName?: string | null; bankrollId?: string | null } = {}
+): Promise<TicketResult> {
+  const games = await prisma.game.findMany({
+    where: { id: { in: input.legs.map(leg => leg.gameId) } },
+    select: { id: true, season: true, week: true, date: true },
+  });
+  const gameById = new Map<string, any>(games.map((game: any) => [game.id, game]));
+  const missing = input.legs.find(leg => !gameById.has(leg.gameId));
+  if (missing) return { ok: false, status: 404, error: `Game not found: ${missing.gameId}` };
+
+  if (options.bankrollId) {
+    const bankroll = await prisma.bankroll.findUnique({ where: { id: options.bankrollId } });
+    if (!bankroll || bankroll.userId !== ownerId) return { ok: false, status: 404, error: 'Bankroll not found' };
+  }
+
+  const first = input.legs
+    .map(leg => gameById.get(leg.gameId))
+    .sort((a: any, b: any) => new Date(a.date).getTime() - new Date(b.date).getTime())[0];
+
+  const bet = await prisma.bet.create({
+    data: {
+      season: first.season,
+      week: first.week,
+      gameId: null,
+      marketType: input.type,
+      side: null,
+      modelPrice: input.price,
+      stake: input.stake,
+      teaserPoints: input.teaserPoints,
+      strategyTag: options.strategyTag || input.type,
+      source: 'manual',
+      notes: options.notes ?? null,
+      bookName: options.bookName ?? null,
+      bankrollId: options.bankrollId ?? null,
+      userId: ownerId,
+      legs: {
+        create: input.legs.map((leg, legIndex) => ({
+          legIndex,
+          gameId: leg.gameId,
+          marketType: leg.marketType,
+          side: leg.side,
+          line: leg.line,
+          price: leg.price,
+          kickoff: gameById.get(leg.gameId).date,
+        })),
+      },
+    },
+    include: {
+      legs: {
+        orderBy: { legIndex: 'asc' },
+        include: {
+          game: {
+            include: {
+              homeTeam: { select: { name: true } },
+              awayTeam: { select: { name: true } },
+            },
+          },
+        },
+      },
+    },
+  });
+  return { ok: true, bet };
+}
+
+/**
+ * Model numbers for a leg's game: Core V1 spread and Totals V2 total (null when
+ * either can't be computed, or Totals V2 is unfitted)
+ */
+export async function loadLegModel(game: {
+  id: string;
+  season: number;
+  week: number;
+  date: Date;
+  homeTeamId: string;
+  awayTeamId: string;
+  neutralSite: boolean | null;
+  homeTeam: { name: string };
+  awayTeam: { name: string };
+}): Promise<LegModel> {
+  let spreadHma: number | null = null;
+  let total: number | null = null;
+  try {
+    const core = await getCoreV1SpreadFromTeams(
+      game.season,
+      game.homeTeamId,
+      game.awayTeamId,
+      game.neutralSite || false,
+      game.homeTeam.name,
+      game.awayTeam.name,
+      null,
+      game.date,
+      game.id
+    );
+    spreadHma = core.coreSpreadHma;
+  } catch (error) {
+    spreadHma = null;
+  }
+  if (!isTotalsV2Fitted()) return { spreadHma, total };
+  try {
+    const projection = await getTotalsV2Projection({
+      id: game.id,
+      season: game.season,
+      week: game.week,
+      homeTeamId: game.homeTeamId,
+      awayTeamId: game.awayTeamId,
+      date: game.date,
+    });
+    total = projection.modelTotal;
+  } catch (error) {
+    total = null;
+  }
+  return { spreadHma, total };
+}
+
+/**
+ * Model EV for a ticket whose legs include their games (with team names)
+ *
+ * @param modelCache - Leg models by game id, shared across tickets
+ */
+export async function priceTicket(
+  ticket: { marketType: TicketType; teaserPoints: any; modelPrice: any; legs: any[] },
+  modelCache: Map<string, LegModel> = new Map()
+): Promise<TicketPricing> {
+  const teaserPoints = ticket.teaserPoints !== null && ticket.teaserPoints !== undefined ? Number(ticket.teaserPoints) : null;
+  const sigma = getMarginSigma();
+
+  const legs: Array<LegProbabilities | null> = [];
+  for (const leg of ticket.legs) {
+    if (!modelCache.has(leg.gameId)) {
+      modelCache.set(leg.gameId, await loadLegModel(leg.game));
+    }
+    legs.push(
+      legProbabilities(
+        { marketType: leg.marketType, side: leg.side, line: leg.line !== null ? Number(leg.line) : null },
+        teaserPoints,
+        modelCache.get(leg.gameId)!,
+        sigma
+      )
+    );
+  }
+
+  const ev = legs.every(probs => probs !== null)
+    ? ticketExpectedValue(
+        { type: ticket.marketType, teaserPoints, price: Number(ticket.modelPrice) },
+        ticket.legs.map((leg, i) => ({ probs: legs[i]!, price: leg.price !== null ? Number(leg.price) : null }))
+      )
+    : null;
+  const evIsPrior = ev !== null && !isKeyNumberWeightsFitted() && ticket.legs.some(leg => leg.marketType !== 'total');
+  return { ev, evIsPrior, legs };
+}
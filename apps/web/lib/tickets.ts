@@ -0,0 +1,506 @@
+/**
+ * Parlays and Teasers
+ *
+ * A ticket is one bet on several legs, each a spread, total or moneyline on its
+ * own game:
+ * - parlay: every leg must win. Pays the product of the legs' decimal prices
+ *   (-110 for a leg without a price)
+ * - teaser: spread and total legs moved 6, 6.5 or 7 points toward the bettor,
+ *   paid from a price table by leg count (data/teaser_config.json)
+ *
+ * Settlement: a losing leg loses the ticket, even while other games are still to
+ * be played. Pushed legs and void legs (the game is not final
+ * `postponed_void_hours` after the kickoff it had when the ticket was placed)
+ * drop out: a parlay is paid on the remaining legs' prices, a teaser at the
+ * table price for the remaining leg count. With no legs left (parlay) or fewer
+ * than two (teaser) the ticket is a push.
+ *
+ * EV comes from a discrete margin distribution: Normal(Core V1 spread, σ) over
+ * whole points, each margin's mass scaled by how often games land on it (key
+ * numbers 3, 7, 10, 14 up; 0 never, there are no ties). That is what makes a
+ * teaser through 3 and 7 worth more than one through 8 to 13. Totals use
+ * Normal(model total, total σ) without key numbers.
+ *
+ * Lines are side-relative: a spread leg of -7 on the home team covers when the
+ * home team wins by more than 7. The DB side lives in tickets-context.ts.
+ */
+
+import teaserConfigData from './data/teaser_config.json';
+import { normalCdf } from './core-v1-moneyline';
+import { americanToDecimal } from './market-line-helpers';
+import { STANDARD_PRICE } from './bankroll';
+
+interface TeaserConfig {
+  teaser_prices: Record<string, Record<string, number>>;
+  max_parlay_legs: number;
+  postponed_void_hours: number;
+  total_sigma: number;
+  margin_range: number;
+  key_number_weights: Record<string, number>;
+  training_stats: KeyNumberTrainingStats | null;
+  trained_on: string | null;
+}
+
+/** Fit behind key_number_weights (scripts/train-teaser-key-numbers.ts) */
+export interface KeyNumberTrainingStats {
+  seasons: number[];
+  sample_size: number;
+  margin_sigma: number;
+  /** Games whose |home margin| landed on each key number */
+  observed: Record<string, number>;
+  /** Games a plain Normal(model spread, σ) puts there */
+  expected: Record<string, number>;
+}
+
+const TEASER_CONFIG: TeaserConfig = teaserConfigData as TeaserConfig;
+
+export type TicketType = 'parlay' | 'teaser';
+export const TICKET_TYPES: TicketType[] = ['parlay', 'teaser'];
+
+/** Bet market types that are tickets rather than straight bets */
+export function isTicketType(marketType: string): marketType is TicketType {
+  return (TICKET_TYPES as string[]).includes(marketType);
+}
+
+/** Teaser sizes with a price table */
+export const TEASER_POINTS: number[] = Object.keys(TEASER_CONFIG.teaser_prices).map(Number).sort((a, b) => a - b);
+
+export type LegMarket = 'spread' | 'total' | 'moneyline';
+export type LegSide = 'home' | 'away' | 'over' | 'under';
+export type LegOutcome = 'win' | 'loss' | 'push' | 'void';
+
+/** Markets of straight (single-game) bets: the leg markets */
+export const STRAIGHT_MARKETS: LegMarket[] = ['spread', 'total', 'moneyline'];
+
+/**
+ * Bet filter for straight bets. Tickets have no game or side of their own, so
+ * code that reads bet.game / bet.side filters with this and narrows the rows
+ * with isStraightBet().
+ */
+export const STRAIGHT_BET_WHERE = {
+  marketType: { in: STRAIGHT_MARKETS },
+  gameId: { not: null },
+};
+
+/** A bet row with the ticket-only nulls taken out of the columns it selected */
+export type StraightBet<T> = T &
+  { gameId: string } &
+  (T extends { marketType: unknown } ? { marketType: LegMarket } : unknown) &
+  (T extends { side: infer S } ? { side: NonNullable<S> } : unknown) &
+  (T extends { game: infer G } ? { game: NonNullable<G> } : unknown);
+
+/**
+ * Type guard for straight bets, checking the columns the row selected
+ */
+export function isStraightBet<T extends { gameId: string | null; marketType?: string }>(bet: T): bet is StraightBet<T> {
+  const row = bet as { side?: unknown; game?: unknown };
+  return (
+    bet.gameId !== null &&
+    (bet.marketType === undefined || (STRAIGHT_MARKETS as string[]).includes(bet.marketType)) &&
+    row.side !== null &&
+    row.game !== null
+  );
+}
+
+export interface TicketLeg {
+  gameId: string;
+  marketType: LegMarket;
+  side: LegSide;
+  /** Spread (side-relative) or total before teaser points; null for moneylines */
+  line: number | null;
+  /** American price; null = -110 */
+  price: number | null;
+}
+
+export interface TicketTerms {
+  type: TicketType;
+  teaserPoints: number | null;
+  /** American price of the whole ticket as booked */
+  price: number;
+}
+
+export interface TicketInput extends TicketTerms {
+  stake: number;
+  legs: TicketLeg[];
+}
+
+export interface TicketSettlement {
+  result: 'win' | 'loss' | 'push';
+  /** Return per unit staked, stake included (0 for a loss, 1 for a push) */
+  decimal: number;
+}
+
+/** Win / push / loss probabilities for one leg */
+export interface LegProbabilities {
+  win: number;
+  push: number;
+  loss: number;
+}
+
+/** Probability mass on whole-point outcomes */
+export interface PointMass {
+  points: number;
+  prob: number;
+}
+
+/**
+ * Decimal odds to American odds, rounded to a whole number
+ */
+export function decimalToAmerican(decimal: number): number {
+  if (decimal >= 2) return Math.round((decimal - 1) * 100);
+  return Math.round(-100 / (decimal - 1));
+}
+
+/**
+ * Table price for a teaser, or null when there is none for these points/legs
+ */
+export function teaserPrice(teaserPoints: number, legCount: number): number | null {
+  const table = TEASER_CONFIG.teaser_prices[String(teaserPoints)];
+  const price = table?.[String(legCount)];
+  return typeof price === 'number' ? price : null;
+}
+
+/**
+ * Most legs a teaser of this size can have
+ */
+export function maxTeaserLegs(teaserPoints: number): number {
+  const table = TEASER_CONFIG.teaser_prices[String(teaserPoints)] ?? {};
+  return Math.max(0, ...Object.keys(table).map(Number));
+}
+
+/**
+ * Parlay price from its legs' prices (null = -110)
+ */
+export function parlayPrice(legPrices: Array<number | null>): number {
+  const decimal = legPrices.reduce<number>((product, price) => product * americanToDecimal(price ?? STANDARD_PRICE), 1);
+  return decimalToAmerican(decimal);
+}
+
+/**
+ * Price for a ticket booked without one: the parlay product or the teaser table
+ */
+export function defaultTicketPrice(type: TicketType, teaserPoints: number | null, legs: TicketLeg[]): number | null {
+  if (type === 'parlay') return parlayPrice(legs.map(leg => leg.price));
+  return teaserPoints !== null ? teaserPrice(teaserPoints, legs.length) : null;
+}
+
+/**
+ * A leg's line after teaser points (spreads and unders go up, overs go down)
+ */
+export function teasedLine(leg: Pick<TicketLeg, 'marketType' | 'side' | 'line'>, teaserPoints: number | null): number | null {
+  if (leg.line === null || leg.marketType === 'moneyline') return null;
+  const points = teaserPoints ?? 0;
+  return leg.marketType === 'total' && leg.side === 'over' ? leg.line - points : leg.line + points;
+}
+
+/**
+ * Grade one leg from its game, or null while it is still pending
+ *
+ * @param kickoff - Kickoff the game had when the ticket was placed
+ */
+export function gradeLeg(
+  leg: Pick<TicketLeg, 'marketType' | 'side' | 'line'>,
+  teaserPoints: number | null,
+  game: { status: string; homeScore: number | null; awayScore: number | null },
+  kickoff: Date,
+  now: Date = new Date()
+): LegOutcome | null {
+  if (game.status !== 'final' || game.homeScore === null || game.awayScore === null) {
+    const voidAt = kickoff.getTime() + TEASER_CONFIG.postponed_void_hours * 60 * 60 * 1000;
+    return now.getTime() >= voidAt ? 'void' : null;
+  }
+
+  const margin = game.homeScore - game.awayScore;
+  let diff: number;
+  if (leg.marketType === 'total') {
+    const total = game.homeScore + game.awayScore;
+    const line = teasedLine(leg, teaserPoints)!;
+    diff = leg.side === 'over' ? total - line : line - total;
+  } else {
+    const sideMargin = leg.side === 'home' ? margin : -margin;
+    diff = leg.marketType === 'spread' ? sideMargin + teasedLine(leg, teaserPoints)! : sideMargin;
+  }
+  if (diff === 0) return 'push';
+  return diff > 0 ? 'win' : 'loss';
+}
+
+/**
+ * Settle a ticket from its legs' outcomes (null = pending), or null while it
+ * cannot be settled yet. See the header for push and void handling.
+ */
+export function settleTicket(
+  terms: TicketTerms,
+  legs: Array<{ outcome: LegOutcome | null; price: number | null }>
+): TicketSettlement | null {
+  if (legs.some(leg => leg.outcome === 'loss')) return { result: 'loss', decimal: 0 };
+  if (legs.some(leg => leg.outcome === null)) return null;
+
+  const winners = legs.filter(leg => leg.outcome === 'win');
+  if (winners.length === legs.length) {
+    return { result: 'win', decimal: americanToDecimal(terms.price) };
+  }
+
+  if (terms.type === 'parlay') {
+    if (winners.length === 0) return { result: 'push', decimal: 1 };
+    return { result: 'win', decimal: americanToDecimal(parlayPrice(winners.map(leg => leg.price))) };
+  }
+
+  const reduced = winners.length >= 2 && terms.teaserPoints !== null ? teaserPrice(terms.teaserPoints, winners.length) : null;
+  if (reduced === null) return { result: 'push', decimal: 1 };
+  return { result: 'win', decimal: americanToDecimal(reduced) };
+}
+
+/**
+ * Profit or loss of a settled ticket
+ */
+export function ticketPnl(settlement: TicketSettlement, stake: number): number {
+  return Math.round(stake * (settlement.decimal - 1) * 100) / 100;
+}
+
+/**
+ * Discrete distribution over whole points: Normal(mean, sigma) binned to
+ * integers, each bin scaled by its weight and renormalized
+ */
+function discreteNormal(mean: number, sigma: number, weightOf: (points: number) => number, min: number, max: number): PointMass[] {
+  const masses: PointMass[] = [];
+  let total = 0;
+  for (let points = min; points <= max; points++) {
+    const bin = normalCdf((points + 0.5 - mean) / sigma) - normalCdf((points - 0.5 - mean) / sigma);
+    const prob = bin * weightOf(points);
+    masses.push({ points, prob });
+    total += prob;
+  }
+  return total > 0 ? masses.map(mass => ({ points: mass.points, prob: mass.prob / total })) : masses;
+}
+
+/**
+ * Whether key_number_weights were fit on our games; until then they are a
+ * hand-set prior and so is every EV that uses the margin distribution
+ */
+export function isKeyNumberWeightsFitted(): boolean {
+  return TEASER_CONFIG.trained_on !== null;
+}
+
+export interface KeyNumberSample {
+  /** Core V1 spread at kickoff (HMA) */
+  modelSpread: number;
+  actualMargin: number;
+}
+
+/**
+ * Fit key-number weights: for each key number, the games that landed on it over
+ * the games a plain Normal(model spread, σ) expects there
+ *
+ * @param keyNumbers - |margin| values to weight (default: the configured ones)
+ */
+export function fitKeyNumberWeights(
+  samples: KeyNumberSample[],
+  sigma: number,
+  keyNumbers: number[] = Object.keys(TEASER_CONFIG.key_number_weights).map(Number)
+): { weights: Record<string, number>; observed: Record<string, number>; expected: Record<string, number> } {
+  const observed: Record<string, number> = {};
+  const expected: Record<string, number> = {};
+  for (const key of keyNumbers) {
+    observed[key] = 0;
+    expected[key] = 0;
+  }
+
+  for (const sample of samples) {
+    const landed = Math.abs(sample.actualMargin);
+    if (landed in observed) observed[landed]++;
+    for (const { points, prob } of marginDistribution(sample.modelSpread, sigma, {})) {
+      const key = Math.abs(points);
+      if (key in expected) expected[key] += prob;
+    }
+  }
+
+  const weights: Record<string, number> = {};
+  for (const key of keyNumbers) {
+    weights[key] = expected[key] > 0 ? Math.round((observed[key] / expected[key]) * 100) / 100 : 1;
+  }
+  return { weights, observed, expected };
+}
+
+/**
+ * Home margin distribution around a model spread (HMA, positive = home favored),
+ * with key-number weights on |margin|
+ */
+export function marginDistribution(
+  spreadHma: number,
+  sigma: number,
+  keyNumberWeights: Record<string, number> = TEASER_CONFIG.key_number_weights
+): PointMass[] {
+  const range = TEASER_CONFIG.margin_range;
+  return discreteNormal(spreadHma, sigma, points => keyNumberWeights[String(Math.abs(points))] ?? 1, -range, range);
+}
+
+/**
+ * Total points distribution around a model total
+ */
+export function totalDistribution(modelTotal: number, sigma: number = TEASER_CONFIG.total_sigma): PointMass[] {
+  const max = Math.ceil(modelTotal + 6 * sigma);
+  return discreteNormal(modelTotal, sigma, () => 1, 0, max);
+}
+
+/**
+ * Probability that a leg wins, pushes or loses
+ *
+ * @param model - Core V1 spread (HMA) and model total for the leg's game
+ * @param sigma - Margin standard deviation
+ * @returns null when the model has no number for the leg's market
+ */
+export function legProbabilities(
+  leg: Pick<TicketLeg, 'marketType' | 'side' | 'line'>,
+  teaserPoints: number | null,
+  model: { spreadHma: number | null; total: number | null },
+  sigma: number
+): LegProbabilities | null {
+  let masses: PointMass[];
+  let diffOf: (points: number) => number;
+
+  if (leg.marketType === 'total') {
+    if (model.total === null || leg.line === null) return null;
+    const line = teasedLine(leg, teaserPoints)!;
+    masses = totalDistribution(model.total);
+    diffOf = total => (leg.side === 'over' ? total - line : line - total);
+  } else {
+    if (model.spreadHma === null) return null;
+    if (leg.marketType === 'spread' && leg.line === null) return null;
+    const line = leg.marketType === 'spread' ? teasedLine(leg, teaserPoints)! : 0;
+    masses = marginDistribution(model.spreadHma, sigma);
+    diffOf = margin => (leg.side === 'home' ? margin : -margin) + line;
+  }
+
+  const probs: LegProbabilities = { win: 0, push: 0, loss: 0 };
+  for (const { points, prob } of masses) {
+    const diff = diffOf(points);
+    if (diff > 0) probs.win += prob;
+    else if (diff < 0) probs.loss += prob;
+    else probs.push += prob;
+  }
+  return probs;
+}
+
+/**
+ * Expected value per unit staked, treating legs as independent. Every
+ * win/push combination is settled with settleTicket, so the push rules and
+ * reduced prices are priced in.
+ */
+export function ticketExpectedValue(
+  terms: TicketTerms,
+  legs: Array<{ probs: LegProbabilities; price: number | null }>
+): number {
+  let ev = 0;
+  const outcomes: Array<{ outcome: LegOutcome; price: number | null }> = [];
+
+  const walk = (index: number, prob: number) => {
+    if (prob === 0) return;
+    if (index === legs.length) {
+      ev += prob * (settleTicket(terms, outcomes)!.decimal - 1);
+      return;
+    }
+    const leg = legs[index];
+    // Any losing leg loses the ticket, whatever the rest do
+    ev += prob * leg.probs.loss * -1;
+    for (const outcome of ['win', 'push'] as const) {
+      outcomes.push({ outcome, price: leg.price });
+      walk(index + 1, prob * leg.probs[outcome]);
+      outcomes.pop();
+    }
+  };
+  walk(0, 1);
+  return ev;
+}
+
+/**
+ * Validate a create payload for a parlay or teaser
+ */
+export function validateTicketInput(
+  raw: any
+): { valid: true; data: TicketInput } | { valid: false; errors: string[] } {
+  const errors: string[] = [];
+  const type = raw?.type as TicketType;
+  const stake = Number(raw?.stake);
+  const teaserPoints = raw?.teaserPoints === undefined || raw?.teaserPoints === null ? null : Number(raw.teaserPoints);
+  const rawLegs: any[] = Array.isArray(raw?.legs) ? raw.legs : [];
+  const isAmerican = (value: number) => Number.isFinite(value) && Math.abs(value) >= 100;
+
+  if (!TICKET_TYPES.includes(type)) errors.push(`Type must be one of: ${TICKET_TYPES.join(', ')}`);
+  if (!(stake > 0)) errors.push('Stake must be positive');
+
+  if (type === 'teaser' && (teaserPoints === null || !TEASER_POINTS.includes(teaserPoints))) {
+    errors.push(`Teaser points must be one of: ${TEASER_POINTS.join(', ')}`);
+  }
+  if (type === 'parlay' && teaserPoints !== null) errors.push('Parlays do not take teaser points');
+
+  const maxLegs = type === 'teaser' && teaserPoints !== null ? maxTeaserLegs(teaserPoints) : TEASER_CONFIG.max_parlay_legs;
+  if (rawLegs.length < 2) errors.push('A ticket needs at least 2 legs');
+  else if (maxLegs > 0 && rawLegs.length > maxLegs) errors.push(`A ${type} can have at most ${maxLegs} legs`);
+
+  const legs: TicketLeg[] = [];
+  const games = new Set<string>();
+  rawLegs.forEach((rawLeg, i) => {
+    const label = `Leg ${i + 1}`;
+    const gameId = typeof rawLeg?.gameId === 'string' ? rawLeg.gameId.trim() : '';
+    const marketType = rawLeg?.marketType as LegMarket;
+    const side = rawLeg?.side as LegSide;
+    const line = rawLeg?.line === undefined || rawLeg?.line === null || rawLeg?.line === '' ? null : Number(rawLeg.line);
+    const price = rawLeg?.price === undefined || rawLeg?.price === null || rawLeg?.price === '' ? null : Number(rawLeg.price);
+
+    if (!gameId) errors.push(`${label}: gameId is required`);
+    else if (games.has(gameId)) errors.push(`${label}: only one leg per game`);
+    games.add(gameId);
+
+    if (!['spread', 'total', 'moneyline'].includes(marketType)) {
+      errors.push(`${label}: marketType must be spread, total or moneyline`);
+    } else {
+      const sides = marketType === 'total' ? ['over', 'under'] : ['home', 'away'];
+      if (!sides.includes(side)) errors.push(`${label}: side must be ${sides.join(' or ')}`);
+      if (marketType !== 'moneyline' && (line === null || !Number.isFinite(line))) errors.push(`${label}: line is required`);
+      if (type === 'teaser' && marketType === 'moneyline') errors.push(`${label}: teasers only take spreads and totals`);
+    }
+    if (price !== null && !isAmerican(price)) errors.push(`${label}: price must be American odds`);
+
+    legs.push({ gameId, marketType, side, line: marketType === 'moneyline' ? null : line, price });
+  });
+
+  const rawPrice = raw?.price === undefined || raw?.price === null || raw?.price === '' ? null : Number(raw.price);
+  if (rawPrice !== null && !isAmerican(rawPrice)) errors.push('Price must be American odds');
+
+  if (errors.length > 0) {
+    return { valid: false, errors };
+  }
+
+  const price = rawPrice ?? defaultTicketPrice(type, teaserPoints, legs);
+  if (price === null) {
+    return { valid: false, errors: [`No ${teaserPoints}-point teaser price for ${legs.length} legs`] };
+  }
+
+  return {
+    valid: true,
+    data: {
+      type,
+      teaserPoints: type === 'teaser' ? teaserPoints : null,
+      price,
+      stake,
+      legs,
+    },
+  };
+}
+
+/**
+ * Short label for a leg, e.g. "Alabama -7.5 → -1.5" or "over 52.5"
+ *
+ * @param sideLabel - Team name for spread and moneyline sides (default: the side)
+ */
+export function describeLeg(
+  leg: Pick<TicketLeg, 'marketType' | 'side' | 'line'>,
+  teaserPoints: number | null,
+  sideLabel: string = leg.side
+): string {
+  if (leg.marketType === 'moneyline') return `${sideLabel} ML`;
+  const fmt = (line: number) => (leg.marketType === 'spread' && line > 0 ? `+${line}` : String(line));
+  const base = `${leg.marketType === 'total' ? leg.side : sideLabel} ${fmt(leg.line!)}`;
+  const teased = teaserPoints ? teasedLine(leg, teaserPoints) : null;
+  return teased !== null ? `${base} → ${fmt(teased)}` : base;
+}
@@ -32,7 +32,7 @@ export const TOOLTIP_CONTENT = {
   GRADE_C: "Grade C: Low confidence pick with edge ≥ 2.0 points. Use with caution.",
   
   // Home Field Advantage
-  HFA: "Home Field Advantage (HFA) is a constant points value (typically 2.0-3.0) awarded to the home team. This accounts for factors like crowd noise, travel distance, and familiarity. Separate from talent component.",
+  HFA: "Home Field Advantage (HFA) is the points awarded to the home team: a base value plus a team adjustment, and, once fitted for the season, components for the visitor's travel distance, time zones crossed, venue altitude, rest differential and crowd size. Separate from talent component.",
   
   // Power Rating
   POWER_RATING: "A team's overall strength rating combining offensive and defensive capabilities. Higher numbers indicate stronger teams. Used to predict game outcomes and calculate point spreads.",
@@ -74,6 +74,7 @@ export const TOOLTIP_CONTENT = {
   
   // Injuries
   INJURIES: "Player injury reports from ESPN. OUT = confirmed out, QUESTIONABLE = may not play, PROBABLE = likely to play, DOUBTFUL = unlikely to play.",
+  INJURY_ADJUSTMENT: "Points the model moves the spread for reported injuries. Each player is valued by position group, weighted by their usage share (depth chart when known) and the chance they miss the game given their status. Calibrated against past results.",
   
   // Line Movement
   LINE_MOVEMENT: "Shows how the betting lines have moved over time. Green dot = opening line, Red dot = closing line. Line movement can indicate where sharp money is going. Labels show exact values at Open and Close.",
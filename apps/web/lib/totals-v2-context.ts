@@ -0,0 +1,184 @@
+/**
+ * Totals V2 Context Loader
+ *
+ * Database side of the totals v2 model: season-to-date pace and efficiency from
+ * TeamGameStat, drive data from CfbdDrivesTeamGame, the league baseline and game
+ * weather (Weather forecast, else CfbdWeatherGame). The math lives in totals-v2-model.ts.
+ */
+
+import { prisma } from './prisma';
+import { updatedAsOf } from './as-of';
+import {
+  LeagueTotalsBaseline,
+  TeamTotalsProfile,
+  TotalsV2Projection,
+  TotalsWeather,
+  DEFAULT_TOTALS_V2_CONFIG,
+  computeTotalsV2,
+} from './totals-v2-model';
+
+export interface TotalsGameInput {
+  id: string | null;
+  season: number;
+  week: number | null;
+  homeTeamId: string;
+  awayTeamId: string;
+  /** Kickoff; only games before it feed the profiles (null = whole season so far) */
+  date: Date | null;
+}
+
+function mean(values: Array<number | null | undefined>): number | null {
+  const finite = values.filter((v): v is number => v !== null && v !== undefined && Number.isFinite(Number(v))).map(Number);
+  return finite.length > 0 ? finite.reduce((sum, v) => sum + v, 0) / finite.length : null;
+}
+
+function beforeDate(date: Date | null) {
+  return date ? { game: { date: { lt: date } } } : {};
+}
+
+/**
+ * CFBD game ids a team played in this season before `date`
+ */
+async function cfbdGameIds(season: number, teamIds: string[] | null, date: Date | null): Promise<string[]> {
+  const games = await prisma.cfbdGame.findMany({
+    where: {
+      season,
+      ...(date ? { date: { lt: date } } : {}),
+      ...(teamIds ? { OR: [{ homeTeamIdInternal: { in: teamIds } }, { awayTeamIdInternal: { in: teamIds } }] } : {}),
+    },
+    select: { gameIdCfbd: true },
+  });
+  return games.map((g: any) => g.gameIdCfbd);
+}
+
+/**
+ * Season-to-date pace and efficiency for one team
+ *
+ * @param asOf - Ignore stat rows last written after this time (null = latest)
+ */
+export async function loadTeamTotalsProfile(
+  season: number,
+  teamId: string,
+  date: Date | null,
+  asOf: Date | null = null
+): Promise<TeamTotalsProfile> {
+  const own = await prisma.teamGameStat.findMany({
+    where: { season, teamId, ...beforeDate(date), ...updatedAsOf(asOf) },
+    select: { gameId: true, pace: true, epaOff: true, epaDef: true, successOff: true, successDef: true },
+  });
+  const opponents = own.length > 0
+    ? await prisma.teamGameStat.findMany({
+        where: { gameId: { in: own.map((r: any) => r.gameId) }, teamId: { not: teamId }, ...updatedAsOf(asOf) },
+        select: { pace: true },
+      })
+    : [];
+
+  const cfbdIds = await cfbdGameIds(season, [teamId], date);
+  const drives = cfbdIds.length > 0
+    ? await prisma.cfbdDrivesTeamGame.findMany({
+        where: {
+          gameIdCfbd: { in: cfbdIds },
+          teamIdInternal: teamId,
+          ...(asOf ? { ingestedAt: { lte: asOf } } : {}),
+        },
+        select: { secondsPerSnap: true, pointsPerScoringOpp: true },
+      })
+    : [];
+
+  return {
+    teamId,
+    games: own.length,
+    offPlays: mean(own.map((r: any) => r.pace)),
+    defPlays: mean(opponents.map((r: any) => r.pace)),
+    offEpa: mean(own.map((r: any) => r.epaOff)),
+    defEpa: mean(own.map((r: any) => r.epaDef)),
+    offSuccess: mean(own.map((r: any) => r.successOff)),
+    defSuccess: mean(own.map((r: any) => r.successDef)),
+    pointsPerScoringOpp: mean(drives.map((r: any) => (r.pointsPerScoringOpp !== null ? Number(r.pointsPerScoringOpp) : null))),
+    secondsPerSnap: mean(drives.map((r: any) => (r.secondsPerSnap !== null ? Number(r.secondsPerSnap) : null))),
+  };
+}
+
+// League means change once a week; cache per season and cutoff day
+const baselineCache = new Map<string, LeagueTotalsBaseline>();
+
+/**
+ * League-average pace and efficiency this season before `date`
+ * Missing pieces (e.g. before week 1) fall back to the config defaults.
+ */
+export async function getLeagueTotalsBaseline(season: number, date: Date | null): Promise<LeagueTotalsBaseline> {
+  const key = `${season}|${date ? date.toISOString().slice(0, 10) : 'all'}`;
+  if (baselineCache.has(key)) return baselineCache.get(key)!;
+
+  const defaults = DEFAULT_TOTALS_V2_CONFIG.defaultLeague;
+  const stats = await prisma.teamGameStat.aggregate({
+    where: { season, ...beforeDate(date) },
+    _avg: { pace: true, epaOff: true, successOff: true },
+  });
+  const cfbdIds = await cfbdGameIds(season, null, date);
+  const drives = cfbdIds.length > 0
+    ? await prisma.cfbdDrivesTeamGame.aggregate({
+        where: { gameIdCfbd: { in: cfbdIds } },
+        _avg: { secondsPerSnap: true, pointsPerScoringOpp: true },
+      })
+    : null;
+
+  const baseline: LeagueTotalsBaseline = {
+    plays: stats._avg.pace ?? defaults.plays,
+    epa: stats._avg.epaOff ?? defaults.epa,
+    success: stats._avg.successOff ?? defaults.success,
+    pointsPerScoringOpp: drives?._avg.pointsPerScoringOpp != null ? Number(drives._avg.pointsPerScoringOpp) : defaults.pointsPerScoringOpp,
+    secondsPerSnap: drives?._avg.secondsPerSnap != null ? Number(drives._avg.secondsPerSnap) : defaults.secondsPerSnap,
+  };
+  baselineCache.set(key, baseline);
+  return baseline;
+}
+
+/**
+ * Game weather: the Weather forecast fetched by asOf, else CFBD's game weather
+ */
+export async function loadTotalsWeather(game: TotalsGameInput, asOf: Date | null = null): Promise<TotalsWeather | null> {
+  if (game.id) {
+    const forecast = await prisma.weather.findFirst({
+      where: { gameId: game.id, ...(asOf ? { forecastTime: { lte: asOf } } : {}) },
+    });
+    if (forecast) {
+      return {
+        temperature: forecast.temperature,
+        windMph: forecast.windSpeed,
+        precipProb: forecast.precipitationProb,
+        source: 'weather',
+      };
+    }
+  }
+
+  if (game.week === null) return null;
+  const cfbdGame = await prisma.cfbdGame.findFirst({
+    where: { season: game.season, week: game.week, homeTeamIdInternal: game.homeTeamId, awayTeamIdInternal: game.awayTeamId },
+    select: { gameIdCfbd: true },
+  });
+  if (!cfbdGame) return null;
+  const cfbdWeather = await prisma.cfbdWeatherGame.findFirst({
+    where: { gameIdCfbd: cfbdGame.gameIdCfbd, ...(asOf ? { ingestedAt: { lte: asOf } } : {}) },
+  });
+  if (!cfbdWeather) return null;
+  return {
+    temperature: cfbdWeather.temperature !== null ? Number(cfbdWeather.temperature) : null,
+    windMph: cfbdWeather.windSpeed !== null ? Number(cfbdWeather.windSpeed) : null,
+    precipProb: cfbdWeather.precipProb !== null ? Number(cfbdWeather.precipProb) : null,
+    source: 'cfbd',
+  };
+}
+
+/**
+ * Totals v2 projection for one game
+ */
+export async function getTotalsV2Projection(game: TotalsGameInput, asOf: Date | null = null): Promise<TotalsV2Projection> {
+  const [home, away, league, weather] = await Promise.all([
+    loadTeamTotalsProfile(game.season, game.homeTeamId, game.date, asOf),
+    loadTeamTotalsProfile(game.season, game.awayTeamId, game.date, asOf),
+    getLeagueTotalsBaseline(game.season, game.date),
+    loadTotalsWeather(game, asOf),
+  ]);
+  return computeTotalsV2(home, away, league, weather);
+}
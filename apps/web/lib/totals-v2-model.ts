@@ -0,0 +1,330 @@
+/**
+ * Totals Model V2
+ *
+ * Projects each offense's plays and points per play from pace and efficiency
+ * matchups, then adds weather:
+ *
+ *   plays_home  = home_off_plays × away_def_plays / league_plays × tempo
+ *   epa_home    = league_epa + (home_off_epa - league_epa) + (away_def_epa - league_epa)   (same for success rate)
+ *   ppp_home    = (base + β_epa × (epa_home - league_epa) + β_success × (success_home - league_success))
+ *                 × (1 + β_finish × (home_pts_per_scoring_opp / league - 1))
+ *   raw_total   = plays_home × ppp_home + plays_away × ppp_away
+ *   model_total = intercept + scale × raw_total + wind + precipitation + cold
+ *
+ * Team inputs are season-to-date means shrunk toward the league with `shrinkGames`
+ * pseudo-games. Intercept, scale and the weather terms are calibrated against closing
+ * totals by scripts/train-totals-v2.ts; until that has run (trained_on is null) the
+ * projection is display-only and picks use the Core V1 spread overlay. DB loading
+ * lives in totals-v2-context.ts.
+ */
+
+// Static import - bundled by Next.js/Vercel
+import totalsV2ConfigData from './data/core_v2_totals_config.json';
+import { solveLinearSystem } from './hfa-model';
+
+export interface TeamTotalsProfile {
+  teamId: string;
+  /** Games the means are taken over */
+  games: number;
+  /** Offensive plays per game */
+  offPlays: number | null;
+  /** Opponent plays per game */
+  defPlays: number | null;
+  /** EPA per play gained / allowed */
+  offEpa: number | null;
+  defEpa: number | null;
+  /** Success rate gained / allowed (0-1) */
+  offSuccess: number | null;
+  defSuccess: number | null;
+  /** Drive data: points per scoring opportunity and seconds per snap */
+  pointsPerScoringOpp: number | null;
+  secondsPerSnap: number | null;
+}
+
+export interface LeagueTotalsBaseline {
+  plays: number;
+  epa: number;
+  success: number;
+  pointsPerScoringOpp: number;
+  secondsPerSnap: number;
+}
+
+export interface TotalsWeather {
+  temperature: number | null;
+  windMph: number | null;
+  /** Precipitation probability, 0-100 */
+  precipProb: number | null;
+  source: 'weather' | 'cfbd';
+}
+
+export interface TotalsV2Config {
+  intercept: number;
+  scale: number;
+  pointsPerPlayBase: number;
+  epaCoef: number;
+  successCoef: number;
+  finishingCoef: number;
+  tempoCoef: number;
+  shrinkGames: number;
+  minTotal: number;
+  maxTotal: number;
+  weather: {
+    windThresholdMph: number;
+    windPerMph: number;
+    precipPerProb: number;
+    coldThresholdF: number;
+    coldPerDegree: number;
+  };
+  defaultLeague: LeagueTotalsBaseline;
+  /** When scripts/train-totals-v2.ts last calibrated the config (null = hand-set priors) */
+  trainedOn: string | null;
+}
+
+export interface TeamTotalsProjection {
+  teamId: string;
+  plays: number;
+  epa: number;
+  success: number;
+  pointsPerPlay: number;
+  points: number;
+}
+
+export interface TotalsWeatherFeatures {
+  /** mph above the threshold */
+  windExcess: number;
+  /** Precipitation probability, 0-1 */
+  precip: number;
+  /** Degrees below the threshold */
+  coldExcess: number;
+}
+
+export interface TotalsV2Projection {
+  modelTotal: number;
+  rawTotal: number;
+  expectedPlays: number;
+  weatherAdj: number;
+  weatherComponents: { wind: number; precip: number; cold: number };
+  weatherFeatures: TotalsWeatherFeatures;
+  weatherSource: TotalsWeather['source'] | null;
+  home: TeamTotalsProjection;
+  away: TeamTotalsProjection;
+}
+
+/**
+ * Config from the snake_case JSON written by the training script
+ */
+export function totalsV2ConfigFromJson(data: any): TotalsV2Config {
+  return {
+    intercept: Number(data.intercept ?? 0),
+    scale: Number(data.scale ?? 1),
+    pointsPerPlayBase: Number(data.points_per_play_base),
+    epaCoef: Number(data.epa_coef),
+    successCoef: Number(data.success_coef),
+    finishingCoef: Number(data.finishing_coef),
+    tempoCoef: Number(data.tempo_coef),
+    shrinkGames: Number(data.shrink_games),
+    minTotal: Number(data.min_total),
+    maxTotal: Number(data.max_total),
+    weather: {
+      windThresholdMph: Number(data.weather.wind_threshold_mph),
+      windPerMph: Number(data.weather.wind_per_mph),
+      precipPerProb: Number(data.weather.precip_per_prob),
+      coldThresholdF: Number(data.weather.cold_threshold_f),
+      coldPerDegree: Number(data.weather.cold_per_degree),
+    },
+    defaultLeague: {
+      plays: Number(data.default_league.plays),
+      epa: Number(data.default_league.epa),
+      success: Number(data.default_league.success),
+      pointsPerScoringOpp: Number(data.default_league.points_per_scoring_opp),
+      secondsPerSnap: Number(data.default_league.seconds_per_snap),
+    },
+    trainedOn: data.trained_on ?? null,
+  };
+}
+
+export const DEFAULT_TOTALS_V2_CONFIG: TotalsV2Config = totalsV2ConfigFromJson(totalsV2ConfigData);
+
+/**
+ * Whether the config has been calibrated against closing totals; unfitted
+ * projections must not drive picks
+ */
+export function isTotalsV2Fitted(config: TotalsV2Config = DEFAULT_TOTALS_V2_CONFIG): boolean {
+  return config.trainedOn !== null;
+}
+
+/**
+ * Season-to-date mean shrunk toward the league value
+ */
+export function shrinkToLeague(value: number | null, games: number, league: number, shrinkGames: number): number {
+  if (value === null || !Number.isFinite(value) || games <= 0) return league;
+  return (value * games + league * shrinkGames) / (games + shrinkGames);
+}
+
+/**
+ * Weather features (zero when unknown)
+ */
+export function computeTotalsWeatherFeatures(
+  weather: TotalsWeather | null,
+  config: TotalsV2Config = DEFAULT_TOTALS_V2_CONFIG
+): TotalsWeatherFeatures {
+  if (!weather) return { windExcess: 0, precip: 0, coldExcess: 0 };
+  return {
+    windExcess: weather.windMph !== null ? Math.max(0, weather.windMph - config.weather.windThresholdMph) : 0,
+    precip: weather.precipProb !== null ? Math.max(0, Math.min(100, weather.precipProb)) / 100 : 0,
+    coldExcess: weather.temperature !== null ? Math.max(0, config.weather.coldThresholdF - weather.temperature) : 0,
+  };
+}
+
+function projectOffense(
+  offense: TeamTotalsProfile,
+  defense: TeamTotalsProfile,
+  league: LeagueTotalsBaseline,
+  tempo: number,
+  config: TotalsV2Config
+): TeamTotalsProjection {
+  const shrink = (value: number | null, games: number, leagueValue: number) =>
+    shrinkToLeague(value, games, leagueValue, config.shrinkGames);
+
+  const offPlays = shrink(offense.offPlays, offense.games, league.plays);
+  const defPlays = shrink(defense.defPlays, defense.games, league.plays);
+  const plays = (offPlays * defPlays / league.plays) * tempo;
+
+  const epa = league.epa
+    + (shrink(offense.offEpa, offense.games, league.epa) - league.epa)
+    + (shrink(defense.defEpa, defense.games, league.epa) - league.epa);
+  const success = league.success
+    + (shrink(offense.offSuccess, offense.games, league.success) - league.success)
+    + (shrink(defense.defSuccess, defense.games, league.success) - league.success);
+  const finishing = shrink(offense.pointsPerScoringOpp, offense.games, league.pointsPerScoringOpp) / league.pointsPerScoringOpp;
+
+  const efficiencyPpp = config.pointsPerPlayBase
+    + config.epaCoef * (epa - league.epa)
+    + config.successCoef * (success - league.success);
+  const pointsPerPlay = Math.max(0.1, Math.min(1.0, efficiencyPpp * (1 + config.finishingCoef * (finishing - 1))));
+
+  return {
+    teamId: offense.teamId,
+    plays,
+    epa,
+    success,
+    pointsPerPlay,
+    points: plays * pointsPerPlay,
+  };
+}
+
+/**
+ * Project a game's total from both teams' profiles
+ */
+export function computeTotalsV2(
+  home: TeamTotalsProfile,
+  away: TeamTotalsProfile,
+  league: LeagueTotalsBaseline,
+  weather: TotalsWeather | null = null,
+  config: TotalsV2Config = DEFAULT_TOTALS_V2_CONFIG
+): TotalsV2Projection {
+  // Faster snaps than the league (fewer seconds) mean more plays for both sides
+  const homeSps = shrinkToLeague(home.secondsPerSnap, home.games, league.secondsPerSnap, config.shrinkGames);
+  const awaySps = shrinkToLeague(away.secondsPerSnap, away.games, league.secondsPerSnap, config.shrinkGames);
+  const tempo = Math.pow(league.secondsPerSnap / ((homeSps + awaySps) / 2), config.tempoCoef);
+
+  const homeProjection = projectOffense(home, away, league, tempo, config);
+  const awayProjection = projectOffense(away, home, league, tempo, config);
+  const rawTotal = homeProjection.points + awayProjection.points;
+
+  const weatherFeatures = computeTotalsWeatherFeatures(weather, config);
+  const weatherComponents = {
+    wind: config.weather.windPerMph * weatherFeatures.windExcess,
+    precip: config.weather.precipPerProb * weatherFeatures.precip,
+    cold: config.weather.coldPerDegree * weatherFeatures.coldExcess,
+  };
+  const weatherAdj = weatherComponents.wind + weatherComponents.precip + weatherComponents.cold;
+
+  const modelTotal = Math.max(
+    config.minTotal,
+    Math.min(config.maxTotal, config.intercept + config.scale * rawTotal + weatherAdj)
+  );
+
+  return {
+    modelTotal,
+    rawTotal,
+    expectedPlays: homeProjection.plays + awayProjection.plays,
+    weatherAdj,
+    weatherComponents,
+    weatherFeatures,
+    weatherSource: weather?.source ?? null,
+    home: homeProjection,
+    away: awayProjection,
+  };
+}
+
+// ============================================================================
+// Calibration
+// ============================================================================
+
+export interface TotalsV2CalibrationSample {
+  rawTotal: number;
+  weatherFeatures: TotalsWeatherFeatures;
+  closingTotal: number;
+  /** Final points, when the game has been played */
+  actualTotal: number | null;
+}
+
+export interface TotalsV2CalibrationResult {
+  intercept: number;
+  scale: number;
+  weather: { windPerMph: number; precipPerProb: number; coldPerDegree: number };
+  sampleSize: number;
+  /** Mean absolute error of the calibrated total vs the closing total */
+  maeVsClose: number;
+  /** vs final scores, for the model and for the closing total itself */
+  maeVsActual: number | null;
+  closeMaeVsActual: number | null;
+}
+
+/**
+ * Fit closing total ≈ intercept + scale × raw_total + weather terms (ridge on the
+ * weather terms only, so thin weather coverage can't swing them far)
+ */
+export function fitTotalsV2Calibration(
+  samples: TotalsV2CalibrationSample[],
+  ridgeLambda = 5
+): TotalsV2CalibrationResult {
+  if (samples.length < 50) {
+    throw new Error(`Need at least 50 games to calibrate (got ${samples.length})`);
+  }
+
+  const rows = samples.map(s => [1, s.rawTotal, s.weatherFeatures.windExcess, s.weatherFeatures.precip, s.weatherFeatures.coldExcess]);
+  const k = rows[0].length;
+  const XtX = Array.from({ length: k }, () => new Array(k).fill(0));
+  const Xty = new Array(k).fill(0);
+  rows.forEach((x, i) => {
+    for (let a = 0; a < k; a++) {
+      Xty[a] += x[a] * samples[i].closingTotal;
+      for (let b = 0; b < k; b++) XtX[a][b] += x[a] * x[b];
+    }
+  });
+  for (let j = 2; j < k; j++) XtX[j][j] += ridgeLambda;
+
+  const [intercept, scale, windPerMph, precipPerProb, coldPerDegree] = solveLinearSystem(XtX, Xty);
+  const predict = (x: number[]) => intercept + scale * x[1] + windPerMph * x[2] + precipPerProb * x[3] + coldPerDegree * x[4];
+
+  const maeVsClose = rows.reduce((sum, x, i) => sum + Math.abs(predict(x) - samples[i].closingTotal), 0) / samples.length;
+  const played = samples.map((s, i) => ({ s, x: rows[i] })).filter(({ s }) => s.actualTotal !== null);
+  const maeVsActual = played.length > 0
+    ? played.reduce((sum, { s, x }) => sum + Math.abs(predict(x) - s.actualTotal!), 0) / played.length
+    : null;
+  const closeMaeVsActual = played.length > 0
+    ? played.reduce((sum, { s }) => sum + Math.abs(s.closingTotal - s.actualTotal!), 0) / played.length
+    : null;
+
+  return {
+    intercept,
+    scale,
+    weather: { windPerMph, precipPerProb, coldPerDegree },
+    sampleSize: samples.length,
+    maeVsClose,
+    maeVsActual,
+    closeMaeVsActual,
+  };
+}
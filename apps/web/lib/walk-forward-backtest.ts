@@ -0,0 +1,429 @@
+/**
+ * Walk-Forward Backtest
+ *
+ * Replays a ruleset week by week across a season range. Each week is evaluated
+ * as of its first kickoff: matchup outputs, market lines, ratings, forecasts and
+ * hybrid bets created after that cutoff are invisible, so a week never sees data
+ * that only existed once it was being played. Bets are struck at the cutoff line
+ * and graded from final scores with flat staking.
+ */
+
+import { prisma } from './prisma';
+import { createdAsOf } from './as-of';
+import { loadMatchupOutputs } from './matchup-output-context';
+import { americanToDecimal, americanToProb } from './market-line-helpers';
+import { evaluateRule, RulesetParameters } from './ruleset-dsl';
+import {
+  STRATEGY_MODEL_VERSION,
+  buildGameFacts,
+  getRulesetModelTotal,
+  getRulesetMoneylinePick,
+  spreadLineMove,
+} from './strategy-facts';
+import { isStraightBet } from './tickets';
+
+export const DEFAULT_INITIAL_BANKROLL = 10000;
+export const DEFAULT_FLAT_STAKE = 100;
+const SPREAD_TOTAL_PRICE = -110;
+
+export type BacktestMarket = 'spread' | 'total' | 'moneyline';
+export type BacktestSide = 'home' | 'away' | 'over' | 'under';
+export type BacktestResult = 'win' | 'loss' | 'push';
+
+export interface WalkForwardConfig {
+  startSeason: number;
+  endSeason: number;
+  initialBankroll: number;
+  stake: number;
+}
+
+export interface BacktestBet {
+  gameId: string;
+  season: number;
+  week: number;
+  marketType: BacktestMarket;
+  side: BacktestSide;
+  /** Side-perspective spread, total points, or American price for moneyline */
+  line: number;
+  price: number;
+  closeLine: number | null;
+  edge: number;
+  stake: number;
+  result: BacktestResult | null;
+  pnl: number;
+  clv: number | null;
+}
+
+export interface BacktestWeek {
+  season: number;
+  week: number;
+  cutoff: Date;
+  bets: number;
+  wins: number;
+  losses: number;
+  pushes: number;
+  staked: number;
+  pnl: number;
+  bankroll: number;
+  drawdown: number;
+}
+
+export interface BacktestSummary {
+  totalBets: number;
+  wins: number;
+  losses: number;
+  pushes: number;
+  pending: number;
+  /** Fraction of decided bets won (pushes excluded) */
+  winRate: number;
+  /** Profit over amount staked on settled bets (fraction) */
+  roi: number;
+  /** Mean CLV (pts) over spread/total bets with a known close */
+  clv: number;
+  finalBankroll: number;
+  maxDrawdown: number;
+}
+
+export interface WalkForwardResult {
+  bets: BacktestBet[];
+  weeks: BacktestWeek[];
+  summary: BacktestSummary;
+}
+
+/**
+ * Grade a bet from the final score
+ *
+ * Spread `line` is from the bet side's perspective (home -3.5 = home laying 3.5).
+ * Moneyline `line` is the American price.
+ */
+export function gradeBacktestBet(
+  marketType: BacktestMarket,
+  side: BacktestSide,
+  line: number,
+  homeScore: number,
+  awayScore: number
+): BacktestResult {
+  let diff: number;
+  if (marketType === 'spread') {
+    const sideMargin = side === 'home' ? homeScore - awayScore : awayScore - homeScore;
+    diff = sideMargin + line;
+  } else if (marketType === 'total') {
+    const total = homeScore + awayScore;
+    diff = side === 'over' ? total - line : line - total;
+  } else {
+    const sideMargin = side === 'home' ? homeScore - awayScore : awayScore - homeScore;
+    diff = sideMargin;
+  }
+
+  if (diff === 0) return 'push';
+  return diff > 0 ? 'win' : 'loss';
+}
+
+/**
+ * Profit/loss for a settled bet at an American price
+ */
+export function betPnl(result: BacktestResult | null, stake: number, price: number): number {
+  if (result === 'win') return stake * (americanToDecimal(price) - 1);
+  if (result === 'loss') return -stake;
+  return 0;
+}
+
+/**
+ * Closing line value, positive = the bet beat the close
+ * Spread/total in points; moneyline in implied probability.
+ */
+export function closingLineValue(
+  marketType: BacktestMarket,
+  side: BacktestSide,
+  line: number,
+  closeLine: number | null
+): number | null {
+  if (closeLine === null) return null;
+  if (marketType === 'spread') return line - closeLine;
+  if (marketType === 'total') return side === 'over' ? closeLine - line : line - closeLine;
+
+  const betProb = americanToProb(line);
+  const closeProb = americanToProb(closeLine);
+  return betProb !== null && closeProb !== null ? closeProb - betProb : null;
+}
+
+/**
+ * Settle bets into the per-week bankroll curve and run summary
+ * `weekCutoffs` lists every replayed week in order, so weeks without bets still
+ * appear as flat points on the curve.
+ */
+export function buildBankrollCurve(
+  bets: BacktestBet[],
+  weekCutoffs: Array<{ season: number; week: number; cutoff: Date }>,
+  initialBankroll: number
+): { weeks: BacktestWeek[]; summary: BacktestSummary } {
+  let bankroll = initialBankroll;
+  let peak = initialBankroll;
+  let maxDrawdown = 0;
+
+  const weeks: BacktestWeek[] = weekCutoffs.map(({ season, week, cutoff }) => {
+    const weekBets = bets.filter(bet => bet.season === season && bet.week === week);
+    const settled = weekBets.filter(bet => bet.result !== null);
+    const pnl = weekBets.reduce((sum, bet) => sum + bet.pnl, 0);
+
+    bankroll += pnl;
+    peak = Math.max(peak, bankroll);
+    const drawdown = peak - bankroll;
+    maxDrawdown = Math.max(maxDrawdown, drawdown);
+
+    return {
+      season,
+      week,
+      cutoff,
+      bets: weekBets.length,
+      wins: settled.filter(bet => bet.result === 'win').length,
+      losses: settled.filter(bet => bet.result === 'loss').length,
+      pushes: settled.filter(bet => bet.result === 'push').length,
+      staked: settled.reduce((sum, bet) => sum + bet.stake, 0),
+      pnl,
+      bankroll,
+      drawdown,
+    };
+  });
+
+  const wins = weeks.reduce((sum, w) => sum + w.wins, 0);
+  const losses = weeks.reduce((sum, w) => sum + w.losses, 0);
+  const pushes = weeks.reduce((sum, w) => sum + w.pushes, 0);
+  const staked = weeks.reduce((sum, w) => sum + w.staked, 0);
+  const pointClvs = bets
+    .filter(bet => bet.marketType !== 'moneyline' && bet.clv !== null)
+    .map(bet => bet.clv as number);
+
+  return {
+    weeks,
+    summary: {
+      totalBets: bets.length,
+      wins,
+      losses,
+      pushes,
+      pending: bets.length - wins - losses - pushes,
+      winRate: wins + losses > 0 ? wins / (wins + losses) : 0,
+      roi: staked > 0 ? (bankroll - initialBankroll) / staked : 0,
+      clv: pointClvs.length > 0 ? pointClvs.reduce((sum, v) => sum + v, 0) / pointClvs.length : 0,
+      finalBankroll: bankroll,
+      maxDrawdown,
+    },
+  };
+}
+
+/**
+ * Latest spread quote at or before `cutoff`, in the matchup frame (negative = home favored)
+ * Spread lines are stored per team, so the away side's number is flipped. Lines
+ * without a team can't be oriented and are ignored.
+ */
+function homeSpreadAt(
+  lines: Array<{ lineType: string; teamId: string | null; lineValue: number; timestamp: Date }>,
+  homeTeamId: string,
+  awayTeamId: string,
+  cutoff: Date
+): number | null {
+  const latest = lines
+    .filter(line => line.lineType === 'spread' && (line.teamId === homeTeamId || line.teamId === awayTeamId))
+    .filter(line => new Date(line.timestamp).getTime() <= cutoff.getTime())
+    .sort((a, b) => new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime())[0];
+  if (!latest) return null;
+  return latest.teamId === homeTeamId ? Number(latest.lineValue) : -Number(latest.lineValue);
+}
+
+/**
+ * Latest quote of a line type at or before `cutoff` (optionally for one team)
+ */
+function lineValueAt(
+  lines: Array<{ lineType: string; teamId: string | null; lineValue: number; timestamp: Date }>,
+  lineType: string,
+  cutoff: Date,
+  teamId?: string
+): number | null {
+  const latest = lines
+    .filter(line => line.lineType === lineType && (teamId === undefined || line.teamId === teamId))
+    .filter(line => new Date(line.timestamp).getTime() <= cutoff.getTime())
+    .sort((a, b) => new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime())[0];
+  return latest ? Number(latest.lineValue) : null;
+}
+
+/**
+ * Replay `params` across the configured seasons, one week at a time
+ */
+export async function runWalkForwardBacktest(
+  params: RulesetParameters,
+  config: WalkForwardConfig
+): Promise<WalkForwardResult> {
+  const markets = params.markets as string[];
+
+  const schedule = await prisma.game.findMany({
+    where: { season: { gte: config.startSeason, lte: config.endSeason } },
+    select: { season: true, week: true, date: true },
+    orderBy: [{ season: 'asc' }, { week: 'asc' }, { date: 'asc' }],
+  });
+
+  // Each week is frozen at its first kickoff
+  const weekCutoffs: Array<{ season: number; week: number; cutoff: Date }> = [];
+  for (const game of schedule) {
+    const last = weekCutoffs[weekCutoffs.length - 1];
+    if (!last || last.season !== game.season || last.week !== game.week) {
+      weekCutoffs.push({ season: game.season, week: game.week, cutoff: new Date(game.date) });
+    }
+  }
+
+  const bets: BacktestBet[] = [];
+
+  for (const { season, week, cutoff } of weekCutoffs) {
+    const games = await prisma.game.findMany({
+      where: { season, week },
+      include: {
+        homeTeam: true,
+        awayTeam: true,
+        weather: true,
+        // Closing quotes are needed for CLV; the cutoff filter below keeps them out of selection
+        marketLines: true,
+      },
+      orderBy: { date: 'asc' },
+    });
+    // Outputs are upserted in place, so they are replayed from their snapshots as of the cutoff
+    const matchupOutputs = await loadMatchupOutputs(games.map((game: { id: string }) => game.id), STRATEGY_MODEL_VERSION, cutoff);
+
+    const hybridBets = await prisma.bet.findMany({
+      where: {
+        season,
+        week,
+        strategyTag: 'hybrid_v2',
+        marketType: 'spread',
+        ...createdAsOf(cutoff),
+      },
+      select: { gameId: true, hybridConflictType: true },
+    });
+    const conflictTypeByGame = new Map<string, string | null>(
+      hybridBets.filter(isStraightBet).map((bet: { gameId: string; hybridConflictType: string | null }) => [bet.gameId, bet.hybridConflictType])
+    );
+
+    const candidates: Array<{ maxEdge: number; bets: BacktestBet[] }> = [];
+
+    for (const game of games) {
+      const matchupOutput = matchupOutputs.get(game.id);
+      if (!matchupOutput) continue;
+
+      // Same visibility rule as marketLineAsOf: quoted and ingested by the cutoff
+      const visibleLines = game.marketLines.filter(
+        (line: any) => new Date(line.timestamp) <= cutoff && new Date(line.createdAt) <= cutoff
+      );
+
+      const impliedSpread = Number(matchupOutput.impliedSpread);
+      // Totals V2 as of the cutoff; the stored matchup total is the fallback
+      const totalsV2Total = markets.includes('total') ? await getRulesetModelTotal(season, game, cutoff) : null;
+      const impliedTotal = totalsV2Total ?? Number(matchupOutput.impliedTotal);
+      const marketSpread = Number(matchupOutput.marketSpread);
+      const marketTotal = Number(matchupOutput.marketTotal);
+
+      const mlPick = markets.includes('moneyline')
+        ? await getRulesetMoneylinePick(season, game, visibleLines, cutoff)
+        : null;
+      const moneylineEdge = mlPick?.ev != null ? mlPick.ev * 100 : null;
+
+      // Forecasts fetched after the cutoff weren't available yet
+      const forecast = game.weather && new Date(game.weather.forecastTime) <= cutoff ? game.weather : null;
+
+      const { facts, spreadEdge, totalEdge, maxEdge } = buildGameFacts({
+        game,
+        markets,
+        impliedSpread,
+        impliedTotal,
+        marketSpread,
+        marketTotal,
+        hasSpreadLine: visibleLines.some((line: any) => line.lineType === 'spread'),
+        confidence: matchupOutput.edgeConfidence,
+        moneylineEdge,
+        windMph: forecast ? Number(forecast.windSpeed) : null,
+        lineMove: spreadLineMove(visibleLines),
+        hybridConflictType: conflictTypeByGame.get(game.id) ?? null,
+      });
+
+      if (!evaluateRule(params.rules, facts)) continue;
+
+      const isFinal = game.status === 'final' && game.homeScore !== null && game.awayScore !== null;
+      const kickoff = new Date(game.date);
+      const gameBets: BacktestBet[] = [];
+
+      const place = (
+        marketType: BacktestMarket,
+        side: BacktestSide,
+        line: number,
+        price: number,
+        closeLine: number | null,
+        edge: number
+      ) => {
+        const result = isFinal ? gradeBacktestBet(marketType, side, line, game.homeScore!, game.awayScore!) : null;
+        gameBets.push({
+          gameId: game.id,
+          season,
+          week,
+          marketType,
+          side,
+          line,
+          price,
+          closeLine,
+          edge,
+          stake: config.stake,
+          result,
+          pnl: betPnl(result, config.stake, price),
+          clv: closingLineValue(marketType, side, line, closeLine),
+        });
+      };
+
+      if (markets.includes('spread') && impliedSpread !== marketSpread) {
+        // Matchup frame: model below market means more home-favored than the book
+        const side: BacktestSide = impliedSpread < marketSpread ? 'home' : 'away';
+        const closeHome = homeSpreadAt(game.marketLines, game.homeTeamId, game.awayTeamId, kickoff);
+        place(
+          'spread',
+          side,
+          side === 'home' ? marketSpread : -marketSpread,
+          SPREAD_TOTAL_PRICE,
+          closeHome === null ? null : side === 'home' ? closeHome : -closeHome,
+          spreadEdge
+        );
+      }
+
+      if (markets.includes('total') && impliedTotal !== marketTotal) {
+        place(
+          'total',
+          impliedTotal > marketTotal ? 'over' : 'under',
+          marketTotal,
+          SPREAD_TOTAL_PRICE,
+          lineValueAt(game.marketLines, 'total', kickoff),
+          totalEdge
+        );
+      }
+
+      if (mlPick?.side && mlPick.price !== null && mlPick.recommendedTeamId && moneylineEdge !== null && moneylineEdge > 0) {
+        place(
+          'moneyline',
+          mlPick.side,
+          mlPick.price,
+          mlPick.price,
+          lineValueAt(game.marketLines, 'moneyline', kickoff, mlPick.recommendedTeamId),
+          moneylineEdge
+        );
+      }
+
+      if (gameBets.length > 0) {
+        candidates.push({ maxEdge, bets: gameBets });
+      }
+    }
+
+    // Same cap as the weekly run: keep the top N games by max edge
+    const selected = params.maxGamesPerWeek && candidates.length > params.maxGamesPerWeek
+      ? [...candidates].sort((a, b) => b.maxEdge - a.maxEdge).slice(0, params.maxGamesPerWeek)
+      : candidates;
+    for (const candidate of selected) {
+      bets.push(...candidate.bets);
+    }
+  }
+
+  const { weeks, summary } = buildBankrollCurve(bets, weekCutoffs, config.initialBankroll);
+  return { bets, weeks, summary };
+}
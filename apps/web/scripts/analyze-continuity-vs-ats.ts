@@ -9,6 +9,7 @@
  */
 
 import { prisma } from '../lib/prisma';
+import { isStraightBet } from '../lib/tickets';
 
 interface BetWithContinuity {
   id: string;
@@ -199,7 +200,7 @@ async function main() {
   const betsWithContinuity: BetWithContinuity[] = [];
   let skipped = 0;
 
-  for (const bet of betsRaw) {
+  for (const bet of betsRaw.filter(isStraightBet)) {
     // Determine bet team and opponent
     const betTeamId = bet.side === 'home' ? bet.game.homeTeamId : bet.game.awayTeamId;
     const oppTeamId = bet.side === 'home' ? bet.game.awayTeamId : bet.game.homeTeamId;
@@ -10,6 +10,7 @@
  */
 
 import { prisma } from '../lib/prisma';
+import { isStraightBet } from '../lib/tickets';
 
 interface BetRecord {
   id: string;
@@ -172,7 +173,7 @@ async function analyzeSeason(season: number): Promise<void> {
   });
 
   // Convert to BetRecord with calculated edge
-  const bets: BetRecord[] = betsRaw.map(bet => {
+  const bets: BetRecord[] = betsRaw.filter(isStraightBet).map(bet => {
     const modelPrice = Number(bet.modelPrice);
     const closePrice = bet.closePrice ? Number(bet.closePrice) : null;
     const edgePts = closePrice !== null ? Math.abs(modelPrice - closePrice) : null;
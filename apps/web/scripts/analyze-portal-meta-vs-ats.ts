@@ -10,6 +10,7 @@
  */
 
 import { prisma } from '../lib/prisma';
+import { isStraightBet } from '../lib/tickets';
 
 interface BetWithPortalMeta {
   id: string;
@@ -165,7 +166,7 @@ async function main() {
   const betsWithMeta: BetWithPortalMeta[] = [];
   let missingMetaCount = 0;
 
-  for (const bet of betsRaw) {
+  for (const bet of betsRaw.filter(isStraightBet)) {
     // Determine bet team ID
     const betTeamId = bet.side === 'home' ? bet.game.homeTeamId : bet.game.awayTeamId;
     
@@ -9,6 +9,7 @@
  */
 
 import { prisma } from '../lib/prisma';
+import { isStraightBet } from '../lib/tickets';
 import { BetSide, BetResult } from '@prisma/client';
 
 interface BetRecord {
@@ -163,6 +164,7 @@ async function analyzeStability(season: number): Promise<void> {
 
   // Filter to only bets with |edge| >= 4.0
   const bets: BetRecord[] = betsRaw
+    .filter(isStraightBet)
     .map(bet => {
       const modelPrice = Number(bet.modelPrice);
       const closePrice = bet.closePrice ? Number(bet.closePrice) : null;
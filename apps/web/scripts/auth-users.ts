@@ -0,0 +1,99 @@
+/**
+ * Auth Users CLI
+ *
+ * Bootstraps users and API tokens (lib/auth.ts) from the command line, e.g. the
+ * first admin before anyone can sign in, or a token for a workflow.
+ *
+ * Usage:
+ *   npx tsx apps/web/scripts/auth-users.ts list
+ *   npx tsx apps/web/scripts/auth-users.ts create --email you@example.com --role admin [--name "You"] [--password ...]
+ *   npx tsx apps/web/scripts/auth-users.ts set-role --email you@example.com --role bettor
+ *   npx tsx apps/web/scripts/auth-users.ts password --email you@example.com [--password ...]
+ *   npx tsx apps/web/scripts/auth-users.ts token --email you@example.com --name weekly-import [--days 90]
+ *
+ * Without --password a random password is generated and printed once. Tokens
+ * are printed once; only their hash is stored.
+ */
+
+import { randomBytes } from 'crypto';
+import { prisma } from '../lib/prisma';
+import { MIN_PASSWORD_LENGTH, ROLES, isRole, normalizeEmail } from '../lib/auth';
+import { createApiToken, createUser, listUsers, updateUser } from '../lib/auth-context';
+
+function parseArgs() {
+  const [command = 'list', ...rest] = process.argv.slice(2);
+  const options: Record<string, string> = {};
+  for (let i = 0; i < rest.length; i++) {
+    if (rest[i].startsWith('--') && rest[i + 1] !== undefined) {
+      options[rest[i].slice(2)] = rest[++i];
+    }
+  }
+  return { command, options };
+}
+
+function required(options: Record<string, string>, name: string): string {
+  const value = options[name];
+  if (!value) throw new Error(`--${name} is required`);
+  return value;
+}
+
+function role(options: Record<string, string>) {
+  const value = required(options, 'role');
+  if (!isRole(value)) throw new Error(`Invalid role: ${value} (expected ${ROLES.join(', ')})`);
+  return value;
+}
+
+function password(options: Record<string, string>): { password: string; generated: boolean } {
+  if (options.password) {
+    if (options.password.length < MIN_PASSWORD_LENGTH) {
+      throw new Error(`Password must be at least ${MIN_PASSWORD_LENGTH} characters`);
+    }
+    return { password: options.password, generated: false };
+  }
+  return { password: randomBytes(12).toString('base64url'), generated: true };
+}
+
+async function userId(email: string): Promise<string> {
+  const user = await prisma.user.findUnique({ where: { email: normalizeEmail(email) }, select: { id: true } });
+  if (!user) throw new Error(`No user with email ${email}`);
+  return user.id;
+}
+
+async function main() {
+  const { command, options } = parseArgs();
+
+  if (command === 'list') {
+    for (const user of await listUsers()) {
+      console.log(`${user.email.padEnd(32)} ${user.role.padEnd(7)} ${user.disabled ? 'disabled' : ''}`);
+    }
+  } else if (command === 'create') {
+    const email = required(options, 'email');
+    const { password: value, generated } = password(options);
+    const user = await createUser({ email, name: options.name ?? null, role: role(options), password: value });
+    if (!user) throw new Error(`A user with email ${email} already exists`);
+    console.log(`✅ Created ${user.email} (${user.role})`);
+    if (generated) console.log(`   password: ${value}`);
+  } else if (command === 'set-role') {
+    const user = await updateUser(await userId(required(options, 'email')), { role: role(options) });
+    console.log(`✅ ${user!.email} is now ${user!.role}`);
+  } else if (command === 'password') {
+    const { password: value, generated } = password(options);
+    const user = await updateUser(await userId(required(options, 'email')), { password: value });
+    console.log(`✅ Password set for ${user!.email}; existing sessions were signed out`);
+    if (generated) console.log(`   password: ${value}`);
+  } else if (command === 'token') {
+    const days = options.days ? parseInt(options.days, 10) : null;
+    const { token, apiToken } = await createApiToken(await userId(required(options, 'email')), required(options, 'name'), days);
+    console.log(`✅ Token "${apiToken.name}"${apiToken.expiresAt ? ` (expires ${apiToken.expiresAt})` : ''}`);
+    console.log(`   ${token}`);
+  } else {
+    throw new Error(`Unknown command: ${command} (expected list, create, set-role, password or token)`);
+  }
+}
+
+main()
+  .catch(error => {
+    console.error(error instanceof Error ? error.message : error);
+    process.exitCode = 1;
+  })
+  .finally(() => prisma.$disconnect());
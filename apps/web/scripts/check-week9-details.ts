@@ -3,6 +3,7 @@
  */
 
 import { prisma } from '../lib/prisma';
+import { STRAIGHT_BET_WHERE, isStraightBet } from '../lib/tickets';
 
 async function checkDetails() {
   // Check model version
@@ -19,6 +20,7 @@ async function checkDetails() {
       week: 9,
       strategyTag: 'official_flat_100',
       result: null,
+      ...STRAIGHT_BET_WHERE,
     },
     include: {
       game: {
@@ -30,7 +32,7 @@ async function checkDetails() {
     },
   });
 
-  if (ungraded) {
+  if (ungraded && isStraightBet(ungraded)) {
     console.log('\nUngraded bet:');
     console.log('  Game:', ungraded.game.id);
     console.log('  Matchup:', `${ungraded.game.awayTeam.name} @ ${ungraded.game.homeTeam.name}`);
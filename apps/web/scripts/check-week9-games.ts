@@ -3,17 +3,19 @@
  */
 
 import { prisma } from '../lib/prisma';
+import { STRAIGHT_BET_WHERE, isStraightBet } from '../lib/tickets';
 
 async function checkWeek9() {
   console.log('\n🔍 Checking Week 9 games and bets...\n');
 
   // Get ungraded bets
-  const ungradedBets = await prisma.bet.findMany({
+  const ungradedRows = await prisma.bet.findMany({
     where: {
       season: 2025,
       week: 9,
       result: null,
       source: 'strategy_run',
+      ...STRAIGHT_BET_WHERE,
     },
     include: {
       game: {
@@ -29,6 +31,7 @@ async function checkWeek9() {
       },
     },
   });
+  const ungradedBets = ungradedRows.filter(isStraightBet);
 
   console.log(`Found ${ungradedBets.length} ungraded bets\n`);
 
@@ -65,7 +65,7 @@ async function cleanupDemoBets(dryRun: boolean = true) {
   // Show sample bets
   console.log('Sample bets (first 10):');
   for (const bet of demoBets.slice(0, 10)) {
-    const gameName = `${bet.game.awayTeam.name} @ ${bet.game.homeTeam.name}`;
+    const gameName = bet.game ? `${bet.game.awayTeam.name} @ ${bet.game.homeTeam.name}` : '(parlay/teaser)';
     console.log(`  ${bet.id.substring(0, 8)}... | ${bet.season} W${bet.week} | ${bet.strategyTag} | ${gameName}`);
   }
   if (demoBets.length > 10) {
@@ -8,6 +8,7 @@
  */
 
 import { prisma } from '../lib/prisma';
+import { isStraightBet } from '../lib/tickets';
 
 async function debugWeekGrading(season: number, week: number) {
   console.log(`\n📊 Grading status for ${season} Week ${week}\n`);
@@ -73,7 +74,7 @@ async function debugWeekGrading(season: number, week: number) {
 
   // Count games with scores
   const gamesWithScores = new Set<string>();
-  for (const bet of allBets) {
+  for (const bet of allBets.filter(isStraightBet)) {
     if (bet.game?.homeScore !== null && bet.game?.awayScore !== null) {
       gamesWithScores.add(bet.gameId);
     }
@@ -9,6 +9,7 @@
  */
 
 import { prisma } from '../lib/prisma';
+import { isStraightBet } from '../lib/tickets';
 
 interface BetWithGame {
   id: string;
@@ -113,7 +114,7 @@ async function exportPlaybookCard(season: number, week: number, csv: boolean): P
   console.log(`\nFound ${bets.length} Hybrid V2 spread bets\n`);
 
   // Calculate edge and tier for each bet
-  const betsWithTier = bets.map(bet => {
+  const betsWithTier = bets.filter(isStraightBet).map(bet => {
     const modelPrice = Number(bet.modelPrice);
     const closePrice = bet.closePrice ? Number(bet.closePrice) : null;
     const edge = closePrice !== null ? modelPrice - closePrice : null;
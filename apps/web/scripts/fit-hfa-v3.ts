@@ -0,0 +1,208 @@
+/**
+ * HFA v3 Fitting Script
+ *
+ * Fits the component HFA model (see lib/hfa-model.ts) for a season and stores it in
+ * hfa_season_params, where the spread helpers pick it up.
+ *
+ * Methodology:
+ * - Train on FBS regular-season, non-neutral games from the seasons before --season
+ *   (walk-forward: a season's HFA never sees its own results)
+ * - residual = actualMargin - modelFairSpreadWithoutHfa (Core V1 on V2 ratings, HFA = 0)
+ * - Ridge regression of residual on travel, time zones, altitude, rest diff and crowd,
+ *   with an unpenalized base; shrunk per-team adjustments on what's left
+ *
+ * Usage:
+ *   npx tsx scripts/fit-hfa-v3.ts --season 2025
+ *   npx tsx scripts/fit-hfa-v3.ts --season 2025 --train-seasons 2023,2024 --lambda 10 --dry-run
+ */
+
+import { prisma } from '../lib/prisma';
+import {
+  computeCoreV1Spread,
+  computeRatingDiffBlend,
+} from '../lib/core-v1-spread';
+import {
+  HFA_FEATURES,
+  HfaFitSample,
+  computeHfaFeatures,
+  fitHfaParams,
+} from '../lib/hfa-model';
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+function parseArgs() {
+  const args = process.argv.slice(2);
+  let season: number | null = null;
+  let trainSeasons: number[] = [];
+  let ridgeLambda = 10;
+  let dryRun = false;
+
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+    if (arg === '--season' && i + 1 < args.length) {
+      season = parseInt(args[++i], 10);
+    } else if (arg === '--train-seasons' && i + 1 < args.length) {
+      trainSeasons = args[++i].split(',').map(s => parseInt(s, 10));
+    } else if (arg === '--lambda' && i + 1 < args.length) {
+      ridgeLambda = parseFloat(args[++i]);
+    } else if (arg === '--dry-run') {
+      dryRun = true;
+    }
+  }
+
+  return { season, trainSeasons, ridgeLambda, dryRun };
+}
+
+/**
+ * Days since each team's previous game, keyed by `${gameId}|${teamId}`
+ */
+function buildRestDays(games: Array<{ id: string; date: Date; homeTeamId: string; awayTeamId: string }>): Map<string, number | null> {
+  const rest = new Map<string, number | null>();
+  const lastPlayed = new Map<string, Date>();
+  const sorted = [...games].sort((a, b) => a.date.getTime() - b.date.getTime());
+  for (const game of sorted) {
+    for (const teamId of [game.homeTeamId, game.awayTeamId]) {
+      const last = lastPlayed.get(teamId);
+      rest.set(`${game.id}|${teamId}`, last ? Math.round((game.date.getTime() - last.getTime()) / MS_PER_DAY) : null);
+      lastPlayed.set(teamId, game.date);
+    }
+  }
+  return rest;
+}
+
+async function main() {
+  const { season, trainSeasons: requestedSeasons, ridgeLambda, dryRun } = parseArgs();
+  if (!season) {
+    console.error('Usage: fit-hfa-v3 --season <year> [--train-seasons 2023,2024] [--lambda 10] [--dry-run]');
+    process.exit(1);
+  }
+
+  console.log('🏟️  HFA v3 Fitting Script');
+  console.log('==========================\n');
+
+  let trainSeasons = requestedSeasons;
+  if (trainSeasons.length === 0) {
+    const available = await prisma.gameTrainingRow.groupBy({ by: ['season'] });
+    trainSeasons = available.map((s: any) => s.season).filter((s: number) => s < season).sort();
+  }
+  if (trainSeasons.length === 0) {
+    throw new Error(`No training seasons before ${season}`);
+  }
+  console.log(`Fitting ${season} HFA on seasons: ${trainSeasons.join(', ')}\n`);
+
+  const teams = await prisma.team.findMany({ select: { id: true, state: true, conference: true } });
+  const teamsById = new Map<string, any>(teams.map((t: any) => [t.id, t]));
+
+  const samples: HfaFitSample[] = [];
+  let skipped = 0;
+
+  for (const trainSeason of trainSeasons) {
+    const fbs = new Set(
+      (await prisma.teamMembership.findMany({ where: { season: trainSeason, level: 'fbs' }, select: { teamId: true } }))
+        .map((m: any) => m.teamId)
+    );
+    const allGames = await prisma.game.findMany({
+      where: { season: trainSeason },
+      select: { id: true, date: true, homeTeamId: true, awayTeamId: true },
+    });
+    const restDays = buildRestDays(allGames);
+
+    const ratings = await prisma.teamSeasonRating.findMany({
+      where: { season: trainSeason, modelVersion: 'v2' },
+    });
+    const ratingByTeam = new Map<string, number>(
+      ratings.map((r: any) => [r.teamId, Number(r.powerRating || r.rating || 0)])
+    );
+
+    const games = await prisma.game.findMany({
+      where: {
+        season: trainSeason,
+        week: { gte: 1, lte: 13 },
+        neutralSite: false,
+        status: 'final',
+        homeScore: { not: null },
+        awayScore: { not: null },
+      },
+    });
+
+    for (const game of games) {
+      if (!fbs.has(game.homeTeamId) || !fbs.has(game.awayTeamId)) continue;
+      const homeV2 = ratingByTeam.get(game.homeTeamId);
+      const awayV2 = ratingByTeam.get(game.awayTeamId);
+      if (homeV2 === undefined || awayV2 === undefined) {
+        skipped++;
+        continue;
+      }
+
+      const ratingDiffBlend = computeRatingDiffBlend(game.homeTeamId, game.awayTeamId, homeV2, awayV2);
+      const spreadWithoutHfa = computeCoreV1Spread(ratingDiffBlend, 0.0);
+      const residual = (game.homeScore! - game.awayScore!) - spreadWithoutHfa;
+
+      const home = teamsById.get(game.homeTeamId);
+      const away = teamsById.get(game.awayTeamId);
+      const { features } = computeHfaFeatures({
+        homeTeamId: game.homeTeamId,
+        awayTeamId: game.awayTeamId,
+        neutralSite: false,
+        homeState: home?.state ?? null,
+        awayState: away?.state ?? null,
+        homeConference: home?.conference ?? null,
+        homeRestDays: restDays.get(`${game.id}|${game.homeTeamId}`) ?? null,
+        awayRestDays: restDays.get(`${game.id}|${game.awayTeamId}`) ?? null,
+      });
+
+      samples.push({ homeTeamId: game.homeTeamId, features, residual });
+    }
+    console.log(`  Season ${trainSeason}: ${games.length} candidate games`);
+  }
+
+  console.log(`\nUsing ${samples.length} games (${skipped} skipped for missing ratings)\n`);
+
+  const fit = fitHfaParams(samples, { ridgeLambda });
+  const { params } = fit;
+
+  console.log('📊 Fitted parameters:');
+  console.log(`  Base HFA: ${params.baseHfaPoints.toFixed(2)} pts`);
+  for (const feature of HFA_FEATURES) {
+    console.log(`  ${feature.padEnd(8)} ${params.coefficients[feature] >= 0 ? '+' : ''}${params.coefficients[feature].toFixed(3)}`);
+  }
+  console.log(`  Team adjustments: ${Object.keys(params.teamAdjustments).length}`);
+  console.log(`  RMSE: ${fit.rmse.toFixed(3)} (base only: ${fit.baseOnlyRmse.toFixed(3)})\n`);
+
+  if (dryRun) {
+    console.log('🔍 Dry run - not saved');
+    return;
+  }
+
+  const data = {
+    baseHfaPoints: params.baseHfaPoints,
+    travelCoef: params.coefficients.travel,
+    timezoneCoef: params.coefficients.timezone,
+    altitudeCoef: params.coefficients.altitude,
+    restCoef: params.coefficients.rest,
+    crowdCoef: params.coefficients.crowd,
+    clipMin: params.clipMin,
+    clipMax: params.clipMax,
+    teamAdjustments: params.teamAdjustments as any,
+    sampleSize: fit.sampleSize,
+    rmse: fit.rmse,
+    baseOnlyRmse: fit.baseOnlyRmse,
+    trainedSeasons: trainSeasons,
+  };
+  await prisma.hfaSeasonParams.upsert({
+    where: { season },
+    create: { season, ...data },
+    update: data,
+  });
+
+  console.log(`✅ HFA v3 params saved for ${season}`);
+}
+
+main()
+  .catch((error) => {
+    console.error('❌ Fitting failed:', error);
+    process.exit(1);
+  })
+  .finally(async () => {
+    await prisma.$disconnect();
+  });
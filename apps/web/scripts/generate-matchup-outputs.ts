@@ -186,7 +186,7 @@ async function generateWeek(season: number, week: number): Promise<{
 
       // Upsert matchup output
       // Note: When creating, we need to connect the game relation
-      await prisma.matchupOutput.upsert({
+      const output = await prisma.matchupOutput.upsert({
         where: {
           gameId_modelVersion: {
             gameId: game.id,
@@ -217,6 +217,10 @@ async function generateWeek(season: number, week: number): Promise<{
         },
       });
 
+      // Append-only copy for asOf replays (see apps/jobs/lib/row-snapshots.ts)
+      const { id, createdAt, updatedAt, ...snapshot } = output;
+      await prisma.matchupOutputSnapshot.create({ data: { ...snapshot, matchupOutputId: id } });
+
       // Track created vs updated
       if (existedBefore) {
         updated++;
@@ -3,6 +3,7 @@
  */
 
 import { prisma } from '../lib/prisma';
+import { STRAIGHT_BET_WHERE, isStraightBet } from '../lib/tickets';
 
 async function investigateWeek12Bet() {
   console.log('\n🔍 Investigating Week 12 ungraded bet...\n');
@@ -14,6 +15,7 @@ async function investigateWeek12Bet() {
       week: 12,
       result: null,
       source: 'strategy_run',
+      ...STRAIGHT_BET_WHERE,
     },
     include: {
       game: {
@@ -28,7 +30,7 @@ async function investigateWeek12Bet() {
     },
   });
 
-  if (!bet) {
+  if (!bet || !isStraightBet(bet)) {
     console.log('No ungraded bet found for Week 12');
     await prisma.$disconnect();
     return;
@@ -3,6 +3,7 @@
  */
 
 import { prisma } from '../lib/prisma';
+import { STRAIGHT_BET_WHERE, isStraightBet } from '../lib/tickets';
 
 async function investigate() {
   console.log('🔍 Week 9 Investigation\n');
@@ -74,6 +75,7 @@ async function investigate() {
       week: 9,
       strategyTag: 'official_flat_100',
       result: null,
+      ...STRAIGHT_BET_WHERE,
     },
     include: {
       game: {
@@ -86,7 +88,7 @@ async function investigate() {
   });
 
   console.log(`\nUngraded bets: ${ungradedBets.length}`);
-  ungradedBets.forEach((bet) => {
+  ungradedBets.filter(isStraightBet).forEach((bet) => {
     console.log(
       `  ${bet.game.awayTeam.name} @ ${bet.game.homeTeam.name} - ${bet.marketType} ${bet.side}`
     );
@@ -0,0 +1,111 @@
+/**
+ * Futures Loader
+ *
+ * Loads season win-total and conference-winner prices from a local CSV or JSON
+ * file into FuturesMarket (there is no live futures feed). /api/futures and the
+ * futures page compare them with the latest season simulation.
+ *
+ * File format (CSV header or JSON array of objects, one line per row):
+ *   season, team, market (win_total | conference_winner), line, over_price,
+ *   under_price, price, book, captured_at, conference
+ * `team` may be a team id or name; season/captured_at/conference are optional.
+ *
+ * Usage:
+ *   npx tsx scripts/load-futures.ts --season 2025 --file futures.csv [--book <name>] [--captured-at <iso>] [--dry-run]
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import Papa from 'papaparse';
+import { prisma } from '../lib/prisma';
+import { parseFuturesRecords } from '../lib/futures';
+import { saveFuturesRows } from '../lib/futures-context';
+
+function parseArgs() {
+  const args = process.argv.slice(2);
+  let season: number | null = null;
+  let file: string | null = null;
+  let book: string | null = null;
+  let capturedAt: Date = new Date();
+  let dryRun = false;
+
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+    if (arg === '--season' && i + 1 < args.length) {
+      season = parseInt(args[++i], 10);
+    } else if (arg === '--file' && i + 1 < args.length) {
+      file = args[++i];
+    } else if (arg === '--book' && i + 1 < args.length) {
+      book = args[++i];
+    } else if (arg === '--captured-at' && i + 1 < args.length) {
+      capturedAt = new Date(args[++i]);
+    } else if (arg === '--dry-run') {
+      dryRun = true;
+    }
+  }
+
+  return { season, file, book, capturedAt, dryRun };
+}
+
+/**
+ * Raw records from a CSV (header row) or JSON (array, or { lines: [...] }) file
+ */
+function readRecords(file: string): Array<Record<string, unknown>> {
+  const text = fs.readFileSync(file, 'utf8');
+  if (path.extname(file).toLowerCase() === '.json') {
+    const parsed = JSON.parse(text);
+    return Array.isArray(parsed) ? parsed : parsed.lines ?? [];
+  }
+  const result = Papa.parse<Record<string, string>>(text, {
+    header: true,
+    skipEmptyLines: true,
+    transformHeader: (h: string) => h.trim().toLowerCase(),
+  });
+  if (result.errors.length > 0) {
+    throw new Error(`CSV parse error: ${result.errors[0].message} (row ${result.errors[0].row})`);
+  }
+  return result.data;
+}
+
+async function main() {
+  const { season, file, book, capturedAt, dryRun } = parseArgs();
+  if (!season || !file) {
+    console.error('Usage: load-futures --season <year> --file <path.csv|path.json> [--book <name>] [--captured-at <iso>] [--dry-run]');
+    process.exit(1);
+  }
+  if (isNaN(capturedAt.getTime())) {
+    console.error('--captured-at must be an ISO date');
+    process.exit(1);
+  }
+
+  console.log(`📥 Loading ${season} futures from ${file}...\n`);
+  // --book fills in rows that don't name one
+  const records = readRecords(file).map(r => (book && !r.book ? { ...r, book } : r));
+  const { rows, errors } = parseFuturesRecords(records);
+  for (const error of errors) console.warn(`   ⚠️  ${error}`);
+
+  const { saved, skipped } = await saveFuturesRows(season, rows, {
+    source: path.basename(file),
+    capturedAt,
+    dryRun,
+  });
+  for (const reason of skipped) console.warn(`   ⚠️  ${reason}`);
+
+  const winTotals = rows.filter(r => r.marketType === 'win_total').length;
+  console.log(`\n   ${records.length} rows: ${winTotals} win totals, ${rows.length - winTotals} conference winners`);
+  console.log(`   ${errors.length} invalid, ${skipped.length} skipped`);
+  if (dryRun) {
+    console.log(`\n🔍 Dry run - ${saved} rows would be written`);
+    return;
+  }
+  console.log(`\n💾 Saved ${saved} FuturesMarket rows`);
+}
+
+main()
+  .catch((error) => {
+    console.error('❌ Futures load failed:', error);
+    process.exit(1);
+  })
+  .finally(async () => {
+    await prisma.$disconnect();
+  });
@@ -0,0 +1,110 @@
+/**
+ * Model Registry CLI
+ *
+ * Registers Core V1 spread models in ModelCalibration and picks the active one per
+ * season (see lib/model-registry.ts). Routes pick up an activation within a minute,
+ * no redeploy needed.
+ *
+ * Artifacts JSON: { coefficients: { beta0, betaRatingDiff, betaHfa }, blend, mftrRatings, hfa }
+ * Without --artifacts the files bundled in lib/data are registered.
+ *
+ * Usage:
+ *   npx tsx scripts/model-registry.ts list [--season 2025]
+ *   npx tsx scripts/model-registry.ts register --version core_v1_2025_fe_v1 --season 2025 [--artifacts path.json] [--activate]
+ *   npx tsx scripts/model-registry.ts activate --version core_v1_2025_fe_v1
+ */
+
+import * as fs from 'fs';
+import { prisma } from '../lib/prisma';
+import {
+  BUNDLED_CORE_ARTIFACTS,
+  BUNDLED_CORE_MODEL,
+  activateCoreModel,
+  listCoreModels,
+  parseCoreModelArtifacts,
+  registerCoreModel,
+} from '../lib/model-registry';
+
+function parseArgs() {
+  const args = process.argv.slice(2);
+  const command = args[0];
+  let modelVersion: string | null = null;
+  let season: number | null = null;
+  let featureVersion = BUNDLED_CORE_MODEL.featureVersion;
+  let artifactsPath: string | null = null;
+  let activate = false;
+
+  for (let i = 1; i < args.length; i++) {
+    const arg = args[i];
+    if (arg === '--version' && i + 1 < args.length) {
+      modelVersion = args[++i];
+    } else if (arg === '--season' && i + 1 < args.length) {
+      season = parseInt(args[++i], 10);
+    } else if (arg === '--feature-version' && i + 1 < args.length) {
+      featureVersion = args[++i];
+    } else if (arg === '--artifacts' && i + 1 < args.length) {
+      artifactsPath = args[++i];
+    } else if (arg === '--activate') {
+      activate = true;
+    }
+  }
+
+  return { command, modelVersion, season, featureVersion, artifactsPath, activate };
+}
+
+async function main() {
+  const { command, modelVersion, season, featureVersion, artifactsPath, activate } = parseArgs();
+
+  if (command === 'list') {
+    const models = await listCoreModels(season);
+    if (models.length === 0) {
+      console.log('No registered models (routes serve the bundled model)');
+      return;
+    }
+    console.log('Season  Version                         Active  Gates  WF RMSE  Registered');
+    for (const model of models) {
+      console.log(
+        `${String(model.season).padEnd(8)}${model.modelVersion.padEnd(32)}` +
+        `${(model.isActive ? 'yes' : '').padEnd(8)}${(model.gatesPassed ? 'pass' : '-').padEnd(7)}` +
+        `${(model.walkForwardRmse !== null ? model.walkForwardRmse.toFixed(2) : '-').padEnd(9)}` +
+        model.createdAt.toISOString().slice(0, 10)
+      );
+    }
+    return;
+  }
+
+  if (command === 'register') {
+    if (!modelVersion || !season) {
+      console.error('Usage: model-registry register --version <name> --season <year> [--artifacts path.json] [--activate]');
+      process.exit(1);
+    }
+    const artifacts = artifactsPath
+      ? parseCoreModelArtifacts(JSON.parse(fs.readFileSync(artifactsPath, 'utf-8')))
+      : BUNDLED_CORE_ARTIFACTS;
+    await registerCoreModel({ modelVersion, season, featureVersion, artifacts, activate });
+    console.log(`✅ Registered ${modelVersion} for ${season}${artifactsPath ? ` from ${artifactsPath}` : ' from bundled lib/data'}${activate ? ' (active)' : ''}`);
+    return;
+  }
+
+  if (command === 'activate') {
+    if (!modelVersion) {
+      console.error('Usage: model-registry activate --version <name>');
+      process.exit(1);
+    }
+    await activateCoreModel(modelVersion);
+    console.log(`✅ ${modelVersion} is now active for its season`);
+    return;
+  }
+
+  console.error('Usage: model-registry <list|register|activate> [options]');
+  process.exit(1);
+}
+
+main()
+  .catch((error) => {
+    console.error('❌ Model registry command failed:', error);
+    process.exit(1);
+  })
+  .finally(async () => {
+    await prisma.$disconnect();
+  });
@@ -8,6 +8,7 @@
  */
 
 import { prisma } from '../lib/prisma';
+import { STRAIGHT_BET_WHERE, isStraightBet } from '../lib/tickets';
 
 async function runGrading(season: number, week: number) {
   console.log(`\n🎯 Running grading for ${season} Week ${week}\n`);
@@ -18,6 +19,7 @@ async function runGrading(season: number, week: number) {
     week,
     source: 'strategy_run',
     result: null, // Only grade bets with null result
+    ...STRAIGHT_BET_WHERE,
   };
 
   const ungradedBets = await prisma.bet.findMany({
@@ -41,7 +43,7 @@ async function runGrading(season: number, week: number) {
   let failed = 0;
   let filledClosePrice = 0;
 
-  for (const bet of ungradedBets) {
+  for (const bet of ungradedBets.filter(isStraightBet)) {
     try {
       const game = bet.game;
       
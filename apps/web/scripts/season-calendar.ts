@@ -0,0 +1,72 @@
+/**
+ * Season Calendar CLI
+ *
+ * Prints the season calendar (lib/season-calendar.ts) or resolves a week for
+ * workflows, so they pick weeks the same way the site does.
+ *
+ * Usage:
+ *   npx tsx apps/web/scripts/season-calendar.ts show [--season 2025]
+ *   npx tsx apps/web/scripts/season-calendar.ts current [--field season|week|label]
+ *   npx tsx apps/web/scripts/season-calendar.ts upcoming [--season 2025] [--field season|week|label|phase]
+ *
+ * current   the week being bet on (weeks with stored games only)
+ * upcoming  the next week on the schedule whether or not its games are ingested yet
+ *           (used by the bowl week bootstrap)
+ */
+
+import { prisma } from '../lib/prisma';
+import { formatCalendarDate, upcomingWeek } from '../lib/season-calendar';
+import { getCurrentSeasonWeek, getDefaultSeason, getSeasonCalendar } from '../lib/season-calendar-context';
+
+function parseArgs() {
+  const [command = 'show', ...rest] = process.argv.slice(2);
+  let season: number | undefined;
+  let field: string | null = null;
+  for (let i = 0; i < rest.length; i++) {
+    if (rest[i] === '--season' && rest[i + 1]) {
+      season = parseInt(rest[++i], 10);
+    } else if (rest[i] === '--field' && rest[i + 1]) {
+      field = rest[++i];
+    }
+  }
+  return { command, season, field };
+}
+
+function print(result: Record<string, unknown>, field: string | null) {
+  if (field) {
+    if (!(field in result)) throw new Error(`Unknown field: ${field}`);
+    console.log(String(result[field]));
+  } else {
+    console.log(JSON.stringify(result));
+  }
+}
+
+async function main() {
+  const { command, season, field } = parseArgs();
+
+  if (command === 'current') {
+    print({ ...(await getCurrentSeasonWeek()) }, field);
+  } else if (command === 'upcoming') {
+    const calendar = await getSeasonCalendar(season ?? await getDefaultSeason());
+    const week = upcomingWeek(calendar);
+    print({ season: week.season, week: week.week, phase: week.phase, label: week.label }, field);
+  } else if (command === 'show') {
+    const calendar = await getSeasonCalendar(season);
+    console.log(`Season ${calendar.season}`);
+    for (const week of calendar.weeks) {
+      console.log(
+        `  ${String(week.week).padStart(2)}  ${formatCalendarDate(week.start)} → ${formatCalendarDate(week.end)}  ` +
+        `${week.phase.padEnd(12)} ${week.label.padEnd(40)} ${week.gameCount} games`
+      );
+    }
+  } else {
+    throw new Error(`Unknown command: ${command} (expected show, current or upcoming)`);
+  }
+}
+
+main()
+  .catch(error => {
+    console.error(error instanceof Error ? error.message : error);
+    process.exitCode = 1;
+  })
+  .finally(() => prisma.$disconnect());
@@ -15,6 +15,7 @@
  */
 
 import { prisma } from '../lib/prisma';
+import { STRAIGHT_BET_WHERE, isStraightBet } from '../lib/tickets';
 
 interface BetRecord {
   id: string;
@@ -132,6 +133,7 @@ export async function simulateContinuityFilter(
       season,
       strategyTag,
       result: { in: ['win', 'loss', 'push'] },
+      ...STRAIGHT_BET_WHERE,
     },
     include: {
       game: {
@@ -167,7 +169,7 @@ export async function simulateContinuityFilter(
   let missingClosePriceCount = 0;
   let missingContinuityCount = 0;
 
-  for (const bet of betsRaw) {
+  for (const bet of betsRaw.filter(isStraightBet)) {
     // Only process spread bets for the filter
     if (bet.marketType !== 'spread') {
       // Non-spread bets are always included in both baseline and filtered
@@ -0,0 +1,80 @@
+/**
+ * Season Simulation Job
+ *
+ * Plays out the rest of a season with the Monte Carlo simulator (see
+ * lib/season-simulator.ts) and stores the run in SeasonSimulation, which
+ * /api/simulations/season and the team page serve.
+ *
+ * Usage:
+ *   npx tsx scripts/simulate-season.ts --season 2025 [--iterations 10000] [--seed 42] [--model-version <name>] [--dry-run]
+ */
+
+import { prisma } from '../lib/prisma';
+import { runSeasonSimulation, saveSeasonSimulation } from '../lib/season-sim-context';
+
+function parseArgs() {
+  const args = process.argv.slice(2);
+  let season: number | null = null;
+  let iterations: number | undefined;
+  let seed: number | undefined;
+  let modelVersion: string | null = null;
+  let dryRun = false;
+
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+    if (arg === '--season' && i + 1 < args.length) {
+      season = parseInt(args[++i], 10);
+    } else if (arg === '--iterations' && i + 1 < args.length) {
+      iterations = parseInt(args[++i], 10);
+    } else if (arg === '--seed' && i + 1 < args.length) {
+      seed = parseInt(args[++i], 10);
+    } else if (arg === '--model-version' && i + 1 < args.length) {
+      modelVersion = args[++i];
+    } else if (arg === '--dry-run') {
+      dryRun = true;
+    }
+  }
+
+  return { season, iterations, seed, modelVersion, dryRun };
+}
+
+const pct = (p: number) => `${(p * 100).toFixed(1)}%`.padStart(7);
+
+async function main() {
+  const { season, iterations, seed, modelVersion, dryRun } = parseArgs();
+  if (!season) {
+    console.error('Usage: simulate-season --season <year> [--iterations N] [--seed N] [--model-version <name>] [--dry-run]');
+    process.exit(1);
+  }
+
+  console.log(`🎲 Simulating ${season}...\n`);
+  const { inputs, config, result } = await runSeasonSimulation(season, { iterations, seed, modelVersion });
+  const remaining = inputs.games.filter(g => g.homeScore === null).length;
+  console.log(`\n   ${inputs.teams.length} FBS teams, ${remaining} of ${inputs.games.length} games remaining (from week ${inputs.asOfWeek})`);
+  console.log(`   ${result.iterations} iterations, σ=${config.marginSigma}, model ${inputs.modelVersion}, seed ${config.seed}\n`);
+
+  const top = [...result.teams].sort((a, b) => b.cfpProb - a.cfpProb).slice(0, 25);
+  console.log('Team                        Record   xWins   Title G   Champ      CFP');
+  for (const team of top) {
+    console.log(
+      `${team.name.padEnd(28)}${`${team.currentWins}-${team.currentLosses}`.padEnd(9)}` +
+      `${team.expectedWins.toFixed(1).padStart(5)}  ${pct(team.titleGameProb)}  ${pct(team.confChampProb)}  ${pct(team.cfpProb)}`
+    );
+  }
+
+  if (dryRun) {
+    console.log('\n🔍 Dry run - nothing written');
+    return;
+  }
+  const id = await saveSeasonSimulation(inputs, config, result);
+  console.log(`\n💾 Saved SeasonSimulation ${id}`);
+}
+
+main()
+  .catch((error) => {
+    console.error('❌ Season simulation failed:', error);
+    process.exit(1);
+  })
+  .finally(async () => {
+    await prisma.$disconnect();
+  });
@@ -15,6 +15,7 @@
  */
 
 import { prisma } from '../lib/prisma';
+import { isStraightBet } from '../lib/tickets';
 
 interface BetRecord {
   id: string;
@@ -139,7 +140,7 @@ async function simulatePortfolios(season: number): Promise<void> {
   });
 
   // Convert to BetRecord
-  const bets: BetRecord[] = betsRaw.map(bet => ({
+  const bets: BetRecord[] = betsRaw.filter(isStraightBet).map(bet => ({
     id: bet.id,
     season: bet.season,
     week: bet.week,
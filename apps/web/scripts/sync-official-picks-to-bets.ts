@@ -15,6 +15,7 @@
 import { prisma } from '../lib/prisma';
 import { getCoreV1SpreadFromTeams, getATSPick } from '../lib/core-v1-spread';
 import { getOUPick } from '../lib/core-v1-total';
+import { getMoneylinePick } from '../lib/core-v1-moneyline';
 import { selectClosingLine } from '../lib/closing-line-helpers';
 import { Decimal } from '@prisma/client/runtime/library';
 
@@ -128,18 +129,59 @@ async function getOfficialTotalPick(
 /**
  * Determine official Moneyline pick for a game
  * 
- * NOTE: Moneyline pick logic is complex and depends on spread overlay.
- * For now, we'll skip moneyline picks and focus on ATS + totals.
- * TODO: Add moneyline pick logic when needed.
+ * Uses the Core V1 win probability vs the last pre-kick price for each side.
+ * modelPrice is the price the pick is taken at (graders pay moneyline bets at modelPrice);
+ * closePrice is left null so grading fills it from the closing line.
  */
 async function getOfficialMoneylinePick(
   game: any,
-  modelSpreadHma: number | null,
-  marketSpreadHma: number | null
+  modelSpreadHma: number | null
 ): Promise<OfficialPick | null> {
-  // Skip moneyline for now - logic is complex and depends on overlay calculations
-  // TODO: Implement moneyline pick detection when needed
-  return null;
+  if (modelSpreadHma === null || !Number.isFinite(modelSpreadHma)) {
+    return null;
+  }
+
+  const kickoff = new Date(game.date);
+  const [homeLine, awayLine] = await Promise.all(
+    [game.homeTeamId, game.awayTeamId].map((teamId: string) =>
+      prisma.marketLine.findFirst({
+        where: { gameId: game.id, lineType: 'moneyline', teamId, timestamp: { lte: kickoff } },
+        orderBy: { timestamp: 'desc' },
+        select: { lineValue: true },
+      })
+    )
+  );
+
+  const homePrice = homeLine ? Number(homeLine.lineValue) : null;
+  const awayPrice = awayLine ? Number(awayLine.lineValue) : null;
+  if (homePrice === null && awayPrice === null) {
+    return null;
+  }
+
+  const mlPick = getMoneylinePick(
+    modelSpreadHma,
+    homePrice,
+    awayPrice,
+    game.homeTeamId,
+    game.awayTeamId,
+    game.homeTeam.name,
+    game.awayTeam.name
+  );
+
+  if (!mlPick.side || mlPick.price === null || mlPick.ev === null) {
+    return null; // No positive-EV side
+  }
+
+  const fairPrice = mlPick.fairPrice !== null ? Math.round(mlPick.fairPrice) : null;
+
+  return {
+    gameId: game.id,
+    marketType: 'moneyline',
+    side: mlPick.side,
+    modelPrice: mlPick.price,
+    closePrice: null,
+    pickLabel: `${mlPick.pickLabel} (fair ${fairPrice !== null && fairPrice > 0 ? '+' : ''}${fairPrice ?? '—'}, EV +${(mlPick.ev * 100).toFixed(1)}%)`,
+  };
 }
 
 /**
@@ -192,11 +234,11 @@ async function getOfficialPicksForGame(game: any): Promise<OfficialPick[]> {
       }
     }
 
-    // Moneyline pick (skipped for now)
-    // const mlPick = await getOfficialMoneylinePick(game, modelSpreadHma, marketSpreadHma);
-    // if (mlPick) {
-    //   picks.push(mlPick);
-    // }
+    // Moneyline pick (positive-EV side only)
+    const mlPick = await getOfficialMoneylinePick(game, modelSpreadHma);
+    if (mlPick) {
+      picks.push(mlPick);
+    }
 
   } catch (error) {
     console.error(`[Game ${game.id}] Error determining official picks:`, error);
@@ -14,6 +14,7 @@
  */
 
 import { prisma } from '../lib/prisma';
+import { isStraightBet } from '../lib/tickets';
 import { Decimal } from '@prisma/client/runtime/library';
 import { BetType, BetSide } from '@prisma/client';
 
@@ -169,7 +170,7 @@ async function syncWeek(season: number, week: number): Promise<{
   console.log(`   V4 bets: ${v4Bets.length}`);
 
   // Convert to BetData format and calculate edge
-  const hybridData: BetData[] = hybridBets.map(bet => {
+  const hybridData: BetData[] = hybridBets.filter(isStraightBet).map(bet => {
     const modelPrice = Number(bet.modelPrice);
     const closePrice = bet.closePrice ? Number(bet.closePrice) : null;
     // Edge = modelPrice - closePrice (in HMA format)
@@ -190,7 +191,7 @@ async function syncWeek(season: number, week: number): Promise<{
     };
   });
 
-  const v4Data: BetData[] = v4Bets.map(bet => {
+  const v4Data: BetData[] = v4Bets.filter(isStraightBet).map(bet => {
     const modelPrice = Number(bet.modelPrice);
     const closePrice = bet.closePrice ? Number(bet.closePrice) : null;
     const edge = closePrice !== null ? modelPrice - closePrice : null;
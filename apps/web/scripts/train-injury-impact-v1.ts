@@ -0,0 +1,253 @@
+/**
+ * Injury Impact V1 Calibration Script
+ *
+ * Fits the injury model's scale (see lib/injury-impact.ts) and writes a calibration report.
+ *
+ * Methodology:
+ * - Final FBS games that have Injury rows, each report as it stood at kickoff (injury snapshots)
+ * - rawAdj = awayImpact - homeImpact from the usage/severity model at scale 1
+ * - residual = actualMargin - Core V1 spread without injuries (HMA)
+ * - Fit residual ≈ scale × rawAdj through the origin
+ * - Backtest: with 2+ seasons, refit on all but the latest season and score the latest
+ *   out of sample; the calibration table compares predicted vs realized residual by bucket
+ *
+ * Writes the fitted scale and training stats to lib/data/core_v1_injury_config.json and
+ * a markdown report to reports/injury_calibration_<timestamp>.md.
+ *
+ * Usage:
+ *   npx tsx scripts/train-injury-impact-v1.ts --seasons 2024,2025
+ *   npx tsx scripts/train-injury-impact-v1.ts --seasons 2025 --dry-run
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { prisma } from '../lib/prisma';
+import { getCoreV1SpreadFromTeams } from '../lib/core-v1-spread';
+import { injuryRowToReport, loadInjuryRows } from '../lib/injury-context';
+import {
+  InjuryCalibrationBucket,
+  InjuryCalibrationSample,
+  InjuryScaleFit,
+  buildInjuryCalibrationTable,
+  computeInjuryAdjustment,
+  fitInjuryScale,
+  injuryConfigFromJson,
+} from '../lib/injury-impact';
+
+const CONFIG_PATH = path.join(__dirname, '../lib/data/core_v1_injury_config.json');
+const REPORTS_DIR = path.join(__dirname, '../../../reports');
+
+interface SeasonSample extends InjuryCalibrationSample {
+  season: number;
+  gameId: string;
+}
+
+function parseArgs() {
+  const args = process.argv.slice(2);
+  let seasons: number[] = [];
+  let dryRun = false;
+
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+    if (arg === '--seasons' && i + 1 < args.length) {
+      seasons = args[++i].split(',').map(s => parseInt(s, 10));
+    } else if (arg === '--dry-run') {
+      dryRun = true;
+    }
+  }
+
+  return { seasons, dryRun };
+}
+
+function formatNumber(value: number | null, digits = 2): string {
+  return value === null ? '—' : value.toFixed(digits);
+}
+
+function calibrationTableMarkdown(buckets: InjuryCalibrationBucket[]): string[] {
+  const lines = [
+    '| Predicted adj (pts) | Games | Mean predicted | Mean residual |',
+    '|---|---:|---:|---:|',
+  ];
+  for (const bucket of buckets) {
+    lines.push(`| ${bucket.label} | ${bucket.games} | ${formatNumber(bucket.meanPredicted)} | ${formatNumber(bucket.meanResidual)} |`);
+  }
+  return lines;
+}
+
+function rmse(samples: InjuryCalibrationSample[], scale: number): number {
+  const ss = samples.reduce((sum, s) => sum + (s.residual - scale * s.rawAdjPts) ** 2, 0);
+  return Math.sqrt(ss / samples.length);
+}
+
+async function main() {
+  const { seasons, dryRun } = parseArgs();
+  if (seasons.length === 0) {
+    console.error('Usage: train-injury-impact-v1 --seasons 2024,2025 [--dry-run]');
+    process.exit(1);
+  }
+
+  console.log('🩹 Injury Impact V1 Calibration');
+  console.log('===============================\n');
+
+  const configData = JSON.parse(fs.readFileSync(CONFIG_PATH, 'utf-8'));
+  const unscaled = { ...injuryConfigFromJson(configData), scale: 1, maxAdjustmentPts: Infinity };
+
+  const samples: SeasonSample[] = [];
+  let skipped = 0;
+
+  for (const season of seasons) {
+    const fbs = new Set(
+      (await prisma.teamMembership.findMany({ where: { season, level: 'fbs' }, select: { teamId: true } }))
+        .map((m: any) => m.teamId)
+    );
+    const games = await prisma.game.findMany({
+      where: {
+        season,
+        status: 'final',
+        homeScore: { not: null },
+        awayScore: { not: null },
+        injuries: { some: {} },
+      },
+      include: { homeTeam: true, awayTeam: true },
+    });
+
+    let seasonCount = 0;
+    for (const game of games) {
+      if (!fbs.has(game.homeTeamId) || !fbs.has(game.awayTeamId)) continue;
+
+      // Point-in-time: each report as it stood at kickoff (rows are updated in place,
+      // so this replays their snapshots)
+      const reports = (await loadInjuryRows([game.id], game.date)).map(injuryRowToReport);
+      if (reports.length === 0) {
+        skipped++;
+        continue;
+      }
+
+      let spreadWithoutInjuries: number;
+      try {
+        const core = await getCoreV1SpreadFromTeams(
+          season,
+          game.homeTeamId,
+          game.awayTeamId,
+          game.neutralSite || false,
+          game.homeTeam.name,
+          game.awayTeam.name,
+          null,
+          game.date
+        );
+        spreadWithoutInjuries = core.coreSpreadHma;
+      } catch (error) {
+        skipped++;
+        continue;
+      }
+
+      const { rawAdjPts } = computeInjuryAdjustment(game.homeTeamId, game.awayTeamId, reports, unscaled);
+      samples.push({
+        season,
+        gameId: game.id,
+        rawAdjPts,
+        residual: (game.homeScore! - game.awayScore!) - spreadWithoutInjuries,
+      });
+      seasonCount++;
+    }
+    console.log(`  Season ${season}: ${seasonCount} games with pre-kickoff injury reports`);
+  }
+
+  console.log(`\nUsing ${samples.length} games (${skipped} skipped)\n`);
+
+  const fit: InjuryScaleFit = fitInjuryScale(samples);
+  const calibration = buildInjuryCalibrationTable(samples, fit.scale);
+
+  console.log('📊 Fit (all seasons):');
+  console.log(`  Scale: ${fit.scale.toFixed(3)} ± ${formatNumber(fit.scaleStdError, 3)}`);
+  console.log(`  Games with an adjustment: ${fit.informativeGames}/${fit.sampleSize}`);
+  console.log(`  RMSE: ${fit.rmseWith.toFixed(3)} (without injuries: ${fit.rmseWithout.toFixed(3)})`);
+
+  // Backtest: latest season scored with a scale fitted on the earlier ones
+  const latestSeason = Math.max(...seasons);
+  const trainSamples = samples.filter(s => s.season < latestSeason);
+  const testSamples = samples.filter(s => s.season === latestSeason);
+  let holdout: { trainScale: number; rmseWith: number; rmseWithout: number; games: number; calibration: InjuryCalibrationBucket[] } | null = null;
+  if (seasons.length > 1 && testSamples.length > 0) {
+    try {
+      const trainFit = fitInjuryScale(trainSamples);
+      holdout = {
+        trainScale: trainFit.scale,
+        rmseWith: rmse(testSamples, trainFit.scale),
+        rmseWithout: rmse(testSamples, 0),
+        games: testSamples.length,
+        calibration: buildInjuryCalibrationTable(testSamples, trainFit.scale),
+      };
+      console.log(`\n🔁 Backtest on ${latestSeason} (scale ${trainFit.scale.toFixed(3)} from earlier seasons):`);
+      console.log(`  RMSE: ${holdout.rmseWith.toFixed(3)} (without injuries: ${holdout.rmseWithout.toFixed(3)})`);
+    } catch (error) {
+      console.warn(`\n⚠️  Skipping backtest: ${(error as Error).message}`);
+    }
+  }
+
+  const trainedOn = new Date().toISOString();
+  const report = [
+    `# Injury Impact Calibration (${trainedOn})`,
+    '',
+    `Seasons: ${seasons.join(', ')}. Games with pre-kickoff injury reports: ${fit.sampleSize} (${fit.informativeGames} with a nonzero adjustment).`,
+    '',
+    '## Fit',
+    '',
+    `- Scale: ${fit.scale.toFixed(3)} (std error ${formatNumber(fit.scaleStdError, 3)}; previous ${Number(configData.scale ?? 1).toFixed(3)})`,
+    `- RMSE vs Core V1 residual: ${fit.rmseWith.toFixed(3)} with injuries, ${fit.rmseWithout.toFixed(3)} without`,
+    '',
+    '## Calibration (in sample)',
+    '',
+    ...calibrationTableMarkdown(calibration),
+    '',
+  ];
+  if (holdout) {
+    report.push(
+      `## Backtest (${latestSeason} out of sample)`,
+      '',
+      `- Scale fitted on earlier seasons: ${holdout.trainScale.toFixed(3)}`,
+      `- RMSE over ${holdout.games} games: ${holdout.rmseWith.toFixed(3)} with injuries, ${holdout.rmseWithout.toFixed(3)} without`,
+      '',
+      ...calibrationTableMarkdown(holdout.calibration),
+      '',
+    );
+  }
+
+  if (dryRun) {
+    console.log('\n' + report.join('\n'));
+    console.log('🔍 Dry run - not saved');
+    return;
+  }
+
+  const config = {
+    ...configData,
+    scale: fit.scale,
+    training_stats: {
+      seasons,
+      sample_size: fit.sampleSize,
+      informative_games: fit.informativeGames,
+      scale_std_error: fit.scaleStdError,
+      rmse_with: fit.rmseWith,
+      rmse_without: fit.rmseWithout,
+      holdout_rmse_with: holdout?.rmseWith ?? null,
+      holdout_rmse_without: holdout?.rmseWithout ?? null,
+    },
+    trained_on: trainedOn,
+  };
+  fs.writeFileSync(CONFIG_PATH, JSON.stringify(config, null, 2) + '\n');
+  console.log(`\n✅ Wrote config to: ${CONFIG_PATH}`);
+
+  fs.mkdirSync(REPORTS_DIR, { recursive: true });
+  const reportPath = path.join(REPORTS_DIR, `injury_calibration_${trainedOn.replace(/[:.]/g, '-').slice(0, 19)}.md`);
+  fs.writeFileSync(reportPath, report.join('\n'));
+  console.log(`✅ Wrote report to: ${reportPath}`);
+}
+
+main()
+  .catch((error) => {
+    console.error('❌ Calibration failed:', error);
+    process.exit(1);
+  })
+  .finally(async () => {
+    await prisma.$disconnect();
+  });
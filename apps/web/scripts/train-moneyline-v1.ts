@@ -0,0 +1,168 @@
+/**
+ * Moneyline Model V1 Training Script
+ *
+ * Fits σ where: actualMargin - modelSpread ~ Normal(0, σ²) (see fitMarginSigma in
+ * lib/core-v1-moneyline.ts)
+ *
+ * Uses final games with:
+ * - Final scores (homeScore, awayScore)
+ * - Core V1 spreads as of kickoff (ratings replayed from their snapshots, so later
+ *   games do not leak into the residuals)
+ * - Pre-kick moneylines from MarketLine (for market comparison only)
+ *
+ * Writes margin_sigma with its sample size and fit metrics to
+ * lib/data/core_v1_moneyline_config.json.
+ *
+ * Usage:
+ *   npx tsx scripts/train-moneyline-v1.ts --seasons 2024,2025
+ *   npx tsx scripts/train-moneyline-v1.ts --seasons 2025 --dry-run
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { getCoreV1SpreadFromTeams } from '../lib/core-v1-spread';
+import { MarginSigmaSample, MoneylineTrainingStats, fitMarginSigma } from '../lib/core-v1-moneyline';
+import { removeVig } from '../lib/market-line-helpers';
+import { prisma } from '../lib/prisma';
+
+const CONFIG_PATH = path.join(__dirname, '../lib/data/core_v1_moneyline_config.json');
+
+function parseArgs() {
+  const args = process.argv.slice(2);
+  let seasons: number[] = [];
+  let dryRun = false;
+
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+    if (arg === '--seasons' && i + 1 < args.length) {
+      seasons = args[++i].split(',').map(s => parseInt(s, 10));
+    } else if (arg === '--dry-run') {
+      dryRun = true;
+    }
+  }
+
+  return { seasons, dryRun };
+}
+
+async function main() {
+  const { seasons, dryRun } = parseArgs();
+  if (seasons.length === 0) {
+    console.error('Usage: train-moneyline-v1 --seasons 2024,2025 [--dry-run]');
+    process.exit(1);
+  }
+
+  console.log('🚂 Training Moneyline Model V1...\n');
+
+  const samples: MarginSigmaSample[] = [];
+  let skipped = 0;
+
+  for (const season of seasons) {
+    const games = await prisma.game.findMany({
+      where: {
+        season,
+        status: 'final',
+        homeScore: { not: null },
+        awayScore: { not: null },
+      },
+      include: {
+        homeTeam: true,
+        awayTeam: true,
+      },
+      orderBy: { date: 'asc' },
+    });
+
+    let seasonCount = 0;
+    for (const game of games) {
+      let modelSpread: number;
+      try {
+        const coreSpreadInfo = await getCoreV1SpreadFromTeams(
+          season,
+          game.homeTeamId,
+          game.awayTeamId,
+          game.neutralSite || false,
+          game.homeTeam.name,
+          game.awayTeam.name,
+          game.date,
+          game.date
+        );
+        modelSpread = coreSpreadInfo.coreSpreadHma;
+      } catch (error) {
+        // No ratings snapshot before kickoff (early weeks) or no ratings at all
+        skipped++;
+        continue;
+      }
+
+      const [homeLine, awayLine] = await Promise.all(
+        [game.homeTeamId, game.awayTeamId].map((teamId: string) =>
+          prisma.marketLine.findFirst({
+            where: { gameId: game.id, lineType: 'moneyline', teamId, timestamp: { lte: game.date } },
+            orderBy: { timestamp: 'desc' },
+            select: { lineValue: true },
+          })
+        )
+      );
+      const noVig = removeVig(
+        homeLine ? Number(homeLine.lineValue) : null,
+        awayLine ? Number(awayLine.lineValue) : null
+      );
+
+      samples.push({
+        modelSpread,
+        actualMargin: game.homeScore! - game.awayScore!,
+        marketHomeProb: noVig?.homeProb ?? null,
+      });
+      seasonCount++;
+      if (seasonCount % 100 === 0) {
+        console.log(`   ${season}: processed ${seasonCount} games...`);
+      }
+    }
+    console.log(`  Season ${season}: ${seasonCount} games with a Core V1 spread at kickoff`);
+  }
+
+  console.log(`\nUsing ${samples.length} games (${skipped} skipped without ratings at kickoff)\n`);
+
+  const fit = fitMarginSigma(samples);
+
+  console.log(`📊 Training Results:`);
+  console.log(`   σ (margin_sigma): ${fit.sigma.toFixed(2)} pts`);
+  console.log(`   Mean residual: ${fit.meanResidual.toFixed(2)} pts`);
+  console.log(`   Model log loss: ${fit.logLoss.toFixed(4)}, Brier: ${fit.brier.toFixed(4)}`);
+  if (fit.market) {
+    console.log(`   Market log loss: ${fit.market.logLoss.toFixed(4)}, Brier: ${fit.market.brier.toFixed(4)} (n=${fit.market.sampleSize})`);
+  }
+
+  if (dryRun) {
+    console.log('\n🔍 Dry run - not saved');
+    return;
+  }
+
+  const trainingStats: MoneylineTrainingStats = {
+    seasons,
+    sample_size: fit.sampleSize,
+    mean_residual: fit.meanResidual,
+    log_loss: fit.logLoss,
+    brier: fit.brier,
+    ...(fit.market
+      ? { market_sample_size: fit.market.sampleSize, market_log_loss: fit.market.logLoss, market_brier: fit.market.brier }
+      : {}),
+  };
+  const configData = JSON.parse(fs.readFileSync(CONFIG_PATH, 'utf-8'));
+  const config = {
+    ...configData,
+    margin_sigma: fit.sigma,
+    training_stats: trainingStats,
+    trained_on: new Date().toISOString(),
+    timestamp: new Date().toISOString(),
+  };
+  fs.writeFileSync(CONFIG_PATH, JSON.stringify(config, null, 2) + '\n');
+  console.log(`\n✅ Wrote config to: ${CONFIG_PATH}`);
+}
+
+main()
+  .catch((error) => {
+    console.error('❌ Training failed:', error);
+    process.exit(1);
+  })
+  .finally(async () => {
+    await prisma.$disconnect();
+  });
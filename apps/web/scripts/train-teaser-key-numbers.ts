@@ -0,0 +1,150 @@
+/**
+ * Teaser Key-Number Weights Training Script
+ *
+ * Fits key_number_weights in lib/data/teaser_config.json (see fitKeyNumberWeights
+ * in lib/tickets.ts): for each key number, the final games whose |home margin|
+ * landed on it over the games a plain Normal(Core V1 spread, σ) expects there.
+ * σ is the calibrated moneyline margin sigma, as used when pricing tickets.
+ *
+ * Uses final games with:
+ * - Final scores (homeScore, awayScore)
+ * - Core V1 spreads as of kickoff (ratings replayed from their snapshots)
+ *
+ * Writes the weights with the observed/expected counts and sets trained_on, which
+ * stops ticket EVs being labeled as a prior.
+ *
+ * Usage:
+ *   npx tsx scripts/train-teaser-key-numbers.ts --seasons 2023,2024,2025
+ *   npx tsx scripts/train-teaser-key-numbers.ts --seasons 2025 --dry-run
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { getCoreV1SpreadFromTeams } from '../lib/core-v1-spread';
+import { getMarginSigma } from '../lib/core-v1-moneyline';
+import { KeyNumberSample, KeyNumberTrainingStats, fitKeyNumberWeights } from '../lib/tickets';
+import { prisma } from '../lib/prisma';
+
+const CONFIG_PATH = path.join(__dirname, '../lib/data/teaser_config.json');
+
+function parseArgs() {
+  const args = process.argv.slice(2);
+  let seasons: number[] = [];
+  let dryRun = false;
+
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+    if (arg === '--seasons' && i + 1 < args.length) {
+      seasons = args[++i].split(',').map(s => parseInt(s, 10));
+    } else if (arg === '--dry-run') {
+      dryRun = true;
+    }
+  }
+
+  return { seasons, dryRun };
+}
+
+async function main() {
+  const { seasons, dryRun } = parseArgs();
+  if (seasons.length === 0) {
+    console.error('Usage: train-teaser-key-numbers --seasons 2024,2025 [--dry-run]');
+    process.exit(1);
+  }
+
+  console.log('🚂 Training teaser key-number weights...\n');
+
+  const samples: KeyNumberSample[] = [];
+  let skipped = 0;
+
+  for (const season of seasons) {
+    const games = await prisma.game.findMany({
+      where: {
+        season,
+        status: 'final',
+        homeScore: { not: null },
+        awayScore: { not: null },
+      },
+      include: {
+        homeTeam: true,
+        awayTeam: true,
+      },
+      orderBy: { date: 'asc' },
+    });
+
+    let seasonCount = 0;
+    for (const game of games) {
+      let modelSpread: number;
+      try {
+        const coreSpreadInfo = await getCoreV1SpreadFromTeams(
+          season,
+          game.homeTeamId,
+          game.awayTeamId,
+          game.neutralSite || false,
+          game.homeTeam.name,
+          game.awayTeam.name,
+          game.date,
+          game.date
+        );
+        modelSpread = coreSpreadInfo.coreSpreadHma;
+      } catch (error) {
+        // No ratings snapshot before kickoff (early weeks) or no ratings at all
+        skipped++;
+        continue;
+      }
+
+      samples.push({ modelSpread, actualMargin: game.homeScore! - game.awayScore! });
+      seasonCount++;
+      if (seasonCount % 100 === 0) {
+        console.log(`   ${season}: processed ${seasonCount} games...`);
+      }
+    }
+    console.log(`  Season ${season}: ${seasonCount} games with a Core V1 spread at kickoff`);
+  }
+
+  console.log(`\nUsing ${samples.length} games (${skipped} skipped without ratings at kickoff)\n`);
+  if (samples.length === 0) {
+    console.error('❌ No games to fit on');
+    process.exit(1);
+  }
+
+  const sigma = getMarginSigma();
+  const fit = fitKeyNumberWeights(samples, sigma);
+
+  console.log(`📊 Training Results (σ = ${sigma.toFixed(2)} pts):`);
+  for (const [key, weight] of Object.entries(fit.weights)) {
+    console.log(`   |margin| ${key.padStart(2)}: ×${weight.toFixed(2)} (${fit.observed[key]} games, ${fit.expected[key].toFixed(1)} expected)`);
+  }
+
+  if (dryRun) {
+    console.log('\n🔍 Dry run - not saved');
+    return;
+  }
+
+  const round1 = (counts: Record<string, number>) =>
+    Object.fromEntries(Object.entries(counts).map(([key, n]) => [key, Math.round(n * 10) / 10]));
+  const trainingStats: KeyNumberTrainingStats = {
+    seasons,
+    sample_size: samples.length,
+    margin_sigma: sigma,
+    observed: fit.observed,
+    expected: round1(fit.expected),
+  };
+  const configData = JSON.parse(fs.readFileSync(CONFIG_PATH, 'utf-8'));
+  const config = {
+    ...configData,
+    key_number_weights: fit.weights,
+    training_stats: trainingStats,
+    trained_on: new Date().toISOString(),
+  };
+  fs.writeFileSync(CONFIG_PATH, JSON.stringify(config, null, 2) + '\n');
+  console.log(`\n✅ Wrote config to: ${CONFIG_PATH}`);
+}
+
+main()
+  .catch((error) => {
+    console.error('❌ Training failed:', error);
+    process.exit(1);
+  })
+  .finally(async () => {
+    await prisma.$disconnect();
+  });
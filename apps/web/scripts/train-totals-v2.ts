@@ -0,0 +1,190 @@
+/**
+ * Totals Model V2 Calibration Script
+ *
+ * Calibrates the totals v2 projection (see lib/totals-v2-model.ts) against closing totals:
+ *   closingTotal ≈ intercept + scale × rawTotal + wind + precipitation + cold
+ *
+ * Uses final games with a closing total (latest total quote at or before kickoff).
+ * Team profiles only see games played before each kickoff and weather only
+ * forecasts fetched by then, so every sample is point-in-time. With 2+ seasons the
+ * latest season is also scored out of sample with a fit on the earlier ones.
+ *
+ * Writes the calibrated coefficients to lib/data/core_v2_totals_config.json.
+ *
+ * Usage:
+ *   npx tsx scripts/train-totals-v2.ts --seasons 2024,2025
+ *   npx tsx scripts/train-totals-v2.ts --seasons 2025 --dry-run
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { prisma } from '../lib/prisma';
+import { getTotalsV2Projection } from '../lib/totals-v2-context';
+import {
+  TotalsV2CalibrationResult,
+  TotalsV2CalibrationSample,
+  fitTotalsV2Calibration,
+} from '../lib/totals-v2-model';
+
+const CONFIG_PATH = path.join(__dirname, '../lib/data/core_v2_totals_config.json');
+
+interface SeasonSample extends TotalsV2CalibrationSample {
+  season: number;
+}
+
+function parseArgs() {
+  const args = process.argv.slice(2);
+  let seasons: number[] = [];
+  let ridgeLambda = 5;
+  let dryRun = false;
+
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+    if (arg === '--seasons' && i + 1 < args.length) {
+      seasons = args[++i].split(',').map(s => parseInt(s, 10));
+    } else if (arg === '--lambda' && i + 1 < args.length) {
+      ridgeLambda = parseFloat(args[++i]);
+    } else if (arg === '--dry-run') {
+      dryRun = true;
+    }
+  }
+
+  return { seasons, ridgeLambda, dryRun };
+}
+
+function printFit(label: string, fit: TotalsV2CalibrationResult) {
+  console.log(`📊 ${label}:`);
+  console.log(`  intercept ${fit.intercept.toFixed(2)}, scale ${fit.scale.toFixed(3)}`);
+  console.log(`  wind ${fit.weather.windPerMph.toFixed(3)}/mph, precip ${fit.weather.precipPerProb.toFixed(2)}, cold ${fit.weather.coldPerDegree.toFixed(3)}/°F`);
+  console.log(`  MAE vs close: ${fit.maeVsClose.toFixed(2)}`);
+  if (fit.maeVsActual !== null && fit.closeMaeVsActual !== null) {
+    console.log(`  MAE vs final: ${fit.maeVsActual.toFixed(2)} (closing total: ${fit.closeMaeVsActual.toFixed(2)})`);
+  }
+}
+
+async function main() {
+  const { seasons, ridgeLambda, dryRun } = parseArgs();
+  if (seasons.length === 0) {
+    console.error('Usage: train-totals-v2 --seasons 2024,2025 [--lambda 5] [--dry-run]');
+    process.exit(1);
+  }
+
+  console.log('🚂 Calibrating Totals Model V2...\n');
+
+  const samples: SeasonSample[] = [];
+  let skipped = 0;
+
+  for (const season of seasons) {
+    const games = await prisma.game.findMany({
+      where: {
+        season,
+        status: 'final',
+        homeScore: { not: null },
+        awayScore: { not: null },
+      },
+      include: {
+        marketLines: {
+          where: { lineType: 'total' },
+          select: { lineValue: true, timestamp: true },
+        },
+      },
+      orderBy: { date: 'asc' },
+    });
+
+    let seasonCount = 0;
+    for (const game of games) {
+      const close = game.marketLines
+        .filter((line: any) => new Date(line.timestamp).getTime() <= game.date.getTime())
+        .sort((a: any, b: any) => new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime())[0];
+      if (!close) {
+        skipped++;
+        continue;
+      }
+
+      const projection = await getTotalsV2Projection({
+        id: game.id,
+        season,
+        week: game.week,
+        homeTeamId: game.homeTeamId,
+        awayTeamId: game.awayTeamId,
+        date: game.date,
+      }, game.date);
+
+      samples.push({
+        season,
+        rawTotal: projection.rawTotal,
+        weatherFeatures: projection.weatherFeatures,
+        closingTotal: Number(close.lineValue),
+        actualTotal: game.homeScore! + game.awayScore!,
+      });
+      seasonCount++;
+      if (seasonCount % 100 === 0) {
+        console.log(`   ${season}: processed ${seasonCount} games...`);
+      }
+    }
+    console.log(`  Season ${season}: ${seasonCount} games with a closing total`);
+  }
+
+  console.log(`\nUsing ${samples.length} games (${skipped} skipped without a closing total)\n`);
+
+  const fit = fitTotalsV2Calibration(samples, ridgeLambda);
+  printFit('Calibration (all seasons)', fit);
+
+  let holdout: { season: number; maeVsClose: number; maeVsActual: number; closeMaeVsActual: number } | null = null;
+  const latestSeason = Math.max(...seasons);
+  const testSamples = samples.filter(s => s.season === latestSeason);
+  if (seasons.length > 1 && testSamples.length > 0) {
+    const trainFit = fitTotalsV2Calibration(samples.filter(s => s.season < latestSeason), ridgeLambda);
+    const predict = (s: TotalsV2CalibrationSample) => trainFit.intercept + trainFit.scale * s.rawTotal
+      + trainFit.weather.windPerMph * s.weatherFeatures.windExcess
+      + trainFit.weather.precipPerProb * s.weatherFeatures.precip
+      + trainFit.weather.coldPerDegree * s.weatherFeatures.coldExcess;
+    holdout = {
+      season: latestSeason,
+      maeVsClose: testSamples.reduce((sum, s) => sum + Math.abs(predict(s) - s.closingTotal), 0) / testSamples.length,
+      maeVsActual: testSamples.reduce((sum, s) => sum + Math.abs(predict(s) - s.actualTotal!), 0) / testSamples.length,
+      closeMaeVsActual: testSamples.reduce((sum, s) => sum + Math.abs(s.closingTotal - s.actualTotal!), 0) / testSamples.length,
+    };
+    console.log(`\n🔁 Backtest on ${latestSeason} (fit on earlier seasons):`);
+    console.log(`  MAE vs close: ${holdout.maeVsClose.toFixed(2)}`);
+    console.log(`  MAE vs final: ${holdout.maeVsActual.toFixed(2)} (closing total: ${holdout.closeMaeVsActual.toFixed(2)})`);
+  }
+
+  if (dryRun) {
+    console.log('\n🔍 Dry run - not saved');
+    return;
+  }
+
+  const configData = JSON.parse(fs.readFileSync(CONFIG_PATH, 'utf-8'));
+  const config = {
+    ...configData,
+    intercept: fit.intercept,
+    scale: fit.scale,
+    weather: {
+      ...configData.weather,
+      wind_per_mph: fit.weather.windPerMph,
+      precip_per_prob: fit.weather.precipPerProb,
+      cold_per_degree: fit.weather.coldPerDegree,
+    },
+    training_stats: {
+      seasons,
+      sample_size: fit.sampleSize,
+      mae_vs_close: fit.maeVsClose,
+      mae_vs_actual: fit.maeVsActual,
+      close_mae_vs_actual: fit.closeMaeVsActual,
+      holdout,
+    },
+    trained_on: new Date().toISOString(),
+  };
+  fs.writeFileSync(CONFIG_PATH, JSON.stringify(config, null, 2) + '\n');
+  console.log(`\n✅ Wrote config to: ${CONFIG_PATH}`);
+}
+
+main()
+  .catch((error) => {
+    console.error('❌ Calibration failed:', error);
+    process.exit(1);
+  })
+  .finally(async () => {
+    await prisma.$disconnect();
+  });
@@ -6,6 +6,7 @@
  */
 
 import { prisma } from '../lib/prisma';
+import { isStraightBet } from '../lib/tickets';
 
 async function main() {
   const season = 2025;
@@ -46,7 +47,7 @@ async function main() {
   let checked = 0;
   let matched = 0;
 
-  for (const bet of officialBets) {
+  for (const bet of officialBets.filter(isStraightBet)) {
     const betTeamId = bet.side === 'home' ? bet.game.homeTeamId : bet.game.awayTeamId;
     const betTeam = bet.side === 'home' ? bet.game.homeTeam : bet.game.awayTeam;
     const closePrice = bet.closePrice ? Number(bet.closePrice) : null;
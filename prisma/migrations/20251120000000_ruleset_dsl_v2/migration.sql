@@ -0,0 +1,77 @@
+-- Ruleset DSL v2: convert legacy flat parameters into the versioned rule tree.
+-- Mapping mirrors upgradeLegacyParameters() in apps/web/lib/ruleset-dsl.ts:
+--   (any selected market edge >= its minimum) AND confidence tier AND team include/exclude
+
+-- DataMigration
+WITH "legacy" AS (
+    SELECT
+        "id",
+        "parameters" AS "p",
+        CASE
+            WHEN jsonb_typeof("parameters"->'markets') = 'array' AND jsonb_array_length("parameters"->'markets') > 0
+                THEN "parameters"->'markets'
+            ELSE '["spread", "total"]'::jsonb
+        END AS "markets"
+    FROM "rulesets"
+    WHERE NOT ("parameters" ? 'version')
+)
+UPDATE "rulesets" AS "r"
+SET "parameters" = jsonb_build_object(
+    'version', 2,
+    'markets', "l"."markets",
+    'maxGamesPerWeek', CASE
+        WHEN jsonb_typeof("l"."p"->'maxGamesPerWeek') = 'number' AND ("l"."p"->>'maxGamesPerWeek')::numeric > 0
+            THEN "l"."p"->'maxGamesPerWeek'
+        ELSE 'null'::jsonb
+    END,
+    'rules', jsonb_build_object(
+        'type', 'and',
+        'rules',
+            -- Edge thresholds: OR across the selected markets
+            jsonb_build_array(jsonb_build_object(
+                'type', 'or',
+                'rules',
+                    (CASE WHEN "l"."markets" ? 'spread' THEN jsonb_build_array(jsonb_build_object(
+                        'type', 'predicate', 'field', 'spreadEdge', 'op', 'gte',
+                        'value', COALESCE(("l"."p"->>'minSpreadEdge')::float8, 0)
+                    )) ELSE '[]'::jsonb END)
+                    || (CASE WHEN "l"."markets" ? 'total' THEN jsonb_build_array(jsonb_build_object(
+                        'type', 'predicate', 'field', 'totalEdge', 'op', 'gte',
+                        'value', COALESCE(("l"."p"->>'minTotalEdge')::float8, 0)
+                    )) ELSE '[]'::jsonb END)
+                    || (CASE WHEN "l"."markets" ? 'moneyline' THEN jsonb_build_array(jsonb_build_object(
+                        'type', 'predicate', 'field', 'moneylineEdge', 'op', 'gte',
+                        'value', COALESCE(("l"."p"->>'minMoneylineEdge')::float8, 0)
+                    )) ELSE '[]'::jsonb END)
+            ))
+            -- Confidence tiers
+            || (CASE
+                WHEN jsonb_typeof("l"."p"->'confidenceIn') = 'array' AND jsonb_array_length("l"."p"->'confidenceIn') > 0
+                    THEN jsonb_build_array(jsonb_build_object(
+                        'type', 'predicate', 'field', 'confidence', 'op', 'in', 'value', "l"."p"->'confidenceIn'
+                    ))
+                ELSE '[]'::jsonb
+            END)
+            -- Include teams
+            || (CASE
+                WHEN jsonb_typeof("l"."p"->'includeTeams') = 'array' AND jsonb_array_length("l"."p"->'includeTeams') > 0
+                    THEN jsonb_build_array(jsonb_build_object(
+                        'type', 'predicate', 'field', 'teams', 'op', 'includesAny', 'value', "l"."p"->'includeTeams'
+                    ))
+                ELSE '[]'::jsonb
+            END)
+            -- Exclude teams: NOT (teams includes any)
+            || (CASE
+                WHEN jsonb_typeof("l"."p"->'excludeTeams') = 'array' AND jsonb_array_length("l"."p"->'excludeTeams') > 0
+                    THEN jsonb_build_array(jsonb_build_object(
+                        'type', 'not',
+                        'rule', jsonb_build_object(
+                            'type', 'predicate', 'field', 'teams', 'op', 'includesAny', 'value', "l"."p"->'excludeTeams'
+                        )
+                    ))
+                ELSE '[]'::jsonb
+            END)
+    )
+)
+FROM "legacy" AS "l"
+WHERE "r"."id" = "l"."id";
@@ -0,0 +1,61 @@
+-- AlterTable
+ALTER TABLE "strategy_runs" ADD COLUMN "initial_bankroll" DOUBLE PRECISION;
+
+-- CreateTable
+CREATE TABLE "strategy_run_bets" (
+    "id" TEXT NOT NULL,
+    "strategy_run_id" TEXT NOT NULL,
+    "game_id" TEXT NOT NULL,
+    "season" INTEGER NOT NULL,
+    "week" INTEGER NOT NULL,
+    "market_type" "BetType" NOT NULL,
+    "side" "BetSide" NOT NULL,
+    "line" DOUBLE PRECISION NOT NULL,
+    "price" DOUBLE PRECISION NOT NULL,
+    "close_line" DOUBLE PRECISION,
+    "edge" DOUBLE PRECISION NOT NULL,
+    "stake" DOUBLE PRECISION NOT NULL,
+    "result" "BetResult",
+    "pnl" DOUBLE PRECISION NOT NULL,
+    "clv" DOUBLE PRECISION,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "strategy_run_bets_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "strategy_run_weeks" (
+    "id" TEXT NOT NULL,
+    "strategy_run_id" TEXT NOT NULL,
+    "season" INTEGER NOT NULL,
+    "week" INTEGER NOT NULL,
+    "cutoff" TIMESTAMP(3) NOT NULL,
+    "bets" INTEGER NOT NULL,
+    "wins" INTEGER NOT NULL,
+    "losses" INTEGER NOT NULL,
+    "pushes" INTEGER NOT NULL,
+    "staked" DOUBLE PRECISION NOT NULL,
+    "pnl" DOUBLE PRECISION NOT NULL,
+    "bankroll" DOUBLE PRECISION NOT NULL,
+    "drawdown" DOUBLE PRECISION NOT NULL,
+
+    CONSTRAINT "strategy_run_weeks_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "strategy_run_bets_strategy_run_id_season_week_idx" ON "strategy_run_bets"("strategy_run_id", "season", "week");
+
+-- CreateIndex
+CREATE INDEX "strategy_run_bets_game_id_idx" ON "strategy_run_bets"("game_id");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "strategy_run_weeks_strategy_run_id_season_week_key" ON "strategy_run_weeks"("strategy_run_id", "season", "week");
+
+-- AddForeignKey
+ALTER TABLE "strategy_run_bets" ADD CONSTRAINT "strategy_run_bets_strategy_run_id_fkey" FOREIGN KEY ("strategy_run_id") REFERENCES "strategy_runs"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "strategy_run_bets" ADD CONSTRAINT "strategy_run_bets_game_id_fkey" FOREIGN KEY ("game_id") REFERENCES "games"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "strategy_run_weeks" ADD CONSTRAINT "strategy_run_weeks_strategy_run_id_fkey" FOREIGN KEY ("strategy_run_id") REFERENCES "strategy_runs"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,56 @@
+-- CreateEnum
+CREATE TYPE "StakingPolicy" AS ENUM ('flat', 'percent', 'kelly');
+
+-- CreateTable
+CREATE TABLE "bankrolls" (
+    "id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "starting_balance" DOUBLE PRECISION NOT NULL,
+    "balance" DOUBLE PRECISION NOT NULL,
+    "staking_policy" "StakingPolicy" NOT NULL,
+    "flat_stake" DOUBLE PRECISION,
+    "stake_pct" DOUBLE PRECISION,
+    "kelly_multiplier" DOUBLE PRECISION,
+    "max_stake_pct" DOUBLE PRECISION,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "bankrolls_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "bankroll_transactions" (
+    "id" TEXT NOT NULL,
+    "bankroll_id" TEXT NOT NULL,
+    "bet_id" TEXT,
+    "amount" DOUBLE PRECISION NOT NULL,
+    "balance_after" DOUBLE PRECISION NOT NULL,
+    "reason" TEXT NOT NULL,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "bankroll_transactions_pkey" PRIMARY KEY ("id")
+);
+
+-- AlterTable
+ALTER TABLE "bets" ADD COLUMN "bankroll_id" TEXT;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "bankrolls_name_key" ON "bankrolls"("name");
+
+-- CreateIndex
+CREATE INDEX "bankroll_transactions_bankroll_id_created_at_idx" ON "bankroll_transactions"("bankroll_id", "created_at");
+
+-- CreateIndex
+CREATE INDEX "bankroll_transactions_bet_id_idx" ON "bankroll_transactions"("bet_id");
+
+-- CreateIndex
+CREATE INDEX "bets_bankroll_id_idx" ON "bets"("bankroll_id");
+
+-- AddForeignKey
+ALTER TABLE "bets" ADD CONSTRAINT "bets_bankroll_id_fkey" FOREIGN KEY ("bankroll_id") REFERENCES "bankrolls"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "bankroll_transactions" ADD CONSTRAINT "bankroll_transactions_bankroll_id_fkey" FOREIGN KEY ("bankroll_id") REFERENCES "bankrolls"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "bankroll_transactions" ADD CONSTRAINT "bankroll_transactions_bet_id_fkey" FOREIGN KEY ("bet_id") REFERENCES "bets"("id") ON DELETE SET NULL ON UPDATE CASCADE;
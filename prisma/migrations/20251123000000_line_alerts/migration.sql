@@ -0,0 +1,66 @@
+-- CreateEnum
+CREATE TYPE "AlertRuleType" AS ENUM ('key_number', 'line_move', 'against_bet');
+
+-- CreateTable
+CREATE TABLE "alert_rules" (
+    "id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "type" "AlertRuleType" NOT NULL,
+    "market_type" "LineType",
+    "threshold" DOUBLE PRECISION,
+    "key_numbers" JSONB,
+    "book_name" TEXT,
+    "enabled" BOOLEAN NOT NULL DEFAULT true,
+    "notify" BOOLEAN NOT NULL DEFAULT true,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "alert_rules_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "line_alerts" (
+    "id" TEXT NOT NULL,
+    "rule_id" TEXT NOT NULL,
+    "game_id" TEXT NOT NULL,
+    "bet_id" TEXT,
+    "market_type" "LineType" NOT NULL,
+    "book_name" TEXT NOT NULL,
+    "open_value" DOUBLE PRECISION NOT NULL,
+    "from_value" DOUBLE PRECISION NOT NULL,
+    "to_value" DOUBLE PRECISION NOT NULL,
+    "line_timestamp" TIMESTAMP(3) NOT NULL,
+    "message" TEXT NOT NULL,
+    "dedup_key" TEXT NOT NULL,
+    "webhook_status" TEXT,
+    "webhook_error" TEXT,
+    "acknowledged_at" TIMESTAMP(3),
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "line_alerts_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "line_alerts_dedup_key_key" ON "line_alerts"("dedup_key");
+
+-- CreateIndex
+CREATE INDEX "line_alerts_created_at_idx" ON "line_alerts"("created_at");
+
+-- CreateIndex
+CREATE INDEX "line_alerts_game_id_idx" ON "line_alerts"("game_id");
+
+-- AddForeignKey
+ALTER TABLE "line_alerts" ADD CONSTRAINT "line_alerts_rule_id_fkey" FOREIGN KEY ("rule_id") REFERENCES "alert_rules"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "line_alerts" ADD CONSTRAINT "line_alerts_game_id_fkey" FOREIGN KEY ("game_id") REFERENCES "games"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "line_alerts" ADD CONSTRAINT "line_alerts_bet_id_fkey" FOREIGN KEY ("bet_id") REFERENCES "bets"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- Default rules: key numbers on spreads, 1.5+ pt spread moves, 2+ pt total moves, 1+ pt against an open bet
+INSERT INTO "alert_rules" ("id", "name", "type", "market_type", "threshold", "key_numbers", "updated_at") VALUES
+    ('default-key-numbers', 'Spread key numbers', 'key_number', 'spread', NULL, '[3, 7, 10]', CURRENT_TIMESTAMP),
+    ('default-spread-move', 'Spread moved 1.5+ from open', 'line_move', 'spread', 1.5, NULL, CURRENT_TIMESTAMP),
+    ('default-total-move', 'Total moved 2+ from open', 'line_move', 'total', 2, NULL, CURRENT_TIMESTAMP),
+    ('default-against-bet', 'Line moved against my bet', 'against_bet', NULL, 1, NULL, CURRENT_TIMESTAMP);
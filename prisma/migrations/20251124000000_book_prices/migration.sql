@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "market_lines" ADD COLUMN "price" DOUBLE PRECISION;
+
+-- AlterTable
+ALTER TABLE "bets" ADD COLUMN "book_name" TEXT;
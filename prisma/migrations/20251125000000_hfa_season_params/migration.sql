@@ -0,0 +1,22 @@
+-- CreateTable
+CREATE TABLE "hfa_season_params" (
+    "season" INTEGER NOT NULL,
+    "model_version" TEXT NOT NULL DEFAULT 'hfa_v3',
+    "base_hfa_points" DOUBLE PRECISION NOT NULL,
+    "travel_coef" DOUBLE PRECISION NOT NULL,
+    "timezone_coef" DOUBLE PRECISION NOT NULL,
+    "altitude_coef" DOUBLE PRECISION NOT NULL,
+    "rest_coef" DOUBLE PRECISION NOT NULL,
+    "crowd_coef" DOUBLE PRECISION NOT NULL,
+    "clip_min" DOUBLE PRECISION NOT NULL,
+    "clip_max" DOUBLE PRECISION NOT NULL,
+    "team_adjustments" JSONB NOT NULL,
+    "sample_size" INTEGER NOT NULL,
+    "rmse" DOUBLE PRECISION,
+    "base_only_rmse" DOUBLE PRECISION,
+    "trained_seasons" INTEGER[],
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "hfa_season_params_pkey" PRIMARY KEY ("season")
+);
@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "injuries" ADD COLUMN "depth_rank" INTEGER,
+ADD COLUMN "usage_share" DOUBLE PRECISION;
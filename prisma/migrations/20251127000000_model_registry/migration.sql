@@ -0,0 +1,7 @@
+-- AlterTable
+ALTER TABLE "model_calibration" ADD COLUMN "artifacts" JSONB,
+ADD COLUMN "is_active" BOOLEAN NOT NULL DEFAULT false,
+ADD COLUMN "activated_at" TIMESTAMP(3);
+
+-- CreateIndex
+CREATE INDEX "model_calibration_season_fit_label_is_active_idx" ON "model_calibration"("season", "fit_label", "is_active");
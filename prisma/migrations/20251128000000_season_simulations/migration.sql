@@ -0,0 +1,18 @@
+-- CreateTable
+CREATE TABLE "season_simulations" (
+    "id" TEXT NOT NULL,
+    "season" INTEGER NOT NULL,
+    "as_of_week" INTEGER NOT NULL,
+    "iterations" INTEGER NOT NULL,
+    "seed" INTEGER NOT NULL,
+    "model_version" TEXT NOT NULL,
+    "margin_sigma" DOUBLE PRECISION NOT NULL,
+    "teams" JSONB NOT NULL,
+    "conferences" JSONB NOT NULL,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "season_simulations_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "season_simulations_season_created_at_idx" ON "season_simulations"("season", "created_at");
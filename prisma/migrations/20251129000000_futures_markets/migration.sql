@@ -0,0 +1,27 @@
+-- CreateTable
+CREATE TABLE "futures_markets" (
+    "id" TEXT NOT NULL,
+    "season" INTEGER NOT NULL,
+    "team_id" TEXT NOT NULL,
+    "market_type" TEXT NOT NULL,
+    "conference" TEXT,
+    "line" DOUBLE PRECISION,
+    "over_price" INTEGER,
+    "under_price" INTEGER,
+    "price" INTEGER,
+    "book_name" TEXT NOT NULL,
+    "source" TEXT NOT NULL,
+    "captured_at" TIMESTAMP(3) NOT NULL,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "futures_markets_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "futures_markets_season_market_type_idx" ON "futures_markets"("season", "market_type");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "futures_markets_season_team_market_book_captured_key" ON "futures_markets"("season", "team_id", "market_type", "book_name", "captured_at");
+
+-- AddForeignKey
+ALTER TABLE "futures_markets" ADD CONSTRAINT "futures_markets_team_id_fkey" FOREIGN KEY ("team_id") REFERENCES "teams"("id") ON DELETE CASCADE ON UPDATE CASCADE;
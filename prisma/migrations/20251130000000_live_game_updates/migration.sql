@@ -0,0 +1,25 @@
+-- CreateTable
+CREATE TABLE "live_game_updates" (
+    "id" TEXT NOT NULL,
+    "game_id" TEXT NOT NULL,
+    "status" "GameStatus" NOT NULL,
+    "period" INTEGER NOT NULL,
+    "clock_seconds" INTEGER NOT NULL,
+    "home_score" INTEGER NOT NULL,
+    "away_score" INTEGER NOT NULL,
+    "possession" TEXT,
+    "source" TEXT NOT NULL,
+    "recorded_at" TIMESTAMP(3) NOT NULL,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "live_game_updates_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "live_game_updates_game_id_recorded_at_idx" ON "live_game_updates"("game_id", "recorded_at");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "live_game_updates_game_id_source_recorded_at_key" ON "live_game_updates"("game_id", "source", "recorded_at");
+
+-- AddForeignKey
+ALTER TABLE "live_game_updates" ADD CONSTRAINT "live_game_updates_game_id_fkey" FOREIGN KEY ("game_id") REFERENCES "games"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,18 @@
+-- CreateTable
+CREATE TABLE "adapter_health_checks" (
+    "id" TEXT NOT NULL,
+    "adapter" TEXT NOT NULL,
+    "provider" TEXT NOT NULL,
+    "capabilities" TEXT[],
+    "ok" BOOLEAN NOT NULL,
+    "latency_ms" INTEGER,
+    "message" TEXT NOT NULL,
+    "quota_remaining" INTEGER,
+    "quota_used" INTEGER,
+    "checked_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "adapter_health_checks_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "adapter_health_checks_adapter_checked_at_idx" ON "adapter_health_checks"("adapter", "checked_at");
@@ -0,0 +1,39 @@
+-- CreateTable
+CREATE TABLE "ingest_runs" (
+    "id" TEXT NOT NULL,
+    "job_name" TEXT NOT NULL,
+    "adapter" TEXT,
+    "season" INTEGER,
+    "weeks" INTEGER[],
+    "status" TEXT NOT NULL,
+    "started_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "finished_at" TIMESTAMP(3),
+    "rows_inserted" INTEGER NOT NULL DEFAULT 0,
+    "rows_updated" INTEGER NOT NULL DEFAULT 0,
+    "rows_skipped" INTEGER NOT NULL DEFAULT 0,
+    "unmatched_teams" TEXT[],
+    "api_credits_used" INTEGER NOT NULL DEFAULT 0,
+    "errors" TEXT[],
+
+    CONSTRAINT "ingest_runs_pkey" PRIMARY KEY ("id")
+);
+
+-- AlterTable
+ALTER TABLE "market_lines" ADD COLUMN "ingest_run_id" TEXT;
+ALTER TABLE "weather" ADD COLUMN "ingest_run_id" TEXT;
+ALTER TABLE "injuries" ADD COLUMN "ingest_run_id" TEXT;
+ALTER TABLE "team_game_stats" ADD COLUMN "ingest_run_id" TEXT;
+
+-- CreateIndex
+CREATE INDEX "ingest_runs_job_name_started_at_idx" ON "ingest_runs"("job_name", "started_at");
+CREATE INDEX "ingest_runs_started_at_idx" ON "ingest_runs"("started_at");
+CREATE INDEX "market_lines_ingest_run_id_idx" ON "market_lines"("ingest_run_id");
+CREATE INDEX "weather_ingest_run_id_idx" ON "weather"("ingest_run_id");
+CREATE INDEX "injuries_ingest_run_id_idx" ON "injuries"("ingest_run_id");
+CREATE INDEX "team_game_stats_ingest_run_id_idx" ON "team_game_stats"("ingest_run_id");
+
+-- AddForeignKey
+ALTER TABLE "market_lines" ADD CONSTRAINT "market_lines_ingest_run_id_fkey" FOREIGN KEY ("ingest_run_id") REFERENCES "ingest_runs"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+ALTER TABLE "weather" ADD CONSTRAINT "weather_ingest_run_id_fkey" FOREIGN KEY ("ingest_run_id") REFERENCES "ingest_runs"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+ALTER TABLE "injuries" ADD CONSTRAINT "injuries_ingest_run_id_fkey" FOREIGN KEY ("ingest_run_id") REFERENCES "ingest_runs"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+ALTER TABLE "team_game_stats" ADD CONSTRAINT "team_game_stats_ingest_run_id_fkey" FOREIGN KEY ("ingest_run_id") REFERENCES "ingest_runs"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,58 @@
+-- CreateTable
+CREATE TABLE "team_aliases" (
+    "id" TEXT NOT NULL,
+    "provider" TEXT NOT NULL DEFAULT 'general',
+    "alias" TEXT NOT NULL,
+    "alias_key" TEXT NOT NULL,
+    "team_id" TEXT NOT NULL,
+    "source" TEXT NOT NULL DEFAULT 'admin',
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "team_aliases_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "team_name_denylist" (
+    "id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "name_key" TEXT NOT NULL,
+    "source" TEXT NOT NULL DEFAULT 'admin',
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "team_name_denylist_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "unmatched_team_names" (
+    "id" TEXT NOT NULL,
+    "provider" TEXT NOT NULL,
+    "provider_name" TEXT NOT NULL,
+    "job_name" TEXT NOT NULL,
+    "season" INTEGER,
+    "weeks" INTEGER[],
+    "occurrences" INTEGER NOT NULL DEFAULT 1,
+    "status" TEXT NOT NULL DEFAULT 'pending',
+    "team_id" TEXT,
+    "last_ingest_run_id" TEXT,
+    "first_seen_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "last_seen_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "resolved_at" TIMESTAMP(3),
+    "reprocess_status" TEXT,
+    "reprocessed_at" TIMESTAMP(3),
+    "reprocess_error" TEXT,
+
+    CONSTRAINT "unmatched_team_names_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "team_aliases_provider_alias_key_key" ON "team_aliases"("provider", "alias_key");
+CREATE INDEX "team_aliases_team_id_idx" ON "team_aliases"("team_id");
+CREATE UNIQUE INDEX "team_name_denylist_name_key_key" ON "team_name_denylist"("name_key");
+CREATE UNIQUE INDEX "unmatched_team_names_provider_provider_name_key" ON "unmatched_team_names"("provider", "provider_name");
+CREATE INDEX "unmatched_team_names_status_last_seen_at_idx" ON "unmatched_team_names"("status", "last_seen_at");
+CREATE INDEX "unmatched_team_names_reprocess_status_idx" ON "unmatched_team_names"("reprocess_status");
+
+-- AddForeignKey
+ALTER TABLE "team_aliases" ADD CONSTRAINT "team_aliases_team_id_fkey" FOREIGN KEY ("team_id") REFERENCES "teams"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+ALTER TABLE "unmatched_team_names" ADD CONSTRAINT "unmatched_team_names_team_id_fkey" FOREIGN KEY ("team_id") REFERENCES "teams"("id") ON DELETE SET NULL ON UPDATE CASCADE;
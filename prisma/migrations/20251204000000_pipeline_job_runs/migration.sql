@@ -0,0 +1,22 @@
+-- CreateTable
+CREATE TABLE "pipeline_job_runs" (
+    "id" TEXT NOT NULL,
+    "idempotency_key" TEXT NOT NULL,
+    "pipeline" TEXT NOT NULL,
+    "job_name" TEXT NOT NULL,
+    "season" INTEGER NOT NULL,
+    "week" INTEGER NOT NULL,
+    "status" TEXT NOT NULL,
+    "attempts" INTEGER NOT NULL DEFAULT 0,
+    "command" TEXT NOT NULL,
+    "started_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "finished_at" TIMESTAMP(3),
+    "last_error" TEXT,
+
+    CONSTRAINT "pipeline_job_runs_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "pipeline_job_runs_idempotency_key_key" ON "pipeline_job_runs"("idempotency_key");
+CREATE INDEX "pipeline_job_runs_pipeline_season_week_idx" ON "pipeline_job_runs"("pipeline", "season", "week");
+CREATE INDEX "pipeline_job_runs_started_at_idx" ON "pipeline_job_runs"("started_at");
@@ -0,0 +1,42 @@
+-- Bets, bankrolls and rulesets get an owner. Existing rows keep user_id NULL,
+-- which is the shared house portfolio (official strategy bets).
+
+-- AlterTable
+ALTER TABLE "bets" ADD COLUMN "user_id" TEXT,
+ADD COLUMN "tailed_from_id" TEXT;
+
+-- AlterTable
+ALTER TABLE "bankrolls" ADD COLUMN "user_id" TEXT;
+
+-- AlterTable
+ALTER TABLE "rulesets" ADD COLUMN "user_id" TEXT;
+
+-- DropIndex
+DROP INDEX "bankrolls_name_key";
+
+-- CreateIndex
+CREATE UNIQUE INDEX "bankrolls_user_id_name_key" ON "bankrolls"("user_id", "name");
+
+-- House bankroll names stay unique (NULL user_ids are distinct in the index above)
+CREATE UNIQUE INDEX "bankrolls_house_name_key" ON "bankrolls"("name") WHERE "user_id" IS NULL;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "bets_user_id_tailed_from_id_key" ON "bets"("user_id", "tailed_from_id");
+
+-- CreateIndex
+CREATE INDEX "bets_user_id_season_week_idx" ON "bets"("user_id", "season", "week");
+
+-- CreateIndex
+CREATE INDEX "rulesets_user_id_idx" ON "rulesets"("user_id");
+
+-- AddForeignKey
+ALTER TABLE "bets" ADD CONSTRAINT "bets_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "bets" ADD CONSTRAINT "bets_tailed_from_id_fkey" FOREIGN KEY ("tailed_from_id") REFERENCES "bets"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "bankrolls" ADD CONSTRAINT "bankrolls_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "rulesets" ADD CONSTRAINT "rulesets_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,44 @@
+-- Parlays and teasers: a ticket is a bet with market_type parlay/teaser and no
+-- game or side of its own; its legs live in bet_legs.
+
+-- AlterEnum
+ALTER TYPE "BetType" ADD VALUE 'parlay';
+ALTER TYPE "BetType" ADD VALUE 'teaser';
+
+-- CreateEnum
+CREATE TYPE "BetLegResult" AS ENUM ('win', 'loss', 'push', 'void');
+
+-- AlterTable
+ALTER TABLE "bets" ALTER COLUMN "game_id" DROP NOT NULL,
+ALTER COLUMN "side" DROP NOT NULL,
+ADD COLUMN "teaser_points" DECIMAL(65,30);
+
+-- CreateTable
+CREATE TABLE "bet_legs" (
+    "id" TEXT NOT NULL,
+    "bet_id" TEXT NOT NULL,
+    "leg_index" INTEGER NOT NULL,
+    "game_id" TEXT NOT NULL,
+    "market_type" "BetType" NOT NULL,
+    "side" "BetSide" NOT NULL,
+    "line" DECIMAL(65,30),
+    "price" DECIMAL(65,30),
+    "kickoff" TIMESTAMP(3) NOT NULL,
+    "result" "BetLegResult",
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "bet_legs_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "bet_legs_bet_id_leg_index_key" ON "bet_legs"("bet_id", "leg_index");
+
+-- CreateIndex
+CREATE INDEX "bet_legs_game_id_idx" ON "bet_legs"("game_id");
+
+-- AddForeignKey
+ALTER TABLE "bet_legs" ADD CONSTRAINT "bet_legs_bet_id_fkey" FOREIGN KEY ("bet_id") REFERENCES "bets"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "bet_legs" ADD CONSTRAINT "bet_legs_game_id_fkey" FOREIGN KEY ("game_id") REFERENCES "games"("id") ON DELETE CASCADE ON UPDATE CASCADE;
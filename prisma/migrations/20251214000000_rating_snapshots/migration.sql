@@ -0,0 +1,91 @@
+-- Rating snapshots: append-only copies of team_season_ratings and
+-- team_unit_grades, written after each ratings / unit-grades run, so asOf
+-- replays no longer depend on rows that the next run overwrites in place.
+
+-- CreateTable
+CREATE TABLE "team_season_rating_snapshots" (
+    "id" TEXT NOT NULL,
+    "season" INTEGER NOT NULL,
+    "week" INTEGER,
+    "team_id" TEXT NOT NULL,
+    "model_version" TEXT NOT NULL,
+    "games" INTEGER NOT NULL DEFAULT 0,
+    "points_for" INTEGER,
+    "points_against" INTEGER,
+    "mov_avg" DECIMAL(65,30),
+    "rating" DECIMAL(65,30),
+    "power_rating" DECIMAL(65,30),
+    "offense_rating" DECIMAL(65,30),
+    "defense_rating" DECIMAL(65,30),
+    "sigma" DECIMAL(65,30),
+    "confidence" DECIMAL(65,30),
+    "data_source" TEXT,
+    "hfa_team" DECIMAL(65,30),
+    "hfa_raw" DECIMAL(65,30),
+    "hfa_n_home" INTEGER,
+    "hfa_n_away" INTEGER,
+    "hfa_shrink_w" DECIMAL(65,30),
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "team_season_rating_snapshots_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "team_unit_grade_snapshots" (
+    "id" TEXT NOT NULL,
+    "team_id" TEXT NOT NULL,
+    "season" INTEGER NOT NULL,
+    "week" INTEGER,
+    "off_run_grade" DOUBLE PRECISION NOT NULL,
+    "def_run_grade" DOUBLE PRECISION NOT NULL,
+    "off_pass_grade" DOUBLE PRECISION NOT NULL,
+    "def_pass_grade" DOUBLE PRECISION NOT NULL,
+    "off_explosiveness" DOUBLE PRECISION NOT NULL,
+    "def_explosiveness" DOUBLE PRECISION NOT NULL,
+    "havoc_grade" DOUBLE PRECISION NOT NULL,
+    "barnes_rating" DOUBLE PRECISION,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "team_unit_grade_snapshots_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "team_season_rating_snapshots_season_team_id_model_version_c_idx" ON "team_season_rating_snapshots"("season", "team_id", "model_version", "created_at");
+
+-- CreateIndex
+CREATE INDEX "team_unit_grade_snapshots_season_team_id_created_at_idx" ON "team_unit_grade_snapshots"("season", "team_id", "created_at");
+
+-- Backfill: the current rows are the only history we have. Stamp each with
+-- its last update and the last week that had final games by then.
+INSERT INTO "team_season_rating_snapshots" (
+    "id", "season", "week", "team_id", "model_version", "games", "points_for",
+    "points_against", "mov_avg", "rating", "power_rating", "offense_rating",
+    "defense_rating", "sigma", "confidence", "data_source", "hfa_team", "hfa_raw",
+    "hfa_n_home", "hfa_n_away", "hfa_shrink_w", "created_at"
+)
+SELECT
+    gen_random_uuid()::text, r."season",
+    (SELECT MAX(g."week") FROM "games" g
+      WHERE g."season" = r."season" AND g."status" = 'final'
+        AND g."date" <= COALESCE(r."updated_at", r."created_at")),
+    r."team_id", r."model_version", r."games", r."points_for", r."points_against",
+    r."mov_avg", r."rating", r."power_rating", r."offense_rating", r."defense_rating",
+    r."sigma", r."confidence", r."data_source", r."hfa_team", r."hfa_raw",
+    r."hfa_n_home", r."hfa_n_away", r."hfa_shrink_w",
+    COALESCE(r."updated_at", r."created_at")
+FROM "team_season_ratings" r;
+
+INSERT INTO "team_unit_grade_snapshots" (
+    "id", "team_id", "season", "week", "off_run_grade", "def_run_grade",
+    "off_pass_grade", "def_pass_grade", "off_explosiveness", "def_explosiveness",
+    "havoc_grade", "barnes_rating", "created_at"
+)
+SELECT
+    gen_random_uuid()::text, u."team_id", u."season",
+    (SELECT MAX(g."week") FROM "games" g
+      WHERE g."season" = u."season" AND g."status" = 'final'
+        AND g."date" <= u."updated_at"),
+    u."off_run_grade", u."def_run_grade", u."off_pass_grade", u."def_pass_grade",
+    u."off_explosiveness", u."def_explosiveness", u."havoc_grade", u."barnes_rating",
+    u."updated_at"
+FROM "team_unit_grades" u;
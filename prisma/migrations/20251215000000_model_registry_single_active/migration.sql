@@ -0,0 +1,21 @@
+-- Model registry: enforce at most one active version per season and fit label.
+-- activateCoreModel deactivates the previous version in the same transaction;
+-- this index stops two concurrent activations from both committing.
+-- Prisma cannot express partial indexes, so it lives only in this migration.
+
+-- Keep the most recently activated row if duplicates already exist
+UPDATE "model_calibration" SET "is_active" = false
+WHERE "id" IN (
+    SELECT "id" FROM (
+        SELECT "id", ROW_NUMBER() OVER (
+            PARTITION BY "season", "fit_label"
+            ORDER BY "activated_at" DESC NULLS LAST, "updated_at" DESC
+        ) AS "rank"
+        FROM "model_calibration"
+        WHERE "is_active"
+    ) ranked
+    WHERE ranked."rank" > 1
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "model_calibration_season_fit_label_active_key" ON "model_calibration"("season", "fit_label") WHERE "is_active";
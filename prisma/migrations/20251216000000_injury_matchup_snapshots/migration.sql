@@ -0,0 +1,75 @@
+-- Injury and matchup output snapshots: append-only copies of injuries and
+-- matchup_outputs, written alongside every in-place update, so asOf replays
+-- no longer depend on rows that the next ingest or model run overwrites.
+
+-- CreateTable
+CREATE TABLE "injury_snapshots" (
+    "id" TEXT NOT NULL,
+    "injury_id" TEXT NOT NULL,
+    "game_id" TEXT NOT NULL,
+    "team_id" TEXT NOT NULL,
+    "season" INTEGER NOT NULL,
+    "week" INTEGER NOT NULL,
+    "player_name" TEXT,
+    "position" TEXT NOT NULL,
+    "severity" "InjurySeverity" NOT NULL,
+    "body_part" TEXT,
+    "injury_type" TEXT,
+    "status" TEXT,
+    "depth_rank" INTEGER,
+    "usage_share" DOUBLE PRECISION,
+    "source" TEXT NOT NULL,
+    "reported_at" TIMESTAMP(3),
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "injury_snapshots_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "matchup_output_snapshots" (
+    "id" TEXT NOT NULL,
+    "matchup_output_id" TEXT NOT NULL,
+    "game_id" TEXT NOT NULL,
+    "season" INTEGER NOT NULL,
+    "week" INTEGER NOT NULL,
+    "implied_spread" DOUBLE PRECISION NOT NULL,
+    "implied_total" DOUBLE PRECISION NOT NULL,
+    "market_spread" DOUBLE PRECISION NOT NULL,
+    "market_total" DOUBLE PRECISION NOT NULL,
+    "edge_confidence" "EdgeConfidence" NOT NULL,
+    "model_version" TEXT NOT NULL,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "matchup_output_snapshots_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "injury_snapshots_game_id_created_at_idx" ON "injury_snapshots"("game_id", "created_at");
+
+-- CreateIndex
+CREATE INDEX "matchup_output_snapshots_game_id_model_version_created_at_idx" ON "matchup_output_snapshots"("game_id", "model_version", "created_at");
+
+-- Backfill: the current rows are the only history we have. Stamp each with
+-- its last update, so a replay before that sees no row rather than a later one.
+INSERT INTO "injury_snapshots" (
+    "id", "injury_id", "game_id", "team_id", "season", "week", "player_name",
+    "position", "severity", "body_part", "injury_type", "status", "depth_rank",
+    "usage_share", "source", "reported_at", "created_at"
+)
+SELECT
+    gen_random_uuid()::text, i."id", i."game_id", i."team_id", i."season", i."week",
+    i."player_name", i."position", i."severity", i."body_part", i."injury_type",
+    i."status", i."depth_rank", i."usage_share", i."source", i."reported_at",
+    i."updated_at"
+FROM "injuries" i;
+
+INSERT INTO "matchup_output_snapshots" (
+    "id", "matchup_output_id", "game_id", "season", "week", "implied_spread",
+    "implied_total", "market_spread", "market_total", "edge_confidence",
+    "model_version", "created_at"
+)
+SELECT
+    gen_random_uuid()::text, m."id", m."game_id", m."season", m."week",
+    m."implied_spread", m."implied_total", m."market_spread", m."market_total",
+    m."edge_confidence", m."model_version", m."updated_at"
+FROM "matchup_outputs" m;
@@ -0,0 +1,233 @@
+/**
+ * Spread Model Calibration
+ *
+ * One calibration command for every spread fit (replaces the calibrate-model-* scripts).
+ * Loads GameTrainingRow for the requested seasons and feature version, fits the chosen
+ * estimator on a declared feature list with time-series CV by week, applies the gates
+ * (slope, sign agreement, Pearson, RMSE, coefficient signs) to the walk-forward
+ * predictions and writes a complete ModelCalibration row (hyperparameter grid,
+ * coefficients, scalers, train + walk-forward metrics, gate details, residual
+ * diagnostics and the training row IDs). See apps/web/lib/calibration.ts.
+ *
+ * A linear `core_v1` fit (features ratingDiffBlend + hfaPoints) is also stored with
+ * servable artifacts, so it shows up in the model registry and can be activated.
+ *
+ * Usage:
+ *   npx tsx scripts/calibrate.ts --season 2025 --model-version cal_2025_ridge
+ *     [--seasons 2024,2025] [--estimator ols|ridge|elastic_net|quadratic]
+ *     [--features core_v1|core|extended|ratingDiffV2,hfaPoints,...] [--sets A,B]
+ *     [--feature-version fe_v1] [--min-train-weeks 3] [--max-rmse 9.0]
+ *     [--dry-run] [--activate]
+ */
+
+import { prisma } from '../apps/web/lib/prisma';
+import {
+  DEFAULT_GATE_THRESHOLDS,
+  ESTIMATORS,
+  EstimatorName,
+  resolveFeatureList,
+  runCalibration,
+} from '../apps/web/lib/calibration';
+import { loadCalibrationRows } from '../apps/web/lib/calibration-context';
+import {
+  BUNDLED_CORE_ARTIFACTS,
+  BUNDLED_MODEL_VERSION,
+  CORE_V1_FIT_LABEL,
+  activateCoreModel,
+  clearModelRegistryCache,
+} from '../apps/web/lib/model-registry';
+
+function parseArgs() {
+  const args = process.argv.slice(2);
+  let seasons: number[] = [];
+  let estimator: EstimatorName = 'ridge';
+  let features = 'core';
+  let sets = ['A', 'B'];
+  let featureVersion = 'fe_v1';
+  let modelVersion: string | null = null;
+  let minTrainWeeks = 3;
+  let maxRmse = DEFAULT_GATE_THRESHOLDS.rmseMax;
+  let dryRun = false;
+  let activate = false;
+
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+    if (arg === '--season' && i + 1 < args.length) {
+      seasons = [parseInt(args[++i], 10)];
+    } else if (arg === '--seasons' && i + 1 < args.length) {
+      seasons = args[++i].split(',').map(s => parseInt(s.trim(), 10));
+    } else if (arg === '--estimator' && i + 1 < args.length) {
+      estimator = args[++i] as EstimatorName;
+    } else if (arg === '--features' && i + 1 < args.length) {
+      features = args[++i];
+    } else if (arg === '--sets' && i + 1 < args.length) {
+      sets = args[++i].split(',').map(s => s.trim().toUpperCase());
+    } else if (arg === '--feature-version' && i + 1 < args.length) {
+      featureVersion = args[++i];
+    } else if (arg === '--model-version' && i + 1 < args.length) {
+      modelVersion = args[++i];
+    } else if (arg === '--min-train-weeks' && i + 1 < args.length) {
+      minTrainWeeks = parseInt(args[++i], 10);
+    } else if (arg === '--max-rmse' && i + 1 < args.length) {
+      maxRmse = parseFloat(args[++i]);
+    } else if (arg === '--dry-run') {
+      dryRun = true;
+    } else if (arg === '--activate') {
+      activate = true;
+    }
+  }
+
+  return { seasons, estimator, features, sets, featureVersion, modelVersion, minTrainWeeks, maxRmse, dryRun, activate };
+}
+
+async function main() {
+  const options = parseArgs();
+  const estimator = ESTIMATORS[options.estimator];
+
+  if (options.seasons.length === 0 || options.seasons.some(s => isNaN(s))) {
+    console.error('Usage: calibrate --season <year> | --seasons <y1,y2> --model-version <name> [options]');
+    process.exit(1);
+  }
+  if (!estimator) {
+    console.error(`Unknown estimator: ${options.estimator} (expected ${Object.keys(ESTIMATORS).join(', ')})`);
+    process.exit(1);
+  }
+  if (!options.dryRun && !options.modelVersion) {
+    console.error('--model-version is required unless --dry-run');
+    process.exit(1);
+  }
+  if (options.modelVersion === BUNDLED_MODEL_VERSION) {
+    console.error(`${BUNDLED_MODEL_VERSION} is reserved for the bundled model`);
+    process.exit(1);
+  }
+
+  const { label, features } = resolveFeatureList(options.features);
+  const season = Math.max(...options.seasons);
+  const thresholds = { ...DEFAULT_GATE_THRESHOLDS, rmseMax: options.maxRmse };
+
+  console.log(`\n🎯 Calibrating ${estimator.name} on ${label} [${features.join(', ')}]`);
+  console.log(`   Seasons ${options.seasons.join(', ')} · sets ${options.sets.join('+')} · ${options.featureVersion}`);
+
+  // Blend uses the bundled MFTR/normalization so the fit matches the artifacts stored below
+  const { rows, dropped } = await loadCalibrationRows({
+    seasons: options.seasons,
+    featureVersion: options.featureVersion,
+    sets: options.sets,
+    features,
+  });
+  console.log(`   Loaded ${rows.length} rows${dropped > 0 ? ` (dropped ${dropped} missing required features)` : ''}`);
+
+  const result = runCalibration(rows, {
+    estimator,
+    features,
+    minTrainWeeks: options.minTrainWeeks,
+    thresholds,
+  });
+
+  console.log(`\n📐 Best hyperparameters: alpha=${result.best.alpha}, l1Ratio=${result.best.l1Ratio} (CV RMSE ${result.best.cvRmse.toFixed(3)})`);
+  console.log(`   Intercept: ${result.intercept.toFixed(4)}`);
+  for (const name of result.featureNames) {
+    const coef = result.coefficients[name];
+    console.log(`   ${name.padEnd(22)} ${coef.original.toFixed(4).padStart(10)}  (std ${coef.standardized.toFixed(4)})`);
+  }
+
+  console.log(`\n📊 Train (n=${result.train.n}):        RMSE: ${result.train.rmse.toFixed(3)} points, R²: ${(result.train.r2 * 100).toFixed(2)}%`);
+  console.log(`   Walk-forward (n=${result.walkForward.n}, ${result.folds} weeks): RMSE: ${result.walkForward.rmse.toFixed(3)} points, R²: ${(result.walkForward.r2 * 100).toFixed(2)}%`);
+
+  console.log('\n🚦 Gates (walk-forward):');
+  for (const check of result.gates.checks) {
+    console.log(`   ${check.passed ? '✅' : '❌'} ${check.gate.padEnd(24)} ${check.value.toFixed(3).padStart(8)}  (${check.target})`);
+  }
+  console.log(`   ${result.gates.allPassed ? '✅ All gates passed' : '❌ Gates failed'}`);
+
+  console.log(`\n🔍 Residuals: mean ${result.residuals.meanResidual.toFixed(2)}, sd ${result.residuals.sdResidual.toFixed(2)}`);
+  for (const bucket of result.residuals.bySpread) {
+    console.log(`   |spread| ${bucket.label.padEnd(6)} n=${String(bucket.count).padEnd(5)} mean ${bucket.meanResidual.toFixed(2).padStart(6)}  MAE ${bucket.mae.toFixed(2)}`);
+  }
+
+  if (options.dryRun) {
+    console.log('\n🔍 Dry run - nothing written');
+    return;
+  }
+
+  const modelVersion = options.modelVersion!;
+  // Only a linear fit of exactly the Core V1 inputs is servable by core-v1-spread.ts
+  const servable = label === CORE_V1_FIT_LABEL && !estimator.expandFeatures;
+  const artifacts = servable
+    ? {
+        ...BUNDLED_CORE_ARTIFACTS,
+        coefficients: {
+          beta0: result.intercept,
+          betaRatingDiff: result.coefficients.ratingDiffBlend.original,
+          betaHfa: result.coefficients.hfaPoints.original,
+        },
+      }
+    : null;
+
+  const data = {
+    season,
+    featureVersion: options.featureVersion,
+    bestAlpha: result.best.alpha,
+    bestL1Ratio: result.best.l1Ratio,
+    gridSearchResults: result.grid as any,
+    coefficients: result.coefficients as any,
+    intercept: result.intercept,
+    scalerParams: result.scalers as any,
+    trainRmse: result.train.rmse,
+    trainR2: result.train.r2,
+    trainPearson: result.train.pearson,
+    trainSpearman: result.train.spearman,
+    walkForwardRmse: result.walkForward.rmse,
+    walkForwardR2: result.walkForward.r2,
+    walkForwardPearson: result.walkForward.pearson,
+    walkForwardSpearman: result.walkForward.spearman,
+    slope: result.gates.slope,
+    signAgreement: result.gates.signAgreement,
+    gatesPassed: result.gates.allPassed,
+    gateDetails: {
+      estimator: estimator.name,
+      features,
+      featureNames: result.featureNames,
+      seasons: options.seasons,
+      hyperparams: { alpha: result.best.alpha, l1Ratio: result.best.l1Ratio },
+      cv: { scheme: 'expanding_window_by_week', minTrainWeeks: options.minTrainWeeks, folds: result.folds },
+      thresholds,
+      checks: result.gates.checks,
+      droppedRows: dropped,
+      walkForwardRowIds: result.walkForwardRowIds,
+    } as any,
+    residualSummary: result.residuals as any,
+    topOutliers: result.outliers as any,
+    trainingRowIds: rows.map(r => r.gameId),
+    setLabels: options.sets,
+    ...(artifacts ? { artifacts: artifacts as any } : {}),
+  };
+
+  await prisma.modelCalibration.upsert({
+    where: { modelVersion_fitLabel: { modelVersion, fitLabel: label } },
+    update: data,
+    create: { modelVersion, fitLabel: label, ...data },
+  });
+  clearModelRegistryCache();
+  console.log(`\n💾 Saved ModelCalibration ${modelVersion}/${label}${artifacts ? ' (servable in the model registry)' : ''}`);
+
+  if (options.activate) {
+    if (!artifacts) {
+      console.log(`⚠️  --activate ignored: only a linear ${CORE_V1_FIT_LABEL} fit can be served`);
+    } else if (!result.gates.allPassed) {
+      console.log('⚠️  --activate ignored: gates failed');
+    } else {
+      await activateCoreModel(modelVersion);
+      console.log(`✅ ${modelVersion} is now active for ${season}`);
+    }
+  }
+}
+
+main()
+  .catch((error) => {
+    console.error('❌ Calibration failed:', error);
+    process.exit(1);
+  })
+  .finally(async () => {
+    await prisma.$disconnect();
+  });
@@ -1,19 +1,17 @@
 /**
  * Debug script to verify current week detection
  */
-import { PrismaClient } from '@prisma/client';
-import { getCurrentSeasonWeek } from '../apps/web/lib/current-week';
-
-const prisma = new PrismaClient();
+import { prisma } from '../apps/web/lib/prisma';
+import { getCurrentSeasonWeek } from '../apps/web/lib/season-calendar-context';
 
 async function main() {
   console.log('🔍 Debug: Current Week Detection\n');
   
   // Get current week using the same helper as the API
-  const result = await getCurrentSeasonWeek(prisma);
+  const result = await getCurrentSeasonWeek();
   
   console.log(`Current season: ${result.season}`);
-  console.log(`Current week: ${result.week}\n`);
+  console.log(`Current week: ${result.week} (${result.label})\n`);
   
   // Get detailed info about the selected week
   const weekGames = await prisma.game.findMany({
@@ -261,7 +261,7 @@ async function runOLSProbe(setLabel: string) {
     
     let ratingDiff: number;
     if (mftrRatings && blendConfig) {
-      // Compute blend (same logic as calibrate-model-v1-rehab.ts)
+      // Compute blend (same logic as computeRatingDiffBlend in lib/core-v1-spread.ts)
       const homeMFTR = mftrRatings.get(row.homeTeamId);
       const awayMFTR = mftrRatings.get(row.awayTeamId);
       
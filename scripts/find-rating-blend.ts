@@ -401,7 +401,7 @@ async function main() {
   console.log('='.repeat(70));
   console.log(`\n📋 Next steps:`);
   console.log(`   1. Use optimal weight w = ${best.w.toFixed(2)} in calibration`);
-  console.log(`   2. Update calibrate-model-v1-rehab.ts to use rating_blend`);
+  console.log(`   2. Run scripts/calibrate.ts --features core_v1 to refit on rating_blend`);
   console.log(`   3. Re-run Core calibration with rating_blend`);
   console.log(`   4. Verify gates pass: Pearson ≥ 0.30, Spearman ≥ 0.30, RMSE ≤ 8.8\n`);
 }
@@ -984,7 +984,7 @@ async function evaluateWithElasticNet(
   modelVersion: string
 ): Promise<any> {
   // TODO: Full implementation needed
-  // This should reuse Elastic Net evaluation logic from calibrate-model-elastic-net.ts
+  // This should reuse the elastic_net estimator in apps/web/lib/calibration.ts
   // For now, load data and compute baseline as placeholder
   const config = DATASET_CONFIG[set];
   const rows = await loadCalibrationDataWithModelVersion(season, config, modelVersion);
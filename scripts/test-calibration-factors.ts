@@ -38,15 +38,15 @@ async function testCalibrationFactors() {
     });
     
     console.log(`   🎯 Running calibration...`);
-    const output = execSync('npm run calibrate:ridge 2025 1-11', {
+    const output = execSync('npm run calibrate -- --season 2025 --estimator ridge --features ratingDiffV2,hfaPoints --dry-run', {
       cwd: path.join(__dirname, '..'),
       encoding: 'utf-8'
     });
     
-    // Parse R² and RMSE from output
-    const r2Match = output.match(/R²:\s+([\d.]+)%/);
-    const rmseMatch = output.match(/RMSE:\s+([\d.]+)\s+points/);
-    const beta1Match = output.match(/β₁ \(rating_diff\):\s+([-\d.]+)/);
+    // Parse walk-forward R²/RMSE and the rating coefficient from output
+    const r2Match = output.match(/Walk-forward.*R²:\s+([-\d.]+)%/);
+    const rmseMatch = output.match(/Walk-forward.*RMSE:\s+([\d.]+)\s+points/);
+    const beta1Match = output.match(/ratingDiffV2\s+([-\d.]+)/);
     
     const r2 = r2Match ? parseFloat(r2Match[1]) : 0;
     const rmse = rmseMatch ? parseFloat(rmseMatch[1]) : 999;
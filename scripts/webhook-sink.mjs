@@ -0,0 +1,60 @@
+#!/usr/bin/env node
+
+/**
+ * Local webhook sink
+ * Stand-in for a real alert webhook: accepts POSTs, prints each payload and
+ * appends it to reports/webhook-sink.jsonl.
+ *
+ * Usage:
+ *   node scripts/webhook-sink.mjs [--port 4010] [--fail]
+ *   ALERT_WEBHOOK_URL=http://localhost:4010/alerts node apps/jobs/dist/src/alerts/line-alerts.js --season 2025 --weeks 9
+ *
+ * --fail answers every request with 500 to exercise failed-delivery handling.
+ */
+
+import http from 'node:http';
+import fs from 'node:fs';
+import path from 'node:path';
+
+const args = process.argv.slice(2);
+const portIndex = args.indexOf('--port');
+const port = portIndex >= 0 ? parseInt(args[portIndex + 1], 10) : parseInt(process.env.WEBHOOK_SINK_PORT || '4010', 10);
+const fail = args.includes('--fail');
+
+const logFile = path.join(process.cwd(), 'reports', 'webhook-sink.jsonl');
+fs.mkdirSync(path.dirname(logFile), { recursive: true });
+
+const server = http.createServer((req, res) => {
+  if (req.method !== 'POST') {
+    res.writeHead(405, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify({ ok: false, error: 'POST only' }));
+    return;
+  }
+
+  let body = '';
+  req.on('data', chunk => { body += chunk; });
+  req.on('end', () => {
+    let payload;
+    try {
+      payload = JSON.parse(body);
+    } catch {
+      payload = body;
+    }
+
+    const received = { receivedAt: new Date().toISOString(), path: req.url, payload };
+    fs.appendFileSync(logFile, JSON.stringify(received) + '\n');
+
+    const alerts = Array.isArray(payload?.alerts) ? payload.alerts : [];
+    console.log(`📨 ${received.receivedAt} ${req.url} - ${alerts.length} alert(s)`);
+    for (const alert of alerts) {
+      console.log(`   • [${alert.ruleType}] ${alert.message}`);
+    }
+
+    res.writeHead(fail ? 500 : 200, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify({ ok: !fail, received: alerts.length }));
+  });
+});
+
+server.listen(port, () => {
+  console.log(`🪝 Webhook sink listening on http://localhost:${port} (logging to ${logFile})${fail ? ' - failing every request' : ''}`);
+});